@@ -0,0 +1,56 @@
+/**
+ * @file push-sw.js
+ * @description Web Push 처리 (workbox가 생성한 Service Worker에서 importScripts로 로드)
+ *
+ * Relay가 보낸 푸시 데이터(PushMessageData)를 알림으로 표시하고,
+ * 알림을 누르면 열려 있는 창에 대화 선택을 요청하거나 앱을 엽니다.
+ */
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // 앱을 보고 있으면 화면에서 바로 확인할 수 있으므로 알림 생략
+      if (clients.some((client) => client.focused)) return;
+
+      return self.registration.showNotification(data.title, {
+        body: data.body,
+        tag: data.tag,
+        icon: '/relay/pwa-192x192.png',
+        badge: '/relay/pwa-192x192.png',
+        // 응답이 필요한 알림은 사용자가 닫을 때까지 유지
+        requireInteraction: data.event === 'permission' || data.event === 'question',
+        renotify: true,
+        data,
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        client.postMessage({
+          type: 'push_notification_click',
+          pylonId: data.pylonId,
+          conversationId: data.conversationId,
+        });
+        return client.focus();
+      }
+      return self.clients.openWindow('/relay/');
+    })
+  );
+});
@@ -3,12 +3,15 @@ import { Routes, Route, useLocation } from 'react-router-dom';
 import { useRelayStore } from './stores';
 import { useAuthStore } from './stores/authStore';
 import { useSettingsStore } from './stores/settingsStore';
+import { useWorkspaceStore } from './stores/workspaceStore';
+import { useConversationStore } from './stores/conversationStore';
 import { RelayConfig, AppConfig } from './utils/config';
 import { loadVersionInfo } from './utils/buildInfo';
 import { routeMessage } from './hooks/useMessageRouter';
-import { setWebSocket } from './services/relaySender';
+import { setWebSocket, requestPushConfig, selectConversation } from './services/relaySender';
 import { syncOrchestrator } from './services/syncOrchestrator';
 import { blobService } from './services/blobService';
+import { e2eService } from './services/e2eService';
 import type { RelayMessage } from './services/relayService';
 import { HomePage } from './pages/HomePage';
 import { SharePage } from './pages/SharePage';
@@ -74,6 +77,14 @@ function useRelayConnection() {
 
           // 워크스페이스 목록 요청 (syncOrchestrator 경유)
           syncOrchestrator.startInitialSync();
+
+          // 푸시 알림용 VAPID 공개키 요청
+          requestPushConfig();
+
+          // 페어링 링크(#pair=...)로 열었으면 페어링 후 fragment 제거
+          if (e2eService.pairFromLink(window.location.hash)) {
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          }
         }
         return;
       }
@@ -133,9 +144,13 @@ function useRelayConnection() {
           console.log('[Relay] Connected');
           setConnected(true);
 
+          // E2E: 페어링한 Pylon과의 메시지는 e2eService가 암호화/복호화
+          const transport = { send: (data: unknown) => ws.send(JSON.stringify(data)) };
+          e2eService.attach(transport, handleMessage);
+
           // blobService에 sender 설정
           blobService.setSender({
-            send: (data) => ws.send(JSON.stringify(data)),
+            send: (data) => e2eService.send(data as unknown as RelayMessage, transport),
           });
 
           // 인증 요청 (Google idToken 포함)
@@ -168,6 +183,7 @@ function useRelayConnection() {
           }
 
           syncOrchestrator.cleanup();
+          e2eService.detach();
           setConnected(false);
           setWebSocket(null);
 
@@ -187,7 +203,7 @@ function useRelayConnection() {
         ws.onmessage = (event) => {
           try {
             const message = JSON.parse(event.data) as RelayMessage;
-            handleMessage(message);
+            e2eService.receive(message);
           } catch (e) {
             console.error('[Relay] Failed to parse message:', e);
           }
@@ -214,11 +230,36 @@ function useRelayConnection() {
   }, [setConnected, handleMessage, isGoogleAuthenticated, idToken, isSharePage]);
 }
 
+/**
+ * 푸시 알림 클릭 처리
+ *
+ * Service Worker가 열려 있는 창으로 보낸 메시지를 받아 해당 대화를 선택합니다.
+ */
+function usePushNotificationClick() {
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as { type?: string; pylonId?: number; conversationId?: number } | null;
+      if (data?.type !== 'push_notification_click') return;
+      if (data.pylonId === undefined || data.conversationId === undefined) return;
+
+      useWorkspaceStore.getState().selectConversation(data.pylonId, data.conversationId);
+      useConversationStore.getState().setCurrentConversation(data.conversationId);
+      selectConversation(data.conversationId);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+}
+
 export function App() {
   useVersionInfo();
   useDocumentTitle();
   useViewportHeight();
   useRelayConnection();
+  usePushNotificationClick();
 
   return (
     <Routes>
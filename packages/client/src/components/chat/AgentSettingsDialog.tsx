@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { AGENT_EFFORTS, isConversationAgentSettings, type AgentEffort, type ConversationAgentSettings } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+
+interface AgentSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  settings?: ConversationAgentSettings;
+  /** 저장 (모든 값이 비어 있으면 null) */
+  onSave: (settings: ConversationAgentSettings | null) => void;
+}
+
+interface AgentSettingsForm {
+  model: string;
+  effort: AgentEffort | '';
+  maxTurns: string;
+  maxCostUsd: string;
+}
+
+const EFFORT_LABELS: Record<AgentEffort, string> = {
+  low: '낮음',
+  medium: '보통',
+  high: '높음',
+  max: '최대',
+};
+
+const EMPTY_FORM: AgentSettingsForm = { model: '', effort: '', maxTurns: '', maxCostUsd: '' };
+
+function toForm(settings: ConversationAgentSettings = {}): AgentSettingsForm {
+  return {
+    model: settings.model ?? '',
+    effort: settings.effort ?? '',
+    maxTurns: settings.maxTurns === undefined ? '' : String(settings.maxTurns),
+    maxCostUsd: settings.maxCostUsd === undefined ? '' : String(settings.maxCostUsd),
+  };
+}
+
+/**
+ * 폼 값을 에이전트 설정으로 변환 (빈 값은 생략, 유효하지 않으면 null)
+ */
+function parseForm(form: AgentSettingsForm): ConversationAgentSettings | null {
+  const settings: ConversationAgentSettings = {};
+  if (form.model.trim()) settings.model = form.model.trim();
+  if (form.effort) settings.effort = form.effort;
+  if (form.maxTurns.trim()) settings.maxTurns = Number(form.maxTurns);
+  if (form.maxCostUsd.trim()) settings.maxCostUsd = Number(form.maxCostUsd);
+  return isConversationAgentSettings(settings) ? settings : null;
+}
+
+/**
+ * 대화 에이전트 설정 다이얼로그
+ *
+ * - 모델, 추론 강도, 메시지당 턴 한도, 대화 비용 한도
+ * - 응답 중에 바꾸면 다음 메시지부터 적용
+ */
+export function AgentSettingsDialog({ open, onClose, settings, onSave }: AgentSettingsDialogProps) {
+  const [form, setForm] = useState<AgentSettingsForm>(toForm(settings));
+
+  // 열 때마다 현재 설정으로 초기화
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(settings));
+    }
+  }, [open, settings]);
+
+  const parsed = parseForm(form);
+
+  const handleSave = () => {
+    if (!parsed) return;
+    onSave(Object.keys(parsed).length > 0 ? parsed : null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>에이전트 설정</DialogTitle>
+          <DialogDescription>
+            비워 둔 값은 에이전트 기본값을 씁니다. 응답 중에 바꾸면 다음 메시지부터 적용됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <span className="flex-1 text-muted-foreground">모델</span>
+            <Input
+              className="w-48 h-8"
+              placeholder="기본값"
+              value={form.model}
+              onChange={(e) => setForm((prev) => ({ ...prev, model: e.target.value }))}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="flex-1 text-muted-foreground">추론 강도</span>
+            <select
+              value={form.effort}
+              onChange={(e) => setForm((prev) => ({ ...prev, effort: e.target.value as AgentEffort | '' }))}
+              className="w-48 h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+            >
+              <option value="">기본값</option>
+              {AGENT_EFFORTS.map((effort) => (
+                <option key={effort} value={effort}>
+                  {EFFORT_LABELS[effort]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="flex-1 text-muted-foreground">메시지당 최대 턴</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-48 h-8"
+              placeholder="무제한"
+              value={form.maxTurns}
+              onChange={(e) => setForm((prev) => ({ ...prev, maxTurns: e.target.value }))}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="flex-1 text-muted-foreground">대화 최대 비용 (USD)</span>
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              className="w-48 h-8"
+              placeholder="무제한"
+              value={form.maxCostUsd}
+              onChange={(e) => setForm((prev) => ({ ...prev, maxCostUsd: e.target.value }))}
+            />
+          </label>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-destructive">
+              {parsed ? '' : '올바른 값을 입력하세요'}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setForm(EMPTY_FORM)}>
+              기본값
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            한도에 도달하면 응답을 중단합니다. 비용 한도는 이 대화의 누적 비용에 적용되며, 비용을 보고하는 에이전트(Claude)에만 적용됩니다.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            취소
+          </Button>
+          <Button onClick={handleSave} disabled={!parsed}>
+            저장
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
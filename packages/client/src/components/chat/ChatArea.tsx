@@ -3,6 +3,7 @@ import { MessageList } from './MessageList';
 import { InputBar } from './InputBar';
 import { RequestBar } from '../requests/RequestBar';
 import { ChatHeader } from './ChatHeader';
+import { WorkerPanel } from '../task/WorkerPanel';
 import { useWorkspaceStore, useUploadStore, useConversationStore, useCurrentConversationState, useSyncStore } from '../../stores';
 import { useImageUploadStore } from '../../stores/imageUploadStore';
 import { sendClaudeMessage, sendClaudeControl, requestMoreHistory } from '../../services/relaySender';
@@ -249,6 +250,14 @@ export function ChatArea() {
       {/* 채팅 헤더 */}
       <ChatHeader />
 
+      {/* 태스크 워커 패널 */}
+      {selectedConversation && (
+        <WorkerPanel
+          pylonId={selectedConversation.pylonId}
+          workspaceId={Number(selectedConversation.workspaceId)}
+        />
+      )}
+
       {/* 메시지 목록 (WorkingIndicator 포함) */}
       <MessageList
         hasMoreHistory={hasMoreBefore}
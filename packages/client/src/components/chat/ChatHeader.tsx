@@ -1,15 +1,20 @@
 import { useState, useRef, useEffect, useContext, useCallback } from 'react';
-import { ArrowLeft, Check, X, FileText } from 'lucide-react';
-import { MessageType } from '@estelle/core';
+import { ArrowLeft, Check, X, FileText, GitBranch, Cpu } from 'lucide-react';
+import { MessageType, SHARE_KEY_FRAGMENT, type ExportFormat, type ConversationExportResultPayload, type ConversationWorktreeAction } from '@estelle/core';
 import { useWorkspaceStore, useDeviceConfigStore, useConversationStore } from '../../stores';
 import { useResponsive } from '../../hooks/useResponsive';
 import { SessionMenuButton } from '../common/SessionMenuButton';
 import { BugReportDialog } from '../common/BugReportDialog';
 import { ShareDialog } from '../share/ShareDialog';
+import { TaskBoardDialog } from '../task/TaskBoardDialog';
+import { GitPanelDialog } from '../git/GitPanelDialog';
+import { WidgetLauncherDialog } from '../widget/WidgetLauncherDialog';
 import { MobileLayoutContext } from '../../layouts/MobileLayout';
 import { getDeviceIcon } from '../../utils/device-icons';
-import { setPermissionMode, renameConversation, deleteConversation, sendBugReport, sendClaudeControl, blobService, createShare, getWebSocket } from '../../services';
+import { setPermissionMode, setAgentSettings, renameConversation, deleteConversation, sendBugReport, sendClaudeControl, blobService, createShare, getWebSocket, requestConversationExport, e2eService } from '../../services';
+import { saveBytesAsFile } from '../../utils/fileUtils';
 import { clearDraftText } from './InputBar';
+import { AgentSettingsDialog } from './AgentSettingsDialog';
 import { Button } from '../ui/button';
 import { FileViewer } from '../viewers/FileViewer';
 
@@ -27,6 +32,10 @@ interface ChatHeaderProps {
 export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
   const [showBugReport, setShowBugReport] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showTaskBoard, setShowTaskBoard] = useState(false);
+  const [showGitPanel, setShowGitPanel] = useState(false);
+  const [showWidgetLauncher, setShowWidgetLauncher] = useState(false);
+  const [showAgentSettings, setShowAgentSettings] = useState(false);
   const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [shareLoading, setShareLoading] = useState(false);
   const [shareError, setShareError] = useState<string | null>(null);
@@ -34,7 +43,7 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
   const [renameValue, setRenameValue] = useState('');
   const [viewingDocument, setViewingDocument] = useState<{ path: string; content: string | null } | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const { selectedConversation, updatePermissionMode } = useWorkspaceStore();
+  const { selectedConversation, updatePermissionMode, updateAgentSettings } = useWorkspaceStore();
   const { getIcon } = useDeviceConfigStore();
   const { isDesktop } = useResponsive();
   const { openSidebar } = useContext(MobileLayoutContext);
@@ -119,8 +128,13 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
     }
   }, [confirmRename, cancelRename]);
 
-  const handleDelete = useCallback(() => {
+  const handleDelete = useCallback((worktreeAction?: ConversationWorktreeAction) => {
     if (!selectedConversation) return;
+    // worktree 대화는 정리(병합 등)가 끝난 뒤 conversation_delete_result를 받고 선택 해제
+    if (selectedConversation.worktree) {
+      deleteConversation(selectedConversation.conversationId, worktreeAction);
+      return;
+    }
     deleteConversation(selectedConversation.conversationId);
     // 선택 해제
     useWorkspaceStore.getState().clearSelection();
@@ -137,42 +151,36 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
     setShareError(null);
     setShareUrl(null);
 
-    // WebSocket 메시지 리스너
-    const ws = getWebSocket();
-    if (!ws) {
+    if (!getWebSocket()) {
       setShareLoading(false);
       setShareError('서버에 연결되어 있지 않습니다.');
       return;
     }
 
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const message = JSON.parse(event.data);
-        if (message.type === MessageType.SHARE_CREATE_RESULT) {
-          ws.removeEventListener('message', handleMessage);
-          setShareLoading(false);
-
-          if (message.payload.success) {
-            const shareId = message.payload.shareId;
-            const url = `${window.location.origin}/share/${shareId}`;
-            setShareUrl(url);
-          } else {
-            setShareError(message.payload.error || '공유 링크 생성에 실패했습니다.');
-          }
-        }
-      } catch {
-        // JSON 파싱 에러 무시
-      }
-    };
+    // 응답 리스너 (e2eService가 복호화한 메시지)
+    const removeListener = e2eService.addMessageListener((message) => {
+      if (message.type !== MessageType.SHARE_CREATE_RESULT) return;
 
-    ws.addEventListener('message', handleMessage);
+      removeListener();
+      setShareLoading(false);
+
+      if (message.payload.success) {
+        const shareId = message.payload.shareId;
+        const key = message.payload.key;
+        // 공유 키는 fragment로 전달 (서버로 전송되지 않음)
+        const url = `${window.location.origin}/share/${shareId}${key ? `#${SHARE_KEY_FRAGMENT}=${key}` : ''}`;
+        setShareUrl(url);
+      } else {
+        setShareError((message.payload.error as string) || '공유 링크 생성에 실패했습니다.');
+      }
+    });
 
     // 공유 요청 전송
     createShare(selectedConversation.conversationId);
 
     // 타임아웃 처리
     setTimeout(() => {
-      ws.removeEventListener('message', handleMessage);
+      removeListener();
       if (shareLoading) {
         setShareLoading(false);
         setShareError('요청 시간이 초과되었습니다.');
@@ -180,6 +188,58 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
     }, 10000);
   }, [selectedConversation, shareLoading]);
 
+  // 내보내기 핸들러
+  // Pylon이 파일을 생성하면 응답받은 경로로 Blob 다운로드 후 브라우저에 저장
+  const handleExport = useCallback((format: ExportFormat) => {
+    if (!selectedConversation) return;
+    const { conversationId, pylonId } = selectedConversation;
+
+    if (!getWebSocket()) {
+      alert('서버에 연결되어 있지 않습니다.');
+      return;
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const removeListener = e2eService.addMessageListener((message) => {
+      if (message.type !== MessageType.CONVERSATION_EXPORT_RESULT) return;
+
+      const result = message.payload as unknown as ConversationExportResultPayload;
+      if (result.conversationId !== conversationId) return;
+
+      removeListener();
+      clearTimeout(timeoutId);
+
+      if (!result.success || !result.path || !result.filename) {
+        alert(result.error || '내보내기에 실패했습니다.');
+        return;
+      }
+
+      const { filename, path, mimeType } = result;
+      const unsubscribe = blobService.onDownloadComplete((download) => {
+        if (download.filename !== filename) return;
+        unsubscribe();
+        saveBytesAsFile(download.bytes, filename, mimeType);
+      });
+
+      blobService.requestFile({
+        targetDeviceId: pylonId,
+        conversationId,
+        filename,
+        filePath: path,
+      });
+    });
+
+    // 내보내기 요청 전송
+    requestConversationExport(conversationId, format);
+
+    // 타임아웃 처리
+    timeoutId = setTimeout(() => {
+      removeListener();
+      alert('요청 시간이 초과되었습니다.');
+    }, 10000);
+  }, [selectedConversation]);
+
   if (!selectedConversation) {
     return (
       <div className="px-3 py-1 bg-secondary/30 flex items-center">
@@ -256,6 +316,29 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
                   {selectedConversation.workspaceName}
                 </span>
               </div>
+
+              {/* 대화 전용 worktree 브랜치 */}
+              {selectedConversation.worktree && (
+                <div
+                  className="flex items-center gap-1 text-muted-foreground min-w-0"
+                  title={selectedConversation.worktree.path}
+                >
+                  <GitBranch className="h-3 w-3 opacity-60 shrink-0" />
+                  <span className="text-xs font-mono truncate opacity-60">
+                    {selectedConversation.worktree.branch}
+                  </span>
+                </div>
+              )}
+
+              {/* 대화별 모델 */}
+              {selectedConversation.agentSettings?.model && (
+                <div className="flex items-center gap-1 text-muted-foreground min-w-0">
+                  <Cpu className="h-3 w-3 opacity-60 shrink-0" />
+                  <span className="text-xs font-mono truncate opacity-60">
+                    {selectedConversation.agentSettings.model}
+                  </span>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -274,11 +357,17 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
               clearDraftText(selectedConversation.conversationId);
               sendClaudeControl(selectedConversation.conversationId, 'new_session');
             }}
+            onAgentSettings={() => setShowAgentSettings(true)}
             onShare={handleShare}
+            onTaskBoard={() => setShowTaskBoard(true)}
+            onGitPanel={() => setShowGitPanel(true)}
+            onWidgetLauncher={() => setShowWidgetLauncher(true)}
+            onExport={handleExport}
             onBugReport={() => setShowBugReport(true)}
             onRename={startRename}
             onDelete={handleDelete}
             conversationName={selectedConversation.conversationName}
+            worktreeBranch={selectedConversation.worktree?.branch}
           />
         )}
       </div>
@@ -314,6 +403,17 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
         }}
       />
 
+      {/* 에이전트 설정 다이얼로그 */}
+      <AgentSettingsDialog
+        open={showAgentSettings}
+        onClose={() => setShowAgentSettings(false)}
+        settings={selectedConversation.agentSettings}
+        onSave={(settings) => {
+          setAgentSettings(selectedConversation.conversationId, settings);
+          updateAgentSettings(selectedConversation.conversationId, settings);
+        }}
+      />
+
       {/* 공유 다이얼로그 */}
       <ShareDialog
         open={showShareDialog}
@@ -323,6 +423,30 @@ export function ChatHeader({ showSessionMenu = true }: ChatHeaderProps) {
         error={shareError}
       />
 
+      {/* 태스크 보드 */}
+      <TaskBoardDialog
+        open={showTaskBoard}
+        onClose={() => setShowTaskBoard(false)}
+        pylonId={selectedConversation.pylonId}
+        workspaceId={Number(selectedConversation.workspaceId)}
+        workspaceName={selectedConversation.workspaceName}
+      />
+
+      {/* git 패널 */}
+      <GitPanelDialog
+        open={showGitPanel}
+        onClose={() => setShowGitPanel(false)}
+        conversationId={selectedConversation.conversationId}
+      />
+
+      {/* 위젯 실행 */}
+      <WidgetLauncherDialog
+        open={showWidgetLauncher}
+        onClose={() => setShowWidgetLauncher(false)}
+        conversationId={selectedConversation.conversationId}
+        pylonId={selectedConversation.pylonId}
+      />
+
       {/* 문서 뷰어 */}
       {viewingDocument && (
         <FileViewer
@@ -1,4 +1,5 @@
-import type { StoreMessage, Attachment } from '@estelle/core';
+import { GitBranch } from 'lucide-react';
+import type { StoreMessage, Attachment, WidgetFormInputData } from '@estelle/core';
 import type {
   UserTextMessage,
   AssistantTextMessage,
@@ -25,10 +26,13 @@ interface MessageBubbleProps {
     toolUseId: string;
     sessionId: string;
     view: import('@estelle/core').ViewNode | null;
-    status: 'pending' | 'claiming' | 'running' | 'completed';
+    status: 'pending' | 'claiming' | 'running' | 'completed' | 'error';
+    error?: string;
   } | null;
   /** Widget v2 이벤트 핸들러 (ScriptViewNode용) */
   onWidgetEvent?: (data: unknown) => void;
+  /** 선언형 위젯 폼 입력 핸들러 */
+  onWidgetInput?: (data: WidgetFormInputData) => void;
   /** Widget v2 취소 핸들러 (ScriptViewNode용) */
   onWidgetCancel?: () => void;
   /** Widget claim 핸들러 (pending 상태에서 시작 버튼 클릭) */
@@ -37,6 +41,10 @@ interface MessageBubbleProps {
   widgetAssets?: Record<string, string>;
   /** 파일 경로 클릭 핸들러 */
   onFilePathClick?: (path: string) => void;
+  /** 대화 분기 핸들러 (assistant 텍스트 메시지용) */
+  onFork?: () => void;
+  /** 전체 도구 출력 요청 핸들러 (보관된 tool_complete용) */
+  onLoadFullOutput?: () => void;
 }
 
 /**
@@ -49,10 +57,13 @@ export function MessageBubble({
   onMcpFileClick,
   widgetSession,
   onWidgetEvent,
+  onWidgetInput,
   onWidgetCancel,
   onWidgetClaim,
   widgetAssets,
   onFilePathClick,
+  onFork,
+  onLoadFullOutput,
 }: MessageBubbleProps) {
   const isUser = message.role === 'user' && message.type === 'text';
   const isToolStart = message.type === 'tool_start';
@@ -101,9 +112,12 @@ export function MessageBubble({
           toolUseId={toolMsg.id}
           widgetSession={widgetSession}
           onWidgetEvent={onWidgetEvent}
+          onWidgetInput={onWidgetInput}
           onWidgetCancel={onWidgetCancel}
           onWidgetClaim={onWidgetClaim}
           widgetAssets={widgetAssets}
+          truncated={toolMsg.truncated}
+          onLoadFullOutput={onLoadFullOutput}
         />
       </div>
     );
@@ -162,9 +176,19 @@ export function MessageBubble({
     const assistantMsg = message as AssistantTextMessage;
     return (
       <div
-        className="my-0.5 ml-2 pl-1.5 pr-2 border-l-2 border-transparent max-w-[90%]"
+        className="group relative my-0.5 ml-2 pl-1.5 pr-2 border-l-2 border-transparent max-w-[90%]"
       >
         <MarkdownContent content={assistantMsg.content} />
+        {onFork && (
+          <button
+            type="button"
+            onClick={onFork}
+            title="여기서 분기"
+            className="absolute -right-5 top-0 p-0.5 rounded text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-primary transition-opacity"
+          >
+            <GitBranch className="h-3.5 w-3.5" />
+          </button>
+        )}
       </div>
     );
   }
@@ -1,21 +1,28 @@
 import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { ChevronDown, Loader2 } from 'lucide-react';
 import { Button } from '../ui/button';
-import { useUploadStore, useWorkspaceStore, useConversationStore, useCurrentConversationState } from '../../stores';
+import { useUploadStore, useWorkspaceStore, useConversationStore, useCurrentConversationState, useSearchStore, useSyncStore } from '../../stores';
+import { cn } from '../../lib/utils';
 import { MessageBubble } from './MessageBubble';
 import { StreamingBubble } from './StreamingBubble';
 import { UploadingBubble } from './UploadingBubble';
 import { ResultInfo } from './ResultInfo';
-import { ClaudeAbortedDivider } from './SystemDivider';
+import { ClaudeAbortedDivider, SystemDivider } from './SystemDivider';
 import { FileAttachmentCard } from './FileAttachmentCard';
 import { WorkingIndicator } from './WorkingIndicator';
 import { FileViewer } from '../viewers';
 import { WidgetRenderer } from '../widget';
 import { blobService } from '../../services/blobService';
-import { sendWidgetEvent, sendWidgetClaim } from '../../services/relaySender';
-import type { StoreMessage, ResultMessage, AbortedMessage, FileAttachmentMessage, ToolStartMessage, ToolCompleteMessage, Attachment } from '@estelle/core';
+import { sendWidgetEvent, sendWidgetInput, sendWidgetClaim, requestConversationFork, requestToolOutput } from '../../services/relaySender';
+import type { WidgetFormInputData, StoreMessage, ResultMessage, AbortedMessage, SystemMessage, FileAttachmentMessage, ToolStartMessage, ToolCompleteMessage, Attachment } from '@estelle/core';
 import type { ChildToolInfo, McpFileInfo } from './ToolCard';
 
+/** 검색 이동 시 대상 메시지 위쪽(과거)으로 확보할 최소 메시지 수 */
+const JUMP_CONTEXT_MESSAGES = 5;
+
+/** 검색 이동 후 하이라이트 유지 시간 (ms) */
+const JUMP_HIGHLIGHT_MS = 3000;
+
 interface MessageListProps {
   isLoadingHistory?: boolean;
   hasMoreHistory?: boolean;
@@ -43,6 +50,15 @@ export function MessageList({
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
 
+  // 검색 결과로 이동 (jumpTarget)
+  const jumpTarget = useSearchStore((s) => s.jumpTarget);
+  const syncPhase = useSyncStore((s) =>
+    selectedConversation ? s.getConversationSync(selectedConversation.conversationId)?.phase : undefined
+  );
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // 이동 직후 하단 자동 스크롤 억제용
+  const jumpingRef = useRef(false);
+
   // FileViewer 상태
   const [viewerFile, setViewerFile] = useState<{
     filename: string;
@@ -241,6 +257,14 @@ export function MessageList({
     sendWidgetEvent(conversationId, widgetSession.sessionId, data);
   }, [selectedConversation?.conversationId, widgetSession]);
 
+  // 선언형 위젯 폼 입력 핸들러 (Client → Pylon → CLI input)
+  const handleWidgetInput = useCallback((data: WidgetFormInputData) => {
+    const conversationId = selectedConversation?.conversationId;
+    if (!conversationId || !widgetSession) return;
+
+    sendWidgetInput(conversationId, widgetSession.sessionId, data);
+  }, [selectedConversation?.conversationId, widgetSession]);
+
   // Widget v2 취소 핸들러
   const handleWidgetCancel = useCallback(() => {
     const conversationId = selectedConversation?.conversationId;
@@ -260,6 +284,21 @@ export function MessageList({
     sendWidgetClaim(conversationId, widgetSession.sessionId);
   }, [selectedConversation?.conversationId, widgetSession]);
 
+  // 대화 분기 핸들러 (assistant 메시지까지 복사한 새 대화)
+  const handleFork = useCallback((messageId: string) => {
+    const conversationId = selectedConversation?.conversationId;
+    if (!conversationId) return;
+
+    requestConversationFork(conversationId, messageId);
+  }, [selectedConversation?.conversationId]);
+
+  const handleLoadFullOutput = useCallback((messageId: string) => {
+    const conversationId = selectedConversation?.conversationId;
+    if (!conversationId) return;
+
+    requestToolOutput(conversationId, messageId);
+  }, [selectedConversation?.conversationId]);
+
   const buildDisplayItems = useCallback(() => {
     const items: Array<{ type: string; data: unknown; key: string }> = [];
 
@@ -341,12 +380,44 @@ export function MessageList({
   }, []);
 
   useEffect(() => {
-    if (!showScrollButton && messages.length > 0) {
+    if (!showScrollButton && messages.length > 0 && !jumpTarget) {
       setTimeout(() => {
+        if (jumpingRef.current) return;
         scrollContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
       }, 100);
     }
-  }, [messages.length, textBuffer, showScrollButton]);
+  }, [messages.length, textBuffer, showScrollButton, jumpTarget]);
+
+  // 검색 결과 이동: 대상 메시지가 로드될 때까지 과거 히스토리를 페이징한 뒤 스크롤
+  useEffect(() => {
+    if (!jumpTarget || jumpTarget.conversationId !== selectedConversation?.conversationId) return;
+    if (syncPhase !== 'synced' || isLoadingHistory) return;
+
+    const targetIndex = messages.findIndex((m) => m.id === jumpTarget.messageId);
+
+    // 대상이 없거나 위쪽 맥락이 부족하면 이전 페이지 로드
+    if ((targetIndex < 0 || targetIndex < JUMP_CONTEXT_MESSAGES) && hasMoreHistory) {
+      onLoadMoreHistory?.();
+      return;
+    }
+
+    // 대상이 보관 정책으로 지워졌으면 이동하지 않음
+    useSearchStore.getState().clearJumpTarget();
+    if (targetIndex < 0) return;
+
+    jumpingRef.current = true;
+    setHighlightedMessageId(jumpTarget.messageId);
+    setTimeout(() => {
+      const el = scrollContainerRef.current?.querySelector(
+        `[data-message-id="${CSS.escape(jumpTarget.messageId)}"]`
+      );
+      el?.scrollIntoView({ block: 'center' });
+    }, 0);
+    setTimeout(() => {
+      jumpingRef.current = false;
+      setHighlightedMessageId(null);
+    }, JUMP_HIGHLIGHT_MS);
+  }, [jumpTarget, selectedConversation?.conversationId, syncPhase, messages, hasMoreHistory, isLoadingHistory, onLoadMoreHistory]);
 
   const renderItem = (item: { type: string; data: unknown; key: string }) => {
     switch (item.type) {
@@ -377,7 +448,14 @@ export function MessageList({
       case 'message':
         const message = item.data as StoreMessage;
         return (
-          <div key={item.key} className="mb-1">
+          <div
+            key={item.key}
+            data-message-id={message.id}
+            className={cn(
+              'mb-1 rounded-md transition-colors duration-500',
+              highlightedMessageId === message.id && 'bg-primary/10 ring-1 ring-primary/40'
+            )}
+          >
             {renderMessage(message)}
           </div>
         );
@@ -420,6 +498,11 @@ export function MessageList({
         return <ClaudeAbortedDivider reason={abortedMsg.reason} />;
       }
 
+      case 'system': {
+        const systemMsg = message as SystemMessage;
+        return <SystemDivider message={systemMsg.content} />;
+      }
+
       case 'file_attachment': {
         const fileMsg = message as FileAttachmentMessage;
         const fileAsAttachment = {
@@ -456,8 +539,15 @@ export function MessageList({
             onFilePathClick={handleFilePathClick}
             widgetSession={widgetSession}
             onWidgetEvent={handleWidgetEvent}
+            onWidgetInput={handleWidgetInput}
             onWidgetCancel={handleWidgetCancel}
             onWidgetClaim={handleWidgetClaim}
+            onFork={message.role === 'assistant' && message.type === 'text'
+              ? () => handleFork(message.id)
+              : undefined}
+            onLoadFullOutput={message.type === 'tool_complete'
+              ? () => handleLoadFullOutput(message.id)
+              : undefined}
           />
         );
       }
@@ -5,9 +5,12 @@ import { removeSystemReminder, diffLines } from '../../utils/textUtils';
 import { Collapsible } from '../common/Collapsible';
 import { WidgetRenderer } from '../widget';
 import { cn } from '../../lib/utils';
-import type { ViewNode } from '@estelle/core';
+import type { ViewNode, WidgetFormInputData } from '@estelle/core';
 import { FilePathLink } from './FilePathLink';
 
+/** 출력 기본 표시 길이 ("전체 출력 보기" 전) */
+const OUTPUT_DISPLAY_LIMIT = 500;
+
 /**
  * 파일 경로에서 파일명만 추출
  */
@@ -48,10 +51,13 @@ interface ToolCardProps {
     toolUseId: string;
     sessionId: string;
     view: ViewNode | null;
-    status: 'pending' | 'claiming' | 'running' | 'completed';
+    status: 'pending' | 'claiming' | 'running' | 'completed' | 'error';
+    error?: string;
   } | null;
   /** Widget v2 이벤트 핸들러 (ScriptViewNode용) */
   onWidgetEvent?: (data: unknown) => void;
+  /** 선언형 위젯 폼 입력 핸들러 */
+  onWidgetInput?: (data: WidgetFormInputData) => void;
   /** Widget v2 취소 핸들러 (ScriptViewNode용) */
   onWidgetCancel?: () => void;
   /** Widget claim 핸들러 (pending 상태에서 시작 버튼 클릭) */
@@ -60,6 +66,10 @@ interface ToolCardProps {
   widgetAssets?: Record<string, string>;
   /** 파일 경로 클릭 핸들러 */
   onFilePathClick?: (path: string) => void;
+  /** 입출력이 미리보기로 잘렸는지 여부 (Pylon 보관 정책) */
+  truncated?: boolean;
+  /** 전체 입출력 불러오기 핸들러 (truncated일 때 사용) */
+  onLoadFullOutput?: () => void;
 }
 
 // McpFileInfo를 export
@@ -74,6 +84,8 @@ interface McpRenderContext {
   isExpanded: boolean;
   setIsExpanded: (expanded: boolean) => void;
   onFileClick?: (fileInfo: McpFileInfo) => void;
+  /** 전체 출력 보기 버튼 (잘린 출력일 때만) */
+  fullOutputButton?: React.ReactNode;
 }
 
 interface McpFileInfo {
@@ -97,7 +109,7 @@ function renderMcpTool(
   cleanedOutput: unknown,
   ctx: McpRenderContext
 ): React.ReactNode {
-  const { isComplete, success, statusIcon, statusColor, borderColor, isExpanded, setIsExpanded, onFileClick } = ctx;
+  const { isComplete, success, statusIcon, statusColor, borderColor, isExpanded, setIsExpanded, onFileClick, fullOutputButton } = ctx;
 
   // 도구명과 설명
   const displayToolName = mcpToolName.replace(/_/g, ' ');
@@ -190,6 +202,7 @@ function renderMcpTool(
               </p>
             </div>
           )}
+          {fullOutputButton}
         </div>
       </Collapsible>
     </div>
@@ -211,12 +224,16 @@ export function ToolCard({
   toolUseId,
   widgetSession,
   onWidgetEvent,
+  onWidgetInput,
   onWidgetCancel,
   onWidgetClaim,
   widgetAssets,
   onFilePathClick,
+  truncated,
+  onLoadFullOutput,
 }: ToolCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showFullOutput, setShowFullOutput] = useState(false);
   const [expandedChildId, setExpandedChildId] = useState<string | null>(null);
   const [animatingIds, setAnimatingIds] = useState<Set<string>>(new Set());
   const prevChildCountRef = useRef<number>(0);
@@ -274,6 +291,35 @@ export function ToolCard({
     ? removeSystemReminder(toolOutput)
     : toolOutput;
 
+  // 긴 출력은 앞부분만 표시 ("전체 출력 보기" 전)
+  const isClipped = (text: unknown): boolean =>
+    !showFullOutput && typeof text === 'string' && text.length > OUTPUT_DISPLAY_LIMIT;
+
+  const formatOutput = (output: unknown): string =>
+    typeof output === 'string'
+      ? isClipped(output)
+        ? output.substring(0, OUTPUT_DISPLAY_LIMIT) + '...'
+        : output
+      : JSON.stringify(output, null, 2);
+
+  // 잘린 출력이 있으면 "전체 출력 보기" (Pylon에서 잘린 경우 원문 요청)
+  const renderFullOutputButton = (clipped: boolean) => {
+    const canLoad = truncated && onLoadFullOutput;
+    if (showFullOutput || (!canLoad && !clipped)) return null;
+
+    return (
+      <button
+        onClick={() => {
+          if (canLoad) onLoadFullOutput();
+          setShowFullOutput(true);
+        }}
+        className="w-full px-2 py-1 text-xs text-primary hover:bg-muted/50 transition-colors text-left"
+      >
+        전체 출력 보기
+      </button>
+    );
+  };
+
   // AskUserQuestion 툴 전용 렌더링
   if (toolName === 'AskUserQuestion') {
     const rawQuestions = toolInput?.questions;
@@ -486,6 +532,18 @@ export function ToolCard({
         </div>
 
         {/* Widget 렌더링: pending → 시작 버튼, claiming → 스피너, running → WidgetRenderer */}
+        {/* 다시 붙는 세션(재연결, Pylon 재시작)은 마지막 화면을 읽기 전용으로 함께 표시 */}
+        {matchedWidget && (matchedWidget.status === 'pending' || matchedWidget.status === 'claiming') && matchedWidget.view && (
+          <div className="border-t border-border opacity-60 pointer-events-none">
+            <WidgetRenderer
+              sessionId={matchedWidget.sessionId}
+              view={matchedWidget.view}
+              onEvent={() => {}}
+              onCancel={() => {}}
+              assets={widgetAssets}
+            />
+          </div>
+        )}
         {matchedWidget && matchedWidget.status === 'pending' && onWidgetClaim && (
           <div className="border-t border-border p-3">
             <button
@@ -496,7 +554,7 @@ export function ToolCard({
               className="flex items-center gap-2 px-3 py-1.5 rounded bg-primary text-primary-foreground text-sm hover:bg-primary/90"
             >
               <Play className="h-3.5 w-3.5" />
-              시작
+              {matchedWidget.view ? '이어하기' : '시작'}
             </button>
           </div>
         )}
@@ -512,6 +570,7 @@ export function ToolCard({
               sessionId={matchedWidget.sessionId}
               view={matchedWidget.view}
               onEvent={onWidgetEvent}
+              onInput={onWidgetInput}
               onCancel={onWidgetCancel}
               assets={widgetAssets}
             />
@@ -529,6 +588,23 @@ export function ToolCard({
             />
           </div>
         )}
+        {/* error 상태: 종료 직전 화면과 사유 (샌드박스 제한 위반 등) */}
+        {matchedWidget && matchedWidget.status === 'error' && (
+          <div className="border-t border-border">
+            {matchedWidget.view && (
+              <div className="opacity-60 pointer-events-none">
+                <WidgetRenderer
+                  sessionId={matchedWidget.sessionId}
+                  view={matchedWidget.view}
+                  onEvent={() => {}}
+                  onCancel={() => {}}
+                  assets={widgetAssets}
+                />
+              </div>
+            )}
+            <p className="px-2 py-1 text-xs text-destructive">{matchedWidget.error}</p>
+          </div>
+        )}
 
         {/* 결과 표시 (완료 후) */}
         {isComplete && outputText && (
@@ -550,6 +626,7 @@ export function ToolCard({
       isExpanded,
       setIsExpanded,
       onFileClick: onMcpFileClick,
+      fullOutputButton: isComplete ? renderFullOutputButton(false) : null,
     });
   }
 
@@ -593,14 +670,11 @@ export function ToolCard({
           {showOutput && isComplete && cleanedOutput !== undefined && (
             <div className="bg-muted p-2 rounded-b">
               <p className="text-xs opacity-80 select-text whitespace-pre-wrap break-all">
-                {typeof cleanedOutput === 'string'
-                  ? cleanedOutput.length > 500
-                    ? cleanedOutput.substring(0, 500) + '...'
-                    : cleanedOutput
-                  : JSON.stringify(cleanedOutput, null, 2)}
+                {formatOutput(cleanedOutput)}
               </p>
             </div>
           )}
+          {isComplete && renderFullOutputButton(isClipped(cleanedOutput))}
         </div>
       </Collapsible>
     </div>
@@ -773,14 +847,11 @@ export function ToolCard({
             {isComplete && cleanedOutput !== undefined && (
               <div className="bg-muted p-2 rounded-b">
                 <p className="text-xs opacity-80 select-text whitespace-pre-wrap break-all">
-                  {typeof cleanedOutput === 'string'
-                    ? cleanedOutput.length > 500
-                      ? cleanedOutput.substring(0, 500) + '...'
-                      : cleanedOutput
-                    : JSON.stringify(cleanedOutput, null, 2)}
+                  {formatOutput(cleanedOutput)}
                 </p>
               </div>
             )}
+            {isComplete && renderFullOutputButton(isClipped(cleanedOutput))}
           </div>
         </Collapsible>
       </div>
@@ -826,14 +897,11 @@ export function ToolCard({
             {isComplete && cleanedOutput !== undefined && (
               <div className="bg-muted p-2 rounded-b">
                 <p className="text-xs opacity-80 select-text whitespace-pre-wrap break-all">
-                  {typeof cleanedOutput === 'string'
-                    ? cleanedOutput.length > 500
-                      ? cleanedOutput.substring(0, 500) + '...'
-                      : cleanedOutput
-                    : JSON.stringify(cleanedOutput, null, 2)}
+                  {formatOutput(cleanedOutput)}
                 </p>
               </div>
             )}
+            {isComplete && renderFullOutputButton(isClipped(cleanedOutput))}
           </div>
         </Collapsible>
       </div>
@@ -880,10 +948,11 @@ export function ToolCard({
             {content && (
               <div className="bg-muted p-2 rounded-b">
                 <p className="text-xs opacity-80 select-text whitespace-pre-wrap">
-                  {content.length > 500 ? content.substring(0, 500) + '...' : content}
+                  {formatOutput(content)}
                 </p>
               </div>
             )}
+            {isComplete && renderFullOutputButton(isClipped(content))}
           </div>
         </Collapsible>
       </div>
@@ -931,7 +1000,7 @@ export function ToolCard({
             <div className="bg-muted p-2 rounded-b">
               {(() => {
                 const diff = diffLines(oldString, newString);
-                const maxLines = 20;
+                const maxLines = showFullOutput ? diff.length : 20;
                 const displayDiff = diff.slice(0, maxLines);
                 const hasMore = diff.length > maxLines;
 
@@ -972,6 +1041,7 @@ export function ToolCard({
                 );
               })()}
             </div>
+            {isComplete && renderFullOutputButton(false)}
           </div>
         </Collapsible>
       </div>
@@ -1032,14 +1102,11 @@ export function ToolCard({
             <div>
               <p className="text-xs text-muted-foreground/50 mb-0.5">Output:</p>
               <p className="text-xs text-muted-foreground/70 select-text whitespace-pre-wrap">
-                {typeof cleanedOutput === 'string'
-                  ? cleanedOutput.length > 500
-                    ? cleanedOutput.substring(0, 500) + '...'
-                    : cleanedOutput
-                  : JSON.stringify(cleanedOutput, null, 2)}
+                {formatOutput(cleanedOutput)}
               </p>
             </div>
           )}
+          {isComplete && renderFullOutputButton(isClipped(cleanedOutput))}
         </div>
       </Collapsible>
     </div>
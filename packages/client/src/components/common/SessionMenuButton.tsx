@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Lock, Pencil, AlertTriangle, MoreVertical, RefreshCw, Package, Bug, Type, Trash2, Share2 } from 'lucide-react';
+import { Lock, Pencil, AlertTriangle, MoreVertical, RefreshCw, Package, Bug, Type, Trash2, Share2, FileText, FileCode, FileJson, KanbanSquare, GitBranch, Puzzle, SlidersHorizontal } from 'lucide-react';
+import { EXPORT_FORMATS, type ExportFormat, type ConversationWorktreeAction } from '@estelle/core';
 import { Button } from '../ui/button';
 import {
   DropdownMenu,
@@ -28,6 +29,12 @@ const PERMISSION_CONFIG: Record<
   bypassPermissions: { label: 'Bypass All', icon: AlertTriangle },
 };
 
+const EXPORT_CONFIG: Record<ExportFormat, { label: string; icon: typeof Lock }> = {
+  markdown: { label: 'Markdown으로 내보내기', icon: FileText },
+  html: { label: 'HTML로 내보내기', icon: FileCode },
+  json: { label: 'JSON으로 내보내기', icon: FileJson },
+};
+
 const PERMISSION_MODES: PermissionMode[] = [
   'default',
   'acceptEdits',
@@ -39,11 +46,18 @@ interface SessionMenuButtonProps {
   onPermissionModeChange?: (mode: PermissionMode) => void;
   onNewSession?: () => void;
   onCompact?: () => void;
+  onAgentSettings?: () => void;
   onShare?: () => void;
+  onTaskBoard?: () => void;
+  onGitPanel?: () => void;
+  onWidgetLauncher?: () => void;
+  onExport?: (format: ExportFormat) => void;
   onBugReport?: () => void;
   onRename?: () => void;
-  onDelete?: () => void;
+  onDelete?: (worktreeAction?: ConversationWorktreeAction) => void;
   conversationName?: string;
+  /** 대화 전용 worktree 브랜치 (있으면 삭제할 때 병합/정리/버리기를 고름) */
+  worktreeBranch?: string;
 }
 
 /**
@@ -54,11 +68,17 @@ export function SessionMenuButton({
   onPermissionModeChange,
   onNewSession,
   onCompact,
+  onAgentSettings,
   onShare,
+  onTaskBoard,
+  onGitPanel,
+  onWidgetLauncher,
+  onExport,
   onBugReport,
   onRename,
   onDelete,
   conversationName,
+  worktreeBranch,
 }: SessionMenuButtonProps) {
   const [showNewSessionDialog, setShowNewSessionDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -81,9 +101,9 @@ export function SessionMenuButton({
     onNewSession?.();
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = (worktreeAction?: ConversationWorktreeAction) => {
     setShowDeleteDialog(false);
-    onDelete?.();
+    onDelete?.(worktreeAction);
   };
 
   return (
@@ -119,12 +139,50 @@ export function SessionMenuButton({
               <Package className="mr-2 h-4 w-4" />
               컴팩트
             </DropdownMenuItem>
+            {onAgentSettings && (
+              <DropdownMenuItem onClick={onAgentSettings}>
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                에이전트 설정
+              </DropdownMenuItem>
+            )}
             {onShare && (
               <DropdownMenuItem onClick={onShare}>
                 <Share2 className="mr-2 h-4 w-4" />
                 공유
               </DropdownMenuItem>
             )}
+            {onTaskBoard && (
+              <DropdownMenuItem onClick={onTaskBoard}>
+                <KanbanSquare className="mr-2 h-4 w-4" />
+                태스크 보드
+              </DropdownMenuItem>
+            )}
+            {onGitPanel && (
+              <DropdownMenuItem onClick={onGitPanel}>
+                <GitBranch className="mr-2 h-4 w-4" />
+                Git 변경사항
+              </DropdownMenuItem>
+            )}
+            {onWidgetLauncher && (
+              <DropdownMenuItem onClick={onWidgetLauncher}>
+                <Puzzle className="mr-2 h-4 w-4" />
+                위젯 실행
+              </DropdownMenuItem>
+            )}
+            {onExport && (
+              <>
+                <DropdownMenuSeparator />
+                {EXPORT_FORMATS.map((format) => {
+                  const { label, icon: ExportIcon } = EXPORT_CONFIG[format];
+                  return (
+                    <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                      <ExportIcon className="mr-2 h-4 w-4" />
+                      {label}
+                    </DropdownMenuItem>
+                  );
+                })}
+              </>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={onBugReport} className="text-destructive">
               <Bug className="mr-2 h-4 w-4" />
@@ -174,16 +232,41 @@ export function SessionMenuButton({
               "{conversationName}" 대화를 삭제할까요?
               <br />
               삭제된 대화는 복구할 수 없어요.
+              {worktreeBranch && (
+                <>
+                  <br />
+                  <br />
+                  이 대화는 <span className="font-mono">{worktreeBranch}</span> 브랜치에서 작업했어요.
+                  남은 변경을 어떻게 할지 골라주세요.
+                </>
+              )}
             </DialogDescription>
           </DialogHeader>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDeleteDialog(false)}>
-              취소
-            </Button>
-            <Button variant="destructive" onClick={confirmDelete}>
-              삭제
-            </Button>
-          </DialogFooter>
+          {worktreeBranch ? (
+            <DialogFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+              <Button onClick={() => confirmDelete('merge')}>
+                워크스페이스에 병합하고 삭제
+              </Button>
+              <Button variant="outline" onClick={() => confirmDelete('cleanup')}>
+                브랜치만 남기고 삭제
+              </Button>
+              <Button variant="destructive" onClick={() => confirmDelete('discard')}>
+                변경을 버리고 삭제
+              </Button>
+              <Button variant="ghost" onClick={() => setShowDeleteDialog(false)}>
+                취소
+              </Button>
+            </DialogFooter>
+          ) : (
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowDeleteDialog(false)}>
+                취소
+              </Button>
+              <Button variant="destructive" onClick={() => confirmDelete()}>
+                삭제
+              </Button>
+            </DialogFooter>
+          )}
         </DialogContent>
       </Dialog>
     </>
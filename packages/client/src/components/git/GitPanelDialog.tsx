@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { GitBranch, GitCommitHorizontal, RefreshCw, Sparkles, Undo2 } from 'lucide-react';
+import type { GitChangeKind, GitDiffScope, GitFileChange } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useGitStore } from '../../stores';
+import {
+  requestGitStatus,
+  requestGitDiff,
+  requestGitLog,
+  revertGitFile,
+  commitGitChanges,
+  requestCommitDraft,
+} from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+
+/** 패널에 보여주는 최근 커밋 수 */
+const LOG_LIMIT = 10;
+
+const KIND_LABEL: Record<GitChangeKind, { short: string; className: string }> = {
+  added: { short: 'A', className: 'text-green-500' },
+  untracked: { short: 'U', className: 'text-green-500' },
+  modified: { short: 'M', className: 'text-yellow-500' },
+  renamed: { short: 'R', className: 'text-blue-500' },
+  deleted: { short: 'D', className: 'text-red-500' },
+  conflicted: { short: '!', className: 'text-destructive' },
+};
+
+const SCOPE_LABEL: Record<GitDiffScope, string> = {
+  conversation: '이 대화',
+  staged: '스테이징',
+  unstaged: '스테이징 안 됨',
+};
+
+/**
+ * unified diff 한 줄의 색상
+ */
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ') || line.startsWith('index ')) {
+    return 'text-muted-foreground';
+  }
+  if (line.startsWith('@@')) return 'text-blue-500';
+  if (line.startsWith('+')) return 'text-green-500';
+  if (line.startsWith('-')) return 'text-red-500';
+  return 'opacity-70';
+}
+
+interface GitPanelDialogProps {
+  open: boolean;
+  onClose: () => void;
+  conversationId: number;
+}
+
+/**
+ * git 패널 다이얼로그
+ *
+ * - 브랜치, upstream 대비 ahead/behind, 스테이징 현황
+ * - 이 대화에서 바뀐 파일 (대화 기준점 이후) + 파일별 diff/되돌리기
+ * - 커밋 (Claude에게 메시지 초안 요청 가능), 최근 커밋 로그
+ */
+export function GitPanelDialog({ open, onClose, conversationId }: GitPanelDialogProps) {
+  const status = useGitStore((s) => s.statusByConversation[conversationId]);
+  const diffView = useGitStore((s) => s.diffByConversation[conversationId]);
+  const log = useGitStore((s) => s.logByConversation[conversationId]);
+  const draft = useGitStore((s) => s.draftByConversation[conversationId]);
+  const lastCommit = useGitStore((s) => s.lastCommitByConversation[conversationId]);
+  const error = useGitStore((s) => s.errorByConversation[conversationId]);
+
+  const [message, setMessage] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [confirmRevert, setConfirmRevert] = useState<string | null>(null);
+
+  const refresh = () => {
+    requestGitStatus(conversationId);
+    requestGitLog(conversationId, LOG_LIMIT);
+    requestGitDiff(conversationId, 'conversation');
+  };
+
+  // 열 때마다 새로 불러오기
+  useEffect(() => {
+    if (!open) return;
+    setExcluded(new Set());
+    setConfirmRevert(null);
+    refresh();
+  }, [open, conversationId]);
+
+  // 커밋되면 목록/로그 갱신 후 입력 비우기
+  useEffect(() => {
+    if (!open || !lastCommit) return;
+    setMessage('');
+    setExcluded(new Set());
+    requestGitLog(conversationId, LOG_LIMIT);
+    requestGitDiff(conversationId, 'conversation');
+  }, [lastCommit?.hash]);
+
+  // 초안이 도착하면 메시지 칸 채우기
+  useEffect(() => {
+    if (draft?.status === 'ready') {
+      setMessage(draft.message);
+    }
+  }, [draft]);
+
+  const changes: GitFileChange[] = status?.changes ?? [];
+  const selectedPaths = changes.map((c) => c.path).filter((p) => !excluded.has(p));
+  const canCommit = message.trim().length > 0 && selectedPaths.length > 0;
+
+  const toggleExcluded = (filePath: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(filePath)) next.delete(filePath);
+      else next.add(filePath);
+      return next;
+    });
+  };
+
+  const handleRevert = (filePath: string) => {
+    revertGitFile(conversationId, filePath);
+    setConfirmRevert(null);
+    if (diffView?.path === filePath) {
+      requestGitDiff(conversationId, 'conversation');
+    }
+  };
+
+  const handleDraft = () => {
+    useGitStore.getState().setDraft(conversationId, { status: 'loading' });
+    requestCommitDraft(conversationId);
+  };
+
+  const handleCommit = () => {
+    if (!canCommit) return;
+    useGitStore.getState().setError(conversationId, null);
+    commitGitChanges(conversationId, message.trim(), selectedPaths);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            <span className="truncate">{status?.branch ?? (status ? 'detached HEAD' : 'Git')}</span>
+            {status?.upstream && (
+              <span className="text-xs font-normal text-muted-foreground truncate">
+                {status.upstream} · ↑{status.ahead} ↓{status.behind}
+              </span>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7 ml-auto" onClick={refresh} title="새로고침">
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {status && (
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            {(['staged', 'unstaged'] as const).map((scope) => (
+              <button
+                key={scope}
+                onClick={() => requestGitDiff(conversationId, scope)}
+                className="px-2 py-0.5 rounded border border-border hover:bg-accent/50"
+              >
+                {SCOPE_LABEL[scope]} {status[scope].length}
+              </button>
+            ))}
+            <span className="px-1">추적 안 함 {status.untracked.length}</span>
+          </div>
+        )}
+
+        {/* 이 대화에서 바뀐 파일 */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">이 대화에서 바뀐 파일 {changes.length}</span>
+            {changes.length > 0 && (
+              <button
+                onClick={() => requestGitDiff(conversationId, 'conversation')}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                전체 diff
+              </button>
+            )}
+          </div>
+          {status && !status.baseline && (
+            <p className="text-xs text-muted-foreground">
+              아직 이 대화에서 메시지를 보내지 않아 비교할 기준점이 없어요.
+            </p>
+          )}
+          {status?.baseline && changes.length === 0 && (
+            <p className="text-xs text-muted-foreground">바뀐 파일이 없어요.</p>
+          )}
+          {changes.map((change) => {
+            const kind = KIND_LABEL[change.kind];
+            return (
+              <div
+                key={change.path}
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1 rounded text-xs',
+                  diffView?.scope === 'conversation' && diffView.path === change.path ? 'bg-accent' : 'hover:bg-accent/50'
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(change.path)}
+                  onChange={() => toggleExcluded(change.path)}
+                  title="커밋에 포함"
+                />
+                <span className={cn('w-3 font-mono font-semibold', kind.className)}>{kind.short}</span>
+                <button
+                  onClick={() => requestGitDiff(conversationId, 'conversation', change.path)}
+                  className="flex-1 text-left font-mono truncate"
+                  title={change.path}
+                >
+                  {change.path}
+                </button>
+                {confirmRevert === change.path ? (
+                  <span className="flex items-center gap-1 shrink-0">
+                    <span className="text-muted-foreground">되돌릴까요?</span>
+                    <Button variant="destructive" size="sm" className="h-6 px-2 text-xs" onClick={() => handleRevert(change.path)}>
+                      예
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => setConfirmRevert(null)}>
+                      아니오
+                    </Button>
+                  </span>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={() => setConfirmRevert(change.path)}
+                    title="대화 시작 전 상태로 되돌리기"
+                  >
+                    <Undo2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* diff */}
+        {diffView && (
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">
+              {SCOPE_LABEL[diffView.scope]}{diffView.path ? ` · ${diffView.path}` : ''}
+            </span>
+            <div className="bg-muted p-2 rounded max-h-[40vh] overflow-auto font-mono text-xs">
+              {diffView.diff ? (
+                diffView.diff.split('\n').map((line, i) => (
+                  <div key={i} className={cn('whitespace-pre select-text', diffLineClass(line))}>
+                    {line || ' '}
+                  </div>
+                ))
+              ) : (
+                <span className="text-muted-foreground">변경 없음</span>
+              )}
+              {diffView.truncated && (
+                <span className="text-muted-foreground">... (diff가 길어 잘렸어요)</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 커밋 */}
+        {changes.length > 0 && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="커밋 메시지"
+              className="min-h-[80px] font-mono text-xs"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+            {draft?.status === 'error' && <p className="text-xs text-destructive">{draft.error}</p>}
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleDraft} disabled={draft?.status === 'loading'}>
+                <Sparkles className="mr-1 h-3.5 w-3.5" />
+                {draft?.status === 'loading' ? '작성 중...' : 'Claude에게 메시지 요청'}
+              </Button>
+              <span className="flex-1 text-xs text-muted-foreground">
+                커밋하면 지금 상태가 새 기준점이 돼요.
+              </span>
+              <Button size="sm" onClick={handleCommit} disabled={!canCommit}>
+                <GitCommitHorizontal className="mr-1 h-3.5 w-3.5" />
+                {selectedPaths.length}개 파일 커밋
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {lastCommit && (
+          <p className="text-xs text-muted-foreground">
+            <span className="font-mono">{lastCommit.shortHash}</span> 커밋했어요: {lastCommit.subject}
+          </p>
+        )}
+
+        {/* 최근 커밋 */}
+        {log && log.length > 0 && (
+          <div className="space-y-1">
+            <span className="text-sm font-medium">최근 커밋</span>
+            {log.map((entry) => (
+              <div key={entry.hash} className="flex items-center gap-2 text-xs">
+                <span className="font-mono text-muted-foreground shrink-0">{entry.shortHash}</span>
+                <span className="flex-1 truncate" title={entry.subject}>{entry.subject}</span>
+                <span className="text-muted-foreground shrink-0">{entry.author}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * @file git/index.ts
+ * @description git 관련 컴포넌트 모듈 진입점
+ */
+
+export { GitPanelDialog } from './GitPanelDialog';
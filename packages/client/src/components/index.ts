@@ -11,3 +11,4 @@ export * from './settings';
 export * from './viewers';
 export * from './deploy';
 export * from './task';
+export * from './git';
@@ -5,6 +5,8 @@ import type { PermissionRequest as PermissionRequestType } from '@estelle/core';
 interface PermissionRequestProps {
   request: PermissionRequestType;
   onAllow?: () => void;
+  /** 같은 입력을 워크스페이스 규칙으로 항상 허용 */
+  onAllowAlways?: () => void;
   onDeny?: () => void;
 }
 
@@ -14,6 +16,7 @@ interface PermissionRequestProps {
 export function PermissionRequest({
   request,
   onAllow,
+  onAllowAlways,
   onDeny,
 }: PermissionRequestProps) {
   const { desc, cmd } = parseToolInput(request.toolName, request.toolInput);
@@ -40,7 +43,7 @@ export function PermissionRequest({
           </p>
         )}
 
-        {/* 버튼: 허용 / 거부 */}
+        {/* 버튼: 허용 / 항상 허용 / 거부 */}
         <div className="flex gap-2 px-2 py-2">
           <Button
             onClick={onAllow}
@@ -50,6 +53,18 @@ export function PermissionRequest({
           >
             허용
           </Button>
+          {onAllowAlways && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onAllowAlways}
+              tabIndex={-1}
+              title={cmd ? `항상 허용: ${cmd}` : `항상 허용: ${request.toolName}`}
+              className="flex-1 text-green-600 border-green-500 hover:bg-green-500 hover:text-white"
+            >
+              항상 허용
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
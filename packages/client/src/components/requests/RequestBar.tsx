@@ -24,6 +24,12 @@ export function RequestBar() {
     useConversationStore.getState().removePendingRequest(conversationId, currentRequest.toolUseId);
   };
 
+  const handlePermissionAllowAlways = () => {
+    if (!conversationId) return;
+    sendPermissionResponse(conversationId, currentRequest.toolUseId, 'allowAlways');
+    useConversationStore.getState().removePendingRequest(conversationId, currentRequest.toolUseId);
+  };
+
   const handlePermissionDeny = () => {
     if (!conversationId) return;
     sendPermissionResponse(conversationId, currentRequest.toolUseId, 'deny');
@@ -42,6 +48,7 @@ export function RequestBar() {
         <PermissionRequest
           request={currentRequest}
           onAllow={handlePermissionAllow}
+          onAllowAlways={handlePermissionAllowAlways}
           onDeny={handlePermissionDeny}
         />
       ) : (
@@ -1,42 +1,114 @@
-import { Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, X } from 'lucide-react';
+import { ACCOUNT_CREDENTIAL_FILE_PATTERN, DEFAULT_ACCOUNT_ICON, isAccountInput } from '@estelle/core';
+import type { AccountInput, AccountListItem, AccountType } from '@estelle/core';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
-import { useSettingsStore } from '../../stores';
-import { requestAccountSwitch } from '../../services/relaySender';
-import type { AccountType } from '@estelle/core';
+import { Input } from '../ui/input';
+import { useSettingsStore, useWorkspaceStore } from '../../stores';
+import {
+  ACCOUNT_PYLON_ID,
+  requestAccountSwitch,
+  saveAccount,
+  deleteAccount,
+} from '../../services/relaySender';
 import { cn } from '../../lib/utils';
 
+/**
+ * 편집 중인 계정 (accountId가 없으면 새 계정)
+ */
+interface AccountDraft extends AccountInput {
+  accountId?: AccountType;
+}
+
+const EMPTY_DRAFT: AccountDraft = {
+  name: '',
+  icon: '',
+  credentialFile: '',
+  workspaceIds: [],
+};
+
+function toDraft(account: AccountListItem): AccountDraft {
+  return {
+    accountId: account.id,
+    name: account.name,
+    icon: account.icon,
+    credentialFile: account.credentialFile,
+    workspaceIds: account.workspaceIds,
+  };
+}
+
+function getSubscriptionLabel(type: string | null): string {
+  if (!type) return '';
+  switch (type) {
+    case 'team':
+      return '(Team)';
+    case 'max':
+      return '(Max)';
+    default:
+      return `(${type})`;
+  }
+}
+
 /**
  * 계정 전환 섹션
  *
- * 회사(LineGames) / 개인(Personal) 계정 전환 UI를 제공합니다.
+ * Pylon에 등록한 Claude 계정 목록과 전환 UI를 제공합니다.
+ * 계정마다 인증 백업 파일과 기본 워크스페이스를 지정할 수 있고,
+ * 기본 워크스페이스로 옮기면 Pylon이 그 계정으로 전환합니다.
  * 계정 변경 시 모든 Claude SDK 세션이 재시작됩니다.
  */
 export function AccountSection() {
   const currentAccount = useSettingsStore((s) => s.currentAccount);
   const subscriptionType = useSettingsStore((s) => s.subscriptionType);
+  const accounts = useSettingsStore((s) => s.accounts);
   const isAccountSwitching = useSettingsStore((s) => s.isAccountSwitching);
   const setAccountSwitching = useSettingsStore((s) => s.setAccountSwitching);
+  const workspacesByPylon = useWorkspaceStore((s) => s.workspacesByPylon);
+
+  const [draft, setDraft] = useState<AccountDraft | null>(null);
+
+  const workspaces = workspacesByPylon.get(ACCOUNT_PYLON_ID) ?? [];
+  const current = accounts.find((account) => account.id === currentAccount);
 
-  const handleSwitch = (account: AccountType) => {
-    if (account === currentAccount || isAccountSwitching) return;
+  const handleSwitch = (account: AccountListItem) => {
+    if (account.id === currentAccount || isAccountSwitching || !account.available) return;
 
     setAccountSwitching(true);
-    requestAccountSwitch(account);
+    requestAccountSwitch(account.id);
   };
 
-  const getSubscriptionLabel = (type: string | null) => {
-    if (!type) return '';
-    switch (type) {
-      case 'team':
-        return '(Team)';
-      case 'max':
-        return '(Max)';
-      default:
-        return `(${type})`;
+  const handleDelete = (account: AccountListItem) => {
+    if (confirm(`${account.name} 계정을 목록에서 삭제할까요? (인증 백업 파일은 지우지 않습니다)`)) {
+      deleteAccount(account.id);
     }
   };
 
+  const updateDraft = (fields: Partial<AccountDraft>) => {
+    setDraft((d) => (d ? { ...d, ...fields } : d));
+  };
+
+  const toggleWorkspace = (workspaceId: number) => {
+    if (!draft) return;
+    updateDraft({
+      workspaceIds: draft.workspaceIds.includes(workspaceId)
+        ? draft.workspaceIds.filter((id) => id !== workspaceId)
+        : [...draft.workspaceIds, workspaceId],
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const { accountId, ...input } = draft;
+    if (!isAccountInput(input)) return;
+    saveAccount(input, accountId);
+    setDraft(null);
+  };
+
+  // 다른 계정의 기본 워크스페이스 (선택하면 그 계정에서 옮겨짐)
+  const ownerOf = (workspaceId: number) =>
+    accounts.find((account) => account.id !== draft?.accountId && account.workspaceIds.includes(workspaceId));
+
   return (
     <Card data-section="account">
       <CardHeader className="pb-2">
@@ -45,57 +117,150 @@ export function AccountSection() {
           계정
         </CardTitle>
       </CardHeader>
-      <CardContent>
-        <div className="flex gap-2 mb-3">
-          <Button
-            variant={currentAccount === 'linegames' ? 'default' : 'outline'}
-            size="sm"
-            className={cn(
-              'flex-1',
-              currentAccount === 'linegames' && 'bg-primary'
-            )}
-            onClick={() => handleSwitch('linegames')}
-            disabled={isAccountSwitching}
-          >
-            {isAccountSwitching && currentAccount !== 'linegames' ? (
-              <Loader2 className="h-4 w-4 animate-spin mr-1" />
-            ) : null}
-            LineGames
-          </Button>
-          <Button
-            variant={currentAccount === 'personal' ? 'default' : 'outline'}
-            size="sm"
-            className={cn(
-              'flex-1',
-              currentAccount === 'personal' && 'bg-primary'
-            )}
-            onClick={() => handleSwitch('personal')}
-            disabled={isAccountSwitching}
-          >
-            {isAccountSwitching && currentAccount !== 'personal' ? (
-              <Loader2 className="h-4 w-4 animate-spin mr-1" />
-            ) : null}
-            Personal
-          </Button>
-        </div>
+      <CardContent className="space-y-3">
+        {/* 계정 목록 */}
+        {accounts.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            등록된 계정이 없습니다. 인증 백업 파일을 지정해 계정을 추가하세요.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center gap-1">
+                <Button
+                  variant={account.id === currentAccount ? 'default' : 'outline'}
+                  size="sm"
+                  className={cn('flex-1 justify-start', account.id === currentAccount && 'bg-primary')}
+                  onClick={() => handleSwitch(account)}
+                  disabled={isAccountSwitching || !account.available}
+                  title={account.available ? account.credentialFile : `${account.credentialFile} 파일이 없습니다`}
+                >
+                  {isAccountSwitching && account.id !== currentAccount ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                  ) : (
+                    <span className="mr-1">{account.icon || DEFAULT_ACCOUNT_ICON}</span>
+                  )}
+                  <span className="truncate">{account.name}</span>
+                  {account.workspaceIds.length > 0 && (
+                    <span className="ml-auto pl-2 text-xs opacity-70">
+                      워크스페이스 {account.workspaceIds.length}
+                    </span>
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setDraft(toDraft(account))}
+                  title="수정"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleDelete(account)}
+                  title="계정 삭제"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
 
         <div className="text-center">
           {currentAccount ? (
             <p className="text-sm text-muted-foreground">
               현재:{' '}
-              <span className="font-medium text-foreground">
-                {currentAccount === 'linegames' ? 'LineGames' : 'Personal'}
-              </span>{' '}
+              <span className="font-medium text-foreground">{current?.name ?? currentAccount}</span>{' '}
               {getSubscriptionLabel(subscriptionType)}
             </p>
           ) : (
             <p className="text-sm text-muted-foreground">
-              계정 정보를 불러오는 중...
+              {subscriptionType
+                ? `목록에 없는 계정 사용 중 ${getSubscriptionLabel(subscriptionType)}`
+                : '계정 정보를 불러오는 중...'}
             </p>
           )}
         </div>
 
-        <p className="text-xs text-muted-foreground text-center mt-2">
+        {/* 계정 편집 */}
+        {draft ? (
+          <div className="space-y-2 border-t border-border pt-3">
+            <div className="flex gap-2">
+              <Input
+                value={draft.icon}
+                onChange={(e) => updateDraft({ icon: e.target.value })}
+                placeholder={DEFAULT_ACCOUNT_ICON}
+                className="h-8 w-12 text-center"
+              />
+              <Input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="계정 이름"
+                className="h-8"
+              />
+            </div>
+            <div className="space-y-1">
+              <Input
+                value={draft.credentialFile}
+                onChange={(e) => updateDraft({ credentialFile: e.target.value.trim() })}
+                placeholder="인증 백업 파일 (예: work.json)"
+                className="h-8 font-mono"
+              />
+              {draft.credentialFile && !ACCOUNT_CREDENTIAL_FILE_PATTERN.test(draft.credentialFile) && (
+                <p className="text-xs text-destructive">
+                  백업 디렉토리 안의 .json 파일 이름만 쓸 수 있습니다
+                </p>
+              )}
+            </div>
+
+            {/* 기본 워크스페이스 */}
+            {workspaces.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium">기본 워크스페이스</p>
+                {workspaces.map((workspace) => {
+                  const workspaceId = Number(workspace.workspaceId);
+                  const owner = ownerOf(workspaceId);
+                  return (
+                    <label key={workspace.workspaceId} className="flex items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={draft.workspaceIds.includes(workspaceId)}
+                        onChange={() => toggleWorkspace(workspaceId)}
+                      />
+                      <span className="truncate">{workspace.name}</span>
+                      {owner && <span className="text-muted-foreground">({owner.name})</span>}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={handleSave}
+                disabled={!isAccountInput(draft)}
+              >
+                저장
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setDraft(null)}>
+                취소
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            계정 추가
+          </Button>
+        )}
+
+        <p className="text-xs text-muted-foreground text-center">
           ⚠️ 계정 변경 시 모든 세션이 재시작됩니다
         </p>
       </CardContent>
@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronDown, Download, Loader2, RefreshCw } from 'lucide-react';
+import type { AuditDecision, AuditEntryKind } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import {
+  useAuditStore,
+  useWorkspaceStore,
+  useDeviceConfigStore,
+  type AuditLogItem,
+} from '../../stores';
+import { requestAuditLog } from '../../services/relaySender';
+import { buildAuditCsv } from '../../utils/auditCsv';
+import { saveBytesAsFile } from '../../utils/fileUtils';
+import { cn } from '../../lib/utils';
+
+interface AuditLogDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** 조회 범위 (전체 / 워크스페이스 / 대화) */
+type Scope =
+  | { type: 'all' }
+  | { type: 'workspace'; pylonId: number; workspaceId: number; label: string }
+  | { type: 'conversation'; pylonId: number; conversationId: number; label: string };
+
+/** 종류/결정 필터 (kind와 decision을 한 줄로 선택) */
+type EntryFilter = 'all' | AuditEntryKind | AuditDecision;
+
+const FILTER_LABELS: Record<EntryFilter, string> = {
+  all: '전체',
+  permission: '권한',
+  tool: '실행',
+  auto_allow: '자동 허용',
+  auto_deny: '자동 거부',
+  user_allow: '사용자 허용',
+  user_deny: '사용자 거부',
+};
+
+const DECISION_STYLES: Record<AuditDecision, string> = {
+  auto_allow: 'text-green-600 dark:text-green-400',
+  user_allow: 'text-green-600 dark:text-green-400',
+  auto_deny: 'text-destructive',
+  user_deny: 'text-destructive',
+};
+
+/**
+ * YYYY-MM-DD (로컬 날짜) → 해당 날짜 00:00의 timestamp
+ */
+function parseDateInput(value: string): number | undefined {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+}
+
+/**
+ * 항목 한 줄 요약 (결정 또는 실행 결과)
+ */
+function describeOutcome(entry: AuditLogItem): { text: string; className?: string } {
+  if (entry.kind === 'permission' && entry.decision) {
+    return { text: FILTER_LABELS[entry.decision], className: DECISION_STYLES[entry.decision] };
+  }
+  return entry.success
+    ? { text: '성공', className: 'text-green-600 dark:text-green-400' }
+    : { text: '실패', className: 'text-destructive' };
+}
+
+/**
+ * 감사 로그 다이얼로그
+ *
+ * Pylon에 기록된 권한 결정과 도구 실행 이력을
+ * 범위/날짜/종류로 조회하고 CSV로 내보냅니다.
+ */
+export function AuditLogDialog({ open, onClose }: AuditLogDialogProps) {
+  const { connectedPylons, getAllWorkspaces, selectedConversation } = useWorkspaceStore();
+  const { getName } = useDeviceConfigStore();
+  const entriesByPylon = useAuditStore((s) => s.entriesByPylon);
+  const pendingPylonIds = useAuditStore((s) => s.pendingPylonIds);
+  const hasMore = useAuditStore((s) => s.hasMore);
+  const error = useAuditStore((s) => s.error);
+
+  const [scope, setScope] = useState<Scope>({ type: 'all' });
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [filter, setFilter] = useState<EntryFilter>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const entries = useMemo(
+    () => useAuditStore.getState().getEntries(),
+    [entriesByPylon]
+  );
+  const isLoading = pendingPylonIds.length > 0;
+
+  const scopeOptions: Scope[] = [
+    { type: 'all' },
+    ...(selectedConversation
+      ? [{
+          type: 'conversation' as const,
+          pylonId: selectedConversation.pylonId,
+          conversationId: selectedConversation.conversationId,
+          label: `현재 대화 (${selectedConversation.conversationName})`,
+        }]
+      : []),
+    ...getAllWorkspaces().flatMap(({ pylonId, workspaces }) =>
+      workspaces.map((w) => ({
+        type: 'workspace' as const,
+        pylonId,
+        workspaceId: Number(w.workspaceId),
+        label: `${getName(pylonId)} / ${w.name}`,
+      }))
+    ),
+  ];
+  const scopeLabel = (s: Scope) => (s.type === 'all' ? '모든 워크스페이스' : s.label);
+
+  const handleQuery = () => {
+    const requestId = `audit_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    const from = parseDateInput(fromDate);
+    const toStart = parseDateInput(toDate);
+    // 종료 날짜는 그날 전체를 포함
+    const to = toStart !== undefined ? toStart + 24 * 60 * 60 * 1000 : undefined;
+    const isKind = filter === 'permission' || filter === 'tool';
+
+    const pylonIds =
+      scope.type === 'all' ? connectedPylons.map((p) => p.deviceId) : [scope.pylonId];
+    if (pylonIds.length === 0) return;
+
+    useAuditStore.getState().startQuery(requestId, pylonIds);
+    requestAuditLog({
+      requestId,
+      ...(scope.type === 'workspace' && { workspaceId: scope.workspaceId }),
+      ...(scope.type === 'conversation' && { conversationId: scope.conversationId }),
+      ...(from !== undefined && { from }),
+      ...(to !== undefined && { to }),
+      ...(isKind && { kind: filter }),
+      ...(!isKind && filter !== 'all' && { decision: filter }),
+    });
+  };
+
+  // 열 때마다 현재 조건으로 다시 조회
+  useEffect(() => {
+    if (open) {
+      handleQuery();
+    }
+  }, [open]);
+
+  const handleExport = () => {
+    const csv = buildAuditCsv(entries);
+    // Excel에서 한글이 깨지지 않도록 BOM 추가
+    const bytes = new TextEncoder().encode('\uFEFF' + csv);
+    const date = new Date().toISOString().slice(0, 10);
+    saveBytesAsFile(bytes, `audit-log-${date}.csv`, 'text/csv');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>감사 로그</DialogTitle>
+          <DialogDescription>
+            권한 결정과 도구 실행 기록을 조회합니다. 기록은 수정하거나 삭제할 수 없습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 필터 */}
+        <div className="space-y-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full justify-between">
+                <span className="truncate">{scopeLabel(scope)}</span>
+                <ChevronDown className="h-4 w-4 shrink-0" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {scopeOptions.map((s) => (
+                <DropdownMenuItem key={scopeLabel(s)} onClick={() => setScope(s)}>
+                  {scopeLabel(s)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="h-8 flex-1"
+              aria-label="시작 날짜"
+            />
+            <span className="text-xs text-muted-foreground">~</span>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="h-8 flex-1"
+              aria-label="종료 날짜"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(FILTER_LABELS) as EntryFilter[]).map((f) => (
+              <Button
+                key={f}
+                variant={filter === f ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setFilter(f)}
+              >
+                {FILTER_LABELS[f]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1" onClick={handleQuery} disabled={isLoading}>
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-1" />
+              )}
+              조회
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleExport}
+              disabled={entries.length === 0}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        {/* 목록 */}
+        <div className="flex-1 overflow-y-auto -mx-2 min-h-0">
+          {error && (
+            <p className="px-2 py-1 text-xs text-destructive">{error}</p>
+          )}
+
+          {!isLoading && entries.length === 0 && (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              기록이 없습니다.
+            </p>
+          )}
+
+          {entries.map((entry) => {
+            const key = `${entry.pylonId}-${entry.id}`;
+            const outcome = describeOutcome(entry);
+            const expanded = expandedId === key;
+            return (
+              <button
+                key={key}
+                onClick={() => setExpandedId(expanded ? null : key)}
+                className="w-full text-left px-2 py-1.5 rounded-md hover:bg-accent/50 transition-colors"
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <span className={cn('w-20 shrink-0 text-xs font-medium', outcome.className)}>
+                    {outcome.text}
+                  </span>
+                  <span className="shrink-0 font-medium">{entry.toolName}</span>
+                  <span className="flex-1 truncate text-xs text-muted-foreground">
+                    {entry.workspaceName ?? entry.workspaceId} › {entry.conversationName ?? entry.conversationId}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                {expanded && (
+                  <div className="mt-1 space-y-1 text-xs text-muted-foreground">
+                    <div className="flex flex-wrap gap-x-3">
+                      {entry.reason && <span>사유: {entry.reason}</span>}
+                      {entry.decidedBy && (
+                        <span>결정: {entry.decidedBy.name ?? entry.decidedBy.deviceId}</span>
+                      )}
+                      {entry.permissionMode && <span>모드: {entry.permissionMode}</span>}
+                      {entry.durationMs !== undefined && <span>{entry.durationMs}ms</span>}
+                      {entry.error && <span className="text-destructive">{entry.error}</span>}
+                    </div>
+                    <pre className="whitespace-pre-wrap break-all rounded bg-muted p-2 font-mono">
+                      {JSON.stringify(entry.toolInput, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </button>
+            );
+          })}
+
+          {hasMore && (
+            <p className="px-2 py-2 text-center text-xs text-muted-foreground">
+              최근 기록만 표시됩니다. 날짜 범위를 좁혀 조회하세요.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
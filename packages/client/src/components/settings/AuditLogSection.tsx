@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { AuditLogDialog } from './AuditLogDialog';
+
+/**
+ * 감사 로그 섹션
+ *
+ * Pylon이 기록한 권한 결정/도구 실행 이력을 여는 진입점입니다.
+ */
+export function AuditLogSection() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Card data-section="audit-log">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <span>📜</span>
+          감사 로그
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          모든 권한 결정과 도구 실행이 전체 입력과 함께 기록됩니다.
+        </p>
+        <Button variant="outline" size="sm" className="w-full" onClick={() => setOpen(true)}>
+          <ScrollText className="h-4 w-4 mr-1" />
+          감사 로그 보기
+        </Button>
+      </CardContent>
+      <AuditLogDialog open={open} onClose={() => setOpen(false)} />
+    </Card>
+  );
+}
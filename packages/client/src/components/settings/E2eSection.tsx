@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { KeyRound, Link, Unlink } from 'lucide-react';
+import { PAIRING_LINK_FRAGMENT } from '@estelle/core';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useE2eStore, useDeviceConfigStore, type E2eSessionStatus } from '../../stores';
+import { e2eService } from '../../services/e2eService';
+
+const SESSION_LABELS: Record<E2eSessionStatus, string> = {
+  handshaking: '연결 중',
+  ready: '암호화됨',
+  unpaired: '다시 페어링 필요',
+  failed: '키 확인 실패',
+};
+
+/**
+ * 종단간 암호화 섹션
+ *
+ * Pylon 콘솔(또는 이미 페어링한 기기)에서 받은 코드로 Pylon과 페어링하고,
+ * 다른 기기용 페어링 코드/링크를 발급하거나 페어링을 해제합니다.
+ * 페어링한 Pylon과의 메시지는 Relay가 읽을 수 없도록 암호화됩니다.
+ */
+export function E2eSection() {
+  const { pairings, sessions, modes, pairing, issuedCode } = useE2eStore();
+  const { getName } = useDeviceConfigStore();
+  const [code, setCode] = useState('');
+
+  const paired = Object.values(pairings);
+  const requiredPylons = Object.entries(modes)
+    .filter(([pylonId, mode]) => mode === 'required' && !pairings[Number(pylonId)])
+    .map(([pylonId]) => Number(pylonId));
+
+  const handlePair = () => {
+    if (e2eService.pair(code)) {
+      setCode('');
+    }
+  };
+
+  const handleUnpair = (pylonId: number) => {
+    if (confirm(`${getName(pylonId)}와(과)의 페어링을 해제할까요?`)) {
+      e2eService.unpair(pylonId);
+    }
+  };
+
+  const issuedLink = issuedCode
+    ? `${window.location.origin}/#${PAIRING_LINK_FRAGMENT}=${encodeURIComponent(issuedCode.code)}`
+    : null;
+
+  return (
+    <Card data-section="e2e">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <span>🔐</span>
+          종단간 암호화
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requiredPylons.length > 0 && (
+          <p className="text-xs text-destructive">
+            {requiredPylons.map(getName).join(', ')}: 암호화가 필수입니다. 페어링해야 사용할 수 있습니다.
+          </p>
+        )}
+
+        {/* 페어링한 Pylon */}
+        {paired.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            페어링한 Pylon이 없습니다. Pylon 콘솔에 출력된 페어링 코드를 입력하세요.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {paired.map((item) => (
+              <div key={item.pylonId} className="flex items-center gap-2 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {getName(item.pylonId)}
+                    <span className="ml-2 text-muted-foreground">
+                      {SESSION_LABELS[sessions[item.pylonId]] ?? '오프라인'}
+                    </span>
+                  </div>
+                  <div className="font-mono text-muted-foreground truncate">{item.fingerprint}</div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => e2eService.requestPairingCode(item.pylonId)}
+                  disabled={sessions[item.pylonId] !== 'ready'}
+                  title="다른 기기용 페어링 코드 발급"
+                >
+                  <Link className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleUnpair(item.pylonId)}
+                  title="페어링 해제"
+                >
+                  <Unlink className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 다른 기기용 코드 */}
+        {issuedCode && issuedLink && (
+          <div className="rounded border p-2 text-xs space-y-1">
+            <div>
+              {getName(issuedCode.pylonId)} 페어링 코드 (
+              {new Date(issuedCode.expiresAt).toLocaleTimeString()}까지)
+            </div>
+            <div className="font-mono select-all">{issuedCode.code}</div>
+            <div className="font-mono select-all break-all text-muted-foreground">{issuedLink}</div>
+          </div>
+        )}
+
+        {/* 코드 입력 */}
+        <div className="flex gap-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="1-ABCD-EFGH-JKMN-PQRS"
+            className="h-8 text-xs font-mono"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handlePair();
+            }}
+          />
+          <Button size="sm" className="h-8" onClick={handlePair} disabled={!code.trim() || pairing.state === 'pending'}>
+            <KeyRound className="h-4 w-4 mr-1" />
+            페어링
+          </Button>
+        </div>
+        {pairing.state === 'pending' && <p className="text-xs text-muted-foreground">페어링 중...</p>}
+        {pairing.state === 'success' && pairing.pylonId !== undefined && (
+          <p className="text-xs text-muted-foreground">{getName(pairing.pylonId)}와(과) 페어링했습니다.</p>
+        )}
+        {pairing.state === 'error' && <p className="text-xs text-destructive">{pairing.error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { PUSH_EVENT_KINDS } from '@estelle/core';
+import type { PushEventKind } from '@estelle/core';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { useSettingsStore, useWorkspaceStore, useDeviceConfigStore } from '../../stores';
+import {
+  isPushSupported,
+  enablePushNotifications,
+  disablePushNotifications,
+  syncPushSubscription,
+} from '../../services/pushService';
+
+const EVENT_LABELS: Record<PushEventKind, string> = {
+  permission: '권한 요청',
+  question: '질문',
+  finished: '완료',
+  error: '에러',
+  task: '워커 태스크',
+};
+
+/**
+ * 알림 섹션
+ *
+ * 이 디바이스의 Web Push 알림을 켜고 끄며,
+ * 이벤트 종류와 Pylon/워크스페이스별로 받을 알림을 고릅니다.
+ * 설정은 이 디바이스에만 저장되고 변경 즉시 Relay에 다시 등록됩니다.
+ */
+export function NotificationSection() {
+  const {
+    pushPublicKey,
+    notificationPreferences: preferences,
+    setNotificationEvent,
+    toggleNotificationPylon,
+    toggleNotificationWorkspace,
+  } = useSettingsStore();
+  const { getAllWorkspaces } = useWorkspaceStore();
+  const { getName } = useDeviceConfigStore();
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const supported = isPushSupported();
+  const available = supported && pushPublicKey !== null;
+
+  const handleToggle = async () => {
+    setPending(true);
+    setError(null);
+    try {
+      if (preferences.enabled) {
+        await disablePushNotifications();
+      } else if (!(await enablePushNotifications())) {
+        setError('알림 권한이 거부되었거나 구독에 실패했습니다.');
+      }
+    } finally {
+      setPending(false);
+    }
+  };
+
+  // 설정 변경 후 Relay에 다시 등록
+  const update = (change: () => void) => {
+    change();
+    void syncPushSubscription();
+  };
+
+  return (
+    <Card data-section="notifications">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <span>🔔</span>
+          알림
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!available ? (
+          <p className="text-xs text-muted-foreground">
+            {supported
+              ? 'Relay가 푸시 알림을 지원하지 않습니다.'
+              : '이 브라우저는 푸시 알림을 지원하지 않습니다. (iOS는 홈 화면에 추가한 앱에서만 지원)'}
+          </p>
+        ) : (
+          <>
+            <Button
+              variant={preferences.enabled ? 'outline' : 'default'}
+              size="sm"
+              className="w-full"
+              onClick={handleToggle}
+              disabled={pending}
+            >
+              {preferences.enabled ? (
+                <>
+                  <BellOff className="h-4 w-4 mr-1" />
+                  이 디바이스 알림 끄기
+                </>
+              ) : (
+                <>
+                  <Bell className="h-4 w-4 mr-1" />
+                  이 디바이스 알림 켜기
+                </>
+              )}
+            </Button>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {preferences.enabled && (
+              <>
+                {/* 이벤트 종류 */}
+                <div className="flex flex-wrap gap-1">
+                  {PUSH_EVENT_KINDS.map((kind) => (
+                    <Button
+                      key={kind}
+                      variant={preferences.events[kind] ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => update(() => setNotificationEvent(kind, !preferences.events[kind]))}
+                    >
+                      {EVENT_LABELS[kind]}
+                    </Button>
+                  ))}
+                </div>
+
+                {/* Pylon / 워크스페이스 */}
+                <div className="space-y-2 border-t border-border pt-3">
+                  {getAllWorkspaces().map(({ pylonId, workspaces }) => {
+                    const pylonMuted = preferences.mutedPylonIds.includes(pylonId);
+                    return (
+                      <div key={pylonId} className="space-y-1">
+                        <Button
+                          variant={pylonMuted ? 'outline' : 'default'}
+                          size="sm"
+                          className="h-7 w-full justify-between text-xs"
+                          onClick={() => update(() => toggleNotificationPylon(pylonId))}
+                        >
+                          <span className="truncate">{getName(pylonId)}</span>
+                          {pylonMuted ? <BellOff className="h-3.5 w-3.5" /> : <Bell className="h-3.5 w-3.5" />}
+                        </Button>
+                        {!pylonMuted && (
+                          <div className="flex flex-wrap gap-1 pl-2">
+                            {workspaces.map((workspace) => {
+                              const workspaceId = Number(workspace.workspaceId);
+                              const muted = preferences.mutedWorkspaceIds.includes(workspaceId);
+                              return (
+                                <Button
+                                  key={workspace.workspaceId}
+                                  variant={muted ? 'outline' : 'secondary'}
+                                  size="sm"
+                                  className="h-6 text-xs"
+                                  onClick={() => update(() => toggleNotificationWorkspace(workspaceId))}
+                                  title={muted ? '알림 켜기' : '알림 끄기'}
+                                >
+                                  {muted && <BellOff className="h-3 w-3 mr-1" />}
+                                  {workspace.name}
+                                </Button>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
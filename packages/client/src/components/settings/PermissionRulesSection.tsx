@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import type {
+  PermissionRule,
+  PermissionRuleAction,
+  PermissionRuleLocation,
+  WorkspaceWithActive,
+} from '@estelle/core';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { useWorkspaceStore, useDeviceConfigStore } from '../../stores';
+import { updateWorkspace } from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+
+const ACTION_LABELS: Record<PermissionRuleAction, string> = {
+  allow: '허용',
+  ask: '확인',
+  deny: '거부',
+};
+
+const ACTION_STYLES: Record<PermissionRuleAction, string> = {
+  allow: 'text-green-600 dark:text-green-400',
+  ask: 'text-yellow-600 dark:text-yellow-400',
+  deny: 'text-destructive',
+};
+
+const LOCATION_OPTIONS: { value: PermissionRuleLocation | null; label: string }[] = [
+  { value: null, label: '모든 경로' },
+  { value: 'inside', label: '폴더 안' },
+  { value: 'outside', label: '폴더 밖' },
+];
+
+interface WorkspaceOption {
+  pylonId: number;
+  workspace: WorkspaceWithActive;
+}
+
+/**
+ * 규칙 한 줄 설명 (예: "Bash · pnpm test* · 폴더 밖")
+ */
+function describeRule(rule: PermissionRule): string {
+  const location = LOCATION_OPTIONS.find((o) => o.value === rule.location);
+  return [
+    rule.toolName === '*' ? '모든 도구' : rule.toolName,
+    rule.pattern,
+    rule.location && location?.label,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * 권한 규칙 섹션
+ *
+ * 워크스페이스별 도구 권한 규칙(허용/확인/거부)을 편집합니다.
+ * 규칙은 Pylon에 저장되며 변경 즉시 적용됩니다.
+ * 여러 규칙이 일치하면 거부 → 확인 → 허용 순으로 우선합니다.
+ */
+export function PermissionRulesSection() {
+  const { getAllWorkspaces, selectedConversation } = useWorkspaceStore();
+  const { getName } = useDeviceConfigStore();
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [toolName, setToolName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [location, setLocation] = useState<PermissionRuleLocation | null>(null);
+  const [action, setAction] = useState<PermissionRuleAction>('allow');
+
+  const options: WorkspaceOption[] = getAllWorkspaces().flatMap(({ pylonId, workspaces }) =>
+    workspaces.map((workspace) => ({ pylonId, workspace }))
+  );
+  const keyOf = (o: { pylonId: number; workspace: { workspaceId: string } }) =>
+    `${o.pylonId}:${o.workspace.workspaceId}`;
+
+  // 선택이 없으면 현재 대화의 워크스페이스, 그것도 없으면 첫 워크스페이스
+  const defaultKey = selectedConversation
+    ? `${selectedConversation.pylonId}:${selectedConversation.workspaceId}`
+    : null;
+  const current =
+    options.find((o) => keyOf(o) === selectedKey) ??
+    options.find((o) => keyOf(o) === defaultKey) ??
+    options[0];
+
+  if (!current) return null;
+
+  const rules = current.workspace.permissionRules ?? [];
+  const trimmedTool = toolName.trim();
+
+  const saveRules = (next: PermissionRule[]) => {
+    updateWorkspace(Number(current.workspace.workspaceId), { permissionRules: next });
+  };
+
+  const handleAdd = () => {
+    if (!trimmedTool) return;
+    const trimmedPattern = pattern.trim();
+    const rule: PermissionRule = {
+      id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      toolName: trimmedTool,
+      ...(trimmedPattern && { pattern: trimmedPattern }),
+      ...(location && { location }),
+      action,
+      createdAt: Date.now(),
+    };
+    saveRules([...rules, rule]);
+    setToolName('');
+    setPattern('');
+    setLocation(null);
+  };
+
+  return (
+    <Card data-section="permission-rules">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <span>🛡️</span>
+          권한 규칙
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* 워크스페이스 선택 */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full justify-between">
+              <span className="truncate">
+                {getName(current.pylonId)} / {current.workspace.name}
+              </span>
+              <ChevronDown className="h-4 w-4 shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {options.map((o) => (
+              <DropdownMenuItem key={keyOf(o)} onClick={() => setSelectedKey(keyOf(o))}>
+                {getName(o.pylonId)} / {o.workspace.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* 규칙 목록 */}
+        {rules.length === 0 ? (
+          <p className="text-xs text-muted-foreground">규칙이 없습니다. 기본 권한 규칙만 적용됩니다.</p>
+        ) : (
+          <div className="space-y-1">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center gap-2 text-sm">
+                <span className={cn('w-8 shrink-0 text-xs font-medium', ACTION_STYLES[rule.action])}>
+                  {ACTION_LABELS[rule.action]}
+                </span>
+                <span className="flex-1 truncate" title={describeRule(rule)}>
+                  {describeRule(rule)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => saveRules(rules.filter((r) => r.id !== rule.id))}
+                  title="규칙 삭제"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 규칙 추가 */}
+        <div className="space-y-2 border-t border-border pt-3">
+          <div className="flex gap-2">
+            <Input
+              value={toolName}
+              onChange={(e) => setToolName(e.target.value)}
+              placeholder="도구 (Bash, * = 전체)"
+              className="h-8 w-2/5"
+            />
+            <Input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="패턴 (예: pnpm test*)"
+              className="h-8 flex-1"
+            />
+          </div>
+          <div className="flex gap-1">
+            {LOCATION_OPTIONS.map((o) => (
+              <Button
+                key={o.label}
+                variant={location === o.value ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setLocation(o.value)}
+              >
+                {o.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {(Object.keys(ACTION_LABELS) as PermissionRuleAction[]).map((a) => (
+              <Button
+                key={a}
+                variant={action === a ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setAction(a)}
+              >
+                {ACTION_LABELS[a]}
+              </Button>
+            ))}
+            <Button size="sm" className="h-7" onClick={handleAdd} disabled={!trimmedTool}>
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              추가
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
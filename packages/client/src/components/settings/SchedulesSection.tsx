@@ -0,0 +1,410 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, Pencil, Play, Plus, X } from 'lucide-react';
+import { getNextCronTime, isValidCron } from '@estelle/core';
+import type {
+  Schedule,
+  ScheduleConversationMode,
+  ScheduleInput,
+  ScheduleRunStatus,
+  WorkspaceWithActive,
+} from '@estelle/core';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { useWorkspaceStore, useDeviceConfigStore, useScheduleStore } from '../../stores';
+import { useCommandStore } from '../../stores/commandStore';
+import {
+  requestSchedules,
+  saveSchedule,
+  deleteSchedule,
+  runScheduleNow,
+} from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+
+const STATUS_LABELS: Record<ScheduleRunStatus, string> = {
+  succeeded: '성공',
+  started: '실행',
+  skipped: '건너뜀',
+  failed: '실패',
+};
+
+const STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  succeeded: 'text-green-600 dark:text-green-400',
+  started: 'text-green-600 dark:text-green-400',
+  skipped: 'text-yellow-600 dark:text-yellow-400',
+  failed: 'text-destructive',
+};
+
+const MODE_OPTIONS: { value: ScheduleConversationMode; label: string }[] = [
+  { value: 'reuse', label: '같은 대화에 이어서' },
+  { value: 'new', label: '매번 새 대화' },
+];
+
+interface WorkspaceOption {
+  pylonId: number;
+  workspace: WorkspaceWithActive;
+}
+
+/**
+ * 편집 중인 예약 (scheduleId가 없으면 새 예약)
+ */
+interface ScheduleDraft {
+  scheduleId?: number;
+  name: string;
+  cron: string;
+  actionKind: 'text' | 'command';
+  text: string;
+  commandId: number | null;
+  conversationMode: ScheduleConversationMode;
+  conversationName: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  cron: '0 9 * * 1-5',
+  actionKind: 'text',
+  text: '',
+  commandId: null,
+  conversationMode: 'reuse',
+  conversationName: '',
+  enabled: true,
+};
+
+function toDraft(schedule: Schedule): ScheduleDraft {
+  return {
+    scheduleId: schedule.scheduleId,
+    name: schedule.name,
+    cron: schedule.cron,
+    actionKind: schedule.action.kind,
+    text: schedule.action.kind === 'text' ? schedule.action.text : '',
+    commandId: schedule.action.kind === 'command' ? schedule.action.commandId : null,
+    conversationMode: schedule.conversationMode,
+    conversationName: schedule.conversationName ?? '',
+    enabled: schedule.enabled,
+  };
+}
+
+function toInput(draft: ScheduleDraft, workspaceId: number): ScheduleInput | null {
+  if (!draft.name.trim() || !isValidCron(draft.cron)) return null;
+
+  const action: ScheduleInput['action'] | null =
+    draft.actionKind === 'command'
+      ? draft.commandId !== null ? { kind: 'command', commandId: draft.commandId } : null
+      : draft.text.trim() ? { kind: 'text', text: draft.text } : null;
+  if (!action) return null;
+
+  const conversationName = draft.conversationName.trim();
+  return {
+    workspaceId,
+    name: draft.name.trim(),
+    cron: draft.cron.trim(),
+    action,
+    conversationMode: draft.conversationMode,
+    ...(conversationName && { conversationName }),
+    enabled: draft.enabled,
+  };
+}
+
+/**
+ * 예약 실행 섹션
+ *
+ * 워크스페이스별로 정해진 시각에 보낼 프롬프트/커맨드를 관리합니다.
+ * 예약은 Pylon에 저장되고 Pylon의 로컬 시간 기준으로 실행됩니다.
+ */
+export function SchedulesSection() {
+  const { getAllWorkspaces, selectedConversation } = useWorkspaceStore();
+  const { getName } = useDeviceConfigStore();
+  const schedulesByPylon = useScheduleStore((s) => s.schedulesByPylon);
+  const recentRuns = useScheduleStore((s) => s.recentRuns);
+  const saveError = useScheduleStore((s) => s.saveError);
+  const getCommandsForWorkspace = useCommandStore((s) => s.getCommandsForWorkspace);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+
+  useEffect(() => {
+    requestSchedules();
+  }, []);
+
+  const options: WorkspaceOption[] = getAllWorkspaces().flatMap(({ pylonId, workspaces }) =>
+    workspaces.map((workspace) => ({ pylonId, workspace }))
+  );
+  const keyOf = (o: { pylonId: number; workspace: { workspaceId: string } }) =>
+    `${o.pylonId}:${o.workspace.workspaceId}`;
+
+  // 선택이 없으면 현재 대화의 워크스페이스, 그것도 없으면 첫 워크스페이스
+  const defaultKey = selectedConversation
+    ? `${selectedConversation.pylonId}:${selectedConversation.workspaceId}`
+    : null;
+  const current =
+    options.find((o) => keyOf(o) === selectedKey) ??
+    options.find((o) => keyOf(o) === defaultKey) ??
+    options[0];
+
+  if (!current) return null;
+
+  const workspaceId = Number(current.workspace.workspaceId);
+  const schedules = (schedulesByPylon[current.pylonId] ?? []).filter(
+    (s) => s.workspaceId === workspaceId
+  );
+  const commands = getCommandsForWorkspace(workspaceId);
+  const commandName = (id: number) => commands.find((c) => c.id === id)?.name ?? `커맨드 #${id}`;
+  const runs = recentRuns.filter((r) => r.pylonId === current.pylonId && r.workspaceId === workspaceId);
+
+  const input = draft ? toInput(draft, workspaceId) : null;
+  const preview = draft && isValidCron(draft.cron) ? getNextCronTime(draft.cron, Date.now()) : null;
+
+  const updateDraft = (fields: Partial<ScheduleDraft>) => {
+    setDraft((d) => (d ? { ...d, ...fields } : d));
+  };
+
+  const handleSave = () => {
+    if (!draft || !input) return;
+    useScheduleStore.getState().clearSaveError();
+    saveSchedule(input, draft.scheduleId);
+    setDraft(null);
+  };
+
+  const handleToggle = (schedule: Schedule) => {
+    const { scheduleId, createdAt, nextRunAt, lastRun, ...rest } = schedule;
+    saveSchedule({ ...rest, enabled: !schedule.enabled }, scheduleId);
+  };
+
+  return (
+    <Card data-section="schedules">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <span>⏰</span>
+          예약 실행
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* 워크스페이스 선택 */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full justify-between">
+              <span className="truncate">
+                {getName(current.pylonId)} / {current.workspace.name}
+              </span>
+              <ChevronDown className="h-4 w-4 shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {options.map((o) => (
+              <DropdownMenuItem
+                key={keyOf(o)}
+                onClick={() => {
+                  setSelectedKey(keyOf(o));
+                  setDraft(null);
+                }}
+              >
+                {getName(o.pylonId)} / {o.workspace.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* 예약 목록 */}
+        {schedules.length === 0 ? (
+          <p className="text-xs text-muted-foreground">예약이 없습니다.</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div key={schedule.scheduleId} className="space-y-0.5">
+                <div className="flex items-center gap-2 text-sm">
+                  <button
+                    className={cn(
+                      'h-3 w-3 shrink-0 rounded-full border',
+                      schedule.enabled ? 'bg-green-500 border-green-500' : 'border-muted-foreground'
+                    )}
+                    onClick={() => handleToggle(schedule)}
+                    title={schedule.enabled ? '끄기' : '켜기'}
+                  />
+                  <span className="flex-1 truncate" title={schedule.name}>
+                    {schedule.name}
+                  </span>
+                  <code className="text-xs text-muted-foreground">{schedule.cron}</code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => runScheduleNow(current.pylonId, schedule.scheduleId)}
+                    title="지금 실행"
+                  >
+                    <Play className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setDraft(toDraft(schedule))}
+                    title="수정"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => deleteSchedule(current.pylonId, schedule.scheduleId)}
+                    title="예약 삭제"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <p className="pl-5 text-xs text-muted-foreground truncate">
+                  {schedule.action.kind === 'command'
+                    ? commandName(schedule.action.commandId)
+                    : schedule.action.text}
+                  {' · '}
+                  {schedule.nextRunAt
+                    ? `다음 ${new Date(schedule.nextRunAt).toLocaleString()}`
+                    : '꺼짐'}
+                  {schedule.lastRun && (
+                    <span className={cn('ml-1', STATUS_STYLES[schedule.lastRun.status])}>
+                      · 마지막 {STATUS_LABELS[schedule.lastRun.status]}
+                    </span>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 최근 실행 */}
+        {runs.length > 0 && (
+          <div className="space-y-1 border-t border-border pt-3">
+            <p className="text-xs font-medium">최근 실행</p>
+            {runs.slice(0, 5).map((r) => (
+              <p key={`${r.run.scheduleId}:${r.run.runAt}`} className="text-xs truncate">
+                <span className={STATUS_STYLES[r.run.status]}>{STATUS_LABELS[r.run.status]}</span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  {new Date(r.run.runAt).toLocaleTimeString()} · {r.name}
+                  {r.run.error && ` · ${r.run.error}`}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {saveError && <p className="text-xs text-destructive">{saveError}</p>}
+
+        {/* 예약 편집 */}
+        {draft ? (
+          <div className="space-y-2 border-t border-border pt-3">
+            <Input
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="예약 이름"
+              className="h-8"
+            />
+            <div className="space-y-1">
+              <Input
+                value={draft.cron}
+                onChange={(e) => updateDraft({ cron: e.target.value })}
+                placeholder="cron (분 시 일 월 요일)"
+                className="h-8 font-mono"
+              />
+              <p className={cn('text-xs', isValidCron(draft.cron) ? 'text-muted-foreground' : 'text-destructive')}>
+                {isValidCron(draft.cron)
+                  ? preview
+                    ? `다음 실행: ${new Date(preview).toLocaleString()}`
+                    : '실행 시각이 없습니다'
+                  : '잘못된 cron 표현식입니다 (예: 0 9 * * 1-5, @daily)'}
+              </p>
+            </div>
+
+            <div className="flex gap-1">
+              <Button
+                variant={draft.actionKind === 'text' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => updateDraft({ actionKind: 'text' })}
+              >
+                프롬프트
+              </Button>
+              <Button
+                variant={draft.actionKind === 'command' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => updateDraft({ actionKind: 'command' })}
+                disabled={commands.length === 0}
+              >
+                커맨드
+              </Button>
+            </div>
+            {draft.actionKind === 'text' ? (
+              <Textarea
+                value={draft.text}
+                onChange={(e) => updateDraft({ text: e.target.value })}
+                placeholder="보낼 프롬프트"
+                rows={3}
+              />
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="w-full justify-between">
+                    <span className="truncate">
+                      {draft.commandId !== null ? commandName(draft.commandId) : '커맨드 선택'}
+                    </span>
+                    <ChevronDown className="h-4 w-4 shrink-0" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {commands.map((c) => (
+                    <DropdownMenuItem key={c.id} onClick={() => updateDraft({ commandId: c.id })}>
+                      {c.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            <div className="flex gap-1">
+              {MODE_OPTIONS.map((o) => (
+                <Button
+                  key={o.value}
+                  variant={draft.conversationMode === o.value ? 'default' : 'outline'}
+                  size="sm"
+                  className="flex-1 h-7 text-xs"
+                  onClick={() => updateDraft({ conversationMode: o.value })}
+                >
+                  {o.label}
+                </Button>
+              ))}
+            </div>
+            <Input
+              value={draft.conversationName}
+              onChange={(e) => updateDraft({ conversationName: e.target.value })}
+              placeholder="대화 이름 (비우면 예약 이름)"
+              className="h-8"
+            />
+
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" className="flex-1 h-7" onClick={() => setDraft(null)}>
+                취소
+              </Button>
+              <Button size="sm" className="flex-1 h-7" onClick={handleSave} disabled={!input}>
+                저장
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            예약 추가
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,9 @@
 import { AccountSection } from './AccountSection';
+import { AuditLogSection } from './AuditLogSection';
+import { E2eSection } from './E2eSection';
+import { NotificationSection } from './NotificationSection';
+import { PermissionRulesSection } from './PermissionRulesSection';
+import { SchedulesSection } from './SchedulesSection';
 import { VersionSection } from './VersionSection';
 // import { DebugLogSection } from './DebugLogSection';
 
@@ -10,6 +15,11 @@ export function SettingsScreen() {
     <div className="flex-1 bg-background">
       <div className="h-full overflow-y-auto p-4 space-y-4">
         <AccountSection />
+        <PermissionRulesSection />
+        <SchedulesSection />
+        <NotificationSection />
+        <E2eSection />
+        <AuditLogSection />
         <VersionSection />
         {/* <DebugLogSection /> */}
       </div>
@@ -24,6 +34,11 @@ export function SettingsContent() {
   return (
     <div className="space-y-4">
       <AccountSection />
+      <PermissionRulesSection />
+      <SchedulesSection />
+      <NotificationSection />
+      <E2eSection />
+      <AuditLogSection />
       <VersionSection />
       {/* <DebugLogSection /> */}
     </div>
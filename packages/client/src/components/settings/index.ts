@@ -5,6 +5,12 @@
 
 export { SettingsScreen, SettingsContent } from './SettingsScreen';
 export { SettingsDialog } from './SettingsDialog';
+export { PermissionRulesSection } from './PermissionRulesSection';
+export { SchedulesSection } from './SchedulesSection';
+export { NotificationSection } from './NotificationSection';
+export { E2eSection } from './E2eSection';
+export { AuditLogSection } from './AuditLogSection';
+export { AuditLogDialog } from './AuditLogDialog';
 export { ClaudeUsageCard } from './ClaudeUsageCard';
 export { DeployStatusCard } from './DeployStatusCard';
 export { DeploySection } from './DeploySection';
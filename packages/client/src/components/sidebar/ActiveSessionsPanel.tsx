@@ -0,0 +1,63 @@
+import type { PylonActiveSession } from '@estelle/core';
+import { Card } from '../ui/card';
+import { useWorkspaceStore, useDeviceConfigStore } from '../../stores';
+import { getDeviceIcon } from '../../utils/device-icons';
+import { StatusDot } from '../common/StatusDot';
+
+/** 상태별 정렬 우선순위 (권한 대기가 가장 위) */
+const STATUS_ORDER: Record<PylonActiveSession['status'], number> = {
+  waiting: 0,
+  error: 1,
+  working: 2,
+};
+
+const STATUS_LABELS: Record<PylonActiveSession['status'], string> = {
+  waiting: '권한 대기',
+  error: '에러',
+  working: '작업 중',
+};
+
+interface ActiveSessionsPanelProps {
+  /** 세션 클릭 콜백 */
+  onSelect: (pylonId: number, conversationId: number) => void;
+}
+
+/**
+ * 전체 Pylon의 활성 세션 목록 (Relay device_status 집계)
+ * - 권한 대기 → 에러 → 작업 중 순으로 정렬
+ * - 활성 세션이 없으면 렌더링하지 않음
+ */
+export function ActiveSessionsPanel({ onSelect }: ActiveSessionsPanelProps) {
+  const { getAllActiveSessions } = useWorkspaceStore();
+  const { getIcon, getName } = useDeviceConfigStore();
+
+  const sessions = getAllActiveSessions().sort(
+    (a, b) => STATUS_ORDER[a.session.status] - STATUS_ORDER[b.session.status]
+  );
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="py-1">
+      <p className="px-3 py-1 text-xs font-medium text-muted-foreground">활성 세션</p>
+      {sessions.map(({ pylonId, session }) => {
+        const IconComponent = getDeviceIcon(getIcon(pylonId));
+        return (
+          <button
+            key={`${pylonId}-${session.conversationId}`}
+            onClick={() => onSelect(pylonId, session.conversationId)}
+            className="flex items-center gap-2 w-full px-3 py-1.5 text-left text-sm hover:bg-accent/50 transition-colors"
+            title={`${getName(pylonId)} · ${STATUS_LABELS[session.status]}`}
+          >
+            <IconComponent className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate">
+              <span className="text-muted-foreground">{session.workspaceName} / </span>
+              {session.conversationName}
+            </span>
+            <StatusDot status={session.status} size="sm" />
+          </button>
+        );
+      })}
+    </Card>
+  );
+}
@@ -1,3 +1,4 @@
+import { GitBranch } from 'lucide-react';
 import type { Conversation } from '@estelle/core';
 import { cn } from '../../lib/utils';
 import { StatusDot } from '../common/StatusDot';
@@ -49,8 +50,11 @@ export function ConversationItem({
           : 'hover:bg-accent/50'
       )}
     >
-      <span className={cn('text-sm truncate', isSelected && 'font-medium')}>
-        {showWorkspaceName ? workspaceName : conversation.name}
+      <span className={cn('flex items-center gap-1 text-sm truncate', isSelected && 'font-medium')}>
+        {conversation.parentConversationId !== undefined && (
+          <span title="분기된 대화"><GitBranch className="h-3 w-3 shrink-0 text-muted-foreground" /></span>
+        )}
+        <span className="truncate">{showWorkspaceName ? workspaceName : conversation.name}</span>
       </span>
       <StatusDot status={dotStatus} size="sm" />
     </button>
@@ -0,0 +1,202 @@
+import { useState, useEffect, useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { MessageType, type ConversationImportResultPayload } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { blobService, e2eService, getWebSocket, requestConversationImport } from '../../services';
+
+/** 가져오기 결과 대기 시간 (업로드 포함) */
+const IMPORT_TIMEOUT_MS = 60000;
+
+interface ImportConversationDialogProps {
+  open: boolean;
+  workspaceId: string;
+  workspaceName: string;
+  pylonId: number;
+  onClose: () => void;
+}
+
+/**
+ * 대화 가져오기 다이얼로그
+ *
+ * Estelle JSON 아카이브 또는 Claude Code 트랜스크립트(.jsonl)를 가져옵니다.
+ * 파일을 선택하면 업로드하고, 경로를 입력하면 Pylon에 있는 파일을 읽습니다.
+ */
+export function ImportConversationDialog({
+  open,
+  workspaceId,
+  workspaceName,
+  pylonId,
+  onClose,
+}: ImportConversationDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [path, setPath] = useState('');
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setPath('');
+      setName('');
+      setLoading(false);
+      setError(null);
+    }
+  }, [open]);
+
+  // 닫힐 때 대기 중인 리스너 정리
+  useEffect(() => {
+    return () => cleanupRef.current?.();
+  }, []);
+
+  const canImport = !loading && (file !== null || path.trim() !== '');
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    setFile(selected);
+    if (selected) setPath('');
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    if (!getWebSocket()) {
+      setError('서버에 연결되어 있지 않습니다.');
+      return;
+    }
+
+    const targetWorkspaceId = Number(workspaceId);
+    setLoading(true);
+    setError(null);
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const removeListener = e2eService.addMessageListener((message) => {
+      if (message.type !== MessageType.CONVERSATION_IMPORT_RESULT) return;
+
+      const result = message.payload as unknown as ConversationImportResultPayload;
+      if (result.workspaceId !== targetWorkspaceId) return;
+
+      cleanup();
+      setLoading(false);
+
+      if (!result.success) {
+        setError(result.error || '가져오기에 실패했습니다.');
+        return;
+      }
+
+      if (!result.resumable) {
+        alert('대화를 가져왔습니다. 원본 세션을 찾을 수 없어 새 세션으로 이어집니다.');
+      }
+      onClose();
+    });
+
+    const cleanup = () => {
+      removeListener();
+      clearTimeout(timeoutId);
+      cleanupRef.current = null;
+    };
+
+    cleanupRef.current = cleanup;
+
+    // 타임아웃 처리
+    timeoutId = setTimeout(() => {
+      cleanup();
+      setLoading(false);
+      setError('요청 시간이 초과되었습니다.');
+    }, IMPORT_TIMEOUT_MS);
+
+    const trimmedName = name.trim() || undefined;
+
+    if (file) {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const blobId = await blobService.uploadConversationImport({
+        bytes,
+        filename: file.name,
+        targetDeviceId: pylonId,
+        workspaceId: targetWorkspaceId,
+        name: trimmedName,
+      });
+      if (!blobId) {
+        cleanup();
+        setLoading(false);
+        setError('파일 업로드에 실패했습니다.');
+      }
+    } else {
+      requestConversationImport(targetWorkspaceId, path.trim(), trimmedName);
+    }
+  };
+
+  const handleClose = () => {
+    cleanupRef.current?.();
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>대화 가져오기</DialogTitle>
+          <DialogDescription>
+            워크스페이스: {workspaceName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            <span className="truncate">{file ? file.name : '파일 선택 (.json, .jsonl)'}</span>
+          </Button>
+          <Input
+            placeholder="또는 Pylon의 파일 경로"
+            value={path}
+            onChange={(e) => {
+              setPath(e.target.value);
+              if (e.target.value) setFile(null);
+            }}
+            disabled={loading}
+          />
+          <Input
+            placeholder="대화 이름 (비우면 원본에서 추출)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={loading}
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>취소</Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {loading ? '가져오는 중...' : '가져오기'}
+          </Button>
+        </DialogFooter>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.jsonl,application/json"
+          className="hidden"
+          onChange={handleFileSelect}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
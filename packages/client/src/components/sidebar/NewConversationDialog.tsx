@@ -9,12 +9,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../ui/dialog';
+import { DEFAULT_AGENT_TYPE, type AgentType } from '@estelle/core';
 import { createConversation } from '../../services/relaySender';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
 
 interface NewConversationDialogProps {
   open: boolean;
   workspaceId: string;
   workspaceName: string;
+  /** 워크스페이스가 있는 Pylon (등록된 에이전트 조회용) */
+  pylonId: number;
+  /** 워크스페이스 기본 에이전트 */
+  defaultAgentType?: AgentType;
   onClose: () => void;
 }
 
@@ -25,20 +31,31 @@ export function NewConversationDialog({
   open,
   workspaceId,
   workspaceName,
+  pylonId,
+  defaultAgentType,
   onClose,
 }: NewConversationDialogProps) {
   const [name, setName] = useState('');
+  const [useWorktree, setUseWorktree] = useState(false);
+  const [agentType, setAgentType] = useState<AgentType>(DEFAULT_AGENT_TYPE);
+  const agents = useWorkspaceStore(
+    (s) => s.connectedPylons.find((p) => p.deviceId === pylonId)?.agents
+  ) ?? [];
+  // 기본값이 목록에 없으면(설정에서 빠진 에이전트) 첫 에이전트
+  const selectedAgent = agents.some((a) => a.name === agentType) ? agentType : agents[0]?.name;
 
   useEffect(() => {
     if (open) {
       setName('');
+      setUseWorktree(false);
+      setAgentType(defaultAgentType ?? DEFAULT_AGENT_TYPE);
     }
-  }, [open]);
+  }, [open, defaultAgentType]);
 
   const handleCreate = () => {
     if (!name.trim()) return;
 
-    createConversation(Number(workspaceId), name.trim());
+    createConversation(Number(workspaceId), name.trim(), useWorktree, selectedAgent);
     setName('');
     onClose();
   };
@@ -72,6 +89,30 @@ export function NewConversationDialog({
             onKeyDown={handleKeyDown}
             autoFocus
           />
+          <label className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={useWorktree}
+              onChange={(e) => setUseWorktree(e.target.checked)}
+            />
+            전용 git worktree(브랜치)에서 작업
+          </label>
+          {agents.length > 1 && (
+            <label className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+              에이전트
+              <select
+                value={selectedAgent}
+                onChange={(e) => setAgentType(e.target.value)}
+                className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+              >
+                {agents.map((agent) => (
+                  <option key={agent.name} value={agent.name}>
+                    {agent.model ? `${agent.label} (${agent.model})` : agent.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
         </div>
 
         <DialogFooter>
@@ -1,28 +1,54 @@
-import { Star } from 'lucide-react';
+import { Star, Search, Layers } from 'lucide-react';
+import type { PylonActiveSession } from '@estelle/core';
 import { cn } from '../../lib/utils';
 import { useWorkspaceStore, useDeviceConfigStore } from '../../stores';
 import { getDeviceIcon } from '../../utils/device-icons';
+import { StatusDot } from '../common/StatusDot';
 
-export type PylonTabValue = 'favorites' | number;
+export type PylonTabValue = 'favorites' | 'all' | number;
+
+/**
+ * 활성 세션 중 가장 주의가 필요한 상태 (권한 대기 > 에러 > 작업 중)
+ */
+function getBadgeStatus(sessions: PylonActiveSession[]): PylonActiveSession['status'] | null {
+  if (sessions.some((s) => s.status === 'waiting')) return 'waiting';
+  if (sessions.some((s) => s.status === 'error')) return 'error';
+  if (sessions.length > 0) return 'working';
+  return null;
+}
+
+/**
+ * 탭 아이콘 우상단 상태 배지
+ */
+function TabBadge({ sessions }: { sessions: PylonActiveSession[] }) {
+  const status = getBadgeStatus(sessions);
+  if (!status) return null;
+  return <StatusDot status={status} size="md" className="absolute top-1 right-1" />;
+}
 
 interface PylonTabsProps {
   selectedTab: PylonTabValue;
   onTabChange: (tab: PylonTabValue) => void;
   /** 즐겨찾기가 있는지 여부 */
   hasFavorites: boolean;
+  /** 검색 버튼 클릭 콜백 (없으면 검색 버튼 숨김) */
+  onSearch?: () => void;
 }
 
 /**
  * Pylon별 탭 컴포넌트
  * - 즐겨찾기 탭 (⭐)
- * - 연결된 Pylon별 아이콘 탭
+ * - 전체 탭 (모든 Pylon의 워크스페이스 통합)
+ * - 연결된 Pylon별 아이콘 탭 (활성 세션 상태 배지)
+ * - 메시지 검색 버튼 (우측)
  */
-export function PylonTabs({ selectedTab, onTabChange, hasFavorites }: PylonTabsProps) {
-  const { connectedPylons } = useWorkspaceStore();
+export function PylonTabs({ selectedTab, onTabChange, hasFavorites, onSearch }: PylonTabsProps) {
+  const { connectedPylons, activeSessionsByPylon } = useWorkspaceStore();
   const { getIcon, getName } = useDeviceConfigStore();
 
   const isFavoritesDisabled = !hasFavorites;
   const isFavoritesSelected = selectedTab === 'favorites';
+  const allSessions = [...activeSessionsByPylon.values()].flat();
 
   return (
     <div className="flex items-center gap-1 px-2 py-1.5 border-b border-border bg-muted/30">
@@ -43,9 +69,24 @@ export function PylonTabs({ selectedTab, onTabChange, hasFavorites }: PylonTabsP
         <Star className={cn('h-4 w-4', isFavoritesSelected && hasFavorites && 'fill-current')} />
       </button>
 
-      {/* 구분선 */}
+      {/* 구분선 + 전체 탭 */}
       {connectedPylons.length > 0 && (
-        <div className="w-px h-5 bg-border mx-1" />
+        <>
+          <div className="w-px h-5 bg-border mx-1" />
+          <button
+            onClick={() => onTabChange('all')}
+            className={cn(
+              'relative flex items-center justify-center w-8 h-8 rounded-md transition-colors',
+              selectedTab === 'all'
+                ? 'bg-primary text-primary-foreground'
+                : 'hover:bg-accent text-muted-foreground hover:text-foreground'
+            )}
+            title="전체 Pylon"
+          >
+            <Layers className="h-4 w-4" />
+            <TabBadge sessions={allSessions} />
+          </button>
+        </>
       )}
 
       {/* Pylon 탭들 */}
@@ -60,7 +101,7 @@ export function PylonTabs({ selectedTab, onTabChange, hasFavorites }: PylonTabsP
             key={pylon.deviceId}
             onClick={() => onTabChange(pylon.deviceId)}
             className={cn(
-              'flex items-center justify-center w-8 h-8 rounded-md transition-colors',
+              'relative flex items-center justify-center w-8 h-8 rounded-md transition-colors',
               isSelected
                 ? 'bg-primary text-primary-foreground'
                 : 'hover:bg-accent text-muted-foreground hover:text-foreground'
@@ -68,9 +109,21 @@ export function PylonTabs({ selectedTab, onTabChange, hasFavorites }: PylonTabsP
             title={name}
           >
             <IconComponent className="h-4 w-4" />
+            <TabBadge sessions={activeSessionsByPylon.get(pylon.deviceId) ?? []} />
           </button>
         );
       })}
+
+      {/* 메시지 검색 */}
+      {onSearch && (
+        <button
+          onClick={onSearch}
+          className="ml-auto flex items-center justify-center w-8 h-8 rounded-md transition-colors hover:bg-accent text-muted-foreground hover:text-foreground"
+          title="메시지 검색"
+        >
+          <Search className="h-4 w-4" />
+        </button>
+      )}
     </div>
   );
 }
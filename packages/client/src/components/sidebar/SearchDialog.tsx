@@ -0,0 +1,152 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Search, Loader2, Wrench } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useSearchStore, useWorkspaceStore, type SearchResultItem } from '../../stores';
+import { searchMessages } from '../../services/relaySender';
+
+interface SearchDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** 검색 결과 선택 시 호출 */
+  onSelect: (result: SearchResultItem) => void;
+}
+
+/**
+ * 검색 발췌문 렌더링 ([[ ]]로 감싼 부분을 강조)
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/(\[\[.*?\]\])/g);
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.startsWith('[[') && part.endsWith(']]') ? (
+          <mark key={i} className="bg-yellow-300/60 text-foreground rounded-sm px-0.5">
+            {part.slice(2, -2)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * 메시지 검색 다이얼로그
+ *
+ * 연결된 모든 Pylon의 대화 히스토리를 검색하고,
+ * 결과를 선택하면 해당 대화의 메시지로 이동합니다.
+ */
+export function SearchDialog({ open, onClose, onSelect }: SearchDialogProps) {
+  const [input, setInput] = useState('');
+  const { connectedPylons } = useWorkspaceStore();
+  const query = useSearchStore((s) => s.query);
+  const resultsByPylon = useSearchStore((s) => s.resultsByPylon);
+  const pendingPylonIds = useSearchStore((s) => s.pendingPylonIds);
+  const error = useSearchStore((s) => s.error);
+
+  const results = useMemo(
+    () => useSearchStore.getState().getResults(),
+    [resultsByPylon]
+  );
+  const isSearching = pendingPylonIds.length > 0;
+
+  useEffect(() => {
+    if (open) {
+      setInput(useSearchStore.getState().query);
+    }
+  }, [open]);
+
+  const handleSearch = () => {
+    const trimmed = input.trim();
+    if (!trimmed || connectedPylons.length === 0) return;
+
+    useSearchStore.getState().startSearch(
+      trimmed,
+      connectedPylons.map((p) => p.deviceId)
+    );
+    searchMessages(trimmed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSearch();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>메시지 검색</DialogTitle>
+          <DialogDescription>
+            모든 워크스페이스의 대화 내용과 도구 호출을 검색합니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="예: migration bug"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            autoFocus
+          />
+          <Button onClick={handleSearch} disabled={!input.trim() || isSearching}>
+            {isSearching ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto -mx-2">
+          {error && (
+            <p className="px-2 py-1 text-xs text-destructive">{error}</p>
+          )}
+
+          {query && !isSearching && results.length === 0 && (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              검색 결과가 없습니다.
+            </p>
+          )}
+
+          {results.map((result) => (
+            <button
+              key={`${result.pylonId}-${result.messageId}`}
+              onClick={() => onSelect(result)}
+              className="w-full text-left px-2 py-2 rounded-md hover:bg-accent/50 transition-colors"
+            >
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <span className="truncate">
+                  {result.workspaceName} › {result.conversationName}
+                </span>
+                <span className="ml-auto shrink-0">
+                  {new Date(result.timestamp).toLocaleString()}
+                </span>
+              </div>
+              <div className="mt-0.5 text-sm break-words line-clamp-3">
+                {result.toolName && (
+                  <span className="inline-flex items-center gap-0.5 mr-1 text-xs text-muted-foreground">
+                    <Wrench className="h-3 w-3" />
+                    {result.toolName}
+                  </span>
+                )}
+                <Snippet text={result.snippet} />
+              </div>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
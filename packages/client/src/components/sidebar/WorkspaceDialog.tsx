@@ -1,5 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ArrowUp, Folder, FolderPlus, ChevronRight, Trash2, HardDrive } from 'lucide-react';
+import { ArrowUp, Folder, FolderPlus, ChevronRight, ChevronDown, Trash2, HardDrive } from 'lucide-react';
+import {
+  DEFAULT_AGENT_TYPE,
+  DEFAULT_RETENTION_POLICY,
+  DEFAULT_WORKER_POLICY,
+  MAX_WORKER_CONCURRENCY,
+  isRetentionPolicy,
+  isWorkerPolicy,
+  type AgentType,
+  type RetentionPolicy,
+  type WorkerPolicy,
+} from '@estelle/core';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import {
@@ -42,6 +53,28 @@ interface WorkspaceData {
   pylonId: number;
   name: string;
   workingDir: string;
+  retentionPolicy?: RetentionPolicy;
+  workerPolicy?: WorkerPolicy;
+  accountFailover?: boolean;
+  agentType?: AgentType;
+}
+
+/**
+ * 워커 정책 입력 폼 (동시 실행 수는 문자열로 유지)
+ */
+interface WorkerForm {
+  maxConcurrency: string;
+  useWorktree: boolean;
+}
+
+/**
+ * 보관 정책 입력 폼 (숫자 입력을 문자열로 유지, maxMessages는 빈 값이면 무제한)
+ */
+interface RetentionForm {
+  recentMessages: string;
+  outputPreviewLength: string;
+  inputPreviewLength: string;
+  maxMessages: string;
 }
 
 interface WorkspaceDialogProps {
@@ -70,6 +103,58 @@ function getUniqueWorkspaceName(existingNames: string[]): string {
   return `${DEFAULT_NAME} ${counter}`;
 }
 
+function toRetentionForm(policy: RetentionPolicy): RetentionForm {
+  return {
+    recentMessages: String(policy.recentMessages),
+    outputPreviewLength: String(policy.outputPreviewLength),
+    inputPreviewLength: String(policy.inputPreviewLength),
+    maxMessages: policy.maxMessages === null ? '' : String(policy.maxMessages),
+  };
+}
+
+/**
+ * 폼 값을 보관 정책으로 변환 (유효하지 않으면 null)
+ */
+function parseRetentionForm(form: RetentionForm): RetentionPolicy | null {
+  const policy = {
+    recentMessages: Number(form.recentMessages),
+    outputPreviewLength: Number(form.outputPreviewLength),
+    inputPreviewLength: Number(form.inputPreviewLength),
+    maxMessages: form.maxMessages.trim() === '' ? null : Number(form.maxMessages),
+  };
+  return isRetentionPolicy(policy) ? policy : null;
+}
+
+function isSameRetentionPolicy(a: RetentionPolicy, b: RetentionPolicy): boolean {
+  return a.recentMessages === b.recentMessages
+    && a.outputPreviewLength === b.outputPreviewLength
+    && a.inputPreviewLength === b.inputPreviewLength
+    && a.maxMessages === b.maxMessages;
+}
+
+function toWorkerForm(policy: WorkerPolicy): WorkerForm {
+  return { maxConcurrency: String(policy.maxConcurrency), useWorktree: policy.useWorktree };
+}
+
+/**
+ * 폼 값을 워커 정책으로 변환 (유효하지 않으면 null)
+ */
+function parseWorkerForm(form: WorkerForm): WorkerPolicy | null {
+  const policy = { maxConcurrency: Number(form.maxConcurrency), useWorktree: form.useWorktree };
+  return isWorkerPolicy(policy) ? policy : null;
+}
+
+function isSameWorkerPolicy(a: WorkerPolicy, b: WorkerPolicy): boolean {
+  return a.maxConcurrency === b.maxConcurrency && a.useWorktree === b.useWorktree;
+}
+
+const RETENTION_FIELDS: { key: keyof RetentionForm; label: string; placeholder?: string }[] = [
+  { key: 'recentMessages', label: '원문 유지 메시지 수' },
+  { key: 'outputPreviewLength', label: '출력 미리보기 길이' },
+  { key: 'inputPreviewLength', label: '입력 미리보기 길이' },
+  { key: 'maxMessages', label: '최대 메시지 수', placeholder: '무제한' },
+];
+
 /**
  * 워크스페이스 생성/편집 다이얼로그
  */
@@ -95,6 +180,17 @@ export function WorkspaceDialog({ open, onClose, mode, workspace, pylonId }: Wor
     platform: 'windows',  // 기본값, Pylon에서 실제 값을 받아옴
   });
   const [deleteProgress, setDeleteProgress] = useState(0);
+  const [showRetention, setShowRetention] = useState(false);
+  const [retentionForm, setRetentionForm] = useState<RetentionForm>(
+    toRetentionForm(workspace?.retentionPolicy ?? DEFAULT_RETENTION_POLICY)
+  );
+  const [showWorker, setShowWorker] = useState(false);
+  const [workerForm, setWorkerForm] = useState<WorkerForm>(
+    toWorkerForm(workspace?.workerPolicy ?? DEFAULT_WORKER_POLICY)
+  );
+  const [accountFailover, setAccountFailover] = useState(workspace?.accountFailover ?? false);
+  const [agentType, setAgentType] = useState<AgentType>(workspace?.agentType ?? DEFAULT_AGENT_TYPE);
+  const agents = currentPylon?.agents ?? [];
 
   const platform = folderState.platform;
 
@@ -104,6 +200,12 @@ export function WorkspaceDialog({ open, onClose, mode, workspace, pylonId }: Wor
       if (mode === 'edit' && workspace) {
         setName(workspace.name);
         setUserEditedName(true);  // Edit 모드는 항상 고정 모드
+        setRetentionForm(toRetentionForm(workspace.retentionPolicy ?? DEFAULT_RETENTION_POLICY));
+        setShowRetention(false);
+        setWorkerForm(toWorkerForm(workspace.workerPolicy ?? DEFAULT_WORKER_POLICY));
+        setShowWorker(false);
+        setAccountFailover(workspace.accountFailover ?? false);
+        setAgentType(workspace.agentType ?? DEFAULT_AGENT_TYPE);
         loadFolders(workspace.workingDir);
       } else {
         // New 모드: 초기 이름은 "새 워크스페이스" (중복 시 숫자)
@@ -236,17 +338,51 @@ export function WorkspaceDialog({ open, onClose, mode, workspace, pylonId }: Wor
     handleClose();
   };
 
+  const retentionPolicy = parseRetentionForm(retentionForm);
+  const workerPolicy = parseWorkerForm(workerForm);
+
   // 적용 (Edit 모드)
   const handleApply = () => {
     if (!name.trim() || !workspace) return;
 
-    const updates: { name?: string; workingDir?: string } = {};
+    const updates: {
+      name?: string;
+      workingDir?: string;
+      retentionPolicy?: RetentionPolicy | null;
+      workerPolicy?: WorkerPolicy | null;
+      accountFailover?: boolean;
+      agentType?: AgentType | null;
+    } = {};
     if (name.trim() !== workspace.name) {
       updates.name = name.trim();
     }
     if (folderState.path !== workspace.workingDir) {
       updates.workingDir = folderState.path;
     }
+    if (retentionPolicy) {
+      const current = workspace.retentionPolicy ?? DEFAULT_RETENTION_POLICY;
+      if (!isSameRetentionPolicy(retentionPolicy, current)) {
+        // 기본값과 같으면 워크스페이스 설정을 제거 (기본 정책 사용)
+        updates.retentionPolicy = isSameRetentionPolicy(retentionPolicy, DEFAULT_RETENTION_POLICY)
+          ? null
+          : retentionPolicy;
+      }
+    }
+    if (workerPolicy) {
+      const current = workspace.workerPolicy ?? DEFAULT_WORKER_POLICY;
+      if (!isSameWorkerPolicy(workerPolicy, current)) {
+        updates.workerPolicy = isSameWorkerPolicy(workerPolicy, DEFAULT_WORKER_POLICY)
+          ? null
+          : workerPolicy;
+      }
+    }
+    if (accountFailover !== (workspace.accountFailover ?? false)) {
+      updates.accountFailover = accountFailover;
+    }
+    if (agentType !== (workspace.agentType ?? DEFAULT_AGENT_TYPE)) {
+      // 기본 에이전트로 되돌리면 워크스페이스 설정을 제거
+      updates.agentType = agentType === DEFAULT_AGENT_TYPE ? null : agentType;
+    }
 
     if (Object.keys(updates).length > 0) {
       updateWorkspace(Number(workspace.workspaceId), updates);
@@ -386,6 +522,133 @@ export function WorkspaceDialog({ open, onClose, mode, workspace, pylonId }: Wor
               </div>
             )}
           </div>
+
+          {/* 보관 정책 (Edit 모드) */}
+          {mode === 'edit' && (
+            <div className="border rounded-md">
+              <button
+                onClick={() => setShowRetention((prev) => !prev)}
+                className="flex items-center gap-1 w-full px-3 py-2 text-sm text-muted-foreground hover:bg-accent/50 transition-colors"
+              >
+                {showRetention ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+                <span className="flex-1 text-left">보관 정책</span>
+              </button>
+              {showRetention && (
+                <div className="px-3 pb-3 space-y-2">
+                  {RETENTION_FIELDS.map(({ key, label, placeholder }) => (
+                    <label key={key} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 text-muted-foreground">{label}</span>
+                      <Input
+                        type="number"
+                        min={key === 'recentMessages' ? 0 : 1}
+                        className="w-28 h-8"
+                        placeholder={placeholder}
+                        value={retentionForm[key]}
+                        onChange={(e) => setRetentionForm((prev) => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </label>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-destructive">
+                      {retentionPolicy ? '' : '올바른 숫자를 입력하세요'}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRetentionForm(toRetentionForm(DEFAULT_RETENTION_POLICY))}
+                    >
+                      기본값
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 태스크 워커 (Edit 모드) */}
+          {mode === 'edit' && (
+            <div className="border rounded-md">
+              <button
+                onClick={() => setShowWorker((prev) => !prev)}
+                className="flex items-center gap-1 w-full px-3 py-2 text-sm text-muted-foreground hover:bg-accent/50 transition-colors"
+              >
+                {showWorker ? (
+                  <ChevronDown className="h-4 w-4" />
+                ) : (
+                  <ChevronRight className="h-4 w-4" />
+                )}
+                <span className="flex-1 text-left">태스크 워커</span>
+              </button>
+              {showWorker && (
+                <div className="px-3 pb-3 space-y-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 text-muted-foreground">동시 실행 수</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_WORKER_CONCURRENCY}
+                      className="w-28 h-8"
+                      value={workerForm.maxConcurrency}
+                      onChange={(e) => setWorkerForm((prev) => ({ ...prev, maxConcurrency: e.target.value }))}
+                    />
+                  </label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 text-muted-foreground">워커별 git worktree</span>
+                    <Button
+                      variant={workerForm.useWorktree ? 'default' : 'outline'}
+                      size="sm"
+                      className="w-28 h-8"
+                      onClick={() => setWorkerForm((prev) => ({ ...prev, useWorktree: !prev.useWorktree }))}
+                    >
+                      {workerForm.useWorktree ? '사용' : '사용 안 함'}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-destructive">
+                    {workerPolicy ? '' : `동시 실행 수는 1~${MAX_WORKER_CONCURRENCY} 사이로 입력하세요`}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 계정 자동 전환 (Edit 모드) */}
+          {mode === 'edit' && (
+            <div className="flex items-center gap-2 border rounded-md px-3 py-2 text-sm">
+              <span className="flex-1 text-muted-foreground">사용량 한도 시 다음 계정으로 자동 전환</span>
+              <Button
+                variant={accountFailover ? 'default' : 'outline'}
+                size="sm"
+                className="w-28 h-8"
+                onClick={() => setAccountFailover((prev) => !prev)}
+              >
+                {accountFailover ? '사용' : '사용 안 함'}
+              </Button>
+            </div>
+          )}
+
+          {/* 기본 에이전트 (Edit 모드, 선택지가 있을 때) */}
+          {mode === 'edit' && agents.length > 1 && (
+            <div className="flex items-center gap-2 border rounded-md px-3 py-2 text-sm">
+              <span className="flex-1 text-muted-foreground">새 대화 기본 에이전트</span>
+              <select
+                value={agentType}
+                onChange={(e) => setAgentType(e.target.value)}
+                className="w-28 h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+              >
+                {/* 설정에서 빠진 에이전트도 현재 값으로 보여줌 */}
+                {!agents.some((a) => a.name === agentType) && <option value={agentType}>{agentType}</option>}
+                {agents.map((agent) => (
+                  <option key={agent.name} value={agent.name}>
+                    {agent.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -395,7 +658,7 @@ export function WorkspaceDialog({ open, onClose, mode, workspace, pylonId }: Wor
             </Button>
           ) : (
             <div className="flex gap-2 w-full">
-              <Button onClick={handleApply} disabled={!name.trim()} className="flex-1">
+              <Button onClick={handleApply} disabled={!name.trim() || !retentionPolicy || !workerPolicy} className="flex-1">
                 적용
               </Button>
               <Button
@@ -1,5 +1,5 @@
 import { useState, useEffect, useContext, useCallback, useMemo } from 'react';
-import { Plus, ChevronRight, Folder, Star } from 'lucide-react';
+import { Plus, ChevronRight, Folder, Star, Download } from 'lucide-react';
 import {
   DndContext,
   closestCenter,
@@ -22,24 +22,31 @@ import { CSS } from '@dnd-kit/utilities';
 import { cn } from '../../lib/utils';
 import { Collapsible } from '../common/Collapsible';
 import { Card } from '../ui/card';
-import { useWorkspaceStore, useDeviceConfigStore, useConversationStore } from '../../stores';
+import { useWorkspaceStore, useDeviceConfigStore, useConversationStore, useSearchStore, type SearchResultItem } from '../../stores';
 import { useLongPress } from '../../hooks/useLongPress';
 import { ConversationItem } from './ConversationItem';
 import { WorkspaceDialog } from './WorkspaceDialog';
 import { NewConversationDialog } from './NewConversationDialog';
+import { ImportConversationDialog } from './ImportConversationDialog';
+import { SearchDialog } from './SearchDialog';
+import { ActiveSessionsPanel } from './ActiveSessionsPanel';
 import { selectConversation, reorderWorkspaces, reorderConversations } from '../../services/relaySender';
 import { getDeviceIcon } from '../../utils/device-icons';
 import { MobileLayoutContext } from '../../layouts/MobileLayout';
 import { PylonTabs, type PylonTabValue } from './PylonTabs';
 import { useFavoriteWorkspaces } from '../../hooks/useFavoriteWorkspaces';
 import { useResponsive } from '../../hooks/useResponsive';
-import type { Workspace, Conversation } from '@estelle/core';
+import type { Workspace, Conversation, RetentionPolicy, WorkerPolicy } from '@estelle/core';
 
 interface EditWorkspaceTarget {
   workspaceId: string;
   pylonId: number;
   name: string;
   workingDir: string;
+  retentionPolicy?: RetentionPolicy;
+  workerPolicy?: WorkerPolicy;
+  accountFailover?: boolean;
+  agentType?: string;
 }
 
 interface WorkspaceWithPylon extends Workspace {
@@ -252,6 +259,7 @@ interface SortableWorkspaceCardProps {
   onLongPress: () => void;
   onConversationSelect: (conversation: Conversation) => void;
   onNewConversation: () => void;
+  onImportConversation: () => void;
   isSelectedConversation: (conversationId: number) => boolean;
   closeSidebar: () => void;
   onConversationDragEnd: (workspaceId: string, conversationIds: number[]) => void;
@@ -272,6 +280,7 @@ function SortableWorkspaceCard({
   onLongPress,
   onConversationSelect,
   onNewConversation,
+  onImportConversation,
   isSelectedConversation,
   closeSidebar,
   onConversationDragEnd,
@@ -377,14 +386,26 @@ function SortableWorkspaceCard({
             </p>
           )}
 
-          {/* + 새 대화 버튼 */}
-          <button
-            onClick={onNewConversation}
-            className="flex items-center gap-2 w-full px-3 py-2 mx-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-md transition-colors"
-          >
-            <Plus className="h-4 w-4" />
-            새 대화
-          </button>
+          <div className="flex items-center">
+            {/* + 새 대화 버튼 */}
+            <button
+              onClick={onNewConversation}
+              className="flex flex-1 items-center gap-2 px-3 py-2 mx-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-md transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              새 대화
+            </button>
+
+            {/* 대화 가져오기 버튼 */}
+            <button
+              onClick={onImportConversation}
+              className="flex items-center gap-1 px-3 py-2 mr-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/50 rounded-md transition-colors"
+              title="대화 가져오기"
+            >
+              <Download className="h-4 w-4" />
+              가져오기
+            </button>
+          </div>
         </div>
       </Collapsible>
     </Card>
@@ -404,7 +425,15 @@ export function WorkspaceSidebar() {
   const [newConversationTarget, setNewConversationTarget] = useState<{
     workspaceId: string;
     workspaceName: string;
+    pylonId: number;
+    agentType?: string;
   } | null>(null);
+  const [importTarget, setImportTarget] = useState<{
+    workspaceId: string;
+    workspaceName: string;
+    pylonId: number;
+  } | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
   const [expandedIds, setExpandedIds] = useState<Set<string>>(() => {
     try {
       const saved = localStorage.getItem('estelle:expandedWorkspaces');
@@ -420,7 +449,7 @@ export function WorkspaceSidebar() {
       const saved = localStorage.getItem(TAB_STORAGE_KEY);
       if (!saved) return 'favorites';
       const parsed = JSON.parse(saved);
-      return parsed === 'favorites' ? 'favorites' : Number(parsed);
+      return parsed === 'favorites' || parsed === 'all' ? parsed : Number(parsed);
     } catch {
       return 'favorites';
     }
@@ -487,7 +516,9 @@ export function WorkspaceSidebar() {
     // 새 탭의 워크스페이스 목록 계산
     const newTabWorkspaces = tab === 'favorites'
       ? flatWorkspaces.filter((ws) => isFavorite(ws.workspaceId))
-      : flatWorkspaces.filter((ws) => ws.pylonId === tab);
+      : tab === 'all'
+        ? flatWorkspaces
+        : flatWorkspaces.filter((ws) => ws.pylonId === tab);
 
     if (newTabWorkspaces.length === 0) return;
 
@@ -537,12 +568,18 @@ export function WorkspaceSidebar() {
     if (selectedTab === 'favorites') {
       return favoriteWorkspaces;
     }
+    if (selectedTab === 'all') {
+      return flatWorkspaces;
+    }
     return flatWorkspaces.filter((ws) => ws.pylonId === selectedTab);
   }, [flatWorkspaces, favoriteWorkspaces, selectedTab]);
 
   // 즐겨찾기 탭인지 여부
   const isFavoritesTab = selectedTab === 'favorites';
 
+  // 전체 Pylon 탭인지 여부 (여러 Pylon의 워크스페이스 통합 표시)
+  const isAllTab = selectedTab === 'all';
+
   // 즐겨찾기가 없는데 즐겨찾기 탭이 선택된 경우 → 첫 번째 Pylon 탭으로 전환
   const { connectedPylons } = useWorkspaceStore();
   useEffect(() => {
@@ -598,6 +635,10 @@ export function WorkspaceSidebar() {
       pylonId: workspace.pylonId,
       name: workspace.name,
       workingDir: workspace.workingDir,
+      retentionPolicy: workspace.retentionPolicy,
+      workerPolicy: workspace.workerPolicy,
+      accountFailover: workspace.accountFailover,
+      agentType: workspace.agentType,
     });
     setWorkspaceDialogMode('edit');
   }, []);
@@ -666,6 +707,37 @@ export function WorkspaceSidebar() {
     closeSidebar();
   }, [selectInStore, closeSidebar, selectedTab]);
 
+  // 검색 결과 선택 핸들러: 대화 선택 후 MessageList가 jumpTarget으로 이동
+  const handleSearchSelect = useCallback((result: SearchResultItem) => {
+    const workspace = flatWorkspaces.find(
+      (ws) => ws.pylonId === result.pylonId && Number(ws.workspaceId) === result.workspaceId
+    );
+    const conversation = workspace?.conversations.find(
+      (c) => c.conversationId === result.conversationId
+    );
+    if (!workspace || !conversation) return;
+
+    useSearchStore.getState().setJumpTarget({
+      conversationId: result.conversationId,
+      messageId: result.messageId,
+      index: result.index,
+    });
+    setSearchOpen(false);
+    handleConversationSelect(workspace, conversation);
+  }, [flatWorkspaces, handleConversationSelect]);
+
+  // 활성 세션 선택 핸들러 (전체 탭)
+  const handleActiveSessionSelect = useCallback((pylonId: number, conversationId: number) => {
+    for (const workspace of flatWorkspaces) {
+      if (workspace.pylonId !== pylonId) continue;
+      const conversation = workspace.conversations.find((c) => c.conversationId === conversationId);
+      if (conversation) {
+        handleConversationSelect(workspace, conversation);
+        return;
+      }
+    }
+  }, [flatWorkspaces, handleConversationSelect]);
+
   // 대화 드래그 종료 핸들러
   const handleConversationDragEnd = useCallback((workspaceId: string, conversationIds: number[]) => {
     const workspace = flatWorkspaces.find((w) => w.workspaceId === workspaceId);
@@ -681,9 +753,17 @@ export function WorkspaceSidebar() {
   return (
     <div className="flex h-full flex-col bg-background">
       {/* Pylon 탭 */}
-      <PylonTabs selectedTab={selectedTab} onTabChange={handleTabChange} hasFavorites={hasFavorites} />
+      <PylonTabs
+        selectedTab={selectedTab}
+        onTabChange={handleTabChange}
+        hasFavorites={hasFavorites}
+        onSearch={() => setSearchOpen(true)}
+      />
 
       <div className="flex-1 overflow-y-auto p-2 space-y-2">
+        {/* 전체 탭: Pylon별 활성 세션 */}
+        {isAllTab && <ActiveSessionsPanel onSelect={handleActiveSessionSelect} />}
+
         <DndContext
           sensors={workspaceSensors}
           collisionDetection={closestCenter}
@@ -714,13 +794,22 @@ export function WorkspaceSidebar() {
                     setNewConversationTarget({
                       workspaceId: workspace.workspaceId,
                       workspaceName: workspace.name,
+                      pylonId: workspace.pylonId,
+                      agentType: workspace.agentType,
+                    });
+                  }}
+                  onImportConversation={() => {
+                    setImportTarget({
+                      workspaceId: workspace.workspaceId,
+                      workspaceName: workspace.name,
+                      pylonId: workspace.pylonId,
                     });
                   }}
                   isSelectedConversation={isSelectedConversation}
                   closeSidebar={closeSidebar}
                   onConversationDragEnd={handleConversationDragEnd}
                   conversationSensors={conversationSensors}
-                  showPylonIcon={isFavoritesTab}
+                  showPylonIcon={isFavoritesTab || isAllTab}
                   isFavorite={isFavorite(workspace.workspaceId)}
                   onToggleFavorite={() => toggleFavorite(workspace.workspaceId)}
                 />
@@ -750,7 +839,7 @@ export function WorkspaceSidebar() {
         )}
 
         {/* + 워크스페이스 추가 버튼 (Pylon 탭에서만 표시) */}
-        {!isFavoritesTab && (
+        {typeof selectedTab === 'number' && (
           <button
             onClick={openNewDialog}
             className="flex items-center gap-2 w-full px-3 py-2.5 rounded-xl border border-dashed border-border text-muted-foreground hover:text-foreground hover:border-foreground/50 transition-colors"
@@ -775,8 +864,26 @@ export function WorkspaceSidebar() {
         open={newConversationTarget !== null}
         workspaceId={newConversationTarget?.workspaceId ?? ''}
         workspaceName={newConversationTarget?.workspaceName ?? ''}
+        pylonId={newConversationTarget?.pylonId ?? 0}
+        defaultAgentType={newConversationTarget?.agentType}
         onClose={() => setNewConversationTarget(null)}
       />
+
+      {/* 대화 가져오기 다이얼로그 */}
+      <ImportConversationDialog
+        open={importTarget !== null}
+        workspaceId={importTarget?.workspaceId ?? ''}
+        workspaceName={importTarget?.workspaceName ?? ''}
+        pylonId={importTarget?.pylonId ?? 0}
+        onClose={() => setImportTarget(null)}
+      />
+
+      {/* 메시지 검색 다이얼로그 */}
+      <SearchDialog
+        open={searchOpen}
+        onClose={() => setSearchOpen(false)}
+        onSelect={handleSearchSelect}
+      />
     </div>
   );
 }
@@ -7,3 +7,6 @@ export { WorkspaceSidebar } from './WorkspaceSidebar';
 export { ConversationItem } from './ConversationItem';
 export { WorkspaceDialog } from './WorkspaceDialog';
 export { NewConversationDialog } from './NewConversationDialog';
+export { ImportConversationDialog } from './ImportConversationDialog';
+export { SearchDialog } from './SearchDialog';
+export { ActiveSessionsPanel } from './ActiveSessionsPanel';
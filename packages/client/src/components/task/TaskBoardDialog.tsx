@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import {
+  Play,
+  Square,
+  Plus,
+  Pencil,
+  RotateCcw,
+  MessageSquare,
+  Timer,
+  Link2,
+  GripVertical,
+  GitBranch,
+  GitMerge,
+  Trash2,
+} from 'lucide-react';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { TASK_STATUSES, type ActiveWorker, type TaskBranchAction, type TaskStatus, type TaskSummary } from '@estelle/core';
+import { Button } from '../ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  useTaskStore,
+  useWorkerStore,
+  useWorkspaceStore,
+  useConversationStore,
+  groupTasksByStatus,
+  isTaskBlocked,
+} from '../../stores';
+import {
+  requestTaskList,
+  reorderTasks,
+  resolveTaskBranch,
+  setTaskStatus,
+  startWorker,
+  stopWorker,
+  selectConversation,
+} from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+import { TaskEditDialog } from './TaskEditDialog';
+import { formatElapsed } from './WorkerPanel';
+
+interface TaskBoardDialogProps {
+  open: boolean;
+  onClose: () => void;
+  pylonId: number;
+  workspaceId: number;
+  workspaceName: string;
+}
+
+const COLUMN_LABELS: Record<TaskStatus, string> = {
+  pending: '대기',
+  running: '실행 중',
+  done: '완료',
+  failed: '실패',
+};
+
+const EMPTY_TASKS: TaskSummary[] = [];
+
+// ============================================================================
+// TaskCard 컴포넌트
+// ============================================================================
+
+interface TaskCardProps {
+  task: TaskSummary;
+  tasks: TaskSummary[];
+  worker?: ActiveWorker;
+  now: number;
+  onEdit: (task: TaskSummary) => void;
+  onRequeue: (task: TaskSummary) => void;
+  onStop: (task: TaskSummary) => void;
+  onOpenConversation: (worker: ActiveWorker) => void;
+  onResolveBranch: (task: TaskSummary, action: TaskBranchAction) => void;
+  dragHandle?: React.ReactNode;
+}
+
+/**
+ * 태스크 카드 (상태에 따라 다른 동작 버튼)
+ */
+function TaskCard({
+  task,
+  tasks,
+  worker,
+  now,
+  onEdit,
+  onRequeue,
+  onStop,
+  onOpenConversation,
+  onResolveBranch,
+  dragHandle,
+}: TaskCardProps) {
+  const blocked = task.status === 'pending' && isTaskBlocked(task, tasks);
+  const dependencyTitles = task.dependsOn
+    .map((id) => tasks.find((t) => t.id === id)?.title ?? id.slice(0, 8))
+    .join(', ');
+
+  return (
+    <div className="rounded-md border border-border bg-card px-2 py-1.5 text-xs space-y-1">
+      <div className="flex items-start gap-1">
+        {dragHandle}
+        <span className="flex-1 font-medium text-sm break-words">{task.title}</span>
+        {task.status === 'running' && worker?.conversationId != null && (
+          <button
+            onClick={() => onOpenConversation(worker)}
+            className="p-0.5 rounded hover:bg-accent/50"
+            title="대화로 이동"
+          >
+            <MessageSquare className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {task.status === 'running' && (
+          <button onClick={() => onStop(task)} className="p-0.5 rounded hover:bg-destructive/20" title="중지">
+            <Square className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {task.status === 'failed' && (
+          <button onClick={() => onRequeue(task)} className="p-0.5 rounded hover:bg-accent/50" title="다시 대기">
+            <RotateCcw className="h-3.5 w-3.5" />
+          </button>
+        )}
+        {(task.status === 'pending' || task.status === 'failed') && (
+          <button onClick={() => onEdit(task)} className="p-0.5 rounded hover:bg-accent/50" title="수정">
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-muted-foreground">
+        {task.priority !== 0 && <span>우선순위 {task.priority}</span>}
+        {task.maxRetries > 0 && <span>재시도 {task.retryCount}/{task.maxRetries}</span>}
+        {task.timeout !== null && (
+          <span className="flex items-center gap-0.5">
+            <Timer className="h-3 w-3" />
+            {task.timeout}분
+          </span>
+        )}
+        {task.status === 'running' && worker && (
+          <span>
+            #{worker.slot} · {formatElapsed(worker.startedAt, now)}
+          </span>
+        )}
+        {task.status === 'done' && task.completedAt && (
+          <span>{new Date(task.completedAt).toLocaleString()}</span>
+        )}
+      </div>
+
+      {task.dependsOn.length > 0 && (
+        <p className={cn('flex items-center gap-1 truncate', blocked ? 'text-yellow-600 dark:text-yellow-400' : 'text-muted-foreground')}>
+          <Link2 className="h-3 w-3 shrink-0" />
+          <span className="truncate" title={dependencyTitles}>
+            {blocked ? '대기 중: ' : ''}{dependencyTitles}
+          </span>
+        </p>
+      )}
+
+      {task.branch && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <GitBranch className="h-3 w-3 shrink-0" />
+          <span className="flex-1 truncate" title={task.branch}>{task.branch}</span>
+          <button onClick={() => onResolveBranch(task, 'merge')} className="p-0.5 rounded hover:bg-accent/50" title="병합">
+            <GitMerge className="h-3.5 w-3.5" />
+          </button>
+          <button onClick={() => onResolveBranch(task, 'discard')} className="p-0.5 rounded hover:bg-destructive/20" title="버리기">
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      {task.error && task.status !== 'done' && (
+        <p className="text-destructive line-clamp-2" title={task.error}>
+          {task.error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 드래그로 순서를 바꿀 수 있는 대기 태스크 카드
+ */
+function SortableTaskCard(props: TaskCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: props.task.id,
+  });
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    transition,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className={cn(isDragging && 'opacity-50')}>
+      <TaskCard
+        {...props}
+        dragHandle={
+          <button
+            {...attributes}
+            {...listeners}
+            className="p-0.5 -ml-0.5 text-muted-foreground cursor-grab touch-none"
+            title="드래그해서 순서 변경"
+          >
+            <GripVertical className="h-3.5 w-3.5" />
+          </button>
+        }
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// TaskBoardDialog 컴포넌트
+// ============================================================================
+
+/**
+ * 태스크 보드 다이얼로그
+ *
+ * 워크스페이스의 태스크를 상태별(대기/실행 중/완료/실패) 컬럼으로 보여줍니다.
+ * 태스크 추가/수정, 대기 태스크 순서 변경(드래그), 워커 시작/중지,
+ * 실행 중인 태스크의 대화로 이동, worktree에서 끝난 태스크의 결과 브랜치 병합/버리기를 할 수 있습니다.
+ * 목록은 Pylon의 task_list_result/worker_status_result 브로드캐스트로 갱신됩니다.
+ */
+export function TaskBoardDialog({ open, onClose, pylonId, workspaceId, workspaceName }: TaskBoardDialogProps) {
+  const tasks = useTaskStore((s) => s.tasksByWorkspace[workspaceId]) ?? EMPTY_TASKS;
+  const lastError = useTaskStore((s) => s.lastError);
+  const workerStatus = useWorkerStore((s) => s.statusByWorkspace[workspaceId]);
+  const [editing, setEditing] = useState<{ task?: TaskSummary } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const groups = useMemo(() => groupTasksByStatus(tasks), [tasks]);
+  const workers = workerStatus?.workers ?? [];
+  const workerByTask = useMemo(
+    () => new Map(workers.map((w) => [w.taskId, w])),
+    [workers]
+  );
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  // 열 때 최신 목록 요청
+  useEffect(() => {
+    if (open) {
+      useTaskStore.getState().setError(null);
+      requestTaskList(workspaceId);
+    }
+  }, [open, workspaceId]);
+
+  // 실행 중 경과 시간 갱신
+  useEffect(() => {
+    if (!open || workers.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open, workers.length]);
+
+  const handlePendingDragEnd = useCallback((event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const pending = groups.pending;
+    const oldIndex = pending.findIndex((t) => t.id === active.id);
+    const newIndex = pending.findIndex((t) => t.id === over.id);
+    if (oldIndex === -1 || newIndex === -1) return;
+
+    const newIds = arrayMove(pending, oldIndex, newIndex).map((t) => t.id);
+    useTaskStore.getState().reorderPending(workspaceId, newIds);
+    reorderTasks(workspaceId, newIds);
+  }, [groups.pending, workspaceId]);
+
+  const handleOpenConversation = (worker: ActiveWorker) => {
+    if (worker.conversationId === null) return;
+    useWorkspaceStore.getState().selectConversation(pylonId, worker.conversationId);
+    useConversationStore.getState().setCurrentConversation(worker.conversationId);
+    selectConversation(worker.conversationId);
+    onClose();
+  };
+
+  const handleResolveBranch = (task: TaskSummary, action: TaskBranchAction) => {
+    if (action === 'discard' && !confirm(`${task.branch} 브랜치의 작업 내용을 버릴까요?`)) return;
+    useTaskStore.getState().setError(null);
+    resolveTaskBranch(workspaceId, task.id, action);
+  };
+
+  const cardHandlers = {
+    tasks,
+    now,
+    onEdit: (task: TaskSummary) => setEditing({ task }),
+    onRequeue: (task: TaskSummary) => setTaskStatus(workspaceId, task.id, 'pending'),
+    onStop: (task: TaskSummary) => stopWorker(workspaceId, task.id),
+    onOpenConversation: handleOpenConversation,
+    onResolveBranch: handleResolveBranch,
+  };
+
+  const maxConcurrency = workerStatus?.maxConcurrency ?? 1;
+  const canStart = groups.pending.length > 0 && workers.length < maxConcurrency;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <DialogContent className="max-w-5xl h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>태스크 보드</DialogTitle>
+            <DialogDescription>{workspaceName}</DialogDescription>
+          </DialogHeader>
+
+          {/* 워커 / 추가 */}
+          <div className="flex items-center gap-2 text-sm">
+            <span className="flex-1 text-muted-foreground">
+              워커 {workers.length}/{maxConcurrency}
+            </span>
+            {workers.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => stopWorker(workspaceId)}>
+                <Square className="h-4 w-4 mr-1" />
+                모두 중지
+              </Button>
+            )}
+            <Button variant="outline" size="sm" disabled={!canStart} onClick={() => startWorker(workspaceId)}>
+              <Play className="h-4 w-4 mr-1" />
+              워커 시작
+            </Button>
+            <Button size="sm" onClick={() => setEditing({})}>
+              <Plus className="h-4 w-4 mr-1" />
+              새 태스크
+            </Button>
+          </div>
+
+          {lastError && <p className="text-xs text-destructive">{lastError}</p>}
+
+          {/* 컬럼 */}
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-4 gap-2 overflow-y-auto md:overflow-hidden">
+            {TASK_STATUSES.map((status) => (
+              <div key={status} className="flex flex-col min-h-0 rounded-md bg-muted/40">
+                <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                  {COLUMN_LABELS[status]} {groups[status].length}
+                </div>
+                <div className="flex-1 min-h-0 overflow-y-auto px-2 pb-2 space-y-1.5">
+                  {status === 'pending' ? (
+                    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handlePendingDragEnd}>
+                      <SortableContext items={groups.pending.map((t) => t.id)} strategy={verticalListSortingStrategy}>
+                        {groups.pending.map((task) => (
+                          <SortableTaskCard key={task.id} task={task} {...cardHandlers} />
+                        ))}
+                      </SortableContext>
+                    </DndContext>
+                  ) : (
+                    groups[status].map((task) => (
+                      <TaskCard key={task.id} task={task} worker={workerByTask.get(task.id)} {...cardHandlers} />
+                    ))
+                  )}
+                  {groups[status].length === 0 && (
+                    <p className="py-2 text-center text-xs text-muted-foreground italic">없음</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TaskEditDialog
+        open={editing !== null}
+        onClose={() => setEditing(null)}
+        workspaceId={workspaceId}
+        task={editing?.task}
+        tasks={tasks}
+      />
+    </>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import type { TaskInput, TaskSummary } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useTaskStore } from '../../stores';
+import { createTask, updateTask, requestTask } from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+
+/**
+ * 태스크 입력 폼 (숫자 입력을 문자열로 유지, timeout은 빈 값이면 제한 없음)
+ */
+interface TaskForm {
+  title: string;
+  body: string;
+  priority: string;
+  maxRetries: string;
+  timeout: string;
+  dependsOn: string[];
+}
+
+interface TaskEditDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workspaceId: number;
+  /** 수정할 태스크 (없으면 새 태스크) */
+  task?: TaskSummary;
+  /** 같은 워크스페이스의 태스크 (의존 태스크 선택용) */
+  tasks: TaskSummary[];
+}
+
+const EMPTY_FORM: TaskForm = {
+  title: '',
+  body: '',
+  priority: '0',
+  maxRetries: '0',
+  timeout: '',
+  dependsOn: [],
+};
+
+function toTaskForm(task: TaskSummary, body: string): TaskForm {
+  return {
+    title: task.title,
+    body,
+    priority: String(task.priority),
+    maxRetries: String(task.maxRetries),
+    timeout: task.timeout === null ? '' : String(task.timeout),
+    dependsOn: task.dependsOn,
+  };
+}
+
+/**
+ * 폼 → TaskInput (잘못된 값이 있으면 null)
+ */
+function parseTaskForm(form: TaskForm): TaskInput | null {
+  const title = form.title.trim();
+  const priority = Number(form.priority);
+  const maxRetries = Number(form.maxRetries);
+  const timeout = form.timeout.trim() === '' ? null : Number(form.timeout);
+
+  if (!title) return null;
+  if (!Number.isInteger(priority)) return null;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) return null;
+  if (timeout !== null && (!Number.isInteger(timeout) || timeout <= 0)) return null;
+
+  return { title, body: form.body, priority, maxRetries, timeout, dependsOn: form.dependsOn };
+}
+
+/**
+ * 태스크 생성/수정 다이얼로그
+ *
+ * 수정할 때는 본문을 task_get으로 받아온 뒤 채웁니다.
+ * 저장 결과(실패 사유 포함)는 태스크 보드에서 보여줍니다.
+ */
+export function TaskEditDialog({ open, onClose, workspaceId, task, tasks }: TaskEditDialogProps) {
+  const detail = useTaskStore((s) => (task ? s.detailById[task.id] : undefined));
+  const [form, setForm] = useState<TaskForm>(EMPTY_FORM);
+  const [bodyLoaded, setBodyLoaded] = useState(false);
+
+  // 열 때마다 폼 초기화, 수정이면 본문 요청
+  useEffect(() => {
+    if (!open) return;
+    if (task) {
+      setForm(toTaskForm(task, ''));
+      setBodyLoaded(false);
+      requestTask(workspaceId, task.id);
+    } else {
+      setForm(EMPTY_FORM);
+      setBodyLoaded(true);
+    }
+  }, [open, task?.id, workspaceId]);
+
+  // 본문 도착 시 채우기 (사용자가 이미 입력을 시작했으면 덮어쓰지 않음)
+  useEffect(() => {
+    if (!open || !task || !detail || bodyLoaded) return;
+    setForm((prev) => ({ ...prev, body: detail.content }));
+    setBodyLoaded(true);
+  }, [open, task?.id, detail, bodyLoaded]);
+
+  const input = parseTaskForm(form);
+  // 잘린 본문은 그대로 저장하면 뒷부분이 사라지므로 수정하지 않음
+  const bodyEditable = !task || (bodyLoaded && !detail?.truncated);
+  const candidates = tasks.filter((t) => t.id !== task?.id);
+
+  const toggleDependency = (id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      dependsOn: prev.dependsOn.includes(id)
+        ? prev.dependsOn.filter((d) => d !== id)
+        : [...prev.dependsOn, id],
+    }));
+  };
+
+  const handleSave = () => {
+    if (!input) return;
+    if (task) {
+      const { body, ...fields } = input;
+      updateTask(workspaceId, task.id, bodyEditable ? { ...fields, body } : fields);
+    } else {
+      createTask(workspaceId, input);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task ? '태스크 수정' : '새 태스크'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            placeholder="제목"
+            value={form.title}
+            onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+          />
+          <Textarea
+            placeholder={bodyEditable ? '## 목표\n무엇을 해야 하는지 적어주세요' : '본문을 불러오는 중...'}
+            className="min-h-[160px] font-mono text-xs"
+            value={form.body}
+            disabled={!bodyEditable}
+            onChange={(e) => setForm((prev) => ({ ...prev, body: e.target.value }))}
+          />
+          {detail?.truncated && (
+            <p className="text-xs text-muted-foreground">
+              본문이 길어 여기서는 수정할 수 없어요. 다른 항목만 저장됩니다.
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">우선순위</span>
+              <Input
+                type="number"
+                className="h-8"
+                value={form.priority}
+                onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">재시도 횟수</span>
+              <Input
+                type="number"
+                min={0}
+                className="h-8"
+                value={form.maxRetries}
+                onChange={(e) => setForm((prev) => ({ ...prev, maxRetries: e.target.value }))}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">제한 시간(분)</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="없음"
+                className="h-8"
+                value={form.timeout}
+                onChange={(e) => setForm((prev) => ({ ...prev, timeout: e.target.value }))}
+              />
+            </label>
+          </div>
+
+          {candidates.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">먼저 끝나야 하는 태스크</span>
+              <div className="flex flex-wrap gap-1">
+                {candidates.map((t) => (
+                  <button
+                    key={t.id}
+                    onClick={() => toggleDependency(t.id)}
+                    className={cn(
+                      'px-2 py-0.5 rounded border text-xs max-w-[200px] truncate transition-colors',
+                      form.dependsOn.includes(t.id)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'border-border text-muted-foreground hover:bg-accent/50'
+                    )}
+                    title={t.title}
+                  >
+                    {t.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-destructive">
+            {input ? '' : '제목을 입력하고, 숫자는 정수로 입력하세요 (재시도 0 이상, 제한 시간 1분 이상)'}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            취소
+          </Button>
+          <Button onClick={handleSave} disabled={!input}>
+            {task ? '저장' : '추가'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Play, Square, GitBranch } from 'lucide-react';
+import type { ActiveWorker } from '@estelle/core';
+import { Button } from '../ui/button';
+import { useWorkspaceStore, useConversationStore, useWorkerStore } from '../../stores';
+import { startWorker, stopWorker, selectConversation } from '../../services/relaySender';
+
+interface WorkerPanelProps {
+  pylonId: number;
+  workspaceId: number;
+}
+
+/**
+ * 경과 시간 표시 (ISO 시작 시각 기준)
+ */
+export function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  if (seconds >= 3600) {
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  }
+  if (seconds >= 60) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * 경로의 마지막 폴더 이름
+ */
+function baseName(p: string): string {
+  return p.split(/[\\/]/).filter(Boolean).pop() ?? p;
+}
+
+/**
+ * 태스크 워커 패널
+ *
+ * 워크스페이스에서 실행 중인 워커를 나란히 보여줍니다.
+ * 카드를 누르면 그 워커의 대화로 이동합니다.
+ * 실행 중인 워커도, 대기 중인 태스크도 없으면 표시하지 않습니다.
+ */
+export function WorkerPanel({ pylonId, workspaceId }: WorkerPanelProps) {
+  const workerStatus = useWorkerStore((s) => s.statusByWorkspace[workspaceId]);
+  const [now, setNow] = useState(() => Date.now());
+
+  const workers = workerStatus?.workers ?? [];
+  const pending = workerStatus?.queue.pending ?? 0;
+
+  useEffect(() => {
+    if (workers.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [workers.length]);
+
+  if (!workerStatus || (workers.length === 0 && pending === 0)) return null;
+
+  const canStart = pending > 0 && workers.length < workerStatus.maxConcurrency;
+
+  const handleOpen = (worker: ActiveWorker) => {
+    if (worker.conversationId === null) return;
+    useWorkspaceStore.getState().selectConversation(pylonId, worker.conversationId);
+    useConversationStore.getState().setCurrentConversation(worker.conversationId);
+    selectConversation(worker.conversationId);
+  };
+
+  return (
+    <div className="border-b border-border px-3 py-2 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex-1">
+          워커 {workers.length}/{workerStatus.maxConcurrency} · 대기 {pending}
+        </span>
+        {canStart && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => startWorker(workspaceId)}>
+            <Play className="h-3 w-3 mr-1" />
+            시작
+          </Button>
+        )}
+        {workers.length > 1 && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => stopWorker(workspaceId)}>
+            <Square className="h-3 w-3 mr-1" />
+            모두 중지
+          </Button>
+        )}
+      </div>
+
+      {workers.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {workers.map((worker) => (
+            <div
+              key={worker.taskId}
+              role="button"
+              tabIndex={0}
+              onClick={() => handleOpen(worker)}
+              onKeyDown={(e) => e.key === 'Enter' && handleOpen(worker)}
+              className="flex-1 min-w-[160px] rounded-md border border-border bg-muted/40 px-2 py-1.5 text-xs hover:bg-accent/50 cursor-pointer"
+            >
+              <div className="flex items-center gap-1">
+                <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse shrink-0" />
+                <span className="text-muted-foreground">#{worker.slot}</span>
+                <span className="ml-auto text-muted-foreground">{formatElapsed(worker.startedAt, now)}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    stopWorker(workspaceId, worker.taskId);
+                  }}
+                  className="p-0.5 rounded hover:bg-destructive/20"
+                  title="중지"
+                >
+                  <Square className="h-3 w-3" />
+                </button>
+              </div>
+              <p className="mt-1 truncate font-medium">{worker.taskTitle}</p>
+              {worker.worktreePath && (
+                <p className="mt-0.5 flex items-center gap-1 truncate text-muted-foreground">
+                  <GitBranch className="h-3 w-3 shrink-0" />
+                  {baseName(worker.worktreePath)}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
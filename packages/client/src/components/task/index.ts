@@ -0,0 +1,8 @@
+/**
+ * @file task/index.ts
+ * @description 태스크/워커 관련 컴포넌트 모듈 진입점
+ */
+
+export { WorkerPanel } from './WorkerPanel';
+export { TaskBoardDialog } from './TaskBoardDialog';
+export { TaskEditDialog } from './TaskEditDialog';
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from 'react';
+import { Play, RefreshCw } from 'lucide-react';
+import type { WidgetCatalogEntry, WidgetInputProperty } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useWidgetStore } from '../../stores';
+import { requestWidgetList, launchWidget } from '../../services/relaySender';
+import { cn } from '../../lib/utils';
+
+type FieldValue = string | boolean;
+
+/**
+ * 입력 필드 초기값 (default가 있으면 사용)
+ */
+function initialValues(widget: WidgetCatalogEntry): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  for (const [key, property] of Object.entries(widget.inputSchema?.properties ?? {})) {
+    values[key] = property.type === 'boolean' ? property.default === true : String(property.default ?? '');
+  }
+  return values;
+}
+
+/**
+ * 폼 값을 스키마 타입으로 변환 (빈 칸은 생략 → Pylon이 default/필수 검사)
+ */
+function toInput(widget: WidgetCatalogEntry, values: Record<string, FieldValue>): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(widget.inputSchema?.properties ?? {})) {
+    const value = values[key];
+    if (property.type === 'boolean') {
+      input[key] = value === true;
+    } else if (typeof value === 'string' && value !== '') {
+      input[key] = property.type === 'string' ? value : Number(value);
+    }
+  }
+  return input;
+}
+
+interface WidgetLauncherDialogProps {
+  open: boolean;
+  onClose: () => void;
+  conversationId: number;
+  pylonId: number;
+}
+
+/**
+ * 위젯 실행 다이얼로그
+ *
+ * Pylon의 위젯 카탈로그에서 위젯을 골라 입력을 채우고 프롬프트 없이 바로 실행합니다.
+ * 실행하면 대화에 위젯 카드가 추가되고, 필수 환경변수가 없는 위젯은 실행할 수 없습니다.
+ */
+export function WidgetLauncherDialog({ open, onClose, conversationId, pylonId }: WidgetLauncherDialogProps) {
+  const catalog = useWidgetStore((s) => s.catalogByPylon[pylonId]);
+  const launch = useWidgetStore((s) => s.launchByConversation[conversationId]);
+
+  const [selected, setSelected] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, FieldValue>>({});
+  const wasLaunching = useRef(false);
+
+  // 열 때마다 새로 불러오기
+  useEffect(() => {
+    if (!open) return;
+    setSelected(null);
+    useWidgetStore.getState().setLaunch(conversationId, null);
+    requestWidgetList(conversationId);
+  }, [open, conversationId]);
+
+  // 실행에 성공하면 (launching 상태가 사라지면) 닫기
+  useEffect(() => {
+    if (launch?.status === 'launching') {
+      wasLaunching.current = true;
+    } else if (wasLaunching.current) {
+      wasLaunching.current = false;
+      if (!launch) onClose();
+    }
+  }, [launch]);
+
+  const widget = catalog?.find((w) => w.name === selected) ?? null;
+
+  const select = (entry: WidgetCatalogEntry) => {
+    setSelected(entry.name);
+    setValues(initialValues(entry));
+    useWidgetStore.getState().setLaunch(conversationId, null);
+  };
+
+  const handleLaunch = () => {
+    if (!widget || !widget.available) return;
+    useWidgetStore.getState().setLaunch(conversationId, { status: 'launching', widget: widget.name });
+    launchWidget(conversationId, widget.name, toInput(widget, values));
+  };
+
+  const renderField = (key: string, property: WidgetInputProperty) => {
+    const required = widget?.inputSchema?.required?.includes(key);
+    const label = `${property.description ?? key}${required ? ' *' : ''}`;
+    const value = values[key];
+
+    if (property.type === 'boolean') {
+      return (
+        <label key={key} className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValues({ ...values, [key]: e.target.checked })}
+            className="accent-primary"
+          />
+          {label}
+        </label>
+      );
+    }
+
+    return (
+      <label key={key} className="flex flex-col gap-1">
+        <span className="text-xs text-muted-foreground">{label}</span>
+        {property.enum ? (
+          <select
+            value={String(value ?? '')}
+            onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+          >
+            {!required && <option value="" />}
+            {property.enum.map((option) => (
+              <option key={String(option)} value={String(option)}>
+                {String(option)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            type={property.type === 'string' ? 'text' : 'number'}
+            value={String(value ?? '')}
+            min={property.minimum}
+            max={property.maximum}
+            step={property.type === 'integer' ? 1 : undefined}
+            onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+          />
+        )}
+      </label>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span>위젯 실행</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 ml-auto"
+              onClick={() => requestWidgetList(conversationId)}
+              title="새로고침"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          </DialogTitle>
+        </DialogHeader>
+
+        {!catalog && <p className="text-xs text-muted-foreground">불러오는 중...</p>}
+        {catalog?.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            설치된 위젯이 없어요. 위젯 폴더에 widget.json이 있는 패키지를 추가하세요.
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {catalog?.map((entry) => (
+            <button
+              key={entry.name}
+              onClick={() => select(entry)}
+              className={cn(
+                'w-full flex items-start gap-2 px-2 py-1.5 rounded text-left',
+                selected === entry.name ? 'bg-accent' : 'hover:bg-accent/50',
+                !entry.available && 'opacity-60'
+              )}
+            >
+              <span className="w-5 shrink-0 text-center">{entry.icon ?? '🧩'}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium truncate">{entry.title}</span>
+                {entry.description && (
+                  <span className="block text-xs text-muted-foreground truncate">{entry.description}</span>
+                )}
+                {!entry.available && (
+                  <span className="block text-xs text-destructive">
+                    환경변수 필요: {entry.missingEnv.join(', ')}
+                  </span>
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {widget && (
+          <div className="space-y-2 border-t border-border pt-3">
+            {Object.entries(widget.inputSchema?.properties ?? {}).map(([key, property]) =>
+              renderField(key, property)
+            )}
+            {launch?.status === 'error' && <p className="text-xs text-destructive">{launch.error}</p>}
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={handleLaunch}
+                disabled={!widget.available || launch?.status === 'launching'}
+              >
+                <Play className="mr-1 h-3.5 w-3.5" />
+                {launch?.status === 'launching' ? '실행 중...' : `${widget.title} 실행`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
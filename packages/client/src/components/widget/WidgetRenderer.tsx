@@ -2,21 +2,25 @@
  * @file WidgetRenderer.tsx
  * @description Widget의 최상위 렌더링 컴포넌트
  *
- * ScriptViewNode를 받아 WidgetScriptRenderer로 렌더링합니다.
+ * ScriptViewNode는 WidgetScriptRenderer로, 나머지 선언형 노드(텍스트/레이아웃/폼)는
+ * WidgetViewRenderer로 렌더링합니다.
  */
 
-import type { ViewNode, ScriptViewNode } from '@estelle/core';
+import type { ViewNode, WidgetFormInputData } from '@estelle/core';
 import { isScriptViewNode } from '@estelle/core';
 import { WidgetScriptRenderer } from './WidgetScriptRenderer';
+import { WidgetViewRenderer } from './WidgetViewRenderer';
 import { cn } from '@/lib/utils';
 
 export interface WidgetRendererProps {
   /** 세션 ID */
   sessionId: string;
-  /** 렌더링할 뷰 노드 (ScriptViewNode만 지원) */
+  /** 렌더링할 뷰 노드 */
   view: ViewNode;
   /** 이벤트 콜백 */
   onEvent: (data: unknown) => void;
+  /** 폼 입력 콜백 (선언형 노드용, 없으면 읽기 전용) */
+  onInput?: (data: WidgetFormInputData) => void;
   /** 취소 콜백 */
   onCancel: () => void;
   /** 에셋 URL 맵 */
@@ -28,23 +32,18 @@ export interface WidgetRendererProps {
 /**
  * Widget Protocol의 Client 측 렌더러
  *
- * - ScriptViewNode만 지원 (v2)
- * - 이벤트 기반 통신
+ * - ScriptViewNode: 이벤트 기반 통신 (v2)
+ * - 선언형 노드: 폼 값을 widget_input으로 전달
  */
 export function WidgetRenderer({
   sessionId,
   view,
   onEvent,
+  onInput,
   onCancel,
   assets,
   className,
 }: WidgetRendererProps) {
-  // ScriptViewNode만 지원
-  if (!isScriptViewNode(view)) {
-    console.error('[WidgetRenderer] Only ScriptViewNode is supported');
-    return null;
-  }
-
   return (
     <div
       className={cn(
@@ -53,13 +52,17 @@ export function WidgetRenderer({
         className
       )}
     >
-      <WidgetScriptRenderer
-        sessionId={sessionId}
-        view={view}
-        assets={assets || {}}
-        onEvent={onEvent}
-        onCancel={onCancel}
-      />
+      {isScriptViewNode(view) ? (
+        <WidgetScriptRenderer
+          sessionId={sessionId}
+          view={view}
+          assets={assets || {}}
+          onEvent={onEvent}
+          onCancel={onCancel}
+        />
+      ) : (
+        <WidgetViewRenderer view={view} onInput={onInput} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { ViewNode } from '@estelle/core';
+import { WidgetViewRenderer } from './WidgetViewRenderer';
+
+const formChildren: ViewNode[] = [
+  { type: 'text', content: '배포 설정', style: 'title' },
+  { type: 'input', id: 'tag', label: '태그', value: 'v1' },
+  { type: 'select', id: 'env', label: '환경', options: ['staging', { value: 'prod', label: '운영' }] },
+  { type: 'checkbox', id: 'notify', label: '알림 보내기' },
+  { type: 'slider', id: 'replicas', label: '레플리카', min: 1, max: 5 },
+  { type: 'table', id: 'target', columns: ['이름'], rows: [['api'], ['web']] },
+  { type: 'progress', value: 30, label: '진행' },
+  { type: 'button', id: 'deploy', label: '배포' },
+];
+
+const formView: ViewNode = { type: 'column', children: formChildren };
+
+describe('WidgetViewRenderer', () => {
+  describe('렌더링', () => {
+    it('should_render_form_nodes', () => {
+      render(<WidgetViewRenderer view={formView} onInput={vi.fn()} />);
+
+      expect(screen.getByText('배포 설정')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('v1')).toBeInTheDocument();
+      expect(screen.getByText('운영')).toBeInTheDocument();
+      expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '30');
+    });
+
+    it('should_disable_inputs_without_onInput', () => {
+      render(<WidgetViewRenderer view={formView} />);
+
+      expect(screen.getByDisplayValue('v1')).toBeDisabled();
+      expect(screen.getByRole('button', { name: '배포' })).toBeDisabled();
+    });
+  });
+
+  describe('입력 전송', () => {
+    it('should_send_all_values_when_button_clicked', () => {
+      const onInput = vi.fn();
+      render(<WidgetViewRenderer view={formView} onInput={onInput} />);
+
+      fireEvent.change(screen.getByDisplayValue('v1'), { target: { value: 'v2' } });
+      fireEvent.change(screen.getByRole('combobox'), { target: { value: 'prod' } });
+      fireEvent.click(screen.getByRole('checkbox'));
+      fireEvent.change(screen.getByRole('slider'), { target: { value: '3' } });
+      fireEvent.click(screen.getByText('web'));
+      fireEvent.click(screen.getByRole('button', { name: '배포' }));
+
+      expect(onInput).toHaveBeenCalledTimes(1);
+      expect(onInput).toHaveBeenCalledWith({
+        button: 'deploy',
+        values: { tag: 'v2', env: 'prod', notify: true, replicas: 3, target: 1 },
+      });
+    });
+
+    it('should_send_immediately_for_submitOnChange', () => {
+      const onInput = vi.fn();
+      const view: ViewNode = { type: 'checkbox', id: 'dark', label: '다크 모드', submitOnChange: true };
+      render(<WidgetViewRenderer view={view} onInput={onInput} />);
+
+      fireEvent.click(screen.getByRole('checkbox'));
+
+      expect(onInput).toHaveBeenCalledWith({ field: 'dark', values: { dark: true } });
+    });
+
+    it('should_keep_user_values_when_view_rerenders', () => {
+      const onInput = vi.fn();
+      const { rerender } = render(<WidgetViewRenderer view={formView} onInput={onInput} />);
+      fireEvent.change(screen.getByDisplayValue('v1'), { target: { value: 'edited' } });
+
+      const updated: ViewNode = { type: 'column', children: [...formChildren, { type: 'progress', value: 80 }] };
+      rerender(<WidgetViewRenderer view={updated} onInput={onInput} />);
+
+      expect(screen.getByDisplayValue('edited')).toBeInTheDocument();
+    });
+  });
+});
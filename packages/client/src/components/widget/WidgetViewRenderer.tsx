@@ -0,0 +1,284 @@
+/**
+ * @file WidgetViewRenderer.tsx
+ * @description 선언형 뷰 노드 렌더러 - 텍스트/레이아웃/폼 노드를 직접 렌더링
+ *
+ * 폼 노드(input/select/checkbox/slider/table)의 값을 모아 두었다가
+ * 버튼을 누르거나 submitOnChange 노드가 바뀌면 onInput으로 전달합니다.
+ */
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import DOMPurify from 'dompurify';
+import type {
+  ViewNode,
+  SelectOption,
+  WidgetFormValue,
+  WidgetFormInputData,
+} from '@estelle/core';
+import { collectFieldDefaults } from '@estelle/core';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { cn } from '@/lib/utils';
+
+const BUTTON_VARIANT = {
+  primary: 'default',
+  secondary: 'outline',
+  danger: 'destructive',
+} as const;
+
+interface WidgetViewRendererProps {
+  view: ViewNode;
+  /** 폼 입력 콜백 (없으면 읽기 전용) */
+  onInput?: (data: WidgetFormInputData) => void;
+  className?: string;
+}
+
+function optionValue(option: string | SelectOption): string {
+  return typeof option === 'string' ? option : option.value;
+}
+
+function optionLabel(option: string | SelectOption): string {
+  return typeof option === 'string' ? option : option.label ?? option.value;
+}
+
+function FieldLabel({ children }: { children?: string }) {
+  if (!children) return null;
+  return <span className="text-xs text-muted-foreground">{children}</span>;
+}
+
+export function WidgetViewRenderer({ view, onInput, className }: WidgetViewRendererProps) {
+  const [values, setValues] = useState<Record<string, WidgetFormValue>>(() => collectFieldDefaults(view));
+  // 사용자가 바꾼 값은 CLI가 화면을 다시 그려도 유지
+  const touchedRef = useRef<Set<string>>(new Set());
+  const readOnly = !onInput;
+
+  useEffect(() => {
+    setValues((prev) => {
+      const next = collectFieldDefaults(view);
+      for (const id of Object.keys(next)) {
+        if (touchedRef.current.has(id) && id in prev) {
+          next[id] = prev[id];
+        }
+      }
+      return next;
+    });
+  }, [view]);
+
+  const setField = (id: string, value: WidgetFormValue, submit?: boolean) => {
+    touchedRef.current.add(id);
+    const next = { ...values, [id]: value };
+    setValues(next);
+    if (submit) {
+      onInput?.({ field: id, values: next });
+    }
+  };
+
+  const renderNode = (node: ViewNode, key?: number): ReactNode => {
+    switch (node.type) {
+      case 'text':
+        return (
+          <p
+            key={key}
+            className={cn(
+              'select-text whitespace-pre-wrap',
+              node.style === 'title' && 'text-base font-semibold',
+              (node.style ?? 'body') === 'body' && 'text-sm',
+              node.style === 'caption' && 'text-xs text-muted-foreground'
+            )}
+          >
+            {node.content}
+          </p>
+        );
+
+      case 'row':
+      case 'column':
+        return (
+          <div
+            key={key}
+            className={cn('flex', node.type === 'row' ? 'flex-row flex-wrap items-center' : 'flex-col')}
+            style={{ gap: node.gap ?? 8 }}
+          >
+            {node.children.map((child, i) => renderNode(child, i))}
+          </div>
+        );
+
+      case 'image':
+        return <img key={key} src={node.src} alt="" className="max-w-full rounded" />;
+
+      case 'spacer':
+        return <div key={key} style={{ height: node.size ?? 16 }} />;
+
+      case 'html':
+        return (
+          <div
+            key={key}
+            className="widget-html text-sm"
+            dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(node.content) }}
+          />
+        );
+
+      case 'input': {
+        const value = String(values[node.id] ?? '');
+        const onChange = (next: string) => setField(node.id, next, node.submitOnChange);
+        return (
+          <label key={key} className="flex flex-col gap-1">
+            <FieldLabel>{node.label}</FieldLabel>
+            {node.inputType === 'multiline' ? (
+              <Textarea
+                value={value}
+                placeholder={node.placeholder}
+                disabled={readOnly}
+                onChange={(e) => onChange(e.target.value)}
+                className="min-h-[60px] text-sm"
+              />
+            ) : (
+              <Input
+                type={node.inputType ?? 'text'}
+                value={value}
+                placeholder={node.placeholder}
+                disabled={readOnly}
+                onChange={(e) => onChange(e.target.value)}
+              />
+            )}
+          </label>
+        );
+      }
+
+      case 'select':
+        return (
+          <label key={key} className="flex flex-col gap-1">
+            <FieldLabel>{node.label}</FieldLabel>
+            <select
+              value={String(values[node.id] ?? '')}
+              disabled={readOnly}
+              onChange={(e) => setField(node.id, e.target.value, node.submitOnChange)}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground disabled:opacity-50"
+            >
+              {node.options.map((option) => (
+                <option key={optionValue(option)} value={optionValue(option)}>
+                  {optionLabel(option)}
+                </option>
+              ))}
+            </select>
+          </label>
+        );
+
+      case 'checkbox':
+        return (
+          <label key={key} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={values[node.id] === true}
+              disabled={readOnly}
+              onChange={(e) => setField(node.id, e.target.checked, node.submitOnChange)}
+              className="accent-primary"
+            />
+            {node.label}
+          </label>
+        );
+
+      case 'slider': {
+        const value = Number(values[node.id] ?? node.min);
+        return (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{node.label}</span>
+              <span className="font-mono">{value}</span>
+            </span>
+            <input
+              type="range"
+              min={node.min}
+              max={node.max}
+              step={node.step ?? 1}
+              value={value}
+              disabled={readOnly}
+              onChange={(e) => setField(node.id, Number(e.target.value), node.submitOnChange)}
+              className="w-full accent-primary"
+            />
+          </label>
+        );
+      }
+
+      case 'button':
+        return (
+          <Button
+            key={key}
+            size="sm"
+            variant={BUTTON_VARIANT[node.variant ?? 'primary']}
+            disabled={readOnly || node.disabled}
+            onClick={() => onInput?.({ button: node.id, values })}
+          >
+            {node.label}
+          </Button>
+        );
+
+      case 'table': {
+        const tableId = node.id;
+        const selected = tableId !== undefined ? values[tableId] : null;
+        return (
+          <div key={key} className="overflow-x-auto rounded border border-border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted text-muted-foreground">
+                <tr>
+                  {node.columns.map((column, i) => (
+                    <th key={i} className="px-2 py-1 text-left font-medium">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {node.rows.map((row, rowIndex) => (
+                  <tr
+                    key={rowIndex}
+                    onClick={
+                      tableId !== undefined && !readOnly
+                        ? () => setField(tableId, rowIndex, node.submitOnChange)
+                        : undefined
+                    }
+                    className={cn(
+                      'border-t border-border',
+                      tableId !== undefined && !readOnly && 'cursor-pointer hover:bg-accent/50',
+                      selected === rowIndex && 'bg-accent'
+                    )}
+                  >
+                    {row.map((cell, i) => (
+                      <td key={i} className="px-2 py-1">{cell === null ? '' : String(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case 'progress': {
+        const max = node.max ?? 100;
+        const percent = max > 0 ? Math.min(100, Math.max(0, (node.value / max) * 100)) : 0;
+        return (
+          <div key={key} className="flex flex-col gap-1">
+            {node.label && (
+              <span className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{node.label}</span>
+                <span className="font-mono">{Math.round(percent)}%</span>
+              </span>
+            )}
+            <div
+              role="progressbar"
+              aria-valuenow={node.value}
+              aria-valuemax={max}
+              className="h-2 w-full overflow-hidden rounded-full bg-secondary"
+            >
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        );
+      }
+
+      // script 노드는 WidgetScriptRenderer가 최상위에서만 렌더링
+      default:
+        return null;
+    }
+  };
+
+  return <div className={cn('widget-view-renderer flex flex-col gap-2', className)}>{renderNode(view)}</div>;
+}
@@ -7,3 +7,5 @@
 
 export { WidgetRenderer, type WidgetRendererProps } from './WidgetRenderer';
 export { WidgetScriptRenderer } from './WidgetScriptRenderer';
+export { WidgetViewRenderer } from './WidgetViewRenderer';
+export { WidgetLauncherDialog } from './WidgetLauncherDialog';
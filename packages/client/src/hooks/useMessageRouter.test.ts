@@ -20,6 +20,8 @@ const mockWorkspaceStore = {
   setWorkspaces: vi.fn(),
   updateConversationStatus: vi.fn(),
   addConnectedPylon: vi.fn(),
+  setDeviceStatus: vi.fn(),
+  clearSelection: vi.fn(),
 };
 
 // conversationStore mock
@@ -40,7 +42,11 @@ const mockConversationStore = {
   getState: vi.fn(() => ({ messages: [] })),
   deleteConversation: vi.fn(),
   setSlashCommands: vi.fn(),
+  replaceMessage: vi.fn(),
   setWidgetSession: vi.fn(),
+  setWidgetPending: vi.fn(),
+  setWidgetClaiming: vi.fn(),
+  setWidgetError: vi.fn(),
   clearWidgetSession: vi.fn(),
   removeWidgetEventListener: vi.fn(),
 };
@@ -58,14 +64,24 @@ vi.mock('../stores/conversationStore', () => ({
   },
 }));
 
+const mockSettingsStore = {
+  setUsageSummary: vi.fn(),
+  setPushPublicKey: vi.fn(),
+};
+
 vi.mock('../stores/settingsStore', () => ({
   useSettingsStore: {
-    getState: () => ({
-      setUsageSummary: vi.fn(),
-    }),
+    getState: () => mockSettingsStore,
   },
 }));
 
+// pushService mock
+const mockSyncPushSubscription = vi.fn();
+
+vi.mock('../services/pushService', () => ({
+  syncPushSubscription: mockSyncPushSubscription,
+}));
+
 // syncStore mock
 const mockSyncStore = {
   setConversationSync: vi.fn(),
@@ -155,6 +171,29 @@ describe('routeMessage', () => {
       });
     });
 
+    it('should store registered agents of the pylon', () => {
+      const agents = [
+        { name: 'claude', label: 'Claude', adapter: 'claude' },
+        { name: 'local-llama', label: 'Local Llama', adapter: 'openai-compatible', model: 'qwen' },
+      ];
+
+      routeMessage({
+        type: MessageType.WORKSPACE_LIST_RESULT,
+        payload: {
+          deviceId: 1,
+          deviceName: 'Test Device',
+          workspaces: [],
+          agents: [...agents, { name: 'Bad Name', label: 'x', adapter: 'x' }],
+        },
+      });
+
+      expect(mockWorkspaceStore.addConnectedPylon).toHaveBeenCalledWith({
+        deviceId: 1,
+        deviceName: 'Test Device',
+        agents,
+      });
+    });
+
     it('should pass selectedConversationId to syncOrchestrator when conversation is selected', () => {
       mockWorkspaceStore.selectedConversation = { conversationId: CONVERSATION_ID };
 
@@ -173,6 +212,31 @@ describe('routeMessage', () => {
     });
   });
 
+  describe('device status', () => {
+    it('should route device_status devices to workspaceStore.setDeviceStatus', () => {
+      const devices = [
+        {
+          deviceId: 1,
+          deviceType: 'pylon',
+          name: 'Office',
+          icon: '🏢',
+          connectedAt: '2026-01-01T00:00:00.000Z',
+          activeSessions: [],
+        },
+      ];
+
+      routeMessage({ type: MessageType.DEVICE_STATUS, payload: { devices } });
+
+      expect(mockWorkspaceStore.setDeviceStatus).toHaveBeenCalledWith(devices);
+    });
+
+    it('should ignore device_status without devices', () => {
+      routeMessage({ type: MessageType.DEVICE_STATUS, payload: {} });
+
+      expect(mockWorkspaceStore.setDeviceStatus).not.toHaveBeenCalled();
+    });
+  });
+
   describe('conversation messages', () => {
     it('should route conversation_status to workspaceStore.updateConversationStatus', () => {
       mockWorkspaceStore.connectedPylons = [{ deviceId: 1, deviceName: 'Test' }];
@@ -265,13 +329,50 @@ describe('routeMessage', () => {
           conversationId: CONVERSATION_ID,
           event: {
             type: 'textComplete',
+            messageId: 'msg_123_0',
+          },
+        },
+      };
+
+      routeMessage(message);
+
+      expect(mockConversationStore.flushTextBuffer).toHaveBeenCalledWith(CONVERSATION_ID, 'msg_123_0');
+    });
+
+    it('should add system message on accountFailover without changing status', () => {
+      const message: RelayMessage = {
+        type: MessageType.CLAUDE_EVENT,
+        payload: {
+          conversationId: CONVERSATION_ID,
+          event: {
+            type: 'accountFailover',
+            message: '사용량 한도로 계정 전환: Work → Side',
           },
         },
       };
 
       routeMessage(message);
 
-      expect(mockConversationStore.flushTextBuffer).toHaveBeenCalledWith(CONVERSATION_ID);
+      expect(mockConversationStore.addMessage).toHaveBeenCalledWith(
+        CONVERSATION_ID,
+        expect.objectContaining({ type: 'system', content: '사용량 한도로 계정 전환: Work → Side' })
+      );
+      expect(mockConversationStore.setStatus).not.toHaveBeenCalled();
+    });
+
+    it('should add system message on budgetExceeded', () => {
+      routeMessage({
+        type: MessageType.CLAUDE_EVENT,
+        payload: {
+          conversationId: CONVERSATION_ID,
+          event: { type: 'budgetExceeded', message: '턴 한도(5회)에 도달해 응답을 중단했습니다' },
+        },
+      });
+
+      expect(mockConversationStore.addMessage).toHaveBeenCalledWith(
+        CONVERSATION_ID,
+        expect.objectContaining({ type: 'system', content: '턴 한도(5회)에 도달해 응답을 중단했습니다' })
+      );
     });
   });
 
@@ -712,6 +813,355 @@ describe('routeMessage', () => {
     });
   });
 
+  describe('tool_output_result', () => {
+    it('should_replace_message_when_full_output_received', () => {
+      // Arrange
+      const fullMessage = {
+        id: 'toolu_1',
+        role: 'assistant',
+        type: 'tool_complete',
+        content: '',
+        timestamp: 1000,
+        toolName: 'Bash',
+        toolInput: { command: 'ls' },
+        success: true,
+        output: 'full output',
+      };
+
+      // Act
+      routeMessage({
+        type: MessageType.TOOL_OUTPUT_RESULT,
+        payload: {
+          deviceId: 1,
+          conversationId: CONVERSATION_ID,
+          messageId: 'toolu_1',
+          message: fullMessage,
+        },
+      });
+
+      // Assert
+      expect(mockConversationStore.replaceMessage).toHaveBeenCalledWith(
+        CONVERSATION_ID,
+        fullMessage
+      );
+    });
+
+    it('should_not_replace_message_when_error_received', () => {
+      // Arrange
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      // Act
+      routeMessage({
+        type: MessageType.TOOL_OUTPUT_RESULT,
+        payload: {
+          deviceId: 1,
+          conversationId: CONVERSATION_ID,
+          messageId: 'toolu_1',
+          error: 'Message not found',
+        },
+      });
+
+      // Assert
+      expect(mockConversationStore.replaceMessage).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('audit_log_result', () => {
+    it('should_store_entries_for_current_request', async () => {
+      // Arrange
+      const { useAuditStore } = await import('../stores/auditStore');
+      useAuditStore.getState().startQuery('req-1', [1]);
+      const entry = {
+        id: 1,
+        timestamp: 1000,
+        kind: 'permission',
+        conversationId: CONVERSATION_ID,
+        workspaceId: 1,
+        toolName: 'Bash',
+        toolInput: { command: 'ls' },
+        decision: 'auto_allow',
+      };
+
+      // Act
+      routeMessage({
+        type: MessageType.AUDIT_LOG_RESULT,
+        payload: { deviceId: 1, requestId: 'req-1', entries: [entry], hasMore: false },
+      });
+
+      // Assert
+      const state = useAuditStore.getState();
+      expect(state.isLoading()).toBe(false);
+      expect(state.getEntries()).toEqual([{ ...entry, pylonId: 1 }]);
+      useAuditStore.getState().reset();
+    });
+  });
+
+  describe('worker messages', () => {
+    it('should_store_worker_status_from_status_and_task_list_results', async () => {
+      const { useWorkerStore } = await import('../stores/workerStore');
+      const workerStatus = {
+        workspaceId: 129,
+        status: 'running',
+        maxConcurrency: 2,
+        workers: [
+          { slot: 1, taskId: 'a', taskTitle: 'A', startedAt: '2026-01-24T11:00:00Z', conversationId: 132097, worktreePath: null },
+          { slot: 2, taskId: 'b', taskTitle: 'B', startedAt: '2026-01-24T11:01:00Z', conversationId: 132098, worktreePath: null },
+        ],
+        currentTask: { id: 'a', title: 'A', startedAt: '2026-01-24T11:00:00Z' },
+        queue: { pending: 1, total: 3 },
+      };
+
+      routeMessage({
+        type: MessageType.WORKER_STATUS_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, workerStatus },
+      });
+      expect(useWorkerStore.getState().getWorkerStatus(129)?.workers).toHaveLength(2);
+
+      routeMessage({
+        type: MessageType.TASK_LIST_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, tasks: [], workerStatus: { ...workerStatus, status: 'idle', workers: [] } },
+      });
+      expect(useWorkerStore.getState().getWorkerStatus(129)?.status).toBe('idle');
+      useWorkerStore.getState().reset();
+    });
+  });
+
+  describe('task messages', () => {
+    const task = {
+      id: 'task-1',
+      title: 'Task 1',
+      status: 'pending',
+      priority: 0,
+      dependsOn: [],
+      maxRetries: 0,
+      retryCount: 0,
+      timeout: null,
+      createdAt: '2026-01-24T10:00:00Z',
+      startedAt: null,
+      completedAt: null,
+      error: null,
+      branch: null,
+      fileName: '20260124-task-1.md',
+    };
+
+    it('should_store_task_list_and_apply_task_changes', async () => {
+      const { useTaskStore } = await import('../stores/taskStore');
+
+      routeMessage({
+        type: MessageType.TASK_LIST_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, tasks: [task] },
+      });
+      expect(useTaskStore.getState().getTasks(129)).toHaveLength(1);
+
+      routeMessage({
+        type: MessageType.TASK_STATUS_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, success: true, task: { ...task, status: 'failed' } },
+      });
+      expect(useTaskStore.getState().getTasks(129)[0].status).toBe('failed');
+
+      routeMessage({
+        type: MessageType.TASK_STATUS_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, success: false, error: '의존 관계에 순환이 있습니다' },
+      });
+      expect(useTaskStore.getState().lastError).toBe('의존 관계에 순환이 있습니다');
+
+      routeMessage({
+        type: MessageType.TASK_GET_RESULT,
+        payload: { deviceId: 1, workspaceId: 129, success: true, task: { ...task, content: '본문', truncated: false } },
+      });
+      expect(useTaskStore.getState().detailById['task-1']?.content).toBe('본문');
+      useTaskStore.getState().reset();
+    });
+  });
+
+  describe('git messages', () => {
+    it('should_store_git_status_diff_and_commit_results', async () => {
+      const { useGitStore } = await import('../stores/gitStore');
+      const status = {
+        branch: 'main',
+        upstream: 'origin/main',
+        ahead: 1,
+        behind: 0,
+        staged: [],
+        unstaged: [{ path: 'a.ts', kind: 'modified' }],
+        untracked: [],
+        baseline: 'base-1',
+        changes: [{ path: 'a.ts', kind: 'modified' }],
+      };
+
+      routeMessage({
+        type: MessageType.GIT_STATUS_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, success: true, status },
+      });
+      expect(useGitStore.getState().statusByConversation[132097]?.branch).toBe('main');
+
+      routeMessage({
+        type: MessageType.GIT_DIFF_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, scope: 'conversation', path: 'a.ts', success: true, diff: '+x', truncated: false },
+      });
+      expect(useGitStore.getState().diffByConversation[132097]).toEqual({
+        scope: 'conversation',
+        path: 'a.ts',
+        diff: '+x',
+        truncated: false,
+      });
+
+      routeMessage({
+        type: MessageType.GIT_COMMIT_DRAFT_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, success: true, message: 'Fix a' },
+      });
+      expect(useGitStore.getState().draftByConversation[132097]).toEqual({ status: 'ready', message: 'Fix a' });
+
+      routeMessage({
+        type: MessageType.GIT_COMMIT_RESULT,
+        payload: {
+          deviceId: 1,
+          conversationId: 132097,
+          success: true,
+          commit: { hash: 'c1', shortHash: 'c1', author: 'me', date: '', subject: 'Fix a' },
+        },
+      });
+      expect(useGitStore.getState().lastCommitByConversation[132097]?.hash).toBe('c1');
+      expect(useGitStore.getState().draftByConversation[132097]).toBeUndefined();
+
+      routeMessage({
+        type: MessageType.GIT_REVERT_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, success: false, path: 'a.ts', error: '잘못된 파일 경로입니다: a.ts' },
+      });
+      expect(useGitStore.getState().errorByConversation[132097]).toBe('잘못된 파일 경로입니다: a.ts');
+      useGitStore.getState().reset();
+    });
+  });
+
+  describe('widget catalog messages', () => {
+    it('should_store_catalog_and_launch_errors', async () => {
+      const { useWidgetStore } = await import('../stores/widgetStore');
+      const widgets = [{ name: 'quiver', title: 'Quiver', missingEnv: [], available: true }];
+
+      routeMessage({
+        type: MessageType.WIDGET_LIST_RESULT,
+        payload: { deviceId: 1, widgets },
+      });
+      expect(useWidgetStore.getState().catalogByPylon[1]).toEqual(widgets);
+
+      useWidgetStore.getState().setLaunch(132097, { status: 'launching', widget: 'quiver' });
+      routeMessage({
+        type: MessageType.WIDGET_LAUNCH_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, widget: 'quiver', success: false, error: '입력이 올바르지 않습니다' },
+      });
+      expect(useWidgetStore.getState().launchByConversation[132097]).toEqual({
+        status: 'error',
+        widget: 'quiver',
+        error: '입력이 올바르지 않습니다',
+      });
+
+      routeMessage({
+        type: MessageType.WIDGET_LAUNCH_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, widget: 'quiver', success: true, toolUseId: 'widget-launch-1' },
+      });
+      expect(useWidgetStore.getState().launchByConversation[132097]).toBeUndefined();
+      useWidgetStore.getState().reset();
+    });
+  });
+
+  describe('conversation delete result', () => {
+    it('should_clear_selection_after_worktree_conversation_deleted', () => {
+      mockWorkspaceStore.selectedConversation = { conversationId: 132097 };
+
+      routeMessage({
+        type: MessageType.CONVERSATION_DELETE_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, success: true, worktreeAction: 'merge' },
+      });
+
+      expect(mockWorkspaceStore.clearSelection).toHaveBeenCalled();
+      expect(mockConversationStore.deleteConversation).toHaveBeenCalledWith(132097);
+      mockWorkspaceStore.selectedConversation = null;
+    });
+
+    it('should_keep_conversation_and_alert_on_failure', () => {
+      const alertSpy = vi.fn();
+      vi.stubGlobal('alert', alertSpy);
+      mockWorkspaceStore.selectedConversation = { conversationId: 132097 };
+
+      routeMessage({
+        type: MessageType.CONVERSATION_DELETE_RESULT,
+        payload: { deviceId: 1, conversationId: 132097, success: false, worktreeAction: 'merge', error: 'git worktree 병합 실패: CONFLICT' },
+      });
+
+      expect(alertSpy).toHaveBeenCalledWith('git worktree 병합 실패: CONFLICT');
+      expect(mockWorkspaceStore.clearSelection).not.toHaveBeenCalled();
+      expect(mockConversationStore.deleteConversation).not.toHaveBeenCalled();
+      mockWorkspaceStore.selectedConversation = null;
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('schedule messages', () => {
+    it('should_store_schedules_per_pylon', async () => {
+      const { useScheduleStore } = await import('../stores/scheduleStore');
+      const schedule = {
+        scheduleId: 1,
+        workspaceId: 129,
+        name: '아침 점검',
+        cron: '0 9 * * *',
+        action: { kind: 'text', text: '빌드 확인' },
+        conversationMode: 'reuse',
+        enabled: true,
+        createdAt: 1000,
+        nextRunAt: 2000,
+      };
+
+      routeMessage({
+        type: MessageType.SCHEDULE_LIST_RESULT,
+        payload: { deviceId: 1, schedules: [schedule] },
+      });
+
+      expect(useScheduleStore.getState().getSchedules()).toEqual([{ ...schedule, pylonId: 1 }]);
+      useScheduleStore.getState().reset();
+    });
+
+    it('should_record_save_error_and_run_reports', async () => {
+      const { useScheduleStore } = await import('../stores/scheduleStore');
+      const run = { scheduleId: 1, runAt: 1000, status: 'failed', manual: false, error: 'Command not found: 3' };
+
+      routeMessage({
+        type: MessageType.SCHEDULE_SAVE_RESULT,
+        payload: { deviceId: 1, success: false, error: 'Invalid schedule' },
+      });
+      routeMessage({
+        type: MessageType.SCHEDULE_RUN_RESULT,
+        payload: { deviceId: 1, name: '아침 점검', workspaceId: 129, run },
+      });
+
+      const state = useScheduleStore.getState();
+      expect(state.saveError).toBe('Invalid schedule');
+      expect(state.recentRuns).toEqual([{ pylonId: 1, name: '아침 점검', workspaceId: 129, run }]);
+      useScheduleStore.getState().reset();
+    });
+  });
+
+  describe('push messages', () => {
+    it('should store VAPID public key and sync subscription on push_config', () => {
+      routeMessage({
+        type: MessageType.PUSH_CONFIG,
+        payload: { publicKey: 'BPublicKey' },
+      });
+
+      expect(mockSettingsStore.setPushPublicKey).toHaveBeenCalledWith('BPublicKey');
+      expect(mockSyncPushSubscription).toHaveBeenCalled();
+    });
+
+    it('should clear public key when relay does not support push', () => {
+      routeMessage({
+        type: MessageType.PUSH_CONFIG,
+        payload: { publicKey: null },
+      });
+
+      expect(mockSettingsStore.setPushPublicKey).toHaveBeenCalledWith(null);
+    });
+  });
+
   // ==========================================================================
   // Widget 세션 관리 테스트 (Task 8-11)
   // ==========================================================================
@@ -856,6 +1306,75 @@ describe('routeMessage', () => {
         // Assert
         expect(mockConversationStore.clearWidgetSession).toHaveBeenCalledWith(CONVERSATION_ID);
       });
+
+      it('should_keep_error_reason_of_the_same_session', () => {
+        // Arrange: widget_error로 종료 사유 표시 중
+        mockConversationStore.getState.mockReturnValueOnce({
+          messages: [],
+          widgetSession: { toolUseId: 'tool-1', sessionId: 'session-1', view: null, status: 'error', error: '시간 초과' },
+        } as any);
+
+        // Act
+        routeMessage({
+          type: 'widget_close',
+          payload: { conversationId: CONVERSATION_ID, toolUseId: 'tool-1', sessionId: 'session-1' },
+        });
+
+        // Assert
+        expect(mockConversationStore.clearWidgetSession).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('widget_error', () => {
+      it('should_set_widget_error_with_reason', () => {
+        routeMessage({
+          type: MessageType.WIDGET_ERROR,
+          payload: {
+            conversationId: CONVERSATION_ID,
+            toolUseId: 'tool-1',
+            sessionId: 'session-1',
+            error: '메모리 제한(256MB)을 넘었습니다',
+            limit: 'memory',
+          },
+        });
+
+        expect(mockConversationStore.setWidgetError).toHaveBeenCalledWith(
+          CONVERSATION_ID,
+          'tool-1',
+          'session-1',
+          '메모리 제한(256MB)을 넘었습니다'
+        );
+      });
+
+      it('should_ignore_widget_error_without_session', () => {
+        routeMessage({
+          type: MessageType.WIDGET_ERROR,
+          payload: { conversationId: CONVERSATION_ID, error: '실패' },
+        });
+
+        expect(mockConversationStore.setWidgetError).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('widget_ready', () => {
+      it('should_set_pending_with_last_view_for_detached_session', () => {
+        // owner가 떠난 세션: preferredClientId 없이 마지막 view와 함께 옴
+        const view = { type: 'text', content: '생성 중 3/10' };
+
+        routeMessage({
+          type: 'widget_ready',
+          payload: {
+            conversationId: CONVERSATION_ID,
+            sessionId: 'session-1',
+            toolUseId: 'tool-1',
+            preferredClientId: null,
+            view,
+          },
+        });
+
+        expect(mockConversationStore.setWidgetPending).toHaveBeenCalledWith(CONVERSATION_ID, 'tool-1', 'session-1', view);
+        expect(mockConversationStore.setWidgetClaiming).not.toHaveBeenCalled();
+      });
     });
 
     describe('widget_check_result', () => {
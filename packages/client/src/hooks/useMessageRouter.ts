@@ -6,17 +6,25 @@
  * conversationId(number)를 사용하여 대화를 식별합니다.
  */
 
-import { MessageType } from '@estelle/core';
-import type { WorkspaceWithActive, StoreMessage, ViewNode } from '@estelle/core';
+import { MessageType, isAgentBackendInfo } from '@estelle/core';
+import type { AccountStatusPayload, AgentBackendInfo, WorkspaceWithActive, StoreMessage, ViewNode, SearchResultPayload, AuditLogResultPayload, PushConfigPayload, ConversationForkResultPayload, ConversationCreateResultPayload, ConversationDeleteResultPayload, ToolOutputResultPayload, DeviceStatusPayload, ScheduleListResultPayload, ScheduleSaveResultPayload, ScheduleRunResultPayload, WorkerStatus, WorkerStatusResultPayload, TaskListResultPayload, TaskGetResultPayload, TaskStatusResultPayload, GitStatusResultPayload, GitDiffResultPayload, GitLogResultPayload, GitActionResultPayload, GitCommitDraftResultPayload, WidgetListResultPayload, WidgetLaunchResultPayload, WidgetErrorPayload } from '@estelle/core';
 import type { RelayMessage } from '../services/relayService';
 import { useWorkspaceStore } from '../stores/workspaceStore';
 import { useConversationStore, emitWidgetEvent } from '../stores/conversationStore';
 import { useRelayStore } from '../stores/relayStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useSyncStore } from '../stores/syncStore';
+import { useSearchStore } from '../stores/searchStore';
+import { useAuditStore } from '../stores/auditStore';
+import { useScheduleStore } from '../stores/scheduleStore';
+import { useWorkerStore } from '../stores/workerStore';
+import { useTaskStore } from '../stores/taskStore';
+import { useGitStore } from '../stores/gitStore';
+import { useWidgetStore } from '../stores/widgetStore';
 import { syncOrchestrator } from '../services/syncOrchestrator';
+import { syncPushSubscription } from '../services/pushService';
 import { clearDraftText } from '../components/chat/InputBar';
-import { sendWidgetCheck, sendWidgetClaim, selectConversation } from '../services/relaySender';
+import { sendWidgetCheck, sendWidgetClaim, selectConversation, ACCOUNT_PYLON_ID } from '../services/relaySender';
 import { useCommandStore } from '../stores/commandStore';
 import type { CommandDelta } from '../stores/commandStore';
 // import { debugLog } from '../stores/debugStore';
@@ -32,7 +40,7 @@ export function routeMessage(message: RelayMessage): void {
   switch (type) {
     // === Workspace 목록 ===
     case MessageType.WORKSPACE_LIST_RESULT: {
-      const { deviceId, deviceName, workspaces, activeWorkspaceId, activeConversationId, account, forceSelectConversationId } = payload as {
+      const { deviceId, deviceName, workspaces, activeWorkspaceId, activeConversationId, account, forceSelectConversationId, agents } = payload as {
         deviceId: string | number;
         deviceName?: string;
         workspaces?: WorkspaceWithActive[];
@@ -40,6 +48,7 @@ export function routeMessage(message: RelayMessage): void {
         activeConversationId?: string;
         account?: { current: string; subscriptionType: string };
         forceSelectConversationId?: number;
+        agents?: AgentBackendInfo[];
       };
 
       console.log('[Router] workspace_list_result payload:', { deviceId, account });
@@ -85,11 +94,12 @@ export function routeMessage(message: RelayMessage): void {
         workspaceStore.addConnectedPylon({
           deviceId: pylonId,
           deviceName: pylonName,
+          agents: agents?.filter(isAgentBackendInfo),
         });
       }
 
-      // 계정 정보 업데이트 (파일런별 추적)
-      if (account) {
+      // 계정 정보 업데이트 (파일런별 추적, 계정을 판별하지 못한 경우 제외)
+      if (account?.current) {
         console.log('[Router] Setting account:', account, 'for pylon:', pylonId);
 
         const settingsStore = useSettingsStore.getState();
@@ -146,6 +156,9 @@ export function routeMessage(message: RelayMessage): void {
           if (ws.workspaceId && ws.commands) {
             useCommandStore.getState().setWorkspaceCommands(ws.workspaceId, ws.commands);
           }
+          if (ws.workspaceId && ws.workerStatus) {
+            useWorkerStore.getState().setWorkerStatus(Number(ws.workspaceId), ws.workerStatus as WorkerStatus);
+          }
         }
       }
 
@@ -161,6 +174,15 @@ export function routeMessage(message: RelayMessage): void {
       break;
     }
 
+    // === 디바이스 상태 (Relay 집계: Pylon별 활성 세션) ===
+    case MessageType.DEVICE_STATUS: {
+      const { devices } = payload as Partial<DeviceStatusPayload>;
+      if (Array.isArray(devices)) {
+        useWorkspaceStore.getState().setDeviceStatus(devices);
+      }
+      break;
+    }
+
     // === Conversation 상태 ===
     case MessageType.CONVERSATION_STATUS: {
       const { conversationId, status, unread, deviceId } = payload as {
@@ -278,6 +300,191 @@ export function routeMessage(message: RelayMessage): void {
       break;
     }
 
+    // === 메시지 검색 결과 ===
+    case MessageType.SEARCH_RESULT: {
+      const { deviceId, query, results, error } = payload as Partial<SearchResultPayload>;
+      const pylonId = deviceId ?? message.from?.deviceId;
+      if (pylonId === undefined || query === undefined) break;
+
+      if (error) {
+        console.warn(`[Router] search_result error from pylon ${pylonId}: ${error}`);
+      }
+      useSearchStore.getState().receiveResults(pylonId, query, results ?? [], error);
+      break;
+    }
+
+    // === 감사 로그 ===
+    case MessageType.AUDIT_LOG_RESULT: {
+      const { deviceId, requestId, entries, hasMore, error } = payload as Partial<AuditLogResultPayload>;
+      const pylonId = deviceId ?? message.from?.deviceId;
+      if (pylonId === undefined || requestId === undefined) break;
+
+      if (error) {
+        console.warn(`[Router] audit_log_result error from pylon ${pylonId}: ${error}`);
+      }
+      useAuditStore.getState().receiveResults(pylonId, requestId, entries ?? [], hasMore ?? false, error);
+      break;
+    }
+
+    // === 태스크 / 워커 ===
+    case MessageType.WORKER_STATUS_RESULT: {
+      const { workspaceId, workerStatus } = payload as Partial<WorkerStatusResultPayload>;
+      if (workspaceId === undefined || !workerStatus) break;
+
+      useWorkerStore.getState().setWorkerStatus(workspaceId, workerStatus);
+      break;
+    }
+
+    case MessageType.TASK_LIST_RESULT: {
+      const { workspaceId, tasks, workerStatus } = payload as Partial<TaskListResultPayload>;
+      if (workspaceId === undefined) break;
+
+      if (tasks) {
+        useTaskStore.getState().setTasks(workspaceId, tasks);
+      }
+      if (workerStatus) {
+        useWorkerStore.getState().setWorkerStatus(workspaceId, workerStatus);
+      }
+      break;
+    }
+
+    case MessageType.TASK_GET_RESULT: {
+      const { task } = payload as Partial<TaskGetResultPayload>;
+      if (task) {
+        useTaskStore.getState().setTaskDetail(task);
+      }
+      break;
+    }
+
+    case MessageType.TASK_STATUS_RESULT: {
+      const { workspaceId, success, task, error } = payload as Partial<TaskStatusResultPayload>;
+      if (workspaceId === undefined) break;
+
+      if (success && task) {
+        useTaskStore.getState().upsertTask(workspaceId, task);
+      } else if (!success) {
+        useTaskStore.getState().setError(error ?? '태스크를 저장하지 못했습니다.');
+      }
+      break;
+    }
+
+    // === git ===
+    case MessageType.GIT_STATUS_RESULT: {
+      const { conversationId, success, status, error } = payload as Partial<GitStatusResultPayload>;
+      if (conversationId === undefined) break;
+
+      if (success && status) {
+        useGitStore.getState().setStatus(conversationId, status);
+      } else if (!success) {
+        useGitStore.getState().setError(conversationId, error ?? 'git 상태를 불러오지 못했습니다.');
+      }
+      break;
+    }
+
+    case MessageType.GIT_DIFF_RESULT: {
+      const { conversationId, scope, path, success, diff, truncated, error } = payload as Partial<GitDiffResultPayload>;
+      if (conversationId === undefined || !scope) break;
+
+      if (success) {
+        useGitStore.getState().setDiff(conversationId, {
+          scope,
+          path: path ?? null,
+          diff: diff ?? '',
+          truncated: truncated ?? false,
+        });
+      } else {
+        useGitStore.getState().setError(conversationId, error ?? 'diff를 불러오지 못했습니다.');
+      }
+      break;
+    }
+
+    case MessageType.GIT_LOG_RESULT: {
+      const { conversationId, success, entries, error } = payload as Partial<GitLogResultPayload>;
+      if (conversationId === undefined) break;
+
+      if (success) {
+        useGitStore.getState().setLog(conversationId, entries ?? []);
+      } else {
+        useGitStore.getState().setError(conversationId, error ?? '커밋 로그를 불러오지 못했습니다.');
+      }
+      break;
+    }
+
+    case MessageType.GIT_REVERT_RESULT: {
+      const { conversationId, success, error } = payload as Partial<GitActionResultPayload>;
+      if (conversationId === undefined || success) break;
+
+      useGitStore.getState().setError(conversationId, error ?? '파일을 되돌리지 못했습니다.');
+      break;
+    }
+
+    case MessageType.GIT_COMMIT_RESULT: {
+      const { conversationId, success, commit, error } = payload as Partial<GitActionResultPayload>;
+      if (conversationId === undefined) break;
+
+      if (success && commit) {
+        useGitStore.getState().setLastCommit(conversationId, commit);
+      } else if (!success) {
+        useGitStore.getState().setError(conversationId, error ?? '커밋하지 못했습니다.');
+      }
+      break;
+    }
+
+    case MessageType.GIT_COMMIT_DRAFT_RESULT: {
+      const { conversationId, success, message: draft, error } = payload as Partial<GitCommitDraftResultPayload>;
+      if (conversationId === undefined) break;
+
+      useGitStore.getState().setDraft(
+        conversationId,
+        success && draft
+          ? { status: 'ready', message: draft }
+          : { status: 'error', error: error ?? '커밋 메시지를 만들지 못했습니다.' }
+      );
+      break;
+    }
+
+    // === 예약 실행 ===
+    case MessageType.SCHEDULE_LIST_RESULT: {
+      const { deviceId, schedules } = payload as Partial<ScheduleListResultPayload>;
+      const pylonId = deviceId ?? message.from?.deviceId;
+      if (pylonId === undefined) break;
+
+      useScheduleStore.getState().setSchedules(pylonId, schedules ?? []);
+      break;
+    }
+
+    case MessageType.SCHEDULE_SAVE_RESULT: {
+      const { success, error } = payload as Partial<ScheduleSaveResultPayload>;
+      useScheduleStore.getState().receiveSaveResult(success ?? false, error);
+      break;
+    }
+
+    case MessageType.SCHEDULE_RUN_RESULT: {
+      const { deviceId, name, workspaceId, run } = payload as Partial<ScheduleRunResultPayload>;
+      const pylonId = deviceId ?? message.from?.deviceId;
+      if (pylonId === undefined || !run) break;
+
+      if (run.status === 'failed') {
+        console.warn(`[Router] schedule "${name}" failed on pylon ${pylonId}: ${run.error}`);
+      }
+      useScheduleStore.getState().addRun({
+        pylonId,
+        name: name ?? '',
+        workspaceId: workspaceId ?? 0,
+        run,
+      });
+      break;
+    }
+
+    // === 푸시 알림 ===
+    case MessageType.PUSH_CONFIG: {
+      const { publicKey } = payload as Partial<PushConfigPayload>;
+      useSettingsStore.getState().setPushPublicKey(publicKey ?? null);
+      // 재연결 시 현재 설정으로 구독 갱신 (Relay 재시작/키 교체 대비)
+      void syncPushSubscription();
+      break;
+    }
+
     // === Claude 이벤트 ===
     case MessageType.CLAUDE_EVENT: {
       // payload에 conversationId가 있으면 해당 대화에 적용 (다른 대화에서 온 이벤트도 처리)
@@ -322,6 +529,7 @@ export function routeMessage(message: RelayMessage): void {
     // === 대화 생성 결과 ===
     case MessageType.CONVERSATION_CREATE_RESULT: {
       const { conversationId } = payload as { conversationId?: number };
+      const { error } = payload as Partial<ConversationCreateResultPayload>;
 
       // conversationId가 있으면 이전 캐시 삭제 (새 대화 생성 시 이전 데이터 정리)
       if (conversationId) {
@@ -329,6 +537,60 @@ export function routeMessage(message: RelayMessage): void {
         // 입력 draft도 삭제
         clearDraftText(conversationId);
       }
+
+      // worktree를 만들지 못해 일반 대화로 생성됨
+      if (error) {
+        alert(`worktree를 만들지 못해 워크스페이스 폴더에서 작업하는 대화로 만들었어요.\n${error}`);
+      }
+      break;
+    }
+
+    // === 대화 삭제 결과 (worktree 대화) ===
+    case MessageType.CONVERSATION_DELETE_RESULT: {
+      const { conversationId, success, error } = payload as Partial<ConversationDeleteResultPayload>;
+      if (conversationId === undefined) break;
+
+      if (!success) {
+        alert(error || '대화를 삭제하지 못했습니다.');
+        break;
+      }
+
+      const workspaceStore = useWorkspaceStore.getState();
+      if (workspaceStore.selectedConversation?.conversationId === conversationId) {
+        workspaceStore.clearSelection();
+      }
+      useConversationStore.getState().deleteConversation(conversationId);
+      break;
+    }
+
+    // === 대화 분기 결과 ===
+    case MessageType.CONVERSATION_FORK_RESULT: {
+      const { deviceId: pylonId, success, newConversationId, error } =
+        payload as Partial<ConversationForkResultPayload>;
+
+      if (!success || !newConversationId || pylonId === undefined) {
+        alert(error || '대화 분기에 실패했습니다.');
+        break;
+      }
+
+      // 분기한 대화로 전환 (workspace_list_result가 먼저 도착함)
+      useWorkspaceStore.getState().selectConversation(pylonId, newConversationId);
+      useConversationStore.getState().setCurrentConversation(newConversationId);
+      selectConversation(newConversationId);
+      break;
+    }
+
+    // === 전체 도구 출력 (보관된 원문 복원) ===
+    case MessageType.TOOL_OUTPUT_RESULT: {
+      const { conversationId, message: fullMessage, error } =
+        payload as Partial<ToolOutputResultPayload>;
+
+      if (conversationId === undefined || !fullMessage) {
+        console.error('[Router] Failed to load tool output:', error);
+        break;
+      }
+
+      useConversationStore.getState().replaceMessage(conversationId, fullMessage);
       break;
     }
 
@@ -345,27 +607,24 @@ export function routeMessage(message: RelayMessage): void {
       break;
     }
 
-    // === Account 상태 (명시적 계정 전환 시) ===
+    // === Account 상태 (계정 전환, 계정 목록 변경, 워크스페이스 목록 요청 시) ===
     case MessageType.ACCOUNT_STATUS: {
-      const { current, subscriptionType, error } = payload as {
-        current?: import('@estelle/core').AccountType;
-        subscriptionType?: string;
+      const { current, subscriptionType, accounts, error } = payload as Partial<AccountStatusPayload> & {
         error?: string;
       };
+      const settingsStore = useSettingsStore.getState();
 
-      // current가 없는 에러 응답은 무시 (계정 전환 실패 등)
-      if (!current) {
-        if (error) {
-          console.warn(`[Router] Account status error: ${error}`);
-        }
+      // 에러 응답 (계정 전환/저장 실패 등)
+      if (error) {
+        console.warn(`[Router] Account status error: ${error}`);
+        settingsStore.setAccountSwitching(false);
         break;
       }
 
       // 어떤 파일런이 보냈는지 확인 (relay가 from 필드 주입)
       const fromPylonId = message.from?.deviceId;
-      const settingsStore = useSettingsStore.getState();
 
-      if (fromPylonId !== undefined) {
+      if (current && fromPylonId !== undefined) {
         // 파일런별 account 비교: 해당 파일런의 이전 account와 비교
         const previousPylonAccount = settingsStore.getPylonAccount(fromPylonId);
 
@@ -379,7 +638,7 @@ export function routeMessage(message: RelayMessage): void {
         }
 
         settingsStore.setPylonAccount(fromPylonId, current);
-      } else {
+      } else if (current) {
         // from 정보 없는 경우 (레거시): 기존 동작 유지
         const previousAccount = settingsStore.currentAccount;
         if (previousAccount !== null && previousAccount !== current) {
@@ -393,8 +652,10 @@ export function routeMessage(message: RelayMessage): void {
       }
 
       settingsStore.setAccountStatus({
-        current,
+        current: current ?? null,
         subscriptionType,
+        // 계정 목록은 계정 관리 Pylon 것만 사용
+        ...((fromPylonId === undefined || fromPylonId === ACCOUNT_PYLON_ID) && { accounts }),
       });
       break;
     }
@@ -448,6 +709,11 @@ export function routeMessage(message: RelayMessage): void {
       // session_cancelled: B가 claim 시도했지만 세션이 취소됨 → 그냥 정리
       // claimed_by_other: A가 실행 중이었는데 B가 가져감 → 정리
       // 둘 다 clearWidgetSession으로 처리 (스피너/pending UI 제거)
+      // 단, widget_error로 종료 사유를 표시 중이면 유지
+      const closing = useConversationStore.getState().getState(conversationId)?.widgetSession;
+      if (closing?.status === 'error' && closing.sessionId === closePayload.sessionId) {
+        break;
+      }
       useConversationStore.getState().clearWidgetSession(conversationId);
       break;
     }
@@ -495,15 +761,17 @@ export function routeMessage(message: RelayMessage): void {
     }
 
     case 'widget_ready': {
-      // RelayMessage 형식: { type, payload: { conversationId, sessionId, toolUseId, preferredClientId } }
+      // RelayMessage 형식: { type, payload: { conversationId, sessionId, toolUseId, preferredClientId, view? } }
       // Pylon이 위젯 준비 완료를 broadcast
       // preferredClientId가 나라면 자동으로 widget_claim 전송
       // 아니면 pending UI 표시 (시작 버튼)
-      const { conversationId, sessionId, toolUseId, preferredClientId } = payload as {
+      // owner가 떠난 세션(재연결, Pylon 재시작)은 마지막 view와 함께 옴
+      const { conversationId, sessionId, toolUseId, preferredClientId, view } = payload as {
         conversationId: number;
         sessionId: string;
         toolUseId: string;
         preferredClientId: number | null;
+        view?: ViewNode | null;
       };
 
       if (!conversationId || !sessionId || !toolUseId) {
@@ -512,7 +780,7 @@ export function routeMessage(message: RelayMessage): void {
       }
 
       // 먼저 pending 상태로 저장 (UI에 시작 버튼 표시)
-      useConversationStore.getState().setWidgetPending(conversationId, toolUseId, sessionId);
+      useConversationStore.getState().setWidgetPending(conversationId, toolUseId, sessionId, view ?? null);
 
       // Auto-claim 조건 체크:
       // 1. 내가 preferredClient인지
@@ -538,6 +806,27 @@ export function routeMessage(message: RelayMessage): void {
       break;
     }
 
+    // === 위젯 카탈로그 ===
+    case MessageType.WIDGET_LIST_RESULT: {
+      const { deviceId, widgets } = payload as Partial<WidgetListResultPayload>;
+      const pylonId = deviceId ?? message.from?.deviceId;
+      if (pylonId === undefined) break;
+
+      useWidgetStore.getState().setCatalog(pylonId, widgets ?? []);
+      break;
+    }
+
+    case MessageType.WIDGET_LAUNCH_RESULT: {
+      const { conversationId, widget, success, error } = payload as Partial<WidgetLaunchResultPayload>;
+      if (conversationId === undefined || !widget) break;
+
+      useWidgetStore.getState().setLaunch(
+        conversationId,
+        success ? null : { status: 'error', widget, error: error ?? '위젯을 실행하지 못했습니다.' }
+      );
+      break;
+    }
+
     case 'widget_complete': {
       // RelayMessage 형식: { type, payload: { conversationId, sessionId, toolUseId, view, result } }
       // Pylon이 위젯 종료 페이지를 모든 클라이언트에 브로드캐스트
@@ -561,6 +850,18 @@ export function routeMessage(message: RelayMessage): void {
       break;
     }
 
+    case MessageType.WIDGET_ERROR: {
+      // Pylon이 위젯 비정상 종료(샌드박스 제한 위반 포함)를 모든 클라이언트에 브로드캐스트
+      const { conversationId, sessionId, toolUseId, error } = payload as Partial<WidgetErrorPayload>;
+      if (!conversationId || !sessionId || !toolUseId) {
+        console.warn('[MessageRouter] widget_error missing required fields');
+        break;
+      }
+
+      useConversationStore.getState().setWidgetError(conversationId, toolUseId, sessionId, error ?? '위젯이 비정상 종료되었습니다.');
+      break;
+    }
+
     // === 커맨드 변경 알림 (delta 적용) ===
     case MessageType.COMMAND_CHANGED: {
       const delta = payload as CommandDelta;
@@ -614,7 +915,7 @@ function handleClaudeEventForConversation(
 
     case 'textComplete': {
       // debugLog('TEXT', 'complete (flush)');
-      store.flushTextBuffer(conversationId);
+      store.flushTextBuffer(conversationId, event.messageId as string | undefined);
       break;
     }
 
@@ -767,6 +1068,19 @@ function handleClaudeEventForConversation(
       break;
     }
 
+    case 'accountFailover':
+    case 'budgetExceeded': {
+      // 계정 자동 전환/한도 초과 알림 (응답은 계속 진행 중일 수 있어 상태는 그대로)
+      store.addMessage(conversationId, {
+        id: generateId(),
+        role: 'system',
+        type: 'system',
+        content: event.message as string,
+        timestamp: Date.now(),
+      } as StoreMessage);
+      break;
+    }
+
     case 'aborted': {
       store.addMessage(conversationId, {
         id: generateId(),
@@ -7,11 +7,20 @@
  * - viewer 디바이스 타입으로 인증
  * - 히스토리 수신 및 실시간 이벤트 처리
  * - 연결 해제 시 자동 재연결
+ * - 링크 fragment에 공유 키(`#k=...`)가 있으면 Pylon과 주고받는 payload를 암호화
  */
 
 import { useEffect, useRef, useCallback } from 'react';
-import { MessageType } from '@estelle/core';
-import type { StoreMessage } from '@estelle/core';
+import {
+  MessageType,
+  SHARE_KEY_FRAGMENT,
+  decryptE2ePayload,
+  encryptE2ePayload,
+  importE2eSymmetricKey,
+  isE2eEncryptedPayload,
+  shareKeyId,
+} from '@estelle/core';
+import type { E2eKey, StoreMessage } from '@estelle/core';
 import { useShareStore } from '../stores/shareStore';
 import { RelayConfig } from '../utils/config';
 
@@ -54,6 +63,13 @@ interface RelayMessage {
   payload?: unknown;
 }
 
+/**
+ * URL fragment에서 공유 키 읽기
+ */
+function readShareKey(): string | null {
+  return new URLSearchParams(window.location.hash.replace(/^#/, '')).get(SHARE_KEY_FRAGMENT);
+}
+
 /**
  * Share 연결 훅
  *
@@ -95,6 +111,10 @@ export function useShareConnection(shareId: string): void {
   const intentionalCloseRef = useRef(false);
   const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const previousShareIdRef = useRef<string | null>(null);
+  /** 공유 키 (링크에 키가 없으면 null → 평문) */
+  const shareKeyRef = useRef<Promise<E2eKey> | null>(null);
+  /** 복호화 중인 메시지 (수신 순서 유지) */
+  const incomingRef = useRef<Promise<void> | null>(null);
 
   /**
    * 메시지 핸들러
@@ -113,13 +133,21 @@ export function useShareConnection(shareId: string): void {
             }
             // 인증 성공 시 히스토리 요청
             const ws = wsRef.current;
+            const shareKey = shareKeyRef.current;
             if (ws && ws.readyState === WebSocket.OPEN) {
-              ws.send(
-                JSON.stringify({
-                  type: 'share_history',
-                  payload: { shareId },
-                })
-              );
+              if (shareKey) {
+                void shareKey
+                  .then((key) => encryptE2ePayload(key, shareKeyId(shareId), 'share_history', { shareId }))
+                  .then((e2e) => ws.send(JSON.stringify({ type: 'share_history', payload: { e2e } })))
+                  .catch(() => setError('Invalid share key'));
+              } else {
+                ws.send(
+                  JSON.stringify({
+                    type: 'share_history',
+                    payload: { shareId },
+                  })
+                );
+              }
             }
           } else {
             setError(payload.error ?? 'Authentication failed');
@@ -211,12 +239,38 @@ export function useShareConnection(shareId: string): void {
       };
 
       ws.onmessage = (event) => {
+        let message: RelayMessage;
         try {
-          const message = JSON.parse(event.data) as RelayMessage;
-          handleMessage(message);
+          message = JSON.parse(event.data) as RelayMessage;
         } catch {
           // 잘못된 JSON 메시지는 무시
+          return;
         }
+
+        const shareKey = shareKeyRef.current;
+        if (!isE2eEncryptedPayload(message.payload) && !incomingRef.current) {
+          handleMessage(message);
+          return;
+        }
+
+        // 공유 키로 복호화 (키가 없거나 맞지 않으면 무시)
+        const incoming = (incomingRef.current ?? Promise.resolve())
+          .then(async () => {
+            if (!isE2eEncryptedPayload(message.payload)) {
+              handleMessage(message);
+              return;
+            }
+            if (!shareKey || message.payload.e2e.kid !== shareKeyId(shareId)) return;
+            const payload = await decryptE2ePayload(await shareKey, message.payload.e2e, message.type);
+            handleMessage({ ...message, payload });
+          })
+          .catch(() => {
+            // 복호화 실패 메시지는 무시
+          })
+          .finally(() => {
+            if (incomingRef.current === incoming) incomingRef.current = null;
+          });
+        incomingRef.current = incoming;
       };
     } catch {
       setError('Failed to create WebSocket connection');
@@ -259,6 +313,11 @@ export function useShareConnection(shareId: string): void {
     // 스토어에 shareId 설정
     setShareId(shareId);
 
+    // 공유 키 (fragment는 서버로 전송되지 않음)
+    const shareKey = readShareKey();
+    shareKeyRef.current = shareKey ? importE2eSymmetricKey(shareKey) : null;
+    shareKeyRef.current?.catch(() => setError('Invalid share key'));
+
     // 이미 연결된 경우 스킵
     if (wsRef.current) {
       return;
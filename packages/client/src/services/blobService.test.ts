@@ -77,6 +77,31 @@ describe('BlobTransferService', () => {
       expect(result).not.toBeNull();
       expect(typeof result).toBe('string');
     });
+
+    it('should send conversation_import context from uploadConversationImport', async () => {
+      // Arrange
+      service.setSender(mockSender);
+
+      // Act
+      const result = await service.uploadConversationImport({
+        bytes: new Uint8Array([123, 125]),
+        filename: 'session.jsonl',
+        targetDeviceId: 1,
+        workspaceId: 5,
+        name: 'Imported',
+      });
+
+      // Assert
+      expect(result).not.toBeNull();
+      const start = sentMessages.find((m) => m.type === 'blob_start') as
+        | { payload: { context: unknown } }
+        | undefined;
+      expect(start?.payload.context).toEqual({
+        type: 'conversation_import',
+        workspaceId: 5,
+        name: 'Imported',
+      });
+    });
   });
 
   describe('handleMessage - blob_start (download)', () => {
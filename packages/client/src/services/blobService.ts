@@ -219,6 +219,65 @@ export class BlobTransferService {
     const { bytes, filename, targetDeviceId, workspaceId, conversationId, message, mimeType } =
       params;
 
+    const safeFilename = sanitizeFilename(`${Date.now()}_${filename}`);
+
+    return this.startUpload({
+      bytes,
+      filename: safeFilename,
+      targetDeviceId,
+      mimeType,
+      context: {
+        type: 'image_upload',
+        workspaceId,
+        conversationId,
+        message,
+      },
+      // 캐시에 저장
+      beforeSend: () => imageCache.set(safeFilename, bytes),
+    });
+  }
+
+  /**
+   * 대화 가져오기 파일 업로드 시작
+   *
+   * 업로드가 끝나면 Pylon이 바로 가져오기를 수행하고
+   * conversation_import_result로 결과를 보냅니다.
+   */
+  async uploadConversationImport(params: {
+    bytes: Uint8Array;
+    filename: string;
+    targetDeviceId: number;
+    workspaceId: number;
+    name?: string;
+  }): Promise<string | null> {
+    const { bytes, filename, targetDeviceId, workspaceId, name } = params;
+
+    return this.startUpload({
+      bytes,
+      filename: sanitizeFilename(`${Date.now()}_${filename}`),
+      targetDeviceId,
+      mimeType: filename.endsWith('.json') ? 'application/json' : undefined,
+      context: {
+        type: 'conversation_import',
+        workspaceId,
+        name,
+      },
+    });
+  }
+
+  /**
+   * 업로드 공통 처리 (blob_start → 청크 → blob_end)
+   */
+  private async startUpload(params: {
+    bytes: Uint8Array;
+    filename: string;
+    targetDeviceId: number;
+    context: Record<string, unknown>;
+    mimeType?: string;
+    beforeSend?: () => void;
+  }): Promise<string | null> {
+    const { bytes, filename, targetDeviceId, context, mimeType, beforeSend } = params;
+
     if (!this.sender) {
       console.error('[BLOB] No sender configured');
       return null;
@@ -226,30 +285,22 @@ export class BlobTransferService {
 
     try {
       const mime = mimeType ?? 'application/octet-stream';
-      const timestamp = Date.now();
-      const safeFilename = sanitizeFilename(`${timestamp}_${filename}`);
 
-      console.log(`[BLOB] Starting upload: ${safeFilename} (${bytes.length} bytes)`);
+      console.log(`[BLOB] Starting upload: ${filename} (${bytes.length} bytes)`);
 
-      // 캐시에 저장
-      imageCache.set(safeFilename, bytes);
+      beforeSend?.();
 
       const blobId = generateUUID();
       const totalChunks = Math.ceil(bytes.length / CHUNK_SIZE);
 
       const transfer: BlobTransfer = {
         blobId,
-        filename: safeFilename,
+        filename,
         mimeType: mime,
         totalSize: bytes.length,
         chunkSize: CHUNK_SIZE,
         totalChunks,
-        context: {
-          type: 'image_upload',
-          workspaceId,
-          conversationId,
-          message,
-        },
+        context,
         isUpload: true,
         state: 'uploading',
         processedChunks: 0,
@@ -265,7 +316,7 @@ export class BlobTransferService {
         to: [targetDeviceId],
         payload: {
           blobId,
-          filename: safeFilename,
+          filename,
           mimeType: mime,
           totalSize: bytes.length,
           chunkSize: CHUNK_SIZE,
@@ -0,0 +1,177 @@
+/**
+ * @file e2eService.test.ts
+ * @description E2E 서비스 테스트 (페어링, 세션, 송수신 암호화)
+ *
+ * Pylon 쪽은 core 암호 함수로 흉내냅니다.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MessageType,
+  createE2eIdentity,
+  decryptE2ePayload,
+  deriveE2eSessionKey,
+  e2ePairingMac,
+  encryptE2ePayload,
+  exportE2ePublicKey,
+  generateE2eKeyPair,
+  loadE2eIdentity,
+  randomBase64Url,
+  type E2eKey,
+} from '@estelle/core';
+import { E2eService } from './e2eService';
+import { useE2eStore } from '../stores/e2eStore';
+import type { RelayMessage } from './relayService';
+
+const PYLON = 1;
+const OTHER_PYLON = 2;
+const SECRET = 'ABCDEFGHJKMNPQRS';
+const CODE = `${PYLON}-ABCD-EFGH-JKMN-PQRS`;
+
+describe('E2eService', () => {
+  let service: E2eService;
+  let sent: RelayMessage[];
+  let received: RelayMessage[];
+
+  const transport = { send: (data: unknown) => sent.push(data as RelayMessage) };
+  const fromPylon = (pylonId: number) => ({ deviceId: pylonId, deviceType: 'pylon' });
+
+  async function waitForSent(type: string): Promise<RelayMessage> {
+    await vi.waitFor(() => expect(sent.some((m) => m.type === type)).toBe(true));
+    return sent.find((m) => m.type === type)!;
+  }
+
+  /** Pylon 흉내: 페어링 응답 → 세션 응답 */
+  async function pairAndConnect(): Promise<{ key: E2eKey; kid: string }> {
+    const pylonIdentity = await createE2eIdentity();
+    const pylonKeys = await loadE2eIdentity(pylonIdentity);
+
+    service.pair(CODE);
+    const request = await waitForSent(MessageType.E2E_PAIR_REQUEST);
+    const clientPub = request.payload.publicKey as string;
+    service.receive({
+      type: MessageType.E2E_PAIR_RESULT,
+      payload: {
+        success: true,
+        publicKey: pylonIdentity.publicKey,
+        mac: await e2ePairingMac(SECRET, 'pair-result', pylonIdentity.publicKey, clientPub),
+      },
+      from: fromPylon(PYLON),
+    });
+
+    const hello = await waitForSent(MessageType.E2E_HELLO);
+    const ephemeral = await generateE2eKeyPair();
+    const nonce = randomBase64Url(16);
+    const kid = 'kid-1';
+    const key = await deriveE2eSessionKey({
+      staticKey: pylonKeys.privateKey,
+      ephemeralKey: ephemeral.privateKey,
+      peerStaticKey: clientPub,
+      peerEphemeralKey: hello.payload.ephemeralKey as string,
+      salt: (hello.payload.nonce as string) + nonce,
+    });
+    service.receive({
+      type: MessageType.E2E_HELLO_ACK,
+      payload: {
+        success: true,
+        kid,
+        ephemeralKey: await exportE2ePublicKey(ephemeral.publicKey),
+        nonce,
+        confirm: await encryptE2ePayload(key, kid, MessageType.E2E_HELLO_ACK, { nonce: hello.payload.nonce }),
+      } as unknown as Record<string, unknown>,
+      from: fromPylon(PYLON),
+    });
+    await vi.waitFor(() => expect(useE2eStore.getState().sessions[PYLON]).toBe('ready'));
+    sent = [];
+
+    return { key, kid };
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    useE2eStore.getState().reset();
+    service = new E2eService();
+    sent = [];
+    received = [];
+    service.attach(transport, (message) => received.push(message));
+    service.receive({ type: 'auth_result', payload: { success: true, pylonVersions: { [PYLON]: 'v1', [OTHER_PYLON]: 'v1' } } });
+    received = [];
+  });
+
+  it('should_pass_messages_through_synchronously_without_pairings', () => {
+    service.send({ type: 'workspace_list', payload: {}, broadcast: 'pylons' });
+    service.receive({ type: 'workspace_list_result', payload: { workspaces: [] }, from: fromPylon(PYLON) });
+
+    expect(sent).toEqual([{ type: 'workspace_list', payload: {}, broadcast: 'pylons' }]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('should_pair_and_encrypt_messages_to_paired_pylon', async () => {
+    const { key, kid } = await pairAndConnect();
+
+    expect(useE2eStore.getState().pairings[PYLON]).toBeDefined();
+    expect(useE2eStore.getState().pairing.state).toBe('success');
+
+    service.send({ type: 'claude_send', payload: { message: 'secret' }, to: [PYLON] });
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+    const envelope = (sent[0].payload as { e2e: { kid: string; iv: string; ct: string } }).e2e;
+    expect(envelope.kid).toBe(kid);
+    expect(JSON.stringify(sent[0])).not.toContain('secret');
+    expect(await decryptE2ePayload(key, envelope, 'claude_send')).toEqual({ message: 'secret' });
+  });
+
+  it('should_reject_pair_result_with_wrong_mac', async () => {
+    service.pair(CODE);
+    await waitForSent(MessageType.E2E_PAIR_REQUEST);
+    const attacker = await createE2eIdentity();
+
+    service.receive({
+      type: MessageType.E2E_PAIR_RESULT,
+      payload: { success: true, publicKey: attacker.publicKey, mac: 'forged' },
+      from: fromPylon(PYLON),
+    });
+
+    await vi.waitFor(() => expect(useE2eStore.getState().pairing.state).toBe('error'));
+    expect(useE2eStore.getState().pairings[PYLON]).toBeUndefined();
+  });
+
+  it('should_decrypt_messages_and_drop_plaintext_from_paired_pylon', async () => {
+    const { key, kid } = await pairAndConnect();
+    const listener = vi.fn();
+    service.addMessageListener(listener);
+
+    service.receive({ type: 'claude_event', payload: { forged: true }, from: fromPylon(PYLON) });
+    service.receive({ type: 'claude_event', payload: { text: 'hi' }, broadcast: 'clients', from: fromPylon(PYLON) });
+    service.receive({
+      type: 'claude_event',
+      payload: { e2e: await encryptE2ePayload(key, kid, 'claude_event', { text: 'hi' }) },
+      from: fromPylon(PYLON),
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].payload).toEqual({ text: 'hi' });
+    expect(listener).toHaveBeenCalledWith(received[0]);
+  });
+
+  it('should_split_pylon_broadcast_into_encrypted_and_plaintext_copies', async () => {
+    await pairAndConnect();
+
+    service.send({ type: 'workspace_list', payload: {}, broadcast: 'pylons' });
+    await vi.waitFor(() => expect(sent).toHaveLength(2));
+
+    expect(sent[0]).toEqual({ type: 'workspace_list', payload: {}, to: [OTHER_PYLON] });
+    expect(sent[1].to).toEqual([PYLON]);
+    expect(sent[1].payload).toHaveProperty('e2e');
+  });
+
+  it('should_queue_messages_until_session_is_ready', async () => {
+    useE2eStore.getState().addPairing({ pylonId: PYLON, publicKey: 'unused', fingerprint: 'f', pairedAt: 0 });
+
+    service.send({ type: 'claude_send', payload: { message: 'x' }, to: [PYLON] });
+    await waitForSent(MessageType.E2E_HELLO);
+
+    expect(sent.map((m) => m.type)).toEqual([MessageType.E2E_HELLO]);
+    expect(useE2eStore.getState().sessions[PYLON]).toBe('handshaking');
+  });
+});
@@ -0,0 +1,681 @@
+/**
+ * @file services/e2eService.ts
+ * @description 종단간 암호화(E2E) 서비스 - 페어링한 Pylon과의 payload 암호화
+ *
+ * WebSocket과 메시지 라우터 사이에서 동작합니다.
+ * - 송신: 페어링한 Pylon에게 보내는 payload를 세션 키로 암호화 (세션이 준비될 때까지 대기열에 보관)
+ * - 수신: 암호문을 복호화해 라우터에 전달하고, 페어링한 Pylon이 보낸 평문은 버림 (다운그레이드 방지)
+ * - 페어링: 코드를 입력하면 서로의 고정 공개키를 코드 비밀값의 HMAC으로 확인해 저장
+ *
+ * 페어링하지 않은 Pylon과는 기존처럼 평문으로 주고받습니다.
+ */
+
+import {
+  E2E_PLAINTEXT_TYPES,
+  MessageType,
+  PAIRING_LINK_FRAGMENT,
+  createE2eIdentity,
+  decryptE2ePayload,
+  deriveE2eSessionKey,
+  e2eFingerprint,
+  e2ePairingMac,
+  encryptE2ePayload,
+  exportE2ePublicKey,
+  generateE2eKeyPair,
+  isE2eEncryptedPayload,
+  loadE2eIdentity,
+  parsePairingCode,
+  randomBase64Url,
+  verifyE2ePairingMac,
+  type E2eAnnouncePayload,
+  type E2eErrorPayload,
+  type E2eHelloAckPayload,
+  type E2eIdentity,
+  type E2eKey,
+  type E2eKeyPair,
+  type E2ePairResultPayload,
+  type E2ePairingCodeResultPayload,
+} from '@estelle/core';
+import { useE2eStore } from '../stores/e2eStore';
+import type { RelayMessage } from './relayService';
+
+/** 세션 nonce 길이 (바이트) */
+const NONCE_LENGTH = 16;
+
+/** 세션 준비 전 Pylon별로 보관하는 메시지 수 */
+const MAX_QUEUED_MESSAGES = 200;
+
+/** localStorage 키 */
+const IDENTITY_STORAGE_KEY = 'estelle:e2eIdentity';
+
+/** WebSocket 전송 인터페이스 */
+export interface E2eTransport {
+  send: (data: unknown) => void;
+}
+
+/** 복호화된 메시지 수신 콜백 */
+export type E2eMessageListener = (message: RelayMessage) => void;
+
+/** Pylon 세션 */
+interface E2eSession {
+  kid: string;
+  key: E2eKey;
+}
+
+/** 진행 중인 세션 시작 */
+interface E2eHandshake {
+  nonce: string;
+  ephemeral?: E2eKeyPair;
+  /** 세션이 준비되면 보낼 메시지 */
+  queue: RelayMessage[];
+  /** 세션 준비 후 워크스페이스 목록을 다시 요청할지 (Pylon 재시작 등) */
+  resync: boolean;
+}
+
+/** 보낼 메시지 하나 (session이 있으면 암호화) */
+interface OutgoingPart {
+  message: RelayMessage;
+  session?: E2eSession;
+}
+
+/**
+ * E2E 서비스
+ */
+export class E2eService {
+  private transport: E2eTransport | null = null;
+  private onMessage: E2eMessageListener | null = null;
+  private listeners = new Set<E2eMessageListener>();
+
+  private identity: Promise<{ identity: E2eIdentity; keys: E2eKeyPair }> | null = null;
+
+  /** pylonId → 세션 */
+  private sessions = new Map<number, E2eSession>();
+  private handshakes = new Map<number, E2eHandshake>();
+
+  /** 연결된 Pylon (auth_result, device_status, Pylon 메시지로 파악) */
+  private onlinePylons = new Set<number>();
+
+  /** 응답 대기 중인 페어링 요청 */
+  private pendingPair: { pylonId: number; secret: string } | null = null;
+
+  private incoming: Promise<void> = Promise.resolve();
+  private pendingIncoming = 0;
+  private outgoing: Promise<void> = Promise.resolve();
+  private pendingOutgoing = 0;
+
+  // ============================================================================
+  // 연결
+  // ============================================================================
+
+  /**
+   * WebSocket 연결 시 호출
+   *
+   * @param transport - 원본 메시지 전송
+   * @param onMessage - 복호화된 메시지를 받을 라우터
+   */
+  attach(transport: E2eTransport, onMessage: E2eMessageListener): void {
+    this.transport = transport;
+    this.onMessage = onMessage;
+    this.resetSessions();
+  }
+
+  /**
+   * WebSocket 연결 해제 시 호출
+   */
+  detach(): void {
+    this.transport = null;
+    this.onMessage = null;
+    this.pendingPair = null;
+    this.onlinePylons.clear();
+    this.resetSessions();
+  }
+
+  /**
+   * 복호화된 메시지 리스너 등록 (요청-응답 대기용)
+   *
+   * @returns 해제 함수
+   */
+  addMessageListener(listener: E2eMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // 송신
+  // ============================================================================
+
+  /**
+   * 메시지 전송 (페어링한 Pylon 대상이면 암호화)
+   *
+   * @param transport - 전송에 사용할 연결 (기본: attach한 연결)
+   */
+  send(message: RelayMessage, transport: E2eTransport | null = this.transport): void {
+    if (!transport) return;
+
+    const parts = this.planOutgoing(message);
+
+    // 암호화할 것도, 앞에 밀린 것도 없으면 바로 전송
+    if (this.pendingOutgoing === 0 && parts.every((part) => !part.session)) {
+      for (const part of parts) {
+        transport.send(part.message);
+      }
+      return;
+    }
+
+    this.pendingOutgoing++;
+    this.outgoing = this.outgoing
+      .then(async () => {
+        for (const part of parts) {
+          transport.send(await this.seal(part));
+        }
+      })
+      .catch((err) => console.warn('[E2E] Failed to send:', message.type, err))
+      .finally(() => {
+        this.pendingOutgoing--;
+      });
+  }
+
+  /**
+   * 보낼 메시지를 대상별로 나누기
+   *
+   * 세션이 아직 없는 페어링 Pylon 대상 메시지는 대기열에 넣고 세션을 시작합니다.
+   */
+  private planOutgoing(message: RelayMessage): OutgoingPart[] {
+    const { pairings } = useE2eStore.getState();
+    if (E2E_PLAINTEXT_TYPES.includes(message.type) || Object.keys(pairings).length === 0) {
+      return [{ message }];
+    }
+
+    let targets: number[];
+    if (message.to) {
+      targets = message.to;
+    } else if (message.broadcast === 'pylons') {
+      targets = [...this.onlinePylons];
+    } else {
+      return [{ message }];
+    }
+
+    const { broadcast: _broadcast, ...rest } = message;
+    const parts: OutgoingPart[] = [];
+    const plainTargets: number[] = [];
+
+    for (const pylonId of targets) {
+      if (!pairings[pylonId]) {
+        plainTargets.push(pylonId);
+        continue;
+      }
+
+      const copy: RelayMessage = { ...rest, to: [pylonId] };
+      const session = this.sessions.get(pylonId);
+      if (session) {
+        parts.push({ message: copy, session });
+      } else {
+        this.enqueue(pylonId, copy);
+      }
+    }
+
+    if (plainTargets.length > 0) {
+      parts.unshift({ message: { ...rest, to: plainTargets } });
+    }
+    return parts;
+  }
+
+  private async seal(part: OutgoingPart): Promise<RelayMessage> {
+    if (!part.session) return part.message;
+
+    const { kid, key } = part.session;
+    const e2e = await encryptE2ePayload(key, kid, part.message.type, part.message.payload);
+    return { ...part.message, payload: { e2e } };
+  }
+
+  private enqueue(pylonId: number, message: RelayMessage): void {
+    if (useE2eStore.getState().sessions[pylonId] === 'unpaired') {
+      console.warn('[E2E] Dropped message to unpaired pylon:', message.type, pylonId);
+      return;
+    }
+
+    const handshake = this.handshakes.get(pylonId) ?? this.startHello(pylonId, false);
+    if (!handshake) return;
+
+    handshake.queue.push(message);
+    if (handshake.queue.length > MAX_QUEUED_MESSAGES) {
+      handshake.queue.shift();
+    }
+  }
+
+  // ============================================================================
+  // 수신
+  // ============================================================================
+
+  /**
+   * WebSocket에서 받은 메시지 처리
+   */
+  receive(message: RelayMessage): void {
+    // 암호화와 무관하고 앞에 밀린 것도 없으면 바로 전달 (페어링이 없을 때의 기존 동작)
+    if (this.pendingIncoming === 0 && !this.needsAsyncHandling(message)) {
+      this.handleSync(message);
+      return;
+    }
+
+    this.pendingIncoming++;
+    this.incoming = this.incoming
+      .then(() => this.handleAsync(message))
+      .catch((err) => console.warn('[E2E] Failed to handle message:', message.type, err))
+      .finally(() => {
+        this.pendingIncoming--;
+      });
+  }
+
+  private needsAsyncHandling(message: RelayMessage): boolean {
+    return (
+      message.from?.deviceType === 'pylon' &&
+      (E2E_PLAINTEXT_TYPES.includes(message.type) || isE2eEncryptedPayload(message.payload))
+    );
+  }
+
+  private deliver(message: RelayMessage): void {
+    this.onMessage?.(message);
+    for (const listener of [...this.listeners]) {
+      listener(message);
+    }
+  }
+
+  /**
+   * 평문 메시지 처리
+   */
+  private handleSync(message: RelayMessage): void {
+    const from = message.from;
+
+    if (!from) {
+      // 연결된 Pylon 목록을 먼저 반영해야 auth_result 직후의 'pylons' 요청이 대상을 찾음
+      this.handleRelayMessage(message);
+      this.deliver(message);
+      return;
+    }
+
+    if (from.deviceType === 'pylon') {
+      this.onlinePylons.add(from.deviceId);
+
+      // 페어링한 Pylon의 평문은 위조 가능성이 있으므로 버림
+      // (평문 broadcast는 페어링하지 않은 Client용 사본이므로 조용히 버림)
+      if (useE2eStore.getState().pairings[from.deviceId]) {
+        if (message.broadcast === undefined) {
+          console.warn('[E2E] Dropped plaintext from paired pylon:', message.type, from.deviceId);
+        }
+        return;
+      }
+    }
+
+    this.deliver(message);
+  }
+
+  /**
+   * 키 교환 / 암호문 처리
+   */
+  private async handleAsync(message: RelayMessage): Promise<void> {
+    if (!this.needsAsyncHandling(message)) {
+      this.handleSync(message);
+      return;
+    }
+
+    const pylonId = message.from!.deviceId;
+    this.onlinePylons.add(pylonId);
+
+    switch (message.type) {
+      case MessageType.E2E_PAIR_RESULT:
+        await this.handlePairResult(pylonId, message.payload as unknown as E2ePairResultPayload);
+        return;
+      case MessageType.E2E_HELLO_ACK:
+        await this.handleHelloAck(pylonId, message.payload as unknown as E2eHelloAckPayload);
+        return;
+      case MessageType.E2E_ANNOUNCE:
+        this.handleAnnounce(pylonId, message.payload as unknown as E2eAnnouncePayload);
+        return;
+      case MessageType.E2E_ERROR:
+        this.handleError(pylonId, message.payload as unknown as E2eErrorPayload);
+        return;
+    }
+
+    if (E2E_PLAINTEXT_TYPES.includes(message.type)) return;
+
+    const session = this.sessions.get(pylonId);
+    const envelope = (message.payload as { e2e: { kid: string; iv: string; ct: string } }).e2e;
+    if (!session || envelope.kid !== session.kid) {
+      console.warn('[E2E] Dropped message with unknown key:', message.type, pylonId);
+      return;
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = (await decryptE2ePayload(session.key, envelope, message.type)) as Record<string, unknown>;
+    } catch {
+      console.warn('[E2E] Failed to decrypt:', message.type, pylonId);
+      return;
+    }
+
+    if (message.type === MessageType.E2E_PAIRING_CODE_RESULT) {
+      const result = payload as unknown as E2ePairingCodeResultPayload;
+      useE2eStore.getState().setIssuedCode({ pylonId, code: result.code, expiresAt: result.expiresAt });
+      return;
+    }
+
+    this.deliver({ ...message, payload });
+  }
+
+  /**
+   * Relay 메시지 처리 (인증 완료, 연결된 Pylon 목록)
+   */
+  private handleRelayMessage(message: RelayMessage): void {
+    const payload = message.payload ?? {};
+
+    if (message.type === 'auth_result' && payload.success) {
+      const versions = payload.pylonVersions as Record<string, string> | undefined;
+      for (const pylonId of Object.keys(versions ?? {})) {
+        this.onlinePylons.add(Number(pylonId));
+      }
+
+      // 연결된 페어링 Pylon과 세션 시작 (초기 동기화 요청이 이미 대기열에 있을 수 있음)
+      for (const pylonId of this.pairedOnlinePylons()) {
+        if (!this.handshakes.has(pylonId)) this.startHello(pylonId, false);
+      }
+      return;
+    }
+
+    if (message.type === MessageType.DEVICE_STATUS && Array.isArray(payload.devices)) {
+      const online = new Set<number>();
+      for (const device of payload.devices as Array<{ deviceId?: unknown; deviceType?: unknown }>) {
+        if (device.deviceType === 'pylon' && typeof device.deviceId === 'number') {
+          online.add(device.deviceId);
+        }
+      }
+      for (const pylonId of this.onlinePylons) {
+        if (!online.has(pylonId)) this.dropSession(pylonId);
+      }
+      this.onlinePylons = online;
+    }
+  }
+
+  private pairedOnlinePylons(): number[] {
+    const { pairings } = useE2eStore.getState();
+    return [...this.onlinePylons].filter((pylonId) => pairings[pylonId]);
+  }
+
+  // ============================================================================
+  // 세션
+  // ============================================================================
+
+  /**
+   * E2E_HELLO 전송 (이전 세션은 폐기)
+   */
+  private startHello(pylonId: number, resync: boolean): E2eHandshake | null {
+    const pairing = useE2eStore.getState().pairings[pylonId];
+    const transport = this.transport;
+    if (!pairing || !transport) return null;
+
+    const previous = this.handshakes.get(pylonId);
+    const handshake: E2eHandshake = {
+      nonce: randomBase64Url(NONCE_LENGTH),
+      queue: previous?.queue ?? [],
+      resync: resync || (previous?.resync ?? false),
+    };
+    this.sessions.delete(pylonId);
+    this.handshakes.set(pylonId, handshake);
+    useE2eStore.getState().setSessionStatus(pylonId, 'handshaking');
+
+    void (async () => {
+      const { identity } = await this.loadIdentity();
+      handshake.ephemeral = await generateE2eKeyPair();
+      if (this.handshakes.get(pylonId) !== handshake) return;
+
+      transport.send({
+        type: MessageType.E2E_HELLO,
+        to: [pylonId],
+        payload: {
+          publicKey: identity.publicKey,
+          ephemeralKey: await exportE2ePublicKey(handshake.ephemeral.publicKey),
+          nonce: handshake.nonce,
+        },
+      });
+    })().catch((err) => console.warn('[E2E] Failed to start session:', pylonId, err));
+
+    return handshake;
+  }
+
+  private async handleHelloAck(pylonId: number, payload: E2eHelloAckPayload): Promise<void> {
+    const handshake = this.handshakes.get(pylonId);
+    const pairing = useE2eStore.getState().pairings[pylonId];
+    if (!handshake?.ephemeral || !pairing) return;
+
+    this.handshakes.delete(pylonId);
+    const { setSessionStatus } = useE2eStore.getState();
+
+    if (!payload.success || !payload.kid || !payload.ephemeralKey || !payload.nonce || !payload.confirm) {
+      setSessionStatus(pylonId, payload.error === 'unpaired' ? 'unpaired' : 'failed');
+      console.warn('[E2E] Session rejected:', pylonId, payload.error);
+      return;
+    }
+
+    let key: E2eKey;
+    try {
+      const { keys } = await this.loadIdentity();
+      key = await deriveE2eSessionKey({
+        staticKey: keys.privateKey,
+        ephemeralKey: handshake.ephemeral.privateKey,
+        peerStaticKey: pairing.publicKey,
+        peerEphemeralKey: payload.ephemeralKey,
+        salt: handshake.nonce + payload.nonce,
+      });
+
+      // 페어링한 Pylon만 같은 키를 만들 수 있음 → confirm이 풀리면 상대 확인 완료
+      const confirm = (await decryptE2ePayload(key, payload.confirm, MessageType.E2E_HELLO_ACK)) as {
+        nonce?: string;
+      };
+      if (confirm.nonce !== handshake.nonce) throw new Error('nonce mismatch');
+    } catch {
+      setSessionStatus(pylonId, 'failed');
+      console.warn('[E2E] Session key confirmation failed:', pylonId);
+      return;
+    }
+
+    this.sessions.set(pylonId, { kid: payload.kid, key });
+    setSessionStatus(pylonId, 'ready');
+
+    if (handshake.resync) {
+      handshake.queue.push({ type: MessageType.WORKSPACE_LIST, payload: {}, to: [pylonId] });
+    }
+    for (const queued of handshake.queue) {
+      this.send(queued);
+    }
+  }
+
+  /**
+   * Pylon이 Relay에 (다시) 연결됨 → 이전 세션은 무효
+   */
+  private handleAnnounce(pylonId: number, payload: E2eAnnouncePayload): void {
+    useE2eStore.getState().setMode(pylonId, payload.mode);
+    if (useE2eStore.getState().pairings[pylonId]) {
+      this.startHello(pylonId, true);
+    }
+  }
+
+  private handleError(pylonId: number, payload: E2eErrorPayload): void {
+    console.warn('[E2E] Error from pylon:', pylonId, payload.reason, payload.requestType);
+
+    if (payload.reason === 'required') {
+      useE2eStore.getState().setMode(pylonId, 'required');
+      return;
+    }
+
+    // 세션을 잃음 (Pylon 재시작 등) → 다시 시작
+    if (useE2eStore.getState().pairings[pylonId] && !this.handshakes.has(pylonId)) {
+      this.startHello(pylonId, true);
+    }
+  }
+
+  private dropSession(pylonId: number): void {
+    this.sessions.delete(pylonId);
+    this.handshakes.delete(pylonId);
+    useE2eStore.getState().setSessionStatus(pylonId, null);
+  }
+
+  private resetSessions(): void {
+    this.sessions.clear();
+    this.handshakes.clear();
+    useE2eStore.getState().clearSessions();
+  }
+
+  // ============================================================================
+  // 페어링
+  // ============================================================================
+
+  /**
+   * 페어링 코드로 Pylon과 페어링 시작 (결과는 useE2eStore.pairing)
+   *
+   * @returns 요청을 보냈으면 true
+   */
+  pair(input: string): boolean {
+    const { setPairing } = useE2eStore.getState();
+    const code = parsePairingCode(input);
+    if (!code) {
+      setPairing({ state: 'error', error: '페어링 코드 형식이 올바르지 않습니다.' });
+      return false;
+    }
+    const transport = this.transport;
+    if (!transport) {
+      setPairing({ state: 'error', pylonId: code.pylonId, error: '서버에 연결되어 있지 않습니다.' });
+      return false;
+    }
+
+    this.pendingPair = code;
+    setPairing({ state: 'pending', pylonId: code.pylonId });
+
+    void (async () => {
+      const { identity } = await this.loadIdentity();
+      transport.send({
+        type: MessageType.E2E_PAIR_REQUEST,
+        to: [code.pylonId],
+        payload: {
+          publicKey: identity.publicKey,
+          mac: await e2ePairingMac(code.secret, 'pair-request', identity.publicKey),
+        },
+      });
+    })().catch((err) => {
+      console.warn('[E2E] Failed to send pairing request:', err);
+      setPairing({ state: 'error', pylonId: code.pylonId, error: '페어링 요청을 보내지 못했습니다.' });
+    });
+
+    return true;
+  }
+
+  /**
+   * URL fragment의 페어링 링크(`#pair=<code>`)로 페어링
+   *
+   * @returns 페어링 링크였으면 true (호출자가 fragment를 지움)
+   */
+  pairFromLink(hash: string): boolean {
+    const code = new URLSearchParams(hash.replace(/^#/, '')).get(PAIRING_LINK_FRAGMENT);
+    if (!code) return false;
+    this.pair(code);
+    return true;
+  }
+
+  private async handlePairResult(pylonId: number, payload: E2ePairResultPayload): Promise<void> {
+    const pending = this.pendingPair;
+    if (!pending || pending.pylonId !== pylonId) return;
+    this.pendingPair = null;
+
+    const { setPairing, addPairing } = useE2eStore.getState();
+    if (!payload.success || !payload.publicKey || !payload.mac) {
+      setPairing({ state: 'error', pylonId, error: payload.error ?? '페어링에 실패했습니다.' });
+      return;
+    }
+
+    // 코드를 아는 Pylon만 만들 수 있는 MAC → Relay가 공개키를 바꿔치기하지 않았음을 확인
+    const { identity } = await this.loadIdentity();
+    const valid = await verifyE2ePairingMac(
+      pending.secret,
+      payload.mac,
+      'pair-result',
+      payload.publicKey,
+      identity.publicKey
+    );
+    if (!valid) {
+      setPairing({ state: 'error', pylonId, error: 'Pylon 공개키를 확인하지 못했습니다.' });
+      return;
+    }
+
+    addPairing({
+      pylonId,
+      publicKey: payload.publicKey,
+      fingerprint: await e2eFingerprint(payload.publicKey),
+      pairedAt: Date.now(),
+    });
+    setPairing({ state: 'success', pylonId });
+    this.startHello(pylonId, true);
+  }
+
+  /**
+   * 다른 기기용 페어링 코드 요청 (페어링한 Pylon에게 암호화해서 요청)
+   *
+   * @returns 요청을 보냈으면 true (결과는 useE2eStore.issuedCode)
+   */
+  requestPairingCode(pylonId: number): boolean {
+    if (!this.transport || !useE2eStore.getState().pairings[pylonId]) return false;
+
+    useE2eStore.getState().setIssuedCode(null);
+    this.send({ type: MessageType.E2E_PAIRING_CODE_REQUEST, payload: {}, to: [pylonId] });
+    return true;
+  }
+
+  /**
+   * 페어링 해제 (세션이 있으면 Pylon에서도 이 기기 키를 삭제)
+   */
+  unpair(pylonId: number): void {
+    if (this.sessions.has(pylonId)) {
+      this.send({ type: MessageType.E2E_REVOKE, payload: {}, to: [pylonId] });
+    }
+    this.dropSession(pylonId);
+    useE2eStore.getState().removePairing(pylonId);
+  }
+
+  // ============================================================================
+  // 고정 키
+  // ============================================================================
+
+  /**
+   * 이 기기의 고정 키 (없으면 생성해 localStorage에 저장)
+   */
+  private loadIdentity(): Promise<{ identity: E2eIdentity; keys: E2eKeyPair }> {
+    this.identity ??= (async () => {
+      const identity = readStoredIdentity() ?? (await createE2eIdentity());
+      try {
+        localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+      } catch {
+        // localStorage 실패 시 이번 실행 동안만 사용
+      }
+      return { identity, keys: await loadE2eIdentity(identity) };
+    })();
+    this.identity.catch(() => {
+      this.identity = null;
+    });
+    return this.identity;
+  }
+}
+
+function readStoredIdentity(): E2eIdentity | null {
+  try {
+    const stored = localStorage.getItem(IDENTITY_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<E2eIdentity>;
+    return typeof parsed.publicKey === 'string' && typeof parsed.privateKey === 'string'
+      ? { publicKey: parsed.publicKey, privateKey: parsed.privateKey }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 싱글톤 인스턴스 */
+export const e2eService = new E2eService();
@@ -30,6 +30,13 @@ export {
   type BlobSender,
 } from './blobService';
 
+export {
+  E2eService,
+  e2eService,
+  type E2eTransport,
+  type E2eMessageListener,
+} from './e2eService';
+
 export {
   setWebSocket,
   getWebSocket,
@@ -44,10 +51,15 @@ export {
   sendQuestionResponse,
   sendClaudeControl,
   setPermissionMode,
+  setAgentSettings,
   deleteConversation,
   renameConversation,
   sendBugReport,
   createShare,
+  requestConversationExport,
+  requestConversationImport,
+  requestConversationFork,
+  requestToolOutput,
 } from './relaySender';
 
 export {
@@ -0,0 +1,130 @@
+/**
+ * @file pushService.ts
+ * @description Web Push 구독 관리
+ *
+ * Service Worker의 PushManager로 구독하고, 구독 정보와 알림 설정을 Relay에 등록합니다.
+ * Relay의 VAPID 공개키는 인증 후 push_config로 받아 settingsStore에 보관합니다.
+ */
+
+import type { WebPushSubscription } from '@estelle/core';
+import { useSettingsStore } from '../stores/settingsStore';
+import { sendPushSubscribe, sendPushUnsubscribe } from './relaySender';
+
+/**
+ * 이 브라우저가 Web Push를 지원하는지
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * base64url 문자열 → Uint8Array (applicationServerKey 용)
+ */
+export function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+/**
+ * 구독이 주어진 VAPID 공개키로 만들어졌는지
+ */
+function isSameServerKey(subscription: PushSubscription, publicKey: string): boolean {
+  const key = subscription.options.applicationServerKey;
+  if (!key) return false;
+  const current = new Uint8Array(key);
+  const expected = urlBase64ToUint8Array(publicKey);
+  return current.length === expected.length && current.every((b, i) => b === expected[i]);
+}
+
+/**
+ * 현재 공개키로 구독 (기존 구독이 다른 키면 새로 구독)
+ */
+async function getOrCreateSubscription(publicKey: string): Promise<PushSubscription> {
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing && isSameServerKey(existing, publicKey)) {
+    return existing;
+  }
+  await existing?.unsubscribe();
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey) as BufferSource,
+  });
+}
+
+/**
+ * 푸시 알림 켜기
+ *
+ * 알림 권한을 요청하고 구독을 Relay에 등록합니다.
+ *
+ * @returns 성공 여부 (미지원, 권한 거부, 공개키 없음이면 false)
+ */
+export async function enablePushNotifications(): Promise<boolean> {
+  const { pushPublicKey } = useSettingsStore.getState();
+  if (!isPushSupported() || !pushPublicKey) return false;
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return false;
+
+  try {
+    const subscription = await getOrCreateSubscription(pushPublicKey);
+    useSettingsStore.getState().setNotificationsEnabled(true);
+    return sendPushSubscribe({
+      subscription: subscription.toJSON() as WebPushSubscription,
+      preferences: useSettingsStore.getState().notificationPreferences,
+    });
+  } catch (err) {
+    console.error('[Push] Failed to subscribe:', err);
+    return false;
+  }
+}
+
+/**
+ * 푸시 알림 끄기
+ *
+ * 브라우저 구독을 해제하고 Relay에서도 삭제합니다.
+ */
+export async function disablePushNotifications(): Promise<void> {
+  useSettingsStore.getState().setNotificationsEnabled(false);
+  if (!isPushSupported()) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) {
+      sendPushUnsubscribe(subscription.endpoint);
+      await subscription.unsubscribe();
+    }
+  } catch (err) {
+    console.error('[Push] Failed to unsubscribe:', err);
+  }
+}
+
+/**
+ * 현재 알림 설정으로 구독 재등록
+ *
+ * 연결 직후(push_config 수신)와 알림 설정 변경 시 호출합니다.
+ * 알림이 꺼져 있거나 권한이 없으면 아무것도 하지 않습니다.
+ */
+export async function syncPushSubscription(): Promise<void> {
+  const { pushPublicKey, notificationPreferences } = useSettingsStore.getState();
+  if (!isPushSupported() || !pushPublicKey || !notificationPreferences.enabled) return;
+  if (Notification.permission !== 'granted') return;
+
+  try {
+    const subscription = await getOrCreateSubscription(pushPublicKey);
+    sendPushSubscribe({
+      subscription: subscription.toJSON() as WebPushSubscription,
+      preferences: useSettingsStore.getState().notificationPreferences,
+    });
+  } catch (err) {
+    console.error('[Push] Failed to sync subscription:', err);
+  }
+}
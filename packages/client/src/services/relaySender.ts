@@ -17,8 +17,9 @@ import {
   decodeConversationIdFull,
   decodeWorkspaceId,
 } from '@estelle/core';
-import type { AccountType, ConversationId, WorkspaceId } from '@estelle/core';
+import type { AccountInput, AccountType, AgentType, AuditLogRequestPayload, ConversationAgentSettings, GitDiffScope, PushSubscribePayload, ScheduleInput, TaskBranchAction, TaskInput, TaskStatus, ConversationId, ConversationWorktreeAction, ExportFormat, PermissionRule, RetentionPolicy, WorkerPolicy, WorkspaceId } from '@estelle/core';
 import type { RelayMessage } from './relayService';
+import { e2eService } from './e2eService';
 
 // 전역 WebSocket 참조 (app/_layout.tsx에서 설정)
 let globalWs: WebSocket | null = null;
@@ -42,7 +43,9 @@ export function getWebSocket(): WebSocket | null {
  */
 export function sendMessage(message: RelayMessage): boolean {
   if (globalWs && globalWs.readyState === WebSocket.OPEN) {
-    globalWs.send(JSON.stringify(message));
+    const ws = globalWs;
+    // 페어링한 Pylon 대상이면 e2eService가 암호화해서 전송
+    e2eService.send(message, { send: (data) => ws.send(JSON.stringify(data)) });
     console.log('[Relay] Sent:', message.type, message.to ? `to:${message.to}` : message.broadcast ? `broadcast:${message.broadcast}` : '');
     return true;
   }
@@ -110,10 +113,21 @@ export function deleteWorkspace(workspaceId: number): boolean {
 /**
  * 워크스페이스 수정 요청
  * - workspaceId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - retentionPolicy: null이면 기본 보관 정책으로 되돌림
+ * - permissionRules: 전체 목록 교체 (빈 배열이면 규칙 삭제)
+ * - accountFailover: 사용량 한도 시 계정 자동 전환 여부
  */
 export function updateWorkspace(
   workspaceId: number,
-  updates: { name?: string; workingDir?: string }
+  updates: {
+    name?: string;
+    workingDir?: string;
+    retentionPolicy?: RetentionPolicy | null;
+    permissionRules?: PermissionRule[];
+    workerPolicy?: WorkerPolicy | null;
+    accountFailover?: boolean;
+    agentType?: AgentType | null;
+  }
 ): boolean {
   const pylonId = getPylonIdFromWorkspace(workspaceId);
   return sendMessage({
@@ -155,12 +169,24 @@ export function reorderConversations(workspaceId: number, conversationIds: numbe
 /**
  * 대화 생성 요청
  * - workspaceId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - useWorktree면 대화 전용 git worktree(브랜치)에서 작업
+ * - agentType을 생략하면 워크스페이스 기본 에이전트 사용
  */
-export function createConversation(workspaceId: number, name?: string): boolean {
+export function createConversation(
+  workspaceId: number,
+  name?: string,
+  useWorktree?: boolean,
+  agentType?: AgentType
+): boolean {
   const pylonId = getPylonIdFromWorkspace(workspaceId);
   return sendMessage({
     type: MessageType.CONVERSATION_CREATE,
-    payload: { workspaceId, name },
+    payload: {
+      workspaceId,
+      name,
+      ...(useWorktree ? { useWorktree } : {}),
+      ...(agentType ? { agentType } : {}),
+    },
     to: [pylonId],
   });
 }
@@ -198,15 +224,33 @@ export function requestMoreHistory(
   });
 }
 
+/**
+ * 전체 도구 출력 요청
+ * - conversationId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - 히스토리에서 미리보기로 잘린(truncated) 도구 메시지의 원문을 받음
+ */
+export function requestToolOutput(conversationId: number, messageId: string): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.TOOL_OUTPUT_REQUEST,
+    payload: { conversationId, messageId },
+    to: [pylonId],
+  });
+}
+
 /**
  * 대화 삭제 요청
  * - conversationId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - worktree 대화면 worktreeAction(기본 keep)대로 worktree를 정리
  */
-export function deleteConversation(conversationId: number): boolean {
+export function deleteConversation(
+  conversationId: number,
+  worktreeAction?: ConversationWorktreeAction
+): boolean {
   const pylonId = getPylonIdFromConversation(conversationId);
   return sendMessage({
     type: MessageType.CONVERSATION_DELETE,
-    payload: { conversationId },
+    payload: { conversationId, ...(worktreeAction ? { worktreeAction } : {}) },
     to: [pylonId],
   });
 }
@@ -252,11 +296,12 @@ export function sendClaudeMessage(
 /**
  * Claude 권한 응답
  * - conversationId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - allowAlways: 이번 요청 허용 + 같은 입력을 허용하는 워크스페이스 규칙 추가
  */
 export function sendPermissionResponse(
   conversationId: number,
   toolUseId: string,
-  decision: 'allow' | 'deny'
+  decision: 'allow' | 'deny' | 'allowAlways'
 ): boolean {
   const pylonId = getPylonIdFromConversation(conversationId);
   return sendMessage({
@@ -329,6 +374,25 @@ export function setPermissionMode(
   });
 }
 
+/**
+ * 대화 에이전트 설정 변경 (모델, 추론 강도, 한도)
+ * - settings가 null이면 에이전트 기본값으로 되돌림
+ */
+export function setAgentSettings(
+  conversationId: number,
+  settings: ConversationAgentSettings | null
+): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.CLAUDE_SET_AGENT_SETTINGS,
+    payload: {
+      conversationId,
+      settings,
+    },
+    to: [pylonId],
+  });
+}
+
 // ============================================================================
 // 폴더 관련
 // ============================================================================
@@ -429,9 +493,14 @@ export function sendBugReport(
 // 계정 관련
 // ============================================================================
 
+/**
+ * 계정 관리 Pylon (office Pylon 전용)
+ */
+export const ACCOUNT_PYLON_ID = 1;
+
 /**
  * 계정 전환 요청
- * - 모든 Pylon에게 전송
+ * - 계정 관리 Pylon에게 전송
  *
  * @description
  * Pylon에 계정 전환을 요청합니다.
@@ -441,7 +510,318 @@ export function requestAccountSwitch(account: AccountType): boolean {
   return sendMessage({
     type: MessageType.ACCOUNT_SWITCH,
     payload: { account },
-    to: [1],  // office Pylon 전용
+    to: [ACCOUNT_PYLON_ID],
+  });
+}
+
+/**
+ * 계정 추가/수정 요청 (accountId가 있으면 수정)
+ * - 결과는 ACCOUNT_STATUS 브로드캐스트로 수신
+ */
+export function saveAccount(account: AccountInput, accountId?: AccountType): boolean {
+  return sendMessage({
+    type: MessageType.ACCOUNT_SAVE,
+    payload: { account, ...(accountId !== undefined && { accountId }) },
+    to: [ACCOUNT_PYLON_ID],
+  });
+}
+
+/**
+ * 계정 삭제 요청 (인증 백업 파일은 지우지 않음)
+ */
+export function deleteAccount(accountId: AccountType): boolean {
+  return sendMessage({
+    type: MessageType.ACCOUNT_DELETE,
+    payload: { accountId },
+    to: [ACCOUNT_PYLON_ID],
+  });
+}
+
+// ============================================================================
+// 검색 관련
+// ============================================================================
+
+/**
+ * 메시지 전문 검색 요청
+ * - 모든 Pylon에게 요청 (각 Pylon이 자신의 워크스페이스 전체를 검색)
+ *
+ * @param query - 검색어
+ * @param limit - Pylon당 최대 결과 수
+ */
+export function searchMessages(query: string, limit?: number): boolean {
+  return sendMessage({
+    type: MessageType.SEARCH_REQUEST,
+    payload: { query, ...(limit !== undefined && { limit }) },
+    broadcast: 'pylons',
+  });
+}
+
+// ============================================================================
+// 감사 로그 관련
+// ============================================================================
+
+/**
+ * 감사 로그 조회 요청
+ * - 대화/워크스페이스로 범위를 정하면 해당 Pylon에만 전송
+ * - 범위가 없으면 모든 Pylon에게 요청
+ *
+ * @param request - 조회 조건 (requestId로 응답을 구분)
+ */
+export function requestAuditLog(request: AuditLogRequestPayload): boolean {
+  const pylonId = request.conversationId !== undefined
+    ? getPylonIdFromConversation(request.conversationId)
+    : request.workspaceId !== undefined
+      ? getPylonIdFromWorkspace(request.workspaceId)
+      : null;
+
+  return sendMessage({
+    type: MessageType.AUDIT_LOG_REQUEST,
+    payload: { ...request },
+    ...(pylonId !== null ? { to: [pylonId] } : { broadcast: 'pylons' }),
+  });
+}
+
+// ============================================================================
+// 태스크 워커 관련
+// ============================================================================
+
+/**
+ * 워커 시작 (동시 실행 수만큼 빈 슬롯을 채움)
+ * - workspaceId에서 pylonId 추출하여 해당 Pylon에만 전송
+ */
+export function startWorker(workspaceId: number): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.WORKER_START,
+    payload: { workspaceId },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 워커 중지 (taskId가 없으면 워크스페이스의 모든 워커)
+ */
+export function stopWorker(workspaceId: number, taskId?: string): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.WORKER_STOP,
+    payload: { workspaceId, ...(taskId !== undefined && { taskId }) },
+    to: [pylonId],
+  });
+}
+
+// ============================================================================
+// 태스크 관련
+// ============================================================================
+
+/**
+ * 태스크 목록 요청 (task_list_result로 워커 상태와 함께 응답)
+ */
+export function requestTaskList(workspaceId: number): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_LIST,
+    payload: { workspaceId },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 태스크 상세(본문 포함) 요청
+ */
+export function requestTask(workspaceId: number, taskId: string): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_GET,
+    payload: { workspaceId, taskId },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 태스크 생성
+ */
+export function createTask(workspaceId: number, input: TaskInput): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_CREATE,
+    payload: { workspaceId, ...input },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 태스크 수정 (바꿀 필드만)
+ */
+export function updateTask(workspaceId: number, taskId: string, fields: Partial<TaskInput>): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_UPDATE,
+    payload: { workspaceId, taskId, ...fields },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 태스크 상태 변경 (예: 실패한 태스크를 pending으로 되돌리기)
+ */
+export function setTaskStatus(workspaceId: number, taskId: string, status: TaskStatus): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_STATUS,
+    payload: { workspaceId, taskId, status },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 대기 중인 태스크 순서 변경 (앞에 있을수록 먼저 실행)
+ */
+export function reorderTasks(workspaceId: number, taskIds: string[]): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_REORDER,
+    payload: { workspaceId, taskIds },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 워커가 남긴 태스크 결과 브랜치 병합 또는 버리기
+ */
+export function resolveTaskBranch(workspaceId: number, taskId: string, action: TaskBranchAction): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.TASK_BRANCH,
+    payload: { workspaceId, taskId, action },
+    to: [pylonId],
+  });
+}
+
+// ============================================================================
+// git 관련
+// ============================================================================
+
+/**
+ * 대화 작업 디렉토리의 git 상태 요청 (대화 기준점 이후 변경 포함)
+ */
+export function requestGitStatus(conversationId: number): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_STATUS,
+    payload: { conversationId },
+    to: [pylonId],
+  });
+}
+
+/**
+ * git diff 요청 (path가 없으면 범위 전체)
+ */
+export function requestGitDiff(conversationId: number, scope: GitDiffScope, path?: string): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_DIFF,
+    payload: { conversationId, scope, ...(path && { path }) },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 최근 커밋 로그 요청
+ */
+export function requestGitLog(conversationId: number, limit?: number): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_LOG,
+    payload: { conversationId, ...(limit !== undefined && { limit }) },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 파일을 대화 기준점 상태로 되돌리기
+ */
+export function revertGitFile(conversationId: number, path: string): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_REVERT,
+    payload: { conversationId, path },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 변경 커밋 (paths가 없으면 모든 변경)
+ */
+export function commitGitChanges(conversationId: number, message: string, paths?: string[]): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_COMMIT,
+    payload: { conversationId, message, ...(paths && { paths }) },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 커밋 메시지 초안 요청 (Claude가 작성)
+ */
+export function requestCommitDraft(conversationId: number): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.GIT_COMMIT_DRAFT,
+    payload: { conversationId },
+    to: [pylonId],
+  });
+}
+
+// ============================================================================
+// 예약 실행 관련
+// ============================================================================
+
+/**
+ * 예약 목록 요청
+ * - 모든 Pylon에게 요청 (각 Pylon이 schedule_list_result로 응답)
+ */
+export function requestSchedules(): boolean {
+  return sendMessage({
+    type: MessageType.SCHEDULE_LIST,
+    payload: {},
+    broadcast: 'pylons',
+  });
+}
+
+/**
+ * 예약 저장 (scheduleId가 있으면 수정, 없으면 생성)
+ * - workspaceId에서 pylonId 추출하여 해당 Pylon에만 전송
+ */
+export function saveSchedule(schedule: ScheduleInput, scheduleId?: number): boolean {
+  const pylonId = getPylonIdFromWorkspace(schedule.workspaceId);
+  return sendMessage({
+    type: MessageType.SCHEDULE_SAVE,
+    payload: { schedule, ...(scheduleId !== undefined && { scheduleId }) },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 예약 삭제
+ */
+export function deleteSchedule(pylonId: number, scheduleId: number): boolean {
+  return sendMessage({
+    type: MessageType.SCHEDULE_DELETE,
+    payload: { scheduleId },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 예약 지금 실행
+ */
+export function runScheduleNow(pylonId: number, scheduleId: number): boolean {
+  return sendMessage({
+    type: MessageType.SCHEDULE_RUN,
+    payload: { scheduleId },
+    to: [pylonId],
   });
 }
 
@@ -462,6 +842,56 @@ export function createShare(conversationId: number): boolean {
   });
 }
 
+// ============================================================================
+// 내보내기/가져오기 관련
+// ============================================================================
+
+/**
+ * 대화 내보내기 요청
+ * - conversationId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - 결과(conversation_export_result)의 path로 Blob 다운로드
+ */
+export function requestConversationExport(conversationId: number, format: ExportFormat): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.CONVERSATION_EXPORT,
+    payload: { conversationId, format },
+    to: [pylonId],
+  });
+}
+
+/**
+ * 대화 가져오기 요청 (Pylon에 있는 파일)
+ * - workspaceId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - 클라이언트 파일은 blobService.uploadConversationImport 사용
+ */
+export function requestConversationImport(workspaceId: number, path: string, name?: string): boolean {
+  const pylonId = getPylonIdFromWorkspace(workspaceId);
+  return sendMessage({
+    type: MessageType.CONVERSATION_IMPORT,
+    payload: { workspaceId, path, ...(name && { name }) },
+    to: [pylonId],
+  });
+}
+
+// ============================================================================
+// 대화 분기 관련
+// ============================================================================
+
+/**
+ * 대화 분기 요청
+ * - conversationId에서 pylonId 추출하여 해당 Pylon에만 전송
+ * - messageId(assistant 텍스트 메시지)까지 복사한 새 대화 생성
+ */
+export function requestConversationFork(conversationId: number, messageId: string, name?: string): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.CONVERSATION_FORK,
+    payload: { conversationId, messageId, ...(name && { name }) },
+    to: [pylonId],
+  });
+}
+
 // ============================================================================
 // 슬래시 명령어 관련
 // ============================================================================
@@ -520,6 +950,42 @@ export function requestVersions(): boolean {
   });
 }
 
+// ============================================================================
+// 푸시 알림 관련
+// ============================================================================
+
+/**
+ * Web Push 설정(VAPID 공개키) 요청
+ * - Relay가 직접 응답 (push_config)
+ */
+export function requestPushConfig(): boolean {
+  return sendMessage({
+    type: MessageType.PUSH_CONFIG_REQUEST,
+    payload: {},
+  });
+}
+
+/**
+ * 푸시 구독 등록
+ * - 알림 설정이 바뀔 때마다 다시 보내 Relay의 설정을 갱신
+ */
+export function sendPushSubscribe(payload: PushSubscribePayload): boolean {
+  return sendMessage({
+    type: MessageType.PUSH_SUBSCRIBE,
+    payload: { ...payload },
+  });
+}
+
+/**
+ * 푸시 구독 해제
+ */
+export function sendPushUnsubscribe(endpoint: string): boolean {
+  return sendMessage({
+    type: MessageType.PUSH_UNSUBSCRIBE,
+    payload: { endpoint },
+  });
+}
+
 // ============================================================================
 // Widget 관련
 // ============================================================================
@@ -596,6 +1062,34 @@ export function sendWidgetCheck(
   });
 }
 
+/**
+ * 위젯 카탈로그 요청 (대화가 속한 Pylon)
+ */
+export function requestWidgetList(conversationId: number): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.WIDGET_LIST,
+    payload: {},
+    to: [pylonId],
+  });
+}
+
+/**
+ * 카탈로그 위젯 실행 (프롬프트 없이 대화에 위젯 카드 추가)
+ */
+export function launchWidget(
+  conversationId: number,
+  widget: string,
+  input: Record<string, unknown>
+): boolean {
+  const pylonId = getPylonIdFromConversation(conversationId);
+  return sendMessage({
+    type: MessageType.WIDGET_LAUNCH,
+    payload: { conversationId, widget, input },
+    to: [pylonId],
+  });
+}
+
 // ============================================================================
 // 커맨드 관련
 // ============================================================================
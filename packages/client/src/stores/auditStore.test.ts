@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AuditEntry } from '@estelle/core';
+import { useAuditStore } from './auditStore';
+
+function createEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: 1,
+    timestamp: 1000,
+    kind: 'permission',
+    conversationId: 100,
+    workspaceId: 1,
+    toolName: 'Bash',
+    toolInput: { command: 'pnpm test' },
+    decision: 'auto_allow',
+    ...overrides,
+  };
+}
+
+describe('auditStore', () => {
+  beforeEach(() => {
+    useAuditStore.getState().reset();
+  });
+
+  describe('조회 시작', () => {
+    it('should set request id and pending pylons', () => {
+      useAuditStore.getState().startQuery('req-1', [1, 2]);
+
+      const state = useAuditStore.getState();
+      expect(state.requestId).toBe('req-1');
+      expect(state.pendingPylonIds).toEqual([1, 2]);
+      expect(state.isLoading()).toBe(true);
+    });
+
+    it('should clear previous results', () => {
+      const store = useAuditStore.getState();
+      store.startQuery('req-1', [1]);
+      store.receiveResults(1, 'req-1', [createEntry()], true);
+      store.startQuery('req-2', [1]);
+
+      const state = useAuditStore.getState();
+      expect(state.getEntries()).toEqual([]);
+      expect(state.hasMore).toBe(false);
+    });
+  });
+
+  describe('결과 수신', () => {
+    it('should merge entries from pylons sorted by newest first', () => {
+      const store = useAuditStore.getState();
+      store.startQuery('req-1', [1, 2]);
+
+      store.receiveResults(1, 'req-1', [createEntry({ id: 1, timestamp: 100 })], false);
+      expect(useAuditStore.getState().isLoading()).toBe(true);
+
+      store.receiveResults(2, 'req-1', [createEntry({ id: 7, timestamp: 200 })], true);
+
+      const state = useAuditStore.getState();
+      expect(state.isLoading()).toBe(false);
+      expect(state.hasMore).toBe(true);
+      const entries = state.getEntries();
+      expect(entries.map((e) => e.id)).toEqual([7, 1]);
+      expect(entries[0].pylonId).toBe(2);
+    });
+
+    it('should ignore results for stale request', () => {
+      const store = useAuditStore.getState();
+      store.startQuery('req-2', [1]);
+
+      store.receiveResults(1, 'req-1', [createEntry()], false);
+
+      const state = useAuditStore.getState();
+      expect(state.getEntries()).toEqual([]);
+      expect(state.pendingPylonIds).toEqual([1]);
+    });
+
+    it('should keep error message', () => {
+      const store = useAuditStore.getState();
+      store.startQuery('req-1', [1]);
+
+      store.receiveResults(1, 'req-1', [], false, 'Audit log is not available');
+
+      expect(useAuditStore.getState().error).toBe('Audit log is not available');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import type { AuditEntry } from '@estelle/core';
+
+/**
+ * 감사 로그 항목 (응답한 Pylon 정보 포함)
+ */
+export interface AuditLogItem extends AuditEntry {
+  /** 항목을 보낸 Pylon ID */
+  pylonId: number;
+}
+
+/**
+ * 감사 로그 상태 인터페이스
+ */
+export interface AuditState {
+  /** 현재 조회 요청 ID */
+  requestId: string | null;
+
+  /** Pylon별 조회 결과 */
+  entriesByPylon: Record<number, AuditEntry[]>;
+
+  /** limit 때문에 잘린 결과가 있는지 */
+  hasMore: boolean;
+
+  /** 아직 응답하지 않은 Pylon ID 목록 */
+  pendingPylonIds: number[];
+
+  /** 에러 메시지 (Pylon 응답 에러) */
+  error: string | null;
+
+  // Actions
+  startQuery: (requestId: string, pylonIds: number[]) => void;
+  receiveResults: (
+    pylonId: number,
+    requestId: string,
+    entries: AuditEntry[],
+    hasMore: boolean,
+    error?: string
+  ) => void;
+  getEntries: () => AuditLogItem[];
+  isLoading: () => boolean;
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  requestId: null as string | null,
+  entriesByPylon: {} as Record<number, AuditEntry[]>,
+  hasMore: false,
+  pendingPylonIds: [] as number[],
+  error: null as string | null,
+};
+
+/**
+ * 감사 로그 스토어
+ *
+ * Pylon에 보낸 감사 로그 조회 요청의 결과를 모읍니다.
+ */
+export const useAuditStore = create<AuditState>((set, get) => ({
+  ...initialState,
+
+  startQuery: (requestId, pylonIds) => {
+    set({
+      requestId,
+      entriesByPylon: {},
+      hasMore: false,
+      pendingPylonIds: [...pylonIds],
+      error: null,
+    });
+  },
+
+  receiveResults: (pylonId, requestId, entries, hasMore, error) => {
+    // 이전 요청에 대한 늦은 응답은 무시
+    if (requestId !== get().requestId) return;
+
+    set((state) => ({
+      entriesByPylon: {
+        ...state.entriesByPylon,
+        [pylonId]: entries,
+      },
+      hasMore: state.hasMore || hasMore,
+      pendingPylonIds: state.pendingPylonIds.filter((id) => id !== pylonId),
+      error: error ?? state.error,
+    }));
+  },
+
+  getEntries: () => {
+    const { entriesByPylon } = get();
+    return Object.entries(entriesByPylon)
+      .flatMap(([pylonId, entries]) =>
+        entries.map((entry) => ({ ...entry, pylonId: Number(pylonId) }))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  isLoading: () => {
+    return get().pendingPylonIds.length > 0;
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
@@ -242,6 +242,19 @@ describe('conversationStore', () => {
       expect((messages?.[0] as any).content).toBe('New message 1');
     });
 
+    it('replaceMessage로 같은 ID의 메시지만 교체', () => {
+      const store = useConversationStore.getState();
+      store.setCurrentConversation(1001);
+
+      store.addMessage(1001, createUserMessage('msg-1', 'Preview'));
+      store.replaceMessage(1001, createUserMessage('msg-1', 'Full'));
+      store.replaceMessage(1001, createUserMessage('unknown', 'Ignored'));
+
+      const messages = store.getState(1001)?.messages;
+      expect(messages).toHaveLength(1);
+      expect((messages?.[0] as any).content).toBe('Full');
+    });
+
     it('clearMessages로 메시지 삭제', () => {
       const store = useConversationStore.getState();
       store.setCurrentConversation(1001);
@@ -303,6 +316,16 @@ describe('conversationStore', () => {
       expect((state?.messages[0] as any).content).toBe('Hello World');
     });
 
+    it('flushTextBuffer는 전달받은 메시지 ID를 사용', () => {
+      const store = useConversationStore.getState();
+      store.setCurrentConversation(1001);
+
+      store.appendTextBuffer(1001, 'Hello World');
+      store.flushTextBuffer(1001, 'msg_123_0');
+
+      expect(store.getState(1001)?.messages[0].id).toBe('msg_123_0');
+    });
+
     it('flushTextBuffer는 빈 버퍼일 때 아무것도 안 함', () => {
       const store = useConversationStore.getState();
       store.setCurrentConversation(1001);
@@ -1019,6 +1042,59 @@ describe('conversationStore - widget session management', () => {
     });
   });
 
+  describe('setWidgetPending', () => {
+    it('should_keep_last_view_until_claimed', () => {
+      // 다시 붙는 세션은 마지막 view와 함께 pending → claiming
+      const store = useConversationStore.getState();
+      const view = { type: 'text' as const, content: '생성 중 3/10' };
+
+      store.setWidgetPending(1001, 'tool-1', 'session-1', view);
+      store.setWidgetClaiming(1001);
+
+      expect(useConversationStore.getState().getState(1001)?.widgetSession).toEqual({
+        toolUseId: 'tool-1',
+        sessionId: 'session-1',
+        view,
+        status: 'claiming',
+      });
+    });
+
+    it('should_default_view_to_null', () => {
+      const store = useConversationStore.getState();
+
+      store.setWidgetPending(1001, 'tool-1', 'session-1');
+
+      expect(useConversationStore.getState().getState(1001)?.widgetSession?.view).toBeNull();
+    });
+  });
+
+  describe('setWidgetError', () => {
+    it('should_keep_last_view_of_the_same_session_with_reason', () => {
+      const store = useConversationStore.getState();
+      const view = { type: 'text' as const, content: '생성 중 3/10' };
+
+      store.setWidgetSession(1001, 'tool-1', 'session-1', view);
+      store.setWidgetError(1001, 'tool-1', 'session-1', '실행 시간 제한(30초)을 넘었습니다');
+
+      expect(useConversationStore.getState().getState(1001)?.widgetSession).toEqual({
+        toolUseId: 'tool-1',
+        sessionId: 'session-1',
+        view,
+        status: 'error',
+        error: '실행 시간 제한(30초)을 넘었습니다',
+      });
+    });
+
+    it('should_drop_view_of_other_sessions', () => {
+      const store = useConversationStore.getState();
+
+      store.setWidgetSession(1001, 'tool-1', 'session-1', { type: 'text' as const, content: 'old' });
+      store.setWidgetError(1001, 'tool-2', 'session-2', '실패');
+
+      expect(useConversationStore.getState().getState(1001)?.widgetSession?.view).toBeNull();
+    });
+  });
+
   describe('removeWidgetEventListener', () => {
     it('should_remove_specific_session_listeners', async () => {
       // Task 9: removeWidgetEventListener 메서드
@@ -134,6 +134,9 @@ export interface ConversationStoreState {
   /** 이전 메시지 추가 (페이징) */
   prependMessages: (conversationId: number, messages: StoreMessage[]) => void;
 
+  /** 같은 ID의 메시지 교체 (전체 도구 출력 로드) */
+  replaceMessage: (conversationId: number, message: StoreMessage) => void;
+
   /** 메시지 목록 비우기 */
   clearMessages: (conversationId: number) => void;
 
@@ -146,8 +149,8 @@ export interface ConversationStoreState {
   /** 텍스트 버퍼 비우기 */
   clearTextBuffer: (conversationId: number) => void;
 
-  /** 텍스트 버퍼를 메시지로 변환 */
-  flushTextBuffer: (conversationId: number) => void;
+  /** 텍스트 버퍼를 메시지로 변환 (messageId: Pylon에 저장된 메시지 ID) */
+  flushTextBuffer: (conversationId: number, messageId?: string) => void;
 
   // === Actions: pendingRequests ===
 
@@ -177,11 +180,12 @@ export interface ConversationStoreState {
     view: ViewNode
   ) => void;
 
-  /** Widget pending 상태 설정 (시작 버튼 표시용) */
+  /** Widget pending 상태 설정 (시작 버튼 표시용, 다시 붙는 세션이면 마지막 view 포함) */
   setWidgetPending: (
     conversationId: number,
     toolUseId: string,
-    sessionId: string
+    sessionId: string,
+    view?: ViewNode | null
   ) => void;
 
   /** Widget claiming 상태 설정 (스피너 표시용) */
@@ -195,6 +199,14 @@ export interface ConversationStoreState {
     view: ViewNode
   ) => void;
 
+  /** Widget error 상태 설정 (비정상 종료/제한 위반 사유 브로드캐스트) */
+  setWidgetError: (
+    conversationId: number,
+    toolUseId: string,
+    sessionId: string,
+    error: string
+  ) => void;
+
   /** Widget 세션 초기화 */
   clearWidgetSession: (conversationId: number) => void;
 
@@ -382,6 +394,18 @@ export const useConversationStore = create<ConversationStoreState>((set, get) =>
     set({ states });
   },
 
+  replaceMessage: (conversationId, message) => {
+    const states = new Map(get().states);
+    const state = states.get(conversationId);
+    if (!state || !state.messages.some((m) => m.id === message.id)) return;
+
+    states.set(conversationId, {
+      ...state,
+      messages: state.messages.map((m) => (m.id === message.id ? message : m)),
+    });
+    set({ states });
+  },
+
   clearMessages: (conversationId) => {
     const states = new Map(get().states);
     const state = getOrCreateState(states, conversationId);
@@ -415,7 +439,7 @@ export const useConversationStore = create<ConversationStoreState>((set, get) =>
     set({ states });
   },
 
-  flushTextBuffer: (conversationId) => {
+  flushTextBuffer: (conversationId, messageId) => {
     const states = new Map(get().states);
     const state = getOrCreateState(states, conversationId);
 
@@ -427,7 +451,7 @@ export const useConversationStore = create<ConversationStoreState>((set, get) =>
     }
 
     const newMessage: AssistantTextMessage = {
-      id: generateId(),
+      id: messageId ?? generateId(),
       role: 'assistant',
       type: 'text',
       content: state.textBuffer,
@@ -513,13 +537,13 @@ export const useConversationStore = create<ConversationStoreState>((set, get) =>
     set({ states });
   },
 
-  setWidgetPending: (conversationId, toolUseId, sessionId) => {
+  setWidgetPending: (conversationId, toolUseId, sessionId, view = null) => {
     const states = new Map(get().states);
     const state = getOrCreateState(states, conversationId);
 
     states.set(conversationId, {
       ...state,
-      widgetSession: { toolUseId, sessionId, view: null, status: 'pending' },
+      widgetSession: { toolUseId, sessionId, view, status: 'pending' },
     });
     set({ states });
   },
@@ -550,6 +574,19 @@ export const useConversationStore = create<ConversationStoreState>((set, get) =>
     set({ states });
   },
 
+  setWidgetError: (conversationId, toolUseId, sessionId, error) => {
+    const states = new Map(get().states);
+    const state = getOrCreateState(states, conversationId);
+
+    // 같은 세션이면 종료 직전 화면을 남겨 사유와 함께 표시
+    const view = state.widgetSession?.sessionId === sessionId ? state.widgetSession.view : null;
+    states.set(conversationId, {
+      ...state,
+      widgetSession: { toolUseId, sessionId, view, status: 'error', error },
+    });
+    set({ states });
+  },
+
   clearWidgetSession: (conversationId) => {
     const states = new Map(get().states);
     const state = getOrCreateState(states, conversationId);
@@ -0,0 +1,186 @@
+import { create } from 'zustand';
+import type { E2eMode } from '@estelle/core';
+
+/**
+ * 페어링한 Pylon
+ */
+export interface E2ePairing {
+  /** Pylon deviceId */
+  pylonId: number;
+  /** Pylon 고정 공개키 (base64url) */
+  publicKey: string;
+  /** 공개키 지문 (표시용) */
+  fingerprint: string;
+  /** 페어링 시각 (Unix timestamp, ms) */
+  pairedAt: number;
+}
+
+/**
+ * Pylon과의 암호화 세션 상태
+ *
+ * - handshaking: E2E_HELLO 응답 대기
+ * - ready: 암호화 중
+ * - unpaired: Pylon이 이 기기를 신뢰하지 않음 (다시 페어링 필요)
+ * - failed: 키 확인 실패
+ */
+export type E2eSessionStatus = 'handshaking' | 'ready' | 'unpaired' | 'failed';
+
+/**
+ * 페어링 진행 상태
+ */
+export interface E2ePairingProgress {
+  state: 'idle' | 'pending' | 'success' | 'error';
+  pylonId?: number;
+  error?: string;
+}
+
+/**
+ * 다른 기기용으로 발급받은 페어링 코드
+ */
+export interface E2eIssuedPairingCode {
+  pylonId: number;
+  code: string;
+  expiresAt: number;
+}
+
+/**
+ * E2E 상태 인터페이스
+ */
+export interface E2eState {
+  /** pylonId → 페어링 (localStorage에 저장) */
+  pairings: Record<number, E2ePairing>;
+
+  /** pylonId → 세션 상태 */
+  sessions: Record<number, E2eSessionStatus>;
+
+  /** pylonId → Pylon이 알린 E2E 모드 */
+  modes: Record<number, E2eMode>;
+
+  /** 페어링 진행 상태 */
+  pairing: E2ePairingProgress;
+
+  /** 마지막으로 발급받은 페어링 코드 */
+  issuedCode: E2eIssuedPairingCode | null;
+
+  // Actions
+  addPairing: (pairing: E2ePairing) => void;
+  removePairing: (pylonId: number) => void;
+  setSessionStatus: (pylonId: number, status: E2eSessionStatus | null) => void;
+  clearSessions: () => void;
+  setMode: (pylonId: number, mode: E2eMode) => void;
+  setPairing: (pairing: E2ePairingProgress) => void;
+  setIssuedCode: (code: E2eIssuedPairingCode | null) => void;
+  reset: () => void;
+}
+
+/**
+ * localStorage 키
+ */
+const PAIRINGS_STORAGE_KEY = 'estelle:e2ePairings';
+
+function isE2ePairing(value: unknown): value is E2ePairing {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.pylonId === 'number' &&
+    typeof obj.publicKey === 'string' &&
+    typeof obj.fingerprint === 'string' &&
+    typeof obj.pairedAt === 'number'
+  );
+}
+
+/**
+ * localStorage에서 페어링 목록을 로드
+ */
+function loadPairings(): Record<number, E2ePairing> {
+  try {
+    const stored = localStorage.getItem(PAIRINGS_STORAGE_KEY);
+    if (!stored) return {};
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return {};
+
+    const pairings: Record<number, E2ePairing> = {};
+    for (const item of parsed) {
+      if (isE2ePairing(item)) pairings[item.pylonId] = item;
+    }
+    return pairings;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * localStorage에 페어링 목록을 저장
+ *
+ * @returns 저장한 목록 (그대로 상태에 반영)
+ */
+function savePairings(pairings: Record<number, E2ePairing>): Record<number, E2ePairing> {
+  try {
+    localStorage.setItem(PAIRINGS_STORAGE_KEY, JSON.stringify(Object.values(pairings)));
+  } catch {
+    // localStorage 실패 시 무시
+  }
+  return pairings;
+}
+
+/**
+ * 초기 상태 (pairings는 생성 시 localStorage에서 로드)
+ */
+const initialState = {
+  sessions: {} as Record<number, E2eSessionStatus>,
+  modes: {} as Record<number, E2eMode>,
+  pairing: { state: 'idle' } as E2ePairingProgress,
+  issuedCode: null as E2eIssuedPairingCode | null,
+};
+
+/**
+ * E2E 상태 관리 스토어
+ *
+ * 종단간 암호화의 페어링/세션 상태를 관리합니다.
+ * 키와 암호 연산은 e2eService가 담당하고, 이 스토어는 UI 표시용 상태만 가집니다.
+ */
+export const useE2eStore = create<E2eState>((set) => ({
+  ...initialState,
+  pairings: loadPairings(),
+
+  addPairing: (pairing) => {
+    set((state) => ({
+      pairings: savePairings({ ...state.pairings, [pairing.pylonId]: pairing }),
+    }));
+  },
+
+  removePairing: (pylonId) => {
+    set((state) => {
+      const { [pylonId]: _removed, ...pairings } = state.pairings;
+      const { [pylonId]: _session, ...sessions } = state.sessions;
+      return { pairings: savePairings(pairings), sessions };
+    });
+  },
+
+  setSessionStatus: (pylonId, status) => {
+    set((state) => {
+      const { [pylonId]: _previous, ...sessions } = state.sessions;
+      return { sessions: status ? { ...sessions, [pylonId]: status } : sessions };
+    });
+  },
+
+  clearSessions: () => {
+    set({ sessions: {} });
+  },
+
+  setMode: (pylonId, mode) => {
+    set((state) => ({ modes: { ...state.modes, [pylonId]: mode } }));
+  },
+
+  setPairing: (pairing) => {
+    set({ pairing });
+  },
+
+  setIssuedCode: (issuedCode) => {
+    set({ issuedCode });
+  },
+
+  reset: () => {
+    set({ ...initialState, pairings: loadPairings() });
+  },
+}));
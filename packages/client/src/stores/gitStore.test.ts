@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { GitStatus } from '@estelle/core';
+import { useGitStore } from './gitStore';
+
+function createStatus(overrides: Partial<GitStatus> = {}): GitStatus {
+  return {
+    branch: 'main',
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    baseline: 'base-1',
+    changes: [],
+    ...overrides,
+  };
+}
+
+describe('gitStore', () => {
+  beforeEach(() => {
+    useGitStore.getState().reset();
+  });
+
+  it('should keep status per conversation and clear the error', () => {
+    const store = useGitStore.getState();
+    store.setError(132097, 'git 리포지터리가 아닙니다');
+
+    store.setStatus(132097, createStatus());
+
+    expect(useGitStore.getState().statusByConversation[132097]?.branch).toBe('main');
+    expect(useGitStore.getState().statusByConversation[132098]).toBeUndefined();
+    expect(useGitStore.getState().errorByConversation[132097]).toBeUndefined();
+  });
+
+  it('should drop the draft after a commit', () => {
+    const store = useGitStore.getState();
+    store.setDraft(132097, { status: 'ready', message: 'Fix bug' });
+
+    store.setLastCommit(132097, { hash: 'c1', shortHash: 'c1', author: 'me', date: '', subject: 'Fix bug' });
+
+    expect(useGitStore.getState().draftByConversation[132097]).toBeUndefined();
+    expect(useGitStore.getState().lastCommitByConversation[132097]?.subject).toBe('Fix bug');
+  });
+
+  it('should clear a draft with null', () => {
+    const store = useGitStore.getState();
+    store.setDraft(132097, { status: 'loading' });
+    store.setDraft(132097, null);
+
+    expect(useGitStore.getState().draftByConversation).toEqual({});
+  });
+});
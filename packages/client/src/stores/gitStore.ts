@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import type { GitDiffScope, GitLogEntry, GitStatus } from '@estelle/core';
+
+/**
+ * 보고 있는 diff
+ */
+export interface GitDiffView {
+  scope: GitDiffScope;
+  /** 파일 경로 (범위 전체면 null) */
+  path: string | null;
+  diff: string;
+  truncated: boolean;
+}
+
+/**
+ * 커밋 메시지 초안 상태
+ */
+export type CommitDraftState =
+  | { status: 'loading' }
+  | { status: 'ready'; message: string }
+  | { status: 'error'; error: string };
+
+/**
+ * git 상태 인터페이스
+ */
+export interface GitStoreState {
+  /** 대화별 git 상태 */
+  statusByConversation: Record<number, GitStatus>;
+
+  /** 대화별 마지막으로 받은 diff */
+  diffByConversation: Record<number, GitDiffView>;
+
+  /** 대화별 최근 커밋 */
+  logByConversation: Record<number, GitLogEntry[]>;
+
+  /** 대화별 커밋 메시지 초안 */
+  draftByConversation: Record<number, CommitDraftState>;
+
+  /** 대화별 마지막으로 만든 커밋 */
+  lastCommitByConversation: Record<number, GitLogEntry>;
+
+  /** 대화별 마지막 실패 메시지 */
+  errorByConversation: Record<number, string>;
+
+  // Actions
+  setStatus: (conversationId: number, status: GitStatus) => void;
+  setDiff: (conversationId: number, view: GitDiffView) => void;
+  setLog: (conversationId: number, entries: GitLogEntry[]) => void;
+  setDraft: (conversationId: number, draft: CommitDraftState | null) => void;
+  setLastCommit: (conversationId: number, commit: GitLogEntry) => void;
+  setError: (conversationId: number, error: string | null) => void;
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  statusByConversation: {} as Record<number, GitStatus>,
+  diffByConversation: {} as Record<number, GitDiffView>,
+  logByConversation: {} as Record<number, GitLogEntry[]>,
+  draftByConversation: {} as Record<number, CommitDraftState>,
+  lastCommitByConversation: {} as Record<number, GitLogEntry>,
+  errorByConversation: {} as Record<number, string>,
+};
+
+/**
+ * 키 하나를 빼거나 바꾼 레코드
+ */
+function withEntry<T>(record: Record<number, T>, key: number, value: T | null): Record<number, T> {
+  const next = { ...record };
+  if (value === null) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
+
+/**
+ * git 스토어
+ *
+ * Pylon이 보내는 대화별 git 상태/diff/로그와 커밋 메시지 초안을 모읍니다.
+ */
+export const useGitStore = create<GitStoreState>((set) => ({
+  ...initialState,
+
+  setStatus: (conversationId, status) => {
+    set((state) => ({
+      statusByConversation: { ...state.statusByConversation, [conversationId]: status },
+      errorByConversation: withEntry(state.errorByConversation, conversationId, null),
+    }));
+  },
+
+  setDiff: (conversationId, view) => {
+    set((state) => ({
+      diffByConversation: { ...state.diffByConversation, [conversationId]: view },
+    }));
+  },
+
+  setLog: (conversationId, entries) => {
+    set((state) => ({
+      logByConversation: { ...state.logByConversation, [conversationId]: entries },
+    }));
+  },
+
+  setDraft: (conversationId, draft) => {
+    set((state) => ({
+      draftByConversation: withEntry(state.draftByConversation, conversationId, draft),
+    }));
+  },
+
+  setLastCommit: (conversationId, commit) => {
+    set((state) => ({
+      lastCommitByConversation: { ...state.lastCommitByConversation, [conversationId]: commit },
+      // 커밋한 초안은 버림
+      draftByConversation: withEntry(state.draftByConversation, conversationId, null),
+    }));
+  },
+
+  setError: (conversationId, error) => {
+    set((state) => ({
+      errorByConversation: withEntry(state.errorByConversation, conversationId, error),
+    }));
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
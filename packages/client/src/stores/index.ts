@@ -83,3 +83,65 @@ export {
   useShareStore,
   type ShareState,
 } from './shareStore';
+
+// 메시지 검색 스토어
+export {
+  useSearchStore,
+  type SearchState,
+  type SearchResultItem,
+  type JumpTarget,
+} from './searchStore';
+
+// 감사 로그 스토어
+export {
+  useAuditStore,
+  type AuditState,
+  type AuditLogItem,
+} from './auditStore';
+
+// 예약 실행 스토어
+export {
+  useScheduleStore,
+  type ScheduleState,
+  type ScheduleItem,
+  type ScheduleRunReport,
+} from './scheduleStore';
+
+// 태스크 워커 스토어
+export {
+  useWorkerStore,
+  type WorkerStoreState,
+} from './workerStore';
+
+// 태스크 스토어
+export {
+  useTaskStore,
+  groupTasksByStatus,
+  isTaskBlocked,
+  type TaskStoreState,
+} from './taskStore';
+
+// git 스토어
+export {
+  useGitStore,
+  type GitStoreState,
+  type GitDiffView,
+  type CommitDraftState,
+} from './gitStore';
+
+// 위젯 카탈로그 스토어
+export {
+  useWidgetStore,
+  type WidgetStoreState,
+  type WidgetLaunchState,
+} from './widgetStore';
+
+// E2E 페어링/세션 스토어
+export {
+  useE2eStore,
+  type E2eState,
+  type E2ePairing,
+  type E2eSessionStatus,
+  type E2ePairingProgress,
+  type E2eIssuedPairingCode,
+} from './e2eStore';
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Schedule, ScheduleRun } from '@estelle/core';
+import { useScheduleStore } from './scheduleStore';
+
+function createSchedule(overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    scheduleId: 1,
+    workspaceId: 129,
+    name: '아침 점검',
+    cron: '0 9 * * *',
+    action: { kind: 'text', text: '빌드 확인' },
+    conversationMode: 'reuse',
+    enabled: true,
+    createdAt: 1000,
+    nextRunAt: 2000,
+    ...overrides,
+  };
+}
+
+function createRun(overrides: Partial<ScheduleRun> = {}): ScheduleRun {
+  return { scheduleId: 1, runAt: 1000, status: 'started', manual: false, ...overrides };
+}
+
+describe('scheduleStore', () => {
+  beforeEach(() => {
+    useScheduleStore.getState().reset();
+  });
+
+  describe('예약 목록', () => {
+    it('should replace schedules per pylon', () => {
+      const store = useScheduleStore.getState();
+      store.setSchedules(1, [createSchedule()]);
+      store.setSchedules(2, [createSchedule({ scheduleId: 5, workspaceId: 257 })]);
+      store.setSchedules(1, []);
+
+      expect(useScheduleStore.getState().getSchedules()).toEqual([
+        { ...createSchedule({ scheduleId: 5, workspaceId: 257 }), pylonId: 2 },
+      ]);
+    });
+  });
+
+  describe('저장 결과', () => {
+    it('should keep error until success or clear', () => {
+      const store = useScheduleStore.getState();
+      store.receiveSaveResult(false, 'Invalid schedule');
+      expect(useScheduleStore.getState().saveError).toBe('Invalid schedule');
+
+      store.receiveSaveResult(true);
+      expect(useScheduleStore.getState().saveError).toBeNull();
+
+      store.receiveSaveResult(false);
+      expect(useScheduleStore.getState().saveError).toEqual(expect.any(String));
+      store.clearSaveError();
+      expect(useScheduleStore.getState().saveError).toBeNull();
+    });
+  });
+
+  describe('실행 보고', () => {
+    it('should keep newest reports first with limit', () => {
+      const store = useScheduleStore.getState();
+      for (let i = 0; i < 25; i++) {
+        store.addRun({ pylonId: 1, name: '아침 점검', workspaceId: 129, run: createRun({ runAt: i }) });
+      }
+
+      const { recentRuns } = useScheduleStore.getState();
+      expect(recentRuns).toHaveLength(20);
+      expect(recentRuns[0].run.runAt).toBe(24);
+    });
+  });
+});
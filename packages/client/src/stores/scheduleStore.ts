@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import type { Schedule, ScheduleRun } from '@estelle/core';
+
+/** 보관하는 최근 실행 보고 수 */
+const MAX_RECENT_RUNS = 20;
+
+/**
+ * 예약 (보낸 Pylon 정보 포함)
+ */
+export interface ScheduleItem extends Schedule {
+  /** 예약을 가진 Pylon ID */
+  pylonId: number;
+}
+
+/**
+ * 예약 실행 보고
+ */
+export interface ScheduleRunReport {
+  pylonId: number;
+  /** 예약 이름 */
+  name: string;
+  workspaceId: number;
+  run: ScheduleRun;
+}
+
+/**
+ * 예약 상태 인터페이스
+ */
+export interface ScheduleState {
+  /** Pylon별 예약 목록 */
+  schedulesByPylon: Record<number, Schedule[]>;
+
+  /** 최근 실행 보고 (최신순) */
+  recentRuns: ScheduleRunReport[];
+
+  /** 마지막 저장 요청의 에러 메시지 */
+  saveError: string | null;
+
+  // Actions
+  setSchedules: (pylonId: number, schedules: Schedule[]) => void;
+  receiveSaveResult: (success: boolean, error?: string) => void;
+  addRun: (report: ScheduleRunReport) => void;
+  clearSaveError: () => void;
+  getSchedules: () => ScheduleItem[];
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  schedulesByPylon: {} as Record<number, Schedule[]>,
+  recentRuns: [] as ScheduleRunReport[],
+  saveError: null as string | null,
+};
+
+/**
+ * 예약 스토어
+ *
+ * Pylon이 보내는 예약 목록과 실행 보고를 모읍니다.
+ */
+export const useScheduleStore = create<ScheduleState>((set, get) => ({
+  ...initialState,
+
+  setSchedules: (pylonId, schedules) => {
+    set((state) => ({
+      schedulesByPylon: {
+        ...state.schedulesByPylon,
+        [pylonId]: schedules,
+      },
+    }));
+  },
+
+  receiveSaveResult: (success, error) => {
+    set({ saveError: success ? null : error ?? '예약을 저장하지 못했습니다' });
+  },
+
+  addRun: (report) => {
+    set((state) => ({
+      recentRuns: [report, ...state.recentRuns].slice(0, MAX_RECENT_RUNS),
+    }));
+  },
+
+  clearSaveError: () => {
+    set({ saveError: null });
+  },
+
+  getSchedules: () => {
+    const { schedulesByPylon } = get();
+    return Object.entries(schedulesByPylon).flatMap(([pylonId, schedules]) =>
+      schedules.map((schedule) => ({ ...schedule, pylonId: Number(pylonId) }))
+    );
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SearchHit } from '@estelle/core';
+import { useSearchStore } from './searchStore';
+
+function createHit(overrides: Partial<SearchHit> = {}): SearchHit {
+  return {
+    workspaceId: 1,
+    workspaceName: 'Workspace',
+    conversationId: 100,
+    conversationName: 'Conversation',
+    messageId: 'msg_1',
+    role: 'user',
+    messageType: 'text',
+    snippet: '[[keyword]]',
+    timestamp: 1000,
+    index: 0,
+    ...overrides,
+  };
+}
+
+describe('searchStore', () => {
+  beforeEach(() => {
+    useSearchStore.getState().reset();
+  });
+
+  describe('검색 시작', () => {
+    it('should set query and pending pylons', () => {
+      useSearchStore.getState().startSearch('keyword', [1, 2]);
+
+      const state = useSearchStore.getState();
+      expect(state.query).toBe('keyword');
+      expect(state.pendingPylonIds).toEqual([1, 2]);
+      expect(state.isSearching()).toBe(true);
+    });
+
+    it('should clear previous results', () => {
+      const store = useSearchStore.getState();
+      store.startSearch('old', [1]);
+      store.receiveResults(1, 'old', [createHit()]);
+
+      store.startSearch('new', [1]);
+
+      expect(useSearchStore.getState().getResults()).toEqual([]);
+    });
+  });
+
+  describe('결과 수신', () => {
+    it('should merge results from pylons sorted by newest first', () => {
+      const store = useSearchStore.getState();
+      store.startSearch('keyword', [1, 2]);
+
+      store.receiveResults(1, 'keyword', [createHit({ messageId: 'a', timestamp: 100 })]);
+      expect(useSearchStore.getState().isSearching()).toBe(true);
+
+      store.receiveResults(2, 'keyword', [createHit({ messageId: 'b', timestamp: 200 })]);
+
+      const state = useSearchStore.getState();
+      expect(state.isSearching()).toBe(false);
+      const results = state.getResults();
+      expect(results.map((r) => r.messageId)).toEqual(['b', 'a']);
+      expect(results[0].pylonId).toBe(2);
+    });
+
+    it('should ignore results for stale query', () => {
+      const store = useSearchStore.getState();
+      store.startSearch('new', [1]);
+
+      store.receiveResults(1, 'old', [createHit()]);
+
+      const state = useSearchStore.getState();
+      expect(state.getResults()).toEqual([]);
+      expect(state.pendingPylonIds).toEqual([1]);
+    });
+
+    it('should keep error message', () => {
+      const store = useSearchStore.getState();
+      store.startSearch('keyword', [1]);
+
+      store.receiveResults(1, 'keyword', [], 'fts5: syntax error');
+
+      expect(useSearchStore.getState().error).toBe('fts5: syntax error');
+    });
+  });
+
+  describe('메시지 이동', () => {
+    it('should set and clear jump target', () => {
+      const store = useSearchStore.getState();
+      store.setJumpTarget({ conversationId: 100, messageId: 'msg_1', index: 5 });
+
+      expect(useSearchStore.getState().jumpTarget).toEqual({
+        conversationId: 100,
+        messageId: 'msg_1',
+        index: 5,
+      });
+
+      store.clearJumpTarget();
+      expect(useSearchStore.getState().jumpTarget).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import type { SearchHit } from '@estelle/core';
+
+/**
+ * 검색 결과 항목 (응답한 Pylon 정보 포함)
+ */
+export interface SearchResultItem extends SearchHit {
+  /** 결과를 보낸 Pylon ID */
+  pylonId: number;
+}
+
+/**
+ * 메시지 이동 대상
+ *
+ * 검색 결과를 선택하면 설정되며, MessageList가 히스토리 페이징으로
+ * 해당 메시지를 로드한 뒤 스크롤하고 해제합니다.
+ */
+export interface JumpTarget {
+  conversationId: number;
+  messageId: string;
+  /** 대화 내 메시지 인덱스 (시간순) */
+  index: number;
+}
+
+/**
+ * 검색 상태 인터페이스
+ */
+export interface SearchState {
+  /** 현재 검색어 */
+  query: string;
+
+  /** Pylon별 검색 결과 */
+  resultsByPylon: Record<number, SearchHit[]>;
+
+  /** 아직 응답하지 않은 Pylon ID 목록 */
+  pendingPylonIds: number[];
+
+  /** 에러 메시지 (Pylon 응답 에러) */
+  error: string | null;
+
+  /** 메시지 이동 대상 */
+  jumpTarget: JumpTarget | null;
+
+  // Actions
+  startSearch: (query: string, pylonIds: number[]) => void;
+  receiveResults: (pylonId: number, query: string, results: SearchHit[], error?: string) => void;
+  getResults: () => SearchResultItem[];
+  isSearching: () => boolean;
+  setJumpTarget: (target: JumpTarget) => void;
+  clearJumpTarget: () => void;
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  query: '',
+  resultsByPylon: {} as Record<number, SearchHit[]>,
+  pendingPylonIds: [] as number[],
+  error: null as string | null,
+  jumpTarget: null as JumpTarget | null,
+};
+
+/**
+ * 메시지 검색 스토어
+ *
+ * 모든 Pylon에 보낸 검색 요청의 결과를 모으고,
+ * 검색 결과에서 선택한 메시지로의 이동 대상을 관리합니다.
+ */
+export const useSearchStore = create<SearchState>((set, get) => ({
+  ...initialState,
+
+  startSearch: (query, pylonIds) => {
+    set({
+      query,
+      resultsByPylon: {},
+      pendingPylonIds: [...pylonIds],
+      error: null,
+    });
+  },
+
+  receiveResults: (pylonId, query, results, error) => {
+    // 이전 검색어에 대한 늦은 응답은 무시
+    if (query !== get().query) return;
+
+    set((state) => ({
+      resultsByPylon: {
+        ...state.resultsByPylon,
+        [pylonId]: results,
+      },
+      pendingPylonIds: state.pendingPylonIds.filter((id) => id !== pylonId),
+      error: error ?? state.error,
+    }));
+  },
+
+  getResults: () => {
+    const { resultsByPylon } = get();
+    return Object.entries(resultsByPylon)
+      .flatMap(([pylonId, hits]) =>
+        hits.map((hit) => ({ ...hit, pylonId: Number(pylonId) }))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  isSearching: () => {
+    return get().pendingPylonIds.length > 0;
+  },
+
+  setJumpTarget: (target) => {
+    set({ jumpTarget: target });
+  },
+
+  clearJumpTarget: () => {
+    set({ jumpTarget: null });
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
@@ -37,6 +37,18 @@ describe('settingsStore', () => {
 
       expect(useSettingsStore.getState().isAccountSwitching).toBe(false);
     });
+
+    it('should keep account list when status has no accounts', () => {
+      const accounts = [
+        { id: 'work', name: 'Work', icon: '🏢', credentialFile: 'work.json', workspaceIds: [1], available: true },
+      ];
+      useSettingsStore.getState().setAccountStatus({ current: 'work', accounts });
+      useSettingsStore.getState().setAccountStatus({ current: null, subscriptionType: 'max' });
+
+      const state = useSettingsStore.getState();
+      expect(state.accounts).toEqual(accounts);
+      expect(state.currentAccount).toBeNull();
+    });
   });
 
   describe('setAccountSwitching', () => {
@@ -49,6 +61,59 @@ describe('settingsStore', () => {
     });
   });
 
+  describe('알림 설정', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      useSettingsStore.getState().reset();
+    });
+
+    it('should default to disabled with all events on', () => {
+      const { notificationPreferences } = useSettingsStore.getState();
+      expect(notificationPreferences.enabled).toBe(false);
+      expect(Object.values(notificationPreferences.events).every(Boolean)).toBe(true);
+    });
+
+    it('should update events and persist to localStorage', () => {
+      useSettingsStore.getState().setNotificationsEnabled(true);
+      useSettingsStore.getState().setNotificationEvent('finished', false);
+
+      const stored = JSON.parse(localStorage.getItem('estelle:notificationPreferences')!);
+      expect(stored.enabled).toBe(true);
+      expect(stored.events.finished).toBe(false);
+      expect(stored.events.permission).toBe(true);
+    });
+
+    it('should toggle muted pylons and workspaces', () => {
+      const store = useSettingsStore.getState();
+      store.toggleNotificationPylon(1);
+      store.toggleNotificationWorkspace(129);
+      store.toggleNotificationWorkspace(130);
+      store.toggleNotificationWorkspace(129);
+
+      const { notificationPreferences } = useSettingsStore.getState();
+      expect(notificationPreferences.mutedPylonIds).toEqual([1]);
+      expect(notificationPreferences.mutedWorkspaceIds).toEqual([130]);
+    });
+
+    it('should keep stored preferences across reset', () => {
+      useSettingsStore.getState().setNotificationsEnabled(true);
+      useSettingsStore.getState().setPushPublicKey('BKey');
+
+      useSettingsStore.getState().reset();
+
+      expect(useSettingsStore.getState().notificationPreferences.enabled).toBe(true);
+      expect(useSettingsStore.getState().pushPublicKey).toBeNull();
+    });
+
+    it('should ignore invalid stored preferences', () => {
+      localStorage.setItem('estelle:notificationPreferences', JSON.stringify({ enabled: 'yes' }));
+
+      useSettingsStore.getState().reset();
+
+      expect(useSettingsStore.getState().notificationPreferences.enabled).toBe(false);
+    });
+  });
+
   describe('reset', () => {
     it('should reset all state to initial values', () => {
       // 상태 변경
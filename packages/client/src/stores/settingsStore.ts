@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { AccountType, AccountStatusPayload } from '@estelle/core';
+import { DEFAULT_NOTIFICATION_PREFERENCES, isNotificationPreferences } from '@estelle/core';
+import type { AccountListItem, AccountType, AccountStatusPayload, NotificationPreferences, PushEventKind } from '@estelle/core';
 import { CLIENT_VERSION } from '../version';
 
 /**
@@ -12,6 +13,9 @@ export interface SettingsState {
   /** 계정 구독 타입 (team, max 등) */
   subscriptionType: string | null;
 
+  /** 등록된 계정 목록 (계정 관리 Pylon 기준) */
+  accounts: AccountListItem[];
+
   /** 파일런별 계정 정보 */
   accountByPylon: Map<number, AccountType>;
 
@@ -30,6 +34,12 @@ export interface SettingsState {
   /** 채팅 화면이 보이는지 (모바일에서 대화 탭인지) */
   isChatVisible: boolean;
 
+  /** Relay의 VAPID 공개키 (null이면 Relay가 푸시 미지원) */
+  pushPublicKey: string | null;
+
+  /** 이 디바이스의 푸시 알림 설정 (localStorage에 저장) */
+  notificationPreferences: NotificationPreferences;
+
   // Actions
   setAccountStatus: (status: AccountStatusPayload) => void;
   /** 파일런별 계정 설정 (account 변경 감지는 호출자가 처리) */
@@ -40,35 +50,87 @@ export interface SettingsState {
   setRelayVersion: (version: string) => void;
   setPylonVersions: (versions: Record<number, string>) => void;
   setChatVisible: (visible: boolean) => void;
+  setPushPublicKey: (publicKey: string | null) => void;
+  setNotificationsEnabled: (enabled: boolean) => void;
+  setNotificationEvent: (kind: PushEventKind, enabled: boolean) => void;
+  /** Pylon 알림 끄기/켜기 */
+  toggleNotificationPylon: (pylonId: number) => void;
+  /** 워크스페이스 알림 끄기/켜기 */
+  toggleNotificationWorkspace: (workspaceId: number) => void;
   reset: () => void;
 }
 
+/**
+ * localStorage 키
+ */
+const NOTIFICATION_STORAGE_KEY = 'estelle:notificationPreferences';
+
+/**
+ * localStorage에서 알림 설정을 로드
+ */
+function loadNotificationPreferences(): NotificationPreferences {
+  try {
+    const stored = localStorage.getItem(NOTIFICATION_STORAGE_KEY);
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+    const parsed: unknown = JSON.parse(stored);
+    return isNotificationPreferences(parsed) ? parsed : DEFAULT_NOTIFICATION_PREFERENCES;
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+/**
+ * localStorage에 알림 설정을 저장
+ *
+ * @returns 저장한 설정 (그대로 상태에 반영)
+ */
+function saveNotificationPreferences(preferences: NotificationPreferences): NotificationPreferences {
+  try {
+    localStorage.setItem(NOTIFICATION_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // localStorage 실패 시 무시
+  }
+  return preferences;
+}
+
+/**
+ * 목록에 있으면 제거, 없으면 추가
+ */
+function toggleId(ids: number[], id: number): number[] {
+  return ids.includes(id) ? ids.filter((v) => v !== id) : [...ids, id];
+}
+
 /**
  * 초기 상태
  */
 const initialState = {
   currentAccount: null as AccountType | null,
   subscriptionType: null as string | null,
+  accounts: [] as AccountListItem[],
   accountByPylon: new Map<number, AccountType>(),
   isAccountSwitching: false,
   clientVersion: CLIENT_VERSION,
   relayVersion: null as string | null,
   pylonVersions: {} as Record<number, string>,
   isChatVisible: true,  // 데스크탑에서는 항상 true, 모바일에서만 동기화
+  pushPublicKey: null as string | null,
 };
 
 /**
  * 설정 스토어
  *
- * 계정 상태를 관리합니다.
+ * 계정 상태와 디바이스별 알림 설정을 관리합니다.
  */
 export const useSettingsStore = create<SettingsState>((set, get) => ({
   ...initialState,
+  notificationPreferences: loadNotificationPreferences(),
 
   setAccountStatus: (status) => {
     set({
       currentAccount: status.current,
       subscriptionType: status.subscriptionType || null,
+      // 목록이 없는 상태(workspace_list_result의 account)는 기존 목록 유지
+      ...(status.accounts && { accounts: status.accounts }),
       isAccountSwitching: false,
     });
   },
@@ -99,7 +161,43 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     set({ isChatVisible: visible });
   },
 
+  setPushPublicKey: (publicKey) => {
+    set({ pushPublicKey: publicKey });
+  },
+
+  setNotificationsEnabled: (enabled) => {
+    set({ notificationPreferences: saveNotificationPreferences({ ...get().notificationPreferences, enabled }) });
+  },
+
+  setNotificationEvent: (kind, enabled) => {
+    const prev = get().notificationPreferences;
+    set({
+      notificationPreferences: saveNotificationPreferences({ ...prev, events: { ...prev.events, [kind]: enabled } }),
+    });
+  },
+
+  toggleNotificationPylon: (pylonId) => {
+    const prev = get().notificationPreferences;
+    set({
+      notificationPreferences: saveNotificationPreferences({
+        ...prev,
+        mutedPylonIds: toggleId(prev.mutedPylonIds, pylonId),
+      }),
+    });
+  },
+
+  toggleNotificationWorkspace: (workspaceId) => {
+    const prev = get().notificationPreferences;
+    set({
+      notificationPreferences: saveNotificationPreferences({
+        ...prev,
+        mutedWorkspaceIds: toggleId(prev.mutedWorkspaceIds, workspaceId),
+      }),
+    });
+  },
+
   reset: () => {
-    set({ ...initialState, accountByPylon: new Map() });
+    // 알림 설정은 디바이스 설정이므로 저장된 값을 다시 로드
+    set({ ...initialState, accountByPylon: new Map(), notificationPreferences: loadNotificationPreferences() });
   },
 }));
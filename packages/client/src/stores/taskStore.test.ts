@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { TaskSummary } from '@estelle/core';
+import { useTaskStore, groupTasksByStatus, isTaskBlocked } from './taskStore';
+
+function createTask(overrides: Partial<TaskSummary> = {}): TaskSummary {
+  return {
+    id: 'task-1',
+    title: 'Task 1',
+    status: 'pending',
+    priority: 0,
+    dependsOn: [],
+    maxRetries: 0,
+    retryCount: 0,
+    timeout: null,
+    createdAt: '2026-01-24T10:00:00Z',
+    startedAt: null,
+    completedAt: null,
+    error: null,
+    branch: null,
+    fileName: '20260124-task-1.md',
+    ...overrides,
+  };
+}
+
+describe('taskStore', () => {
+  beforeEach(() => {
+    useTaskStore.getState().reset();
+  });
+
+  it('should keep tasks per workspace', () => {
+    useTaskStore.getState().setTasks(129, [createTask()]);
+
+    expect(useTaskStore.getState().getTasks(129)).toHaveLength(1);
+    expect(useTaskStore.getState().getTasks(130)).toEqual([]);
+  });
+
+  it('should upsert a changed task and clear the last error', () => {
+    const store = useTaskStore.getState();
+    store.setTasks(129, [createTask()]);
+    store.setError('실패');
+
+    store.upsertTask(129, createTask({ title: 'Renamed' }));
+    store.upsertTask(129, createTask({ id: 'task-2' }));
+
+    const tasks = useTaskStore.getState().getTasks(129);
+    expect(tasks.map((t) => [t.id, t.title])).toEqual([
+      ['task-2', 'Task 1'],
+      ['task-1', 'Renamed'],
+    ]);
+    expect(useTaskStore.getState().lastError).toBeNull();
+  });
+
+  it('should reorder pending tasks optimistically', () => {
+    useTaskStore.getState().setTasks(129, [
+      createTask({ id: 'a', fileName: '20260120-a.md' }),
+      createTask({ id: 'b', fileName: '20260121-b.md' }),
+      createTask({ id: 'c', fileName: '20260122-c.md', status: 'done' }),
+    ]);
+
+    useTaskStore.getState().reorderPending(129, ['b', 'c', 'a']);
+
+    const groups = groupTasksByStatus(useTaskStore.getState().getTasks(129));
+    expect(groups.pending.map((t) => t.id)).toEqual(['b', 'a']);
+    expect(groups.done[0].priority).toBe(0);
+  });
+});
+
+describe('groupTasksByStatus', () => {
+  it('should order pending tasks the way the worker picks them', () => {
+    const groups = groupTasksByStatus([
+      createTask({ id: 'old', fileName: '20260120-old.md' }),
+      createTask({ id: 'new', fileName: '20260125-new.md' }),
+      createTask({ id: 'urgent', fileName: '20260126-urgent.md', priority: 5 }),
+      createTask({ id: 'done-1', status: 'done', fileName: '20260101-a.md' }),
+      createTask({ id: 'done-2', status: 'done', fileName: '20260102-b.md' }),
+    ]);
+
+    expect(groups.pending.map((t) => t.id)).toEqual(['urgent', 'old', 'new']);
+    expect(groups.done.map((t) => t.id)).toEqual(['done-2', 'done-1']);
+    expect(groups.running).toEqual([]);
+  });
+});
+
+describe('isTaskBlocked', () => {
+  it('should be blocked until every dependency is done', () => {
+    const base = createTask({ id: 'base', status: 'running' });
+    const child = createTask({ id: 'child', dependsOn: ['base'] });
+
+    expect(isTaskBlocked(child, [base, child])).toBe(true);
+    expect(isTaskBlocked(child, [{ ...base, status: 'done' }, child])).toBe(false);
+    expect(isTaskBlocked(base, [base, child])).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { create } from 'zustand';
+import type { TaskDetail, TaskStatus, TaskSummary } from '@estelle/core';
+
+/**
+ * 태스크 상태 인터페이스
+ */
+export interface TaskStoreState {
+  /** 워크스페이스별 태스크 목록 */
+  tasksByWorkspace: Record<number, TaskSummary[]>;
+
+  /** 태스크 상세 (편집용, task_get_result로 채움) */
+  detailById: Record<string, TaskDetail>;
+
+  /** 마지막 생성/수정 실패 메시지 */
+  lastError: string | null;
+
+  // Actions
+  setTasks: (workspaceId: number, tasks: TaskSummary[]) => void;
+  upsertTask: (workspaceId: number, task: TaskSummary) => void;
+  reorderPending: (workspaceId: number, taskIds: string[]) => void;
+  setTaskDetail: (task: TaskDetail) => void;
+  setError: (error: string | null) => void;
+  getTasks: (workspaceId: number) => TaskSummary[];
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  tasksByWorkspace: {} as Record<number, TaskSummary[]>,
+  detailById: {} as Record<string, TaskDetail>,
+  lastError: null as string | null,
+};
+
+/** 빈 목록 (selector가 매번 새 배열을 만들지 않도록) */
+const EMPTY_TASKS: TaskSummary[] = [];
+
+/**
+ * 태스크 스토어
+ *
+ * Pylon이 보내는 워크스페이스별 태스크 목록(task_list_result 브로드캐스트)과
+ * 개별 변경 응답(task_status_result)을 모읍니다.
+ */
+export const useTaskStore = create<TaskStoreState>((set, get) => ({
+  ...initialState,
+
+  setTasks: (workspaceId, tasks) => {
+    set((state) => ({
+      tasksByWorkspace: { ...state.tasksByWorkspace, [workspaceId]: tasks },
+    }));
+  },
+
+  upsertTask: (workspaceId, task) => {
+    set((state) => {
+      const tasks = state.tasksByWorkspace[workspaceId] ?? [];
+      const exists = tasks.some((t) => t.id === task.id);
+      return {
+        tasksByWorkspace: {
+          ...state.tasksByWorkspace,
+          [workspaceId]: exists
+            ? tasks.map((t) => (t.id === task.id ? task : t))
+            : [task, ...tasks],
+        },
+        lastError: null,
+      };
+    });
+  },
+
+  reorderPending: (workspaceId, taskIds) => {
+    // Pylon(reorderPendingTasks)과 같은 규칙으로 미리 반영: 앞에 있을수록 큰 priority
+    set((state) => {
+      const tasks = state.tasksByWorkspace[workspaceId];
+      if (!tasks) return state;
+
+      const pendingIds = taskIds.filter((id) => tasks.some((t) => t.id === id && t.status === 'pending'));
+      const priorities = new Map(pendingIds.map((id, index) => [id, pendingIds.length - index]));
+      return {
+        tasksByWorkspace: {
+          ...state.tasksByWorkspace,
+          [workspaceId]: tasks.map((t) =>
+            priorities.has(t.id) ? { ...t, priority: priorities.get(t.id)! } : t
+          ),
+        },
+      };
+    });
+  },
+
+  setTaskDetail: (task) => {
+    set((state) => ({
+      detailById: { ...state.detailById, [task.id]: task },
+    }));
+  },
+
+  setError: (error) => {
+    set({ lastError: error });
+  },
+
+  getTasks: (workspaceId) => {
+    return get().tasksByWorkspace[workspaceId] ?? EMPTY_TASKS;
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
+
+/**
+ * 태스크를 보드 컬럼(상태)별로 나누기
+ *
+ * - pending: 실행될 순서 (priority 내림차순 → 파일명 오름차순, Pylon과 같은 규칙)
+ * - 나머지: 최근 것 먼저 (파일명 내림차순)
+ */
+export function groupTasksByStatus(tasks: TaskSummary[]): Record<TaskStatus, TaskSummary[]> {
+  const groups: Record<TaskStatus, TaskSummary[]> = {
+    pending: [],
+    running: [],
+    done: [],
+    failed: [],
+  };
+  for (const task of tasks) {
+    groups[task.status]?.push(task);
+  }
+
+  groups.pending.sort((a, b) => b.priority - a.priority || a.fileName.localeCompare(b.fileName));
+  for (const status of ['running', 'done', 'failed'] as const) {
+    groups[status].sort((a, b) => b.fileName.localeCompare(a.fileName));
+  }
+  return groups;
+}
+
+/**
+ * 의존 태스크가 아직 done이 아니라서 시작할 수 없는 태스크인지
+ */
+export function isTaskBlocked(task: TaskSummary, tasks: TaskSummary[]): boolean {
+  if (task.dependsOn.length === 0) return false;
+  const doneIds = new Set(tasks.filter((t) => t.status === 'done').map((t) => t.id));
+  return task.dependsOn.some((id) => !doneIds.has(id));
+}
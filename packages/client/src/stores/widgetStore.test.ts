@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useWidgetStore } from './widgetStore';
+
+describe('widgetStore', () => {
+  beforeEach(() => {
+    useWidgetStore.getState().reset();
+  });
+
+  it('should keep catalog per pylon', () => {
+    const store = useWidgetStore.getState();
+    store.setCatalog(1, [{ name: 'quiver', title: 'Quiver', missingEnv: [], available: true }]);
+    store.setCatalog(2, []);
+
+    const state = useWidgetStore.getState();
+    expect(state.catalogByPylon[1].map((w) => w.name)).toEqual(['quiver']);
+    expect(state.catalogByPylon[2]).toEqual([]);
+  });
+
+  it('should set and clear launch state per conversation', () => {
+    const store = useWidgetStore.getState();
+    store.setLaunch(132097, { status: 'launching', widget: 'quiver' });
+    store.setLaunch(132098, { status: 'error', widget: 'quiver', error: '환경변수가 설정되지 않았습니다: HF_TOKEN' });
+
+    store.setLaunch(132097, null);
+
+    const state = useWidgetStore.getState();
+    expect(state.launchByConversation[132097]).toBeUndefined();
+    expect(state.launchByConversation[132098]?.status).toBe('error');
+  });
+});
@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import type { WidgetCatalogEntry } from '@estelle/core';
+
+/**
+ * 위젯 직접 실행 상태
+ */
+export type WidgetLaunchState =
+  | { status: 'launching'; widget: string }
+  | { status: 'error'; widget: string; error: string };
+
+/**
+ * 위젯 카탈로그 상태 인터페이스
+ */
+export interface WidgetStoreState {
+  /** Pylon별 위젯 카탈로그 */
+  catalogByPylon: Record<number, WidgetCatalogEntry[]>;
+
+  /** 대화별 직접 실행 상태 (성공하면 제거) */
+  launchByConversation: Record<number, WidgetLaunchState>;
+
+  // Actions
+  setCatalog: (pylonId: number, widgets: WidgetCatalogEntry[]) => void;
+  setLaunch: (conversationId: number, launch: WidgetLaunchState | null) => void;
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  catalogByPylon: {} as Record<number, WidgetCatalogEntry[]>,
+  launchByConversation: {} as Record<number, WidgetLaunchState>,
+};
+
+/**
+ * 위젯 카탈로그 스토어
+ *
+ * Pylon이 보내는 위젯 패키지 목록과 클라이언트에서 직접 실행한 위젯의 진행 상태를 모읍니다.
+ */
+export const useWidgetStore = create<WidgetStoreState>((set) => ({
+  ...initialState,
+
+  setCatalog: (pylonId, widgets) => {
+    set((state) => ({
+      catalogByPylon: { ...state.catalogByPylon, [pylonId]: widgets },
+    }));
+  },
+
+  setLaunch: (conversationId, launch) => {
+    set((state) => {
+      const next = { ...state.launchByConversation };
+      if (launch === null) {
+        delete next[conversationId];
+      } else {
+        next[conversationId] = launch;
+      }
+      return { launchByConversation: next };
+    });
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { WorkerStatus } from '@estelle/core';
+import { useWorkerStore } from './workerStore';
+
+function createStatus(overrides: Partial<WorkerStatus> = {}): WorkerStatus {
+  return {
+    workspaceId: 129,
+    status: 'idle',
+    maxConcurrency: 2,
+    workers: [],
+    currentTask: null,
+    queue: { pending: 0, total: 0 },
+    ...overrides,
+  };
+}
+
+describe('workerStore', () => {
+  beforeEach(() => {
+    useWorkerStore.getState().reset();
+  });
+
+  it('should keep worker status per workspace', () => {
+    const store = useWorkerStore.getState();
+    store.setWorkerStatus(129, createStatus({ status: 'running', queue: { pending: 3, total: 5 } }));
+    store.setWorkerStatus(130, createStatus({ workspaceId: 130 }));
+
+    expect(useWorkerStore.getState().getWorkerStatus(129)?.queue.pending).toBe(3);
+    expect(useWorkerStore.getState().getWorkerStatus(130)?.status).toBe('idle');
+    expect(useWorkerStore.getState().getWorkerStatus(999)).toBeNull();
+  });
+
+  it('should replace status on update', () => {
+    const store = useWorkerStore.getState();
+    store.setWorkerStatus(129, createStatus({ status: 'running' }));
+    store.setWorkerStatus(129, createStatus());
+
+    expect(useWorkerStore.getState().getWorkerStatus(129)?.status).toBe('idle');
+  });
+
+  it('should reset', () => {
+    useWorkerStore.getState().setWorkerStatus(129, createStatus());
+    useWorkerStore.getState().reset();
+
+    expect(useWorkerStore.getState().statusByWorkspace).toEqual({});
+  });
+});
@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import type { WorkerStatus } from '@estelle/core';
+
+/**
+ * 워커 상태 인터페이스
+ */
+export interface WorkerStoreState {
+  /** 워크스페이스별 워커 상태 */
+  statusByWorkspace: Record<number, WorkerStatus>;
+
+  // Actions
+  setWorkerStatus: (workspaceId: number, status: WorkerStatus) => void;
+  getWorkerStatus: (workspaceId: number) => WorkerStatus | null;
+  reset: () => void;
+}
+
+/**
+ * 초기 상태
+ */
+const initialState = {
+  statusByWorkspace: {} as Record<number, WorkerStatus>,
+};
+
+/**
+ * 워커 스토어
+ *
+ * Pylon이 보내는 워크스페이스별 태스크 워커 상태(실행 중인 워커 목록)를 모읍니다.
+ */
+export const useWorkerStore = create<WorkerStoreState>((set, get) => ({
+  ...initialState,
+
+  setWorkerStatus: (workspaceId, status) => {
+    set((state) => ({
+      statusByWorkspace: {
+        ...state.statusByWorkspace,
+        [workspaceId]: status,
+      },
+    }));
+  },
+
+  getWorkerStatus: (workspaceId) => {
+    return get().statusByWorkspace[workspaceId] ?? null;
+  },
+
+  reset: () => {
+    set({ ...initialState });
+  },
+}));
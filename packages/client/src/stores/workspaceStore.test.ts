@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encodePylonId, type DeviceStatusItem, type PylonActiveSession, type WorkspaceWithActive } from '@estelle/core';
+import { useWorkspaceStore } from './workspaceStore';
+
+const OFFICE_PYLON_ID = encodePylonId(1, 1);
+const HOME_PYLON_ID = encodePylonId(1, 2);
+
+function createSession(overrides: Partial<PylonActiveSession> = {}): PylonActiveSession {
+  return {
+    conversationId: 100,
+    conversationName: 'Conversation',
+    workspaceId: 1,
+    workspaceName: 'Workspace',
+    status: 'waiting',
+    ...overrides,
+  };
+}
+
+function createPylonDevice(
+  deviceIndex: number,
+  activeSessions?: PylonActiveSession[]
+): DeviceStatusItem {
+  return {
+    deviceId: deviceIndex,
+    deviceType: 'pylon',
+    name: `Device ${deviceIndex}`,
+    icon: '🏢',
+    connectedAt: '2026-01-01T00:00:00.000Z',
+    activeSessions,
+  };
+}
+
+describe('workspaceStore', () => {
+  beforeEach(() => {
+    useWorkspaceStore.getState().reset();
+    const store = useWorkspaceStore.getState();
+    store.addConnectedPylon({ deviceId: OFFICE_PYLON_ID, deviceName: 'Office' });
+    store.addConnectedPylon({ deviceId: HOME_PYLON_ID, deviceName: 'Home' });
+  });
+
+  describe('setDeviceStatus', () => {
+    it('should map active sessions to encoded pylon ids', () => {
+      const session = createSession();
+
+      useWorkspaceStore.getState().setDeviceStatus([
+        createPylonDevice(1, [session]),
+        createPylonDevice(2),
+      ]);
+
+      const state = useWorkspaceStore.getState();
+      expect(state.activeSessionsByPylon.get(OFFICE_PYLON_ID)).toEqual([session]);
+      expect(state.activeSessionsByPylon.get(HOME_PYLON_ID)).toEqual([]);
+      expect(state.getAllActiveSessions()).toEqual([{ pylonId: OFFICE_PYLON_ID, session }]);
+    });
+
+    it('should remove pylons missing from device list', () => {
+      useWorkspaceStore.getState().setWorkspaces(HOME_PYLON_ID, []);
+
+      useWorkspaceStore.getState().setDeviceStatus([createPylonDevice(1)]);
+
+      const state = useWorkspaceStore.getState();
+      expect(state.connectedPylons.map((p) => p.deviceId)).toEqual([OFFICE_PYLON_ID]);
+      expect(state.workspacesByPylon.has(HOME_PYLON_ID)).toBe(false);
+      expect(state.activeSessionsByPylon.has(HOME_PYLON_ID)).toBe(false);
+    });
+
+    it('should ignore app devices with same index', () => {
+      useWorkspaceStore.getState().setDeviceStatus([
+        createPylonDevice(1),
+        { ...createPylonDevice(2), deviceType: 'app' },
+      ]);
+
+      const state = useWorkspaceStore.getState();
+      expect(state.connectedPylons.map((p) => p.deviceId)).toEqual([OFFICE_PYLON_ID]);
+    });
+  });
+
+  describe('agentSettings', () => {
+    const workspace = {
+      workspaceId: 1,
+      name: 'Workspace',
+      workingDir: '/project',
+      isActive: true,
+      conversations: [
+        {
+          conversationId: 100,
+          name: 'Conversation',
+          status: 'idle',
+          unread: false,
+          permissionMode: 'default',
+          agentSettings: { model: 'claude-opus-4-6' },
+        },
+      ],
+    } as unknown as WorkspaceWithActive;
+
+    it('should expose agentSettings on selected conversation and update optimistically', () => {
+      const store = useWorkspaceStore.getState();
+      store.setWorkspaces(OFFICE_PYLON_ID, [workspace]);
+      store.selectConversation(OFFICE_PYLON_ID, 100);
+
+      expect(useWorkspaceStore.getState().selectedConversation?.agentSettings).toEqual({ model: 'claude-opus-4-6' });
+
+      store.updateAgentSettings(100, { effort: 'high', maxTurns: 5 });
+      expect(useWorkspaceStore.getState().selectedConversation?.agentSettings).toEqual({ effort: 'high', maxTurns: 5 });
+
+      store.updateAgentSettings(100, null);
+      expect(useWorkspaceStore.getState().selectedConversation?.agentSettings).toBeUndefined();
+    });
+  });
+});
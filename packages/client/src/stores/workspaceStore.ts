@@ -6,7 +6,14 @@ import type {
   ConversationStatusValue,
   PermissionModeValue,
   LinkedDocument,
+  ConversationWorktree,
+  PylonActiveSession,
+  DeviceStatusItem,
+  PylonId,
+  AgentBackendInfo,
+  ConversationAgentSettings,
 } from '@estelle/core';
+import { decodePylonId } from '@estelle/core';
 
 /**
  * 연결된 Pylon 정보
@@ -14,6 +21,8 @@ import type {
 export interface ConnectedPylon {
   deviceId: number;
   deviceName: string;
+  /** Pylon에 등록된 에이전트 (새 대화 에이전트 선택용) */
+  agents?: AgentBackendInfo[];
 }
 
 /**
@@ -30,8 +39,12 @@ export interface SelectedConversation {
   status: ConversationStatusValue;
   unread: boolean;
   permissionMode: PermissionModeValue;
+  /** 에이전트 설정 (모델, 추론 강도, 한도 — 없으면 에이전트 기본값) */
+  agentSettings?: ConversationAgentSettings;
   /** 연결된 문서 목록 */
   linkedDocuments: LinkedDocument[];
+  /** 대화 전용 git worktree (있으면 에이전트가 이 경로에서 작업) */
+  worktree?: ConversationWorktree;
 }
 
 /**
@@ -47,6 +60,9 @@ export interface WorkspaceState {
   /** 선택된 대화 정보 */
   selectedConversation: SelectedConversation | null;
 
+  /** Pylon별 활성 세션 (Relay device_status에서 집계) */
+  activeSessionsByPylon: Map<number, PylonActiveSession[]>;
+
   // Actions
   setWorkspaces: (
     pylonId: number,
@@ -56,6 +72,8 @@ export interface WorkspaceState {
   clearWorkspaces: (pylonId: number) => void;
   addConnectedPylon: (pylon: ConnectedPylon) => void;
   removeConnectedPylon: (deviceId: number) => void;
+  /** device_status 반영: 활성 세션 갱신, 목록에 없는 Pylon은 연결 해제 처리 */
+  setDeviceStatus: (devices: DeviceStatusItem[]) => void;
   updateConversationStatus: (
     pylonId: number,
     conversationId: number,
@@ -66,6 +84,10 @@ export interface WorkspaceState {
     conversationId: number,
     mode: PermissionModeValue
   ) => void;
+  updateAgentSettings: (
+    conversationId: number,
+    settings: ConversationAgentSettings | null
+  ) => void;
   selectConversation: (
     pylonId: number,
     conversationId: number
@@ -77,6 +99,7 @@ export interface WorkspaceState {
   // Getters
   getWorkspacesByPylon: (pylonId: number) => WorkspaceWithActive[];
   getAllWorkspaces: () => { pylonId: number; workspaces: WorkspaceWithActive[] }[];
+  getAllActiveSessions: () => { pylonId: number; session: PylonActiveSession }[];
   getConversation: (
     pylonId: number,
     conversationId: number
@@ -140,6 +163,7 @@ const initialState = {
   workspacesByPylon: new Map<number, WorkspaceWithActive[]>(),
   connectedPylons: [] as ConnectedPylon[],
   selectedConversation: null as SelectedConversation | null,
+  activeSessionsByPylon: new Map<number, PylonActiveSession[]>(),
 };
 
 /**
@@ -172,7 +196,9 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
             status: conversation.status,
             unread: conversation.unread,
             permissionMode: conversation.permissionMode,
+            agentSettings: conversation.agentSettings,
             linkedDocuments: conversation.linkedDocuments ?? [],
+            worktree: conversation.worktree,
           };
           break;
         }
@@ -231,7 +257,9 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
           status: targetConversation.status,
           unread: targetConversation.unread,
           permissionMode: targetConversation.permissionMode,
+          agentSettings: targetConversation.agentSettings,
           linkedDocuments: targetConversation.linkedDocuments ?? [],
+          worktree: targetConversation.worktree,
         };
       }
     }
@@ -279,6 +307,28 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
     });
   },
 
+  setDeviceStatus: (devices) => {
+    const pylonDevices = devices.filter((d) => d.deviceType === 'pylon');
+    const sessionsMap = new Map<number, PylonActiveSession[]>();
+    const disconnected: number[] = [];
+
+    // device_status의 deviceId는 인코딩 전 deviceIndex
+    for (const pylon of get().connectedPylons) {
+      const { deviceIndex } = decodePylonId(pylon.deviceId as PylonId);
+      const device = pylonDevices.find((d) => d.deviceId === deviceIndex);
+      if (device) {
+        sessionsMap.set(pylon.deviceId, device.activeSessions ?? []);
+      } else {
+        disconnected.push(pylon.deviceId);
+      }
+    }
+
+    set({ activeSessionsByPylon: sessionsMap });
+    for (const deviceId of disconnected) {
+      get().removeConnectedPylon(deviceId);
+    }
+  },
+
   updateConversationStatus: (pylonId, conversationId, status, unread) => {
     const workspaces = get().workspacesByPylon.get(pylonId);
     if (!workspaces) return;
@@ -331,6 +381,19 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
     }
   },
 
+  updateAgentSettings: (conversationId, settings) => {
+    // 선택된 대화의 agentSettings 즉시 업데이트 (Pylon이 workspace_list로 다시 확정)
+    const selected = get().selectedConversation;
+    if (selected?.conversationId === conversationId) {
+      set({
+        selectedConversation: {
+          ...selected,
+          agentSettings: settings ?? undefined,
+        },
+      });
+    }
+  },
+
   selectConversation: (pylonId, conversationId) => {
     const workspaces = get().workspacesByPylon.get(pylonId);
     if (!workspaces) return;
@@ -354,7 +417,9 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
             status: conversation.status,
             unread: conversation.unread,
             permissionMode: conversation.permissionMode,
+            agentSettings: conversation.agentSettings,
             linkedDocuments: conversation.linkedDocuments ?? [],
+            worktree: conversation.worktree,
           },
         });
         return;
@@ -420,6 +485,16 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
     return result;
   },
 
+  getAllActiveSessions: () => {
+    const result: { pylonId: number; session: PylonActiveSession }[] = [];
+    for (const [pylonId, sessions] of get().activeSessionsByPylon) {
+      for (const session of sessions) {
+        result.push({ pylonId, session });
+      }
+    }
+    return result;
+  },
+
   getConversation: (pylonId, conversationId) => {
     const workspaces = get().workspacesByPylon.get(pylonId);
     if (!workspaces) return null;
@@ -440,6 +515,7 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
       workspacesByPylon: new Map(),
       connectedPylons: [],
       selectedConversation: null,
+      activeSessionsByPylon: new Map(),
     });
   },
 }));
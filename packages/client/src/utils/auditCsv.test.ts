@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditEntry } from '@estelle/core';
+import { buildAuditCsv } from './auditCsv';
+
+function createEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: 1,
+    timestamp: Date.UTC(2026, 0, 2, 3, 4, 5),
+    kind: 'permission',
+    conversationId: 100,
+    workspaceId: 1,
+    toolName: 'Bash',
+    toolInput: { command: 'ls' },
+    ...overrides,
+  };
+}
+
+describe('buildAuditCsv', () => {
+  it('should output header only for empty entries', () => {
+    expect(buildAuditCsv([])).toBe(
+      'time,kind,workspace,conversation,tool,decision,reason,decided_by,permission_mode,success,error,duration_ms,tool_input\r\n'
+    );
+  });
+
+  it('should output one row per entry with names', () => {
+    const csv = buildAuditCsv([
+      createEntry({
+        workspaceName: 'Alpha',
+        conversationName: 'Fix',
+        decision: 'user_allow',
+        reason: 'allow',
+        decidedBy: { deviceId: 100, name: 'MacBook' },
+        permissionMode: 'default',
+        durationMs: 1200,
+      }),
+    ]);
+
+    const row = csv.split('\r\n')[1];
+    expect(row).toBe(
+      '2026-01-02T03:04:05.000Z,permission,Alpha,Fix,Bash,user_allow,allow,MacBook,default,,,1200,"{""command"":""ls""}"'
+    );
+  });
+
+  it('should fall back to ids and escape special characters', () => {
+    const csv = buildAuditCsv([
+      createEntry({
+        kind: 'tool',
+        success: false,
+        error: 'line1\nline2, "quoted"',
+      }),
+    ]);
+
+    const body = csv.slice(csv.indexOf('\r\n') + 2);
+    expect(body.startsWith('2026-01-02T03:04:05.000Z,tool,1,100,Bash,,,,,false,"line1\nline2, ""quoted""",')).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * 감사 로그 CSV 변환 유틸리티
+ */
+
+import type { AuditEntry } from '@estelle/core';
+
+const COLUMNS: { header: string; value: (entry: AuditEntry) => unknown }[] = [
+  { header: 'time', value: (e) => new Date(e.timestamp).toISOString() },
+  { header: 'kind', value: (e) => e.kind },
+  { header: 'workspace', value: (e) => e.workspaceName ?? e.workspaceId },
+  { header: 'conversation', value: (e) => e.conversationName ?? e.conversationId },
+  { header: 'tool', value: (e) => e.toolName },
+  { header: 'decision', value: (e) => e.decision },
+  { header: 'reason', value: (e) => e.reason },
+  { header: 'decided_by', value: (e) => e.decidedBy && (e.decidedBy.name ?? e.decidedBy.deviceId) },
+  { header: 'permission_mode', value: (e) => e.permissionMode },
+  { header: 'success', value: (e) => e.success },
+  { header: 'error', value: (e) => e.error },
+  { header: 'duration_ms', value: (e) => e.durationMs },
+  { header: 'tool_input', value: (e) => JSON.stringify(e.toolInput) },
+];
+
+/**
+ * CSV 필드 이스케이프 (쉼표/따옴표/줄바꿈이 있으면 따옴표로 감쌈)
+ */
+function escapeField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 감사 로그 항목을 CSV 문자열로 변환 (헤더 포함, CRLF 줄바꿈)
+ */
+export function buildAuditCsv(entries: AuditEntry[]): string {
+  const lines = [
+    COLUMNS.map((c) => c.header).join(','),
+    ...entries.map((entry) => COLUMNS.map((c) => escapeField(c.value(entry))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -13,6 +13,7 @@ import {
   isValidFile,
   filterFilesByType,
   createAttachedImageFromFile,
+  saveBytesAsFile,
 } from './fileUtils';
 import type { AttachedImage } from '../stores/imageUploadStore';
 
@@ -402,4 +403,38 @@ describe('fileUtils', () => {
       expect(result[0].fileName).toBe(longName);
     });
   });
+
+  describe('saveBytesAsFile', () => {
+    beforeEach(() => {
+      global.URL.createObjectURL = vi.fn(
+        () => 'blob:http://localhost/mock-url'
+      );
+      global.URL.revokeObjectURL = vi.fn();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should_click_download_link_and_revoke_url', () => {
+      // Arrange
+      const clickSpy = vi
+        .spyOn(HTMLAnchorElement.prototype, 'click')
+        .mockImplementation(function (this: HTMLAnchorElement) {
+          // Assert (클릭 시점의 링크 속성)
+          expect(this.download).toBe('export.md');
+          expect(this.href).toBe('blob:http://localhost/mock-url');
+        });
+
+      // Act
+      saveBytesAsFile(new TextEncoder().encode('# hello'), 'export.md', 'text/markdown');
+
+      // Assert
+      expect(clickSpy).toHaveBeenCalledTimes(1);
+      const blob = (URL.createObjectURL as ReturnType<typeof vi.fn>).mock.calls[0][0] as Blob;
+      expect(blob.type).toBe('text/markdown');
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:http://localhost/mock-url');
+      expect(document.querySelector('a[download]')).toBeNull();
+    });
+  });
 });
@@ -140,3 +140,24 @@ export function processFiles(files: FileList | File[]): AttachedImage[] {
   // AttachedImage로 변환
   return uniqueFiles.map((file) => createAttachedImageFromFile(file));
 }
+
+/**
+ * 바이트 데이터를 브라우저 다운로드로 저장
+ *
+ * Blob URL을 만든 임시 링크를 클릭한 뒤 URL을 해제한다.
+ *
+ * @param bytes - 파일 내용
+ * @param filename - 저장할 파일명
+ * @param mimeType - MIME 타입 (기본: application/octet-stream)
+ */
+export function saveBytesAsFile(bytes: Uint8Array, filename: string, mimeType?: string): void {
+  const blob = new Blob([bytes as Uint8Array<ArrayBuffer>], { type: mimeType || 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
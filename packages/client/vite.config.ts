@@ -59,6 +59,8 @@ export default defineConfig({
         // 새 SW 즉시 활성화 (대기 상태 건너뜀)
         skipWaiting: true,
         clientsClaim: true,
+        // Web Push 수신/알림 클릭 처리 (public/push-sw.js)
+        importScripts: ['push-sw.js'],
       },
     }),
   ],
@@ -22,6 +22,10 @@
  * - Folder: 폴더 관리
  * - Task: 태스크 관리
  * - Worker: 워커 관리
+ * - Search: 메시지 전문 검색
+ * - Audit: 권한 결정/도구 실행 감사 로그
+ * - Push: Web Push 알림 구독/발송
+ * - Schedule: 워크스페이스 예약 실행
  * - Utility: 기타 (PING, PONG, ERROR)
  *
  * @example
@@ -48,6 +52,8 @@ export const MessageType = {
   REGISTERED: 'registered',
   /** 디바이스 상태 변경 알림 */
   DEVICE_STATUS: 'device_status',
+  /** Pylon 활성 세션 보고 (Pylon → Relay, device_status에 집계됨) */
+  PYLON_SESSIONS: 'pylon_sessions',
   /** Relay 연결 상태 (로컬서버 전용) */
   RELAY_STATUS: 'relay_status',
   /** 상태 조회 응답 */
@@ -86,12 +92,70 @@ export const MessageType = {
   HISTORY_REQUEST: 'history_request',
   /** 메시지 히스토리 응답 */
   HISTORY_RESULT: 'history_result',
+  /** 전체 도구 출력 요청 (Client → Pylon, 미리보기로 잘린 도구 메시지의 원문) */
+  TOOL_OUTPUT_REQUEST: 'tool_output_request',
+  /** 전체 도구 출력 응답 (Pylon → Client) */
+  TOOL_OUTPUT_RESULT: 'tool_output_result',
   /** 대화 순서 변경 요청 */
   CONVERSATION_REORDER: 'conversation_reorder',
   /** 대화 삭제 요청 */
   CONVERSATION_DELETE: 'conversation_delete',
+  /** 대화 삭제 응답 (worktree 대화일 때) */
+  CONVERSATION_DELETE_RESULT: 'conversation_delete_result',
   /** 대화 이름 변경 요청 */
   CONVERSATION_RENAME: 'conversation_rename',
+  /** 대화 내보내기 요청 (Client → Pylon) */
+  CONVERSATION_EXPORT: 'conversation_export',
+  /** 대화 내보내기 결과 (Pylon → Client, 파일은 Blob 전송으로 다운로드) */
+  CONVERSATION_EXPORT_RESULT: 'conversation_export_result',
+  /** 대화 가져오기 요청 (Client → Pylon, Pylon에 있는 아카이브/트랜스크립트 파일 경로) */
+  CONVERSATION_IMPORT: 'conversation_import',
+  /** 대화 가져오기 결과 (Pylon → Client) */
+  CONVERSATION_IMPORT_RESULT: 'conversation_import_result',
+  /** 대화 분기 요청 (Client → Pylon, 지정한 메시지까지 복사한 새 대화 생성) */
+  CONVERSATION_FORK: 'conversation_fork',
+  /** 대화 분기 결과 (Pylon → Client) */
+  CONVERSATION_FORK_RESULT: 'conversation_fork_result',
+
+  // === Search ===
+  /** 메시지 전문 검색 요청 (Client → Pylon) */
+  SEARCH_REQUEST: 'search_request',
+  /** 메시지 전문 검색 응답 (Pylon → Client) */
+  SEARCH_RESULT: 'search_result',
+
+  // === Audit ===
+  /** 감사 로그 조회 요청 (Client → Pylon) */
+  AUDIT_LOG_REQUEST: 'audit_log_request',
+  /** 감사 로그 조회 응답 (Pylon → Client) */
+  AUDIT_LOG_RESULT: 'audit_log_result',
+
+  // === Push ===
+  /** Web Push 설정(VAPID 공개키) 요청 (Client → Relay) */
+  PUSH_CONFIG_REQUEST: 'push_config_request',
+  /** Web Push 설정 응답 (Relay → Client) */
+  PUSH_CONFIG: 'push_config',
+  /** 푸시 구독 등록/알림 설정 갱신 (Client → Relay) */
+  PUSH_SUBSCRIBE: 'push_subscribe',
+  /** 푸시 구독 해제 (Client → Relay) */
+  PUSH_UNSUBSCRIBE: 'push_unsubscribe',
+  /** 푸시 알림 발송 요청 (Pylon → Relay) */
+  PUSH_NOTIFY: 'push_notify',
+
+  // === Schedule ===
+  /** 예약 목록 요청 (Client → Pylon) */
+  SCHEDULE_LIST: 'schedule_list',
+  /** 예약 목록 (Pylon → Client, 요청 응답 및 변경 시 브로드캐스트) */
+  SCHEDULE_LIST_RESULT: 'schedule_list_result',
+  /** 예약 생성/수정 (Client → Pylon) */
+  SCHEDULE_SAVE: 'schedule_save',
+  /** 예약 저장 결과 (Pylon → Client) */
+  SCHEDULE_SAVE_RESULT: 'schedule_save_result',
+  /** 예약 삭제 (Client → Pylon) */
+  SCHEDULE_DELETE: 'schedule_delete',
+  /** 예약 즉시 실행 (Client → Pylon) */
+  SCHEDULE_RUN: 'schedule_run',
+  /** 예약 실행 보고 (Pylon → Client, 브로드캐스트) */
+  SCHEDULE_RUN_RESULT: 'schedule_run_result',
 
   // === Claude ===
   /** Claude에 메시지 전송 */
@@ -106,6 +170,8 @@ export const MessageType = {
   CLAUDE_CONTROL: 'claude_control',
   /** Claude 권한 모드 설정 */
   CLAUDE_SET_PERMISSION_MODE: 'claude_set_permission_mode',
+  /** 대화 에이전트 설정 변경 (모델, 추론 강도, 한도) */
+  CLAUDE_SET_AGENT_SETTINGS: 'claude_set_agent_settings',
   /** 제안 요청 (클라이언트 → Pylon) */
   SUGGESTION_REQUEST: 'suggestion_request',
   /** Pylon 상태 (Claude 사용량 등) */
@@ -150,9 +216,15 @@ export const MessageType = {
   TASK_GET_RESULT: 'task_get_result',
   /** 태스크 생성 요청 */
   TASK_CREATE: 'task_create',
-  /** 태스크 상태 업데이트 요청 */
+  /** 태스크 수정 요청 (제목/본문/우선순위/의존 관계 등) */
   TASK_UPDATE: 'task_update',
-  /** 태스크 상태 업데이트 응답 */
+  /** 태스크 상태 변경 요청 */
+  TASK_STATUS: 'task_status',
+  /** 대기 중인 태스크 순서 변경 요청 */
+  TASK_REORDER: 'task_reorder',
+  /** 태스크 결과 브랜치 병합/버리기 요청 */
+  TASK_BRANCH: 'task_branch',
+  /** 태스크 생성/수정/상태 변경 응답 */
   TASK_STATUS_RESULT: 'task_status_result',
 
   // === Worker ===
@@ -169,6 +241,32 @@ export const MessageType = {
   /** 워커 정지 응답 */
   WORKER_STOP_RESULT: 'worker_stop_result',
 
+  // === Git ===
+  /** git 상태 조회 요청 (대화 기준점 이후 변경 포함) */
+  GIT_STATUS: 'git_status',
+  /** git 상태 조회 응답 */
+  GIT_STATUS_RESULT: 'git_status_result',
+  /** git diff 요청 */
+  GIT_DIFF: 'git_diff',
+  /** git diff 응답 */
+  GIT_DIFF_RESULT: 'git_diff_result',
+  /** 최근 커밋 로그 요청 */
+  GIT_LOG: 'git_log',
+  /** 최근 커밋 로그 응답 */
+  GIT_LOG_RESULT: 'git_log_result',
+  /** 파일을 대화 기준점으로 되돌리기 요청 */
+  GIT_REVERT: 'git_revert',
+  /** 파일 되돌리기 응답 */
+  GIT_REVERT_RESULT: 'git_revert_result',
+  /** 커밋 요청 */
+  GIT_COMMIT: 'git_commit',
+  /** 커밋 응답 */
+  GIT_COMMIT_RESULT: 'git_commit_result',
+  /** 커밋 메시지 초안 요청 (Claude가 작성) */
+  GIT_COMMIT_DRAFT: 'git_commit_draft',
+  /** 커밋 메시지 초안 응답 */
+  GIT_COMMIT_DRAFT_RESULT: 'git_commit_draft_result',
+
   // === Usage ===
   /** 사용량 조회 요청 */
   USAGE_REQUEST: 'usage_request',
@@ -187,11 +285,35 @@ export const MessageType = {
   /** 공유 링크 생성 응답 */
   SHARE_CREATE_RESULT: 'share_create_result',
 
+  // === E2E ===
+  /** 페어링 요청 (Client → Pylon, 평문) */
+  E2E_PAIR_REQUEST: 'e2e_pair_request',
+  /** 페어링 결과 (Pylon → Client, 평문) */
+  E2E_PAIR_RESULT: 'e2e_pair_result',
+  /** 세션 키 교환 시작 (Client → Pylon, 평문) */
+  E2E_HELLO: 'e2e_hello',
+  /** 세션 키 교환 응답 (Pylon → Client, 평문) */
+  E2E_HELLO_ACK: 'e2e_hello_ack',
+  /** E2E 상태 알림 (Pylon → Clients, 평문, 연결 직후) */
+  E2E_ANNOUNCE: 'e2e_announce',
+  /** E2E 에러 (Pylon → Client, 평문) */
+  E2E_ERROR: 'e2e_error',
+  /** 다른 기기용 페어링 코드 발급 요청 (Client → Pylon) */
+  E2E_PAIRING_CODE_REQUEST: 'e2e_pairing_code_request',
+  /** 페어링 코드 발급 응답 (Pylon → Client) */
+  E2E_PAIRING_CODE_RESULT: 'e2e_pairing_code_result',
+  /** 페어링 해제 (Client → Pylon) */
+  E2E_REVOKE: 'e2e_revoke',
+
   // === Account ===
   /** 계정 전환 요청 */
   ACCOUNT_SWITCH: 'account_switch',
-  /** 계정 상태 알림 */
+  /** 계정 상태 알림 (계정 목록 포함) */
   ACCOUNT_STATUS: 'account_status',
+  /** 계정 추가/수정 요청 */
+  ACCOUNT_SAVE: 'account_save',
+  /** 계정 삭제 요청 */
+  ACCOUNT_DELETE: 'account_delete',
 
   // === Widget ===
   /** 위젯 세션 유효성 확인 요청 */
@@ -208,7 +330,7 @@ export const MessageType = {
   WIDGET_CANCEL: 'widget_cancel',
   /** 위젯 이벤트 */
   WIDGET_EVENT: 'widget_event',
-  /** 위젯 준비됨 (Pylon → 전체 broadcast, preferredClientId 포함) */
+  /** 위젯 준비됨 (Pylon → 전체 broadcast, preferredClientId 포함. 다시 붙는 세션이면 마지막 view 포함) */
   WIDGET_READY: 'widget_ready',
   /** 위젯 소유권 요청/종료 (Client → Pylon) */
   WIDGET_CLAIM: 'widget_claim',
@@ -216,6 +338,14 @@ export const MessageType = {
   WIDGET_COMPLETE: 'widget_complete',
   /** 위젯 에러 (Pylon → All Clients) */
   WIDGET_ERROR: 'widget_error',
+  /** 위젯 카탈로그 요청 (Client → Pylon) */
+  WIDGET_LIST: 'widget_list',
+  /** 위젯 카탈로그 응답 (Pylon → Client) */
+  WIDGET_LIST_RESULT: 'widget_list_result',
+  /** 카탈로그 위젯 실행 (Client → Pylon) */
+  WIDGET_LAUNCH: 'widget_launch',
+  /** 카탈로그 위젯 실행 결과 (Pylon → Client) */
+  WIDGET_LAUNCH_RESULT: 'widget_launch_result',
 
   // === Command ===
   /** 커맨드 실행 (Client → Pylon) */
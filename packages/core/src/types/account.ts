@@ -3,15 +3,75 @@
  * @description 계정 관련 타입 정의
  *
  * Claude 구독 계정 전환 기능에 사용되는 타입들입니다.
+ * 계정 목록은 Pylon마다 사용자가 직접 정하며, 각 계정은
+ * 인증 백업 디렉토리의 credential 파일 하나와 연결됩니다.
  */
 
 /**
- * 계정 타입
+ * 계정 ID
  *
- * - linegames: 회사 계정 (team 구독)
- * - personal: 개인 계정 (max 구독)
+ * 계정을 추가할 때 Pylon이 이름에서 만들어 부여합니다. (예: 'work', 'personal')
  */
-export type AccountType = 'linegames' | 'personal';
+export type AccountType = string;
+
+/**
+ * credential 백업 파일 이름 형식
+ *
+ * 백업 디렉토리 바로 아래의 `.json` 파일만 허용합니다. (경로 구분자, 숨김 파일 불가)
+ */
+export const ACCOUNT_CREDENTIAL_FILE_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*\.json$/;
+
+/** 계정 이름 최대 길이 */
+export const MAX_ACCOUNT_NAME_LENGTH = 40;
+
+/** 아이콘을 지정하지 않은 계정의 기본 아이콘 */
+export const DEFAULT_ACCOUNT_ICON = '👤';
+
+/**
+ * 계정 추가/수정 입력
+ */
+export interface AccountInput {
+  /** 표시 이름 */
+  name: string;
+
+  /** 아이콘 (이모지) */
+  icon: string;
+
+  /** 인증 백업 디렉토리의 credential 파일 이름 (예: 'work.json') */
+  credentialFile: string;
+
+  /** 이 계정을 기본으로 쓰는 워크스페이스 ID 목록 */
+  workspaceIds: number[];
+}
+
+/**
+ * 계정
+ *
+ * @example
+ * ```typescript
+ * const account: ClaudeAccount = {
+ *   id: 'work',
+ *   name: 'Work',
+ *   icon: '🏢',
+ *   credentialFile: 'work.json',
+ *   workspaceIds: [129, 130],
+ * };
+ * ```
+ */
+export interface ClaudeAccount extends AccountInput {
+  /** 계정 ID */
+  id: AccountType;
+}
+
+/**
+ * 계정 목록 항목
+ *
+ * ACCOUNT_STATUS로 전달되는 계정 정보입니다.
+ */
+export interface AccountListItem extends ClaudeAccount {
+  /** credential 백업 파일 존재 여부 (없으면 전환 불가) */
+  available: boolean;
+}
 
 /**
  * 계정 전환 요청 페이로드
@@ -23,23 +83,74 @@ export interface AccountSwitchPayload {
   account: AccountType;
 }
 
+/**
+ * 계정 저장 요청 페이로드
+ *
+ * App → Pylon: ACCOUNT_SAVE 메시지의 payload (accountId가 있으면 수정)
+ */
+export interface AccountSavePayload {
+  accountId?: AccountType;
+  account: AccountInput;
+}
+
+/**
+ * 계정 삭제 요청 페이로드
+ *
+ * App → Pylon: ACCOUNT_DELETE 메시지의 payload
+ */
+export interface AccountDeletePayload {
+  accountId: AccountType;
+}
+
 /**
  * 계정 상태 페이로드
  *
  * Pylon → App: ACCOUNT_STATUS 메시지의 payload
  */
 export interface AccountStatusPayload {
-  /** 현재 활성 계정 */
-  current: AccountType;
+  /** 현재 활성 계정 (목록의 어느 계정과도 맞지 않으면 null) */
+  current: AccountType | null;
   /** 구독 타입 (team, max 등) */
   subscriptionType?: string;
+  /** 등록된 전체 계정 목록 */
+  accounts?: AccountListItem[];
+}
+
+/**
+ * 워크스페이스의 기본 계정 조회
+ *
+ * @returns 워크스페이스를 기본으로 지정한 계정 (없으면 undefined)
+ */
+export function getWorkspaceAccount<T extends ClaudeAccount>(
+  accounts: readonly T[],
+  workspaceId: number
+): T | undefined {
+  return accounts.find((account) => account.workspaceIds.includes(workspaceId));
 }
 
 /**
  * AccountType 타입 가드
  */
 export function isAccountType(value: unknown): value is AccountType {
-  return value === 'linegames' || value === 'personal';
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * AccountInput 타입 가드
+ */
+export function isAccountInput(value: unknown): value is AccountInput {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.name === 'string' &&
+    obj.name.trim().length > 0 &&
+    obj.name.length <= MAX_ACCOUNT_NAME_LENGTH &&
+    typeof obj.icon === 'string' &&
+    typeof obj.credentialFile === 'string' &&
+    ACCOUNT_CREDENTIAL_FILE_PATTERN.test(obj.credentialFile) &&
+    Array.isArray(obj.workspaceIds) &&
+    obj.workspaceIds.every((id) => Number.isInteger(id))
+  );
 }
 
 /**
@@ -51,11 +162,32 @@ export function isAccountSwitchPayload(value: unknown): value is AccountSwitchPa
   return isAccountType(obj.account);
 }
 
+/**
+ * AccountSavePayload 타입 가드
+ */
+export function isAccountSavePayload(value: unknown): value is AccountSavePayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (obj.accountId === undefined || isAccountType(obj.accountId)) && isAccountInput(obj.account);
+}
+
+/**
+ * AccountDeletePayload 타입 가드
+ */
+export function isAccountDeletePayload(value: unknown): value is AccountDeletePayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return isAccountType(obj.accountId);
+}
+
 /**
  * AccountStatusPayload 타입 가드
  */
 export function isAccountStatusPayload(value: unknown): value is AccountStatusPayload {
   if (typeof value !== 'object' || value === null) return false;
   const obj = value as Record<string, unknown>;
-  return isAccountType(obj.current);
+  return (
+    (obj.current === null || isAccountType(obj.current)) &&
+    (obj.accounts === undefined || Array.isArray(obj.accounts))
+  );
 }
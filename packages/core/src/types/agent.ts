@@ -6,22 +6,117 @@
  */
 
 /**
- * 에이전트 타입
+ * 에이전트 타입 (Pylon에 등록된 에이전트 이름)
  *
  * @description
+ * 기본 제공:
  * - `claude`: Claude Code (Anthropic)
  * - `codex`: Codex CLI (OpenAI)
+ *
+ * 그 외 이름은 Pylon 설정(`pylon.agents`)에 등록한 에이전트입니다. (예: `local-llama`)
  */
-export type AgentType = 'claude' | 'codex';
+export type AgentType = string;
 
 /**
  * 기본 에이전트 타입
  */
 export const DEFAULT_AGENT_TYPE: AgentType = 'claude';
 
+/**
+ * 기본 제공 에이전트 타입
+ */
+export const BUILTIN_AGENT_TYPES: readonly AgentType[] = ['claude', 'codex'];
+
+/**
+ * 에이전트 이름 패턴 (소문자로 시작, 소문자/숫자/하이픈, 최대 32자)
+ */
+export const AGENT_TYPE_PATTERN = /^[a-z][a-z0-9-]{0,31}$/;
+
 /**
  * AgentType 타입 가드
  */
 export function isAgentType(value: unknown): value is AgentType {
-  return value === 'claude' || value === 'codex';
+  return typeof value === 'string' && AGENT_TYPE_PATTERN.test(value);
+}
+
+/**
+ * Pylon에 등록된 에이전트 정보 (클라이언트 선택 UI용)
+ */
+export interface AgentBackendInfo {
+  /** 에이전트 이름 (대화의 agentType) */
+  name: AgentType;
+
+  /** 표시 이름 */
+  label: string;
+
+  /** 어댑터 종류 (예: 'claude', 'codex', 'openai-compatible') */
+  adapter: string;
+
+  /** 모델 이름 (설정에 있으면) */
+  model?: string;
+}
+
+/**
+ * AgentBackendInfo 타입 가드
+ */
+export function isAgentBackendInfo(value: unknown): value is AgentBackendInfo {
+  if (typeof value !== 'object' || value === null) return false;
+  const info = value as Record<string, unknown>;
+  return (
+    isAgentType(info.name) &&
+    typeof info.label === 'string' &&
+    typeof info.adapter === 'string' &&
+    (info.model === undefined || typeof info.model === 'string')
+  );
+}
+
+/**
+ * 추론 강도 (생각 예산)
+ *
+ * @description
+ * 어댑터가 각자 맞는 값으로 바꿔서 씁니다.
+ * (Claude `effort`, Codex `modelReasoningEffort`, OpenAI 호환 `reasoning_effort`)
+ */
+export const AGENT_EFFORTS = ['low', 'medium', 'high', 'max'] as const;
+
+export type AgentEffort = (typeof AGENT_EFFORTS)[number];
+
+/**
+ * 대화별 에이전트 설정
+ *
+ * @description
+ * 모든 필드는 선택이며, 없으면 에이전트(어댑터) 기본값을 씁니다.
+ * 턴 한도는 메시지 한 번(응답 한 번), 비용 한도는 대화 전체 누적 비용에 적용되고, 넘으면 Pylon이 응답을 중단합니다.
+ * (누적 비용은 Pylon 메모리에만 있어서 Pylon을 재시작하면 0부터 다시 셉니다.)
+ */
+export interface ConversationAgentSettings {
+  /** 모델 이름 (예: 'claude-opus-4-6', 'gpt-5-codex') */
+  model?: string;
+
+  /** 추론 강도 */
+  effort?: AgentEffort;
+
+  /** 메시지당 최대 턴 수 (모델 호출 수) */
+  maxTurns?: number;
+
+  /** 대화 전체 최대 비용 (USD, 비용을 보고하는 에이전트만) */
+  maxCostUsd?: number;
+}
+
+/**
+ * ConversationAgentSettings 타입 가드
+ */
+export function isConversationAgentSettings(value: unknown): value is ConversationAgentSettings {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const settings = value as Record<string, unknown>;
+  return (
+    Object.keys(settings).every((key) => ['model', 'effort', 'maxTurns', 'maxCostUsd'].includes(key)) &&
+    (settings.model === undefined ||
+      (typeof settings.model === 'string' && settings.model.trim() !== '' && settings.model.length <= 100)) &&
+    (settings.effort === undefined || (AGENT_EFFORTS as readonly unknown[]).includes(settings.effort)) &&
+    (settings.maxTurns === undefined ||
+      (typeof settings.maxTurns === 'number' && Number.isInteger(settings.maxTurns) && settings.maxTurns > 0)) &&
+    (settings.maxCostUsd === undefined ||
+      (typeof settings.maxCostUsd === 'number' && Number.isFinite(settings.maxCostUsd) && settings.maxCostUsd > 0))
+  );
 }
@@ -0,0 +1,167 @@
+/**
+ * @file audit.ts
+ * @description 권한 결정 및 도구 실행 감사 로그 관련 타입 정의
+ *
+ * Pylon은 모든 권한 결정(자동 허용/거부, 사용자 허용/거부)과
+ * 도구 실행 결과를 전체 입력과 함께 추가 전용 로그로 기록합니다.
+ * bypassPermissions 모드에서도 Claude가 실제로 무엇을 했는지 남기기 위함입니다.
+ */
+
+import type { PermissionModeValue } from '../constants/permission-mode.js';
+
+// ============================================================================
+// AuditEntry
+// ============================================================================
+
+/**
+ * 감사 로그 항목 종류
+ *
+ * - `permission`: 도구 실행 권한 결정
+ * - `tool`: 도구 실행 완료 (성공/실패, 실행 시간)
+ */
+export type AuditEntryKind = 'permission' | 'tool';
+
+/**
+ * 권한 결정 종류
+ */
+export type AuditDecision = 'auto_allow' | 'auto_deny' | 'user_allow' | 'user_deny';
+
+/**
+ * 권한을 결정한 클라이언트
+ */
+export interface AuditDecider {
+  /** 클라이언트 deviceId (인코딩된 값) */
+  deviceId: number;
+  /** 디바이스 이름 */
+  name?: string;
+}
+
+/**
+ * 감사 로그 항목
+ *
+ * @example
+ * ```typescript
+ * const entry: AuditEntry = {
+ *   id: 1,
+ *   timestamp: Date.now(),
+ *   kind: 'permission',
+ *   conversationId: 132097,
+ *   workspaceId: 129,
+ *   toolName: 'Bash',
+ *   toolInput: { command: 'pnpm test' },
+ *   decision: 'user_allow',
+ *   decidedBy: { deviceId: 100, name: 'MacBook' },
+ *   permissionMode: 'default',
+ *   durationMs: 3200,
+ * };
+ * ```
+ */
+export interface AuditEntry {
+  /** 항목 ID (기록 순서대로 증가) */
+  id: number;
+  /** 기록 시각 (Unix timestamp, ms) */
+  timestamp: number;
+  /** 항목 종류 */
+  kind: AuditEntryKind;
+  /** 대화 ID */
+  conversationId: number;
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 도구 이름 */
+  toolName: string;
+  /** 도구 전체 입력 */
+  toolInput: Record<string, unknown>;
+  /** SDK 도구 사용 ID (tool 항목) */
+  toolUseId?: string;
+  /** 권한 결정 (permission 항목) */
+  decision?: AuditDecision;
+  /** 결정 사유 (권한 모드, 규칙, 거부 패턴 등) */
+  reason?: string;
+  /** 결정한 클라이언트 (사용자 결정일 때) */
+  decidedBy?: AuditDecider;
+  /** 결정 당시 권한 모드 (permission 항목) */
+  permissionMode?: PermissionModeValue;
+  /** 실행 성공 여부 (tool 항목) */
+  success?: boolean;
+  /** 에러 메시지 (실패한 tool 항목) */
+  error?: string;
+  /** 소요 시간 ms (permission: 사용자 응답 대기, tool: 실행 시간) */
+  durationMs?: number;
+  /** 워크스페이스 이름 (조회 시 채워짐) */
+  workspaceName?: string;
+  /** 대화 이름 (조회 시 채워짐) */
+  conversationName?: string;
+}
+
+// ============================================================================
+// 조회
+// ============================================================================
+
+/**
+ * 감사 로그 조회 요청 페이로드
+ *
+ * App → Pylon: AUDIT_LOG_REQUEST 메시지의 payload (모든 Pylon에 브로드캐스트)
+ */
+export interface AuditLogRequestPayload {
+  /** 요청 식별자 (늦게 도착한 이전 요청의 응답을 무시하기 위함) */
+  requestId: string;
+  /** 특정 대화로 범위 제한 */
+  conversationId?: number;
+  /** 특정 워크스페이스로 범위 제한 */
+  workspaceId?: number;
+  /** 시작 시각 (Unix timestamp, ms, 포함) */
+  from?: number;
+  /** 종료 시각 (Unix timestamp, ms, 미포함) */
+  to?: number;
+  /** 항목 종류 필터 */
+  kind?: AuditEntryKind;
+  /** 권한 결정 필터 */
+  decision?: AuditDecision;
+  /** 최대 항목 수 */
+  limit?: number;
+}
+
+/**
+ * 감사 로그 조회 결과 페이로드
+ *
+ * Pylon → App: AUDIT_LOG_RESULT 메시지의 payload
+ */
+export interface AuditLogResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 요청 식별자 */
+  requestId: string;
+  /** 감사 로그 항목 (최신순) */
+  entries: AuditEntry[];
+  /** limit 때문에 잘린 항목이 더 있는지 */
+  hasMore: boolean;
+  /** 에러 메시지 */
+  error?: string;
+}
+
+// ============================================================================
+// 타입 가드
+// ============================================================================
+
+const ENTRY_KINDS: readonly string[] = ['permission', 'tool'];
+const DECISIONS: readonly string[] = ['auto_allow', 'auto_deny', 'user_allow', 'user_deny'];
+
+/**
+ * AuditLogRequestPayload 타입 가드
+ */
+export function isAuditLogRequestPayload(value: unknown): value is AuditLogRequestPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  const isOptionalNumber = (v: unknown): boolean => v === undefined || typeof v === 'number';
+
+  if (typeof obj.requestId !== 'string') return false;
+  if (!isOptionalNumber(obj.conversationId)) return false;
+  if (!isOptionalNumber(obj.workspaceId)) return false;
+  if (!isOptionalNumber(obj.from)) return false;
+  if (!isOptionalNumber(obj.to)) return false;
+  if (!isOptionalNumber(obj.limit)) return false;
+  if (obj.kind !== undefined && !ENTRY_KINDS.includes(obj.kind as string)) return false;
+  if (obj.decision !== undefined && !DECISIONS.includes(obj.decision as string)) return false;
+  return true;
+}
@@ -73,13 +73,14 @@ export interface ClaudeSendPayload {
  * - `allow`: 이번 요청만 허용
  * - `deny`: 이번 요청 거부
  * - `allowAll`: 이후 동일 유형의 모든 요청 허용
+ * - `allowAlways`: 이번 요청 허용 + 같은 입력을 허용하는 워크스페이스 규칙 추가
  *
  * @example
  * ```typescript
  * const decision: PermissionDecision = 'allow';
  * ```
  */
-export type PermissionDecision = 'allow' | 'deny' | 'allowAll';
+export type PermissionDecision = 'allow' | 'deny' | 'allowAll' | 'allowAlways';
 
 /**
  * 권한 응답 페이로드
@@ -90,7 +91,7 @@ export type PermissionDecision = 'allow' | 'deny' | 'allowAll';
  *
  * @property conversationId - 응답을 전송할 대상 대화의 고유 식별자 (24비트 ConversationId)
  * @property toolUseId - 권한 요청의 고유 식별자 (permission_request 이벤트에서 제공)
- * @property decision - 권한 결정 ('allow', 'deny', 'allowAll')
+ * @property decision - 권한 결정 ('allow', 'deny', 'allowAll', 'allowAlways')
  *
  * @example
  * ```typescript
@@ -292,7 +293,7 @@ function isObject(value: unknown): value is Record<string, unknown> {
 /**
  * 유효한 PermissionDecision 값 목록
  */
-const PERMISSION_DECISIONS: readonly string[] = ['allow', 'deny', 'allowAll'];
+const PERMISSION_DECISIONS: readonly string[] = ['allow', 'deny', 'allowAll', 'allowAlways'];
 
 /**
  * 유효한 ClaudeControlAction 값 목록
@@ -150,20 +150,23 @@ export interface ConversationClaudeState {
  * Widget Protocol을 통해 렌더링되는 UI를 표시합니다.
  *
  * status:
- * - 'pending': widget_ready 수신, 아직 claim 안 함 (시작 버튼 표시)
+ * - 'pending': widget_ready 수신, 아직 claim 안 함 (시작 버튼 표시, 다시 붙는 세션이면 마지막 view도 표시)
  * - 'claiming': widget_claim 전송 완료, CLI 실행 대기 중 (스피너 표시)
  * - 'running': widget_claim 성공, CLI 실행 중 (view 렌더링)
  * - 'completed': widget_complete 수신, 종료 페이지 표시 (모든 클라이언트 브로드캐스트)
+ * - 'error': widget_error 수신 (제한 위반 등으로 종료), 사유 표시
  */
 export interface WidgetSession {
   /** MCP 도구 호출 ID (ToolCard와 연결) */
   toolUseId: string;
   /** Widget 세션 ID */
   sessionId: string;
-  /** 렌더링할 View 노드 (pending/claiming 상태에서는 null) */
+  /** 렌더링할 View 노드 (pending/claiming 상태에서는 다시 붙는 세션의 마지막 view 또는 null) */
   view: ViewNode | null;
   /** 위젯 상태 */
-  status: 'pending' | 'claiming' | 'running' | 'completed';
+  status: 'pending' | 'claiming' | 'running' | 'completed' | 'error';
+  /** 종료 사유 (error 상태) */
+  error?: string;
 }
 
 /**
@@ -0,0 +1,271 @@
+/**
+ * @file e2e.ts
+ * @description Client ↔ Pylon 종단간 암호화(E2E) 타입 정의
+ *
+ * Relay는 라우팅 필드(`type`, `to`, `broadcast`)만 보고 payload는 암호문으로 전달합니다.
+ *
+ * 흐름:
+ * 1. 페어링: Pylon이 만든 일회용 코드(콘솔 출력 또는 페어링된 기기에서 발급)를
+ *    Client에 입력하면 서로의 고정 공개키를 코드 비밀값의 HMAC으로 확인하고 저장합니다
+ * 2. 세션: 연결할 때마다 임시 키를 교환해 (임시 ECDH ‖ 고정 ECDH)에서 세션 키를 만듭니다.
+ *    고정 키가 섞이므로 페어링된 상대만 같은 키를 얻습니다
+ * 3. 메시지: payload를 세션 키(AES-GCM, 메시지 type을 AAD로)로 암호화해 `{ e2e: envelope }`로 보냅니다
+ * 4. 공유 뷰어: 공유 링크의 URL fragment(`#k=...`)에 담긴 공유 전용 키로 암호화합니다.
+ *    fragment는 서버로 전송되지 않으므로 Relay는 키를 알 수 없습니다
+ */
+
+import { MessageType } from '../constants/message-type.js';
+
+// ============================================================================
+// 모드 / 상수
+// ============================================================================
+
+/**
+ * Pylon의 E2E 모드
+ *
+ * - `optional`: 페어링된 Client와는 암호화, 페어링하지 않은 Client와는 평문 (페어링이 없으면 기존 동작)
+ * - `required`: 암호화된 메시지만 주고받음 (평문 요청은 e2e_error로 거절)
+ */
+export type E2eMode = 'optional' | 'required';
+
+/**
+ * 기본 E2E 모드
+ */
+export const DEFAULT_E2E_MODE: E2eMode = 'optional';
+
+/**
+ * 페어링 코드 유효 시간 (ms)
+ */
+export const E2E_PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * 공유 링크 URL fragment의 키 이름 (`/share/<shareId>#k=<key>`)
+ */
+export const SHARE_KEY_FRAGMENT = 'k';
+
+/**
+ * 페어링 링크 URL fragment의 키 이름 (`/#pair=<code>`)
+ */
+export const PAIRING_LINK_FRAGMENT = 'pair';
+
+/**
+ * 항상 평문으로 주고받는 메시지 타입 (키 교환 단계)
+ */
+export const E2E_PLAINTEXT_TYPES: readonly string[] = [
+  MessageType.E2E_PAIR_REQUEST,
+  MessageType.E2E_PAIR_RESULT,
+  MessageType.E2E_HELLO,
+  MessageType.E2E_HELLO_ACK,
+  MessageType.E2E_ANNOUNCE,
+  MessageType.E2E_ERROR,
+];
+
+// ============================================================================
+// 암호문 envelope
+// ============================================================================
+
+/**
+ * 암호화된 payload
+ *
+ * @property kid - 키 ID (세션 키는 Pylon이 발급한 ID, 공유 키는 `share:<shareId>`)
+ * @property iv - AES-GCM IV (base64url, 12바이트)
+ * @property ct - 암호문 + 인증 태그 (base64url)
+ */
+export interface E2eEnvelope {
+  kid: string;
+  iv: string;
+  ct: string;
+}
+
+/**
+ * 암호화된 메시지의 payload 형태
+ */
+export interface E2eEncryptedPayload {
+  e2e: E2eEnvelope;
+}
+
+/**
+ * payload가 암호문인지 확인
+ */
+export function isE2eEncryptedPayload(payload: unknown): payload is E2eEncryptedPayload {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const envelope = (payload as Record<string, unknown>).e2e;
+  if (typeof envelope !== 'object' || envelope === null) return false;
+  const obj = envelope as Record<string, unknown>;
+  return typeof obj.kid === 'string' && typeof obj.iv === 'string' && typeof obj.ct === 'string';
+}
+
+/**
+ * 공유 키의 키 ID
+ */
+export function shareKeyId(shareId: string): string {
+  return `share:${shareId}`;
+}
+
+// ============================================================================
+// 페어링 코드
+// ============================================================================
+
+/**
+ * 페어링 코드의 비밀값 문자셋 (헷갈리는 0/O, 1/I/L 제외)
+ */
+const PAIRING_SECRET_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * 페어링 코드의 비밀값 길이 (4자씩 4묶음, 약 79비트)
+ */
+const PAIRING_SECRET_LENGTH = 16;
+
+/**
+ * 파싱된 페어링 코드
+ */
+export interface PairingCode {
+  /** 페어링할 Pylon의 deviceId (인코딩된 값) */
+  pylonId: number;
+  /** HMAC 키로 쓰는 비밀값 (대문자, 구분자 없음) */
+  secret: string;
+}
+
+/**
+ * 페어링 코드 비밀값 생성
+ */
+export function generatePairingSecret(): string {
+  const bytes = new Uint8Array(PAIRING_SECRET_LENGTH);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => PAIRING_SECRET_CHARS[b % PAIRING_SECRET_CHARS.length]).join('');
+}
+
+/**
+ * 페어링 코드 문자열 (`<pylonId>-XXXX-XXXX-XXXX-XXXX`)
+ */
+export function formatPairingCode(code: PairingCode): string {
+  const groups = code.secret.match(/.{1,4}/g) ?? [];
+  return [String(code.pylonId), ...groups].join('-');
+}
+
+/**
+ * 페어링 코드 파싱 (공백/소문자 허용)
+ *
+ * @returns 형식이 맞지 않으면 null
+ */
+export function parsePairingCode(input: string): PairingCode | null {
+  const parts = input.trim().toUpperCase().split(/[-\s]+/).filter(Boolean);
+  if (parts.length < 2 || !/^\d+$/.test(parts[0])) return null;
+
+  const secret = parts.slice(1).join('');
+  if (secret.length !== PAIRING_SECRET_LENGTH) return null;
+  for (const ch of secret) {
+    if (!PAIRING_SECRET_CHARS.includes(ch)) return null;
+  }
+
+  return { pylonId: Number(parts[0]), secret };
+}
+
+// ============================================================================
+// 메시지 페이로드
+// ============================================================================
+
+/**
+ * 페어링 요청 페이로드
+ *
+ * Client → Pylon: E2E_PAIR_REQUEST (평문)
+ *
+ * @property publicKey - Client 고정 공개키 (P-256 raw, base64url)
+ * @property mac - HMAC(비밀값, 요청 내용) - 코드를 아는 Client만 만들 수 있음
+ */
+export interface E2ePairRequestPayload {
+  publicKey: string;
+  mac: string;
+}
+
+/**
+ * 페어링 결과 페이로드
+ *
+ * Pylon → Client: E2E_PAIR_RESULT (평문)
+ *
+ * @property publicKey - Pylon 고정 공개키 (성공 시)
+ * @property mac - HMAC(비밀값, 결과 내용) - Client가 Pylon 공개키를 확인하는 데 사용
+ */
+export interface E2ePairResultPayload {
+  success: boolean;
+  publicKey?: string;
+  mac?: string;
+  error?: string;
+}
+
+/**
+ * 세션 시작 페이로드
+ *
+ * Client → Pylon: E2E_HELLO (평문)
+ *
+ * @property publicKey - Client 고정 공개키 (Pylon이 페어링 여부 확인)
+ * @property ephemeralKey - 이번 세션의 임시 공개키
+ * @property nonce - 키 유도 salt에 쓰는 난수 (base64url)
+ */
+export interface E2eHelloPayload {
+  publicKey: string;
+  ephemeralKey: string;
+  nonce: string;
+}
+
+/**
+ * 세션 시작 응답 페이로드
+ *
+ * Pylon → Client: E2E_HELLO_ACK (평문)
+ *
+ * @property kid - 세션 키 ID (이후 envelope에 사용)
+ * @property confirm - 세션 키로 암호화한 Client nonce (키 확인용)
+ * @property error - 실패 사유 ('unpaired': 페어링되지 않은 키)
+ */
+export interface E2eHelloAckPayload {
+  success: boolean;
+  kid?: string;
+  ephemeralKey?: string;
+  nonce?: string;
+  confirm?: E2eEnvelope;
+  error?: string;
+}
+
+/**
+ * E2E 상태 알림 페이로드
+ *
+ * Pylon → Clients: E2E_ANNOUNCE (평문, Relay 연결 직후)
+ * 이전 세션은 사라졌으므로 페어링된 Client는 새로 E2E_HELLO를 보냅니다.
+ */
+export interface E2eAnnouncePayload {
+  mode: E2eMode;
+  /** Pylon 고정 공개키 지문 */
+  fingerprint: string;
+}
+
+/**
+ * E2E 에러 사유
+ *
+ * - `required`: Pylon이 암호화된 메시지만 받음 (페어링 필요)
+ * - `no_session`: 모르는 키 ID (Pylon 재시작 등 → 다시 E2E_HELLO)
+ * - `decrypt_failed`: 복호화 실패
+ */
+export type E2eErrorReason = 'required' | 'no_session' | 'decrypt_failed';
+
+/**
+ * E2E 에러 페이로드
+ *
+ * Pylon → Client: E2E_ERROR (평문)
+ *
+ * @property requestType - 거절한 메시지의 type
+ */
+export interface E2eErrorPayload {
+  reason: E2eErrorReason;
+  requestType?: string;
+}
+
+/**
+ * 페어링 코드 발급 결과 페이로드
+ *
+ * Pylon → Client: E2E_PAIRING_CODE_RESULT (암호화, 페어링된 Client의 요청에만 응답)
+ */
+export interface E2ePairingCodeResultPayload {
+  code: string;
+  /** 만료 시각 (Unix timestamp, ms) */
+  expiresAt: number;
+}
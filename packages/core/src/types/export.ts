@@ -0,0 +1,218 @@
+/**
+ * @file export.ts
+ * @description 대화 내보내기/가져오기 관련 타입 정의
+ *
+ * 대화를 Markdown, HTML, JSON 아카이브로 내보낼 때 사용되는 타입들입니다.
+ * JSON 아카이브와 Claude Code 트랜스크립트(JSONL)는 다시 가져올 수 있습니다.
+ */
+
+import type { PermissionModeValue } from '../constants/permission-mode.js';
+import type { AgentType } from './agent.js';
+import type { StoreMessage } from './store-message.js';
+import type { LinkedDocument } from './workspace.js';
+
+/**
+ * 내보내기 형식
+ *
+ * - `markdown`: 읽기용 Markdown 문서
+ * - `html`: 스타일이 포함된 단일 HTML 페이지
+ * - `json`: 첨부 파일을 포함한 버전 지정 아카이브
+ */
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+/**
+ * 지원하는 내보내기 형식 목록
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['markdown', 'html', 'json'];
+
+/**
+ * 대화 아카이브 식별자 (ConversationArchive.format)
+ */
+export const CONVERSATION_ARCHIVE_FORMAT = 'estelle-conversation';
+
+/**
+ * 현재 대화 아카이브 버전
+ */
+export const CONVERSATION_ARCHIVE_VERSION = 1;
+
+/**
+ * 대화 내보내기 요청 페이로드
+ *
+ * App → Pylon: CONVERSATION_EXPORT 메시지의 payload
+ */
+export interface ConversationExportPayload {
+  /** 내보낼 대화 ID */
+  conversationId: number;
+  /** 내보내기 형식 */
+  format: ExportFormat;
+}
+
+/**
+ * 대화 내보내기 결과 페이로드
+ *
+ * Pylon → App: CONVERSATION_EXPORT_RESULT 메시지의 payload
+ * 성공 시 `path`의 파일을 Blob 요청으로 다운로드합니다.
+ */
+export interface ConversationExportResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 대화 ID */
+  conversationId: number;
+  /** 성공 여부 */
+  success: boolean;
+  /** 내보내기 형식 */
+  format?: ExportFormat;
+  /** 생성된 파일명 */
+  filename?: string;
+  /** Pylon 내 파일 경로 (Blob 요청의 localPath) */
+  path?: string;
+  /** MIME 타입 */
+  mimeType?: string;
+  /** 파일 크기 (bytes) */
+  size?: number;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * 아카이브에 포함된 첨부 파일
+ */
+export interface ArchiveAttachment {
+  /** 원본 파일 경로 (메시지에 기록된 경로) */
+  path: string;
+  /** 파일명 */
+  filename: string;
+  /** MIME 타입 */
+  mimeType?: string;
+  /** 파일 내용 (base64) */
+  data: string;
+}
+
+/**
+ * 대화 아카이브 (JSON 내보내기 형식)
+ *
+ * 메시지 원본(StoreMessage)과 첨부 파일을 함께 담아
+ * 다른 Pylon에서 다시 가져올 수 있도록 합니다.
+ */
+export interface ConversationArchive {
+  /** 아카이브 식별자 (항상 'estelle-conversation') */
+  format: typeof CONVERSATION_ARCHIVE_FORMAT;
+  /** 아카이브 버전 */
+  version: number;
+  /** 내보낸 시각 (Unix timestamp, ms) */
+  exportedAt: number;
+  /** 원본 워크스페이스 정보 */
+  workspace: {
+    name: string;
+    workingDir: string;
+  };
+  /** 원본 대화 정보 */
+  conversation: {
+    name: string;
+    agentType: AgentType;
+    /** 에이전트 세션 ID (재개용, 없으면 null) */
+    agentSessionId: string | null;
+    permissionMode: PermissionModeValue;
+    createdAt: number;
+    customSystemPrompt?: string;
+    linkedDocuments?: LinkedDocument[];
+  };
+  /** 메시지 목록 (시간순) */
+  messages: StoreMessage[];
+  /** 첨부 파일 목록 */
+  attachments: ArchiveAttachment[];
+}
+
+/**
+ * 가져오기 원본 형식
+ *
+ * - `archive`: Estelle JSON 아카이브 (ConversationArchive)
+ * - `claude-transcript`: Claude Code 세션 트랜스크립트 (~/.claude/projects/*.jsonl)
+ */
+export type ImportSource = 'archive' | 'claude-transcript';
+
+/**
+ * 대화 가져오기 요청 페이로드
+ *
+ * App → Pylon: CONVERSATION_IMPORT 메시지의 payload
+ * 클라이언트의 파일은 Blob 업로드(context.type = 'conversation_import')로 보냅니다.
+ */
+export interface ConversationImportPayload {
+  /** 대화를 만들 워크스페이스 ID */
+  workspaceId: number;
+  /** Pylon 내 파일 경로 */
+  path: string;
+  /** 대화 이름 (없으면 원본에서 추출) */
+  name?: string;
+}
+
+/**
+ * 대화 가져오기 결과 페이로드
+ *
+ * Pylon → App: CONVERSATION_IMPORT_RESULT 메시지의 payload
+ */
+export interface ConversationImportResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 성공 여부 */
+  success: boolean;
+  /** 생성된 대화 ID */
+  conversationId?: number;
+  /** 생성된 대화 이름 */
+  conversationName?: string;
+  /** 원본 형식 */
+  source?: ImportSource;
+  /** 가져온 메시지 수 */
+  messageCount?: number;
+  /** 에이전트 세션 재개 가능 여부 (agentSessionId 연결됨) */
+  resumable?: boolean;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * ExportFormat 타입 가드
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * ConversationExportPayload 타입 가드
+ */
+export function isConversationExportPayload(value: unknown): value is ConversationExportPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return typeof obj.conversationId === 'number' && isExportFormat(obj.format);
+}
+
+/**
+ * ConversationArchive 타입 가드
+ *
+ * 식별자, 버전, 필수 필드만 확인합니다 (메시지 내용은 검사하지 않음).
+ */
+export function isConversationArchive(value: unknown): value is ConversationArchive {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (obj.format !== CONVERSATION_ARCHIVE_FORMAT) return false;
+  if (typeof obj.version !== 'number' || obj.version > CONVERSATION_ARCHIVE_VERSION) return false;
+  if (typeof obj.conversation !== 'object' || obj.conversation === null) return false;
+  if (typeof (obj.conversation as Record<string, unknown>).name !== 'string') return false;
+  if (!Array.isArray(obj.messages)) return false;
+  if (obj.attachments !== undefined && !Array.isArray(obj.attachments)) return false;
+  return true;
+}
+
+/**
+ * ConversationImportPayload 타입 가드
+ */
+export function isConversationImportPayload(value: unknown): value is ConversationImportPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.workspaceId !== 'number') return false;
+  if (typeof obj.path !== 'string' || !obj.path) return false;
+  if (obj.name !== undefined && typeof obj.name !== 'string') return false;
+  return true;
+}
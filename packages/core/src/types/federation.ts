@@ -0,0 +1,113 @@
+/**
+ * @file federation.ts
+ * @description 멀티 Pylon 활성 세션 집계 관련 타입 정의
+ *
+ * 각 Pylon은 idle이 아닌 대화 목록을 Relay에 보고하고,
+ * Relay는 이를 device_status에 합쳐 앱 클라이언트에게 전달합니다.
+ * 앱은 이 정보로 여러 머신의 대화 상태를 한눈에 보여줍니다.
+ */
+
+import type { ConversationStatusValue } from '../constants/conversation-status.js';
+
+// ============================================================================
+// 활성 세션
+// ============================================================================
+
+/**
+ * Pylon의 활성 세션 (idle이 아닌 대화)
+ *
+ * @example
+ * ```typescript
+ * const session: PylonActiveSession = {
+ *   conversationId: 132097,
+ *   conversationName: '리팩토링',
+ *   workspaceId: 129,
+ *   workspaceName: 'estelle',
+ *   status: 'waiting',
+ * };
+ * ```
+ */
+export interface PylonActiveSession {
+  /** 대화 ID */
+  conversationId: number;
+  /** 대화 이름 */
+  conversationName: string;
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 워크스페이스 이름 */
+  workspaceName: string;
+  /** 대화 상태 (idle 제외) */
+  status: Exclude<ConversationStatusValue, 'idle'>;
+}
+
+/**
+ * 활성 세션 보고 페이로드
+ *
+ * Pylon → Relay: PYLON_SESSIONS 메시지의 payload
+ */
+export interface PylonSessionsPayload {
+  /** 현재 활성 세션 전체 목록 (빈 배열이면 모두 idle) */
+  sessions: PylonActiveSession[];
+}
+
+// ============================================================================
+// 디바이스 상태
+// ============================================================================
+
+/**
+ * device_status의 디바이스 항목
+ *
+ * Relay → App: DEVICE_STATUS 메시지의 devices 원소
+ */
+export interface DeviceStatusItem {
+  /** 디바이스 인덱스 (Relay 내부 라우팅용, 인코딩 전 값) */
+  deviceId: number;
+  /** 디바이스 타입 */
+  deviceType: 'pylon' | 'app' | 'viewer';
+  /** 표시 이름 */
+  name: string;
+  /** 아이콘 */
+  icon: string;
+  /** 연결 시각 (ISO 문자열) */
+  connectedAt: string;
+  /** 활성 세션 목록 (Pylon이 보고한 경우에만) */
+  activeSessions?: PylonActiveSession[];
+}
+
+/**
+ * 디바이스 상태 페이로드
+ */
+export interface DeviceStatusPayload {
+  devices: DeviceStatusItem[];
+}
+
+// ============================================================================
+// 타입 가드
+// ============================================================================
+
+const ACTIVE_STATUSES: readonly string[] = ['working', 'waiting', 'error'];
+
+/**
+ * PylonActiveSession 타입 가드
+ */
+export function isPylonActiveSession(value: unknown): value is PylonActiveSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.conversationId === 'number' &&
+    typeof obj.conversationName === 'string' &&
+    typeof obj.workspaceId === 'number' &&
+    typeof obj.workspaceName === 'string' &&
+    typeof obj.status === 'string' &&
+    ACTIVE_STATUSES.includes(obj.status)
+  );
+}
+
+/**
+ * PylonSessionsPayload 타입 가드
+ */
+export function isPylonSessionsPayload(value: unknown): value is PylonSessionsPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return Array.isArray(obj.sessions) && obj.sessions.every(isPylonActiveSession);
+}
@@ -0,0 +1,58 @@
+/**
+ * @file fork.ts
+ * @description 대화 분기 관련 타입 정의
+ *
+ * 대화의 특정 메시지까지를 복사해 새 대화로 분기할 때 사용되는 타입들입니다.
+ */
+
+/**
+ * 대화 분기 요청 페이로드
+ *
+ * App → Pylon: CONVERSATION_FORK 메시지의 payload
+ */
+export interface ConversationForkPayload {
+  /** 원본 대화 ID */
+  conversationId: number;
+  /** 분기 지점 메시지 ID (이 메시지까지 복사, assistant 텍스트 메시지) */
+  messageId: string;
+  /** 새 대화 이름 (없으면 "{원본 이름} (분기)") */
+  name?: string;
+}
+
+/**
+ * 대화 분기 결과 페이로드
+ *
+ * Pylon → App: CONVERSATION_FORK_RESULT 메시지의 payload
+ */
+export interface ConversationForkResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 원본 대화 ID */
+  conversationId: number;
+  /** 성공 여부 */
+  success: boolean;
+  /** 생성된 대화 ID */
+  newConversationId?: number;
+  /** 복사한 메시지 수 */
+  messageCount?: number;
+  /**
+   * 에이전트 세션 분기 여부
+   * - true: 원본 세션을 분기 지점에서 이어감 (SDK resume + forkSession)
+   * - false: 새 세션에 복사한 히스토리를 주입
+   */
+  resumable?: boolean;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * ConversationForkPayload 타입 가드
+ */
+export function isConversationForkPayload(value: unknown): value is ConversationForkPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.conversationId !== 'number') return false;
+  if (typeof obj.messageId !== 'string' || !obj.messageId) return false;
+  if (obj.name !== undefined && typeof obj.name !== 'string') return false;
+  return true;
+}
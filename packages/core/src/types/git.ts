@@ -0,0 +1,238 @@
+/**
+ * @file git.ts
+ * @description git 관련 타입 정의
+ *
+ * 대화의 작업 디렉토리가 git 리포지터리면 Pylon이 상태/diff/로그를 보여주고,
+ * 대화가 시작될 때 찍어 둔 기준점(baseline)과 비교해 Claude가 바꾼 파일을
+ * 되돌리거나 커밋할 수 있게 합니다.
+ */
+
+// ============================================================================
+// GitStatus
+// ============================================================================
+
+/**
+ * 파일 변경 종류
+ */
+export type GitChangeKind = 'added' | 'modified' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+/**
+ * 변경된 파일 하나
+ */
+export interface GitFileChange {
+  /** 리포지터리 루트 기준 경로 (슬래시 구분) */
+  path: string;
+
+  /** 변경 종류 */
+  kind: GitChangeKind;
+
+  /** 이름이 바뀐 경우 이전 경로 */
+  oldPath?: string;
+}
+
+/**
+ * diff 범위
+ *
+ * - conversation: 대화 기준점 → 작업 트리 (Claude가 이 대화에서 바꾼 내용)
+ * - staged: HEAD → 인덱스
+ * - unstaged: 인덱스 → 작업 트리
+ */
+export type GitDiffScope = 'conversation' | 'staged' | 'unstaged';
+
+/**
+ * 대화 작업 디렉토리의 git 상태
+ *
+ * @example
+ * ```typescript
+ * const status: GitStatus = {
+ *   branch: 'main',
+ *   upstream: 'origin/main',
+ *   ahead: 1,
+ *   behind: 0,
+ *   staged: [],
+ *   unstaged: [{ path: 'src/index.ts', kind: 'modified' }],
+ *   untracked: [],
+ *   baseline: '3f2a1c9...',
+ *   changes: [{ path: 'src/index.ts', kind: 'modified' }],
+ * };
+ * ```
+ */
+export interface GitStatus {
+  /** 현재 브랜치 (detached HEAD면 null) */
+  branch: string | null;
+
+  /** 추적 중인 원격 브랜치 (없으면 null) */
+  upstream: string | null;
+
+  /** upstream보다 앞선 커밋 수 */
+  ahead: number;
+
+  /** upstream보다 뒤처진 커밋 수 */
+  behind: number;
+
+  /** 스테이징된 변경 */
+  staged: GitFileChange[];
+
+  /** 스테이징되지 않은 변경 */
+  unstaged: GitFileChange[];
+
+  /** 추적하지 않는 파일 경로 */
+  untracked: string[];
+
+  /** 대화 기준점 커밋 (아직 메시지를 보내지 않았으면 null) */
+  baseline: string | null;
+
+  /** 기준점 이후 바뀐 파일 (기준점이 없으면 빈 배열) */
+  changes: GitFileChange[];
+}
+
+// ============================================================================
+// GitLog
+// ============================================================================
+
+/**
+ * 커밋 로그 항목
+ */
+export interface GitLogEntry {
+  /** 커밋 해시 */
+  hash: string;
+
+  /** 짧은 커밋 해시 */
+  shortHash: string;
+
+  /** 작성자 이름 */
+  author: string;
+
+  /** 작성 시각 (ISO 8601 형식) */
+  date: string;
+
+  /** 커밋 메시지 첫 줄 */
+  subject: string;
+}
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+/**
+ * git 상태 결과 페이로드
+ *
+ * Pylon → App: GIT_STATUS_RESULT 메시지의 payload
+ */
+export interface GitStatusResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** 성공 여부 (git 리포지터리가 아니면 false) */
+  success: boolean;
+
+  /** git 상태 */
+  status?: GitStatus;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * git diff 결과 페이로드
+ *
+ * Pylon → App: GIT_DIFF_RESULT 메시지의 payload
+ */
+export interface GitDiffResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** diff 범위 */
+  scope: GitDiffScope;
+
+  /** 파일 경로 (전체 diff면 null) */
+  path: string | null;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** unified diff 텍스트 */
+  diff?: string;
+
+  /** diff가 너무 길어 잘렸는지 여부 */
+  truncated?: boolean;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * git 로그 결과 페이로드
+ *
+ * Pylon → App: GIT_LOG_RESULT 메시지의 payload
+ */
+export interface GitLogResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** 최근 커밋 (최신순) */
+  entries?: GitLogEntry[];
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * 파일 되돌리기/커밋 결과 페이로드
+ *
+ * Pylon → App: GIT_REVERT_RESULT, GIT_COMMIT_RESULT 메시지의 payload
+ * (성공하면 이어서 GIT_STATUS_RESULT가 옵니다)
+ */
+export interface GitActionResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** 되돌린 파일 경로 (GIT_REVERT_RESULT) */
+  path?: string;
+
+  /** 만든 커밋 (GIT_COMMIT_RESULT) */
+  commit?: GitLogEntry;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * 커밋 메시지 초안 결과 페이로드
+ *
+ * Pylon → App: GIT_COMMIT_DRAFT_RESULT 메시지의 payload
+ */
+export interface GitCommitDraftResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** Claude가 작성한 커밋 메시지 */
+  message?: string;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
@@ -50,12 +50,59 @@ export * from './account.js';
 // share.js - 대화 공유 관련 타입
 export * from './share.js';
 
+// search.js - 메시지 전문 검색 타입
+export * from './search.js';
+
+// export.js - 대화 내보내기 타입
+export * from './export.js';
+
+// fork.js - 대화 분기 타입
+export * from './fork.js';
+
+// retention.js - 메시지 보관 정책 타입
+export * from './retention.js';
+
+// federation.js - 멀티 Pylon 활성 세션 집계 타입
+export * from './federation.js';
+
+// permission-policy.js - 워크스페이스별 권한 규칙 타입
+export * from './permission-policy.js';
+
+// audit.js - 권한 결정/도구 실행 감사 로그 타입
+export * from './audit.js';
+
+// push.js - Web Push 알림 구독/발송 타입
+export * from './push.js';
+
+// schedule.js - 워크스페이스 예약 실행 타입
+export * from './schedule.js';
+
+// task.js - 태스크 타입
+export * from './task.js';
+
+// worker.js - 태스크 워커 타입
+export * from './worker.js';
+
+// git.js - git 상태/diff/커밋 타입
+export * from './git.js';
+
 // widget.js - Widget Protocol 타입
 export * from './widget.js';
 
+// e2e.js - Client ↔ Pylon 종단간 암호화 타입
+export * from './e2e.js';
+
 // agent.js - 에이전트 타입
 export {
   type AgentType,
+  type AgentBackendInfo,
+  type AgentEffort,
+  type ConversationAgentSettings,
   DEFAULT_AGENT_TYPE,
+  BUILTIN_AGENT_TYPES,
+  AGENT_TYPE_PATTERN,
   isAgentType,
+  AGENT_EFFORTS,
+  isAgentBackendInfo,
+  isConversationAgentSettings,
 } from './agent.js';
@@ -0,0 +1,95 @@
+/**
+ * @file permission-policy.ts
+ * @description 워크스페이스별 권한 규칙 관련 타입 정의
+ *
+ * 기본 자동 허용/거부 목록과 권한 모드 외에, 워크스페이스마다
+ * "Bash `pnpm test*`는 허용", "workingDir 밖 Write는 거부" 같은 규칙을 둡니다.
+ * 규칙은 Pylon이 저장하고 권한 확인 시 평가합니다.
+ */
+
+// ============================================================================
+// PermissionRule
+// ============================================================================
+
+/**
+ * 규칙이 일치했을 때의 동작
+ *
+ * - `allow`: 묻지 않고 허용
+ * - `deny`: 묻지 않고 거부
+ * - `ask`: 자동 허용 대상이어도 사용자에게 확인
+ */
+export type PermissionRuleAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * 경로 조건 (워크스페이스 workingDir 기준)
+ */
+export type PermissionRuleLocation = 'inside' | 'outside';
+
+/**
+ * 권한 규칙
+ *
+ * @description
+ * toolName과 조건(pattern, location)이 모두 일치하면 action을 적용합니다.
+ * 조건을 생략하면 해당 도구의 모든 호출에 일치합니다.
+ * 여러 규칙이 일치하면 deny → ask → allow 순으로 우선합니다.
+ *
+ * @example
+ * ```typescript
+ * const rule: PermissionRule = {
+ *   id: 'rule_1',
+ *   toolName: 'Bash',
+ *   pattern: 'pnpm test*',
+ *   action: 'allow',
+ * };
+ * ```
+ */
+export interface PermissionRule {
+  /** 규칙 고유 식별자 */
+  id: string;
+
+  /** 대상 도구 이름 ('*'이면 모든 도구) */
+  toolName: string;
+
+  /**
+   * 입력 값 패턴 (Bash는 command, 파일 도구는 경로, WebFetch는 url)
+   * `*`는 임의 문자열, `\*`는 문자 그대로의 `*`
+   */
+  pattern?: string;
+
+  /** 경로 조건 (경로 입력이 없는 도구에는 일치하지 않음) */
+  location?: PermissionRuleLocation;
+
+  /** 일치 시 동작 */
+  action: PermissionRuleAction;
+
+  /** 생성 시각 (Unix timestamp) */
+  createdAt?: number;
+}
+
+// ============================================================================
+// 타입 가드
+// ============================================================================
+
+const RULE_ACTIONS: readonly string[] = ['allow', 'deny', 'ask'];
+const RULE_LOCATIONS: readonly string[] = ['inside', 'outside'];
+
+/**
+ * PermissionRule 타입 가드
+ */
+export function isPermissionRule(value: unknown): value is PermissionRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  if (typeof obj.id !== 'string' || !obj.id) return false;
+  if (typeof obj.toolName !== 'string' || !obj.toolName) return false;
+  if (typeof obj.action !== 'string' || !RULE_ACTIONS.includes(obj.action)) return false;
+  if (obj.pattern !== undefined && (typeof obj.pattern !== 'string' || !obj.pattern)) return false;
+  if (
+    obj.location !== undefined &&
+    (typeof obj.location !== 'string' || !RULE_LOCATIONS.includes(obj.location))
+  ) {
+    return false;
+  }
+  if (obj.createdAt !== undefined && typeof obj.createdAt !== 'number') return false;
+  return true;
+}
@@ -0,0 +1,216 @@
+/**
+ * @file push.ts
+ * @description Web Push 알림 관련 타입 정의
+ *
+ * Pylon이 알림 이벤트(권한 요청, 질문, 완료, 에러, 워커 작업 완료)를
+ * Relay에 보고하면, Relay가 구독한 각 App 디바이스의 알림 설정에 맞춰
+ * Web Push로 발송합니다. 브라우저의 푸시 구독은 VAPID 키 하나에 묶이므로
+ * 구독과 발송은 Relay가 담당합니다.
+ */
+
+// ============================================================================
+// 알림 이벤트
+// ============================================================================
+
+/**
+ * 푸시 알림 이벤트 종류
+ *
+ * - `permission`: 도구 실행 권한 요청 대기
+ * - `question`: AskUserQuestion 답변 대기
+ * - `finished`: 응답 완료
+ * - `error`: 에러로 중단
+ * - `task`: 워커 태스크 완료/실패
+ */
+export type PushEventKind = 'permission' | 'question' | 'finished' | 'error' | 'task';
+
+/**
+ * 모든 푸시 알림 이벤트 종류
+ */
+export const PUSH_EVENT_KINDS: readonly PushEventKind[] = [
+  'permission',
+  'question',
+  'finished',
+  'error',
+  'task',
+];
+
+// ============================================================================
+// 구독 / 알림 설정
+// ============================================================================
+
+/**
+ * 브라우저 PushSubscription의 JSON 형태 (PushSubscription.toJSON())
+ */
+export interface WebPushSubscription {
+  /** 푸시 서비스 엔드포인트 URL */
+  endpoint: string;
+  /** 만료 시각 (없으면 null) */
+  expirationTime?: number | null;
+  /** 페이로드 암호화 키 (base64url) */
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * 디바이스별 알림 설정
+ *
+ * App의 settingsStore에 저장되고, 구독할 때 Relay에 함께 전달됩니다.
+ */
+export interface NotificationPreferences {
+  /** 알림 사용 여부 */
+  enabled: boolean;
+  /** 이벤트 종류별 사용 여부 */
+  events: Record<PushEventKind, boolean>;
+  /** 알림을 받지 않을 Pylon ID 목록 */
+  mutedPylonIds: number[];
+  /** 알림을 받지 않을 워크스페이스 ID 목록 (인코딩된 값) */
+  mutedWorkspaceIds: number[];
+}
+
+/**
+ * 기본 알림 설정 (모든 이벤트 사용)
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  events: {
+    permission: true,
+    question: true,
+    finished: true,
+    error: true,
+    task: true,
+  },
+  mutedPylonIds: [],
+  mutedWorkspaceIds: [],
+};
+
+// ============================================================================
+// 메시지 페이로드
+// ============================================================================
+
+/**
+ * Web Push 설정 페이로드
+ *
+ * Relay → App: PUSH_CONFIG 메시지의 payload
+ */
+export interface PushConfigPayload {
+  /** VAPID 공개키 (base64url, 푸시를 지원하지 않으면 null) */
+  publicKey: string | null;
+}
+
+/**
+ * 푸시 구독 페이로드
+ *
+ * App → Relay: PUSH_SUBSCRIBE 메시지의 payload (설정이 바뀔 때마다 다시 전송)
+ */
+export interface PushSubscribePayload {
+  subscription: WebPushSubscription;
+  preferences: NotificationPreferences;
+}
+
+/**
+ * 푸시 구독 해제 페이로드
+ *
+ * App → Relay: PUSH_UNSUBSCRIBE 메시지의 payload
+ */
+export interface PushUnsubscribePayload {
+  endpoint: string;
+}
+
+/**
+ * 푸시 알림 발송 요청 페이로드
+ *
+ * Pylon → Relay: PUSH_NOTIFY 메시지의 payload
+ */
+export interface PushNotifyPayload {
+  /** 이벤트 종류 */
+  event: PushEventKind;
+  /** 알림 제목 */
+  title: string;
+  /** 알림 본문 */
+  body: string;
+  /** 관련 대화 ID */
+  conversationId?: number;
+  /** 관련 워크스페이스 ID (인코딩된 값) */
+  workspaceId?: number;
+}
+
+/**
+ * Service Worker가 받는 푸시 데이터
+ *
+ * Relay가 PushNotifyPayload에 발신 Pylon 정보를 붙여 암호화 전송합니다.
+ */
+export interface PushMessageData extends PushNotifyPayload {
+  /** 알림을 보낸 Pylon ID */
+  pylonId: number;
+  /** 같은 대화의 알림을 대체하기 위한 태그 */
+  tag: string;
+}
+
+// ============================================================================
+// 타입 가드
+// ============================================================================
+
+/**
+ * PushEventKind 타입 가드
+ */
+export function isPushEventKind(value: unknown): value is PushEventKind {
+  return typeof value === 'string' && (PUSH_EVENT_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * WebPushSubscription 타입 가드
+ */
+export function isWebPushSubscription(value: unknown): value is WebPushSubscription {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.endpoint !== 'string' || !obj.endpoint.startsWith('https://')) return false;
+
+  const keys = obj.keys as Record<string, unknown> | undefined;
+  return (
+    typeof keys === 'object' &&
+    keys !== null &&
+    typeof keys.p256dh === 'string' &&
+    typeof keys.auth === 'string'
+  );
+}
+
+/**
+ * NotificationPreferences 타입 가드
+ */
+export function isNotificationPreferences(value: unknown): value is NotificationPreferences {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.enabled !== 'boolean') return false;
+
+  const events = obj.events as Record<string, unknown> | undefined;
+  if (typeof events !== 'object' || events === null) return false;
+  if (!PUSH_EVENT_KINDS.every((kind) => typeof events[kind] === 'boolean')) return false;
+
+  const isNumberArray = (v: unknown): boolean =>
+    Array.isArray(v) && v.every((n) => typeof n === 'number');
+  return isNumberArray(obj.mutedPylonIds) && isNumberArray(obj.mutedWorkspaceIds);
+}
+
+/**
+ * PushSubscribePayload 타입 가드
+ */
+export function isPushSubscribePayload(value: unknown): value is PushSubscribePayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return isWebPushSubscription(obj.subscription) && isNotificationPreferences(obj.preferences);
+}
+
+/**
+ * PushNotifyPayload 타입 가드
+ */
+export function isPushNotifyPayload(value: unknown): value is PushNotifyPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (!isPushEventKind(obj.event)) return false;
+  if (typeof obj.title !== 'string' || typeof obj.body !== 'string') return false;
+  if (obj.conversationId !== undefined && typeof obj.conversationId !== 'number') return false;
+  if (obj.workspaceId !== undefined && typeof obj.workspaceId !== 'number') return false;
+  return true;
+}
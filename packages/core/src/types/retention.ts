@@ -0,0 +1,113 @@
+/**
+ * @file retention.ts
+ * @description 메시지 보관 정책 관련 타입 정의
+ *
+ * 대화 메시지는 개수 제한 없이 보관하되, 오래된 도구 입출력은
+ * 압축해 별도 테이블로 옮기고 메시지에는 미리보기만 남깁니다.
+ * 정책은 워크스페이스별로 설정합니다.
+ */
+
+import type { StoreMessage } from './store-message.js';
+
+// ============================================================================
+// RetentionPolicy
+// ============================================================================
+
+/**
+ * 메시지 보관 정책
+ *
+ * @example
+ * ```typescript
+ * const policy: RetentionPolicy = {
+ *   recentMessages: 200,
+ *   outputPreviewLength: 500,
+ *   inputPreviewLength: 300,
+ *   maxMessages: null,
+ * };
+ * ```
+ */
+export interface RetentionPolicy {
+  /** 도구 입출력을 원문 그대로 유지할 최근 메시지 수 (이보다 오래되면 보관 테이블로 이동) */
+  recentMessages: number;
+
+  /** 보관/전송 시 도구 출력(에러 포함) 미리보기 길이 */
+  outputPreviewLength: number;
+
+  /** 보관/전송 시 도구 입력 값 미리보기 길이 */
+  inputPreviewLength: number;
+
+  /** 대화당 최대 메시지 수 (null이면 무제한, 초과 시 오래된 메시지부터 삭제) */
+  maxMessages: number | null;
+}
+
+/**
+ * 기본 보관 정책 (워크스페이스에 설정이 없을 때)
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  recentMessages: 200,
+  outputPreviewLength: 500,
+  inputPreviewLength: 300,
+  maxMessages: null,
+};
+
+/**
+ * RetentionPolicy 타입 가드
+ */
+export function isRetentionPolicy(value: unknown): value is RetentionPolicy {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  const isCount = (v: unknown, min: number): boolean =>
+    typeof v === 'number' && Number.isInteger(v) && v >= min;
+
+  if (!isCount(obj.recentMessages, 0)) return false;
+  if (!isCount(obj.outputPreviewLength, 1)) return false;
+  if (!isCount(obj.inputPreviewLength, 1)) return false;
+  if (obj.maxMessages !== null && !isCount(obj.maxMessages, 1)) return false;
+  return true;
+}
+
+// ============================================================================
+// 전체 도구 출력 조회
+// ============================================================================
+
+/**
+ * 전체 도구 출력 요청 페이로드
+ *
+ * App → Pylon: TOOL_OUTPUT_REQUEST 메시지의 payload
+ */
+export interface ToolOutputRequestPayload {
+  /** 대화 ID */
+  conversationId: number;
+  /** 도구 메시지 ID (truncated 표시된 tool_complete) */
+  messageId: string;
+}
+
+/**
+ * 전체 도구 출력 결과 페이로드
+ *
+ * Pylon → App: TOOL_OUTPUT_RESULT 메시지의 payload
+ */
+export interface ToolOutputResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 대화 ID */
+  conversationId: number;
+  /** 도구 메시지 ID */
+  messageId: string;
+  /** 원문 입출력이 복원된 메시지 (없으면 실패) */
+  message?: StoreMessage;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * ToolOutputRequestPayload 타입 가드
+ */
+export function isToolOutputRequestPayload(value: unknown): value is ToolOutputRequestPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.conversationId !== 'number') return false;
+  if (typeof obj.messageId !== 'string' || !obj.messageId) return false;
+  return true;
+}
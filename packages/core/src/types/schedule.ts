@@ -0,0 +1,205 @@
+/**
+ * @file schedule.ts
+ * @description 워크스페이스 예약 실행(스케줄) 관련 타입 정의
+ *
+ * 워크스페이스에 cron 일정을 걸어두면 Pylon이 정해진 시각에
+ * 저장된 커맨드 또는 직접 입력한 프롬프트를 대화로 보내 실행합니다.
+ */
+
+import { isValidCron } from '../utils/cron.js';
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * 예약 실행할 내용
+ *
+ * - `command`: CommandStore에 저장된 커맨드 (실행 시점의 내용을 사용)
+ * - `text`: 직접 입력한 프롬프트
+ */
+export type ScheduleAction =
+  | { kind: 'command'; commandId: number }
+  | { kind: 'text'; text: string };
+
+/**
+ * 실행할 대화 선택 방식
+ *
+ * - `reuse`: 같은 이름의 대화가 있으면 이어서 실행, 없으면 생성
+ * - `new`: 매번 새 대화 생성
+ */
+export type ScheduleConversationMode = 'reuse' | 'new';
+
+/**
+ * 예약 생성/수정 입력
+ */
+export interface ScheduleInput {
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 예약 이름 */
+  name: string;
+  /** cron 표현식 (분 시 일 월 요일, Pylon 로컬 시간) */
+  cron: string;
+  /** 실행할 내용 */
+  action: ScheduleAction;
+  /** 대화 선택 방식 */
+  conversationMode: ScheduleConversationMode;
+  /** 대화 이름 (없으면 예약 이름 사용) */
+  conversationName?: string;
+  /** 사용 여부 */
+  enabled: boolean;
+}
+
+/**
+ * 예약 실행 결과 상태
+ *
+ * - `succeeded`: 대화에 메시지를 보냈고 응답이 성공으로 끝남
+ * - `failed`: 워크스페이스/커맨드가 없거나 대화 응답이 에러로 끝나는 등의 이유로 실패
+ * - `skipped`: 이전 실행이 아직 진행 중이라 건너뜀
+ * - `started`: 대화에 메시지를 보냄 (응답 결과를 기다리지 않던 이전 버전의 기록)
+ */
+export type ScheduleRunStatus = 'succeeded' | 'failed' | 'skipped' | 'started';
+
+/**
+ * 예약 실행 기록
+ */
+export interface ScheduleRun {
+  /** 예약 ID */
+  scheduleId: number;
+  /** 실행 시각 (Unix timestamp, ms) */
+  runAt: number;
+  /** 실행 결과 */
+  status: ScheduleRunStatus;
+  /** 수동 실행 여부 (지금 실행) */
+  manual: boolean;
+  /** 메시지를 보낸 대화 ID */
+  conversationId?: number;
+  /** 실패/건너뜀 사유 */
+  error?: string;
+}
+
+/**
+ * 예약
+ *
+ * @example
+ * ```typescript
+ * const schedule: Schedule = {
+ *   scheduleId: 1,
+ *   workspaceId: 129,
+ *   name: '의존성 점검',
+ *   cron: '0 9 * * 1-5',
+ *   action: { kind: 'command', commandId: 3 },
+ *   conversationMode: 'reuse',
+ *   enabled: true,
+ *   createdAt: 1700000000000,
+ *   nextRunAt: 1700038800000,
+ * };
+ * ```
+ */
+export interface Schedule extends ScheduleInput {
+  /** 예약 ID */
+  scheduleId: number;
+  /** 생성 시각 (Unix timestamp, ms) */
+  createdAt: number;
+  /** 다음 실행 시각 (꺼져 있으면 null) */
+  nextRunAt: number | null;
+  /** 마지막 실행 기록 */
+  lastRun?: ScheduleRun;
+}
+
+// ============================================================================
+// 메시지 페이로드
+// ============================================================================
+
+/**
+ * 예약 목록 페이로드
+ *
+ * Pylon → App: SCHEDULE_LIST_RESULT 메시지의 payload (요청 응답 및 변경 시 브로드캐스트)
+ */
+export interface ScheduleListResultPayload {
+  /** Pylon deviceId */
+  deviceId: number;
+  /** Pylon의 전체 예약 목록 */
+  schedules: Schedule[];
+}
+
+/**
+ * 예약 저장 요청 페이로드
+ *
+ * App → Pylon: SCHEDULE_SAVE 메시지의 payload (scheduleId가 있으면 수정)
+ */
+export interface ScheduleSavePayload {
+  scheduleId?: number;
+  schedule: ScheduleInput;
+}
+
+/**
+ * 예약 저장 결과 페이로드
+ *
+ * Pylon → App: SCHEDULE_SAVE_RESULT 메시지의 payload (요청한 클라이언트에게만)
+ */
+export interface ScheduleSaveResultPayload {
+  deviceId: number;
+  success: boolean;
+  schedule?: Schedule;
+  error?: string;
+}
+
+/**
+ * 예약 실행 보고 페이로드
+ *
+ * Pylon → App: SCHEDULE_RUN_RESULT 메시지의 payload (모든 클라이언트에 브로드캐스트)
+ */
+export interface ScheduleRunResultPayload {
+  deviceId: number;
+  /** 예약 이름 */
+  name: string;
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 실행 기록 */
+  run: ScheduleRun;
+}
+
+// ============================================================================
+// 타입 가드
+// ============================================================================
+
+/**
+ * ScheduleAction 타입 가드
+ */
+export function isScheduleAction(value: unknown): value is ScheduleAction {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (obj.kind === 'command') return typeof obj.commandId === 'number';
+  if (obj.kind === 'text') return typeof obj.text === 'string' && obj.text.trim() !== '';
+  return false;
+}
+
+/**
+ * ScheduleInput 타입 가드 (cron 표현식 유효성 포함)
+ */
+export function isScheduleInput(value: unknown): value is ScheduleInput {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.workspaceId === 'number' &&
+    typeof obj.name === 'string' &&
+    obj.name.trim() !== '' &&
+    typeof obj.cron === 'string' &&
+    isValidCron(obj.cron) &&
+    isScheduleAction(obj.action) &&
+    (obj.conversationMode === 'reuse' || obj.conversationMode === 'new') &&
+    (obj.conversationName === undefined || typeof obj.conversationName === 'string') &&
+    typeof obj.enabled === 'boolean'
+  );
+}
+
+/**
+ * ScheduleSavePayload 타입 가드
+ */
+export function isScheduleSavePayload(value: unknown): value is ScheduleSavePayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (obj.scheduleId !== undefined && typeof obj.scheduleId !== 'number') return false;
+  return isScheduleInput(obj.schedule);
+}
@@ -0,0 +1,78 @@
+/**
+ * @file search.ts
+ * @description 메시지 전문 검색 관련 타입 정의
+ *
+ * Pylon의 메시지 히스토리(FTS5 인덱스)를 검색할 때 사용되는 타입들입니다.
+ */
+
+/**
+ * 검색 요청 페이로드
+ *
+ * App → Pylon: SEARCH_REQUEST 메시지의 payload
+ */
+export interface SearchRequestPayload {
+  /** 검색어 (공백으로 구분된 단어는 AND 조건) */
+  query: string;
+  /** 특정 워크스페이스로 범위 제한 (없으면 Pylon의 전체 워크스페이스) */
+  workspaceId?: number;
+  /** 최대 결과 수 */
+  limit?: number;
+}
+
+/**
+ * 검색 결과 항목
+ *
+ * 매칭된 메시지 하나와 해당 메시지로 이동하기 위한 위치 정보를 담습니다.
+ */
+export interface SearchHit {
+  /** 워크스페이스 ID */
+  workspaceId: number;
+  /** 워크스페이스 이름 */
+  workspaceName: string;
+  /** 대화 ID */
+  conversationId: number;
+  /** 대화 이름 */
+  conversationName: string;
+  /** 매칭된 메시지 ID */
+  messageId: string;
+  /** 메시지 역할 */
+  role: 'user' | 'assistant';
+  /** 메시지 타입 (text, tool_start, tool_complete) */
+  messageType: string;
+  /** 도구 이름 (도구 메시지인 경우) */
+  toolName?: string;
+  /** 매칭 부분 발췌 (매칭 단어는 [[ ]]로 감싸짐) */
+  snippet: string;
+  /** 메시지 시각 (Unix timestamp, ms) */
+  timestamp: number;
+  /** 대화 내 메시지 인덱스 (0부터, 시간순) - 히스토리 페이징 기준 */
+  index: number;
+}
+
+/**
+ * 검색 결과 페이로드
+ *
+ * Pylon → App: SEARCH_RESULT 메시지의 payload
+ */
+export interface SearchResultPayload {
+  /** 응답한 Pylon의 deviceId */
+  deviceId: number;
+  /** 요청한 검색어 */
+  query: string;
+  /** 검색 결과 (최신순) */
+  results: SearchHit[];
+  /** 에러 메시지 (잘못된 검색어 등) */
+  error?: string;
+}
+
+/**
+ * SearchRequestPayload 타입 가드
+ */
+export function isSearchRequestPayload(value: unknown): value is SearchRequestPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.query !== 'string') return false;
+  if (obj.workspaceId !== undefined && typeof obj.workspaceId !== 'number') return false;
+  if (obj.limit !== undefined && typeof obj.limit !== 'number') return false;
+  return true;
+}
@@ -34,6 +34,7 @@ const SHARE_ID_LENGTH = 12;
  * @property conversationId - 공유되는 원본 대화의 ID
  * @property createdAt - 공유 생성 시간 (Unix timestamp, ms)
  * @property accessCount - 공유 링크 접근 횟수
+ * @property key - 뷰어 메시지 암호화 키 (base64url, 링크의 URL fragment로만 전달)
  *
  * @example
  * ```typescript
@@ -60,6 +61,9 @@ export interface ShareInfo {
 
   /** 공유 링크 접근 횟수 */
   accessCount: number;
+
+  /** 뷰어 메시지 암호화 키 (base64url, 이전 버전에서 만든 공유에는 없음) */
+  key?: string;
 }
 
 /**
@@ -217,6 +217,9 @@ export interface ToolStartMessage extends BaseStoreMessage {
 
   /** 부모 도구 사용 ID (서브에이전트 내부 호출 시) */
   parentToolUseId?: string | null;
+
+  /** 도구 입력이 미리보기로 잘렸는지 여부 (원문은 TOOL_OUTPUT_REQUEST로 조회) */
+  truncated?: boolean;
 }
 
 /**
@@ -250,6 +253,9 @@ export interface ToolCompleteMessage extends BaseStoreMessage {
 
   /** 부모 도구 사용 ID (서브에이전트 내부 호출 시) */
   parentToolUseId?: string | null;
+
+  /** 도구 입출력이 미리보기로 잘렸는지 여부 (원문은 TOOL_OUTPUT_REQUEST로 조회) */
+  truncated?: boolean;
 }
 
 /**
@@ -0,0 +1,183 @@
+/**
+ * @file task.ts
+ * @description 태스크 관련 타입 정의
+ *
+ * 태스크는 워크스페이스 workingDir의 task/ 폴더에 마크다운 파일로 저장되고,
+ * 워커가 의존 관계와 우선순위에 따라 하나씩(또는 병렬로) 처리합니다.
+ */
+
+import type { WorkerStatus } from './worker.js';
+
+// ============================================================================
+// Task
+// ============================================================================
+
+/**
+ * 태스크 상태
+ */
+export type TaskStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * 모든 태스크 상태 (보드 컬럼 순서)
+ */
+export const TASK_STATUSES: readonly TaskStatus[] = ['pending', 'running', 'done', 'failed'];
+
+/**
+ * 태스크 요약 (목록용, 본문 제외)
+ *
+ * Pylon TaskManager의 TaskMeta와 같은 모양입니다.
+ */
+export interface TaskSummary {
+  /** 태스크 ID (UUID) */
+  id: string;
+
+  /** 태스크 제목 */
+  title: string;
+
+  /** 태스크 상태 */
+  status: TaskStatus;
+
+  /** 우선순위 (클수록 먼저 실행) */
+  priority: number;
+
+  /** 먼저 done이 되어야 하는 태스크 ID 목록 */
+  dependsOn: string[];
+
+  /** 실패 시 재시도 횟수 상한 */
+  maxRetries: number;
+
+  /** 지금까지 재시도한 횟수 */
+  retryCount: number;
+
+  /** 실행 제한 시간 (분 단위, 없으면 null) */
+  timeout: number | null;
+
+  /** 생성 시각 (ISO 8601 형식) */
+  createdAt: string;
+
+  /** 시작 시각 (ISO 8601 형식, 시작 전 null) */
+  startedAt: string | null;
+
+  /** 완료 시각 (ISO 8601 형식, 완료 전 null) */
+  completedAt: string | null;
+
+  /** 마지막 에러 메시지 */
+  error: string | null;
+
+  /** 워커가 worktree에서 작업한 결과를 커밋해 둔 브랜치 (병합/버리기 전까지, 없으면 null) */
+  branch: string | null;
+
+  /** 파일 이름 */
+  fileName: string;
+}
+
+/**
+ * 태스크 상세 (본문 포함)
+ */
+export interface TaskDetail extends TaskSummary {
+  /** 태스크 본문 (마크다운) */
+  content: string;
+
+  /** 본문이 잘렸는지 여부 */
+  truncated: boolean;
+}
+
+/**
+ * 태스크 결과 브랜치 처리
+ *
+ * - merge: 워크스페이스 체크아웃에 병합한 뒤 브랜치 삭제
+ * - discard: 병합하지 않고 브랜치 삭제
+ */
+export type TaskBranchAction = 'merge' | 'discard';
+
+/**
+ * 태스크 생성/수정 입력
+ *
+ * App → Pylon: TASK_CREATE(전체), TASK_UPDATE(Partial, 바꿀 필드만)
+ */
+export interface TaskInput {
+  /** 태스크 제목 */
+  title: string;
+
+  /** 태스크 본문 (마크다운) */
+  body: string;
+
+  /** 우선순위 (정수) */
+  priority?: number;
+
+  /** 의존 태스크 ID 목록 */
+  dependsOn?: string[];
+
+  /** 재시도 횟수 상한 */
+  maxRetries?: number;
+
+  /** 실행 제한 시간 (분, null이면 제한 없음) */
+  timeout?: number | null;
+}
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+/**
+ * 태스크 목록 결과 페이로드
+ *
+ * Pylon → App: TASK_LIST_RESULT 메시지의 payload (요청 응답 또는 브로드캐스트)
+ */
+export interface TaskListResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 워크스페이스 ID */
+  workspaceId: number;
+
+  /** 태스크 목록 (파일명 내림차순) */
+  tasks: TaskSummary[];
+
+  /** 워커 상태 (브로드캐스트일 때 포함) */
+  workerStatus?: WorkerStatus;
+}
+
+/**
+ * 태스크 조회 결과 페이로드
+ *
+ * Pylon → App: TASK_GET_RESULT 메시지의 payload
+ */
+export interface TaskGetResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 워크스페이스 ID */
+  workspaceId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** 태스크 상세 */
+  task?: TaskDetail;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
+/**
+ * 태스크 변경 결과 페이로드
+ *
+ * Pylon → App: TASK_STATUS_RESULT 메시지의 payload (생성/수정/상태 변경 응답)
+ */
+export interface TaskStatusResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 워크스페이스 ID */
+  workspaceId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** 변경된 태스크 */
+  task?: TaskSummary;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
@@ -64,6 +64,136 @@ export interface ScriptViewNode {
   height?: number;                    // 초기 높이 (없으면 auto)
 }
 
+// ============================================================================
+// Form View Types (선언형 입력)
+// ============================================================================
+//
+// 클라이언트가 직접 렌더링하는 입력 노드들입니다. id가 있는 노드의 값은
+// 클라이언트가 모아 두었다가 button을 누르면 (또는 submitOnChange 노드가 바뀌면)
+// WidgetPylonInputMessage의 data(WidgetFormInputData)로 CLI에 전달합니다.
+
+/**
+ * 폼 값 (input/select → string, checkbox → boolean, slider → number, table → 선택한 행 인덱스)
+ */
+export type WidgetFormValue = string | number | boolean | null;
+
+/**
+ * 텍스트 입력 노드
+ */
+export interface InputViewNode {
+  type: 'input';
+  id: string;
+  label?: string;
+  placeholder?: string;
+  value?: string;
+  inputType?: 'text' | 'number' | 'password' | 'multiline';
+  /** 값이 바뀔 때마다 바로 전송 */
+  submitOnChange?: boolean;
+}
+
+/**
+ * 선택 목록 옵션
+ */
+export interface SelectOption {
+  value: string;
+  label?: string;
+}
+
+/**
+ * 선택 목록 노드
+ */
+export interface SelectViewNode {
+  type: 'select';
+  id: string;
+  label?: string;
+  options: Array<string | SelectOption>;
+  value?: string;
+  submitOnChange?: boolean;
+}
+
+/**
+ * 체크박스 노드
+ */
+export interface CheckboxViewNode {
+  type: 'checkbox';
+  id: string;
+  label: string;
+  checked?: boolean;
+  submitOnChange?: boolean;
+}
+
+/**
+ * 슬라이더 노드
+ */
+export interface SliderViewNode {
+  type: 'slider';
+  id: string;
+  label?: string;
+  min: number;
+  max: number;
+  step?: number;
+  value?: number;
+  submitOnChange?: boolean;
+}
+
+/**
+ * 버튼 노드 (누르면 폼 값과 함께 전송)
+ */
+export interface ButtonViewNode {
+  type: 'button';
+  id: string;
+  label: string;
+  variant?: 'primary' | 'secondary' | 'danger';
+  disabled?: boolean;
+}
+
+/**
+ * 표 노드 (id가 있으면 행을 선택할 수 있고, 값은 선택한 행 인덱스)
+ */
+export interface TableViewNode {
+  type: 'table';
+  id?: string;
+  columns: string[];
+  rows: Array<Array<string | number | boolean | null>>;
+  selected?: number;
+  submitOnChange?: boolean;
+}
+
+/**
+ * 진행률 노드
+ */
+export interface ProgressViewNode {
+  type: 'progress';
+  value: number;
+  /** 최대값 (기본값: 100) */
+  max?: number;
+  label?: string;
+}
+
+/**
+ * 값을 가지는 폼 노드
+ */
+export type FieldViewNode =
+  | InputViewNode
+  | SelectViewNode
+  | CheckboxViewNode
+  | SliderViewNode
+  | TableViewNode;
+
+/**
+ * 폼 입력 데이터 (WidgetPylonInputMessage.data)
+ *
+ * - button: 누른 버튼 id (버튼으로 보냈을 때)
+ * - field: 바뀐 노드 id (submitOnChange로 보냈을 때)
+ * - values: 화면에 있는 모든 폼 노드의 현재 값
+ */
+export interface WidgetFormInputData {
+  [key: string]: unknown;
+  button?: string;
+  field?: string;
+  values: Record<string, WidgetFormValue>;
+}
+
 /**
  * 모든 뷰 노드 유니온
  */
@@ -73,7 +203,14 @@ export type ViewNode =
   | ImageViewNode
   | SpacerViewNode
   | HtmlViewNode
-  | ScriptViewNode;
+  | ScriptViewNode
+  | InputViewNode
+  | SelectViewNode
+  | CheckboxViewNode
+  | SliderViewNode
+  | ButtonViewNode
+  | TableViewNode
+  | ProgressViewNode;
 
 // ============================================================================
 // CLI Protocol Messages
@@ -241,6 +378,61 @@ export function isScriptViewNode(node: ViewNode): node is ScriptViewNode {
   return node.type === 'script';
 }
 
+/**
+ * 값을 가지는 폼 노드인지 (id 없는 table은 표시 전용)
+ */
+export function isFieldViewNode(node: ViewNode): node is FieldViewNode {
+  switch (node.type) {
+    case 'input':
+    case 'select':
+    case 'checkbox':
+    case 'slider':
+      return true;
+    case 'table':
+      return typeof node.id === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * 폼 노드의 초기 값
+ */
+export function getFieldDefaultValue(node: FieldViewNode): WidgetFormValue {
+  switch (node.type) {
+    case 'input':
+      return node.value ?? '';
+    case 'select': {
+      if (node.value !== undefined) return node.value;
+      const first = node.options[0];
+      if (first === undefined) return null;
+      return typeof first === 'string' ? first : first.value;
+    }
+    case 'checkbox':
+      return node.checked ?? false;
+    case 'slider':
+      return node.value ?? node.min;
+    case 'table':
+      return node.selected ?? null;
+  }
+}
+
+/**
+ * 뷰 트리의 모든 폼 노드 초기 값 (id → 값)
+ */
+export function collectFieldDefaults(view: ViewNode): Record<string, WidgetFormValue> {
+  const values: Record<string, WidgetFormValue> = {};
+  const visit = (node: ViewNode) => {
+    if (isFieldViewNode(node)) {
+      values[node.id!] = getFieldDefaultValue(node);
+    } else if (node.type === 'row' || node.type === 'column') {
+      node.children.forEach(visit);
+    }
+  };
+  visit(view);
+  return values;
+}
+
 export function isWidgetCliEventMessage(value: unknown): value is WidgetCliEventMessage {
   return isObject(value) && value.type === 'event' && 'data' in value;
 }
@@ -362,6 +554,8 @@ export interface WidgetErrorPayload {
   sessionId: string;
   toolUseId: string;
   error: string;
+  /** 샌드박스 제한 위반으로 종료된 경우 */
+  limit?: WidgetLimitKind;
 }
 
 // Type Guards
@@ -425,3 +619,211 @@ export function isWidgetErrorPayload(value: unknown): value is WidgetErrorPayloa
     typeof value.error === 'string'
   );
 }
+
+// ============================================================================
+// Widget Registry (위젯 패키지 카탈로그)
+// ============================================================================
+
+/**
+ * 위젯 입력 필드 스키마 (JSON Schema 부분 집합)
+ */
+export interface WidgetInputProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  /** 필드 설명 (입력 폼 라벨/Claude 안내) */
+  description?: string;
+  /** 허용 값 목록 */
+  enum?: Array<string | number>;
+  /** 생략 시 기본값 */
+  default?: string | number | boolean;
+  /** 숫자 최솟값 */
+  minimum?: number;
+  /** 숫자 최댓값 */
+  maximum?: number;
+}
+
+/**
+ * 위젯 입력 스키마
+ */
+export interface WidgetInputSchema {
+  type: 'object';
+  properties: Record<string, WidgetInputProperty>;
+  required?: string[];
+}
+
+/**
+ * 위젯 패키지 manifest (패키지 폴더의 widget.json)
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "quiver",
+ *   "title": "Quiver",
+ *   "icon": "🏹",
+ *   "entry": "dist/index.js",
+ *   "args": ["{prompt}"],
+ *   "env": ["HF_TOKEN"],
+ *   "inputSchema": { "type": "object", "properties": { "prompt": { "type": "string" } } }
+ * }
+ * ```
+ */
+export interface WidgetManifest {
+  /** 위젯 이름 (카탈로그에서 유일) */
+  name: string;
+  /** 표시 이름 (기본: name) */
+  title?: string;
+  description?: string;
+  /** 아이콘 (이모지) */
+  icon?: string;
+  /** 실행 파일 (패키지 폴더 기준 상대 경로) */
+  entry: string;
+  /** CLI 인자 템플릿 ({필드명}을 입력값으로 치환) */
+  args?: string[];
+  /** 실행에 필요한 환경변수 이름 */
+  env?: string[];
+  /** 입력 스키마 */
+  inputSchema?: WidgetInputSchema;
+  /** 샌드박스 실행 옵션 (없으면 Pylon 권한/환경변수 그대로 실행) */
+  sandbox?: WidgetSandbox;
+}
+
+/**
+ * 위젯 샌드박스 옵션
+ *
+ * 지정하면 Pylon 환경변수를 기본 시스템 변수와 env 목록만 넘기고, 제한을 넘으면 위젯을 종료합니다.
+ */
+export interface WidgetSandbox {
+  /** 추가로 넘길 Pylon 환경변수 이름 (manifest의 필수 env는 자동 포함) */
+  env?: string[];
+  /** 작업 디렉토리 가두기 (bwrap으로 작업 디렉토리 밖은 읽기 전용/홈 숨김, Linux + bwrap만 지원하고 그 밖에서는 실행 거부) */
+  jail?: boolean;
+  /** 실행 시간 제한 (초) */
+  timeoutSeconds?: number;
+  /** 메모리(RSS) 제한 (MB) */
+  memoryMb?: number;
+  /** CPU 시간 제한 (초) */
+  cpuSeconds?: number;
+  /** 네트워크 차단 (Linux만 지원) */
+  denyNetwork?: boolean;
+}
+
+/**
+ * 샌드박스 제한 종류 (위반 시 WIDGET_ERROR의 limit)
+ */
+export type WidgetLimitKind = 'timeout' | 'memory' | 'cpu';
+
+/**
+ * 카탈로그 항목 (Pylon → Client, Claude)
+ */
+export interface WidgetCatalogEntry {
+  name: string;
+  title: string;
+  description?: string;
+  icon?: string;
+  inputSchema?: WidgetInputSchema;
+  /** 설정되지 않은 필수 환경변수 */
+  missingEnv: string[];
+  /** 바로 실행할 수 있는지 (missingEnv가 없음) */
+  available: boolean;
+}
+
+/**
+ * 위젯 입력 검증 결과
+ */
+export interface WidgetInputValidation {
+  /** 기본값을 채운 입력 */
+  value: Record<string, unknown>;
+  /** 검증 오류 (비어 있으면 통과) */
+  errors: string[];
+}
+
+/**
+ * 위젯 입력을 manifest 스키마로 검증
+ *
+ * 스키마에 없는 필드는 오류로 처리하고, 생략한 필드는 default로 채웁니다.
+ */
+export function validateWidgetInput(
+  schema: WidgetInputSchema | undefined,
+  input: Record<string, unknown> | undefined,
+): WidgetInputValidation {
+  const value: Record<string, unknown> = {};
+  const errors: string[] = [];
+  const properties = schema?.properties ?? {};
+
+  for (const key of Object.keys(input ?? {})) {
+    if (!(key in properties)) {
+      errors.push(`${key}: 알 수 없는 입력입니다`);
+    }
+  }
+
+  for (const [key, property] of Object.entries(properties)) {
+    const raw = input?.[key];
+    if (raw === undefined || raw === null || raw === '') {
+      if (property.default !== undefined) {
+        value[key] = property.default;
+      } else if (schema?.required?.includes(key)) {
+        errors.push(`${key}: 필수 입력입니다`);
+      }
+      continue;
+    }
+
+    const typeOk =
+      property.type === 'string' ? typeof raw === 'string'
+      : property.type === 'boolean' ? typeof raw === 'boolean'
+      : property.type === 'integer' ? Number.isInteger(raw)
+      : typeof raw === 'number' && Number.isFinite(raw);
+    if (!typeOk) {
+      errors.push(`${key}: ${property.type} 타입이어야 합니다`);
+      continue;
+    }
+
+    if (property.enum && !property.enum.includes(raw as string | number)) {
+      errors.push(`${key}: ${property.enum.join(', ')} 중 하나여야 합니다`);
+      continue;
+    }
+    if (typeof raw === 'number') {
+      if (property.minimum !== undefined && raw < property.minimum) {
+        errors.push(`${key}: ${property.minimum} 이상이어야 합니다`);
+        continue;
+      }
+      if (property.maximum !== undefined && raw > property.maximum) {
+        errors.push(`${key}: ${property.maximum} 이하여야 합니다`);
+        continue;
+      }
+    }
+
+    value[key] = raw;
+  }
+
+  return { value, errors };
+}
+
+/**
+ * Pylon → Client: 위젯 카탈로그
+ */
+export interface WidgetListResultPayload {
+  deviceId: number;
+  widgets: WidgetCatalogEntry[];
+}
+
+/**
+ * Client → Pylon: 카탈로그 위젯 실행 (프롬프트 없이)
+ */
+export interface WidgetLaunchPayload {
+  conversationId: number;
+  /** 위젯 이름 */
+  widget: string;
+  input?: Record<string, unknown>;
+}
+
+/**
+ * Pylon → Client: 위젯 실행 결과
+ */
+export interface WidgetLaunchResultPayload {
+  deviceId: number;
+  conversationId: number;
+  widget: string;
+  success: boolean;
+  /** 위젯 카드와 연결된 도구 호출 ID */
+  toolUseId?: string;
+  error?: string;
+}
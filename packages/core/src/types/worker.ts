@@ -0,0 +1,140 @@
+/**
+ * @file worker.ts
+ * @description 태스크 워커 관련 타입 정의
+ *
+ * 워크스페이스의 task/ 폴더에 쌓인 태스크를 워커가 처리합니다.
+ * 워크스페이스별 동시 실행 수만큼 워커가 병렬로 돌며,
+ * 각 워커는 자기 대화(와 선택적으로 자기 git worktree)를 사용합니다.
+ */
+
+// ============================================================================
+// WorkerPolicy
+// ============================================================================
+
+/** 워크스페이스당 동시 실행 워커 수 상한 */
+export const MAX_WORKER_CONCURRENCY = 8;
+
+/**
+ * 워커 실행 정책 (워크스페이스별)
+ *
+ * @example
+ * ```typescript
+ * const policy: WorkerPolicy = {
+ *   maxConcurrency: 3,
+ *   useWorktree: true,
+ * };
+ * ```
+ */
+export interface WorkerPolicy {
+  /** 동시에 실행할 워커 수 (1 ~ MAX_WORKER_CONCURRENCY) */
+  maxConcurrency: number;
+
+  /**
+   * 워커마다 workingDir의 git worktree를 따로 만들어 실행할지 여부
+   *
+   * 성공한 태스크의 결과는 태스크 브랜치(TaskSummary.branch)에 커밋해 두고 태스크 보드에서 병합하거나 버립니다.
+   * 실패하거나 중지된 태스크의 worktree는 지웁니다.
+   */
+  useWorktree: boolean;
+}
+
+/**
+ * 기본 워커 정책 (워크스페이스에 설정이 없을 때)
+ */
+export const DEFAULT_WORKER_POLICY: WorkerPolicy = {
+  maxConcurrency: 1,
+  useWorktree: false,
+};
+
+/**
+ * WorkerPolicy 타입 가드
+ */
+export function isWorkerPolicy(value: unknown): value is WorkerPolicy {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.maxConcurrency === 'number' &&
+    Number.isInteger(obj.maxConcurrency) &&
+    obj.maxConcurrency >= 1 &&
+    obj.maxConcurrency <= MAX_WORKER_CONCURRENCY &&
+    typeof obj.useWorktree === 'boolean'
+  );
+}
+
+// ============================================================================
+// WorkerStatus
+// ============================================================================
+
+/**
+ * 실행 중인 워커 하나의 정보
+ */
+export interface ActiveWorker {
+  /** 워커 슬롯 번호 (1부터, 슬롯마다 대화가 따로 있음) */
+  slot: number;
+
+  /** 처리 중인 태스크 ID */
+  taskId: string;
+
+  /** 처리 중인 태스크 제목 */
+  taskTitle: string;
+
+  /** 워커 시작 시각 (ISO 8601 형식) */
+  startedAt: string;
+
+  /** 워커가 사용하는 대화 ID (시작 전이면 null) */
+  conversationId: number | null;
+
+  /** 워커 전용 git worktree 경로 (사용하지 않으면 null) */
+  worktreePath: string | null;
+}
+
+/**
+ * 워크스페이스의 워커 상태
+ *
+ * Pylon → App: WORKER_STATUS_RESULT 메시지의 payload.workerStatus,
+ * TASK_LIST_RESULT/WORKSPACE_LIST_RESULT에도 함께 실립니다.
+ */
+export interface WorkerStatus {
+  /** 워크스페이스 ID */
+  workspaceId: number;
+
+  /** 워커 상태 (실행 중인 워커가 하나라도 있으면 running) */
+  status: 'idle' | 'running';
+
+  /** 동시 실행 수 상한 */
+  maxConcurrency: number;
+
+  /** 실행 중인 워커 목록 (슬롯 순) */
+  workers: ActiveWorker[];
+
+  /** 첫 번째 워커의 태스크 (단일 워커 시절 호환용) */
+  currentTask: {
+    id: string;
+    title: string;
+    startedAt: string | null;
+  } | null;
+
+  /** 태스크 큐 정보 */
+  queue: {
+    /** pending 태스크 수 */
+    pending: number;
+    /** 전체 태스크 수 */
+    total: number;
+  };
+}
+
+/**
+ * 워커 상태 결과 페이로드
+ *
+ * Pylon → App: WORKER_STATUS_RESULT 메시지의 payload
+ */
+export interface WorkerStatusResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 워크스페이스 ID */
+  workspaceId: number;
+
+  /** 워커 상태 */
+  workerStatus: WorkerStatus;
+}
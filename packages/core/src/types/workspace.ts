@@ -9,7 +9,10 @@
 
 import type { ConversationStatusValue } from '../constants/conversation-status.js';
 import type { PermissionModeValue } from '../constants/permission-mode.js';
-import type { AgentType } from './agent.js';
+import type { AgentType, ConversationAgentSettings } from './agent.js';
+import type { RetentionPolicy } from './retention.js';
+import type { PermissionRule } from './permission-policy.js';
+import type { WorkerPolicy } from './worker.js';
 
 // ============================================================================
 // LinkedDocument (연결된 문서)
@@ -37,6 +40,35 @@ export interface LinkedDocument {
   addedAt: number;
 }
 
+// ============================================================================
+// ConversationWorktree (대화 전용 worktree)
+// ============================================================================
+
+/**
+ * 대화 전용 git worktree 정보
+ *
+ * @description
+ * 같은 워크스페이스의 대화들이 한 체크아웃을 함께 건드리지 않도록
+ * 대화마다 worktree와 브랜치를 따로 만들 수 있습니다 (대화 생성 시 선택).
+ */
+export interface ConversationWorktree {
+  /** worktree 경로 (에이전트 cwd로 사용) */
+  path: string;
+
+  /** worktree 브랜치 (예: estelle/conv-132097-lx3k) */
+  branch: string;
+}
+
+/**
+ * worktree 대화 삭제 시 처리 방법
+ *
+ * - merge: 남은 변경을 커밋하고 워크스페이스 체크아웃에 병합한 뒤 worktree/브랜치 삭제
+ * - discard: worktree와 브랜치를 변경째 삭제
+ * - cleanup: 남은 변경을 브랜치에 커밋해 두고 worktree만 삭제 (브랜치는 유지)
+ * - keep: worktree와 브랜치를 커밋 없이 그대로 두고 대화만 삭제 (기본값)
+ */
+export type ConversationWorktreeAction = 'merge' | 'discard' | 'cleanup' | 'keep';
+
 // ============================================================================
 // Conversation (대화)
 // ============================================================================
@@ -86,6 +118,9 @@ export interface Conversation {
   /** 에이전트 타입 (claude, codex) */
   agentType: AgentType;
 
+  /** 에이전트 설정 (모델, 추론 강도, 한도 — 없으면 에이전트 기본값) */
+  agentSettings?: ConversationAgentSettings;
+
   /** 연결된 문서 목록 (선택) */
   linkedDocuments?: LinkedDocument[];
 
@@ -95,9 +130,11 @@ export interface Conversation {
   /** 마지막으로 활성화된 클라이언트 deviceId */
   lastActiveClientId?: number;
 
-  // 향후 추가 예정
-  // /** 분기 원본 대화 ID */
-  // parentConversationId?: string;
+  /** 분기 원본 대화 ID (선택, 대화 분기로 생성된 경우) */
+  parentConversationId?: number;
+
+  /** 대화 전용 git worktree (선택, 없으면 워크스페이스 workingDir 사용) */
+  worktree?: ConversationWorktree;
 }
 
 // ============================================================================
@@ -141,6 +178,21 @@ export interface Workspace {
 
   /** 마지막 사용 시각 (Unix timestamp) */
   lastUsed: number;
+
+  /** 메시지 보관 정책 (없으면 DEFAULT_RETENTION_POLICY) */
+  retentionPolicy?: RetentionPolicy;
+
+  /** 권한 규칙 목록 (없으면 기본 규칙만 적용) */
+  permissionRules?: PermissionRule[];
+
+  /** 태스크 워커 정책 (없으면 DEFAULT_WORKER_POLICY) */
+  workerPolicy?: WorkerPolicy;
+
+  /** 사용량 한도에 걸리면 다음 계정으로 자동 전환 (없으면 끔) */
+  accountFailover?: boolean;
+
+  /** 새 대화의 기본 에이전트 (없으면 DEFAULT_AGENT_TYPE) */
+  agentType?: AgentType;
 }
 
 /**
@@ -250,6 +302,9 @@ export interface ConversationCreatePayload {
 
   /** 대화 이름 (선택, 기본값: '새 대화') */
   name?: string;
+
+  /** 대화 전용 git worktree 사용 여부 (선택, 기본값: false) */
+  useWorktree?: boolean;
 }
 
 /**
@@ -261,6 +316,47 @@ export interface ConversationCreatePayload {
 export interface ConversationCreateResultPayload {
   /** 생성된 대화 */
   conversation: Conversation;
+
+  /** worktree를 만들지 못했을 때 사유 (대화는 worktree 없이 생성됨) */
+  error?: string;
+}
+
+/**
+ * 대화 삭제 요청 페이로드
+ *
+ * @description
+ * `conversation_delete` 메시지의 페이로드입니다.
+ */
+export interface ConversationDeletePayload {
+  /** 삭제할 대화 ID (24비트 ConversationId) */
+  conversationId: number;
+
+  /** worktree 대화의 처리 방법 (선택, 기본값: keep) */
+  worktreeAction?: ConversationWorktreeAction;
+}
+
+/**
+ * 대화 삭제 결과 페이로드
+ *
+ * @description
+ * `conversation_delete_result` 메시지의 페이로드입니다.
+ * worktree 대화를 삭제할 때만 보냅니다 (병합 충돌 등으로 실패하면 대화는 남아 있음).
+ */
+export interface ConversationDeleteResultPayload {
+  /** 응답한 Pylon ID */
+  deviceId: number;
+
+  /** 대화 ID */
+  conversationId: number;
+
+  /** 성공 여부 */
+  success: boolean;
+
+  /** 수행한 처리 */
+  worktreeAction: ConversationWorktreeAction;
+
+  /** 에러 메시지 (실패 시) */
+  error?: string;
 }
 
 /**
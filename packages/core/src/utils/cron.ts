@@ -0,0 +1,217 @@
+/**
+ * @file cron.ts
+ * @description cron 표현식 파싱 및 다음 실행 시각 계산
+ *
+ * 표준 5필드 cron(분 시 일 월 요일)을 로컬 시간 기준으로 해석합니다.
+ * Pylon 스케줄러와 App의 예약 편집 화면(다음 실행 미리보기)에서 함께 사용합니다.
+ *
+ * 지원 문법:
+ * - `*`, 숫자, 범위(`1-5`), 목록(`1,3,5`), 간격(`*\/15`, `9-18/3`)
+ * - 월/요일 영문 약어(`JAN`, `MON-FRI`), 요일 7 = 일요일
+ * - 별칭: `@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly`
+ * - 일과 요일이 모두 지정되면 둘 중 하나만 맞아도 실행 (표준 cron 동작)
+ *
+ * @example
+ * ```typescript
+ * // 평일 9시
+ * const next = getNextCronTime('0 9 * * MON-FRI', Date.now());
+ * ```
+ */
+
+// ============================================================================
+// 타입
+// ============================================================================
+
+/**
+ * 파싱된 cron 표현식
+ */
+export interface CronSchedule {
+  /** 분 (0-59) */
+  minutes: number[];
+  /** 시 (0-23) */
+  hours: number[];
+  /** 일 (1-31) */
+  daysOfMonth: Set<number>;
+  /** 월 (1-12) */
+  months: Set<number>;
+  /** 요일 (0-6, 0 = 일요일) */
+  daysOfWeek: Set<number>;
+  /** 일 필드가 `*`가 아닌지 */
+  dayOfMonthRestricted: boolean;
+  /** 요일 필드가 `*`가 아닌지 */
+  dayOfWeekRestricted: boolean;
+}
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** 다음 실행 시각 탐색 범위 (일) - 2월 29일 같은 드문 일정도 찾을 수 있도록 */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+// ============================================================================
+// 파싱
+// ============================================================================
+
+/**
+ * 필드 값 하나(숫자 또는 이름) 파싱
+ */
+function parseValue(token: string, names?: string[], nameOffset = 0): number | null {
+  if (/^\d+$/.test(token)) return parseInt(token, 10);
+  const index = names?.indexOf(token.toUpperCase()) ?? -1;
+  return index >= 0 ? index + nameOffset : null;
+}
+
+/**
+ * cron 필드 하나 파싱
+ *
+ * @returns 허용 값 목록 (정렬됨), 잘못된 필드면 null
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') return null;
+
+    const step = stepPart === undefined ? 1 : parseValue(stepPart);
+    if (step === null || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [a, b, ...more] = rangePart.split('-');
+      if (more.length > 0) return null;
+      const from = parseValue(a, names, nameOffset);
+      const to = b === undefined ? from : parseValue(b, names, nameOffset);
+      if (from === null || to === null) return null;
+      start = from;
+      // `5/15`처럼 단일 값에 간격을 주면 끝까지
+      end = b === undefined && stepPart !== undefined ? max : to;
+    }
+
+    if (start < min || end > max || start > end) return null;
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * cron 표현식 파싱
+ *
+ * @param expression - 5필드 cron 또는 별칭
+ * @returns 파싱 결과, 잘못된 표현식이면 null
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const trimmed = expression.trim();
+  const normalized = ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+  const minutes = parseField(minuteField, 0, 59);
+  const hours = parseField(hourField, 0, 23);
+  const daysOfMonth = parseField(domField, 1, 31);
+  const months = parseField(monthField, 1, 12, MONTH_NAMES, 1);
+  const daysOfWeek = parseField(dowField, 0, 7, DAY_NAMES);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    // 7(일요일)은 0으로 통일
+    daysOfWeek: new Set(daysOfWeek.map((d) => d % 7)),
+    dayOfMonthRestricted: domField !== '*',
+    dayOfWeekRestricted: dowField !== '*',
+  };
+}
+
+/**
+ * cron 표현식 유효성 검사
+ */
+export function isValidCron(expression: string): boolean {
+  return parseCron(expression) !== null;
+}
+
+// ============================================================================
+// 다음 실행 시각
+// ============================================================================
+
+/**
+ * 해당 날짜가 일/요일 조건에 맞는지
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * 다음 실행 시각 계산 (로컬 시간 기준)
+ *
+ * @param expression - cron 표현식 또는 파싱 결과
+ * @param after - 기준 시각 (ms). 이 시각 이후(같은 분 제외) 첫 실행 시각을 찾음
+ * @returns 다음 실행 시각 (ms), 표현식이 잘못됐거나 실행 시각이 없으면 null
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: number): number | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  if (!schedule) return null;
+
+  const start = new Date(after);
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  let day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (matchesDay(schedule, day)) {
+      for (const hour of schedule.hours) {
+        for (const minute of schedule.minutes) {
+          const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          // 서머타임으로 시각이 밀린 경우 다른 날로 넘어가지 않았는지 확인
+          if (candidate.getDate() !== day.getDate()) continue;
+          if (candidate.getTime() >= start.getTime()) {
+            return candidate.getTime();
+          }
+        }
+      }
+    }
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  }
+
+  return null;
+}
@@ -0,0 +1,325 @@
+/**
+ * @file e2e.ts
+ * @description Client ↔ Pylon 종단간 암호화(E2E) 암호 연산
+ *
+ * 브라우저와 Node(20+) 모두 있는 WebCrypto(`globalThis.crypto.subtle`)만 사용합니다.
+ *
+ * - 고정/임시 키: ECDH P-256 (공개키는 raw, 개인키는 pkcs8로 base64url 직렬화)
+ * - 세션 키: HKDF-SHA256(임시 ECDH ‖ 고정 ECDH, salt = 양쪽 nonce) → AES-GCM 256
+ * - 페어링 확인: HMAC-SHA256(코드 비밀값)
+ * - 메시지: AES-GCM, 메시지 type을 AAD로 묶어 Relay가 type을 바꾸면 복호화에 실패합니다
+ *
+ * @example
+ * ```typescript
+ * const envelope = await encryptE2ePayload(key, kid, 'claude_send', payload);
+ * const decrypted = await decryptE2ePayload(key, envelope, 'claude_send');
+ * ```
+ */
+
+import type { E2eEnvelope } from '../types/e2e.js';
+
+// ============================================================================
+// 타입
+// ============================================================================
+
+/**
+ * WebCrypto 키 (브라우저/Node 각 환경의 CryptoKey)
+ */
+export type E2eKey = Awaited<ReturnType<typeof globalThis.crypto.subtle.importKey>>;
+
+/**
+ * ECDH 키 쌍
+ */
+export interface E2eKeyPair {
+  publicKey: E2eKey;
+  privateKey: E2eKey;
+}
+
+/**
+ * 직렬화된 고정 키 쌍 (저장용)
+ *
+ * @property publicKey - raw 공개키 (base64url)
+ * @property privateKey - pkcs8 개인키 (base64url)
+ */
+export interface E2eIdentity {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * 세션 키 유도 입력
+ */
+export interface E2eSessionKeyParams {
+  /** 내 고정 개인키 */
+  staticKey: E2eKey;
+  /** 내 임시 개인키 */
+  ephemeralKey: E2eKey;
+  /** 상대 고정 공개키 (base64url) */
+  peerStaticKey: string;
+  /** 상대 임시 공개키 (base64url) */
+  peerEphemeralKey: string;
+  /** Client nonce + Pylon nonce (양쪽이 같은 순서로 이어 붙인 값) */
+  salt: string;
+}
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+/** HKDF info (프로토콜 구분용) */
+const SESSION_KEY_INFO = 'estelle-e2e-session-v1';
+
+/** AES-GCM IV 길이 (바이트) */
+const IV_LENGTH = 12;
+
+/** 공유 키 길이 (바이트) */
+const SHARE_KEY_LENGTH = 32;
+
+/** 지문 길이 (바이트) */
+const FINGERPRINT_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function subtle() {
+  return globalThis.crypto.subtle;
+}
+
+// ============================================================================
+// 인코딩
+// ============================================================================
+
+/**
+ * 바이트 → base64url (패딩 없음)
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * base64url → 바이트
+ *
+ * @throws 올바른 base64가 아닐 때
+ */
+export function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 난수 (base64url)
+ */
+export function randomBase64Url(length: number): string {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+}
+
+// ============================================================================
+// 키 생성 / 직렬화
+// ============================================================================
+
+/**
+ * ECDH 키 쌍 생성 (고정 키와 임시 키 공용)
+ */
+export async function generateE2eKeyPair(): Promise<E2eKeyPair> {
+  return (await subtle().generateKey(ECDH_PARAMS, true, ['deriveBits'])) as E2eKeyPair;
+}
+
+/**
+ * 공개키 → base64url (raw)
+ */
+export async function exportE2ePublicKey(key: E2eKey): Promise<string> {
+  return toBase64Url(new Uint8Array(await subtle().exportKey('raw', key)));
+}
+
+/**
+ * base64url → 공개키
+ *
+ * @throws P-256 공개키가 아닐 때
+ */
+export async function importE2ePublicKey(publicKey: string): Promise<E2eKey> {
+  return subtle().importKey('raw', fromBase64Url(publicKey), ECDH_PARAMS, true, []);
+}
+
+/**
+ * 새 고정 키 쌍 생성 (직렬화된 형태)
+ */
+export async function createE2eIdentity(): Promise<E2eIdentity> {
+  const pair = await generateE2eKeyPair();
+  return {
+    publicKey: await exportE2ePublicKey(pair.publicKey),
+    privateKey: toBase64Url(new Uint8Array(await subtle().exportKey('pkcs8', pair.privateKey))),
+  };
+}
+
+/**
+ * 직렬화된 고정 키 쌍 불러오기
+ */
+export async function loadE2eIdentity(identity: E2eIdentity): Promise<E2eKeyPair> {
+  return {
+    publicKey: await importE2ePublicKey(identity.publicKey),
+    privateKey: await subtle().importKey(
+      'pkcs8',
+      fromBase64Url(identity.privateKey),
+      ECDH_PARAMS,
+      false,
+      ['deriveBits'],
+    ),
+  };
+}
+
+/**
+ * 공개키 지문 (SHA-256 앞 8바이트, 사람이 비교하기 쉬운 hex 4자 묶음)
+ */
+export async function e2eFingerprint(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await subtle().digest('SHA-256', fromBase64Url(publicKey)));
+  const hex = Array.from(digest.slice(0, FINGERPRINT_LENGTH), (b) => b.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g)!.join('-');
+}
+
+// ============================================================================
+// 세션 키
+// ============================================================================
+
+/**
+ * 세션 키 유도
+ *
+ * 임시 키만 쓰면 Relay가 중간에서 키를 바꿔치기할 수 있으므로,
+ * 페어링 때 확인한 고정 키의 ECDH 결과를 함께 섞습니다.
+ */
+export async function deriveE2eSessionKey(params: E2eSessionKeyParams): Promise<E2eKey> {
+  const [peerEphemeral, peerStatic] = await Promise.all([
+    importE2ePublicKey(params.peerEphemeralKey),
+    importE2ePublicKey(params.peerStaticKey),
+  ]);
+
+  const [ephemeralSecret, staticSecret] = await Promise.all([
+    subtle().deriveBits({ name: 'ECDH', public: peerEphemeral }, params.ephemeralKey, 256),
+    subtle().deriveBits({ name: 'ECDH', public: peerStatic }, params.staticKey, 256),
+  ]);
+
+  const ikm = new Uint8Array(ephemeralSecret.byteLength + staticSecret.byteLength);
+  ikm.set(new Uint8Array(ephemeralSecret), 0);
+  ikm.set(new Uint8Array(staticSecret), ephemeralSecret.byteLength);
+
+  const hkdfKey = await subtle().importKey('raw', ikm, 'HKDF', false, ['deriveKey']);
+  return subtle().deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(params.salt),
+      info: encoder.encode(SESSION_KEY_INFO),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+// ============================================================================
+// 페어링 확인
+// ============================================================================
+
+async function importMacKey(secret: string): Promise<E2eKey> {
+  return subtle().importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/**
+ * 페어링 MAC (HMAC-SHA256, parts를 `|`로 이어 서명)
+ */
+export async function e2ePairingMac(secret: string, ...parts: string[]): Promise<string> {
+  const key = await importMacKey(secret);
+  const mac = await subtle().sign('HMAC', key, encoder.encode(parts.join('|')));
+  return toBase64Url(new Uint8Array(mac));
+}
+
+/**
+ * 페어링 MAC 확인 (상수 시간 비교)
+ */
+export async function verifyE2ePairingMac(secret: string, mac: string, ...parts: string[]): Promise<boolean> {
+  try {
+    const key = await importMacKey(secret);
+    return await subtle().verify('HMAC', key, fromBase64Url(mac), encoder.encode(parts.join('|')));
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// 공유 키
+// ============================================================================
+
+/**
+ * 새 공유 키 (base64url, 256비트)
+ */
+export function generateE2eShareKey(): string {
+  return randomBase64Url(SHARE_KEY_LENGTH);
+}
+
+/**
+ * base64url 대칭키 → AES-GCM 키
+ *
+ * @throws 키 길이가 맞지 않을 때
+ */
+export async function importE2eSymmetricKey(key: string): Promise<E2eKey> {
+  return subtle().importKey('raw', fromBase64Url(key), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+// ============================================================================
+// 암호화 / 복호화
+// ============================================================================
+
+/**
+ * payload 암호화
+ *
+ * @param type - 메시지 type (AAD)
+ */
+export async function encryptE2ePayload(
+  key: E2eKey,
+  kid: string,
+  type: string,
+  payload: unknown,
+): Promise<E2eEnvelope> {
+  const iv = new Uint8Array(IV_LENGTH);
+  globalThis.crypto.getRandomValues(iv);
+  const ct = await subtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(type) },
+    key,
+    encoder.encode(JSON.stringify(payload ?? null)),
+  );
+  return { kid, iv: toBase64Url(iv), ct: toBase64Url(new Uint8Array(ct)) };
+}
+
+/**
+ * payload 복호화
+ *
+ * @param type - 메시지 type (암호화할 때와 같아야 함)
+ * @throws 키가 다르거나 암호문/type이 바뀌었을 때
+ */
+export async function decryptE2ePayload(key: E2eKey, envelope: E2eEnvelope, type: string): Promise<unknown> {
+  const plain = await subtle().decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(envelope.iv), additionalData: encoder.encode(type) },
+    key,
+    fromBase64Url(envelope.ct),
+  );
+  return JSON.parse(decoder.decode(plain));
+}
@@ -7,6 +7,8 @@
 
 export * from './deviceId.js';
 export * from './claude-utils.js';
+export * from './cron.js';
+export * from './e2e.js';
 
 // ============================================================================
 // 24비트 ID 시스템
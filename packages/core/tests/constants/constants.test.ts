@@ -120,6 +120,8 @@ describe('MessageType', () => {
   it('should have correct account message types', () => {
     expect(MessageType.ACCOUNT_SWITCH).toBe('account_switch');
     expect(MessageType.ACCOUNT_STATUS).toBe('account_status');
+    expect(MessageType.ACCOUNT_SAVE).toBe('account_save');
+    expect(MessageType.ACCOUNT_DELETE).toBe('account_delete');
   });
 
   it('should have correct widget message types', () => {
@@ -0,0 +1,67 @@
+/**
+ * @file account.test.ts
+ * @description 계정 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getWorkspaceAccount,
+  isAccountInput,
+  isAccountSavePayload,
+  isAccountStatusPayload,
+  type ClaudeAccount,
+} from '../../src/types/account.js';
+
+const input = {
+  name: 'Work',
+  icon: '🏢',
+  credentialFile: 'work.json',
+  workspaceIds: [129],
+};
+
+describe('isAccountInput', () => {
+  it('should_accept_valid_input', () => {
+    expect(isAccountInput(input)).toBe(true);
+    expect(isAccountInput({ ...input, credentialFile: 'team_a.backup.json', workspaceIds: [] })).toBe(true);
+  });
+
+  it('should_reject_credential_file_outside_backup_dir', () => {
+    expect(isAccountInput({ ...input, credentialFile: '../work.json' })).toBe(false);
+    expect(isAccountInput({ ...input, credentialFile: 'sub/work.json' })).toBe(false);
+    expect(isAccountInput({ ...input, credentialFile: '.credentials.json' })).toBe(false);
+    expect(isAccountInput({ ...input, credentialFile: 'work.txt' })).toBe(false);
+  });
+
+  it('should_reject_blank_name_or_invalid_workspaces', () => {
+    expect(isAccountInput({ ...input, name: '  ' })).toBe(false);
+    expect(isAccountInput({ ...input, workspaceIds: ['129'] })).toBe(false);
+  });
+});
+
+describe('isAccountSavePayload', () => {
+  it('should_accept_create_and_update', () => {
+    expect(isAccountSavePayload({ account: input })).toBe(true);
+    expect(isAccountSavePayload({ accountId: 'work', account: input })).toBe(true);
+    expect(isAccountSavePayload({ accountId: '', account: input })).toBe(false);
+  });
+});
+
+describe('isAccountStatusPayload', () => {
+  it('should_accept_unknown_current_account', () => {
+    expect(isAccountStatusPayload({ current: null, accounts: [] })).toBe(true);
+    expect(isAccountStatusPayload({ current: 'work' })).toBe(true);
+    expect(isAccountStatusPayload({ error: 'Invalid account' })).toBe(false);
+  });
+});
+
+describe('getWorkspaceAccount', () => {
+  it('should_find_account_by_default_workspace', () => {
+    const accounts: ClaudeAccount[] = [
+      { id: 'work', ...input },
+      { id: 'personal', name: 'Personal', icon: '🏠', credentialFile: 'personal.json', workspaceIds: [7] },
+    ];
+
+    expect(getWorkspaceAccount(accounts, 7)?.id).toBe('personal');
+    expect(getWorkspaceAccount(accounts, 1)).toBeUndefined();
+  });
+});
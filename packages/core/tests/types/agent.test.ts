@@ -0,0 +1,50 @@
+/**
+ * @file agent.test.ts
+ * @description 에이전트 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isAgentType, isAgentBackendInfo, isConversationAgentSettings } from '../../src/types/agent.js';
+
+describe('isAgentType', () => {
+  it('should accept builtin and registered agent names', () => {
+    expect(isAgentType('claude')).toBe(true);
+    expect(isAgentType('codex')).toBe(true);
+    expect(isAgentType('local-llama')).toBe(true);
+  });
+
+  it('should reject malformed names', () => {
+    expect(isAgentType('')).toBe(false);
+    expect(isAgentType('Local')).toBe(false);
+    expect(isAgentType('1llama')).toBe(false);
+    expect(isAgentType('a'.repeat(33))).toBe(false);
+    expect(isAgentType(42)).toBe(false);
+  });
+});
+
+describe('isAgentBackendInfo', () => {
+  it('should validate backend info', () => {
+    expect(isAgentBackendInfo({ name: 'local-llama', label: 'Llama', adapter: 'openai-compatible', model: 'qwen' })).toBe(true);
+    expect(isAgentBackendInfo({ name: 'claude', label: 'Claude', adapter: 'claude' })).toBe(true);
+    expect(isAgentBackendInfo({ name: 'claude', adapter: 'claude' })).toBe(false);
+  });
+});
+
+describe('isConversationAgentSettings', () => {
+  it('should accept empty and complete settings', () => {
+    expect(isConversationAgentSettings({})).toBe(true);
+    expect(
+      isConversationAgentSettings({ model: 'claude-opus-4-6', effort: 'high', maxTurns: 20, maxCostUsd: 1.5 })
+    ).toBe(true);
+  });
+
+  it('should reject invalid values and unknown fields', () => {
+    expect(isConversationAgentSettings({ model: ' ' })).toBe(false);
+    expect(isConversationAgentSettings({ effort: 'extreme' })).toBe(false);
+    expect(isConversationAgentSettings({ maxTurns: 0 })).toBe(false);
+    expect(isConversationAgentSettings({ maxTurns: 2.5 })).toBe(false);
+    expect(isConversationAgentSettings({ maxCostUsd: -1 })).toBe(false);
+    expect(isConversationAgentSettings({ temperature: 0.2 })).toBe(false);
+    expect(isConversationAgentSettings(null)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @file audit.test.ts
+ * @description 감사 로그 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isAuditLogRequestPayload } from '../../src/types/audit.js';
+
+describe('isAuditLogRequestPayload', () => {
+  it('should_accept_minimal_and_filtered_requests', () => {
+    expect(isAuditLogRequestPayload({ requestId: 'r1' })).toBe(true);
+    expect(
+      isAuditLogRequestPayload({
+        requestId: 'r2',
+        conversationId: 132097,
+        workspaceId: 129,
+        from: 1700000000000,
+        to: 1700086400000,
+        kind: 'permission',
+        decision: 'user_deny',
+        limit: 100,
+      })
+    ).toBe(true);
+  });
+
+  it('should_reject_missing_request_id', () => {
+    expect(isAuditLogRequestPayload({})).toBe(false);
+    expect(isAuditLogRequestPayload(null)).toBe(false);
+  });
+
+  it('should_reject_invalid_filters', () => {
+    expect(isAuditLogRequestPayload({ requestId: 'r', from: '2026-01-01' })).toBe(false);
+    expect(isAuditLogRequestPayload({ requestId: 'r', kind: 'message' })).toBe(false);
+    expect(isAuditLogRequestPayload({ requestId: 'r', decision: 'allow' })).toBe(false);
+  });
+});
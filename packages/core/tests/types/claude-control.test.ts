@@ -309,6 +309,7 @@ describe('Type Guards', () => {
       expect(isPermissionDecision('allow')).toBe(true);
       expect(isPermissionDecision('deny')).toBe(true);
       expect(isPermissionDecision('allowAll')).toBe(true);
+      expect(isPermissionDecision('allowAlways')).toBe(true);
     });
 
     it('should return false for invalid decisions', () => {
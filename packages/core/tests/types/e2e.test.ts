@@ -0,0 +1,55 @@
+/**
+ * @file e2e.test.ts
+ * @description E2E 타입 가드/페어링 코드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatPairingCode,
+  generatePairingSecret,
+  isE2eEncryptedPayload,
+  parsePairingCode,
+  shareKeyId,
+} from '../../src/types/e2e.js';
+
+describe('isE2eEncryptedPayload', () => {
+  it('should_accept_envelope_payload', () => {
+    expect(isE2eEncryptedPayload({ e2e: { kid: 'k1', iv: 'aaa', ct: 'bbb' } })).toBe(true);
+  });
+
+  it('should_reject_plain_or_malformed_payload', () => {
+    expect(isE2eEncryptedPayload({ conversationId: 1 })).toBe(false);
+    expect(isE2eEncryptedPayload({ e2e: { kid: 'k1', iv: 'aaa' } })).toBe(false);
+    expect(isE2eEncryptedPayload(null)).toBe(false);
+    expect(isE2eEncryptedPayload('e2e')).toBe(false);
+  });
+});
+
+describe('pairing code', () => {
+  it('should_round_trip_generated_secret', () => {
+    const secret = generatePairingSecret();
+    const code = formatPairingCode({ pylonId: 33, secret });
+
+    expect(code).toMatch(/^33-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(parsePairingCode(code)).toEqual({ pylonId: 33, secret });
+  });
+
+  it('should_accept_lowercase_and_spaces', () => {
+    expect(parsePairingCode(' 1 abcd efgh jkmn pqrs ')).toEqual({
+      pylonId: 1,
+      secret: 'ABCDEFGHJKMNPQRS',
+    });
+  });
+
+  it('should_reject_wrong_length_or_characters', () => {
+    expect(parsePairingCode('1-ABCD-EFGH')).toBeNull();
+    expect(parsePairingCode('1-ABCD-EFGH-JKMN-PQR0')).toBeNull();
+    expect(parsePairingCode('X-ABCD-EFGH-JKMN-PQRS')).toBeNull();
+  });
+});
+
+describe('shareKeyId', () => {
+  it('should_prefix_share_id', () => {
+    expect(shareKeyId('AbCdEf123456')).toBe('share:AbCdEf123456');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @file export.test.ts
+ * @description 대화 내보내기 관련 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CONVERSATION_ARCHIVE_FORMAT,
+  CONVERSATION_ARCHIVE_VERSION,
+  isExportFormat,
+  isConversationExportPayload,
+  isConversationArchive,
+  isConversationImportPayload,
+  type ConversationArchive,
+} from '../../src/types/export.js';
+
+function createArchive(overrides: Partial<ConversationArchive> = {}): ConversationArchive {
+  return {
+    format: CONVERSATION_ARCHIVE_FORMAT,
+    version: CONVERSATION_ARCHIVE_VERSION,
+    exportedAt: 1700000000000,
+    workspace: { name: 'Workspace', workingDir: '/work' },
+    conversation: {
+      name: 'Conversation',
+      agentType: 'claude',
+      agentSessionId: null,
+      permissionMode: 'default',
+      createdAt: 1700000000000,
+    },
+    messages: [],
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe('isExportFormat', () => {
+  it('should_accept_supported_formats', () => {
+    expect(isExportFormat('markdown')).toBe(true);
+    expect(isExportFormat('html')).toBe(true);
+    expect(isExportFormat('json')).toBe(true);
+  });
+
+  it('should_reject_unknown_format', () => {
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('isConversationExportPayload', () => {
+  it('should_accept_valid_payload', () => {
+    expect(isConversationExportPayload({ conversationId: 1, format: 'html' })).toBe(true);
+  });
+
+  it('should_reject_missing_or_invalid_fields', () => {
+    expect(isConversationExportPayload(null)).toBe(false);
+    expect(isConversationExportPayload({ conversationId: '1', format: 'html' })).toBe(false);
+    expect(isConversationExportPayload({ conversationId: 1, format: 'pdf' })).toBe(false);
+  });
+});
+
+describe('isConversationArchive', () => {
+  it('should_accept_current_version_archive', () => {
+    expect(isConversationArchive(createArchive())).toBe(true);
+  });
+
+  it('should_reject_other_format_identifier', () => {
+    expect(isConversationArchive({ ...createArchive(), format: 'other' })).toBe(false);
+  });
+
+  it('should_reject_newer_version', () => {
+    expect(isConversationArchive(createArchive({ version: CONVERSATION_ARCHIVE_VERSION + 1 }))).toBe(false);
+  });
+
+  it('should_reject_when_messages_missing', () => {
+    const { messages: _messages, ...rest } = createArchive();
+    expect(isConversationArchive(rest)).toBe(false);
+  });
+});
+
+describe('isConversationImportPayload', () => {
+  it('should_accept_valid_payload', () => {
+    expect(isConversationImportPayload({ workspaceId: 1, path: '/tmp/a.jsonl' })).toBe(true);
+    expect(isConversationImportPayload({ workspaceId: 1, path: '/tmp/a.json', name: 'A' })).toBe(true);
+  });
+
+  it('should_reject_missing_path_or_workspace', () => {
+    expect(isConversationImportPayload({ workspaceId: 1, path: '' })).toBe(false);
+    expect(isConversationImportPayload({ path: '/tmp/a.json' })).toBe(false);
+    expect(isConversationImportPayload({ workspaceId: 1, path: '/a', name: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @file federation.test.ts
+ * @description 멀티 Pylon 활성 세션 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isPylonActiveSession,
+  isPylonSessionsPayload,
+} from '../../src/types/federation.js';
+
+const session = {
+  conversationId: 132097,
+  conversationName: '리팩토링',
+  workspaceId: 129,
+  workspaceName: 'estelle',
+  status: 'waiting',
+};
+
+describe('isPylonActiveSession', () => {
+  it('should_accept_valid_session', () => {
+    expect(isPylonActiveSession(session)).toBe(true);
+  });
+
+  it('should_reject_idle_or_invalid_fields', () => {
+    expect(isPylonActiveSession({ ...session, status: 'idle' })).toBe(false);
+    expect(isPylonActiveSession({ ...session, conversationId: '132097' })).toBe(false);
+    expect(isPylonActiveSession(null)).toBe(false);
+  });
+});
+
+describe('isPylonSessionsPayload', () => {
+  it('should_accept_empty_and_filled_lists', () => {
+    expect(isPylonSessionsPayload({ sessions: [] })).toBe(true);
+    expect(isPylonSessionsPayload({ sessions: [session] })).toBe(true);
+  });
+
+  it('should_reject_invalid_payload', () => {
+    expect(isPylonSessionsPayload(undefined)).toBe(false);
+    expect(isPylonSessionsPayload({ sessions: 'none' })).toBe(false);
+    expect(isPylonSessionsPayload({ sessions: [{ ...session, status: 'idle' }] })).toBe(false);
+  });
+});
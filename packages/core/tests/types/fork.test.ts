@@ -0,0 +1,21 @@
+/**
+ * @file fork.test.ts
+ * @description 대화 분기 관련 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isConversationForkPayload } from '../../src/types/fork.js';
+
+describe('isConversationForkPayload', () => {
+  it('should_accept_valid_payload', () => {
+    expect(isConversationForkPayload({ conversationId: 1, messageId: 'msg_1' })).toBe(true);
+    expect(isConversationForkPayload({ conversationId: 1, messageId: 'msg_1', name: 'Alt' })).toBe(true);
+  });
+
+  it('should_reject_missing_or_invalid_fields', () => {
+    expect(isConversationForkPayload(null)).toBe(false);
+    expect(isConversationForkPayload({ conversationId: 1, messageId: '' })).toBe(false);
+    expect(isConversationForkPayload({ conversationId: '1', messageId: 'msg_1' })).toBe(false);
+    expect(isConversationForkPayload({ conversationId: 1, messageId: 'msg_1', name: 2 })).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @file permission-policy.test.ts
+ * @description 권한 규칙 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isPermissionRule } from '../../src/types/permission-policy.js';
+
+const rule = {
+  id: 'rule_1',
+  toolName: 'Bash',
+  pattern: 'pnpm test*',
+  action: 'allow',
+};
+
+describe('isPermissionRule', () => {
+  it('should_accept_valid_rules', () => {
+    expect(isPermissionRule(rule)).toBe(true);
+    expect(isPermissionRule({ id: 'rule_2', toolName: '*', action: 'ask' })).toBe(true);
+    expect(
+      isPermissionRule({ id: 'rule_3', toolName: 'Write', location: 'outside', action: 'deny', createdAt: 1 })
+    ).toBe(true);
+  });
+
+  it('should_reject_invalid_action_or_location', () => {
+    expect(isPermissionRule({ ...rule, action: 'allowAll' })).toBe(false);
+    expect(isPermissionRule({ ...rule, location: 'anywhere' })).toBe(false);
+  });
+
+  it('should_reject_missing_or_empty_fields', () => {
+    expect(isPermissionRule({ ...rule, id: '' })).toBe(false);
+    expect(isPermissionRule({ ...rule, toolName: undefined })).toBe(false);
+    expect(isPermissionRule({ ...rule, pattern: '' })).toBe(false);
+    expect(isPermissionRule(null)).toBe(false);
+  });
+});
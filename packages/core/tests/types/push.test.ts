@@ -0,0 +1,77 @@
+/**
+ * @file push.test.ts
+ * @description Web Push 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isNotificationPreferences,
+  isPushNotifyPayload,
+  isPushSubscribePayload,
+  isWebPushSubscription,
+} from '../../src/types/push.js';
+
+const subscription = {
+  endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+  expirationTime: null,
+  keys: { p256dh: 'BPk', auth: 'xyz' },
+};
+
+describe('isWebPushSubscription', () => {
+  it('should_accept_browser_subscription_json', () => {
+    expect(isWebPushSubscription(subscription)).toBe(true);
+  });
+
+  it('should_reject_missing_keys_or_non_https_endpoint', () => {
+    expect(isWebPushSubscription({ endpoint: subscription.endpoint })).toBe(false);
+    expect(isWebPushSubscription({ ...subscription, endpoint: 'http://localhost/push' })).toBe(false);
+    expect(isWebPushSubscription(null)).toBe(false);
+  });
+});
+
+describe('isNotificationPreferences', () => {
+  it('should_accept_default_preferences', () => {
+    expect(isNotificationPreferences(DEFAULT_NOTIFICATION_PREFERENCES)).toBe(true);
+  });
+
+  it('should_reject_missing_event_flags', () => {
+    expect(
+      isNotificationPreferences({
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        events: { permission: true },
+      })
+    ).toBe(false);
+    expect(
+      isNotificationPreferences({ ...DEFAULT_NOTIFICATION_PREFERENCES, mutedWorkspaceIds: ['1'] })
+    ).toBe(false);
+  });
+});
+
+describe('isPushSubscribePayload', () => {
+  it('should_require_subscription_and_preferences', () => {
+    expect(
+      isPushSubscribePayload({ subscription, preferences: DEFAULT_NOTIFICATION_PREFERENCES })
+    ).toBe(true);
+    expect(isPushSubscribePayload({ subscription })).toBe(false);
+  });
+});
+
+describe('isPushNotifyPayload', () => {
+  it('should_accept_known_events', () => {
+    expect(
+      isPushNotifyPayload({
+        event: 'permission',
+        title: '권한 요청',
+        body: 'Bash: pnpm test',
+        conversationId: 132097,
+        workspaceId: 129,
+      })
+    ).toBe(true);
+  });
+
+  it('should_reject_unknown_event_or_missing_text', () => {
+    expect(isPushNotifyPayload({ event: 'unknown', title: 't', body: 'b' })).toBe(false);
+    expect(isPushNotifyPayload({ event: 'finished', title: 't' })).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @file retention.test.ts
+ * @description 메시지 보관 정책 관련 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RETENTION_POLICY,
+  isRetentionPolicy,
+  isToolOutputRequestPayload,
+} from '../../src/types/retention.js';
+
+describe('isRetentionPolicy', () => {
+  it('should_accept_default_and_custom_policies', () => {
+    expect(isRetentionPolicy(DEFAULT_RETENTION_POLICY)).toBe(true);
+    expect(isRetentionPolicy({
+      recentMessages: 0,
+      outputPreviewLength: 100,
+      inputPreviewLength: 50,
+      maxMessages: 1000,
+    })).toBe(true);
+  });
+
+  it('should_reject_invalid_values', () => {
+    expect(isRetentionPolicy(null)).toBe(false);
+    expect(isRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, recentMessages: -1 })).toBe(false);
+    expect(isRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, outputPreviewLength: 0 })).toBe(false);
+    expect(isRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, inputPreviewLength: 1.5 })).toBe(false);
+    expect(isRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, maxMessages: 0 })).toBe(false);
+    expect(isRetentionPolicy({ ...DEFAULT_RETENTION_POLICY, maxMessages: undefined })).toBe(false);
+  });
+});
+
+describe('isToolOutputRequestPayload', () => {
+  it('should_accept_valid_payload', () => {
+    expect(isToolOutputRequestPayload({ conversationId: 1, messageId: 'toolu_1' })).toBe(true);
+  });
+
+  it('should_reject_missing_or_invalid_fields', () => {
+    expect(isToolOutputRequestPayload(undefined)).toBe(false);
+    expect(isToolOutputRequestPayload({ conversationId: 1, messageId: '' })).toBe(false);
+    expect(isToolOutputRequestPayload({ conversationId: '1', messageId: 'toolu_1' })).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file schedule.test.ts
+ * @description 예약 실행 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isScheduleAction, isScheduleInput, isScheduleSavePayload } from '../../src/types/schedule.js';
+
+const input = {
+  workspaceId: 129,
+  name: '의존성 점검',
+  cron: '0 9 * * 1-5',
+  action: { kind: 'command', commandId: 3 },
+  conversationMode: 'reuse',
+  enabled: true,
+};
+
+describe('isScheduleAction', () => {
+  it('should_accept_command_or_non_empty_text', () => {
+    expect(isScheduleAction({ kind: 'command', commandId: 1 })).toBe(true);
+    expect(isScheduleAction({ kind: 'text', text: 'pnpm audit' })).toBe(true);
+    expect(isScheduleAction({ kind: 'text', text: '  ' })).toBe(false);
+    expect(isScheduleAction({ kind: 'command' })).toBe(false);
+  });
+});
+
+describe('isScheduleInput', () => {
+  it('should_accept_valid_input', () => {
+    expect(isScheduleInput(input)).toBe(true);
+    expect(isScheduleInput({ ...input, conversationMode: 'new', conversationName: 'Audit' })).toBe(true);
+  });
+
+  it('should_reject_invalid_cron_or_mode', () => {
+    expect(isScheduleInput({ ...input, cron: '0 25 * * *' })).toBe(false);
+    expect(isScheduleInput({ ...input, conversationMode: 'always' })).toBe(false);
+    expect(isScheduleInput({ ...input, name: '' })).toBe(false);
+  });
+});
+
+describe('isScheduleSavePayload', () => {
+  it('should_accept_create_and_update', () => {
+    expect(isScheduleSavePayload({ schedule: input })).toBe(true);
+    expect(isScheduleSavePayload({ scheduleId: 2, schedule: input })).toBe(true);
+    expect(isScheduleSavePayload({ scheduleId: '2', schedule: input })).toBe(false);
+  });
+});
@@ -3,6 +3,12 @@ import { MessageType } from '../../src/constants/message-type';
 import {
   isWidgetCheckPayload,
   isWidgetCheckResultPayload,
+  isFieldViewNode,
+  getFieldDefaultValue,
+  collectFieldDefaults,
+  validateWidgetInput,
+  type ViewNode,
+  type WidgetInputSchema,
 } from '../../src/types/widget';
 
 describe('Widget Message Types', () => {
@@ -30,3 +36,90 @@ describe('Widget Message Types', () => {
     expect(isWidgetCheckResultPayload(invalid)).toBe(false);
   });
 });
+
+describe('Widget Form View Nodes', () => {
+  it('should treat only id-bearing inputs as fields', () => {
+    expect(isFieldViewNode({ type: 'input', id: 'name' })).toBe(true);
+    expect(isFieldViewNode({ type: 'checkbox', id: 'ok', label: 'OK' })).toBe(true);
+    expect(isFieldViewNode({ type: 'table', columns: ['a'], rows: [] })).toBe(false);
+    expect(isFieldViewNode({ type: 'table', id: 'pick', columns: ['a'], rows: [] })).toBe(true);
+    expect(isFieldViewNode({ type: 'button', id: 'go', label: 'Go' })).toBe(false);
+    expect(isFieldViewNode({ type: 'progress', value: 10 })).toBe(false);
+  });
+
+  it('should derive default values per node type', () => {
+    expect(getFieldDefaultValue({ type: 'input', id: 'a' })).toBe('');
+    expect(getFieldDefaultValue({ type: 'select', id: 'b', options: [{ value: 'x', label: 'X' }, 'y'] })).toBe('x');
+    expect(getFieldDefaultValue({ type: 'select', id: 'b', options: ['x', 'y'], value: 'y' })).toBe('y');
+    expect(getFieldDefaultValue({ type: 'select', id: 'b', options: [] })).toBeNull();
+    expect(getFieldDefaultValue({ type: 'checkbox', id: 'c', label: 'C' })).toBe(false);
+    expect(getFieldDefaultValue({ type: 'slider', id: 'd', min: 5, max: 10 })).toBe(5);
+    expect(getFieldDefaultValue({ type: 'table', id: 'e', columns: [], rows: [], selected: 2 })).toBe(2);
+  });
+
+  it('should collect defaults from nested layouts', () => {
+    const view: ViewNode = {
+      type: 'column',
+      children: [
+        { type: 'text', content: '설정' },
+        {
+          type: 'row',
+          children: [
+            { type: 'input', id: 'name', value: 'estelle' },
+            { type: 'checkbox', id: 'agree', label: '동의', checked: true },
+          ],
+        },
+        { type: 'slider', id: 'volume', min: 0, max: 10, value: 3 },
+        { type: 'button', id: 'submit', label: '확인' },
+      ],
+    };
+
+    expect(collectFieldDefaults(view)).toEqual({ name: 'estelle', agree: true, volume: 3 });
+  });
+});
+
+describe('Widget Registry Input', () => {
+  const schema: WidgetInputSchema = {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string' },
+      count: { type: 'integer', minimum: 1, maximum: 4, default: 1 },
+      style: { type: 'string', enum: ['flat', 'line'] },
+      dark: { type: 'boolean' },
+    },
+    required: ['prompt'],
+  };
+
+  it('should fill defaults for omitted fields', () => {
+    expect(validateWidgetInput(schema, { prompt: 'cat' })).toEqual({
+      value: { prompt: 'cat', count: 1 },
+      errors: [],
+    });
+  });
+
+  it('should report missing required and unknown fields', () => {
+    const result = validateWidgetInput(schema, { extra: 1 });
+
+    expect(result.errors).toEqual(['extra: 알 수 없는 입력입니다', 'prompt: 필수 입력입니다']);
+  });
+
+  it('should check type, enum and range', () => {
+    const result = validateWidgetInput(schema, { prompt: 'cat', count: 9, style: 'bold', dark: 'yes' });
+
+    expect(result.errors).toEqual([
+      'count: 4 이하여야 합니다',
+      'style: flat, line 중 하나여야 합니다',
+      'dark: boolean 타입이어야 합니다',
+    ]);
+  });
+
+  it('should reject fractional integers', () => {
+    expect(validateWidgetInput(schema, { prompt: 'cat', count: 1.5 }).errors).toEqual([
+      'count: integer 타입이어야 합니다',
+    ]);
+  });
+
+  it('should accept any empty input without schema', () => {
+    expect(validateWidgetInput(undefined, undefined)).toEqual({ value: {}, errors: [] });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * @file worker.test.ts
+ * @description 태스크 워커 정책 타입 가드 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKER_POLICY,
+  MAX_WORKER_CONCURRENCY,
+  isWorkerPolicy,
+} from '../../src/types/worker.js';
+
+describe('isWorkerPolicy', () => {
+  it('should_accept_default_and_custom_policies', () => {
+    expect(isWorkerPolicy(DEFAULT_WORKER_POLICY)).toBe(true);
+    expect(isWorkerPolicy({ maxConcurrency: 3, useWorktree: true })).toBe(true);
+    expect(isWorkerPolicy({ maxConcurrency: MAX_WORKER_CONCURRENCY, useWorktree: false })).toBe(true);
+  });
+
+  it('should_reject_invalid_values', () => {
+    expect(isWorkerPolicy(null)).toBe(false);
+    expect(isWorkerPolicy({ ...DEFAULT_WORKER_POLICY, maxConcurrency: 0 })).toBe(false);
+    expect(isWorkerPolicy({ ...DEFAULT_WORKER_POLICY, maxConcurrency: 1.5 })).toBe(false);
+    expect(isWorkerPolicy({ ...DEFAULT_WORKER_POLICY, maxConcurrency: MAX_WORKER_CONCURRENCY + 1 })).toBe(false);
+    expect(isWorkerPolicy({ maxConcurrency: 2 })).toBe(false);
+  });
+});
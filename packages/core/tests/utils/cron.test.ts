@@ -0,0 +1,65 @@
+/**
+ * @file cron.test.ts
+ * @description cron 표현식 파싱/다음 실행 시각 계산 테스트
+ *
+ * 로컬 시간 기준으로 동작하므로 기대값도 로컬 Date 생성자로 만듭니다.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, isValidCron, getNextCronTime } from '../../src/utils/cron.js';
+
+/** 로컬 시각 (월은 1부터) */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+describe('parseCron', () => {
+  it('should_expand_ranges_lists_and_steps', () => {
+    const schedule = parseCron('*/15 9-18/3 1,15 * 1-5')!;
+
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 12, 15, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.dayOfMonthRestricted).toBe(true);
+  });
+
+  it('should_accept_names_aliases_and_sunday_as_7', () => {
+    expect([...parseCron('0 9 * JAN-MAR MON-FRI')!.months]).toEqual([1, 2, 3]);
+    expect([...parseCron('0 0 * * 7')!.daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily')!.hours).toEqual([0]);
+  });
+
+  it('should_reject_invalid_expressions', () => {
+    expect(isValidCron('0 9 * *')).toBe(false);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('0 9 * * 1-')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('0 9 * * FOO')).toBe(false);
+    expect(isValidCron('0 9 * * 1-5')).toBe(true);
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should_find_next_weekday_morning', () => {
+    // 2026-01-02 (금) 10:00 → 다음 평일 9시는 2026-01-05 (월)
+    expect(getNextCronTime('0 9 * * 1-5', at(2026, 1, 2, 10))).toBe(at(2026, 1, 5, 9));
+    // 같은 날 9시 전이면 당일
+    expect(getNextCronTime('0 9 * * 1-5', at(2026, 1, 2, 8, 30))).toBe(at(2026, 1, 2, 9));
+  });
+
+  it('should_skip_the_current_minute', () => {
+    expect(getNextCronTime('*/5 * * * *', at(2026, 1, 1, 12, 5))).toBe(at(2026, 1, 1, 12, 10));
+  });
+
+  it('should_match_either_day_of_month_or_weekday_when_both_set', () => {
+    // 2026-01-01 (목) 이후: 매월 10일 또는 월요일 → 1월 5일 (월)
+    expect(getNextCronTime('0 0 10 * 1', at(2026, 1, 1, 1))).toBe(at(2026, 1, 5));
+  });
+
+  it('should_find_rare_dates_and_return_null_for_impossible_ones', () => {
+    expect(getNextCronTime('0 0 29 2 *', at(2026, 3, 1))).toBe(at(2028, 2, 29));
+    expect(getNextCronTime('0 0 31 2 *', at(2026, 1, 1))).toBeNull();
+    expect(getNextCronTime('bad', at(2026, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @file e2e.test.ts
+ * @description E2E 암호 연산 테스트 (키 교환, 페어링 MAC, 암호화)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createE2eIdentity,
+  decryptE2ePayload,
+  deriveE2eSessionKey,
+  e2eFingerprint,
+  e2ePairingMac,
+  encryptE2ePayload,
+  fromBase64Url,
+  generateE2eKeyPair,
+  generateE2eShareKey,
+  importE2eSymmetricKey,
+  loadE2eIdentity,
+  exportE2ePublicKey,
+  toBase64Url,
+  verifyE2ePairingMac,
+} from '../../src/utils/e2e.js';
+
+/** 양쪽 고정/임시 키로 세션 키 유도 */
+async function handshake() {
+  const clientIdentity = await createE2eIdentity();
+  const pylonIdentity = await createE2eIdentity();
+  const client = await loadE2eIdentity(clientIdentity);
+  const pylon = await loadE2eIdentity(pylonIdentity);
+  const clientEphemeral = await generateE2eKeyPair();
+  const pylonEphemeral = await generateE2eKeyPair();
+
+  const clientKey = await deriveE2eSessionKey({
+    staticKey: client.privateKey,
+    ephemeralKey: clientEphemeral.privateKey,
+    peerStaticKey: pylonIdentity.publicKey,
+    peerEphemeralKey: await exportE2ePublicKey(pylonEphemeral.publicKey),
+    salt: 'n1n2',
+  });
+  const pylonKey = await deriveE2eSessionKey({
+    staticKey: pylon.privateKey,
+    ephemeralKey: pylonEphemeral.privateKey,
+    peerStaticKey: clientIdentity.publicKey,
+    peerEphemeralKey: await exportE2ePublicKey(clientEphemeral.publicKey),
+    salt: 'n1n2',
+  });
+
+  return { clientKey, pylonKey, clientIdentity, pylonIdentity, clientEphemeral, pylon };
+}
+
+describe('base64url', () => {
+  it('should_round_trip_bytes_without_padding', () => {
+    const bytes = new Uint8Array([0, 250, 251, 252, 253, 254, 255]);
+    const text = toBase64Url(bytes);
+
+    expect(text).not.toMatch(/[+/=]/);
+    expect(Array.from(fromBase64Url(text))).toEqual(Array.from(bytes));
+  });
+});
+
+describe('deriveE2eSessionKey', () => {
+  it('should_derive_same_key_on_both_sides', async () => {
+    const { clientKey, pylonKey } = await handshake();
+
+    const envelope = await encryptE2ePayload(clientKey, 'kid1', 'claude_send', { message: '안녕' });
+    expect(await decryptE2ePayload(pylonKey, envelope, 'claude_send')).toEqual({ message: '안녕' });
+  });
+
+  it('should_fail_when_static_key_is_not_the_paired_one', async () => {
+    const { clientKey, pylonIdentity, clientEphemeral } = await handshake();
+    // 임시 키는 같지만 고정 키가 다른 상대 (중간자)
+    const attacker = await loadE2eIdentity(await createE2eIdentity());
+    const attackerEphemeral = await generateE2eKeyPair();
+    const attackerKey = await deriveE2eSessionKey({
+      staticKey: attacker.privateKey,
+      ephemeralKey: attackerEphemeral.privateKey,
+      peerStaticKey: pylonIdentity.publicKey,
+      peerEphemeralKey: await exportE2ePublicKey(clientEphemeral.publicKey),
+      salt: 'n1n2',
+    });
+
+    const envelope = await encryptE2ePayload(clientKey, 'kid1', 'claude_send', { message: 'secret' });
+    await expect(decryptE2ePayload(attackerKey, envelope, 'claude_send')).rejects.toThrow();
+  });
+});
+
+describe('encryptE2ePayload', () => {
+  it('should_bind_message_type_as_aad', async () => {
+    const key = await importE2eSymmetricKey(generateE2eShareKey());
+    const envelope = await encryptE2ePayload(key, 'share:abc', 'share_history', { shareId: 'abc' });
+
+    expect(envelope.kid).toBe('share:abc');
+    expect(envelope.ct).not.toContain('abc');
+    await expect(decryptE2ePayload(key, envelope, 'claude_send')).rejects.toThrow();
+  });
+
+  it('should_use_fresh_iv_each_time', async () => {
+    const key = await importE2eSymmetricKey(generateE2eShareKey());
+    const a = await encryptE2ePayload(key, 'k', 't', { v: 1 });
+    const b = await encryptE2ePayload(key, 'k', 't', { v: 1 });
+
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ct).not.toBe(b.ct);
+  });
+});
+
+describe('pairing mac', () => {
+  it('should_verify_only_with_same_secret_and_parts', async () => {
+    const mac = await e2ePairingMac('ABCDEFGHJKMNPQRS', 'request', 'pubkey');
+
+    expect(await verifyE2ePairingMac('ABCDEFGHJKMNPQRS', mac, 'request', 'pubkey')).toBe(true);
+    expect(await verifyE2ePairingMac('ABCDEFGHJKMNPQRT', mac, 'request', 'pubkey')).toBe(false);
+    expect(await verifyE2ePairingMac('ABCDEFGHJKMNPQRS', mac, 'request', 'other')).toBe(false);
+    expect(await verifyE2ePairingMac('ABCDEFGHJKMNPQRS', '!!', 'request', 'pubkey')).toBe(false);
+  });
+});
+
+describe('e2eFingerprint', () => {
+  it('should_format_as_hex_groups', async () => {
+    const { publicKey } = await createE2eIdentity();
+
+    expect(await e2eFingerprint(publicKey)).toMatch(/^[0-9a-f]{4}(-[0-9a-f]{4}){3}$/);
+  });
+});
@@ -37,15 +37,40 @@
  * ```
  */
 
-import type { AgentType, PermissionModeValue } from '@estelle/core';
-import { PermissionMode } from '@estelle/core';
+import type {
+  AgentBackendInfo,
+  AgentType,
+  AuditDecider,
+  AuditDecision,
+  ConversationAgentSettings,
+  PermissionDecision,
+  PermissionModeValue,
+} from '@estelle/core';
+import { DEFAULT_AGENT_TYPE, PermissionMode } from '@estelle/core';
 import {
   checkPermission,
   isPermissionAllow,
   isPermissionDeny,
 } from './permission-rules.js';
-import type { PermissionResult } from './permission-rules.js';
+import type { PermissionResult, PermissionPolicy } from './permission-rules.js';
 import { SuggestionManager } from './suggestion-manager.js';
+import { CommitMessageDrafter, type CommitDraftRequest } from './commit-message-drafter.js';
+import { detectUsageLimit, isUsageLimitError } from './usage-limit.js';
+import type { AgentRegistry } from './agent-registry.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 사용량 한도로 계정을 바꿔 재개하는 최대 횟수 (메시지 하나당) */
+const MAX_USAGE_LIMIT_FAILOVERS = 3;
+
+/** 계정 전환 후 같은 세션을 이어갈 때 보내는 메시지 */
+const USAGE_LIMIT_RESUME_PROMPT =
+  'The previous turn was interrupted by a usage limit and has been moved to another account. Continue from where you left off.';
+
+/** 중지한 실행이 끝나기를 기다리는 최대 시간 (ms, abort를 무시하는 어댑터 대비) */
+const STOP_WAIT_TIMEOUT_MS = 10 * 1000;
 
 // ============================================================================
 // 타입 정의
@@ -86,6 +111,8 @@ export interface SystemPromptPreset {
  * - error: 에러 발생
  * - state: 상태 변경 (idle, working, waiting)
  * - agentAborted: 중단됨
+ * - accountFailover: 사용량 한도로 계정 자동 전환 (Pylon이 발생)
+ * - budgetExceeded: 대화 설정의 턴/비용 한도에 도달해 중단
  */
 export type AgentManagerEventType =
   | 'init'
@@ -104,7 +131,9 @@ export type AgentManagerEventType =
   | 'usage_update'
   | 'compactStart'
   | 'compactComplete'
-  | 'suggestion';
+  | 'suggestion'
+  | 'accountFailover'
+  | 'budgetExceeded';
 
 /**
  * Agent 상태 정보
@@ -173,6 +202,21 @@ export interface AgentSession {
 
   /** 사용 가능한 도구 목록 (init 이벤트에서 수신) */
   tools: string[];
+
+  /** 감지된 사용량 한도 사유 (없으면 null) */
+  usageLimit: string | null;
+
+  /** 대화별 에이전트 설정 (쿼리 시작 시점 값) */
+  settings: ConversationAgentSettings;
+
+  /** 모델이 도구를 부른 턴 수 (병렬 도구 호출은 한 턴) */
+  turns: number;
+
+  /** 지금 턴에서 결과를 기다리는 도구 사용 ID */
+  turnToolUseIds: Set<string>;
+
+  /** 에이전트가 실제로 실행되는 디렉토리 (태스크 워커는 자기 worktree) */
+  workingDir: string;
 }
 
 /**
@@ -190,6 +234,12 @@ export interface PendingPermission {
 
   /** 세션 ID */
   sessionId: number;
+
+  /** 요청 시각 (사용자 응답 대기 시간 계산용) */
+  requestedAt: number;
+
+  /** 요청 당시 권한 모드 */
+  permissionMode: PermissionModeValue;
 }
 
 /**
@@ -244,6 +294,12 @@ export interface SendMessageOptions {
   /** Agent 세션 ID (재개용) */
   agentSessionId?: string;
 
+  /** 세션 분기 여부 (agentSessionId를 새 세션 ID로 분기해서 재개) */
+  forkSession?: boolean;
+
+  /** 재개 지점 (이 assistant 메시지 UUID까지만 이어감, 분기용) */
+  resumeSessionAt?: string;
+
   /** 시스템 프롬프트 (새 세션용, resume 시 무시됨) */
   systemPrompt?: string | SystemPromptPreset;
 
@@ -270,6 +326,92 @@ export type AgentEventHandler = (
  */
 export type GetPermissionModeFn = (sessionId: number) => PermissionModeValue;
 
+/**
+ * 대화의 에이전트 타입 조회 함수
+ */
+export type GetAgentTypeFn = (sessionId: number) => AgentType | undefined;
+
+/**
+ * 대화의 에이전트 설정 조회 함수
+ */
+export type GetAgentSettingsFn = (sessionId: number) => ConversationAgentSettings | undefined;
+
+/**
+ * 대화 누적 비용 조회 함수 (USD, 저장된 값)
+ */
+export type GetConversationCostFn = (sessionId: number) => number | undefined;
+
+/**
+ * 대화 누적 비용 갱신 핸들러 (저장용)
+ */
+export type ConversationCostHandler = (sessionId: number, spentUsd: number) => void;
+
+/**
+ * 워크스페이스 권한 정책 조회 함수
+ */
+export type GetPermissionPolicyFn = (sessionId: number) => PermissionPolicy | undefined;
+
+/**
+ * 권한 결정 기록 (감사 로그용)
+ */
+export interface PermissionDecisionRecord {
+  /** 도구 이름 */
+  toolName: string;
+
+  /** 도구 전체 입력 */
+  input: Record<string, unknown>;
+
+  /** 결정 종류 */
+  decision: AuditDecision;
+
+  /** 결정 사유 */
+  reason?: string;
+
+  /** 결정 당시 권한 모드 */
+  permissionMode: PermissionModeValue;
+
+  /** 결정한 클라이언트 (사용자 결정일 때) */
+  decidedBy?: AuditDecider;
+
+  /** 사용자 응답 대기 시간 (ms) */
+  durationMs?: number;
+}
+
+/**
+ * 권한 결정 핸들러
+ */
+export type PermissionDecisionHandler = (
+  sessionId: number,
+  record: PermissionDecisionRecord
+) => void;
+
+/**
+ * 사용량 한도 정보 (계정 전환 판단용)
+ */
+export interface UsageLimitInfo {
+  /** 한도 사유 (SDK가 보낸 문구) */
+  reason: string;
+
+  /** 재개할 Agent 세션 ID */
+  agentSessionId: string;
+
+  /** 한도에 걸린 쿼리의 시작 시간 */
+  startTime: number;
+
+  /** 전환 시도 횟수 (1부터) */
+  attempt: number;
+}
+
+/**
+ * 사용량 한도 핸들러
+ *
+ * @returns 다른 계정으로 전환해서 같은 세션을 재개하면 true
+ */
+export type UsageLimitHandler = (
+  sessionId: number,
+  info: UsageLimitInfo
+) => Promise<boolean>;
+
 /**
  * MCP 설정 로드 함수
  */
@@ -303,6 +445,13 @@ export interface AgentAdapter {
    * @returns 메시지 스트림 (AsyncIterable)
    */
   query(options: AgentQueryOptions): AsyncIterable<AgentMessage>;
+
+  /**
+   * 대화가 삭제될 때 대화별로 기억해 둔 상태 정리 (선택)
+   *
+   * @param conversationId - 삭제된 대화 ID
+   */
+  forgetConversation?(conversationId: number): void;
 }
 
 /**
@@ -333,6 +482,9 @@ export interface AgentQueryOptions {
   /** 세션 분기 여부 (resume 시 새 세션 ID로 분기) */
   forkSession?: boolean;
 
+  /** 재개 지점 (resume 시 이 assistant 메시지 UUID까지만 이어감) */
+  resumeSessionAt?: string;
+
   /** MCP 서버 설정 */
   mcpServers?: Record<string, unknown>;
 
@@ -348,8 +500,23 @@ export interface AgentQueryOptions {
     input: Record<string, unknown>
   ) => Promise<PermissionCallbackResult>;
 
+  /** 대화 권한 모드 (도구별 콜백 대신 자체 샌드박스를 쓰는 어댑터용, 예: Codex) */
+  permissionMode?: PermissionModeValue;
+
   /** 시스템 프롬프트 (새 세션용) */
   systemPrompt?: string | SystemPromptPreset;
+
+  /** 모델 이름 (없으면 어댑터 기본값) */
+  model?: string;
+
+  /** 추론 강도 (없으면 어댑터 기본값) */
+  effort?: ConversationAgentSettings['effort'];
+
+  /** 최대 턴 수 (지원하는 어댑터만, AgentManager도 턴을 세서 중단) */
+  maxTurns?: number;
+
+  /** 이번 메시지에 쓸 수 있는 최대 비용 USD (대화 비용 한도에서 누적 비용을 뺀 값, 지원하는 어댑터만, 예: Claude) */
+  maxCostUsd?: number;
 }
 
 /**
@@ -426,7 +593,12 @@ export interface AgentMessage {
   tool_name?: string;
   elapsed_time_seconds?: number;
 
+  /** assistant 메시지 에러 (예: 'rate_limit') */
+  error?: string;
+
   /** 결과 정보 */
+  is_error?: boolean;
+  result?: string;
   total_cost_usd?: number;
   num_turns?: number;
   usage?: {
@@ -455,6 +627,12 @@ export interface AgentManagerOptions {
   /** 권한 모드 조회 함수 */
   getPermissionMode: GetPermissionModeFn;
 
+  /** 워크스페이스 권한 정책 조회 함수 (선택) */
+  getPermissionPolicy?: GetPermissionPolicyFn;
+
+  /** 권한 결정 핸들러 (선택, 감사 로그 기록용) */
+  onPermissionDecision?: PermissionDecisionHandler;
+
   /** MCP 설정 로드 함수 (선택) */
   loadMcpConfig?: LoadMcpConfigFn;
 
@@ -467,9 +645,27 @@ export interface AgentManagerOptions {
   /** Codex SDK 어댑터 */
   codexAdapter?: AgentAdapter;
 
+  /** 에이전트 레지스트리 (이름으로 어댑터 조회, 있으면 claude/codexAdapter보다 우선) */
+  registry?: AgentRegistry;
+
+  /** 대화의 에이전트 타입 조회 함수 (sendMessage에 agentType이 없을 때 사용) */
+  getAgentType?: GetAgentTypeFn;
+
+  /** 대화의 에이전트 설정 조회 함수 (모델, 추론 강도, 한도) */
+  getAgentSettings?: GetAgentSettingsFn;
+
+  /** 대화 누적 비용 조회 함수 (비용 한도 확인용, 없으면 0으로 시작) */
+  getConversationCost?: GetConversationCostFn;
+
+  /** 대화 누적 비용 갱신 핸들러 (result마다 새 누적 비용을 넘김) */
+  onConversationCost?: ConversationCostHandler;
+
   /** SDK raw 메시지 로거 (선택) */
   onRawMessage?: RawMessageLogger;
 
+  /** 사용량 한도 핸들러 (선택, 계정 자동 전환용) */
+  onUsageLimit?: UsageLimitHandler;
+
   /** Agent config 디렉토리 (CLAUDE_CONFIG_DIR, 환경별 분리) */
   agentConfigDir?: string;
 }
@@ -518,6 +714,12 @@ export class AgentManager {
   /** 권한 모드 조회 함수 */
   private readonly getPermissionMode: GetPermissionModeFn;
 
+  /** 워크스페이스 권한 정책 조회 함수 */
+  private readonly getPermissionPolicy?: GetPermissionPolicyFn;
+
+  /** 권한 결정 핸들러 */
+  private readonly onPermissionDecision?: PermissionDecisionHandler;
+
   /** MCP 설정 로드 함수 */
   private readonly loadMcpConfig?: LoadMcpConfigFn;
 
@@ -530,12 +732,33 @@ export class AgentManager {
   /** Codex SDK 어댑터 */
   private readonly codexAdapter?: AgentAdapter;
 
+  /** 에이전트 레지스트리 */
+  private readonly registry?: AgentRegistry;
+
+  /** 에이전트 타입 조회 함수 */
+  private readonly getAgentType?: GetAgentTypeFn;
+
+  /** 에이전트 설정 조회 함수 */
+  private readonly getAgentSettings?: GetAgentSettingsFn;
+
+  /** 대화 누적 비용 조회 함수 */
+  private readonly getConversationCost?: GetConversationCostFn;
+
+  /** 대화 누적 비용 갱신 핸들러 */
+  private readonly onConversationCost?: ConversationCostHandler;
+
   /** SDK raw 메시지 로거 */
   private readonly onRawMessage?: RawMessageLogger;
 
+  /** 사용량 한도 핸들러 */
+  private readonly onUsageLimit?: UsageLimitHandler;
+
   /** 제안 생성 매니저 */
   private readonly suggestionManager: SuggestionManager;
 
+  /** 커밋 메시지 초안 작성기 */
+  private readonly commitMessageDrafter: CommitMessageDrafter;
+
   /** 대화별 자동 제안 활성화 상태 */
   // autoSuggestEnabled 제거: 자동 제안은 클라이언트 옵션, Pylon은 캐시 역할만
 
@@ -552,6 +775,9 @@ export class AgentManager {
   /** 재연결 시 전송할 대기 이벤트 (sessionId -> PendingEvent) */
   private readonly pendingEvents: Map<number, PendingEvent> = new Map();
 
+  /** 진행 중인 sendMessage 실행 (sessionId -> 실행이 끝나면 resolve) */
+  private readonly runs: Map<number, Promise<void>> = new Map();
+
   // ============================================================================
   // 생성자
   // ============================================================================
@@ -564,16 +790,25 @@ export class AgentManager {
   constructor(options: AgentManagerOptions) {
     this.onEvent = options.onEvent;
     this.getPermissionMode = options.getPermissionMode;
+    this.getPermissionPolicy = options.getPermissionPolicy;
+    this.onPermissionDecision = options.onPermissionDecision;
     this.loadMcpConfig = options.loadMcpConfig;
     this.adapter = options.adapter;
     this.claudeAdapter = options.claudeAdapter;
     this.codexAdapter = options.codexAdapter;
+    this.registry = options.registry;
+    this.getAgentType = options.getAgentType;
+    this.getAgentSettings = options.getAgentSettings;
+    this.getConversationCost = options.getConversationCost;
+    this.onConversationCost = options.onConversationCost;
     this.onRawMessage = options.onRawMessage;
+    this.onUsageLimit = options.onUsageLimit;
     this.agentConfigDir = options.agentConfigDir;
     this.suggestionManager = new SuggestionManager(
       this.claudeAdapter || this.adapter!,
       this.onEvent,
     );
+    this.commitMessageDrafter = new CommitMessageDrafter(this.claudeAdapter || this.adapter!);
   }
 
   /** Agent config 디렉토리 */
@@ -608,6 +843,7 @@ export class AgentManager {
     options: SendMessageOptions
   ): Promise<void> {
     const { workingDir, agentSessionId } = options;
+    const agentType = options.agentType ?? this.getAgentType?.(sessionId) ?? DEFAULT_AGENT_TYPE;
 
     // 작업 디렉토리 필수
     if (!workingDir) {
@@ -624,22 +860,61 @@ export class AgentManager {
       await this.delay(200);
     }
 
+    let finishRun!: () => void;
+    const run = new Promise<void>((resolve) => {
+      finishRun = resolve;
+    });
+    this.runs.set(sessionId, run);
+
     this.emitEvent(sessionId, { type: 'state', state: 'working' });
     this.suggestionManager.cancel(sessionId);
 
     try {
-      await this.runQuery(
-        sessionId,
-        {
+      let sessionInfo: SendMessageOptions = {
+        workingDir,
+        agentSessionId,
+        forkSession: options.forkSession,
+        resumeSessionAt: options.resumeSessionAt,
+        systemPrompt: options.systemPrompt,
+        systemReminder: options.systemReminder,
+        plugins: options.plugins,
+        agentType,
+      };
+      let prompt = message;
+
+      // 사용량 한도에 걸리면 계정을 바꿔 같은 세션을 재개
+      for (let attempt = 1; ; attempt++) {
+        let limitError: unknown = null;
+        try {
+          await this.runQuery(sessionId, sessionInfo, prompt);
+        } catch (err) {
+          if (!isUsageLimitError(err)) throw err;
+          limitError = err;
+        }
+
+        const session = this.sessions.get(sessionId);
+        const reason =
+          session?.usageLimit ??
+          (limitError ? (limitError instanceof Error ? limitError.message : String(limitError)) : null);
+        const resumed =
+          reason !== null &&
+          session !== undefined &&
+          attempt <= MAX_USAGE_LIMIT_FAILOVERS &&
+          (await this.requestFailover(sessionId, session, sessionInfo, reason, attempt));
+
+        if (!resumed) {
+          if (limitError) throw limitError;
+          break;
+        }
+
+        sessionInfo = {
           workingDir,
-          agentSessionId,
-          systemPrompt: options.systemPrompt,
-          systemReminder: options.systemReminder,
+          agentSessionId: session!.agentSessionId!,
           plugins: options.plugins,
-          agentType: options.agentType,
-        },
-        message
-      );
+          agentType,
+        };
+        prompt = USAGE_LIMIT_RESUME_PROMPT;
+      }
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : String(err);
@@ -652,9 +927,15 @@ export class AgentManager {
       this.pendingEvents.delete(sessionId);
       this.emitEvent(sessionId, { type: 'state', state: 'idle' });
 
+      if (this.runs.get(sessionId) === run) {
+        this.runs.delete(sessionId);
+      }
+      finishRun();
+
       // 응답 완료 시 캐시 무효화 후 즉시 프리캐싱 (클라이언트 요청 시 캐시 히트)
+      // 제안은 Claude 세션을 분기해서 만드므로 다른 에이전트 세션은 건너뜀
       this.suggestionManager.clearCache(sessionId);
-      if (agentSessionId && options.workingDir) {
+      if (agentSessionId && options.workingDir && agentType === DEFAULT_AGENT_TYPE) {
         this.suggestionManager.generate(sessionId, agentSessionId, options.workingDir)
           .catch(() => { /* 프리캐싱 실패는 무시 — 클라이언트 요청 시 재생성 */ });
       }
@@ -678,6 +959,21 @@ export class AgentManager {
       .catch((err) => { console.error(`[Suggestion] requestSuggestion failed:`, err); });
   }
 
+  // ============================================================================
+  // Public 메서드 - 커밋 메시지 초안
+  // ============================================================================
+
+  /**
+   * 커밋 메시지 초안 작성
+   *
+   * @description
+   * agentSessionId가 있으면 그 세션을 fork해서 대화 맥락을 보고 작성합니다.
+   * (Claude 세션만 fork할 수 있으므로 다른 에이전트 대화는 null을 넘기세요.)
+   */
+  draftCommitMessage(request: CommitDraftRequest): Promise<string> {
+    return this.commitMessageDrafter.draft(request);
+  }
+
   // ============================================================================
   // Public 메서드 - 세션 제어
   // ============================================================================
@@ -689,15 +985,18 @@ export class AgentManager {
    * 세션을 강제로 중지합니다.
    * 세션 유무와 관계없이 항상 idle 상태로 전환됩니다.
    * abort 실패해도 세션을 정리합니다.
+   * 반환한 Promise는 중지한 실행이 실제로 끝나면 resolve됩니다 (waitForIdle 참고).
    *
    * @param sessionId - 중지할 세션 ID
    *
    * @example
    * ```typescript
-   * manager.stop('conv-123');
+   * await manager.stop('conv-123');
+   * // 이제 에이전트가 작업 디렉토리를 건드리지 않음
    * ```
    */
-  stop(sessionId: number): void {
+  stop(sessionId: number): Promise<void> {
+    const stopped = this.waitForIdle(sessionId);
     const session = this.sessions.get(sessionId);
 
     // 1. abort 시도 (실패해도 계속 진행)
@@ -744,6 +1043,31 @@ export class AgentManager {
         this.pendingQuestions.delete(id);
       }
     }
+
+    return stopped;
+  }
+
+  /**
+   * 진행 중인 실행이 끝나기를 기다림
+   *
+   * @description
+   * stop()은 idle 이벤트를 바로 보내지만, 어댑터(에이전트 프로세스)는 abort 뒤에도 잠시 더 돌 수 있습니다.
+   * 작업 디렉토리(worktree)를 커밋하거나 지우기 전에 이 Promise를 기다리세요.
+   * 실행이 없으면 바로, abort를 무시하는 실행은 STOP_WAIT_TIMEOUT_MS 뒤에 resolve됩니다.
+   *
+   * @param sessionId - 세션 ID
+   */
+  waitForIdle(sessionId: number): Promise<void> {
+    const run = this.runs.get(sessionId);
+    if (!run) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, STOP_WAIT_TIMEOUT_MS);
+      run.then(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
   }
 
   /**
@@ -768,10 +1092,12 @@ export class AgentManager {
    *
    * @description
    * 대기 중인 권한 요청에 응답합니다.
+   * 'allowAlways'는 이번 요청을 허용하며, 규칙 추가는 호출 측(Pylon)이 처리합니다.
    *
    * @param sessionId - 세션 ID
    * @param toolUseId - 도구 사용 ID
-   * @param decision - 권한 결정 ('allow', 'deny', 'allowAll')
+   * @param decision - 권한 결정 ('allow', 'deny', 'allowAll', 'allowAlways')
+   * @param decidedBy - 결정한 클라이언트 (감사 로그용, 선택)
    *
    * @example
    * ```typescript
@@ -781,7 +1107,8 @@ export class AgentManager {
   respondPermission(
     sessionId: number,
     toolUseId: string,
-    decision: 'allow' | 'deny' | 'allowAll'
+    decision: PermissionDecision,
+    decidedBy?: AuditDecider
   ): void {
     const pending = this.pendingPermissions.get(toolUseId);
     if (!pending) return;
@@ -789,7 +1116,17 @@ export class AgentManager {
     this.pendingPermissions.delete(toolUseId);
     this.pendingEvents.delete(sessionId);
 
-    if (decision === 'allow' || decision === 'allowAll') {
+    this.onPermissionDecision?.(sessionId, {
+      toolName: pending.toolName,
+      input: pending.input,
+      decision: decision === 'deny' ? 'user_deny' : 'user_allow',
+      reason: decision,
+      permissionMode: pending.permissionMode,
+      decidedBy,
+      durationMs: Date.now() - pending.requestedAt,
+    });
+
+    if (decision !== 'deny') {
       pending.resolve({ behavior: 'allow', updatedInput: pending.input });
     } else {
       pending.resolve({ behavior: 'deny', message: 'User denied' });
@@ -859,6 +1196,24 @@ export class AgentManager {
     return this.pendingEvents.get(sessionId) || null;
   }
 
+  /**
+   * toolUseId로 대기 중인 권한 요청 가져오기
+   *
+   * @description
+   * 세션당 하나만 보관하는 대기 이벤트와 달리, 동시에 여러 권한 요청이 대기 중이어도
+   * 해당 요청의 도구와 입력을 정확히 찾습니다.
+   *
+   * @param toolUseId - 도구 호출 ID
+   * @returns 세션 ID·도구 이름·입력 또는 null
+   */
+  getPendingPermission(
+    toolUseId: string
+  ): { sessionId: number; toolName: string; input: Record<string, unknown> } | null {
+    const pending = this.pendingPermissions.get(toolUseId);
+    if (!pending) return null;
+    return { sessionId: pending.sessionId, toolName: pending.toolName, input: pending.input };
+  }
+
   /**
    * 모든 대기 이벤트 가져오기
    *
@@ -901,6 +1256,27 @@ export class AgentManager {
     return Array.from(this.sessions.keys());
   }
 
+  /**
+   * 사용할 수 있는 에이전트 목록
+   *
+   * @description
+   * 레지스트리가 있으면 등록된 에이전트를, 없으면 설정된 claude/codex 어댑터를 반환합니다.
+   */
+  getAgentBackends(): AgentBackendInfo[] {
+    if (this.registry) {
+      return this.registry.list();
+    }
+
+    const backends: AgentBackendInfo[] = [];
+    if (this.claudeAdapter || this.adapter) {
+      backends.push({ name: DEFAULT_AGENT_TYPE, label: 'Claude', adapter: 'claude' });
+    }
+    if (this.codexAdapter) {
+      backends.push({ name: 'codex', label: 'Codex', adapter: 'codex' });
+    }
+    return backends;
+  }
+
   /**
    * 대기 중인 질문의 세션 ID 목록
    *
@@ -955,6 +1331,26 @@ export class AgentManager {
     }
   }
 
+  /**
+   * 삭제된 대화의 어댑터 상태 정리
+   *
+   * @description
+   * 어댑터가 대화별로 기억해 둔 상태(예: Codex 쓰기 권한)를 지웁니다.
+   * 같은 ID가 나중에 다른 대화에 재사용되어도 이전 답을 이어받지 않습니다.
+   * 실행 중인 세션은 호출 측이 먼저 stop()으로 중지합니다.
+   *
+   * @param sessionId - 삭제된 대화 ID
+   */
+  forgetConversation(sessionId: number): void {
+    const adapters = new Set<AgentAdapter | undefined>([this.adapter, this.claudeAdapter, this.codexAdapter]);
+    for (const { name } of this.registry?.list() ?? []) {
+      adapters.add(this.registry?.get(name) ?? undefined);
+    }
+    for (const adapter of adapters) {
+      adapter?.forgetConversation?.(sessionId);
+    }
+  }
+
   /**
    * 모든 세션 강제 종료
    *
@@ -990,14 +1386,7 @@ export class AgentManager {
    */
   private async runQuery(
     sessionId: number,
-    sessionInfo: {
-      workingDir: string;
-      agentSessionId?: string;
-      systemPrompt?: string | SystemPromptPreset;
-      systemReminder?: string;
-      plugins?: Array<{ type: 'local'; path: string }>;
-      agentType?: AgentType;
-    },
+    sessionInfo: SendMessageOptions,
     message: string
   ): Promise<void> {
     const abortController = new AbortController();
@@ -1017,6 +1406,11 @@ export class AgentManager {
         cacheCreationInputTokens: 0,
       },
       tools: [],
+      usageLimit: null,
+      settings: this.getAgentSettings?.(sessionId) ?? {},
+      turns: 0,
+      turnToolUseIds: new Set(),
+      workingDir: sessionInfo.workingDir,
     };
     this.sessions.set(sessionId, session);
 
@@ -1027,6 +1421,17 @@ export class AgentManager {
       partialText: '',
     });
 
+    // 대화 누적 비용이 한도에 도달했으면 모델을 부르지 않음
+    const spentUsd = this.getConversationCost?.(sessionId) ?? 0;
+    const { maxCostUsd } = session.settings;
+    if (maxCostUsd !== undefined && spentUsd >= maxCostUsd) {
+      this.emitEvent(sessionId, {
+        type: 'budgetExceeded',
+        message: `대화 비용 한도($${maxCostUsd})에 도달해 응답하지 않습니다 (누적 $${spentUsd.toFixed(2)})`,
+      });
+      return;
+    }
+
     // 쿼리 옵션 구성
     const queryOptions: AgentQueryOptions = {
       prompt: message,
@@ -1038,6 +1443,10 @@ export class AgentManager {
       canUseTool: async (toolName, input) => {
         return this.handlePermission(sessionId, toolName, input);
       },
+      permissionMode: this.getPermissionMode(sessionId),
+      // 대화별 모델/추론 강도/한도 (없는 값은 어댑터 기본값, 비용 한도는 남은 금액)
+      ...session.settings,
+      ...(maxCostUsd !== undefined && { maxCostUsd: maxCostUsd - spentUsd }),
     };
 
     // MCP 서버 설정 로드
@@ -1064,6 +1473,14 @@ export class AgentManager {
     // 세션 재개
     if (sessionInfo.agentSessionId) {
       queryOptions.resume = sessionInfo.agentSessionId;
+
+      // 세션 분기 (원본 세션은 그대로 두고 새 세션 ID로 이어감)
+      if (sessionInfo.forkSession) {
+        queryOptions.forkSession = true;
+        if (sessionInfo.resumeSessionAt) {
+          queryOptions.resumeSessionAt = sessionInfo.resumeSessionAt;
+        }
+      }
     }
 
     // resume가 아닐 때만 context(systemPrompt, systemReminder) 처리
@@ -1080,11 +1497,8 @@ export class AgentManager {
     }
 
     // 어댑터 선택
-    const agentType = sessionInfo.agentType || 'claude';
-    // 새 어댑터가 있으면 사용, 없으면 기존 adapter 사용 (하위 호환)
-    const adapter = agentType === 'codex'
-      ? this.codexAdapter
-      : (this.claudeAdapter || this.adapter);
+    const agentType = sessionInfo.agentType || DEFAULT_AGENT_TYPE;
+    const adapter = this.getAdapter(agentType);
 
     if (!adapter) {
       this.emitEvent(sessionId, {
@@ -1099,9 +1513,58 @@ export class AgentManager {
 
     for await (const msg of query) {
       this.handleMessage(sessionId, session, msg);
+
+      // 한도 초과 등으로 중단했으면 남은 메시지는 버림
+      if (abortController.signal.aborted) break;
     }
   }
 
+  /**
+   * 사용량 한도 시 계정 전환 요청
+   *
+   * @description
+   * Claude 세션이고 재개할 세션 ID가 있을 때만 핸들러에 묻습니다.
+   * 핸들러가 전환하는 동안 사용자가 중지/재전송했으면 재개하지 않습니다.
+   *
+   * @returns 같은 세션을 재개해야 하면 true
+   */
+  private async requestFailover(
+    sessionId: number,
+    session: AgentSession,
+    sessionInfo: SendMessageOptions,
+    reason: string,
+    attempt: number
+  ): Promise<boolean> {
+    if (!this.onUsageLimit || !session.agentSessionId) return false;
+    if ((sessionInfo.agentType ?? 'claude') !== 'claude') return false;
+    if (session.abortController.signal.aborted) return false;
+
+    const resume = await this.onUsageLimit(sessionId, {
+      reason,
+      agentSessionId: session.agentSessionId,
+      startTime: session.startTime,
+      attempt,
+    });
+
+    return resume && !session.abortController.signal.aborted && this.sessions.get(sessionId) === session;
+  }
+
+  /**
+   * 에이전트 타입으로 어댑터 조회
+   *
+   * @description
+   * 레지스트리에 등록된 어댑터를 먼저 찾고,
+   * 없으면 claude/codex 전용 어댑터를 씁니다. (하위 호환)
+   */
+  private getAdapter(agentType: AgentType): AgentAdapter | undefined {
+    const registered = this.registry?.get(agentType);
+    if (registered) return registered;
+
+    if (agentType === 'codex') return this.codexAdapter;
+    if (agentType === DEFAULT_AGENT_TYPE) return this.claudeAdapter || this.adapter;
+    return undefined;
+  }
+
   /**
    * SDK 메시지 처리
    *
@@ -1119,6 +1582,11 @@ export class AgentManager {
       this.onRawMessage(sessionId, msg);
     }
 
+    const usageLimit = detectUsageLimit(msg);
+    if (usageLimit) {
+      session.usageLimit = usageLimit;
+    }
+
     switch (msg.type) {
       case 'system':
         this.handleSystemMessage(sessionId, session, msg);
@@ -1126,10 +1594,12 @@ export class AgentManager {
 
       case 'assistant':
         this.handleAssistantMessage(sessionId, session, msg);
+        this.countTurn(session, msg);
         break;
 
       case 'user':
         this.handleUserMessage(sessionId, session, msg);
+        this.checkTurnBudget(sessionId, session, msg);
         break;
 
       case 'stream_event':
@@ -1421,6 +1891,79 @@ export class AgentManager {
       num_turns: msg.num_turns,
       usage: session.usage,
     });
+
+    const spentUsd = (this.getConversationCost?.(sessionId) ?? 0) + (msg.total_cost_usd ?? 0);
+    if (msg.total_cost_usd !== undefined) {
+      this.onConversationCost?.(sessionId, spentUsd);
+    }
+
+    // 어댑터가 직접 한도를 적용해 끝낸 경우 (예: Claude maxTurns/maxBudgetUsd)
+    const { maxCostUsd } = session.settings;
+    if (msg.subtype === 'error_max_turns') {
+      this.emitEvent(sessionId, {
+        type: 'budgetExceeded',
+        message: `턴 한도(${session.settings.maxTurns ?? msg.num_turns}회)에 도달해 응답을 중단했습니다`,
+      });
+    } else if (msg.subtype === 'error_max_budget_usd') {
+      this.emitEvent(sessionId, {
+        type: 'budgetExceeded',
+        message: `대화 비용 한도($${maxCostUsd ?? spentUsd})에 도달해 응답을 중단했습니다 (누적 $${spentUsd.toFixed(2)})`,
+      });
+    } else if (maxCostUsd !== undefined && spentUsd >= maxCostUsd) {
+      // 비용을 끝에만 보고하는 어댑터도 다음 메시지부터는 막음
+      this.emitEvent(sessionId, {
+        type: 'budgetExceeded',
+        message: `대화 비용 한도($${maxCostUsd})에 도달했습니다. 한도를 늘리기 전까지 응답하지 않습니다 (누적 $${spentUsd.toFixed(2)})`,
+      });
+    }
+  }
+
+  /**
+   * 턴 세기
+   *
+   * @description
+   * 최상위 assistant 메시지가 도구를 부르면 모델의 한 턴으로 셉니다.
+   * 병렬 도구 호출이 여러 메시지로 나뉘어 와도, 앞선 도구 결과를 다 받기 전까지는 같은 턴입니다.
+   */
+  private countTurn(session: AgentSession, msg: AgentMessage): void {
+    if (msg.parent_tool_use_id) return;
+    const toolUseIds = (msg.message?.content ?? [])
+      .filter((block) => block.type === 'tool_use' && block.id)
+      .map((block) => block.id!);
+    if (toolUseIds.length === 0) return;
+
+    if (session.turnToolUseIds.size === 0) {
+      session.turns++;
+    }
+    toolUseIds.forEach((id) => session.turnToolUseIds.add(id));
+  }
+
+  /**
+   * 턴 한도 확인
+   *
+   * @description
+   * 한도 턴에서 부른 도구의 결과를 모두 받으면 모델을 다시 부르기 전에 세션을 중지합니다.
+   * (어댑터가 maxTurns를 지원하지 않아도 같은 기준으로 멈추도록)
+   */
+  private checkTurnBudget(
+    sessionId: number,
+    session: AgentSession,
+    msg: AgentMessage
+  ): void {
+    if (msg.parent_tool_use_id) return;
+    const results = (msg.message?.content ?? []).filter((block) => block.type === 'tool_result');
+    if (results.length === 0) return;
+    results.forEach((block) => session.turnToolUseIds.delete(block.tool_use_id!));
+
+    const { maxTurns } = session.settings;
+    if (!maxTurns || session.turnToolUseIds.size > 0) return;
+    if (session.turns >= maxTurns && this.sessions.get(sessionId) === session) {
+      this.emitEvent(sessionId, {
+        type: 'budgetExceeded',
+        message: `턴 한도(${maxTurns}회)에 도달해 응답을 중단했습니다`,
+      });
+      this.stop(sessionId);
+    }
   }
 
   // ============================================================================
@@ -1441,17 +1984,36 @@ export class AgentManager {
     input: Record<string, unknown>
   ): Promise<PermissionCallbackResult> {
     const mode = this.getPermissionMode(sessionId);
+    // 위치 규칙은 세션이 실제로 도는 디렉토리 기준 (워커 worktree 포함)
+    const session = this.sessions.get(sessionId);
+    const basePolicy = this.getPermissionPolicy?.(sessionId);
+    const policy =
+      basePolicy && session ? { ...basePolicy, workingDir: session.workingDir } : basePolicy;
 
     // 권한 규칙 확인
-    const result: PermissionResult = checkPermission(toolName, input, mode);
+    const result: PermissionResult = checkPermission(toolName, input, mode, policy);
 
     // 자동 허용
     if (isPermissionAllow(result)) {
+      this.onPermissionDecision?.(sessionId, {
+        toolName,
+        input,
+        decision: 'auto_allow',
+        reason: result.reason,
+        permissionMode: mode,
+      });
       return { behavior: 'allow', updatedInput: result.updatedInput };
     }
 
     // 자동 거부
     if (isPermissionDeny(result)) {
+      this.onPermissionDecision?.(sessionId, {
+        toolName,
+        input,
+        decision: 'auto_deny',
+        reason: result.message,
+        permissionMode: mode,
+      });
       return { behavior: 'deny', message: result.message };
     }
 
@@ -1473,6 +2035,8 @@ export class AgentManager {
         toolName,
         input,
         sessionId,
+        requestedAt: Date.now(),
+        permissionMode: mode,
       });
 
       const permEvent: PendingEvent = {
@@ -0,0 +1,255 @@
+/**
+ * @file agent-registry.ts
+ * @description AgentRegistry - 이름으로 AgentAdapter를 등록/조회하는 레지스트리
+ *
+ * 대화의 agentType(에이전트 이름)으로 실행할 어댑터를 찾습니다.
+ * - 기본 제공 어댑터(Claude, Codex)는 인스턴스를 바로 등록
+ * - 설정으로 만드는 어댑터(예: OpenAI 호환)는 팩토리를 등록하고,
+ *   Pylon 설정의 `pylon.agents` 항목마다 스키마 검증 후 인스턴스를 생성
+ *
+ * @example
+ * ```typescript
+ * const registry = new AgentRegistry();
+ * registry.register('claude', new ClaudeSDKAdapter(), { label: 'Claude', adapter: 'claude' });
+ * registry.registerFactory(openAICompatibleAdapterFactory);
+ *
+ * const errors = registry.configure('local-llama', {
+ *   adapter: 'openai-compatible',
+ *   baseUrl: 'http://localhost:8080/v1',
+ *   model: 'qwen2.5-coder',
+ * });
+ * ```
+ */
+
+import { isAgentType } from '@estelle/core';
+import type { AgentBackendInfo, AgentType } from '@estelle/core';
+import type { AgentAdapter } from './agent-manager.js';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 설정 필드 스키마
+ */
+export interface AgentConfigField {
+  /** 값 타입 */
+  type: 'string' | 'number' | 'boolean';
+
+  /** 필수 여부 */
+  required?: boolean;
+
+  /** 설명 (설정 오류 메시지/문서용) */
+  description: string;
+}
+
+/**
+ * 어댑터 설정 스키마 (필드 이름 → 필드 스키마)
+ */
+export type AgentConfigSchema = Record<string, AgentConfigField>;
+
+/**
+ * 에이전트 설정 (Pylon 설정의 `pylon.agents.<name>`)
+ *
+ * @description
+ * `adapter`로 팩토리를 고르고, 나머지 필드는 팩토리의 configSchema로 검증합니다.
+ */
+export interface AgentBackendConfig {
+  /** 어댑터 종류 (팩토리 kind) */
+  adapter: string;
+
+  /** 표시 이름 (없으면 에이전트 이름) */
+  label?: string;
+
+  /** 어댑터별 설정 */
+  [key: string]: unknown;
+}
+
+/**
+ * 설정으로 AgentAdapter를 만드는 팩토리
+ */
+export interface AgentAdapterFactory {
+  /** 어댑터 종류 (설정의 adapter 값) */
+  kind: string;
+
+  /** 어댑터별 설정 스키마 */
+  configSchema: AgentConfigSchema;
+
+  /**
+   * 어댑터 생성 (configSchema 검증을 통과한 설정만 전달됨)
+   *
+   * @param name - 에이전트 이름
+   * @param config - 어댑터별 설정
+   */
+  create(name: AgentType, config: Record<string, unknown>): AgentAdapter;
+}
+
+/**
+ * 등록된 에이전트
+ */
+interface RegisteredAgent {
+  info: AgentBackendInfo;
+  adapter: AgentAdapter;
+}
+
+// ============================================================================
+// AgentRegistry 클래스
+// ============================================================================
+
+/**
+ * AgentRegistry - 에이전트 이름 → 어댑터
+ *
+ * @description
+ * 등록 순서대로 목록을 반환합니다. (클라이언트 선택 UI 순서)
+ * 같은 이름으로 다시 등록하면 덮어씁니다.
+ */
+export class AgentRegistry {
+  /** kind → 팩토리 */
+  private readonly factories: Map<string, AgentAdapterFactory> = new Map();
+
+  /** 에이전트 이름 → 등록 정보 */
+  private readonly agents: Map<AgentType, RegisteredAgent> = new Map();
+
+  // ============================================================================
+  // 등록
+  // ============================================================================
+
+  /**
+   * 어댑터 팩토리 등록
+   */
+  registerFactory(factory: AgentAdapterFactory): void {
+    this.factories.set(factory.kind, factory);
+  }
+
+  /**
+   * 어댑터 인스턴스 등록
+   *
+   * @throws 에이전트 이름이 AGENT_TYPE_PATTERN에 맞지 않을 때
+   */
+  register(
+    name: AgentType,
+    adapter: AgentAdapter,
+    info: Omit<AgentBackendInfo, 'name'>
+  ): void {
+    if (!isAgentType(name)) {
+      throw new Error(`Invalid agent name: ${name}`);
+    }
+    this.agents.set(name, { info: { name, ...info }, adapter });
+  }
+
+  /**
+   * 설정으로 에이전트 등록
+   *
+   * @param name - 에이전트 이름
+   * @param config - 에이전트 설정 (adapter, label, 어댑터별 필드)
+   * @returns 설정 오류 목록 (비어 있으면 등록 성공)
+   */
+  configure(name: string, config: unknown): string[] {
+    if (!isAgentType(name)) {
+      return [`Invalid agent name: ${name}`];
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return [`${name}: config must be an object`];
+    }
+
+    const { adapter: kind, label, ...fields } = config as Record<string, unknown>;
+    const factory = typeof kind === 'string' ? this.factories.get(kind) : undefined;
+    if (!factory) {
+      return [`${name}: unknown adapter '${String(kind)}'`];
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      return [`${name}: label must be a string`];
+    }
+
+    const errors = validateAgentConfig(factory.configSchema, fields).map((error) => `${name}: ${error}`);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    try {
+      const adapter = factory.create(name, fields);
+      this.register(name, adapter, {
+        label: label || name,
+        adapter: factory.kind,
+        ...(typeof fields.model === 'string' && { model: fields.model }),
+      });
+      return [];
+    } catch (err) {
+      return [`${name}: ${err instanceof Error ? err.message : String(err)}`];
+    }
+  }
+
+  /**
+   * 여러 에이전트를 설정으로 등록
+   *
+   * @param configs - 에이전트 이름 → 설정
+   * @returns 설정 오류 목록 (실패한 에이전트만 건너뜀)
+   */
+  configureAll(configs: Record<string, unknown>): string[] {
+    return Object.entries(configs).flatMap(([name, config]) => this.configure(name, config));
+  }
+
+  // ============================================================================
+  // 조회
+  // ============================================================================
+
+  /**
+   * 에이전트 어댑터 조회
+   */
+  get(name: AgentType): AgentAdapter | null {
+    return this.agents.get(name)?.adapter ?? null;
+  }
+
+  /**
+   * 등록 여부
+   */
+  has(name: AgentType): boolean {
+    return this.agents.has(name);
+  }
+
+  /**
+   * 등록된 에이전트 목록 (등록 순)
+   */
+  list(): AgentBackendInfo[] {
+    return Array.from(this.agents.values(), ({ info }) => ({ ...info }));
+  }
+
+  /**
+   * 팩토리 설정 스키마 조회
+   */
+  getConfigSchema(kind: string): AgentConfigSchema | null {
+    return this.factories.get(kind)?.configSchema ?? null;
+  }
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+/**
+ * 설정을 스키마로 검증
+ *
+ * @returns 오류 목록 (필수 필드 누락, 타입 불일치, 모르는 필드)
+ */
+export function validateAgentConfig(schema: AgentConfigSchema, config: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = config[key];
+    if (value === undefined) {
+      if (field.required) errors.push(`'${key}' is required (${field.description})`);
+      continue;
+    }
+    if (typeof value !== field.type) {
+      errors.push(`'${key}' must be a ${field.type}`);
+    }
+  }
+
+  for (const key of Object.keys(config)) {
+    if (!(key in schema)) {
+      errors.push(`unknown field '${key}'`);
+    }
+  }
+
+  return errors;
+}
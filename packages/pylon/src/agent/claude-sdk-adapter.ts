@@ -110,6 +110,7 @@ export class ClaudeSDKAdapter implements AgentAdapter {
       settingSources: (options.settingSources ?? ['user', 'project', 'local']) as SettingSource[],
       resume: options.resume,
       forkSession: options.forkSession,
+      resumeSessionAt: options.resumeSessionAt,
       mcpServers: options.mcpServers as Record<string, McpServerConfig> | undefined,
       canUseTool: wrapCanUseTool(options.canUseTool),
       env: cleanEnv,
@@ -119,6 +120,12 @@ export class ClaudeSDKAdapter implements AgentAdapter {
       },
     };
 
+    // 대화별 모델/추론 강도/한도 (지정한 값만 전달)
+    if (options.model) sdkOptions.model = options.model;
+    if (options.effort) sdkOptions.effort = options.effort;
+    if (options.maxTurns) sdkOptions.maxTurns = options.maxTurns;
+    if (options.maxCostUsd) sdkOptions.maxBudgetUsd = options.maxCostUsd;
+
     // systemPrompt 전달 (undefined가 아닌 경우에만, 빈 문자열도 전달)
     if (options.systemPrompt !== undefined) {
       sdkOptions.systemPrompt = options.systemPrompt;
@@ -5,14 +5,28 @@
  * @openai/codex-sdk의 Thread API를 AgentAdapter 인터페이스에 맞게 래핑합니다.
  * Codex의 ThreadEvent를 AgentMessage 형식으로 변환합니다.
  *
+ * 권한:
+ * Codex SDK(exec)는 실행 중 승인 요청에 응답할 수 없으므로 Claude처럼 도구 호출마다 허용/거부할 수 없습니다.
+ * approvalPolicy는 항상 'never'이고, Estelle 권한 모드는 thread 전체의 샌드박스 수준으로만 매핑합니다.
+ * (CODEX_PERMISSION_POLICIES, 권한 규칙도 개별 명령이 아니라 CodexWrite 하나에만 적용)
+ * default 모드에서는 thread를 시작할 때 canUseTool로 CodexWrite 권한을 한 번 요청하고
+ * (AgentManager가 다른 도구처럼 PendingPermission으로 사용자에게 묻고 권한 규칙/감사 로그에 남김)
+ * 답을 대화별로 기억해 같은 thread의 다음 메시지에서는 다시 묻지 않습니다.
+ * 거부되면 읽기 전용 샌드박스로 실행합니다. 대화를 삭제하면 기억한 답도 지웁니다 (forgetConversation).
+ * SDK가 실행 중 승인 요청을 노출하면 명령별 승인으로 바꿀 수 있습니다.
+ *
+ * 세션:
+ * thread.started의 thread_id를 init session_id로 전달하고 (Pylon이 대화에 저장),
+ * resume이 오면 같은 thread를 이어갑니다. Codex는 분기를 지원하지 않아 forkSession이면 새 thread를 시작합니다.
+ *
  * @example
  * ```typescript
  * import { CodexSDKAdapter } from './codex-sdk-adapter.js';
  *
- * const adapter = new CodexSDKAdapter();
+ * const adapter = new CodexSDKAdapter({ model: 'gpt-5-codex', reasoningEffort: 'high' });
  *
  * const manager = new AgentManager({
- *   adapter,
+ *   codexAdapter: adapter,
  *   onEvent: (sessionId, event) => console.log(event),
  *   getPermissionMode: () => 'default',
  * });
@@ -20,46 +34,88 @@
  */
 
 import { Codex } from '@openai/codex-sdk';
+import type {
+  ApprovalMode,
+  ModelReasoningEffort,
+  SandboxMode,
+  Thread,
+  ThreadEvent,
+  ThreadItem,
+  ThreadOptions,
+} from '@openai/codex-sdk';
+import { PermissionMode } from '@estelle/core';
+import type { AgentEffort, PermissionModeValue } from '@estelle/core';
 import type {
   AgentAdapter,
   AgentQueryOptions,
   AgentMessage,
 } from './agent-manager.js';
+import type { AgentAdapterFactory } from './agent-registry.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 어댑터 종류 (설정의 adapter 값) */
+export const CODEX_ADAPTER = 'codex';
+
+/** default 모드에서 쓰기 샌드박스를 요청할 때의 도구 이름 (권한 규칙으로 허용 가능) */
+export const CODEX_WRITE_TOOL = 'CodexWrite';
+
+/** 설정 가능한 추론 강도 */
+export const CODEX_REASONING_EFFORTS: readonly ModelReasoningEffort[] = ['minimal', 'low', 'medium', 'high', 'xhigh'];
+
+/** 대화 설정의 추론 강도 → Codex 추론 강도 */
+const CODEX_EFFORT_MAP: Record<AgentEffort, ModelReasoningEffort> = {
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  max: 'xhigh',
+};
 
 /**
- * Codex ThreadEvent 타입 정의 (SDK에서 제공하는 이벤트)
+ * 권한 모드 → Codex 승인 정책/샌드박스
  *
  * @description
- * Codex SDK의 runStreamed에서 반환되는 이벤트 타입입니다.
+ * - default: 읽기 전용 (CodexWrite 권한을 허용받으면 workspace-write)
+ * - acceptEdits: 작업 디렉토리 쓰기 허용
+ * - bypassPermissions: 샌드박스 없음
  */
-interface CodexThreadEvent {
-  type: string;
-  thread_id?: string;
-  agent_message?: {
-    content?: Array<{
-      type: string;
-      text?: string;
-    }>;
-  };
-  command_execution?: {
-    id?: string;
-    command?: string;
-    output?: string;
-    exit_code?: number;
-  };
-  function_call?: {
-    id?: string;
-    name?: string;
-    arguments?: string;
-    result?: string;
-    error?: string;
-  };
-  usage?: {
-    input_tokens?: number;
-    output_tokens?: number;
-  };
+export const CODEX_PERMISSION_POLICIES: Record<
+  PermissionModeValue,
+  { approvalPolicy: ApprovalMode; sandboxMode: SandboxMode }
+> = {
+  [PermissionMode.DEFAULT]: { approvalPolicy: 'never', sandboxMode: 'read-only' },
+  [PermissionMode.ACCEPT_EDITS]: { approvalPolicy: 'never', sandboxMode: 'workspace-write' },
+  [PermissionMode.BYPASS]: { approvalPolicy: 'never', sandboxMode: 'danger-full-access' },
+};
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * Codex 어댑터 설정
+ */
+export interface CodexAdapterConfig {
+  /** 모델 이름 (없으면 Codex CLI 기본값) */
+  model?: string;
+
+  /** 추론 강도 (없으면 Codex CLI 기본값) */
+  reasoningEffort?: ModelReasoningEffort;
 }
 
+/**
+ * Thread를 만드는 Codex 클라이언트 (테스트 주입용)
+ */
+export type CodexClient = Pick<Codex, 'startThread' | 'resumeThread'>;
+
+type ContentBlock = NonNullable<NonNullable<AgentMessage['message']>['content']>[number];
+
+// ============================================================================
+// CodexSDKAdapter 클래스
+// ============================================================================
+
 /**
  * CodexSDKAdapter - OpenAI Codex SDK 어댑터
  *
@@ -70,20 +126,32 @@ interface CodexThreadEvent {
  * 이벤트 변환:
  * - thread.started → system (init)
  * - turn.started → stream_event (message_start)
- * - item.completed (agent_message) → assistant
- * - item.completed (command_execution) → user (tool_result)
- * - item.completed (function_call) → assistant/user (tool_use/tool_result)
- * - turn.completed → result (turn_complete)
+ * - item.completed (agent_message) → assistant (text)
+ * - item.started/completed (command_execution) → assistant/user (Bash tool_use/tool_result)
+ * - item.started/completed (mcp_tool_call) → assistant/user (mcp__서버__도구)
+ * - item.completed (file_change, web_search, todo_list) → assistant/user (ApplyPatch, WebSearch, TodoWrite)
+ * - turn.completed → result (success)
+ * - turn.failed, error → throw (AgentManager가 에러 처리)
  */
 export class CodexSDKAdapter implements AgentAdapter {
   /** Codex 클라이언트 인스턴스 */
-  private codex: Codex;
+  private readonly codex: CodexClient;
+
+  /** 어댑터 설정 */
+  private readonly config: CodexAdapterConfig;
+
+  /** 대화 ID → default 모드의 CodexWrite 허용 여부 (새 thread를 시작하면 다시 요청) */
+  private readonly writeGrants = new Map<number, boolean>();
 
   /**
    * CodexSDKAdapter 생성자
+   *
+   * @param config - 모델/추론 강도 설정
+   * @param codex - Codex 클라이언트 (테스트 주입용)
    */
-  constructor() {
-    this.codex = new Codex();
+  constructor(config: CodexAdapterConfig = {}, codex: CodexClient = new Codex()) {
+    this.config = config;
+    this.codex = codex;
   }
 
   /**
@@ -93,14 +161,21 @@ export class CodexSDKAdapter implements AgentAdapter {
    * @returns AgentMessage 스트림
    */
   async *query(options: AgentQueryOptions): AsyncIterable<AgentMessage> {
-    // Thread 시작
-    const thread = this.codex.startThread({
+    // 대화 설정이 있으면 어댑터 설정보다 우선
+    const model = options.model ?? this.config.model;
+    const reasoningEffort = options.effort ? CODEX_EFFORT_MAP[options.effort] : this.config.reasoningEffort;
+    const threadOptions: ThreadOptions = {
       workingDirectory: options.cwd,
-      // Codex는 자체 approval policy 사용
-      approvalPolicy: 'never',
-      // 샌드박스 모드
-      sandboxMode: 'workspace-write',
-    });
+      ...(await this.resolvePermissionPolicy(options)),
+      ...(model && { model }),
+      ...(reasoningEffort && { modelReasoningEffort: reasoningEffort }),
+    };
+
+    // 저장된 thread 이어가기 (분기는 지원하지 않으므로 새 thread)
+    const thread: Thread =
+      options.resume && !options.forkSession
+        ? this.codex.resumeThread(options.resume, threadOptions)
+        : this.codex.startThread(threadOptions);
 
     // 스트리밍 실행 (signal이 없을 때는 옵션 객체 생략)
     const signal = options.abortController?.signal;
@@ -110,161 +185,249 @@ export class CodexSDKAdapter implements AgentAdapter {
     );
 
     // 이벤트 변환 및 전달
+    const startedItems = new Set<string>();
     for await (const event of events) {
-      const messages = this.convertEvent(event as CodexThreadEvent);
-      for (const msg of messages) {
+      for (const msg of this.convertEvent(event, startedItems, model)) {
         yield msg;
       }
     }
   }
 
+  /**
+   * 삭제된 대화의 CodexWrite 허용 여부 정리
+   *
+   * @param conversationId - 삭제된 대화 ID
+   */
+  forgetConversation(conversationId: number): void {
+    this.writeGrants.delete(conversationId);
+  }
+
+  // ============================================================================
+  // Private 메서드
+  // ============================================================================
+
+  /**
+   * 권한 모드에 맞는 승인 정책/샌드박스 결정
+   *
+   * @description
+   * default 모드는 CodexWrite 권한을 요청해서 허용되면 workspace-write로 올립니다.
+   * 같은 대화의 thread를 이어가는 동안은 처음 받은 답을 그대로 씁니다.
+   * (다른 모드로 실행하거나 새 thread를 시작하면 다시 요청)
+   * 권한 모드를 모르면 (직접 호출 등) default와 같게 취급합니다.
+   */
+  private async resolvePermissionPolicy(
+    options: AgentQueryOptions
+  ): Promise<{ approvalPolicy: ApprovalMode; sandboxMode: SandboxMode }> {
+    const mode = options.permissionMode ?? PermissionMode.DEFAULT;
+    const policy = CODEX_PERMISSION_POLICIES[mode] ?? CODEX_PERMISSION_POLICIES[PermissionMode.DEFAULT];
+    const { conversationId } = options;
+    const continuesThread = Boolean(options.resume) && !options.forkSession;
+
+    if (conversationId !== undefined && (mode !== PermissionMode.DEFAULT || !continuesThread)) {
+      this.writeGrants.delete(conversationId);
+    }
+    if (mode !== PermissionMode.DEFAULT || !options.canUseTool) {
+      return policy;
+    }
+
+    const writePolicy = CODEX_PERMISSION_POLICIES[PermissionMode.ACCEPT_EDITS];
+    let allowed = conversationId !== undefined ? this.writeGrants.get(conversationId) : undefined;
+    if (allowed === undefined) {
+      const permission = await options.canUseTool(CODEX_WRITE_TOOL, {
+        sandbox: writePolicy.sandboxMode,
+        cwd: options.cwd,
+      });
+      allowed = permission.behavior === 'allow';
+      if (conversationId !== undefined) {
+        this.writeGrants.set(conversationId, allowed);
+      }
+    }
+    return allowed ? writePolicy : policy;
+  }
+
   /**
    * Codex ThreadEvent를 AgentMessage로 변환
    *
    * @param event - Codex ThreadEvent
+   * @param startedItems - tool_use를 이미 보낸 아이템 ID
+   * @param model - 사용 중인 모델 (init 메시지용)
    * @returns AgentMessage 배열
    */
-  private convertEvent(event: CodexThreadEvent): AgentMessage[] {
-    const messages: AgentMessage[] = [];
-
+  private convertEvent(event: ThreadEvent, startedItems: Set<string>, model?: string): AgentMessage[] {
     switch (event.type) {
       case 'thread.started':
         // 세션 초기화
-        messages.push({
-          type: 'system',
-          subtype: 'init',
-          session_id:
-            event.thread_id ||
-            `codex_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
-          model: 'codex',
-          tools: ['Bash', 'Read', 'Write', 'Edit', 'Glob', 'Grep'],
-        });
-        break;
+        return [
+          {
+            type: 'system',
+            subtype: 'init',
+            session_id: event.thread_id,
+            model: model || 'codex',
+            tools: ['Bash', 'ApplyPatch', 'WebSearch', 'TodoWrite'],
+          },
+        ];
 
       case 'turn.started':
         // 턴 시작 - message_start 이벤트
-        messages.push({
-          type: 'stream_event',
-          event: {
-            type: 'message_start',
-          },
-        });
-        break;
-
-      case 'item.completed':
-        // 아이템 완료 - agent_message 또는 command_execution
-        if (event.agent_message) {
-          // agent_message → assistant 메시지
-          const content: Array<{
-            type: string;
-            text?: string;
-            name?: string;
-            id?: string;
-            input?: Record<string, unknown>;
-            tool_use_id?: string;
-            is_error?: boolean;
-            content?: string | Array<{ type: string; text?: string }>;
-          }> = event.agent_message.content?.map((c) => ({
-            type: c.type,
-            text: c.text,
-          })) || [];
-
-          messages.push({
-            type: 'assistant',
-            message: {
-              content,
-            },
-          });
-        }
+        return [{ type: 'stream_event', event: { type: 'message_start' } }];
 
-        if (event.command_execution) {
-          // command_execution → user 메시지 (tool_result)
-          const exec = event.command_execution;
-          const isError = (exec.exit_code ?? 0) !== 0;
-
-          messages.push({
-            type: 'user',
-            message: {
-              content: [
-                {
-                  type: 'tool_result',
-                  tool_use_id:
-                    exec.id ||
-                    `exec_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
-                  is_error: isError,
-                  content: exec.output || '',
-                },
-              ],
-            },
-          });
+      case 'item.started': {
+        // 실행 중인 도구는 시작할 때 tool_use를 보냄
+        const toolUse = toToolUse(event.item);
+        if (!toolUse || event.item.type === 'todo_list') return [];
+        startedItems.add(event.item.id);
+        return [assistant([toolUse])];
+      }
+
+      case 'item.completed': {
+        const item = event.item;
+        if (item.type === 'agent_message') {
+          return item.text ? [assistant([{ type: 'text', text: item.text }])] : [];
         }
 
-        if (event.function_call) {
-          // function_call → tool_use + tool_result
-          const fn = event.function_call;
-          const toolUseId =
-            fn.id ||
-            `fn_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
-
-          // JSON 파싱 (실패 시 빈 객체 fallback)
-          let parsedInput: Record<string, unknown> = {};
-          if (fn.arguments) {
-            try {
-              parsedInput = JSON.parse(fn.arguments);
-            } catch {
-              // JSON 파싱 실패 시 빈 객체 사용
-            }
-          }
-
-          // tool_use (assistant)
-          messages.push({
-            type: 'assistant',
-            message: {
-              content: [
-                {
-                  type: 'tool_use',
-                  id: toolUseId,
-                  name: fn.name || 'unknown',
-                  input: parsedInput,
-                },
-              ],
-            },
-          });
-
-          // tool_result (user)
-          if (fn.result !== undefined || fn.error !== undefined) {
-            messages.push({
-              type: 'user',
-              message: {
-                content: [
-                  {
-                    type: 'tool_result',
-                    tool_use_id: toolUseId,
-                    is_error: !!fn.error,
-                    content: fn.error || fn.result || '',
-                  },
-                ],
-              },
-            });
-          }
+        const toolUse = toToolUse(item);
+        if (!toolUse) return [];
+
+        const messages: AgentMessage[] = [];
+        if (!startedItems.delete(item.id)) {
+          messages.push(assistant([toolUse]));
         }
-        break;
+        messages.push({
+          type: 'user',
+          message: { content: [{ type: 'tool_result', tool_use_id: item.id, ...toToolResult(item) }] },
+        });
+        return messages;
+      }
 
       case 'turn.completed':
         // 턴 완료 - result 이벤트
-        messages.push({
-          type: 'result',
-          subtype: 'turn_complete',
-          usage: event.usage
-            ? {
-                input_tokens: event.usage.input_tokens || 0,
-                output_tokens: event.usage.output_tokens || 0,
-              }
-            : undefined,
-        });
-        break;
+        return [
+          {
+            type: 'result',
+            subtype: 'success',
+            usage: {
+              input_tokens: event.usage.input_tokens,
+              output_tokens: event.usage.output_tokens,
+              cache_read_input_tokens: event.usage.cached_input_tokens,
+            },
+          },
+        ];
+
+      case 'turn.failed':
+        throw new Error(event.error.message);
+
+      case 'error':
+        throw new Error(event.message);
+
+      default:
+        return [];
     }
+  }
+}
+
+// ============================================================================
+// 팩토리
+// ============================================================================
 
-    return messages;
+/**
+ * Codex 어댑터 팩토리 생성 (모델/추론 강도를 바꾼 Codex 에이전트 등록용)
+ *
+ * @example
+ * ```typescript
+ * registry.registerFactory(createCodexAdapterFactory());
+ * registry.configure('codex-high', { adapter: 'codex', model: 'gpt-5-codex', reasoningEffort: 'high' });
+ * ```
+ */
+export function createCodexAdapterFactory(): AgentAdapterFactory {
+  return {
+    kind: CODEX_ADAPTER,
+    configSchema: {
+      model: { type: 'string', description: 'Model name (default: Codex CLI default)' },
+      reasoningEffort: { type: 'string', description: `One of ${CODEX_REASONING_EFFORTS.join(', ')}` },
+    },
+    create(_name, config) {
+      const { model, reasoningEffort } = config as CodexAdapterConfig;
+      if (reasoningEffort !== undefined && !CODEX_REASONING_EFFORTS.includes(reasoningEffort)) {
+        throw new Error(`'reasoningEffort' must be one of ${CODEX_REASONING_EFFORTS.join(', ')}`);
+      }
+      return new CodexSDKAdapter({ model, reasoningEffort });
+    },
+  };
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+function assistant(content: ContentBlock[]): AgentMessage {
+  return { type: 'assistant', message: { content } };
+}
+
+/**
+ * 도구 아이템 → tool_use 블록 (Claude 도구 카드와 맞는 이름/입력)
+ */
+function toToolUse(item: ThreadItem): ContentBlock | null {
+  switch (item.type) {
+    case 'command_execution':
+      return { type: 'tool_use', id: item.id, name: 'Bash', input: { command: item.command } };
+    case 'file_change':
+      return { type: 'tool_use', id: item.id, name: 'ApplyPatch', input: { changes: item.changes } };
+    case 'mcp_tool_call':
+      return {
+        type: 'tool_use',
+        id: item.id,
+        name: `mcp__${item.server}__${item.tool}`,
+        input: isRecord(item.arguments) ? item.arguments : {},
+      };
+    case 'web_search':
+      return { type: 'tool_use', id: item.id, name: 'WebSearch', input: { query: item.query } };
+    case 'todo_list':
+      return {
+        type: 'tool_use',
+        id: item.id,
+        name: 'TodoWrite',
+        input: {
+          todos: item.items.map((todo) => ({
+            content: todo.text,
+            status: todo.completed ? 'completed' : 'pending',
+          })),
+        },
+      };
+    default:
+      return null;
   }
 }
+
+/**
+ * 완료된 도구 아이템 → tool_result 내용
+ */
+function toToolResult(item: ThreadItem): { is_error: boolean; content: string } {
+  switch (item.type) {
+    case 'command_execution':
+      return {
+        is_error: item.status === 'failed' || (item.exit_code ?? 0) !== 0,
+        content: item.aggregated_output,
+      };
+    case 'file_change':
+      return {
+        is_error: item.status === 'failed',
+        content: item.changes.map((change) => `${change.kind} ${change.path}`).join('\n'),
+      };
+    case 'mcp_tool_call':
+      if (item.error) {
+        return { is_error: true, content: item.error.message };
+      }
+      return {
+        is_error: item.status === 'failed',
+        content: (item.result?.content ?? [])
+          .map((block) => (block.type === 'text' ? block.text : `[${block.type}]`))
+          .join('\n'),
+      };
+    default:
+      return { is_error: false, content: '' };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
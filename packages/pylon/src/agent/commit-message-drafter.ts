@@ -0,0 +1,142 @@
+/**
+ * @file commit-message-drafter.ts
+ * @description CommitMessageDrafter - 대화에서 바뀐 내용으로 커밋 메시지 초안 작성
+ *
+ * 대화의 에이전트 세션이 있으면 fork해서 대화 맥락까지 보고 쓰고,
+ * 없으면 diff만 보고 씁니다. 도구는 쓰지 못하게 막습니다.
+ *
+ * @example
+ * ```typescript
+ * const drafter = new CommitMessageDrafter(adapter);
+ * const message = await drafter.draft({ agentSessionId, workingDir, diff });
+ * ```
+ */
+
+import type { AgentAdapter, AgentQueryOptions } from './agent-manager.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 초안 작성 타임아웃 (ms) */
+const DRAFT_TIMEOUT_MS = 60_000;
+
+/** 프롬프트에 넣는 diff 길이 상한 (문자) */
+export const MAX_DRAFT_DIFF_LENGTH = 20_000;
+
+/** 초안 작성 프롬프트 (diff는 뒤에 붙음) */
+const DRAFT_PROMPT = `Write a git commit message for the changes below.
+
+Rules:
+- First line: imperative summary under 72 characters
+- Optionally a blank line and a short body explaining why
+- Follow the style of the repository's recent commits if you know it
+- Do not use any tools
+- Output ONLY the commit message, without code fences or commentary
+
+Changes:
+`;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 초안 작성 요청
+ */
+export interface CommitDraftRequest {
+  /** fork할 에이전트 세션 ID (없으면 새 세션) */
+  agentSessionId: string | null;
+
+  /** 작업 디렉토리 */
+  workingDir: string;
+
+  /** 커밋할 변경 (unified diff) */
+  diff: string;
+}
+
+// ============================================================================
+// CommitMessageDrafter 클래스
+// ============================================================================
+
+/**
+ * CommitMessageDrafter - 커밋 메시지 초안 작성
+ */
+export class CommitMessageDrafter {
+  /** Agent 어댑터 */
+  private readonly adapter: AgentAdapter;
+
+  /**
+   * @param adapter - Agent 어댑터 (쿼리 실행용)
+   */
+  constructor(adapter: AgentAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * 커밋 메시지 초안 작성
+   *
+   * @returns 커밋 메시지
+   * @throws 타임아웃, 빈 응답, 쿼리 실패 시 에러
+   */
+  async draft(request: CommitDraftRequest): Promise<string> {
+    const diff = request.diff.length > MAX_DRAFT_DIFF_LENGTH
+      ? `${request.diff.slice(0, MAX_DRAFT_DIFF_LENGTH)}\n... (truncated)`
+      : request.diff;
+
+    const abortController = new AbortController();
+    const timeoutId = setTimeout(() => abortController.abort(), DRAFT_TIMEOUT_MS);
+
+    try {
+      const queryOptions: AgentQueryOptions = {
+        prompt: DRAFT_PROMPT + diff,
+        cwd: request.workingDir,
+        abortController,
+        canUseTool: async () => ({ behavior: 'deny', message: 'Tools are not available while drafting' }),
+        ...(request.agentSessionId && {
+          resume: request.agentSessionId,
+          forkSession: true,
+        }),
+      };
+
+      let responseText = '';
+      try {
+        for await (const msg of this.adapter.query(queryOptions)) {
+          if (abortController.signal.aborted) break;
+
+          if (msg.type === 'assistant' && msg.message?.content) {
+            for (const block of msg.message.content) {
+              if (block.type === 'text' && block.text) {
+                responseText += block.text;
+              }
+            }
+          }
+        }
+      } catch (err) {
+        // abort로 끊긴 경우는 아래에서 타임아웃으로 처리
+        if (!abortController.signal.aborted) throw err;
+      }
+
+      if (abortController.signal.aborted) {
+        throw new Error('커밋 메시지 작성 시간이 초과되었습니다.');
+      }
+
+      const message = this.cleanResponse(responseText);
+      if (!message) {
+        throw new Error('커밋 메시지를 받지 못했습니다.');
+      }
+      return message;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 응답에서 코드 펜스를 벗겨내고 앞뒤 공백 제거
+   */
+  private cleanResponse(text: string): string {
+    const trimmed = text.trim();
+    const fenced = /^```[^\n]*\n([\s\S]*?)\n```$/.exec(trimmed);
+    return (fenced ? fenced[1] : trimmed).trim();
+  }
+}
@@ -48,8 +48,14 @@ export {
   type PendingEvent,
   type PermissionCallbackResult,
   type SendMessageOptions,
+  type UsageLimitInfo,
+  type UsageLimitHandler,
+  type GetAgentTypeFn,
   type AgentEventHandler,
   type GetPermissionModeFn,
+  type GetPermissionPolicyFn,
+  type PermissionDecisionRecord,
+  type PermissionDecisionHandler,
   type LoadMcpConfigFn,
   type AgentAdapter,
   type AgentQueryOptions,
@@ -60,6 +66,41 @@ export {
 // Permission Rules
 // ============================================================================
 
+// ============================================================================
+// AgentRegistry
+// ============================================================================
+
+export {
+  AgentRegistry,
+  validateAgentConfig,
+  type AgentAdapterFactory,
+  type AgentBackendConfig,
+  type AgentConfigField,
+  type AgentConfigSchema,
+} from './agent-registry.js';
+
+// ============================================================================
+// OpenAICompatibleAdapter
+// ============================================================================
+
+export {
+  OpenAICompatibleAdapter,
+  createOpenAICompatibleAdapterFactory,
+  OPENAI_COMPATIBLE_ADAPTER,
+  type OpenAICompatibleConfig,
+} from './openai-compatible-adapter.js';
+
+// ============================================================================
+// Usage Limit
+// ============================================================================
+
+export {
+  detectUsageLimit,
+  isUsageLimitError,
+  isUsageLimitText,
+  USAGE_LIMIT_PATTERN,
+} from './usage-limit.js';
+
 // ============================================================================
 // ClaudeSDKAdapter
 // ============================================================================
@@ -70,7 +111,16 @@ export { ClaudeSDKAdapter } from './claude-sdk-adapter.js';
 // CodexSDKAdapter
 // ============================================================================
 
-export { CodexSDKAdapter } from './codex-sdk-adapter.js';
+export {
+  CodexSDKAdapter,
+  createCodexAdapterFactory,
+  CODEX_ADAPTER,
+  CODEX_WRITE_TOOL,
+  CODEX_PERMISSION_POLICIES,
+  CODEX_REASONING_EFFORTS,
+  type CodexAdapterConfig,
+  type CodexClient,
+} from './codex-sdk-adapter.js';
 
 // ============================================================================
 // MockClaudeAdapter (테스트용)
@@ -96,6 +146,12 @@ export {
   isAutoAllowTool,
   isEditTool,
   checkAutoDenyPattern,
+  // 워크스페이스 규칙
+  findMatchingRule,
+  matchesRulePattern,
+  getRuleSubject,
+  isInsideDir,
+  createExactAllowRule,
   // 타입 가드
   isPermissionAllow,
   isPermissionDeny,
@@ -110,4 +166,5 @@ export {
   type PermissionDenyResult,
   type PermissionAskResult,
   type AutoDenyPattern,
+  type PermissionPolicy,
 } from './permission-rules.js';
@@ -0,0 +1,214 @@
+/**
+ * @file local-tools.ts
+ * @description 로컬 도구 - 자체 도구가 없는 에이전트(OpenAI 호환 등)가 쓰는 기본 도구
+ *
+ * Claude Code와 같은 도구 이름/입력 형식(Read, Write, Edit, Bash)을 써서
+ * 권한 규칙(permission-rules)과 클라이언트 도구 카드를 그대로 재사용합니다.
+ * 상대 경로는 작업 디렉토리 기준으로 해석합니다.
+ */
+
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 도구 결과 최대 길이 (모델 컨텍스트 보호) */
+const MAX_TOOL_OUTPUT_LENGTH = 30_000;
+
+/** Read 기본 줄 수 */
+const DEFAULT_READ_LIMIT = 2000;
+
+/** Bash 기본 타임아웃 (ms) */
+const DEFAULT_BASH_TIMEOUT_MS = 120_000;
+
+/** Bash 최대 타임아웃 (ms) */
+const MAX_BASH_TIMEOUT_MS = 600_000;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 도구 실행 결과
+ */
+export interface LocalToolResult {
+  /** 모델에 돌려줄 내용 */
+  content: string;
+
+  /** 실패 여부 */
+  isError: boolean;
+}
+
+/**
+ * 로컬 도구 정의 (OpenAI function 스키마 + 실행 함수)
+ */
+export interface LocalTool {
+  /** 도구 이름 */
+  name: string;
+
+  /** 도구 설명 (모델에 전달) */
+  description: string;
+
+  /** 입력 JSON 스키마 */
+  parameters: Record<string, unknown>;
+
+  /** 실행 */
+  execute(input: Record<string, unknown>, cwd: string, signal?: AbortSignal): Promise<LocalToolResult>;
+}
+
+// ============================================================================
+// 도구 정의
+// ============================================================================
+
+/** 기본 로컬 도구 목록 */
+export const LOCAL_TOOLS: LocalTool[] = [
+  {
+    name: 'Read',
+    description: 'Read a text file. Returns lines prefixed with line numbers.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to the file' },
+        offset: { type: 'number', description: 'Line number to start from (1-based)' },
+        limit: { type: 'number', description: 'Number of lines to read' },
+      },
+      required: ['file_path'],
+    },
+    async execute(input, cwd) {
+      const filePath = resolvePath(cwd, input.file_path);
+      const text = await fs.readFile(filePath, 'utf-8');
+      const offset = Math.max(1, toInteger(input.offset) ?? 1);
+      const limit = Math.max(1, toInteger(input.limit) ?? DEFAULT_READ_LIMIT);
+      const lines = text.split('\n').slice(offset - 1, offset - 1 + limit);
+      return ok(lines.map((line, i) => `${String(offset + i).padStart(6)}\t${line}`).join('\n'));
+    },
+  },
+  {
+    name: 'Write',
+    description: 'Create or overwrite a file with the given content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to the file' },
+        content: { type: 'string', description: 'Full file content' },
+      },
+      required: ['file_path', 'content'],
+    },
+    async execute(input, cwd) {
+      const filePath = resolvePath(cwd, input.file_path);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, String(input.content ?? ''), 'utf-8');
+      return ok(`Wrote ${filePath}`);
+    },
+  },
+  {
+    name: 'Edit',
+    description: 'Replace an exact, unique occurrence of old_string with new_string in a file.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: { type: 'string', description: 'Path to the file' },
+        old_string: { type: 'string', description: 'Exact text to replace (must be unique)' },
+        new_string: { type: 'string', description: 'Replacement text' },
+      },
+      required: ['file_path', 'old_string', 'new_string'],
+    },
+    async execute(input, cwd) {
+      const filePath = resolvePath(cwd, input.file_path);
+      const oldString = String(input.old_string ?? '');
+      const text = await fs.readFile(filePath, 'utf-8');
+      const count = oldString ? text.split(oldString).length - 1 : 0;
+      if (count !== 1) {
+        return fail(count === 0 ? 'old_string not found' : `old_string is not unique (${count} matches)`);
+      }
+      await fs.writeFile(filePath, text.replace(oldString, () => String(input.new_string ?? '')), 'utf-8');
+      return ok(`Edited ${filePath}`);
+    },
+  },
+  {
+    name: 'Bash',
+    description: 'Run a shell command in the working directory and return its output.',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Command to run' },
+        timeout: { type: 'number', description: `Timeout in ms (max ${MAX_BASH_TIMEOUT_MS})` },
+      },
+      required: ['command'],
+    },
+    execute(input, cwd, signal) {
+      const timeout = Math.min(toInteger(input.timeout) ?? DEFAULT_BASH_TIMEOUT_MS, MAX_BASH_TIMEOUT_MS);
+      return new Promise((resolve) => {
+        exec(
+          String(input.command ?? ''),
+          { cwd, timeout, signal, maxBuffer: 10 * 1024 * 1024 },
+          (err, stdout, stderr) => {
+            const output = [stdout, stderr].filter(Boolean).join('\n');
+            resolve(err ? fail(output || err.message) : ok(output));
+          }
+        );
+      });
+    },
+  },
+];
+
+// ============================================================================
+// 실행
+// ============================================================================
+
+/**
+ * 이름으로 로컬 도구 실행
+ *
+ * @description
+ * 도구 에러(파일 없음 등)는 throw하지 않고 isError 결과로 돌려줍니다.
+ */
+export async function executeLocalTool(
+  name: string,
+  input: Record<string, unknown>,
+  cwd: string,
+  signal?: AbortSignal
+): Promise<LocalToolResult> {
+  const tool = LOCAL_TOOLS.find((t) => t.name === name);
+  if (!tool) {
+    return fail(`Unknown tool: ${name}`);
+  }
+
+  try {
+    const result = await tool.execute(input, cwd, signal);
+    return { ...result, content: truncate(result.content) };
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+function resolvePath(cwd: string, filePath: unknown): string {
+  if (typeof filePath !== 'string' || !filePath) {
+    throw new Error('file_path is required');
+  }
+  return path.resolve(cwd, filePath);
+}
+
+function toInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : undefined;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_TOOL_OUTPUT_LENGTH)}\n... (truncated ${text.length - MAX_TOOL_OUTPUT_LENGTH} chars)`
+    : text;
+}
+
+function ok(content: string): LocalToolResult {
+  return { content, isError: false };
+}
+
+function fail(content: string): LocalToolResult {
+  return { content, isError: true };
+}
@@ -0,0 +1,406 @@
+/**
+ * @file openai-compatible-adapter.ts
+ * @description OpenAI 호환 Chat Completions API 어댑터 (llama.cpp server, Ollama 등)
+ *
+ * `/chat/completions` 엔드포인트를 tool calling과 함께 호출하고,
+ * 응답을 AgentMessage 형식으로 변환합니다.
+ *
+ * 이벤트 변환:
+ * - 세션 시작/재개 → system (init)
+ * - assistant 응답 (content, tool_calls) → assistant (text, tool_use)
+ * - 로컬 도구 실행 결과 → user (tool_result)
+ * - 도구 호출 없는 응답 → result (success)
+ *
+ * 도구는 local-tools(Read, Write, Edit, Bash)를 쓰고,
+ * 실행 전에 canUseTool로 Estelle 권한 흐름을 거칩니다.
+ * 대화 기록은 세션 파일(`<sessionDir>/<sessionId>.json`)에 저장해서 resume/fork에 씁니다.
+ *
+ * @example
+ * ```typescript
+ * registry.registerFactory(createOpenAICompatibleAdapterFactory({ sessionDir }));
+ * registry.configure('local-llama', {
+ *   adapter: 'openai-compatible',
+ *   baseUrl: 'http://localhost:11434/v1',
+ *   model: 'qwen2.5-coder:14b',
+ * });
+ * ```
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { AgentEffort } from '@estelle/core';
+import type {
+  AgentAdapter,
+  AgentQueryOptions,
+  AgentMessage,
+} from './agent-manager.js';
+import type { AgentAdapterFactory } from './agent-registry.js';
+import { LOCAL_TOOLS, executeLocalTool } from './local-tools.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 어댑터 종류 (설정의 adapter 값) */
+export const OPENAI_COMPATIBLE_ADAPTER = 'openai-compatible';
+
+/** 메시지 하나당 기본 최대 턴 수 (모델 호출 횟수) */
+const DEFAULT_MAX_TURNS = 20;
+
+/** 대화 설정의 추론 강도 → reasoning_effort (OpenAI는 high까지) */
+const REASONING_EFFORT_MAP: Record<AgentEffort, string> = {
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  max: 'high',
+};
+
+/** 세션 ID 패턴 (세션 파일 경로에 쓰므로 제한) */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** 기본 시스템 프롬프트 */
+const DEFAULT_SYSTEM_PROMPT = `You are a coding agent working in the user's project directory.
+Use the provided tools to read and change files and run commands. Paths are relative to the working directory.
+Keep answers concise. When the task is done, reply with a short summary and no tool calls.`;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * OpenAI 호환 어댑터 설정
+ */
+export interface OpenAICompatibleConfig {
+  /** API 기본 URL (예: 'http://localhost:11434/v1') */
+  baseUrl: string;
+
+  /** 모델 이름 */
+  model: string;
+
+  /** API 키 (선택) */
+  apiKey?: string;
+
+  /** API 키를 읽을 환경변수 이름 (선택, apiKey보다 우선) */
+  apiKeyEnv?: string;
+
+  /** 메시지 하나당 최대 턴 수 */
+  maxTurns?: number;
+
+  /** 샘플링 온도 */
+  temperature?: number;
+}
+
+/**
+ * Chat Completions 메시지
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Chat Completions 도구 호출
+ */
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/**
+ * Chat Completions 응답 (필요한 필드만)
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: Partial<ChatMessage> }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * 세션 파일 내용
+ */
+interface SessionFile {
+  model: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * fetch 함수 (테스트 주입용)
+ */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+// ============================================================================
+// OpenAICompatibleAdapter 클래스
+// ============================================================================
+
+/**
+ * OpenAICompatibleAdapter - OpenAI 호환 API 어댑터
+ */
+export class OpenAICompatibleAdapter implements AgentAdapter {
+  private readonly name: string;
+  private readonly config: OpenAICompatibleConfig;
+  private readonly sessionDir: string;
+  private readonly fetchFn: FetchFn;
+
+  /**
+   * @param name - 에이전트 이름 (세션 ID 접두사)
+   * @param config - 어댑터 설정
+   * @param sessionDir - 세션 파일 디렉토리
+   * @param fetchFn - fetch 함수 (테스트 주입용)
+   */
+  constructor(name: string, config: OpenAICompatibleConfig, sessionDir: string, fetchFn: FetchFn = fetch) {
+    this.name = name;
+    this.config = config;
+    this.sessionDir = sessionDir;
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * Agent에 쿼리 실행
+   *
+   * @param options - 쿼리 옵션
+   * @returns AgentMessage 스트림
+   */
+  async *query(options: AgentQueryOptions): AsyncIterable<AgentMessage> {
+    const signal = options.abortController.signal;
+    const model = options.model ?? this.config.model;
+    const messages = await this.loadMessages(options);
+    const sessionId =
+      options.resume && !options.forkSession ? options.resume : this.generateSessionId();
+
+    yield {
+      type: 'system',
+      subtype: 'init',
+      session_id: sessionId,
+      model,
+      tools: LOCAL_TOOLS.map((tool) => tool.name),
+    };
+
+    messages.push({ role: 'user', content: options.prompt });
+
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    // 대화 설정의 턴 한도가 더 작으면 그 값을 씀
+    const maxTurns = Math.min(this.config.maxTurns ?? DEFAULT_MAX_TURNS, options.maxTurns ?? Infinity);
+
+    try {
+      for (let turn = 1; turn <= maxTurns; turn++) {
+        const response = await this.complete(messages, model, options.effort, signal);
+        usage.input_tokens += response.usage?.prompt_tokens ?? 0;
+        usage.output_tokens += response.usage?.completion_tokens ?? 0;
+
+        const reply = response.choices?.[0]?.message ?? {};
+        const toolCalls = (reply.tool_calls ?? []).filter((call) => call?.function?.name);
+        messages.push({
+          role: 'assistant',
+          content: reply.content ?? null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        });
+
+        yield {
+          type: 'assistant',
+          message: {
+            content: [
+              ...(reply.content ? [{ type: 'text', text: reply.content }] : []),
+              ...toolCalls.map((call) => ({
+                type: 'tool_use',
+                id: call.id,
+                name: call.function.name,
+                input: parseArguments(call.function.arguments),
+              })),
+            ],
+            usage: {
+              input_tokens: response.usage?.prompt_tokens,
+              output_tokens: response.usage?.completion_tokens,
+            },
+          },
+        };
+
+        if (toolCalls.length === 0) {
+          await this.saveSession(sessionId, messages);
+          yield { type: 'result', subtype: 'success', num_turns: turn, usage };
+          return;
+        }
+
+        for (const call of toolCalls) {
+          const result = await this.runTool(call, options);
+          messages.push({ role: 'tool', tool_call_id: call.id, content: result.content });
+
+          yield {
+            type: 'user',
+            message: {
+              content: [
+                {
+                  type: 'tool_result',
+                  tool_use_id: call.id,
+                  is_error: result.isError,
+                  content: result.content,
+                },
+              ],
+            },
+          };
+        }
+
+        await this.saveSession(sessionId, messages);
+      }
+
+      yield { type: 'result', subtype: 'error_max_turns', num_turns: maxTurns, usage };
+    } catch (err) {
+      // 사용자가 중지한 경우는 에러로 보지 않음 (AgentManager가 중단 처리)
+      await this.saveSession(sessionId, messages);
+      if (signal.aborted) return;
+      throw err;
+    }
+  }
+
+  // ============================================================================
+  // Private 메서드
+  // ============================================================================
+
+  /**
+   * Chat Completions 호출
+   *
+   * @throws HTTP 에러 (상태 코드를 메시지 앞에 붙임, 429는 사용량 한도로 감지됨)
+   */
+  private async complete(
+    messages: ChatMessage[],
+    model: string,
+    effort: AgentEffort | undefined,
+    signal: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const apiKey = this.config.apiKeyEnv ? process.env[this.config.apiKeyEnv] : this.config.apiKey;
+    const response = await this.fetchFn(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        tools: LOCAL_TOOLS.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+        ...(this.config.temperature !== undefined && { temperature: this.config.temperature }),
+        ...(effort && { reasoning_effort: REASONING_EFFORT_MAP[effort] }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${response.status} ${response.statusText}: ${body.slice(0, 500)}`.trim());
+    }
+    return (await response.json()) as ChatCompletionResponse;
+  }
+
+  /**
+   * 권한 확인 후 로컬 도구 실행
+   */
+  private async runTool(call: ChatToolCall, options: AgentQueryOptions) {
+    let input = parseArguments(call.function.arguments);
+
+    if (options.canUseTool) {
+      const permission = await options.canUseTool(call.function.name, input);
+      if (permission.behavior === 'deny') {
+        return { content: permission.message || 'Permission denied', isError: true };
+      }
+      input = permission.updatedInput ?? input;
+    }
+
+    return executeLocalTool(call.function.name, input, options.cwd, options.abortController.signal);
+  }
+
+  /**
+   * 재개/분기할 세션의 메시지 로드 (새 세션이면 시스템 프롬프트만)
+   */
+  private async loadMessages(options: AgentQueryOptions): Promise<ChatMessage[]> {
+    if (options.resume) {
+      if (!SESSION_ID_PATTERN.test(options.resume)) {
+        throw new Error(`Invalid session id: ${options.resume}`);
+      }
+      try {
+        const data = JSON.parse(await fs.readFile(this.getSessionPath(options.resume), 'utf-8')) as SessionFile;
+        if (Array.isArray(data.messages)) {
+          return data.messages;
+        }
+      } catch {
+        // 세션 파일이 없으면 (삭제, 다른 에이전트의 세션 ID) 새로 시작
+      }
+    }
+
+    const systemPrompt = options.systemPrompt;
+    const content =
+      typeof systemPrompt === 'string'
+        ? systemPrompt || DEFAULT_SYSTEM_PROMPT
+        : [DEFAULT_SYSTEM_PROMPT, systemPrompt?.append].filter(Boolean).join('\n\n');
+    return [{ role: 'system', content }];
+  }
+
+  private async saveSession(sessionId: string, messages: ChatMessage[]): Promise<void> {
+    const data: SessionFile = { model: this.config.model, messages };
+    await fs.mkdir(this.sessionDir, { recursive: true });
+    await fs.writeFile(this.getSessionPath(sessionId), JSON.stringify(data), 'utf-8');
+  }
+
+  private getSessionPath(sessionId: string): string {
+    return path.join(this.sessionDir, `${sessionId}.json`);
+  }
+
+  private generateSessionId(): string {
+    return `${this.name}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
+
+// ============================================================================
+// 팩토리
+// ============================================================================
+
+/**
+ * OpenAI 호환 어댑터 팩토리 생성
+ *
+ * @param options.sessionDir - 세션 파일 디렉토리 (에이전트별 하위 폴더 사용)
+ * @param options.fetchFn - fetch 함수 (테스트 주입용)
+ */
+export function createOpenAICompatibleAdapterFactory(options: {
+  sessionDir: string;
+  fetchFn?: FetchFn;
+}): AgentAdapterFactory {
+  return {
+    kind: OPENAI_COMPATIBLE_ADAPTER,
+    configSchema: {
+      baseUrl: { type: 'string', required: true, description: "API base URL, e.g. 'http://localhost:11434/v1'" },
+      model: { type: 'string', required: true, description: 'Model name' },
+      apiKey: { type: 'string', description: 'API key' },
+      apiKeyEnv: { type: 'string', description: 'Environment variable holding the API key' },
+      maxTurns: { type: 'number', description: `Max model calls per message (default ${DEFAULT_MAX_TURNS})` },
+      temperature: { type: 'number', description: 'Sampling temperature' },
+    },
+    create(name, config) {
+      return new OpenAICompatibleAdapter(
+        name,
+        config as unknown as OpenAICompatibleConfig,
+        path.join(options.sessionDir, name),
+        options.fetchFn
+      );
+    },
+  };
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+/**
+ * 도구 호출 인자 파싱 (실패 시 빈 객체)
+ */
+function parseArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -6,11 +6,14 @@
  * 모킹 없이 테스트 가능한 순수 로직으로 구성됩니다.
  *
  * 권한 결정 흐름:
- * 1. bypassPermissions 모드 → 모든 도구 자동 허용 (AskUserQuestion 제외)
- * 2. acceptEdits 모드 → 편집 도구(Edit, Write, Bash, NotebookEdit) 자동 허용
- * 3. 자동 허용 도구(Read, Glob 등) → 자동 허용
- * 4. 자동 거부 패턴 매칭 → 자동 거부
- * 5. 그 외 → 사용자 권한 요청 필요
+ * 1. 워크스페이스 deny 규칙 → 거부
+ * 2. bypassPermissions 모드 → 모든 도구 자동 허용 (AskUserQuestion 제외)
+ * 3. 워크스페이스 ask 규칙 → 사용자 권한 요청
+ * 4. acceptEdits 모드 → 편집 도구(Edit, Write, Bash, NotebookEdit) 자동 허용
+ * 5. 자동 허용 도구(Read, Glob 등) → 자동 허용
+ * 6. 자동 거부 패턴 매칭 → 자동 거부
+ * 7. 워크스페이스 allow 규칙 → 허용
+ * 8. 그 외 → 사용자 권한 요청 필요
  *
  * @example
  * ```typescript
@@ -27,8 +30,9 @@
  * ```
  */
 
+import path from 'path';
 import { PermissionMode } from '@estelle/core';
-import type { PermissionModeValue } from '@estelle/core';
+import type { PermissionModeValue, PermissionRule } from '@estelle/core';
 
 // ============================================================================
 // 타입 정의
@@ -47,6 +51,9 @@ export interface PermissionAllowResult {
 
   /** 실행할 입력 (원본 또는 수정됨) */
   updatedInput: Record<string, unknown>;
+
+  /** 허용 사유 (감사 로그용) */
+  reason?: string;
 }
 
 /**
@@ -100,6 +107,17 @@ export interface AutoDenyPattern {
   reason: string;
 }
 
+/**
+ * 워크스페이스 권한 정책 (규칙 + 경로 조건 기준 디렉토리)
+ */
+export interface PermissionPolicy {
+  /** 워크스페이스 권한 규칙 */
+  rules: PermissionRule[];
+
+  /** location 조건의 기준 디렉토리 */
+  workingDir: string;
+}
+
 // ============================================================================
 // 상수 정의
 // ============================================================================
@@ -251,31 +269,236 @@ export function checkAutoDenyPattern(
   return null;
 }
 
+// ============================================================================
+// 워크스페이스 권한 규칙
+// ============================================================================
+
+/** 규칙 동작 우선순위 (여러 규칙이 일치하면 앞쪽이 이김) */
+const RULE_ACTION_PRIORITY: PermissionRule['action'][] = ['deny', 'ask', 'allow'];
+
+/**
+ * Bash 명령 구분자 (&&, ||, ;, |, &, 줄바꿈, 프로세스 치환 <( >(, 리다이렉션 >> > <)
+ *
+ * 리다이렉션 대상도 별도 조각이 되므로 allow 규칙은 일치하지 않습니다. (예: `pnpm test > ~/.bashrc`)
+ */
+const SHELL_SEPARATOR = /\s*(?:&&|\|\||;|\||&|\n|<\(|>\(|>>|>|<)\s*/;
+
+/** 명령/프로세스 치환 (`...`, $(...), <(...), >(...)) */
+const COMMAND_SUBSTITUTION = /`|\$\(|<\(|>\(/;
+
+/**
+ * 규칙 패턴과 비교할 입력 값 추출
+ *
+ * @description
+ * Bash는 command, 파일 도구는 file_path/notebook_path/path,
+ * WebFetch는 url, 검색 도구는 pattern을 사용합니다.
+ *
+ * @param input - 도구 입력
+ * @returns 비교 대상 문자열 (없으면 null)
+ */
+export function getRuleSubject(input: Record<string, unknown>): string | null {
+  for (const key of ['command', 'file_path', 'notebook_path', 'url', 'path', 'pattern']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return null;
+}
+
+/**
+ * 경로 입력 추출 (location 조건용)
+ */
+function getRulePath(input: Record<string, unknown>): string | null {
+  for (const key of ['file_path', 'notebook_path', 'path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return null;
+}
+
+/**
+ * 규칙 패턴 매칭
+ *
+ * @description
+ * `*`는 임의 문자열, `\*`는 문자 그대로의 `*`입니다. 전체 문자열이 일치해야 합니다.
+ *
+ * @example
+ * ```typescript
+ * matchesRulePattern('pnpm test*', 'pnpm test --run');  // true
+ * matchesRulePattern('rm \\*', 'rm *');                 // true
+ * matchesRulePattern('rm \\*', 'rm a.txt');             // false
+ * ```
+ */
+export function matchesRulePattern(pattern: string, value: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && pattern[i + 1] === '*') {
+      source += '\\*';
+      i++;
+    } else if (char === '*') {
+      source += '.*';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+/**
+ * 경로가 workingDir 안에 있는지 확인
+ */
+export function isInsideDir(filePath: string, workingDir: string): boolean {
+  const relative = path.relative(workingDir, path.resolve(workingDir, filePath));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * 단일 규칙 매칭
+ *
+ * @description
+ * Bash 명령은 구분자(&&, ;, |, &, 리다이렉션 등)로 나눈 각 명령을 따로 비교합니다.
+ * allow 규칙은 모든 명령이 일치해야 하고 명령/프로세스 치환이 있으면 일치하지 않으며,
+ * deny/ask 규칙은 하나라도 일치하면 적용됩니다.
+ */
+function matchesRule(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  workingDir: string
+): boolean {
+  if (rule.toolName !== '*' && rule.toolName !== toolName) return false;
+
+  if (rule.location) {
+    const filePath = getRulePath(input);
+    if (!filePath) return false;
+    if (isInsideDir(filePath, workingDir) !== (rule.location === 'inside')) return false;
+  }
+
+  if (rule.pattern) {
+    const subject = getRuleSubject(input);
+    if (!subject) return false;
+
+    if (toolName === 'Bash' && typeof input.command === 'string') {
+      const commands = subject.split(SHELL_SEPARATOR).filter(Boolean);
+      if (rule.action === 'allow') {
+        return (
+          !COMMAND_SUBSTITUTION.test(subject) &&
+          commands.every((command) => matchesRulePattern(rule.pattern!, command))
+        );
+      }
+      return (
+        matchesRulePattern(rule.pattern, subject) ||
+        commands.some((command) => matchesRulePattern(rule.pattern!, command))
+      );
+    }
+
+    if (!matchesRulePattern(rule.pattern, subject)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * 일치하는 워크스페이스 규칙 찾기
+ *
+ * @param rules - 워크스페이스 권한 규칙
+ * @param toolName - 도구 이름
+ * @param input - 도구 입력
+ * @param workingDir - location 조건 기준 디렉토리
+ * @returns 우선순위(deny → ask → allow)가 가장 높은 일치 규칙 또는 null
+ *
+ * @example
+ * ```typescript
+ * findMatchingRule(
+ *   [{ id: 'r1', toolName: 'Bash', pattern: 'pnpm test*', action: 'allow' }],
+ *   'Bash',
+ *   { command: 'pnpm test' },
+ *   '/project'
+ * );
+ * // { id: 'r1', ... }
+ * ```
+ */
+export function findMatchingRule(
+  rules: PermissionRule[],
+  toolName: string,
+  input: Record<string, unknown>,
+  workingDir: string
+): PermissionRule | null {
+  const matched = rules.filter((rule) => matchesRule(rule, toolName, input, workingDir));
+  for (const action of RULE_ACTION_PRIORITY) {
+    const rule = matched.find((r) => r.action === action);
+    if (rule) return rule;
+  }
+  return null;
+}
+
+/**
+ * "항상 허용"용 규칙 생성
+ *
+ * @description
+ * 현재 입력 값과 정확히 같은 호출만 허용하는 allow 규칙을 만듭니다.
+ * 입력 값의 `*`는 이스케이프합니다. 비교할 입력 값이 없는 도구(MCP 도구 등)는
+ * 규칙이 도구 전체를 허용하게 되므로 규칙을 만들지 않습니다.
+ *
+ * @example
+ * ```typescript
+ * createExactAllowRule('Bash', { command: 'ls *.ts' });
+ * // { id: 'rule_...', toolName: 'Bash', pattern: 'ls \\*.ts', action: 'allow', createdAt: ... }
+ *
+ * createExactAllowRule('mcp__tool', { value: 1 });
+ * // null
+ * ```
+ */
+export function createExactAllowRule(
+  toolName: string,
+  input: Record<string, unknown>
+): PermissionRule | null {
+  const subject = getRuleSubject(input);
+  if (!subject) return null;
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    toolName,
+    pattern: subject.replace(/\*/g, '\\*'),
+    action: 'allow',
+    createdAt: Date.now(),
+  };
+}
+
+// ============================================================================
+// 권한 확인
+// ============================================================================
+
 /**
  * 권한 확인 메인 함수
  *
  * @description
  * 도구 실행 권한을 결정하는 핵심 순수 함수입니다.
- * 권한 모드와 도구/입력 조합에 따라 자동 허용, 자동 거부,
+ * 권한 모드, 워크스페이스 규칙과 도구/입력 조합에 따라 자동 허용, 자동 거부,
  * 또는 사용자 확인 필요 여부를 반환합니다.
  *
  * 결정 우선순위:
- * 1. bypassPermissions 모드 → 모두 허용 (AskUserQuestion 제외)
- * 2. acceptEdits 모드 + 편집 도구 → 허용
- * 3. 자동 허용 도구 → 허용
- * 4. 자동 거부 패턴 → 거부
- * 5. 그 외 → 사용자 확인 필요
+ * 1. deny 규칙 → 거부
+ * 2. bypassPermissions 모드 → 모두 허용 (AskUserQuestion 제외)
+ * 3. ask 규칙 → 사용자 확인 필요
+ * 4. acceptEdits 모드 + 편집 도구 → 허용
+ * 5. 자동 허용 도구 → 허용
+ * 6. 자동 거부 패턴 → 거부
+ * 7. allow 규칙 → 허용
+ * 8. 그 외 → 사용자 확인 필요
+ *
+ * AskUserQuestion은 규칙 평가 대상이 아닙니다.
  *
  * @param toolName - 도구 이름
  * @param input - 도구 입력
  * @param permissionMode - 현재 권한 모드
+ * @param policy - 워크스페이스 권한 정책 (선택)
  * @returns 권한 결정 결과
  *
  * @example
  * ```typescript
  * // 자동 허용
  * checkPermission('Read', { file_path: '/test.txt' }, 'default');
- * // { behavior: 'allow', updatedInput: { file_path: '/test.txt' } }
+ * // { behavior: 'allow', updatedInput: { file_path: '/test.txt' }, reason: 'Auto-allowed tool' }
  *
  * // 자동 거부
  * checkPermission('Edit', { file_path: '.env' }, 'default');
@@ -284,38 +507,77 @@ export function checkAutoDenyPattern(
  * // 사용자 확인 필요
  * checkPermission('Edit', { file_path: 'main.ts' }, 'default');
  * // { behavior: 'ask' }
+ *
+ * // 워크스페이스 규칙
+ * checkPermission('Bash', { command: 'pnpm test' }, 'default', {
+ *   rules: [{ id: 'r1', toolName: 'Bash', pattern: 'pnpm test*', action: 'allow' }],
+ *   workingDir: '/project',
+ * });
+ * // { behavior: 'allow', updatedInput: { command: 'pnpm test' }, reason: 'Allowed by workspace rule: ...' }
  * ```
  */
 export function checkPermission(
   toolName: string,
   input: Record<string, unknown>,
-  permissionMode: PermissionModeValue
+  permissionMode: PermissionModeValue,
+  policy?: PermissionPolicy
 ): PermissionResult {
-  // 1. bypassPermissions 모드: AskUserQuestion 제외 모두 허용
+  const rule =
+    policy && toolName !== 'AskUserQuestion'
+      ? findMatchingRule(policy.rules, toolName, input, policy.workingDir)
+      : null;
+
+  // 1. deny 규칙: 권한 모드와 관계없이 거부
+  if (rule?.action === 'deny') {
+    return { behavior: 'deny', message: `Denied by workspace rule: ${describeRule(rule)}` };
+  }
+
+  // 2. bypassPermissions 모드: AskUserQuestion 제외 모두 허용
   if (permissionMode === PermissionMode.BYPASS && toolName !== 'AskUserQuestion') {
-    return { behavior: 'allow', updatedInput: input };
+    return { behavior: 'allow', updatedInput: input, reason: 'bypassPermissions mode' };
+  }
+
+  // 3. ask 규칙: 자동 허용 대상이어도 사용자 확인
+  if (rule?.action === 'ask') {
+    return { behavior: 'ask' };
   }
 
-  // 2. acceptEdits 모드: 편집 도구 자동 허용
+  // 4. acceptEdits 모드: 편집 도구 자동 허용
   if (permissionMode === PermissionMode.ACCEPT_EDITS && isEditTool(toolName)) {
-    return { behavior: 'allow', updatedInput: input };
+    return { behavior: 'allow', updatedInput: input, reason: 'acceptEdits mode' };
   }
 
-  // 3. 자동 허용 도구 확인
+  // 5. 자동 허용 도구 확인
   if (isAutoAllowTool(toolName)) {
-    return { behavior: 'allow', updatedInput: input };
+    return { behavior: 'allow', updatedInput: input, reason: 'Auto-allowed tool' };
   }
 
-  // 4. 자동 거부 패턴 확인
+  // 6. 자동 거부 패턴 확인 (allow 규칙보다 우선)
   const denyPattern = checkAutoDenyPattern(toolName, input);
   if (denyPattern) {
     return { behavior: 'deny', message: denyPattern.reason };
   }
 
-  // 5. 그 외: 사용자 확인 필요
+  // 7. allow 규칙
+  if (rule?.action === 'allow') {
+    return { behavior: 'allow', updatedInput: input, reason: `Allowed by workspace rule: ${describeRule(rule)}` };
+  }
+
+  // 8. 그 외: 사용자 확인 필요
   return { behavior: 'ask' };
 }
 
+/**
+ * 거부 메시지용 규칙 설명
+ */
+function describeRule(rule: PermissionRule): string {
+  const conditions = [
+    rule.pattern && `"${rule.pattern}"`,
+    rule.location && `${rule.location} workingDir`,
+  ].filter(Boolean);
+  return conditions.length > 0 ? `${rule.toolName} ${conditions.join(', ')}` : rule.toolName;
+}
+
 /**
  * 권한 결과가 허용인지 확인하는 타입 가드
  *
@@ -0,0 +1,76 @@
+/**
+ * @file usage-limit.ts
+ * @description 사용량 한도 감지 - SDK 메시지/에러에서 rate limit·사용량 소진 판별
+ *
+ * 계정 자동 전환(failover) 여부를 결정하기 위한 순수 함수들입니다.
+ *
+ * Claude SDK는 사용량 한도를 다음 형태로 알려줍니다:
+ * - assistant 메시지의 `error: 'rate_limit'`
+ * - `is_error`가 true인 result 메시지 (예: "Claude AI usage limit reached|1760000000")
+ * - 한도 안내 문구만 담은 assistant 텍스트 (예: "5-hour limit reached ∙ resets 3pm")
+ * - query 도중 throw되는 에러 (예: "429 rate_limit_error")
+ */
+
+import type { AgentMessage } from './agent-manager.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 사용량 한도 안내 문구 패턴 */
+export const USAGE_LIMIT_PATTERN =
+  /usage limit|rate limit|rate_limit|limit reached|hit your limit|\b429\b/i;
+
+/** 한도 안내만 담은 assistant 텍스트 패턴 (일반 응답과 구분하기 위해 문장 시작만 확인) */
+const USAGE_LIMIT_NOTICE_PATTERN =
+  /^(claude ai usage limit reached|\d+-hour limit reached|weekly limit reached|you've hit your limit)/i;
+
+// ============================================================================
+// 감지 함수
+// ============================================================================
+
+/**
+ * 사용량 한도 문구인지 확인
+ */
+export function isUsageLimitText(text: string): boolean {
+  return USAGE_LIMIT_PATTERN.test(text);
+}
+
+/**
+ * SDK 메시지에서 사용량 한도 감지
+ *
+ * @returns 한도 사유 (사용자에게 보여줄 문구), 한도가 아니면 null
+ */
+export function detectUsageLimit(msg: AgentMessage): string | null {
+  if (msg.type === 'assistant') {
+    const text = (msg.message?.content ?? [])
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('\n')
+      .trim();
+
+    if (msg.error === 'rate_limit') {
+      return text || 'rate_limit';
+    }
+
+    // 에러 필드 없이 한도 안내만 오는 경우 (짧은 단일 문구만 인정)
+    if (text && text.length <= 200 && USAGE_LIMIT_NOTICE_PATTERN.test(text)) {
+      return text;
+    }
+    return null;
+  }
+
+  if (msg.type === 'result' && msg.is_error && typeof msg.result === 'string') {
+    return isUsageLimitText(msg.result) ? msg.result : null;
+  }
+
+  return null;
+}
+
+/**
+ * query 도중 throw된 에러가 사용량 한도인지 확인
+ */
+export function isUsageLimitError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return isUsageLimitText(message);
+}
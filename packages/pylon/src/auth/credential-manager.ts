@@ -13,8 +13,7 @@
  * - configDir: CLAUDE_CONFIG_DIR (예: ~/.claude-dev/)
  *   - .credentials.json: 활성 인증 파일
  * - backupDir: 인증 백업 디렉토리 (예: ~/.claude-credentials/)
- *   - linegames.json: 회사 계정 인증
- *   - personal.json: 개인 계정 인증
+ *   - <credentialFile>: 계정별 인증 백업 (예: work.json, personal.json)
  *
  * @example
  * ```typescript
@@ -24,17 +23,17 @@
  * });
  *
  * // 현재 계정 확인
- * const account = await manager.getCurrentAccount();
- * console.log(account); // { account: 'linegames', subscriptionType: 'team' }
+ * const info = await manager.getCurrentAccount(accounts);
+ * console.log(info); // { account: 'work', subscriptionType: 'team' }
  *
  * // 계정 전환
- * await manager.switchAccount('personal');
+ * await manager.switchAccount(accounts[1]);
  * ```
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { AccountType } from '@estelle/core';
+import type { AccountType, ClaudeAccount } from '@estelle/core';
 
 // ============================================================================
 // 타입 정의
@@ -44,8 +43,8 @@ import type { AccountType } from '@estelle/core';
  * 계정 정보
  */
 export interface AccountInfo {
-  /** 계정 타입 */
-  account: AccountType;
+  /** 활성 인증과 일치하는 계정 ID (찾지 못하면 null) */
+  account: AccountType | null;
   /** 구독 타입 (team, max 등) */
   subscriptionType: string;
 }
@@ -66,6 +65,7 @@ export interface CredentialManagerOptions {
 interface CredentialsFile {
   claudeAiOauth?: {
     subscriptionType?: string;
+    refreshToken?: string;
     [key: string]: unknown;
   };
   [key: string]: unknown;
@@ -84,7 +84,7 @@ interface CredentialsFile {
  * 동작 방식:
  * 1. 백업 디렉토리에서 계정별 인증 파일 보관
  * 2. 계정 전환 시 백업 파일을 configDir/.credentials.json으로 복사
- * 3. subscriptionType으로 현재 계정 타입 판별
+ * 3. 활성 인증과 백업 파일을 비교해 현재 계정 판별
  *
  * @example
  * ```typescript
@@ -94,7 +94,7 @@ interface CredentialsFile {
  * });
  *
  * // 계정 전환
- * await manager.switchAccount('personal');
+ * await manager.switchAccount(account);
  * ```
  */
 export class CredentialManager {
@@ -120,13 +120,14 @@ export class CredentialManager {
    *
    * @description
    * configDir/.credentials.json 파일을 읽어 현재 활성 계정을 판별합니다.
-   * subscriptionType으로 계정을 구분합니다:
-   * - 'team' → 'linegames' (회사 계정)
-   * - 'max' → 'personal' (개인 계정)
+   * 1. refreshToken이 같은 백업 파일의 계정
+   * 2. 없으면 subscriptionType이 같은 백업 파일이 하나뿐일 때 그 계정
+   * 3. 둘 다 아니면 account: null (토큰이 갱신되어 백업과 달라진 경우 등)
    *
+   * @param accounts - 등록된 계정 목록
    * @returns 계정 정보 또는 null (파일 없거나 읽기 실패)
    */
-  async getCurrentAccount(): Promise<AccountInfo | null> {
+  async getCurrentAccount(accounts: ClaudeAccount[]): Promise<AccountInfo | null> {
     const credentialsPath = this.getCredentialsPath();
 
     try {
@@ -134,17 +135,27 @@ export class CredentialManager {
         return null;
       }
 
-      const content = await fs.promises.readFile(credentialsPath, 'utf-8');
-      const credentials: CredentialsFile = JSON.parse(content);
-
-      const subscriptionType = credentials.claudeAiOauth?.subscriptionType;
+      const current = await this.readCredentials(credentialsPath);
+      const subscriptionType = current?.claudeAiOauth?.subscriptionType;
       if (!subscriptionType) {
         return null;
       }
 
-      const account = this.subscriptionToAccount(subscriptionType);
+      const refreshToken = current.claudeAiOauth?.refreshToken;
+      const sameSubscription: ClaudeAccount[] = [];
+      for (const account of accounts) {
+        const backup = await this.readCredentials(this.getBackupPath(account.credentialFile));
+        const oauth = backup?.claudeAiOauth;
+        if (refreshToken && oauth?.refreshToken === refreshToken) {
+          return { account: account.id, subscriptionType };
+        }
+        if (oauth?.subscriptionType === subscriptionType) {
+          sameSubscription.push(account);
+        }
+      }
+
       return {
-        account,
+        account: sameSubscription.length === 1 ? sameSubscription[0].id : null,
         subscriptionType,
       };
     } catch (error) {
@@ -160,22 +171,22 @@ export class CredentialManager {
    * 백업 디렉토리에서 지정된 계정의 인증 파일을 가져와
    * configDir/.credentials.json에 복사합니다.
    *
-   * @param account - 전환할 계정 ('linegames' | 'personal')
+   * @param account - 전환할 계정
    * @throws 백업 파일이 없는 경우 에러
    */
-  async switchAccount(account: AccountType): Promise<void> {
-    const backupPath = this.getBackupPath(account);
+  async switchAccount(account: ClaudeAccount): Promise<void> {
+    const backupPath = this.getBackupPath(account.credentialFile);
     const credentialsPath = this.getCredentialsPath();
 
     // 백업 파일 존재 확인
     if (!fs.existsSync(backupPath)) {
-      throw new Error(`Backup file not found for account: ${account} (${backupPath})`);
+      throw new Error(`Backup file not found for account: ${account.name} (${backupPath})`);
     }
 
     // 파일 복사
     await fs.promises.copyFile(backupPath, credentialsPath);
 
-    console.log(`[CredentialManager] Switched to account: ${account}`);
+    console.log(`[CredentialManager] Switched to account: ${account.id}`);
   }
 
   /**
@@ -184,27 +195,27 @@ export class CredentialManager {
    * @param account - 확인할 계정
    * @returns 백업 파일 존재 여부
    */
-  async hasBackup(account: AccountType): Promise<boolean> {
-    const backupPath = this.getBackupPath(account);
-    return fs.existsSync(backupPath);
+  async hasBackup(account: ClaudeAccount): Promise<boolean> {
+    return fs.existsSync(this.getBackupPath(account.credentialFile));
   }
 
   /**
-   * 사용 가능한 계정 목록 조회
+   * 백업 디렉토리의 인증 파일 목록 조회
    *
-   * @returns 백업이 존재하는 계정 목록
+   * @description
+   * 계정 목록이 아직 없을 때 초기 계정을 만드는 데 사용합니다.
+   *
+   * @returns `.json` 파일 이름 목록 (이름순, 디렉토리가 없으면 빈 배열)
    */
-  async getAvailableAccounts(): Promise<AccountType[]> {
-    const accounts: AccountType[] = [];
-
-    if (await this.hasBackup('linegames')) {
-      accounts.push('linegames');
-    }
-    if (await this.hasBackup('personal')) {
-      accounts.push('personal');
+  listBackupFiles(): string[] {
+    try {
+      return fs
+        .readdirSync(this.backupDir)
+        .filter((file) => file.endsWith('.json') && !file.startsWith('.'))
+        .sort();
+    } catch {
+      return [];
     }
-
-    return accounts;
   }
 
   // ==========================================================================
@@ -221,23 +232,19 @@ export class CredentialManager {
   /**
    * 백업 파일 경로 반환
    */
-  private getBackupPath(account: AccountType): string {
-    return path.join(this.backupDir, `${account}.json`);
+  private getBackupPath(credentialFile: string): string {
+    return path.join(this.backupDir, path.basename(credentialFile));
   }
 
   /**
-   * subscriptionType을 AccountType으로 변환
+   * 인증 파일 읽기 (없거나 파싱 실패 시 null)
    */
-  private subscriptionToAccount(subscriptionType: string): AccountType {
-    switch (subscriptionType) {
-      case 'team':
-        return 'linegames';
-      case 'max':
-        return 'personal';
-      default:
-        // 알 수 없는 타입은 기본적으로 personal로 처리
-        console.warn(`[CredentialManager] Unknown subscription type: ${subscriptionType}`);
-        return 'personal';
+  private async readCredentials(filePath: string): Promise<CredentialsFile | null> {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return JSON.parse(content) as CredentialsFile;
+    } catch {
+      return null;
     }
   }
 }
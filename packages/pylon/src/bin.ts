@@ -7,30 +7,48 @@
  * - RELAY_URL: Relay 서버 URL (기본: ws://localhost:8080)
  * - DEVICE_ID: 디바이스 ID (기본: 1)
  * - UPLOADS_DIR: 업로드 디렉토리 (기본: ./uploads)
+ * - E2E_MODE: 종단간 암호화 모드 (optional | required, 기본: optional)
  */
 
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-import { decodeConversationIdFull, type ConversationId, type EnvId } from '@estelle/core';
+import {
+  decodeConversationIdFull,
+  DEFAULT_E2E_MODE,
+  DEFAULT_WORKER_POLICY,
+  type ConversationId,
+  type E2eMode,
+  type EnvId,
+} from '@estelle/core';
 import { Pylon, type PylonConfig, type PylonDependencies } from './pylon.js';
 import { WorkspaceStore } from './stores/workspace-store.js';
 import { MessageStore } from './stores/message-store.js';
 import { CommandStore } from './stores/command-store.js';
+import { AuditStore } from './stores/audit-store.js';
+import { ScheduleStore } from './stores/schedule-store.js';
 import { ShareStore } from './stores/share-store.js';
+import { AccountStore } from './stores/account-store.js';
 import { createRelayClient } from './network/relay-client.js';
+import { E2eRelayClient } from './network/e2e-relay-client.js';
+import { E2eKeyStore } from './stores/e2e-key-store.js';
 import { AgentManager } from './agent/agent-manager.js';
 import { ClaudeSDKAdapter } from './agent/claude-sdk-adapter.js';
-import { CodexSDKAdapter } from './agent/codex-sdk-adapter.js';
+import { CodexSDKAdapter, createCodexAdapterFactory } from './agent/codex-sdk-adapter.js';
+import { AgentRegistry } from './agent/agent-registry.js';
+import { createOpenAICompatibleAdapterFactory } from './agent/openai-compatible-adapter.js';
 import { BlobHandler, type FileSystemAdapter } from './handlers/blob-handler.js';
 import { TaskManager, type FileSystem } from './managers/task-manager.js';
 import { WorkerManager } from './managers/worker-manager.js';
 import { FolderManager, type FolderFileSystem } from './managers/folder-manager.js';
+import { GitService } from './managers/git-service.js';
 import { FileSystemPersistence, type FileSystemInterface } from './persistence/file-system-persistence.js';
 import { CredentialManager } from './auth/credential-manager.js';
 import { PylonMcpServer } from './servers/pylon-mcp-server.js';
 import { WidgetManager } from './managers/widget-manager.js';
+import { WidgetRegistry } from './managers/widget-registry.js';
+import { createWorktree, commitWorktreeChanges, mergeWorktree, removeWorktree } from './utils/git-worktree.js';
 import { getVersion } from './version.js';
 import os from 'os';
 
@@ -51,6 +69,9 @@ interface EnvConfig {
     dataDir?: string;
     mcpPort?: number;
     defaultWorkingDir?: string;
+    widgetDirs?: string[];
+    e2e?: E2eMode;
+    agents?: Record<string, unknown>;
   };
 }
 
@@ -101,6 +122,9 @@ const dataDir = envConfig?.pylon?.dataDir || process.env['DATA_DIR'] || './data'
 /** Claude config 디렉토리 (환경별 분리) */
 const claudeConfigDir = envConfig?.pylon?.configDir || process.env['CLAUDE_CONFIG_DIR'] || path.join(os.homedir(), '.claude');
 
+// 세션 트랜스크립트 위치 (대화 가져오기 시 세션 재개 연결에 사용)
+config.claudeConfigDir = claudeConfigDir;
+
 /** 인증 백업 디렉토리 */
 const credentialsBackupDir = envConfig?.pylon?.credentialsBackupDir || process.env['CREDENTIALS_BACKUP_DIR'] || path.join(os.homedir(), '.claude-credentials');
 
@@ -110,6 +134,35 @@ const defaultWorkingDir = envConfig?.pylon?.defaultWorkingDir || process.env['DE
 // DEFAULT_WORKING_DIR 환경변수로 설정 (workspace-store에서 사용)
 process.env['DEFAULT_WORKING_DIR'] = defaultWorkingDir;
 
+/** 위젯 패키지 폴더 (기본: dataDir/widgets + 저장소의 widget 폴더) */
+const widgetDirs = envConfig?.pylon?.widgetDirs
+  ?? process.env['WIDGET_DIRS']?.split(path.delimiter).filter(Boolean)
+  ?? [
+    path.join(dataDir, 'widgets'),
+    // pylon/dist/bin.js → 저장소 루트/widget
+    path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', '..', 'widget'),
+  ];
+
+/** 추가 에이전트 설정 (이름 → { adapter, ...어댑터별 설정 }) */
+function loadAgentConfigs(): Record<string, unknown> {
+  if (envConfig?.pylon?.agents) return envConfig.pylon.agents;
+  const agentsStr = process.env['AGENT_BACKENDS'];
+  if (!agentsStr) return {};
+
+  try {
+    return JSON.parse(agentsStr) as Record<string, unknown>;
+  } catch (err) {
+    console.error('[Config] Failed to parse AGENT_BACKENDS:', err);
+    return {};
+  }
+}
+
+/** E2E 모드 (optional: 페어링된 Client만 암호화, required: 암호화된 메시지만 허용) */
+const e2eModeSetting = envConfig?.pylon?.e2e ?? process.env['E2E_MODE'];
+const e2eMode: E2eMode = e2eModeSetting === 'required' || e2eModeSetting === 'optional'
+  ? e2eModeSetting
+  : DEFAULT_E2E_MODE;
+
 // ============================================================================
 // Logger 구현
 // ============================================================================
@@ -327,6 +380,7 @@ function loadMcpConfig(workingDir: string): Record<string, unknown> | null {
 
 function createDependencies(): PylonDependencies & {
   _bindPylonSend: (fn: (msg: unknown) => void) => void;
+  _e2eRelayClient: E2eRelayClient;
 } {
   // Persistence 생성
   const persistence = new FileSystemPersistence(dataDir, persistenceFileSystem);
@@ -353,6 +407,16 @@ function createDependencies(): PylonDependencies & {
   const commandStore = new CommandStore(commandsDbPath);
   logger.log(`[CommandStore] Using SQLite database: ${commandsDbPath}`);
 
+  // AuditStore (SQLite, 추가 전용)
+  const auditDbPath = path.join(dataDir, 'audit.db');
+  const auditStore = new AuditStore(auditDbPath);
+  logger.log(`[AuditStore] Using SQLite database: ${auditDbPath}`);
+
+  // ScheduleStore (SQLite)
+  const scheduleDbPath = path.join(dataDir, 'schedules.db');
+  const scheduleStore = new ScheduleStore(scheduleDbPath);
+  logger.log(`[ScheduleStore] Using SQLite database: ${scheduleDbPath}`);
+
   // ShareStore 로드 또는 새로 생성
   const shareData = persistence.loadShareStore();
   const shareStore = shareData
@@ -365,25 +429,63 @@ function createDependencies(): PylonDependencies & {
 
   // RelayClient
   // Note: Relay는 deviceIndex(1~15)를 기대하고 envId와 조합해 pylonId를 계산함
-  const relayClient = createRelayClient({
-    url: config.relayUrl,
-    deviceId: pylonIndex,  // pylonIndex를 전달 (Relay가 인코딩)
-    reconnectInterval: 5000,
+  // E2E: 페어링된 Client와의 payload는 RelayClient 위에서 암호화
+  const e2eKeyData = persistence.loadE2eKeys();
+  const e2eKeyStore = e2eKeyData ? E2eKeyStore.fromJSON(e2eKeyData) : new E2eKeyStore();
+  const relayClient = new E2eRelayClient({
+    relay: createRelayClient({
+      url: config.relayUrl,
+      deviceId: pylonIndex,  // pylonIndex를 전달 (Relay가 인코딩)
+      reconnectInterval: 5000,
+    }),
+    deviceId: config.deviceId,
+    keyStore: e2eKeyStore,
+    mode: e2eMode,
+    getShareKey: (shareId) => shareStore.getKey(shareId),
+    onKeysChange: () => {
+      persistence.saveE2eKeys(e2eKeyStore.toJSON()).catch((err) => {
+        logger.error(`[E2E] Failed to save keys: ${err}`);
+      });
+    },
+    logger,
   });
+  logger.log(`[E2E] Mode: ${e2eMode}, paired clients: ${e2eKeyStore.getClients().length}`);
 
   // AgentAdapters - Claude와 Codex SDK 직접 사용
   logger.log(`[Agent] Creating ClaudeSDKAdapter and CodexSDKAdapter (configDir=${claudeConfigDir})`);
   const claudeAdapter = new ClaudeSDKAdapter();
   const codexAdapter = new CodexSDKAdapter();
 
+  // AgentRegistry - 기본 에이전트 + 설정(pylon.agents)으로 추가한 에이전트
+  const agentRegistry = new AgentRegistry();
+  agentRegistry.register('claude', claudeAdapter, { label: 'Claude', adapter: 'claude' });
+  agentRegistry.register('codex', codexAdapter, { label: 'Codex', adapter: 'codex' });
+  agentRegistry.registerFactory(createCodexAdapterFactory());
+  agentRegistry.registerFactory(
+    createOpenAICompatibleAdapterFactory({ sessionDir: path.join(dataDir, 'agent-sessions') })
+  );
+  for (const error of agentRegistry.configureAll(loadAgentConfigs())) {
+    logger.warn(`[Agent] Skipped agent config: ${error}`);
+  }
+  logger.log(`[Agent] Agents: ${agentRegistry.list().map((agent) => agent.name).join(', ')}`);
+
   // AgentManager - 지연 바인딩으로 pylon 연결
   const agentManager = new AgentManager({
     claudeAdapter,
     codexAdapter,
+    registry: agentRegistry,
+    getAgentType: (conversationId: number) =>
+      workspaceStore.getConversation(conversationId as ConversationId)?.agentType,
     getPermissionMode: (conversationId: number) => {
       const conversation = workspaceStore.getConversation(conversationId as ConversationId);
       return conversation?.permissionMode ?? 'default';
     },
+    getPermissionPolicy: (conversationId: number) =>
+      workspaceStore.getPermissionPolicy(conversationId as ConversationId),
+    getAgentSettings: (conversationId: number) =>
+      workspaceStore.getConversation(conversationId as ConversationId)?.agentSettings,
+    getConversationCost: (conversationId: number) =>
+      workspaceStore.getConversationCost(conversationId as ConversationId),
     loadMcpConfig,
     onEvent: (conversationId, event) => {
       // 지연 바인딩: pylon이 생성된 후에 호출됨
@@ -393,6 +495,15 @@ function createDependencies(): PylonDependencies & {
         logger.warn(`[Agent] Event received but pylon not ready: ${event.type}`);
       }
     },
+    onPermissionDecision: (conversationId, record) => {
+      pylonInstance?.recordPermissionDecision(conversationId, record);
+    },
+    onConversationCost: (conversationId, spentUsd) => {
+      pylonInstance?.recordConversationCost(conversationId, spentUsd);
+    },
+    onUsageLimit: async (conversationId, info) => {
+      return pylonInstance ? pylonInstance.handleUsageLimit(conversationId, info) : false;
+    },
     onRawMessage: (conversationId, message) => {
       // SDK raw 메시지 로깅
       logSdkRawMessage(String(conversationId), message);
@@ -427,8 +538,11 @@ function createDependencies(): PylonDependencies & {
   // TaskManager
   const taskManager = new TaskManager(taskFileSystem);
 
-  // WorkerManager
-  const workerManager = new WorkerManager(taskManager);
+  // WorkerManager (동시 실행 수는 워크스페이스 워커 정책을 따름)
+  const workerManager = new WorkerManager(taskManager, {
+    getMaxConcurrency: (workspaceId) =>
+      (workspaceStore.getWorkspace(Number(workspaceId))?.workerPolicy ?? DEFAULT_WORKER_POLICY).maxConcurrency,
+  });
 
   // FolderManager
   const folderManager = new FolderManager(folderFileSystem, { defaultPath: defaultWorkingDir });
@@ -441,8 +555,34 @@ function createDependencies(): PylonDependencies & {
   logger.log(`[Credential] Config dir: ${claudeConfigDir}`);
   logger.log(`[Credential] Backup dir: ${credentialsBackupDir}`);
 
-  // WidgetManager
-  const widgetManager = new WidgetManager();
+  // AccountStore 로드 (없으면 백업 디렉토리의 인증 파일로 초기 계정 생성)
+  const accountData = persistence.loadAccounts();
+  const accountStore = accountData
+    ? AccountStore.fromJSON(accountData)
+    : AccountStore.fromCredentialFiles(credentialManager.listBackupFiles());
+
+  if (!accountData) {
+    persistence.saveAccounts(accountStore.toJSON()).catch((err) => {
+      logger.error(`[Persistence] Failed to save accounts: ${err}`);
+    });
+  }
+  logger.log(`[Credential] Accounts: ${accountStore.getAccounts().map((account) => account.id).join(', ') || '(none)'}`);
+
+  // WidgetManager 로드 또는 새로 생성 (살아 있던 세션은 ready 상태로 복원)
+  const widgetData = persistence.loadWidgetSessions();
+  const widgetManager = widgetData
+    ? WidgetManager.fromJSON(widgetData)
+    : new WidgetManager();
+
+  if (widgetData) {
+    logger.log(`[Persistence] Loaded ${widgetData.sessions?.length || 0} widget sessions from ${dataDir}`);
+  }
+
+  widgetManager.on('change', () => {
+    persistence.saveWidgetSessions(widgetManager.toJSON()).catch((err) => {
+      logger.error(`[Persistence] Failed to save widget sessions: ${err}`);
+    });
+  });
 
   return {
     workspaceStore,
@@ -450,6 +590,7 @@ function createDependencies(): PylonDependencies & {
     relayClient,
     agentManager,
     blobHandler: blobHandlerAdapter,
+    _e2eRelayClient: relayClient,
     // pylonSendFn 바인딩을 위한 setter 추가
     _bindPylonSend: (sendFn: (msg: unknown) => void) => {
       pylonSendFn = sendFn;
@@ -462,9 +603,20 @@ function createDependencies(): PylonDependencies & {
     persistence,
     bugReportWriter,
     credentialManager,
+    accountStore,
     shareStore,
     widgetManager,
+    widgetRegistry: new WidgetRegistry(widgetDirs),
     commandStore,
+    auditStore,
+    scheduleStore,
+    gitWorktree: {
+      create: createWorktree,
+      commitChanges: commitWorktreeChanges,
+      merge: mergeWorktree,
+      remove: removeWorktree,
+    },
+    gitService: new GitService(),
   };
 }
 
@@ -480,6 +632,7 @@ async function main(): Promise<void> {
   logger.log(`  Relay URL: ${config.relayUrl}`);
   logger.log(`  Uploads Dir: ${config.uploadsDir}`);
   logger.log(`  Data Dir: ${dataDir}`);
+  logger.log(`  Widget Dirs: ${widgetDirs.join(', ')}`);
   logger.log(`  Claude Config Dir: ${claudeConfigDir}`);
   logger.log(`  Credentials Backup Dir: ${credentialsBackupDir}`);
   logger.log(`  Default Working Dir: ${defaultWorkingDir}`);
@@ -490,6 +643,10 @@ async function main(): Promise<void> {
   }
 
   const deps = createDependencies();
+
+  // E2E 고정 키 로드/생성 (Relay 연결 전)
+  await deps._e2eRelayClient.init();
+  logger.log(`[E2E] Pylon fingerprint: ${deps._e2eRelayClient.getFingerprint()}`);
   const pylon = new Pylon(config, deps);
 
   // 지연 바인딩: AgentManager.onEvent가 pylon을 참조할 수 있도록 설정
@@ -516,6 +673,8 @@ async function main(): Promise<void> {
       return pylon.triggerConversationDelete(conversationId);
     },
     widgetManager: deps.widgetManager as WidgetManager | undefined,
+    widgetRegistry: deps.widgetRegistry as WidgetRegistry | undefined,
+    getAgentBackends: () => deps.agentManager.getAgentBackends(),
     onWidgetRender: (conversationId, toolUseId, sessionId, view, ownerClientId) => {
       console.log(`[Pylon] onWidgetRender: owner=${ownerClientId}`);
       deps.relayClient.send({
@@ -536,6 +695,10 @@ async function main(): Promise<void> {
       console.log(`[Pylon] onWidgetComplete: sessionId=${sessionId}, toolUseId=${toolUseId}`);
       pylon.sendWidgetComplete(conversationId, toolUseId, sessionId, view, result);
     },
+    onWidgetError: (conversationId, toolUseId, sessionId, error, limit) => {
+      console.log(`[Pylon] onWidgetError: sessionId=${sessionId}, error=${error}`);
+      pylon.sendWidgetError(conversationId, toolUseId, sessionId, error, limit);
+    },
     onWidgetEvent: (sessionId, data, ownerClientId) => {
       console.log(`[Pylon] onWidgetEvent: sessionId=${sessionId}, owner=${ownerClientId}, data=`, data);
       deps.relayClient.send({
@@ -552,6 +715,7 @@ async function main(): Promise<void> {
       // initialMessage는 그 뒤에 사용자 메시지로 전송
       pylon.triggerClaudeSend(conversationId, message);
     },
+    scheduler: pylon.getScheduler() ?? undefined,
     onConversationAutoSelect: (conversationId: number) => {
       deps.workspaceStore.setActiveConversation(conversationId as ConversationId);
       pylon.broadcastWorkspaceList();
@@ -573,11 +737,23 @@ async function main(): Promise<void> {
   // Pylon에 mcpServer 주입 (지연 바인딩)
   deps.mcpServer = pylonMcpServer;
 
+  // 재시작 전 살아 있던 위젯 세션을 다시 claim할 수 있도록 등록
+  const restoredWidgets = pylonMcpServer.restoreWidgetSessions();
+  if (restoredWidgets > 0) {
+    logger.log(`[Widget] Restored ${restoredWidgets} widget sessions`);
+  }
+
+  // 비정상 종료(예외 등)에도 detached로 띄운 샌드박스 위젯 프로세스 그룹을 남기지 않음
+  process.on('exit', () => {
+    (deps.widgetManager as WidgetManager | undefined)?.cleanup(true);
+  });
+
   // Graceful shutdown
   process.on('SIGINT', async () => {
     logger.log('Shutting down...');
     await pylonMcpServer.close();
     await pylon.stop();
+    (deps.widgetManager as WidgetManager | undefined)?.cleanup();
     process.exit(0);
   });
 
@@ -585,6 +761,7 @@ async function main(): Promise<void> {
     logger.log('Shutting down...');
     await pylonMcpServer.close();
     await pylon.stop();
+    (deps.widgetManager as WidgetManager | undefined)?.cleanup();
     process.exit(0);
   });
 
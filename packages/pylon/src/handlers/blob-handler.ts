@@ -229,6 +229,10 @@ const MIME_TYPES: Record<string, string> = {
   '.xml': 'text/xml',
   '.yaml': 'text/yaml',
   '.yml': 'text/yaml',
+
+  // 웹
+  '.html': 'text/html',
+  '.htm': 'text/html',
 };
 
 // ============================================================================
@@ -10,7 +10,11 @@ export {
   type AgentManagerAdapter,
   type BlobHandlerAdapter,
   type TaskManagerAdapter,
+  type TaskFields,
   type WorkerManagerAdapter,
+  type WorkerStartCallback,
+  type GitWorktreeAdapter,
+  type GitServiceAdapter,
   type FolderManagerAdapter,
   type LoggerAdapter,
   type PacketLoggerAdapter,
@@ -51,6 +55,10 @@ export {
   DEFAULT_RECONNECT_INTERVAL,
   type RelayClientOptions,
   type RelayClientCallbacks,
+  E2eRelayClient,
+  type E2eRelayClientOptions,
+  type E2eRelayTransport,
+  type E2ePairingCodeInfo,
 } from './network/index.js';
 
 // managers - 태스크/워커/폴더 관리 모듈
@@ -58,24 +66,30 @@ export {
   TaskManager,
   WorkerManager,
   FolderManager,
+  GitService,
   type Task,
   type TaskMeta,
   type TaskStatus,
+  type CreateTaskOptions,
+  type UpdateTaskFields,
   type CreateTaskResult,
   type GetTaskResult,
   type ListTasksResult,
   type UpdateTaskResult,
   type FileSystem,
   type WorkerState,
+  type WorkerSlot,
   type WorkerStatus,
   type CanStartWorkerResult,
   type StartWorkerResult,
   type StopWorkerResult,
   type StartClaudeCallback,
+  type WorkerManagerOptions,
   type WorkerStatusSummary,
   type FolderFileSystem,
   type ListFoldersResult,
   type FolderOperationResult,
+  type GitDiffResult,
 } from './managers/index.js';
 
 // agent - Agent SDK 연동 모듈
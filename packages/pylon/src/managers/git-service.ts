@@ -0,0 +1,503 @@
+/**
+ * @file git-service.ts
+ * @description GitService - 대화 작업 디렉토리의 git 상태/diff/로그/커밋
+ *
+ * 모든 명령은 리포지터리 루트에서 실행하고, 경로도 루트 기준(슬래시 구분)으로 다룹니다.
+ *
+ * 대화 기준점(baseline):
+ * 대화에서 첫 메시지를 보낼 때 `snapshot()`으로 작업 트리 상태를 커밋 객체로 찍어 둡니다.
+ * 작업 트리가 깨끗하면 HEAD, 아니면 임시 인덱스에 untracked 파일까지 담아(.gitignore 제외) 만든 커밋을 씁니다.
+ * 이후 기준점과 지금 작업 트리(같은 방식으로 만든 트리)를 비교하면 Claude가 이 대화에서 바꾼 내용만 보이고,
+ * 대화 시작 전부터 있던 untracked 파일은 변경으로 표시되지도, 되돌리기로 지워지지도 않습니다.
+ * 기준점 커밋은 `refs/estelle/baselines/<대화 ID>`에 걸어 두어 `git gc`가 지우지 않게 합니다.
+ *
+ * @example
+ * ```typescript
+ * const git = new GitService();
+ * const baseline = await git.snapshot('/work/project');
+ * // ... Claude가 파일 수정 ...
+ * const status = await git.getStatus('/work/project', baseline);
+ * await git.revertFile('/work/project', baseline!, 'src/index.ts');
+ * ```
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type {
+  GitChangeKind,
+  GitDiffScope,
+  GitFileChange,
+  GitLogEntry,
+  GitStatus,
+} from '@estelle/core';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** git 명령 타임아웃 (ms) */
+const GIT_TIMEOUT_MS = 30000;
+
+/** git 출력 버퍼 상한 (bytes) */
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+
+/** 클라이언트로 보내는 diff 길이 상한 (문자) */
+export const MAX_DIFF_LENGTH = 200_000;
+
+/** 기본 로그 개수 */
+export const DEFAULT_LOG_LIMIT = 20;
+
+/** 대화 기준점 커밋을 걸어 두는 ref 경로 */
+export const BASELINE_REF_PREFIX = 'refs/estelle/baselines/';
+
+/** 로그 필드/레코드 구분자 */
+const FIELD_SEP = '\x1f';
+const RECORD_SEP = '\x1e';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * diff 결과
+ */
+export interface GitDiffResult {
+  /** unified diff 텍스트 */
+  diff: string;
+
+  /** MAX_DIFF_LENGTH를 넘어 잘렸는지 여부 */
+  truncated: boolean;
+}
+
+// ============================================================================
+// 헬퍼
+// ============================================================================
+
+/**
+ * porcelain 상태 문자 → 변경 종류
+ */
+function toChangeKind(code: string): GitChangeKind {
+  switch (code) {
+    case 'A':
+    case 'C':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    case 'U':
+      return 'conflicted';
+    default:
+      return 'modified';
+  }
+}
+
+/**
+ * 리포지터리 루트 기준 상대 경로인지 확인 (루트 밖을 가리키면 에러)
+ */
+function assertRepoPath(filePath: string): void {
+  const normalized = filePath.replace(/\\/g, '/');
+  if (
+    !normalized ||
+    path.isAbsolute(filePath) ||
+    normalized.split('/').some((segment) => segment === '..')
+  ) {
+    throw new Error(`잘못된 파일 경로입니다: ${filePath}`);
+  }
+}
+
+/**
+ * 길이 상한에 맞춰 diff 자르기
+ */
+function limitDiff(diff: string): GitDiffResult {
+  if (diff.length <= MAX_DIFF_LENGTH) {
+    return { diff, truncated: false };
+  }
+  return { diff: diff.slice(0, MAX_DIFF_LENGTH), truncated: true };
+}
+
+// ============================================================================
+// GitService 클래스
+// ============================================================================
+
+/**
+ * GitService - git 명령 래퍼
+ *
+ * @description
+ * 실패하면 stderr를 담은 Error를 던집니다.
+ */
+export class GitService {
+  // ============================================================================
+  // Public 메서드 - 조회
+  // ============================================================================
+
+  /**
+   * git 작업 트리 안인지 확인
+   */
+  async isRepository(cwd: string): Promise<boolean> {
+    return this.succeeds(cwd, ['rev-parse', '--is-inside-work-tree']);
+  }
+
+  /**
+   * 현재 작업 트리 상태를 기준점 커밋으로 찍기
+   *
+   * @param conversationId - 주면 기준점 커밋을 대화 ref에 걸어 둠
+   * @returns 기준점 커밋 해시 (git 리포지터리가 아니거나 커밋이 하나도 없으면 null)
+   */
+  async snapshot(cwd: string, conversationId?: number): Promise<string | null> {
+    if (!(await this.isRepository(cwd))) return null;
+
+    try {
+      const root = await this.getRoot(cwd);
+      const head = (await this.run(root, ['rev-parse', '--verify', '-q', 'HEAD'], [0, 1])).trim();
+      if (!head) return null;
+
+      const tree = await this.writeWorkTree(root);
+      const headTree = (await this.run(root, ['rev-parse', `${head}^{tree}`])).trim();
+      const baseline = tree === headTree
+        ? head
+        : (await this.run(root, ['commit-tree', tree, '-p', head, '-m', 'estelle baseline'])).trim();
+      await this.pinBaseline(root, baseline, conversationId);
+      return baseline;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 대화 기준점 ref 지우기 (대화 삭제 시, 없으면 무시)
+   */
+  async releaseBaseline(cwd: string, conversationId: number): Promise<void> {
+    const root = await this.getRoot(cwd);
+    await this.run(root, ['update-ref', '-d', `${BASELINE_REF_PREFIX}${conversationId}`]);
+  }
+
+  /**
+   * 브랜치/upstream/스테이징 상태와 기준점 이후 변경 조회
+   *
+   * @param cwd - 작업 디렉토리
+   * @param baseline - 대화 기준점 (없으면 changes는 빈 배열)
+   */
+  async getStatus(cwd: string, baseline: string | null): Promise<GitStatus> {
+    const root = await this.getRoot(cwd);
+    const output = await this.run(root, ['status', '--porcelain=v2', '--branch', '-z']);
+
+    const status: GitStatus = {
+      branch: null,
+      upstream: null,
+      ahead: 0,
+      behind: 0,
+      staged: [],
+      unstaged: [],
+      untracked: [],
+      baseline,
+      changes: [],
+    };
+
+    const entries = output.split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (!entry) continue;
+
+      if (entry.startsWith('# branch.head ')) {
+        const head = entry.slice('# branch.head '.length);
+        status.branch = head === '(detached)' ? null : head;
+      } else if (entry.startsWith('# branch.upstream ')) {
+        status.upstream = entry.slice('# branch.upstream '.length);
+      } else if (entry.startsWith('# branch.ab ')) {
+        const match = /\+(\d+) -(\d+)/.exec(entry);
+        if (match) {
+          status.ahead = Number(match[1]);
+          status.behind = Number(match[2]);
+        }
+      } else if (entry.startsWith('1 ') || entry.startsWith('2 ')) {
+        const parts = entry.split(' ');
+        const renamed = entry.startsWith('2 ');
+        const filePath = parts.slice(renamed ? 9 : 8).join(' ');
+        const oldPath = renamed ? entries[++i] : undefined;
+        const [x, y] = parts[1];
+
+        if (x !== '.') {
+          status.staged.push({ path: filePath, kind: toChangeKind(x), ...(oldPath && { oldPath }) });
+        }
+        if (y !== '.') {
+          status.unstaged.push({ path: filePath, kind: toChangeKind(y) });
+        }
+      } else if (entry.startsWith('u ')) {
+        status.unstaged.push({ path: entry.split(' ').slice(10).join(' '), kind: 'conflicted' });
+      } else if (entry.startsWith('? ')) {
+        status.untracked.push(entry.slice(2));
+      }
+    }
+
+    if (baseline) {
+      status.changes = await this.getChanges(root, baseline, status.untracked);
+    }
+
+    return status;
+  }
+
+  /**
+   * diff 조회
+   *
+   * @param cwd - 작업 디렉토리
+   * @param scope - diff 범위
+   * @param options.baseline - 대화 기준점 (scope가 conversation일 때 필수)
+   * @param options.path - 파일 하나만 볼 때 경로 (루트 기준)
+   */
+  async getDiff(
+    cwd: string,
+    scope: GitDiffScope,
+    options: { baseline?: string | null; path?: string | null } = {}
+  ): Promise<GitDiffResult> {
+    const filePath = options.path ?? null;
+    if (filePath !== null) assertRepoPath(filePath);
+    const pathArgs = filePath !== null ? ['--', filePath] : [];
+    const root = await this.getRoot(cwd);
+
+    if (scope === 'staged') {
+      return limitDiff(await this.run(root, ['diff', '--cached', ...pathArgs]));
+    }
+    if (scope === 'unstaged') {
+      return limitDiff(await this.run(root, ['diff', ...pathArgs]));
+    }
+
+    const baseline = options.baseline;
+    if (!baseline) {
+      throw new Error('대화 기준점이 없습니다. 메시지를 보낸 뒤 다시 시도하세요.');
+    }
+    await this.assertCommit(root, baseline);
+
+    const tree = await this.writeWorkTree(root);
+    return limitDiff(await this.run(root, ['diff', baseline, tree, ...pathArgs]));
+  }
+
+  /**
+   * 최근 커밋 로그 조회 (최신순, 커밋이 없으면 빈 배열)
+   */
+  async getLog(cwd: string, limit: number = DEFAULT_LOG_LIMIT): Promise<GitLogEntry[]> {
+    const root = await this.getRoot(cwd);
+    if (!(await this.succeeds(root, ['rev-parse', '--verify', '-q', 'HEAD']))) {
+      return [];
+    }
+
+    const format = ['%H', '%h', '%an', '%aI', '%s'].join('%x1f') + '%x1e';
+    const output = await this.run(root, ['log', '-n', String(limit), `--format=${format}`]);
+
+    return output
+      .split(RECORD_SEP)
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [hash, shortHash, author, date, subject] = record.split(FIELD_SEP);
+        return { hash, shortHash, author, date, subject };
+      });
+  }
+
+  // ============================================================================
+  // Public 메서드 - 변경
+  // ============================================================================
+
+  /**
+   * 파일 하나를 대화 기준점 상태로 되돌리기
+   *
+   * @description
+   * 기준점에 있던 파일(대화 전부터 있던 untracked 파일 포함)은 그 내용으로 되돌리고(인덱스는 HEAD로),
+   * 기준점 이후 새로 생긴 파일은 삭제합니다.
+   */
+  async revertFile(cwd: string, baseline: string, filePath: string): Promise<void> {
+    assertRepoPath(filePath);
+    const root = await this.getRoot(cwd);
+    await this.assertCommit(root, baseline);
+
+    if (await this.succeeds(root, ['cat-file', '-e', `${baseline}:${filePath}`])) {
+      await this.run(root, ['checkout', baseline, '--', filePath]);
+      if (await this.succeeds(root, ['rev-parse', '--verify', '-q', 'HEAD'])) {
+        await this.run(root, ['reset', '-q', '--', filePath]);
+      }
+    } else {
+      await this.run(root, ['rm', '-q', '--cached', '--ignore-unmatch', '--', filePath]);
+      fs.rmSync(path.join(root, filePath), { force: true });
+    }
+  }
+
+  /**
+   * 변경 커밋
+   *
+   * @param cwd - 작업 디렉토리
+   * @param message - 커밋 메시지
+   * @param paths - 커밋할 파일 (없으면 모든 변경)
+   * @returns 만든 커밋
+   */
+  async commit(cwd: string, message: string, paths?: string[]): Promise<GitLogEntry> {
+    if (!message.trim()) {
+      throw new Error('커밋 메시지를 입력하세요.');
+    }
+    paths?.forEach(assertRepoPath);
+    const root = await this.getRoot(cwd);
+
+    if (paths && paths.length > 0) {
+      await this.run(root, ['add', '-A', '--', ...paths]);
+      await this.run(root, ['commit', '-q', '-m', message, '--', ...paths]);
+    } else {
+      await this.run(root, ['add', '-A']);
+      await this.run(root, ['commit', '-q', '-m', message]);
+    }
+
+    const [entry] = await this.getLog(root, 1);
+    return entry;
+  }
+
+  /**
+   * 일부 파일만 커밋한 뒤 기준점에서 그 파일만 HEAD 상태로 옮기기
+   *
+   * @description
+   * 기준점 트리에서 paths만 HEAD 내용으로 바꾼 커밋 객체를 만듭니다.
+   * 커밋하지 않은 파일의 기준점은 그대로라서 대화 변경으로 계속 보입니다.
+   * (임시 인덱스를 쓰므로 작업 트리와 실제 인덱스는 건드리지 않음)
+   *
+   * @param conversationId - 주면 새 기준점 커밋을 대화 ref에 걸어 둠
+   * @returns 새 기준점 커밋 해시
+   */
+  async advanceBaseline(cwd: string, baseline: string, paths: string[], conversationId?: number): Promise<string> {
+    paths.forEach(assertRepoPath);
+    const root = await this.getRoot(cwd);
+    await this.assertCommit(root, baseline);
+
+    const next = await this.withTempIndex(async (env) => {
+      await this.run(root, ['read-tree', baseline], [0], env);
+      if (paths.length > 0) {
+        await this.run(root, ['reset', '-q', 'HEAD', '--', ...paths], [0], env);
+      }
+      const tree = (await this.run(root, ['write-tree'], [0], env)).trim();
+      return (await this.run(root, ['commit-tree', tree, '-p', 'HEAD', '-m', 'estelle baseline'], [0], env)).trim();
+    });
+    await this.pinBaseline(root, next, conversationId);
+    return next;
+  }
+
+  // ============================================================================
+  // Private 메서드
+  // ============================================================================
+
+  /**
+   * 기준점 이후 바뀐 파일 (기준점 트리와 지금 작업 트리 비교)
+   *
+   * 기준점 이후 새로 생긴 파일 중 아직 untracked인 파일은 untracked로 표시합니다.
+   */
+  private async getChanges(root: string, baseline: string, untracked: string[]): Promise<GitFileChange[]> {
+    await this.assertCommit(root, baseline);
+    const tree = await this.writeWorkTree(root);
+    const output = await this.run(root, ['diff-tree', '-r', '--name-status', '--no-renames', '-z', baseline, tree]);
+
+    const untrackedPaths = new Set(untracked);
+    const changes: GitFileChange[] = [];
+    const tokens = output.split('\0').filter(Boolean);
+    for (let i = 0; i + 1 < tokens.length; i += 2) {
+      const filePath = tokens[i + 1];
+      const kind = toChangeKind(tokens[i][0]);
+      changes.push({ path: filePath, kind: kind === 'added' && untrackedPaths.has(filePath) ? 'untracked' : kind });
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * 지금 작업 트리를 트리 객체로 쓰기 (HEAD + 모든 변경 + untracked 파일, .gitignore 제외)
+   *
+   * 실제 인덱스를 복사한 임시 인덱스를 써서(파일 상태 캐시를 그대로 써 다시 해시하지 않음)
+   * 실제 인덱스는 건드리지 않습니다.
+   */
+  private async writeWorkTree(root: string): Promise<string> {
+    const index = path.resolve(root, (await this.run(root, ['rev-parse', '--git-path', 'index'])).trim());
+    return this.withTempIndex(async (env) => {
+      if (fs.existsSync(index)) {
+        fs.copyFileSync(index, env.GIT_INDEX_FILE!);
+      }
+      await this.run(root, ['add', '-A'], [0], env);
+      return (await this.run(root, ['write-tree'], [0], env)).trim();
+    });
+  }
+
+  /**
+   * 임시 인덱스 파일로 작업 실행 (GIT_INDEX_FILE 환경 변수를 넘김)
+   */
+  private async withTempIndex<T>(action: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'estelle-baseline-'));
+    try {
+      return await action({ ...process.env, GIT_INDEX_FILE: path.join(tempDir, 'index') });
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 기준점 커밋을 대화 ref에 걸어 두기 (git gc에 지워지지 않게)
+   */
+  private async pinBaseline(root: string, baseline: string, conversationId: number | undefined): Promise<void> {
+    if (conversationId === undefined) return;
+    await this.run(root, ['update-ref', `${BASELINE_REF_PREFIX}${conversationId}`, baseline]);
+  }
+
+  /**
+   * 기준점 커밋이 남아 있는지 확인
+   */
+  private async assertCommit(root: string, commit: string): Promise<void> {
+    if (!(await this.succeeds(root, ['cat-file', '-e', `${commit}^{commit}`]))) {
+      throw new Error(`대화 기준점 커밋을 찾을 수 없습니다: ${commit.slice(0, 7)}`);
+    }
+  }
+
+  /**
+   * 리포지터리 루트 조회
+   */
+  private async getRoot(cwd: string): Promise<string> {
+    try {
+      return (await this.run(cwd, ['rev-parse', '--show-toplevel'])).trim();
+    } catch {
+      throw new Error(`git 리포지터리가 아닙니다: ${cwd}`);
+    }
+  }
+
+  /**
+   * git 명령이 성공하는지 확인
+   */
+  private async succeeds(cwd: string, args: string[]): Promise<boolean> {
+    try {
+      await this.run(cwd, args);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * git 명령 실행
+   *
+   * @param okCodes - 성공으로 볼 종료 코드 (diff --no-index는 차이가 있으면 1)
+   * @param env - 환경 변수 (임시 인덱스 등, 없으면 현재 프로세스 환경)
+   * @returns stdout
+   */
+  private async run(cwd: string, args: string[], okCodes: number[] = [0], env?: NodeJS.ProcessEnv): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        env,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        encoding: 'utf-8',
+      });
+      return stdout;
+    } catch (err) {
+      const { code, stdout, stderr } = err as { code?: number; stdout?: string; stderr?: string };
+      if (typeof code === 'number' && okCodes.includes(code) && stdout !== undefined) {
+        return stdout;
+      }
+      throw new Error(`git 명령 실패: ${stderr?.trim() || (err as Error).message}`);
+    }
+  }
+}
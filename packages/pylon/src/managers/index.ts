@@ -2,7 +2,7 @@
  * @file managers/index.ts
  * @description Managers 모듈 진입점
  *
- * 태스크, 워커, 폴더 관리 모듈을 re-export 합니다.
+ * 태스크, 워커, 폴더, git 관리 모듈을 re-export 합니다.
  *
  * @example
  * ```typescript
@@ -28,6 +28,8 @@ export {
   type Task,
   type TaskMeta,
   type TaskStatus,
+  type CreateTaskOptions,
+  type UpdateTaskFields,
   type CreateTaskResult,
   type GetTaskResult,
   type ListTasksResult,
@@ -42,11 +44,13 @@ export {
 export {
   WorkerManager,
   type WorkerState,
+  type WorkerSlot,
   type WorkerStatus,
   type CanStartWorkerResult,
   type StartWorkerResult,
   type StopWorkerResult,
   type StartClaudeCallback,
+  type WorkerManagerOptions,
   type WorkerStatusSummary,
 } from './worker-manager.js';
 
@@ -64,6 +68,17 @@ export {
   type PlatformOptions,
 } from './folder-manager.js';
 
+// ============================================================================
+// GitService
+// ============================================================================
+
+export {
+  GitService,
+  MAX_DIFF_LENGTH,
+  DEFAULT_LOG_LIMIT,
+  type GitDiffResult,
+} from './git-service.js';
+
 // ============================================================================
 // WidgetManager
 // ============================================================================
@@ -71,8 +86,50 @@ export {
 export {
   WidgetManager,
   type WidgetSession,
+  type PersistedWidgetSession,
+  type WidgetManagerData,
   type WidgetStartOptions,
+  type WidgetManagerOptions,
   type WidgetRenderEvent,
   type WidgetCompleteEvent,
   type WidgetErrorEvent,
 } from './widget-manager.js';
+
+// ============================================================================
+// WidgetRegistry
+// ============================================================================
+
+export {
+  WidgetRegistry,
+  WIDGET_MANIFEST_FILE,
+  WIDGET_INPUT_ENV,
+  type WidgetPackage,
+  type WidgetLaunch,
+} from './widget-registry.js';
+
+// ============================================================================
+// Widget Sandbox
+// ============================================================================
+
+export {
+  buildSandboxEnv,
+  buildSandboxCommand,
+  hasBubblewrap,
+  prepareJail,
+  systemProcessControl,
+  SANDBOX_BASE_ENV,
+  SANDBOX_HOME_DIR,
+  type ProcessUsage,
+  type WidgetProcessControl,
+} from './widget-sandbox.js';
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+export {
+  Scheduler,
+  type ScheduleExecution,
+  type SchedulerOptions,
+  type SaveScheduleResult,
+} from './scheduler.js';
@@ -0,0 +1,298 @@
+/**
+ * @file scheduler.ts
+ * @description Scheduler - 워크스페이스 예약 실행 관리
+ *
+ * ScheduleStore에 저장된 예약을 주기적으로 확인해 실행 시각이 지난 예약을 실행합니다.
+ * 실제 실행(대화 생성/재사용, 메시지 전송)은 Pylon이 넘겨준 execute 콜백이 담당하고,
+ * 대화 응답이 끝나 결과가 정해지면 실행 기록을 남깁니다.
+ *
+ * - 다음 실행 시각은 메모리에만 두고, 시작/수정 시점부터 cron으로 계산합니다.
+ *   (Pylon이 꺼져 있던 동안 놓친 실행은 몰아서 실행하지 않음)
+ * - 슬립 등으로 확인이 늦어지면 지난 실행을 한 번만 실행하고 다음 시각을 다시 계산합니다.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new Scheduler(scheduleStore, {
+ *   execute: async (schedule) => {
+ *     const { conversationId, error } = await runInConversation(schedule);
+ *     return error ? { status: 'failed', conversationId, reason: error } : { status: 'succeeded', conversationId };
+ *   },
+ *   onChange: () => broadcastSchedules(),
+ *   onRun: (schedule, run) => reportRun(schedule, run),
+ * });
+ * scheduler.start();
+ * ```
+ */
+
+import { getNextCronTime, isScheduleInput } from '@estelle/core';
+import type { Schedule, ScheduleInput, ScheduleRun } from '@estelle/core';
+import type { ScheduleStore, StoredSchedule } from '../stores/schedule-store.js';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 예약 실행 결과 (execute 콜백 반환값)
+ *
+ * 메시지를 보내기 전의 실패는 예외로 알립니다.
+ */
+export interface ScheduleExecution {
+  /** succeeded/failed: 대화 응답의 결과, skipped: 이전 실행이 진행 중이라 건너뜀 */
+  status: 'succeeded' | 'failed' | 'skipped';
+  /** 메시지를 보낸(또는 진행 중인) 대화 ID */
+  conversationId?: number;
+  /** 실패/건너뛴 사유 */
+  reason?: string;
+}
+
+/**
+ * Scheduler 옵션
+ */
+export interface SchedulerOptions {
+  /** 예약 실행 콜백 (대화 응답이 끝나면 resolve, 메시지를 보내기 전 실패는 reject) */
+  execute: (schedule: Schedule) => Promise<ScheduleExecution>;
+  /** 예약 목록/실행 기록 변경 콜백 */
+  onChange?: () => void;
+  /** 실행 완료 콜백 */
+  onRun?: (schedule: Schedule, run: ScheduleRun) => void;
+  /** 확인 주기 (ms, 기본: 30초) */
+  intervalMs?: number;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+}
+
+/**
+ * 예약 저장 결과
+ */
+export type SaveScheduleResult =
+  | { success: true; schedule: Schedule }
+  | { success: false; error: string };
+
+/** 기본 확인 주기 (30초) */
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+export class Scheduler {
+  private readonly store: ScheduleStore;
+  private readonly options: SchedulerOptions;
+  private readonly now: () => number;
+  /** scheduleId → 다음 실행 시각 */
+  private nextRuns = new Map<number, number | null>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** 중지 후 끝난 실행은 기록하지 않음 (종료 중 store가 닫힘) */
+  private stopped = false;
+
+  constructor(store: ScheduleStore, options: SchedulerOptions) {
+    this.store = store;
+    this.options = options;
+    this.now = options.now ?? Date.now;
+
+    for (const schedule of store.list()) {
+      this.updateNextRun(schedule);
+    }
+  }
+
+  /**
+   * 주기적 확인 시작
+   */
+  start(): void {
+    if (this.timer) return;
+    this.stopped = false;
+    this.timer = setInterval(() => void this.tick(), this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+  }
+
+  /**
+   * 주기적 확인 중지
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================================================
+  // 조회
+  // ==========================================================================
+
+  /**
+   * 예약 목록 (워크스페이스 지정 시 해당 워크스페이스만)
+   */
+  list(workspaceId?: number): Schedule[] {
+    return this.store
+      .list()
+      .filter((s) => workspaceId === undefined || s.workspaceId === workspaceId)
+      .map((s) => this.withNextRun(s));
+  }
+
+  /**
+   * 예약 조회
+   */
+  get(scheduleId: number): Schedule | null {
+    const schedule = this.store.get(scheduleId);
+    return schedule ? this.withNextRun(schedule) : null;
+  }
+
+  // ==========================================================================
+  // 생성/수정/삭제
+  // ==========================================================================
+
+  /**
+   * 예약 생성
+   */
+  create(input: ScheduleInput): SaveScheduleResult {
+    if (!isScheduleInput(input)) {
+      return { success: false, error: 'Invalid schedule (name, cron, action are required)' };
+    }
+
+    const schedule = this.store.create(normalizeInput(input), this.now());
+    this.updateNextRun(schedule);
+    this.options.onChange?.();
+    return { success: true, schedule: this.withNextRun(schedule) };
+  }
+
+  /**
+   * 예약 수정 (다음 실행 시각을 다시 계산)
+   */
+  update(scheduleId: number, input: ScheduleInput): SaveScheduleResult {
+    if (!isScheduleInput(input)) {
+      return { success: false, error: 'Invalid schedule (name, cron, action are required)' };
+    }
+
+    const schedule = this.store.update(scheduleId, normalizeInput(input));
+    if (!schedule) {
+      return { success: false, error: `Schedule not found: ${scheduleId}` };
+    }
+    this.updateNextRun(schedule);
+    this.options.onChange?.();
+    return { success: true, schedule: this.withNextRun(schedule) };
+  }
+
+  /**
+   * 예약 삭제
+   */
+  delete(scheduleId: number): boolean {
+    const deleted = this.store.delete(scheduleId);
+    if (deleted) {
+      this.nextRuns.delete(scheduleId);
+      this.options.onChange?.();
+    }
+    return deleted;
+  }
+
+  /**
+   * 워크스페이스의 예약 전체 삭제
+   */
+  deleteByWorkspace(workspaceId: number): void {
+    const ids = this.store.list().filter((s) => s.workspaceId === workspaceId).map((s) => s.scheduleId);
+    if (ids.length === 0) return;
+
+    this.store.deleteByWorkspace(workspaceId);
+    for (const id of ids) {
+      this.nextRuns.delete(id);
+    }
+    this.options.onChange?.();
+  }
+
+  // ==========================================================================
+  // 실행
+  // ==========================================================================
+
+  /**
+   * 즉시 실행 (꺼진 예약도 실행, 다음 실행 시각은 유지)
+   *
+   * @returns 실행이 끝난 뒤의 기록, 예약이 없으면 null
+   */
+  async runNow(scheduleId: number): Promise<ScheduleRun | null> {
+    const schedule = this.store.get(scheduleId);
+    if (!schedule) return null;
+    return this.run(schedule, true);
+  }
+
+  /**
+   * 실행 시각이 지난 예약 실행
+   *
+   * 다음 실행 시각은 바로 계산하고, 기록은 각 실행이 끝난 뒤 남깁니다.
+   *
+   * @returns 이번 확인에서 실행한 기록
+   */
+  tick(): Promise<ScheduleRun[]> {
+    const now = this.now();
+    const runs: Promise<ScheduleRun>[] = [];
+
+    for (const schedule of this.store.list()) {
+      const next = this.nextRuns.get(schedule.scheduleId);
+      if (!schedule.enabled || next == null || next > now) continue;
+
+      runs.push(this.run(schedule, false));
+      this.nextRuns.set(schedule.scheduleId, getNextCronTime(schedule.cron, now));
+    }
+
+    return Promise.all(runs);
+  }
+
+  private async run(schedule: StoredSchedule, manual: boolean): Promise<ScheduleRun> {
+    const withNext = this.withNextRun(schedule);
+    const runAt = this.now();
+    let run: ScheduleRun;
+
+    try {
+      const result = await this.options.execute(withNext);
+      run = {
+        scheduleId: schedule.scheduleId,
+        runAt,
+        status: result.status,
+        manual,
+        ...(result.conversationId !== undefined && { conversationId: result.conversationId }),
+        ...(result.reason && { error: result.reason }),
+      };
+    } catch (err) {
+      run = {
+        scheduleId: schedule.scheduleId,
+        runAt,
+        status: 'failed',
+        manual,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+
+    if (this.stopped) return run;
+
+    this.store.recordRun(run);
+    this.options.onRun?.(withNext, run);
+    this.options.onChange?.();
+    return run;
+  }
+
+  private updateNextRun(schedule: StoredSchedule): void {
+    this.nextRuns.set(
+      schedule.scheduleId,
+      schedule.enabled ? getNextCronTime(schedule.cron, this.now()) : null
+    );
+  }
+
+  private withNextRun(schedule: StoredSchedule): Schedule {
+    return {
+      ...schedule,
+      nextRunAt: schedule.enabled ? this.nextRuns.get(schedule.scheduleId) ?? null : null,
+    };
+  }
+}
+
+/**
+ * 입력 정리 (이름 공백 제거, 빈 대화 이름 제거)
+ */
+function normalizeInput(input: ScheduleInput): ScheduleInput {
+  const conversationName = input.conversationName?.trim();
+  return {
+    ...input,
+    name: input.name.trim(),
+    cron: input.cron.trim(),
+    conversationName: conversationName || undefined,
+  };
+}
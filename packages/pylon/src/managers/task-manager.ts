@@ -11,10 +11,16 @@
  * id: 550e8400-e29b-41d4-a716-446655440000
  * title: 버튼 색상 변경
  * status: pending
+ * priority: 0
+ * dependsOn: [3f2b8c1e-...]
+ * maxRetries: 1
+ * retryCount: 0
+ * timeout: 30
  * createdAt: 2026-01-24T10:00:00Z
  * startedAt:
  * completedAt:
  * error:
+ * branch:
  * ---
  *
  * ## 목표
@@ -33,7 +39,8 @@
  * const result = taskManager.createTask(
  *   'C:\\workspace\\project',
  *   '버튼 색상 변경',
- *   '## 목표\n버튼을 파란색으로 변경'
+ *   '## 목표\n버튼을 파란색으로 변경',
+ *   { priority: 1, maxRetries: 1 }
  * );
  *
  * // 태스크 목록 조회
@@ -76,6 +83,21 @@ export interface TaskMeta {
   /** 태스크 상태 */
   status: TaskStatus;
 
+  /** 우선순위 (클수록 먼저 실행, 기본 0) */
+  priority: number;
+
+  /** 먼저 done이 되어야 하는 태스크 ID 목록 */
+  dependsOn: string[];
+
+  /** 실패 시 재시도 횟수 상한 (기본 0 = 재시도 안 함) */
+  maxRetries: number;
+
+  /** 지금까지 재시도한 횟수 */
+  retryCount: number;
+
+  /** 실행 제한 시간 (분 단위, 없으면 null) */
+  timeout: number | null;
+
   /** 생성 시각 (ISO 8601 형식) */
   createdAt: string;
 
@@ -88,6 +110,9 @@ export interface TaskMeta {
   /** 에러 메시지 (실패 시) */
   error: string | null;
 
+  /** 워커가 worktree 작업 결과를 커밋해 둔 브랜치 (병합/버리기 전까지, 없으면 null) */
+  branch: string | null;
+
   /** 파일 이름 */
   fileName: string;
 }
@@ -107,6 +132,34 @@ export interface Task extends TaskMeta {
   truncated: boolean;
 }
 
+/**
+ * 태스크 생성 옵션
+ */
+export interface CreateTaskOptions {
+  /** 우선순위 (정수, 클수록 먼저 실행) */
+  priority?: number;
+
+  /** 먼저 끝나야 하는 태스크 ID 목록 (같은 워크스페이스에 있어야 함) */
+  dependsOn?: string[];
+
+  /** 실패 시 재시도 횟수 상한 (0 이상 정수) */
+  maxRetries?: number;
+
+  /** 실행 제한 시간 (분 단위, 양의 정수) */
+  timeout?: number | null;
+}
+
+/**
+ * 태스크 수정 필드 (바꿀 필드만)
+ */
+export interface UpdateTaskFields extends CreateTaskOptions {
+  /** 태스크 제목 */
+  title?: string;
+
+  /** 태스크 본문 (마크다운) */
+  body?: string;
+}
+
 /**
  * 태스크 생성 결과
  */
@@ -204,6 +257,9 @@ const TASK_FOLDER = 'task';
 /** 내용 truncate 기준 (10,000자) */
 const MAX_CONTENT_LENGTH = 10000;
 
+/** 기본 우선순위 */
+const DEFAULT_PRIORITY = 0;
+
 // ============================================================================
 // Frontmatter 파싱 유틸리티
 // ============================================================================
@@ -259,6 +315,8 @@ function parseFrontmatter(content: string): ParsedFrontmatter {
  *
  * @description
  * 메타데이터 객체를 YAML Frontmatter 문자열로 변환합니다.
+ * 값의 줄바꿈은 공백으로 바꿔 다른 필드나 Frontmatter 끝(---)을 끼워 넣지 못하게 합니다.
+ * (에러 메시지처럼 여러 줄일 수 있는 값)
  *
  * @param meta - 메타데이터 객체
  * @returns Frontmatter 문자열 (--- 포함)
@@ -267,12 +325,139 @@ function buildFrontmatter(meta: Record<string, string | null>): string {
   const lines = ['---'];
   for (const [key, value] of Object.entries(meta)) {
     // null은 빈 값으로 출력
-    lines.push(`${key}: ${value ?? ''}`);
+    lines.push(`${key}: ${(value ?? '').replace(/\s*[\r\n]+\s*/g, ' ')}`);
   }
   lines.push('---');
   return lines.join('\n');
 }
 
+/**
+ * 정수 값 파싱 (없거나 잘못된 값이면 fallback)
+ */
+function parseInteger(value: string | null, fallback: number): number {
+  if (value === null) return fallback;
+  const num = Number(value);
+  return Number.isInteger(num) ? num : fallback;
+}
+
+/**
+ * 목록 값 파싱
+ *
+ * @description
+ * `[a, b]` 형식과 `a, b` 형식을 모두 받습니다.
+ */
+function parseList(value: string | null): string[] {
+  if (value === null) return [];
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * 목록 값 직렬화 (`[a, b]` 형식)
+ */
+function formatList(items: string[]): string {
+  return `[${items.join(', ')}]`;
+}
+
+/**
+ * Frontmatter 메타데이터를 TaskMeta로 변환
+ *
+ * @description
+ * 새 필드가 없는 예전 태스크 파일은 기본값으로 채웁니다.
+ */
+function toTaskMeta(meta: Record<string, string | null>, fileName: string): TaskMeta {
+  const timeout = parseInteger(meta.timeout ?? null, 0);
+  return {
+    id: meta.id || '',
+    title: meta.title || '',
+    status: (meta.status as TaskStatus) || 'pending',
+    priority: parseInteger(meta.priority ?? null, DEFAULT_PRIORITY),
+    dependsOn: parseList(meta.dependsOn ?? null),
+    maxRetries: Math.max(0, parseInteger(meta.maxRetries ?? null, 0)),
+    retryCount: Math.max(0, parseInteger(meta.retryCount ?? null, 0)),
+    timeout: timeout > 0 ? timeout : null,
+    createdAt: meta.createdAt || '',
+    startedAt: meta.startedAt ?? null,
+    completedAt: meta.completedAt ?? null,
+    error: meta.error ?? null,
+    branch: meta.branch || null,
+    fileName,
+  };
+}
+
+/**
+ * 실행 순서 비교 (priority가 큰 것 먼저, 같으면 파일명 기준 오래된 것 먼저)
+ */
+function compareRunOrder(a: TaskMeta, b: TaskMeta): number {
+  return b.priority - a.priority || a.fileName.localeCompare(b.fileName);
+}
+
+/**
+ * 제목 검증 (한 줄이어야 Frontmatter에 그대로 저장할 수 있음)
+ *
+ * @returns 에러 메시지 또는 null
+ */
+function validateTitle(title: string): string | null {
+  if (title.trim() === '') return '제목이 비어 있습니다.';
+  if (/[\r\n]/.test(title)) return '제목에 줄바꿈을 넣을 수 없습니다.';
+  return null;
+}
+
+/**
+ * 의존 관계 순환 찾기
+ *
+ * @description
+ * startId에서 dependsOn을 따라가며 순환을 찾습니다.
+ * 없는 태스크 ID는 건너뜁니다.
+ *
+ * @param startId - 시작 태스크 ID
+ * @param graph - 태스크 ID → dependsOn 목록
+ * @returns 순환 경로 (시작과 끝이 같은 ID) 또는 null
+ */
+function findDependencyCycle(startId: string, graph: Map<string, string[]>): string[] | null {
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const idx = stack.indexOf(id);
+    if (idx >= 0) return [...stack.slice(idx), id];
+    if (done.has(id) || !graph.has(id)) return null;
+
+    stack.push(id);
+    for (const dep of graph.get(id)!) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    done.add(id);
+    return null;
+  };
+
+  return visit(startId);
+}
+
+/**
+ * 태스크 옵션 검증
+ *
+ * @returns 에러 메시지 또는 null
+ */
+function validateTaskOptions(options: CreateTaskOptions): string | null {
+  if (options.priority !== undefined && !Number.isInteger(options.priority)) {
+    return 'priority는 정수여야 합니다.';
+  }
+  if (options.maxRetries !== undefined && (!Number.isInteger(options.maxRetries) || options.maxRetries < 0)) {
+    return 'maxRetries는 0 이상의 정수여야 합니다.';
+  }
+  const timeout = options.timeout;
+  if (timeout !== undefined && timeout !== null && (!Number.isInteger(timeout) || timeout <= 0)) {
+    return 'timeout은 양의 정수(분)여야 합니다.';
+  }
+  return null;
+}
+
 /**
  * 파일명 생성
  *
@@ -408,16 +593,7 @@ export class TaskManager {
         const content = this.fs.readFileSync(filePath, 'utf-8');
         const { meta } = parseFrontmatter(content);
 
-        tasks.push({
-          id: meta.id || '',
-          title: meta.title || '',
-          status: (meta.status as TaskStatus) || 'pending',
-          createdAt: meta.createdAt || '',
-          startedAt: meta.startedAt,
-          completedAt: meta.completedAt,
-          error: meta.error,
-          fileName: file,
-        });
+        tasks.push(toTaskMeta(meta, file));
       }
 
       return { success: true, tasks };
@@ -466,14 +642,7 @@ export class TaskManager {
           return {
             success: true,
             task: {
-              id: meta.id || '',
-              title: meta.title || '',
-              status: (meta.status as TaskStatus) || 'pending',
-              createdAt: meta.createdAt || '',
-              startedAt: meta.startedAt,
-              completedAt: meta.completedAt,
-              error: meta.error,
-              fileName: file,
+              ...toTaskMeta(meta, file),
               content: displayBody,
               truncated,
             },
@@ -496,16 +665,44 @@ export class TaskManager {
    * 새 태스크를 생성하고 파일로 저장합니다.
    * 파일명은 YYYYMMDD-title-kebab.md 형식입니다.
    *
+   * dependsOn은 같은 워크스페이스의 기존 태스크만 가리킬 수 있고,
+   * 의존 관계를 따라가다 순환이 생기면(영원히 시작할 수 없으므로) 거부합니다.
+   *
    * @param workingDir - 워크스페이스 경로
    * @param title - 태스크 제목
    * @param body - 태스크 본문 (마크다운)
+   * @param options - 우선순위, 의존 관계, 재시도, 제한 시간
    * @returns 생성된 태스크 정보
    */
-  createTask(workingDir: string, title: string, body: string): CreateTaskResult {
+  createTask(
+    workingDir: string,
+    title: string,
+    body: string,
+    options: CreateTaskOptions = {}
+  ): CreateTaskResult {
+    const priority = options.priority ?? DEFAULT_PRIORITY;
+    const dependsOn = [...new Set(options.dependsOn ?? [])];
+    const maxRetries = options.maxRetries ?? 0;
+    const timeout = options.timeout ?? null;
+
+    const invalid = validateTaskOptions(options) ?? validateTitle(title);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const id = randomUUID();
+
+    // 의존 관계 검증
+    if (dependsOn.length > 0) {
+      const dependencyError = this.validateDependencies(workingDir, id, dependsOn);
+      if (dependencyError) {
+        return { success: false, error: dependencyError };
+      }
+    }
+
     const taskPath = this.ensureTaskFolder(workingDir);
 
     try {
-      const id = randomUUID();
       const now = new Date().toISOString();
 
       // 메타데이터 생성
@@ -513,6 +710,11 @@ export class TaskManager {
         id,
         title,
         status: 'pending',
+        priority: String(priority),
+        dependsOn: formatList(dependsOn),
+        maxRetries: String(maxRetries),
+        retryCount: '0',
+        timeout: timeout === null ? null : String(timeout),
         createdAt: now,
         startedAt: null,
         completedAt: null,
@@ -546,6 +748,131 @@ export class TaskManager {
     }
   }
 
+  /**
+   * 태스크 수정
+   *
+   * @description
+   * 제목, 본문, 우선순위, 의존 관계, 재시도, 제한 시간 중 주어진 필드만 바꿉니다.
+   * 실행 중인 태스크는 워커가 파일을 보고 있으므로 수정할 수 없습니다.
+   * 의존 관계를 바꾸면 createTask와 같은 검증(존재, 순환)을 거칩니다.
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskId - 태스크 ID
+   * @param fields - 바꿀 필드
+   * @returns 업데이트 결과
+   */
+  updateTask(workingDir: string, taskId: string, fields: UpdateTaskFields): UpdateTaskResult {
+    const invalid = validateTaskOptions(fields);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    const invalidTitle = fields.title !== undefined ? validateTitle(fields.title) : null;
+    if (invalidTitle) {
+      return { success: false, error: invalidTitle };
+    }
+
+    const current = this.getTask(workingDir, taskId);
+    if (!current.task) {
+      return { success: false, error: current.error };
+    }
+    if (current.task.status === 'running') {
+      return { success: false, error: '실행 중인 태스크는 수정할 수 없습니다.' };
+    }
+
+    const dependsOn = fields.dependsOn !== undefined ? [...new Set(fields.dependsOn)] : undefined;
+    if (dependsOn && dependsOn.length > 0) {
+      const dependencyError = this.validateDependencies(workingDir, taskId, dependsOn);
+      if (dependencyError) {
+        return { success: false, error: dependencyError };
+      }
+    }
+
+    const result = this.updateTaskMeta(
+      workingDir,
+      taskId,
+      (meta) => {
+        if (fields.title !== undefined) meta.title = fields.title.trim();
+        if (fields.priority !== undefined) meta.priority = String(fields.priority);
+        if (dependsOn !== undefined) meta.dependsOn = formatList(dependsOn);
+        if (fields.maxRetries !== undefined) meta.maxRetries = String(fields.maxRetries);
+        if (fields.timeout !== undefined) meta.timeout = fields.timeout === null ? null : String(fields.timeout);
+      },
+      fields.body
+    );
+
+    if (result.task) {
+      console.log(`[TaskManager] Updated task: ${result.task.title}`);
+    }
+    return result;
+  }
+
+  /**
+   * 대기 중인 태스크 순서 변경
+   *
+   * @description
+   * 주어진 순서대로 먼저 실행되도록 모든 pending 태스크의 priority를 다시 매깁니다.
+   * (맨 앞 태스크가 가장 큰 priority를 받습니다.)
+   * 목록에 없는 pending 태스크는 지금 실행 순서대로 그 뒤에 둡니다.
+   * pending이 아닌 태스크 ID는 무시합니다.
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskIds - 원하는 실행 순서의 태스크 ID 목록
+   * @returns 성공 여부
+   */
+  reorderPendingTasks(workingDir: string, taskIds: string[]): { success: boolean; error?: string } {
+    const result = this.listTasks(workingDir);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const pending = result.tasks.filter((t) => t.status === 'pending').sort(compareRunOrder);
+    const pendingIds = new Set(pending.map((t) => t.id));
+    const requested = [...new Set(taskIds.filter((id) => pendingIds.has(id)))];
+    const rest = pending.map((t) => t.id).filter((id) => !requested.includes(id));
+    const ordered = [...requested, ...rest];
+
+    for (const [index, id] of ordered.entries()) {
+      const priority = ordered.length - index;
+      const updated = this.updateTaskMeta(workingDir, id, (meta) => {
+        meta.priority = String(priority);
+      });
+      if (!updated.success) {
+        return { success: false, error: updated.error };
+      }
+    }
+
+    console.log(`[TaskManager] Reordered ${ordered.length} pending task(s)`);
+    return { success: true };
+  }
+
+  /**
+   * 의존 관계 검증 (존재 여부, 순환)
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskId - 의존 관계를 가질 태스크 ID (새 태스크면 새 ID)
+   * @param dependsOn - 의존 태스크 ID 목록
+   * @returns 에러 메시지 또는 null
+   */
+  private validateDependencies(workingDir: string, taskId: string, dependsOn: string[]): string | null {
+    const existing = this.listTasks(workingDir);
+    if (!existing.success) {
+      return existing.error ?? '태스크 목록을 읽을 수 없습니다.';
+    }
+
+    const graph = new Map(existing.tasks.map((t) => [t.id, t.dependsOn]));
+    const missing = dependsOn.filter((dep) => dep === taskId || !graph.has(dep));
+    if (missing.length > 0) {
+      return `의존 태스크를 찾을 수 없습니다: ${missing.join(', ')}`;
+    }
+
+    graph.set(taskId, dependsOn);
+    const cycle = findDependencyCycle(taskId, graph);
+    if (cycle) {
+      return `의존 관계에 순환이 있습니다: ${cycle.join(' → ')}`;
+    }
+    return null;
+  }
+
   /**
    * 태스크 상태 업데이트
    *
@@ -565,6 +892,93 @@ export class TaskManager {
     taskId: string,
     status: TaskStatus,
     error: string | null = null
+  ): UpdateTaskResult {
+    const result = this.updateTaskMeta(workingDir, taskId, (meta, now) => {
+      // 상태 업데이트
+      meta.status = status;
+
+      // running으로 변경 시 startedAt 설정 (처음 시작할 때만)
+      if (status === 'running' && !meta.startedAt) {
+        meta.startedAt = now;
+      }
+
+      // 완료/실패 시 completedAt 설정
+      if (status === 'done' || status === 'failed') {
+        meta.completedAt = now;
+      }
+
+      // 에러 메시지 설정
+      if (error) {
+        meta.error = error;
+      }
+    });
+
+    if (result.task) {
+      console.log(`[TaskManager] Updated task status: ${result.task.title} -> ${status}`);
+    }
+    return result;
+  }
+
+  /**
+   * 실패한 태스크를 재시도 대기로 되돌리기
+   *
+   * @description
+   * 상태를 pending으로 되돌리고 retryCount를 1 올립니다.
+   * 마지막 에러는 남겨두고, 시작/완료 시각은 다음 실행을 위해 비웁니다.
+   * 재시도 가능 여부(retryCount < maxRetries)는 호출자가 판단합니다.
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskId - 태스크 ID
+   * @param error - 이번 실패의 에러 메시지
+   * @returns 업데이트 결과
+   */
+  retryTask(workingDir: string, taskId: string, error: string | null = null): UpdateTaskResult {
+    const result = this.updateTaskMeta(workingDir, taskId, (meta) => {
+      meta.status = 'pending';
+      meta.retryCount = String(parseInteger(meta.retryCount ?? null, 0) + 1);
+      meta.startedAt = null;
+      meta.completedAt = null;
+      if (error) {
+        meta.error = error;
+      }
+    });
+
+    if (result.task) {
+      console.log(
+        `[TaskManager] Retry task: ${result.task.title} (${result.task.retryCount}/${result.task.maxRetries})`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 태스크 결과 브랜치 기록 (null이면 지움)
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskId - 태스크 ID
+   * @param branch - 결과를 커밋해 둔 브랜치
+   * @returns 업데이트 결과
+   */
+  setTaskBranch(workingDir: string, taskId: string, branch: string | null): UpdateTaskResult {
+    return this.updateTaskMeta(workingDir, taskId, (meta) => {
+      meta.branch = branch;
+    });
+  }
+
+  /**
+   * 태스크 Frontmatter 수정 후 저장
+   *
+   * @param workingDir - 워크스페이스 경로
+   * @param taskId - 태스크 ID
+   * @param mutate - 메타데이터 수정 함수 (현재 시각을 함께 받음)
+   * @param newBody - 바꿀 본문 (생략 시 유지)
+   * @returns 업데이트 결과
+   */
+  private updateTaskMeta(
+    workingDir: string,
+    taskId: string,
+    mutate: (meta: Record<string, string | null>, now: string) => void,
+    newBody?: string
   ): UpdateTaskResult {
     const taskPath = this.getTaskFolderPath(workingDir);
 
@@ -582,52 +996,20 @@ export class TaskManager {
         const { meta, body } = parseFrontmatter(content);
 
         if (meta.id === taskId) {
-          const now = new Date().toISOString();
-
-          // 상태 업데이트
-          meta.status = status;
-
-          // running으로 변경 시 startedAt 설정 (처음 시작할 때만)
-          if (status === 'running' && !meta.startedAt) {
-            meta.startedAt = now;
-          }
-
-          // 완료/실패 시 completedAt 설정
-          if (status === 'done' || status === 'failed') {
-            meta.completedAt = now;
-          }
-
-          // 에러 메시지 설정
-          if (error) {
-            meta.error = error;
-          }
+          mutate(meta, new Date().toISOString());
 
           // 파일 저장
-          const newContent = buildFrontmatter(meta) + '\n\n' + body;
+          const newContent = buildFrontmatter(meta) + '\n\n' + (newBody ?? body);
           this.fs.writeFileSync(filePath, newContent, 'utf-8');
 
-          console.log(`[TaskManager] Updated task status: ${meta.title} -> ${status}`);
-
-          return {
-            success: true,
-            task: {
-              id: meta.id || '',
-              title: meta.title || '',
-              status: meta.status as TaskStatus,
-              createdAt: meta.createdAt || '',
-              startedAt: meta.startedAt,
-              completedAt: meta.completedAt,
-              error: meta.error,
-              fileName: file,
-            },
-          };
+          return { success: true, task: toTaskMeta(meta, file) };
         }
       }
 
       return { success: false, error: '태스크를 찾을 수 없습니다.' };
     } catch (err) {
       const errorObj = err as Error;
-      console.error('[TaskManager] updateTaskStatus error:', errorObj.message);
+      console.error('[TaskManager] updateTaskMeta error:', errorObj.message);
       return { success: false, error: errorObj.message };
     }
   }
@@ -637,11 +1019,13 @@ export class TaskManager {
   // ============================================================================
 
   /**
-   * 다음 pending 태스크 조회 (FIFO)
+   * 다음 pending 태스크 조회
    *
    * @description
-   * pending 상태인 태스크 중 가장 오래된 것을 반환합니다.
-   * 파일명 기준으로 정렬하여 FIFO 순서를 보장합니다.
+   * 실행할 수 있는 pending 태스크 중 하나를 고릅니다.
+   * - dependsOn의 태스크가 모두 done이어야 실행할 수 있습니다.
+   *   (없는 태스크나 failed 태스크에 의존하면 계속 대기합니다.)
+   * - priority가 큰 것을 먼저, 같으면 파일명 기준 오래된 것(FIFO)을 먼저 고릅니다.
    *
    * @param workingDir - 워크스페이스 경로
    * @returns 다음 pending 태스크 또는 null
@@ -650,12 +1034,14 @@ export class TaskManager {
     const result = this.listTasks(workingDir);
     if (!result.success) return null;
 
-    // pending 상태 태스크 중 파일명 기준 가장 오래된 것 (FIFO)
-    const pendingTasks = result.tasks
+    const doneIds = new Set(result.tasks.filter((t) => t.status === 'done').map((t) => t.id));
+
+    const readyTasks = result.tasks
       .filter((t) => t.status === 'pending')
-      .sort((a, b) => a.fileName.localeCompare(b.fileName)); // 오름차순 (오래된 것 먼저)
+      .filter((t) => t.dependsOn.every((dep) => doneIds.has(dep)))
+      .sort(compareRunOrder);
 
-    return pendingTasks[0] || null;
+    return readyTasks[0] || null;
   }
 
   /**
@@ -10,6 +10,13 @@
  * 2. Pylon이 전체에 widget_ready broadcast (preferredClientId 포함)
  * 3. preferredClient가 자동으로 widget_claim 전송 → owner가 됨
  * 4. 또는 다른 클라이언트가 widget_claim → 기존 owner 종료 후 새 owner
+ *
+ * ## 재연결 / 재시작
+ *
+ * - owner 연결이 끊기면 세션을 끝내지 않고 owner만 비움 (detachOwner)
+ * - owner 없는 running 세션은 아무 클라이언트나 claim해서 다시 붙을 수 있음
+ * - 살아 있는 세션의 정보와 마지막 view는 toJSON()으로 저장하고,
+ *   Pylon 재시작 후 fromJSON()으로 ready 상태로 복원 (claim 시 CLI 재시작)
  */
 
 import { spawn, ChildProcess } from 'child_process';
@@ -18,12 +25,21 @@ import readline from 'readline';
 import {
   ViewNode,
   WidgetCliMessage,
+  WidgetLimitKind,
+  WidgetSandbox,
   isWidgetCliRenderMessage,
   isWidgetCliCompleteMessage,
   isWidgetCliErrorMessage,
   isWidgetCliEventMessage,
 } from '@estelle/core';
 import { WidgetLogger } from '../utils/widget-logger.js';
+import {
+  buildSandboxCommand,
+  buildSandboxEnv,
+  prepareJail,
+  systemProcessControl,
+  type WidgetProcessControl,
+} from './widget-sandbox.js';
 
 // ============================================================================
 // Types
@@ -43,12 +59,48 @@ export interface WidgetSession {
   command: string;
   cwd: string;
   args?: string[];
+  /** CLI에 추가로 넘길 환경변수 */
+  env?: Record<string, string>;
+  /** 샌드박스 실행 옵션 */
+  sandbox?: WidgetSandbox;
+  /** 샌드박스 제한 위반 (감시 중 설정, 종료 시 error 이벤트로 전달) */
+  violation?: { limit: WidgetLimitKind; reason: string };
+  /** 마지막으로 렌더링된 view (다시 붙는 클라이언트에 재전송) */
+  lastView?: ViewNode;
+  /** Pylon 재시작 후 복원된 세션 */
+  restored?: boolean;
+}
+
+/**
+ * 저장되는 세션 정보 (프로세스/owner 제외)
+ */
+export interface PersistedWidgetSession {
+  sessionId: string;
+  conversationId: number;
+  toolUseId: string;
+  command: string;
+  cwd: string;
+  args?: string[];
+  env?: Record<string, string>;
+  sandbox?: WidgetSandbox;
+  lastView?: ViewNode;
+}
+
+/**
+ * WidgetManager 저장 데이터
+ */
+export interface WidgetManagerData {
+  sessions: PersistedWidgetSession[];
 }
 
 export interface WidgetStartOptions {
   command: string;
   cwd: string;
   args?: string[];
+  /** CLI에 추가로 넘길 환경변수 (Pylon 환경변수에 덮어씀) */
+  env?: Record<string, string>;
+  /** 샌드박스 실행 옵션 */
+  sandbox?: WidgetSandbox;
   conversationId: number;
   toolUseId: string;
 }
@@ -66,6 +118,8 @@ export interface WidgetCompleteEvent {
 export interface WidgetErrorEvent {
   sessionId: string;
   error: string;
+  /** 샌드박스 제한 위반으로 종료된 경우 */
+  limit?: WidgetLimitKind;
 }
 
 export interface WidgetEventEvent {
@@ -73,6 +127,16 @@ export interface WidgetEventEvent {
   data: unknown;
 }
 
+export interface WidgetManagerOptions {
+  /** 프로세스 종료/사용량 조회 (기본: systemProcessControl) */
+  processControl?: WidgetProcessControl;
+  /** 메모리/CPU 사용량 확인 주기 (ms) */
+  monitorIntervalMs?: number;
+}
+
+/** 기본 사용량 확인 주기 (ms) */
+const DEFAULT_MONITOR_INTERVAL_MS = 1000;
+
 // ============================================================================
 // WidgetManager
 // ============================================================================
@@ -80,6 +144,76 @@ export interface WidgetEventEvent {
 export class WidgetManager extends EventEmitter {
   private sessions: Map<string, WidgetSession> = new Map();
   private sessionCounter = 0;
+  /** 세션별 제한 감시 해제 함수 */
+  private monitors: Map<string, () => void> = new Map();
+  private processControl: WidgetProcessControl;
+  private monitorIntervalMs: number;
+
+  constructor(options: WidgetManagerOptions = {}) {
+    super();
+    this.processControl = options.processControl ?? systemProcessControl;
+    this.monitorIntervalMs = options.monitorIntervalMs ?? DEFAULT_MONITOR_INTERVAL_MS;
+  }
+
+  /**
+   * 저장된 데이터에서 복원
+   *
+   * 프로세스는 Pylon과 함께 종료되었으므로 모든 세션을 ready 상태로 되돌립니다.
+   * 클라이언트가 claim하면 CLI를 다시 시작합니다.
+   */
+  static fromJSON(data: WidgetManagerData, options?: WidgetManagerOptions): WidgetManager {
+    const manager = new WidgetManager(options);
+
+    for (const saved of data.sessions ?? []) {
+      manager.sessions.set(saved.sessionId, {
+        sessionId: saved.sessionId,
+        conversationId: saved.conversationId,
+        toolUseId: saved.toolUseId,
+        process: null,
+        status: 'ready',
+        ownerClientId: null,
+        logger: new WidgetLogger(saved.cwd, saved.sessionId),
+        command: saved.command,
+        cwd: saved.cwd,
+        args: saved.args,
+        env: saved.env,
+        sandbox: saved.sandbox,
+        lastView: saved.lastView,
+        restored: true,
+      });
+    }
+
+    return manager;
+  }
+
+  /**
+   * 저장할 데이터 (ready/running 세션만)
+   */
+  toJSON(): WidgetManagerData {
+    const sessions: PersistedWidgetSession[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.status !== 'ready' && session.status !== 'running') continue;
+      sessions.push({
+        sessionId: session.sessionId,
+        conversationId: session.conversationId,
+        toolUseId: session.toolUseId,
+        command: session.command,
+        cwd: session.cwd,
+        args: session.args,
+        env: session.env,
+        sandbox: session.sandbox,
+        lastView: session.lastView,
+      });
+    }
+    return { sessions };
+  }
+
+  /**
+   * 저장할 내용이 바뀌었음을 알림 ('change' 이벤트)
+   */
+  private notifyChange(): void {
+    this.emit('change');
+  }
 
   /**
    * 세션 준비 (CLI 미시작)
@@ -105,9 +239,12 @@ export class WidgetManager extends EventEmitter {
       command: options.command,
       cwd: options.cwd,
       args: options.args,
+      env: options.env,
+      sandbox: options.sandbox,
     };
 
     this.sessions.set(sessionId, session);
+    this.notifyChange();
     return sessionId;
   }
 
@@ -116,6 +253,8 @@ export class WidgetManager extends EventEmitter {
    *
    * 핸드셰이크 성공 또는 claim 성공 후 호출.
    * owner를 설정하고 CLI 프로세스를 spawn.
+   * 샌드박스 세션은 환경변수/작업 디렉토리를 제한하고 제한 감시를 시작합니다.
+   * 샌드박스 준비에 실패하면 error 이벤트를 보내고 false를 반환합니다.
    */
   startSessionProcess(sessionId: string, ownerClientId: number): boolean {
     const session = this.sessions.get(sessionId);
@@ -125,14 +264,43 @@ export class WidgetManager extends EventEmitter {
     session.ownerClientId = ownerClientId;
     session.status = 'running';
 
-    const proc = spawn(session.command, session.args ?? [], {
+    let command = session.command;
+    let env = session.env ? { ...process.env, ...session.env } : undefined;
+    if (session.sandbox) {
+      try {
+        if (session.sandbox.jail) {
+          prepareJail(session.cwd);
+        }
+        command = buildSandboxCommand(
+          session.command,
+          session.sandbox,
+          session.cwd,
+          process.platform,
+          this.processControl.canJail(),
+        );
+        env = buildSandboxEnv(session.sandbox, session.cwd, session.env);
+      } catch (err) {
+        this.failSession(session, (err as Error).message);
+        return false;
+      }
+    }
+
+    const proc = spawn(command, session.args ?? [], {
       cwd: session.cwd,
+      env,
       stdio: ['pipe', 'pipe', 'pipe'],
       shell: true,
+      // 샌드박스는 프로세스 그룹 단위로 감시/종료하기 위해 (Windows는 taskkill /T)
+      // 일반 위젯은 Pylon과 같은 그룹에 두어 터미널 종료 시 함께 종료
+      detached: !!session.sandbox && process.platform !== 'win32',
     });
 
     session.process = proc;
 
+    if (session.sandbox) {
+      this.monitorLimits(session, proc);
+    }
+
     // stdout 라인 파싱
     const rl = readline.createInterface({
       input: proc.stdout!,
@@ -150,9 +318,12 @@ export class WidgetManager extends EventEmitter {
 
     // 프로세스 종료 처리
     proc.on('close', (code) => {
+      this.stopMonitor(sessionId);
       const sess = this.sessions.get(sessionId);
       if (sess && sess.status === 'running') {
-        if (code === 0) {
+        if (sess.violation) {
+          this.failSession(sess, sess.violation.reason, sess.violation.limit);
+        } else if (code === 0) {
           sess.status = 'completed';
           sess.logger?.sessionEnd();
         } else {
@@ -162,10 +333,12 @@ export class WidgetManager extends EventEmitter {
           sess.logger?.sessionEnd();
           this.emit('error', { sessionId, error: sess.error });
         }
+        this.notifyChange();
       }
     });
 
     proc.on('error', (err) => {
+      this.stopMonitor(sessionId);
       const sess = this.sessions.get(sessionId);
       if (sess) {
         sess.status = 'error';
@@ -173,12 +346,86 @@ export class WidgetManager extends EventEmitter {
         sess.logger?.error('Process error', err.message);
         sess.logger?.sessionEnd();
         this.emit('error', { sessionId, error: err.message });
+        this.notifyChange();
       }
     });
 
     return true;
   }
 
+  /**
+   * 세션을 에러로 종료하고 error 이벤트 emit
+   */
+  private failSession(session: WidgetSession, error: string, limit?: WidgetLimitKind): void {
+    session.status = 'error';
+    session.error = error;
+    session.logger?.error(error);
+    session.logger?.sessionEnd();
+    const event: WidgetErrorEvent = { sessionId: session.sessionId, error };
+    if (limit) {
+      event.limit = limit;
+    }
+    this.emit('error', event);
+    this.notifyChange();
+  }
+
+  /**
+   * 샌드박스 제한 감시
+   *
+   * 실행 시간은 타이머로, 메모리/CPU는 주기적으로 사용량을 읽어 확인합니다.
+   * 제한을 넘으면 사유를 기록하고 프로세스를 종료하며, close에서 error 이벤트로 전달됩니다.
+   */
+  private monitorLimits(session: WidgetSession, proc: ChildProcess): void {
+    const sandbox = session.sandbox!;
+    const timers: NodeJS.Timeout[] = [];
+
+    const violate = (limit: WidgetLimitKind, reason: string) => {
+      if (session.violation || session.status !== 'running') return;
+      session.violation = { limit, reason };
+      this.stopMonitor(session.sessionId);
+      this.processControl.killTree(proc);
+    };
+
+    if (sandbox.timeoutSeconds) {
+      const seconds = sandbox.timeoutSeconds;
+      timers.push(setTimeout(() => violate('timeout', `실행 시간 제한(${seconds}초)을 넘었습니다`), seconds * 1000));
+    }
+
+    if ((sandbox.memoryMb || sandbox.cpuSeconds) && proc.pid !== undefined) {
+      const pid = proc.pid;
+      let checking = false;
+      timers.push(setInterval(async () => {
+        if (checking) return;
+        checking = true;
+        try {
+          const usage = await this.processControl.readUsage(pid);
+          if (!usage) return;
+          if (sandbox.memoryMb && usage.rssBytes > sandbox.memoryMb * 1024 * 1024) {
+            violate('memory', `메모리 제한(${sandbox.memoryMb}MB)을 넘었습니다`);
+          } else if (sandbox.cpuSeconds && usage.cpuSeconds > sandbox.cpuSeconds) {
+            violate('cpu', `CPU 시간 제한(${sandbox.cpuSeconds}초)을 넘었습니다`);
+          }
+        } finally {
+          checking = false;
+        }
+      }, this.monitorIntervalMs));
+    }
+
+    this.monitors.set(session.sessionId, () => {
+      for (const timer of timers) {
+        clearTimeout(timer);
+      }
+    });
+  }
+
+  /**
+   * 제한 감시 해제
+   */
+  private stopMonitor(sessionId: string): void {
+    this.monitors.get(sessionId)?.();
+    this.monitors.delete(sessionId);
+  }
+
   /**
    * 세션 상태 변경
    */
@@ -203,10 +450,12 @@ export class WidgetManager extends EventEmitter {
       session.logger?.cliToPylon(message.type, message);
 
       if (isWidgetCliRenderMessage(message)) {
+        session.lastView = message.view;
         this.emit('render', {
           sessionId,
           view: message.view,
         } as WidgetRenderEvent);
+        this.notifyChange();
       } else if (isWidgetCliCompleteMessage(message)) {
         session.status = 'completed';
         session.result = message.result;
@@ -215,6 +464,7 @@ export class WidgetManager extends EventEmitter {
           sessionId,
           result: message.result,
         } as WidgetCompleteEvent);
+        this.notifyChange();
       } else if (isWidgetCliErrorMessage(message)) {
         session.status = 'error';
         session.error = message.message;
@@ -224,6 +474,7 @@ export class WidgetManager extends EventEmitter {
           sessionId,
           error: message.message,
         } as WidgetErrorEvent);
+        this.notifyChange();
       } else if (isWidgetCliEventMessage(message)) {
         console.log(`[WidgetManager] CLI event received: sessionId=${sessionId}, data=`, message.data);
         this.emit('event', {
@@ -279,6 +530,7 @@ export class WidgetManager extends EventEmitter {
     if (session.status === 'ready') {
       session.status = 'cancelled';
       session.logger?.sessionEnd();
+      this.notifyChange();
       return true;
     }
 
@@ -291,13 +543,15 @@ export class WidgetManager extends EventEmitter {
     session.logger?.pylonToCli('cancel');
     session.process.stdin?.write(message);
 
-    // 프로세스 종료
-    session.process.kill('SIGTERM');
+    // 프로세스 종료 (셸이 띄운 자식까지)
+    this.stopMonitor(sessionId);
+    this.processControl.killTree(session.process);
     session.status = 'cancelled';
     session.logger?.sessionEnd();
 
     // waitForCompletion이 대기 중일 수 있으므로 error 이벤트 emit
     this.emit('error', { sessionId, error: 'cancelled by duplication' } as WidgetErrorEvent);
+    this.notifyChange();
 
     return true;
   }
@@ -363,11 +617,15 @@ export class WidgetManager extends EventEmitter {
    * 소유권 요청 처리 (ready 또는 running 상태)
    *
    * - ready 상태: owner 설정 후 CLI 시작
-   * - running 상태: 기존 owner 종료 후 { cancelled: true } 반환
+   * - running 상태 + owner 없음(또는 본인): owner로 다시 붙음
+   * - running 상태 + 다른 owner: 기존 owner 종료 후 { cancelled: true } 반환
    *
-   * @returns { started: true } | { cancelled: true, reason: string } | null (실패)
+   * @returns { started: true } | { reattached: true } | { cancelled: true, reason: string } | null (실패)
    */
-  claimOwnership(sessionId: string, clientId: number): { started: true } | { cancelled: true; reason: string } | null {
+  claimOwnership(
+    sessionId: string,
+    clientId: number,
+  ): { started: true } | { reattached: true } | { cancelled: true; reason: string } | null {
     const session = this.sessions.get(sessionId);
     if (!session) return null;
 
@@ -377,6 +635,12 @@ export class WidgetManager extends EventEmitter {
       return started ? { started: true } : null;
     }
 
+    // running 상태: owner가 떠난 세션 → 다시 붙기
+    if (session.status === 'running' && (session.ownerClientId === null || session.ownerClientId === clientId)) {
+      session.ownerClientId = clientId;
+      return { reattached: true };
+    }
+
     // running 상태: 이미 owner가 있음 → 기존 세션 종료
     if (session.status === 'running') {
       this.cancelSession(sessionId);
@@ -407,13 +671,41 @@ export class WidgetManager extends EventEmitter {
     return result;
   }
 
+  /**
+   * 클라이언트의 소유권 해제 (연결 끊김)
+   *
+   * 세션은 계속 실행되고, 다른 클라이언트가 claim으로 다시 붙을 수 있습니다.
+   *
+   * @returns owner가 해제된 세션 목록
+   */
+  detachOwner(clientId: number): WidgetSession[] {
+    const detached = this.getSessionsByOwner(clientId);
+    for (const session of detached) {
+      session.ownerClientId = null;
+    }
+    return detached;
+  }
+
+  /**
+   * Pylon 재시작 후 복원되어 아직 claim되지 않은 세션 목록
+   */
+  getRestoredSessions(): WidgetSession[] {
+    return [...this.sessions.values()].filter((s) => s.restored && s.status === 'ready');
+  }
+
   /**
    * 모든 세션 정리
+   *
+   * Pylon 종료 시 호출해 실행 중인 CLI(프로세스 그룹)를 종료합니다.
+   * 'change'를 보내지 않으므로 저장된 세션은 다음 실행에서 ready로 복원됩니다.
+   *
+   * @param immediate - 유예 없이 동기로 강제 종료 (process 'exit' 핸들러처럼 비동기 작업이 돌지 않을 때)
    */
-  cleanup(): void {
+  cleanup(immediate = false): void {
     for (const [, session] of this.sessions) {
+      this.stopMonitor(session.sessionId);
       if (session.process && session.status === 'running') {
-        session.process.kill('SIGTERM');
+        this.processControl.killTree(session.process, immediate);
       }
       session.status = 'cancelled';
     }
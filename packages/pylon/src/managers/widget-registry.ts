@@ -0,0 +1,228 @@
+/**
+ * @file widget-registry.ts
+ * @description WidgetRegistry - 위젯 패키지 카탈로그
+ *
+ * 위젯 폴더들(widgetDirs)의 하위 폴더 중 `widget.json` manifest가 있는 것을
+ * 위젯 패키지로 인식합니다. 목록은 호출할 때마다 다시 읽으므로
+ * 패키지를 추가/수정하면 Pylon 재시작 없이 반영됩니다.
+ *
+ * 실행 정보:
+ * - entry 확장자로 실행기를 정합니다 (.js/.mjs/.cjs → node, .ts → npx tsx, 그 외 → 직접 실행)
+ * - args 템플릿의 `{필드명}`을 입력값으로 치환하고 셸 인용 처리합니다
+ *   (WidgetManager는 셸로 실행하므로 입력이 명령으로 해석되지 않게)
+ * - 검증된 입력 전체를 `ESTELLE_WIDGET_INPUT` 환경변수(JSON)로도 넘깁니다
+ *
+ * 필수 환경변수(env)는 Pylon 환경변수나 패키지 폴더의 `.env`에 있어야 합니다.
+ * `.env`의 값은 위젯이 직접 읽으므로 Pylon은 존재 여부만 확인합니다.
+ *
+ * manifest에 sandbox가 있으면 실행 정보에 담아 WidgetManager가 제한된 환경으로 실행하게 합니다.
+ * 이때 필수 환경변수는 넘길 환경변수 목록에 자동으로 들어갑니다.
+ *
+ * @example
+ * ```typescript
+ * const registry = new WidgetRegistry(['/data/widgets']);
+ * registry.list();  // [{ name: 'quiver', title: 'Quiver', available: true, ... }]
+ * const launch = registry.resolve('quiver', { prompt: 'a cat' });
+ * widgetManager.prepareSession({ ...launch, conversationId, toolUseId });
+ * ```
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  validateWidgetInput,
+  type WidgetCatalogEntry,
+  type WidgetManifest,
+  type WidgetSandbox,
+} from '@estelle/core';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** manifest 파일 이름 */
+export const WIDGET_MANIFEST_FILE = 'widget.json';
+
+/** 입력 JSON을 넘기는 환경변수 이름 */
+export const WIDGET_INPUT_ENV = 'ESTELLE_WIDGET_INPUT';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 발견된 위젯 패키지
+ */
+export interface WidgetPackage {
+  manifest: WidgetManifest;
+  /** 패키지 폴더 (절대 경로) */
+  dir: string;
+}
+
+/**
+ * WidgetManager.prepareSession에 넘길 실행 정보
+ */
+export interface WidgetLaunch {
+  command: string;
+  cwd: string;
+  args: string[];
+  env: Record<string, string>;
+  /** 샌드박스 실행 옵션 (manifest에 있을 때만) */
+  sandbox?: WidgetSandbox;
+}
+
+// ============================================================================
+// WidgetRegistry
+// ============================================================================
+
+export class WidgetRegistry {
+  private readonly dirs: string[];
+  private readonly platform: NodeJS.Platform;
+
+  /**
+   * @param dirs - 위젯 패키지를 찾을 폴더 목록 (앞쪽이 우선, 같은 이름은 먼저 찾은 것 사용)
+   * @param platform - 인용 규칙을 정할 플랫폼 (테스트용)
+   */
+  constructor(dirs: string[], platform: NodeJS.Platform = process.platform) {
+    this.dirs = dirs.map((dir) => path.resolve(dir));
+    this.platform = platform;
+  }
+
+  /**
+   * 위젯 패키지 검색
+   *
+   * manifest를 읽지 못하거나 name/entry가 없는 패키지는 건너뜁니다.
+   */
+  discover(): WidgetPackage[] {
+    const packages = new Map<string, WidgetPackage>();
+
+    for (const root of this.dirs) {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(root, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const dir = path.join(root, entry.name);
+        const manifest = this.readManifest(dir);
+        if (manifest && !packages.has(manifest.name)) {
+          packages.set(manifest.name, { manifest, dir });
+        }
+      }
+    }
+
+    return [...packages.values()].sort((a, b) => a.manifest.name.localeCompare(b.manifest.name));
+  }
+
+  /**
+   * 카탈로그 (Client/Claude에 보여줄 목록)
+   */
+  list(): WidgetCatalogEntry[] {
+    return this.discover().map(({ manifest, dir }) => {
+      const missingEnv = this.findMissingEnv(manifest, dir);
+      return {
+        name: manifest.name,
+        title: manifest.title ?? manifest.name,
+        description: manifest.description,
+        icon: manifest.icon,
+        inputSchema: manifest.inputSchema,
+        missingEnv,
+        available: missingEnv.length === 0,
+      };
+    });
+  }
+
+  /**
+   * 위젯 실행 정보 생성
+   *
+   * @throws 알 수 없는 위젯, 필수 환경변수 누락, 입력 검증 실패
+   */
+  resolve(name: string, input?: Record<string, unknown>): WidgetLaunch {
+    const pkg = this.discover().find((p) => p.manifest.name === name);
+    if (!pkg) {
+      throw new Error(`위젯을 찾을 수 없습니다: ${name}`);
+    }
+    const { manifest, dir } = pkg;
+
+    const missingEnv = this.findMissingEnv(manifest, dir);
+    if (missingEnv.length > 0) {
+      throw new Error(`환경변수가 설정되지 않았습니다: ${missingEnv.join(', ')}`);
+    }
+
+    const { value, errors } = validateWidgetInput(manifest.inputSchema, input);
+    if (errors.length > 0) {
+      throw new Error(`입력이 올바르지 않습니다: ${errors.join('; ')}`);
+    }
+
+    const args = (manifest.args ?? []).map((template) =>
+      template.replace(/\{(\w+)\}/g, (_, key: string) => (value[key] === undefined ? '' : String(value[key])))
+    );
+    const entryPath = path.join(dir, manifest.entry);
+    const ext = path.extname(entryPath);
+    const runner = ['.js', '.mjs', '.cjs'].includes(ext) ? ['node'] : ext === '.ts' ? ['npx', 'tsx'] : [];
+    const [command, ...runnerArgs] = [...runner, this.quote(entryPath)];
+
+    const launch: WidgetLaunch = {
+      command,
+      cwd: dir,
+      args: [...runnerArgs, ...args.map((arg) => this.quote(arg))],
+      env: { [WIDGET_INPUT_ENV]: JSON.stringify(value) },
+    };
+    if (manifest.sandbox) {
+      launch.sandbox = {
+        ...manifest.sandbox,
+        env: [...new Set([...(manifest.env ?? []), ...(manifest.sandbox.env ?? [])])],
+      };
+    }
+    return launch;
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private readManifest(dir: string): WidgetManifest | null {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(dir, WIDGET_MANIFEST_FILE), 'utf-8')) as WidgetManifest;
+      if (typeof raw?.name !== 'string' || !raw.name || typeof raw.entry !== 'string' || !raw.entry) {
+        return null;
+      }
+      return raw;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Pylon 환경변수와 패키지 `.env` 어디에도 없는 필수 환경변수
+   */
+  private findMissingEnv(manifest: WidgetManifest, dir: string): string[] {
+    const required = manifest.env ?? [];
+    if (required.length === 0) return [];
+
+    const dotenvKeys = new Set<string>();
+    try {
+      for (const line of fs.readFileSync(path.join(dir, '.env'), 'utf-8').split(/\r?\n/)) {
+        const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(\S.*)?$/);
+        if (match?.[2]) dotenvKeys.add(match[1]);
+      }
+    } catch {
+      // .env 없음
+    }
+
+    return required.filter((key) => !process.env[key] && !dotenvKeys.has(key));
+  }
+
+  /**
+   * 셸 인자 인용 (WidgetManager는 shell: true로 실행)
+   */
+  private quote(arg: string): string {
+    if (this.platform === 'win32') {
+      return `"${arg.replace(/"/g, '""')}"`;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+}
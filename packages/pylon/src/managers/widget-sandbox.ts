@@ -0,0 +1,377 @@
+/**
+ * @file widget-sandbox.ts
+ * @description 위젯 CLI 샌드박스 실행 도우미
+ *
+ * WidgetManager가 manifest의 sandbox 옵션으로 CLI를 실행할 때 사용합니다.
+ *
+ * - 환경변수: 기본 시스템 변수(PATH 등)와 지정한 이름만 넘깁니다
+ * - 작업 디렉토리 가두기: Linux에서 bubblewrap(`bwrap`) 마운트 네임스페이스로 실행합니다.
+ *   루트 파일 시스템은 읽기 전용, 홈/임시 폴더는 빈 tmpfs로 가리고 작업 디렉토리만 쓸 수 있게 붙이며,
+ *   HOME/임시 폴더 환경변수는 `<cwd>/.sandbox`로 돌립니다.
+ *   bwrap이 없거나 Linux가 아니면 가둘 수 없으므로 실행을 거부합니다
+ * - 네트워크 차단: Linux에서 `unshare --net`(사용자 네임스페이스)으로 빈 네트워크에서 실행합니다
+ *   (가둔 위젯은 bwrap의 `--unshare-net`)
+ * - 실행 시간/CPU/메모리 제한: WidgetManager가 주기적으로 프로세스 그룹 전체 사용량을 읽어 넘으면 종료합니다
+ *   (Linux는 /proc, macOS는 ps로 읽고, Windows는 실행 시간 제한만 적용됩니다)
+ *
+ * 샌드박스 위젯은 자기 프로세스 그룹으로 띄우고(detached), 종료는 그룹(Windows는 프로세스 트리) 단위로 해서
+ * 셸이 띄운 자식까지 정리합니다.
+ */
+
+import { execFile, spawn, spawnSync, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { WidgetSandbox } from '@estelle/core';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 샌드박스에서도 넘기는 시스템 환경변수 */
+export const SANDBOX_BASE_ENV = [
+  'PATH',
+  'PATHEXT',
+  'SystemRoot',
+  'ComSpec',
+  'LANG',
+  'LC_ALL',
+  'TZ',
+  'TERM',
+] as const;
+
+/** 가둔 작업 디렉토리 안의 HOME/임시 폴더 */
+export const SANDBOX_HOME_DIR = '.sandbox';
+
+/** SIGTERM 후 SIGKILL까지 기다리는 시간 (ms) */
+export const KILL_GRACE_MS = 3000;
+
+/** /proc/<pid>/stat의 CPU 시간 단위 (Linux 기본 USER_HZ) */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/** /proc/<pid>/stat의 RSS 페이지 크기 */
+const PAGE_SIZE = 4096;
+
+/** 단순 명령이 아니게 만드는 셸 문법 (연산자, 그룹, 치환, 줄바꿈) */
+const COMPOUND_SHELL_SYNTAX = /[;&|()<>`\n]|\$\(/;
+
+/** 명령 앞의 환경변수 할당 (exec 뒤에 둘 수 없음) */
+const LEADING_ASSIGNMENT = /^\s*[A-Za-z_][A-Za-z0-9_]*=/;
+
+/** 가둔 위젯에게 빈 tmpfs로 가리는 폴더 (작업 디렉토리는 다시 붙임) */
+const JAIL_HIDDEN_DIRS = ['/home', '/root', '/tmp', '/var/tmp'];
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 프로세스 사용량
+ */
+export interface ProcessUsage {
+  rssBytes: number;
+  cpuSeconds: number;
+}
+
+/**
+ * 프로세스 제어 (테스트에서 교체)
+ */
+export interface WidgetProcessControl {
+  /** 프로세스와 자식까지 종료 (immediate면 유예 없이 동기로 강제 종료, Pylon 종료 시) */
+  killTree(proc: ChildProcess, immediate?: boolean): void;
+  /** 파일 시스템 가두기 사용 가능 여부 (Linux + bwrap) */
+  canJail(): boolean;
+  /** 프로세스 그룹(pgid = pid) 전체 사용량 조회 (지원하지 않는 플랫폼이거나 이미 종료되었으면 null) */
+  readUsage(pid: number): Promise<ProcessUsage | null>;
+}
+
+// ============================================================================
+// 실행 준비
+// ============================================================================
+
+/**
+ * 샌드박스 환경변수
+ *
+ * @param extraEnv - 위젯 전용 환경변수 (입력 JSON 등, 항상 포함)
+ */
+export function buildSandboxEnv(
+  sandbox: WidgetSandbox,
+  cwd: string,
+  extraEnv: Record<string, string> = {},
+  source: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const key of [...SANDBOX_BASE_ENV, ...(sandbox.env ?? [])]) {
+    const value = source[key];
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+
+  if (sandbox.jail) {
+    const home = path.join(cwd, SANDBOX_HOME_DIR);
+    Object.assign(env, {
+      HOME: home,
+      USERPROFILE: home,
+      TMPDIR: home,
+      TMP: home,
+      TEMP: home,
+      PWD: cwd,
+    });
+  } else {
+    for (const key of ['HOME', 'USERPROFILE', 'TMPDIR', 'TMP', 'TEMP']) {
+      const value = source[key];
+      if (value !== undefined) {
+        env[key] = value;
+      }
+    }
+  }
+
+  return { ...env, ...extraEnv };
+}
+
+/**
+ * 가둔 작업 디렉토리 준비
+ *
+ * 작업 디렉토리가 실제 폴더인지 확인하고 그 안에 HOME/임시 폴더를 만듭니다.
+ *
+ * @throws 작업 디렉토리가 없거나 폴더가 아닐 때
+ */
+export function prepareJail(cwd: string): void {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(cwd);
+  } catch {
+    throw new Error(`작업 디렉토리가 없습니다: ${cwd}`);
+  }
+  if (!stat.isDirectory()) {
+    throw new Error(`작업 디렉토리가 폴더가 아닙니다: ${cwd}`);
+  }
+  fs.mkdirSync(path.join(cwd, SANDBOX_HOME_DIR), { recursive: true });
+}
+
+/**
+ * PATH에서 bubblewrap(bwrap) 찾기
+ */
+export function hasBubblewrap(envPath: string = process.env.PATH ?? ''): boolean {
+  return envPath
+    .split(path.delimiter)
+    .filter(Boolean)
+    .some((dir) => {
+      try {
+        fs.accessSync(path.join(dir, 'bwrap'), fs.constants.X_OK);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+}
+
+/**
+ * 셸 문법 없이 명령 하나로만 이루어졌는지 확인
+ */
+export function isSimpleCommand(command: string): boolean {
+  return !COMPOUND_SHELL_SYNTAX.test(command) && !LEADING_ASSIGNMENT.test(command);
+}
+
+/**
+ * 셸에 넘길 명령 (가두기/네트워크 차단 래핑, POSIX 단순 명령은 exec로 셸 대신 실행)
+ *
+ * exec는 단순 명령에만 붙입니다 (`a && b` 같은 복합 명령에 붙이면 첫 명령만 실행됨).
+ * 복합 명령을 가두거나 네트워크 차단할 때는 전체를 `sh -c`로 감싸 모든 명령이 안에서 돌게 하고,
+ * spawn이 뒤에 붙이는 인자는 `"$@"`로 넘깁니다.
+ *
+ * @param cwd - 위젯 작업 디렉토리 (가둘 때 쓰기 가능하게 붙일 폴더)
+ * @param jailAvailable - bwrap 사용 가능 여부
+ * @throws 가두기/네트워크 차단을 지원하지 않는 환경에서 요청했을 때
+ */
+export function buildSandboxCommand(
+  command: string,
+  sandbox: WidgetSandbox,
+  cwd: string,
+  platform: NodeJS.Platform = process.platform,
+  jailAvailable: boolean = platform === 'linux' && hasBubblewrap(),
+): string {
+  const simple = isSimpleCommand(command);
+  const target = simple ? command : `sh -c ${quoteShellArg(`${command} "$@"`)} sh`;
+
+  if (sandbox.jail) {
+    if (platform !== 'linux' || !jailAvailable) {
+      throw new Error('작업 디렉토리 가두기는 bubblewrap(bwrap)이 설치된 Linux에서만 지원합니다');
+    }
+    return `exec ${buildJailArgs(cwd, !!sandbox.denyNetwork).join(' ')} ${target}`;
+  }
+
+  if (sandbox.denyNetwork) {
+    if (platform !== 'linux') {
+      throw new Error('네트워크 차단은 Linux에서만 지원합니다');
+    }
+    return `exec unshare --net --map-root-user ${target}`;
+  }
+  return platform === 'win32' || !simple ? command : `exec ${command}`;
+}
+
+/**
+ * bwrap 인자 (인용 완료)
+ *
+ * 루트는 읽기 전용으로 붙이고 홈/임시 폴더를 빈 tmpfs로 가린 뒤 작업 디렉토리만 쓰기 가능하게 다시 붙입니다.
+ * Pylon이 죽으면 위젯도 함께 종료되도록 `--die-with-parent`를 겁니다.
+ */
+function buildJailArgs(cwd: string, denyNetwork: boolean): string[] {
+  const root = path.resolve(cwd);
+  const hidden = [...new Set([...JAIL_HIDDEN_DIRS, os.homedir(), os.tmpdir()])]
+    .filter((dir) => dir !== '/' && fs.existsSync(dir));
+
+  const args = ['bwrap', '--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc'];
+  for (const dir of hidden) {
+    args.push('--tmpfs', quoteShellArg(dir));
+  }
+  args.push('--bind', quoteShellArg(root), quoteShellArg(root), '--chdir', quoteShellArg(root));
+  args.push('--unshare-pid', '--die-with-parent');
+  if (denyNetwork) {
+    args.push('--unshare-net');
+  }
+  args.push('--');
+  return args;
+}
+
+/**
+ * POSIX 셸 작은따옴표 인용
+ */
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// ============================================================================
+// 시스템 프로세스 제어
+// ============================================================================
+
+/**
+ * Linux: /proc/<pid>/stat을 훑어 프로세스 그룹 사용량 합산
+ *
+ * CPU 시간에는 이미 끝나 회수된 자식(cutime/cstime)도 포함합니다.
+ */
+async function readProcGroupUsage(pgid: number): Promise<ProcessUsage | null> {
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir('/proc');
+  } catch {
+    return null;
+  }
+
+  let found = false;
+  let ticks = 0;
+  let pages = 0;
+  await Promise.all(
+    entries
+      .filter((entry) => /^\d+$/.test(entry))
+      .map(async (entry) => {
+        try {
+          const stat = await fs.promises.readFile(`/proc/${entry}/stat`, 'utf-8');
+          // 프로세스 이름에 공백이 있을 수 있으므로 ')' 뒤부터 (state가 0번)
+          const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+          if (Number(fields[2]) !== pgid) return;
+          found = true;
+          ticks += Number(fields[11]) + Number(fields[12]) + Number(fields[13]) + Number(fields[14]);
+          pages += Number(fields[21]);
+        } catch {
+          // 읽는 사이에 종료된 프로세스
+        }
+      }),
+  );
+
+  return found ? { cpuSeconds: ticks / CLOCK_TICKS_PER_SECOND, rssBytes: pages * PAGE_SIZE } : null;
+}
+
+/**
+ * ps의 CPU 시간([[dd-]hh:]mm:ss.ss)을 초로 변환
+ */
+function parsePsTime(time: string): number {
+  const [days, clock] = time.includes('-') ? time.split('-') : ['0', time];
+  return clock
+    .split(':')
+    .reduce((total, part) => total * 60 + Number(part), 0) + Number(days) * 86400;
+}
+
+/**
+ * macOS 등: ps로 프로세스 그룹 사용량 합산
+ */
+async function readPsGroupUsage(pgid: number): Promise<ProcessUsage | null> {
+  try {
+    const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pgid=,rss=,time=']);
+    let found = false;
+    let rssBytes = 0;
+    let cpuSeconds = 0;
+    for (const line of stdout.split('\n')) {
+      const [group, rss, time] = line.trim().split(/\s+/);
+      if (Number(group) !== pgid || !rss || !time) continue;
+      found = true;
+      rssBytes += Number(rss) * 1024;
+      cpuSeconds += parsePsTime(time);
+    }
+    return found ? { rssBytes, cpuSeconds } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 실제 프로세스 제어
+ *
+ * POSIX에서 샌드박스 위젯은 자기 프로세스 그룹으로 띄우므로(detached) 그룹 전체에 신호를 보냅니다.
+ * 그룹이 아니면(process.kill(-pid) 실패) 프로세스에만 보냅니다.
+ */
+export const systemProcessControl: WidgetProcessControl = {
+  killTree(proc, immediate = false) {
+    const pid = proc.pid;
+    if (pid === undefined) {
+      proc.kill(immediate ? 'SIGKILL' : 'SIGTERM');
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      if (immediate) {
+        spawnSync('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+        return;
+      }
+      const killer = spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+      killer.on('error', () => proc.kill());
+      return;
+    }
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-pid, signal);
+      } catch {
+        proc.kill(signal);
+      }
+    };
+
+    // Pylon 종료 중에는 타이머가 돌지 않으므로 바로 SIGKILL
+    if (immediate) {
+      signalGroup('SIGKILL');
+      return;
+    }
+
+    signalGroup('SIGTERM');
+    setTimeout(() => {
+      if (proc.exitCode === null && proc.signalCode === null) {
+        signalGroup('SIGKILL');
+      }
+    }, KILL_GRACE_MS).unref();
+  },
+
+  canJail() {
+    return process.platform === 'linux' && hasBubblewrap();
+  },
+
+  readUsage(pid) {
+    if (process.platform === 'linux') return readProcGroupUsage(pid);
+    if (process.platform === 'win32') return Promise.resolve(null);
+    return readPsGroupUsage(pid);
+  },
+};
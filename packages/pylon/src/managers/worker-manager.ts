@@ -2,15 +2,17 @@
  * @file worker-manager.ts
  * @description WorkerManager - 워커 프로세스 관리
  *
- * 워크스페이스당 워커 1개를 관리합니다.
- * pending 태스크를 자동으로 시작하며, FIFO 순서로 처리합니다.
+ * 워크스페이스마다 동시 실행 수(maxConcurrency)만큼 워커를 병렬로 관리합니다.
+ * pending 태스크를 자동으로 시작하며, 의존 관계가 풀린 태스크를 우선순위 → FIFO 순서로 처리합니다.
+ * 실패한 태스크는 태스크의 maxRetries만큼 다시 pending으로 돌려 재시도합니다.
+ * 워커마다 슬롯 번호가 붙고, 슬롯별로 대화(와 선택적으로 worktree)를 따로 씁니다.
  *
- * 워커 상태 흐름:
+ * 워크스페이스 상태 흐름:
  * ```
- * idle -> running -> idle
+ * idle -> running (워커 1..N) -> idle
  *           |
  *           v
- *        (태스크 완료/실패)
+ *        (태스크 완료/실패 시 슬롯 반환, 재시도할 태스크는 pending으로)
  * ```
  *
  * @example
@@ -26,44 +28,39 @@
  * const result = await workerManager.startWorker(
  *   'workspace-id',
  *   'C:\\workspace\\project',
- *   async (wsId, workDir, prompt) => {
- *     // Claude 프로세스 시작 로직
- *     return { process: claudeProcess, conversationId: 'conv-123' };
+ *   async (wsId, workDir, prompt, worker) => {
+ *     // Claude 프로세스 시작 로직 (worker.slot별 대화 사용)
+ *     return { process: claudeProcess, conversationId: 132097 };
  *   }
  * );
  * ```
  */
 
+import { DEFAULT_WORKER_POLICY, MAX_WORKER_CONCURRENCY, type ActiveWorker } from '@estelle/core';
 import type { TaskManager, TaskMeta, TaskStatus } from './task-manager.js';
 
 // ============================================================================
 // 타입 정의
 // ============================================================================
 
+/**
+ * 실행 중인 워커 하나
+ */
+export interface WorkerSlot extends ActiveWorker {
+  /** Claude 프로세스 참조 */
+  claudeProcess: unknown | null;
+}
+
 /**
  * 워커 상태
  *
  * @description
- * 워크스페이스별 워커의 현재 상태를 나타냅니다.
+ * 워크스페이스별 실행 중인 워커 목록입니다.
+ * 워커가 하나도 없으면 idle입니다.
  */
 export interface WorkerState {
-  /** 워커 상태 (idle: 대기, running: 실행 중) */
-  status: 'idle' | 'running';
-
-  /** 현재 실행 중인 태스크 ID */
-  currentTaskId: string | null;
-
-  /** 현재 실행 중인 태스크 제목 */
-  currentTaskTitle: string | null;
-
-  /** 워커 시작 시각 (ISO 8601 형식) */
-  startedAt: string | null;
-
-  /** Claude 프로세스 참조 */
-  claudeProcess: unknown | null;
-
-  /** 워커용 대화 ID */
-  conversationId: string | null;
+  /** 실행 중인 워커 목록 (슬롯 순) */
+  workers: WorkerSlot[];
 }
 
 /**
@@ -73,10 +70,16 @@ export interface WorkerStatus {
   /** 워크스페이스 ID */
   workspaceId: string;
 
-  /** 워커 상태 */
+  /** 워커 상태 (실행 중인 워커가 하나라도 있으면 running) */
   status: 'idle' | 'running';
 
-  /** 현재 태스크 정보 */
+  /** 동시 실행 수 상한 */
+  maxConcurrency: number;
+
+  /** 실행 중인 워커 목록 */
+  workers: ActiveWorker[];
+
+  /** 첫 번째 워커의 태스크 정보 */
   currentTask: {
     id: string;
     title: string;
@@ -130,6 +133,9 @@ export interface StopWorkerResult {
   /** 성공 여부 */
   success: boolean;
 
+  /** 중지된 워커 목록 (Claude 세션 종료는 호출자가 처리) */
+  stopped?: ActiveWorker[];
+
   /** 에러 메시지 */
   error?: string;
 }
@@ -144,17 +150,32 @@ export interface StopWorkerResult {
  * @param workspaceId - 워크스페이스 ID
  * @param workingDir - 작업 디렉토리
  * @param prompt - Claude에 전달할 프롬프트
- * @returns Claude 프로세스 정보
+ * @param worker - 시작하는 워커 (슬롯 번호, 태스크)
+ * @returns Claude 프로세스 정보 (worktree를 만들었으면 그 경로 포함)
  */
 export type StartClaudeCallback = (
   workspaceId: string,
   workingDir: string,
-  prompt: string
+  prompt: string,
+  worker: { slot: number; taskId: string; taskTitle: string; timeout: number | null }
 ) => Promise<{
   process: unknown;
-  conversationId: string;
+  conversationId: number;
+  worktreePath?: string | null;
 }>;
 
+/**
+ * WorkerManager 옵션
+ */
+export interface WorkerManagerOptions {
+  /**
+   * 워크스페이스별 동시 실행 수 조회 (기본: DEFAULT_WORKER_POLICY.maxConcurrency)
+   *
+   * 워크스페이스 설정이 바뀌면 다음 조회부터 바로 반영됩니다.
+   */
+  getMaxConcurrency?: (workspaceId: string) => number;
+}
+
 /**
  * 워커 상태 요약 (브로드캐스트용)
  */
@@ -165,7 +186,10 @@ export interface WorkerStatusSummary {
   /** 워커 상태 */
   status: 'idle' | 'running';
 
-  /** 현재 태스크 ID */
+  /** 실행 중인 워커 수 */
+  activeCount: number;
+
+  /** 현재 태스크 ID (첫 번째 워커) */
   currentTaskId: string | null;
 
   /** 현재 태스크 제목 */
@@ -185,13 +209,20 @@ export interface WorkerStatusSummary {
  * @returns 초기화된 워커 상태
  */
 function createWorkerState(): WorkerState {
+  return { workers: [] };
+}
+
+/**
+ * 응답용 워커 정보 (프로세스 참조 제외)
+ */
+function toActiveWorker(worker: WorkerSlot): ActiveWorker {
   return {
-    status: 'idle',
-    currentTaskId: null,
-    currentTaskTitle: null,
-    startedAt: null,
-    claudeProcess: null,
-    conversationId: null,
+    slot: worker.slot,
+    taskId: worker.taskId,
+    taskTitle: worker.taskTitle,
+    startedAt: worker.startedAt,
+    conversationId: worker.conversationId,
+    worktreePath: worker.worktreePath,
   };
 }
 
@@ -203,7 +234,7 @@ function createWorkerState(): WorkerState {
  * WorkerManager - 워커 프로세스 관리
  *
  * @description
- * 워크스페이스당 워커 1개를 관리합니다.
+ * 워크스페이스마다 maxConcurrency개까지 워커를 병렬로 관리합니다.
  * pending 태스크를 FIFO 순서로 자동 처리합니다.
  *
  * 설계 원칙:
@@ -232,13 +263,18 @@ export class WorkerManager {
   /** TaskManager 인스턴스 */
   private readonly taskManager: TaskManager;
 
+  /** 워크스페이스별 동시 실행 수 조회 */
+  private readonly getMaxConcurrencyOption?: (workspaceId: string) => number;
+
   /**
    * WorkerManager 생성자
    *
    * @param taskManager - TaskManager 인스턴스
+   * @param options - 동시 실행 수 조회 등
    */
-  constructor(taskManager: TaskManager) {
+  constructor(taskManager: TaskManager, options: WorkerManagerOptions = {}) {
     this.taskManager = taskManager;
+    this.getMaxConcurrencyOption = options.getMaxConcurrency;
   }
 
   // ============================================================================
@@ -262,6 +298,33 @@ export class WorkerManager {
     return this.workerStates.get(workspaceId)!;
   }
 
+  /**
+   * 동시 실행 수 조회
+   *
+   * @description
+   * 옵션으로 받은 조회 함수의 값을 1 ~ MAX_WORKER_CONCURRENCY 범위로 맞춥니다.
+   *
+   * @param workspaceId - 워크스페이스 ID
+   * @returns 동시 실행 수
+   */
+  getMaxConcurrency(workspaceId: string): number {
+    const value = this.getMaxConcurrencyOption?.(workspaceId) ?? DEFAULT_WORKER_POLICY.maxConcurrency;
+    if (!Number.isFinite(value)) return DEFAULT_WORKER_POLICY.maxConcurrency;
+    return Math.min(Math.max(Math.floor(value), 1), MAX_WORKER_CONCURRENCY);
+  }
+
+  /**
+   * 대화 ID로 워커 찾기
+   *
+   * @param workspaceId - 워크스페이스 ID
+   * @param conversationId - 워커 대화 ID
+   * @returns 해당 대화를 쓰는 워커 (없으면 null)
+   */
+  findWorkerByConversation(workspaceId: string, conversationId: number): WorkerSlot | null {
+    const state = this.workerStates.get(workspaceId);
+    return state?.workers.find((w) => w.conversationId === conversationId) ?? null;
+  }
+
   /**
    * 워커 상태 요약 조회 (API 응답용)
    *
@@ -284,7 +347,9 @@ export class WorkerManager {
 
     return {
       workspaceId,
-      status: state.status,
+      status: state.workers.length > 0 ? 'running' : 'idle',
+      maxConcurrency: this.getMaxConcurrency(workspaceId),
+      workers: state.workers.map(toActiveWorker),
       currentTask: runningTask
         ? {
             id: runningTask.id,
@@ -313,15 +378,27 @@ export class WorkerManager {
   canStartWorker(workspaceId: string, workingDir: string): CanStartWorkerResult {
     const state = this.getWorkerState(workspaceId);
 
-    // 이미 실행 중이면 불가
-    if (state.status === 'running') {
-      return { canStart: false, reason: '워커가 이미 실행 중입니다.' };
+    // 동시 실행 수를 다 채웠으면 불가
+    const maxConcurrency = this.getMaxConcurrency(workspaceId);
+    if (state.workers.length >= maxConcurrency) {
+      return {
+        canStart: false,
+        reason: maxConcurrency === 1
+          ? '워커가 이미 실행 중입니다.'
+          : `워커가 이미 ${maxConcurrency}개 실행 중입니다.`,
+      };
     }
 
     // pending 태스크 확인
     const nextTask = this.taskManager.getNextPendingTask(workingDir);
     if (!nextTask) {
-      return { canStart: false, reason: 'pending 태스크가 없습니다.' };
+      const hasPending = this.taskManager.listTasks(workingDir).tasks.some((t) => t.status === 'pending');
+      return {
+        canStart: false,
+        reason: hasPending
+          ? '의존 태스크가 끝나지 않아 시작할 수 있는 태스크가 없습니다.'
+          : 'pending 태스크가 없습니다.',
+      };
     }
 
     return { canStart: true, nextTask };
@@ -331,7 +408,9 @@ export class WorkerManager {
    * 워커 시작
    *
    * @description
-   * 다음 pending 태스크를 가져와 워커를 시작합니다.
+   * 다음 pending 태스크를 가져와 빈 슬롯에 워커를 시작합니다.
+   * 슬롯은 콜백을 기다리기 전에 잡아두므로, 동시에 여러 번 호출해도
+   * 같은 태스크나 슬롯을 중복으로 쓰지 않습니다.
    * Claude 프로세스 시작은 콜백으로 위임합니다.
    *
    * @param workspaceId - 워크스페이스 ID
@@ -363,11 +442,18 @@ export class WorkerManager {
       return { success: false, error: updateResult.error };
     }
 
-    // 워커 상태 업데이트
-    state.status = 'running';
-    state.currentTaskId = task.id;
-    state.currentTaskTitle = task.title;
-    state.startedAt = new Date().toISOString();
+    // 빈 슬롯에 워커 등록
+    const worker: WorkerSlot = {
+      slot: this.findFreeSlot(state),
+      taskId: task.id,
+      taskTitle: task.title,
+      startedAt: new Date().toISOString(),
+      conversationId: null,
+      worktreePath: null,
+      claudeProcess: null,
+    };
+    state.workers.push(worker);
+    state.workers.sort((a, b) => a.slot - b.slot);
 
     // 태스크 파일 경로
     const taskFilePath = this.taskManager.getTaskFilePath(workingDir, task.id);
@@ -378,18 +464,21 @@ export class WorkerManager {
 
     try {
       // Claude 프로세스 시작 (콜백으로 위임)
-      const claudeResult = await startClaudeCallback(workspaceId, workingDir, prompt);
-      state.claudeProcess = claudeResult.process;
-      state.conversationId = claudeResult.conversationId;
+      const claudeResult = await startClaudeCallback(workspaceId, workingDir, prompt, {
+        slot: worker.slot,
+        taskId: task.id,
+        taskTitle: task.title,
+        timeout: task.timeout,
+      });
+      worker.claudeProcess = claudeResult.process;
+      worker.conversationId = claudeResult.conversationId;
+      worker.worktreePath = claudeResult.worktreePath ?? null;
 
-      console.log(`[WorkerManager] Started worker for task: ${task.title}`);
+      console.log(`[WorkerManager] Started worker #${worker.slot} for task: ${task.title}`);
       return { success: true, taskId: task.id, taskTitle: task.title };
     } catch (err) {
-      // 시작 실패 시 롤백
-      state.status = 'idle';
-      state.currentTaskId = null;
-      state.currentTaskTitle = null;
-      state.startedAt = null;
+      // 시작 실패 시 롤백 (슬롯 반환)
+      this.removeWorker(state, task.id);
 
       // 태스크를 failed 상태로 변경
       this.taskManager.updateTaskStatus(
@@ -409,46 +498,52 @@ export class WorkerManager {
    *
    * @description
    * 워커가 완료(또는 실패)되었을 때 호출합니다.
-   * 태스크 상태를 업데이트하고 워커 상태를 초기화합니다.
+   * 태스크 상태를 업데이트하고 워커의 슬롯을 반환합니다.
+   * 실패했고 재시도 횟수(retryCount < maxRetries)가 남았으면
+   * failed 대신 pending으로 되돌려 다음 빈 슬롯에서 다시 실행되게 합니다.
    *
    * @param workspaceId - 워크스페이스 ID
    * @param workingDir - 작업 디렉토리
    * @param status - 완료 상태 (done 또는 failed)
    * @param error - 에러 메시지 (실패 시)
+   * @param taskId - 완료된 워커의 태스크 ID (생략 시 첫 번째 워커)
+   * @returns 재시도 대기로 되돌렸으면 true
    */
   completeWorker(
     workspaceId: string,
     workingDir: string,
     status: 'done' | 'failed',
-    error: string | null = null
-  ): void {
+    error: string | null = null,
+    taskId?: string
+  ): boolean {
     const state = this.getWorkerState(workspaceId);
+    const worker = taskId !== undefined
+      ? state.workers.find((w) => w.taskId === taskId)
+      : state.workers[0];
+    if (!worker) return false;
+
+    let retried = false;
+    const task = status === 'failed' ? this.taskManager.getTask(workingDir, worker.taskId).task : undefined;
+    if (task && task.retryCount < task.maxRetries) {
+      retried = this.taskManager.retryTask(workingDir, worker.taskId, error).success;
+    }
 
-    // 현재 태스크가 있으면 상태 업데이트
-    if (state.currentTaskId) {
-      this.taskManager.updateTaskStatus(
-        workingDir,
-        state.currentTaskId,
-        status,
-        error
-      );
-      console.log(`[WorkerManager] Task ${status}: ${state.currentTaskTitle}`);
+    if (retried) {
+      console.log(`[WorkerManager] Task failed, will retry: ${worker.taskTitle}`);
+    } else {
+      this.taskManager.updateTaskStatus(workingDir, worker.taskId, status, error);
+      console.log(`[WorkerManager] Task ${status}: ${worker.taskTitle}`);
     }
 
-    // 워커 상태 초기화
-    state.status = 'idle';
-    state.currentTaskId = null;
-    state.currentTaskTitle = null;
-    state.startedAt = null;
-    state.claudeProcess = null;
-    state.conversationId = null;
+    this.removeWorker(state, worker.taskId);
+    return retried;
   }
 
   /**
    * 다음 태스크 자동 시작 체크
    *
    * @description
-   * pending 태스크가 있고 워커가 idle이면 자동으로 시작합니다.
+   * pending 태스크가 있고 빈 슬롯이 있으면 워커 하나를 자동으로 시작합니다.
    *
    * @param workspaceId - 워크스페이스 ID
    * @param workingDir - 작업 디렉토리
@@ -484,34 +579,29 @@ export class WorkerManager {
    *
    * @param workspaceId - 워크스페이스 ID
    * @param workingDir - 작업 디렉토리
-   * @returns 중지 결과
+   * @param taskId - 중지할 워커의 태스크 ID (생략 시 모든 워커)
+   * @returns 중지 결과 (중지된 워커 목록 포함)
    */
-  stopWorker(workspaceId: string, workingDir: string): StopWorkerResult {
+  stopWorker(workspaceId: string, workingDir: string, taskId?: string): StopWorkerResult {
     const state = this.getWorkerState(workspaceId);
+    const targets = taskId !== undefined
+      ? state.workers.filter((w) => w.taskId === taskId)
+      : [...state.workers];
 
     // 실행 중인 워커가 없으면 에러
-    if (state.status !== 'running') {
+    if (targets.length === 0) {
       return { success: false, error: '실행 중인 워커가 없습니다.' };
     }
 
-    // 태스크를 pending으로 되돌리기 (재시도 가능하도록)
-    if (state.currentTaskId) {
-      this.taskManager.updateTaskStatus(
-        workingDir,
-        state.currentTaskId,
-        'pending'
-      );
+    for (const worker of targets) {
+      // 태스크를 pending으로 되돌리기 (재시도 가능하도록)
+      this.taskManager.updateTaskStatus(workingDir, worker.taskId, 'pending');
+      this.removeWorker(state, worker.taskId);
+      // claudeProcess 종료는 호출자가 처리
     }
 
-    // 워커 상태 초기화
-    state.status = 'idle';
-    state.currentTaskId = null;
-    state.currentTaskTitle = null;
-    state.startedAt = null;
-    // claudeProcess 종료는 호출자가 처리
-
-    console.log(`[WorkerManager] Stopped worker for workspace: ${workspaceId}`);
-    return { success: true };
+    console.log(`[WorkerManager] Stopped ${targets.length} worker(s) for workspace: ${workspaceId}`);
+    return { success: true, stopped: targets.map(toActiveWorker) };
   }
 
   // ============================================================================
@@ -527,15 +617,34 @@ export class WorkerManager {
     const statuses: WorkerStatusSummary[] = [];
 
     for (const [workspaceId, state] of this.workerStates) {
+      const first = state.workers[0];
       statuses.push({
         workspaceId,
-        status: state.status,
-        currentTaskId: state.currentTaskId,
-        currentTaskTitle: state.currentTaskTitle,
-        startedAt: state.startedAt,
+        status: first ? 'running' : 'idle',
+        activeCount: state.workers.length,
+        currentTaskId: first?.taskId ?? null,
+        currentTaskTitle: first?.taskTitle ?? null,
+        startedAt: first?.startedAt ?? null,
       });
     }
 
     return statuses;
   }
+
+  /**
+   * 비어 있는 가장 작은 슬롯 번호
+   */
+  private findFreeSlot(state: WorkerState): number {
+    const used = new Set(state.workers.map((w) => w.slot));
+    let slot = 1;
+    while (used.has(slot)) slot++;
+    return slot;
+  }
+
+  /**
+   * 워커 제거 (슬롯 반환)
+   */
+  private removeWorker(state: WorkerState, taskId: string): void {
+    state.workers = state.workers.filter((w) => w.taskId !== taskId);
+  }
 }
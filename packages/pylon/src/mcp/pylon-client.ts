@@ -15,7 +15,7 @@
  */
 
 import net from 'net';
-import type { AgentType, LinkedDocument } from '@estelle/core';
+import type { AgentType, LinkedDocument, Schedule, WidgetCatalogEntry } from '@estelle/core';
 
 // ============================================================================
 // 상수
@@ -142,9 +142,13 @@ export interface ContinueTaskResult {
 
 /** RunWidget 옵션 타입 */
 export interface RunWidgetOptions {
-  command: string;
-  cwd: string;
+  command?: string;
+  cwd?: string;
   args?: string[];
+  /** 카탈로그 위젯 이름 (command/cwd 대신) */
+  widget?: string;
+  /** 카탈로그 위젯 입력 */
+  input?: Record<string, unknown>;
   toolUseId: string;
 }
 
@@ -155,6 +159,13 @@ export interface RunWidgetResult {
   error?: string;
 }
 
+/** 위젯 카탈로그 결과 타입 */
+export interface WidgetListResult {
+  success: boolean;
+  widgets?: WidgetCatalogEntry[];
+  error?: string;
+}
+
 /** RunWidgetInline 옵션 타입 */
 export interface RunWidgetInlineOptions {
   html: string;
@@ -170,9 +181,29 @@ export interface RunWidgetInlineResult {
   error?: string;
 }
 
+/** 예약 생성/수정 인자 타입 */
+export interface ScheduleArgs {
+  name?: string;
+  cron?: string;
+  prompt?: string;
+  commandId?: number;
+  conversationMode?: 'reuse' | 'new';
+  conversationName?: string;
+  enabled?: boolean;
+}
+
+/** 예약 결과 타입 (생성/수정/목록/삭제) */
+export interface ScheduleResult {
+  success: boolean;
+  schedule?: Schedule;
+  schedules?: Schedule[];
+  deleted?: number;
+  error?: string;
+}
+
 /** 요청 타입 */
 interface PylonRequest {
-  action: 'link' | 'unlink' | 'list' | 'send_file' | 'get_status' | 'notify_command_changed' | 'lookup_and_link' | 'lookup_and_unlink' | 'lookup_and_list' | 'lookup_and_send_file' | 'lookup_and_get_status' | 'lookup_and_create_conversation' | 'lookup_and_delete_conversation' | 'lookup_and_rename_conversation' | 'lookup_and_set_system_prompt' | 'lookup_and_continue_task' | 'lookup_and_run_widget' | 'lookup_and_run_widget_inline';
+  action: 'link' | 'unlink' | 'list' | 'send_file' | 'get_status' | 'notify_command_changed' | 'lookup_and_link' | 'lookup_and_unlink' | 'lookup_and_list' | 'lookup_and_send_file' | 'lookup_and_get_status' | 'lookup_and_create_conversation' | 'lookup_and_delete_conversation' | 'lookup_and_rename_conversation' | 'lookup_and_set_system_prompt' | 'lookup_and_continue_task' | 'lookup_and_run_widget' | 'lookup_and_run_widget_inline' | 'lookup_and_list_widgets' | 'lookup_and_create_schedule' | 'lookup_and_list_schedules' | 'lookup_and_update_schedule' | 'lookup_and_delete_schedule';
   conversationId?: number;
   toolUseId?: string;
   path?: string;
@@ -186,6 +217,8 @@ interface PylonRequest {
   command?: string;
   cwd?: string;
   args?: string[];
+  widget?: string;
+  input?: Record<string, unknown>;
   html?: string;
   code?: string;
   height?: number;
@@ -193,6 +226,13 @@ interface PylonRequest {
   delta?: CommandChangedDelta;
   initialMessage?: string;
   autoSelect?: boolean;
+  scheduleId?: number;
+  cron?: string;
+  prompt?: string;
+  commandId?: number;
+  conversationMode?: 'reuse' | 'new';
+  conversationName?: string;
+  enabled?: boolean;
 }
 
 // ============================================================================
@@ -454,34 +494,119 @@ export class PylonClient {
   }
 
   /**
-   * Widget 세션 실행
-   * 인터랙티브 위젯 세션을 시작하고 완료될 때까지 대기합니다.
-   *
-   * @param options - Widget 실행 옵션
-   * @returns Widget 실행 결과
+   * toolUseId 기반 예약 생성
+   * 현재 대화의 워크스페이스에 예약을 만듭니다.
    */
-  async runWidget(options: RunWidgetOptions): Promise<RunWidgetResult> {
-    if (!options.toolUseId || options.toolUseId === '') {
+  async createScheduleByToolUseId(
+    toolUseId: string,
+    args: ScheduleArgs,
+  ): Promise<ScheduleResult> {
+    if (!toolUseId || toolUseId === '') {
+      return {
+        success: false,
+        error: 'toolUseId is required',
+      };
+    }
+
+    return this._sendRequest<ScheduleResult>({
+      action: 'lookup_and_create_schedule',
+      toolUseId,
+      ...args,
+    });
+  }
+
+  /**
+   * toolUseId 기반 예약 목록 (현재 워크스페이스)
+   */
+  async listSchedulesByToolUseId(toolUseId: string): Promise<ScheduleResult> {
+    if (!toolUseId || toolUseId === '') {
+      return {
+        success: false,
+        error: 'toolUseId is required',
+      };
+    }
+
+    return this._sendRequest<ScheduleResult>({
+      action: 'lookup_and_list_schedules',
+      toolUseId,
+    });
+  }
+
+  /**
+   * toolUseId 기반 예약 수정 (지정한 필드만 변경)
+   */
+  async updateScheduleByToolUseId(
+    toolUseId: string,
+    scheduleId: number,
+    args: ScheduleArgs,
+  ): Promise<ScheduleResult> {
+    if (!toolUseId || toolUseId === '') {
       return {
         success: false,
         error: 'toolUseId is required',
       };
     }
 
-    if (!options.command || options.command === '') {
+    return this._sendRequest<ScheduleResult>({
+      action: 'lookup_and_update_schedule',
+      toolUseId,
+      scheduleId,
+      ...args,
+    });
+  }
+
+  /**
+   * toolUseId 기반 예약 삭제
+   */
+  async deleteScheduleByToolUseId(
+    toolUseId: string,
+    scheduleId: number,
+  ): Promise<ScheduleResult> {
+    if (!toolUseId || toolUseId === '') {
       return {
         success: false,
-        error: 'command is required',
+        error: 'toolUseId is required',
       };
     }
 
-    if (!options.cwd || options.cwd === '') {
+    return this._sendRequest<ScheduleResult>({
+      action: 'lookup_and_delete_schedule',
+      toolUseId,
+      scheduleId,
+    });
+  }
+
+  /**
+   * Widget 세션 실행
+   * 인터랙티브 위젯 세션을 시작하고 완료될 때까지 대기합니다.
+   *
+   * @param options - Widget 실행 옵션
+   * @returns Widget 실행 결과
+   */
+  async runWidget(options: RunWidgetOptions): Promise<RunWidgetResult> {
+    if (!options.toolUseId || options.toolUseId === '') {
       return {
         success: false,
-        error: 'cwd is required',
+        error: 'toolUseId is required',
       };
     }
 
+    if (!options.widget) {
+      if (!options.command || options.command === '') {
+        return {
+          success: false,
+          error: 'command is required',
+        };
+      }
+
+      if (!options.cwd || options.cwd === '') {
+        return {
+          success: false,
+          error: 'cwd is required',
+        };
+      }
+    }
+
     // Widget은 유저가 종료하거나 CLI가 complete을 보낼 때까지 대기 (타임아웃 없음)
     return this._sendRequest<RunWidgetResult>({
       action: 'lookup_and_run_widget',
@@ -489,9 +614,31 @@ export class PylonClient {
       command: options.command,
       cwd: options.cwd,
       args: options.args,
+      widget: options.widget,
+      input: options.input,
     }, { noTimeout: true });
   }
 
+  /**
+   * 위젯 카탈로그 조회
+   *
+   * @param toolUseId - 도구 사용 ID
+   * @returns 실행할 수 있는 위젯 패키지 목록
+   */
+  async listWidgets(toolUseId: string): Promise<WidgetListResult> {
+    if (!toolUseId || toolUseId === '') {
+      return {
+        success: false,
+        error: 'toolUseId is required',
+      };
+    }
+
+    return this._sendRequest<WidgetListResult>({
+      action: 'lookup_and_list_widgets',
+      toolUseId,
+    });
+  }
+
   /**
    * Inline Widget 세션 실행
    * CLI 프로세스 없이 인라인 위젯을 렌더링하고 완료될 때까지 대기합니다.
@@ -49,6 +49,8 @@ import {
 import {
   executeRunWidget,
   getRunWidgetToolDefinition,
+  executeListWidgets,
+  getListWidgetsToolDefinition,
 } from './tools/run-widget.js';
 import {
   executeRunWidgetInline,
@@ -70,6 +72,16 @@ import {
   getAssignCommandToolDefinition,
   getUnassignCommandToolDefinition,
 } from './tools/command.js';
+import {
+  executeCreateSchedule,
+  executeListSchedules,
+  executeUpdateSchedule,
+  executeDeleteSchedule,
+  getCreateScheduleToolDefinition,
+  getListSchedulesToolDefinition,
+  getUpdateScheduleToolDefinition,
+  getDeleteScheduleToolDefinition,
+} from './tools/schedule.js';
 
 const WORKING_DIR = process.env.ESTELLE_WORKING_DIR || process.cwd();
 
@@ -135,6 +147,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     getAddPromptToolDefinition(),
     getContinueTaskToolDefinition(),
     getRunWidgetToolDefinition(),
+    getListWidgetsToolDefinition(),
     getRunWidgetInlineToolDefinition(),
     getCreateCommandToolDefinition(),
     getUpdateCommandToolDefinition(),
@@ -143,6 +156,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     getGetCommandToolDefinition(),
     getAssignCommandToolDefinition(),
     getUnassignCommandToolDefinition(),
+    getCreateScheduleToolDefinition(),
+    getListSchedulesToolDefinition(),
+    getUpdateScheduleToolDefinition(),
+    getDeleteScheduleToolDefinition(),
   ],
 }));
 
@@ -198,11 +215,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
     case 'run_widget': {
       const result = await executeRunWidget(
-        args as { command?: string; cwd?: string; args?: string[] },
+        args as { command?: string; cwd?: string; args?: string[]; widget?: string; input?: Record<string, unknown> },
         { toolUseId }
       );
       return result as unknown as Record<string, unknown>;
     }
+    case 'list_widgets': {
+      const result = await executeListWidgets({ toolUseId });
+      return result as unknown as Record<string, unknown>;
+    }
     case 'run_widget_inline': {
       const result = await executeRunWidgetInline(
         args as { html: string; code?: string; height?: number },
@@ -252,6 +273,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       );
       return result as unknown as Record<string, unknown>;
     }
+    case 'create_schedule': {
+      const result = await executeCreateSchedule(args as { name?: string; cron?: string; prompt?: string; commandId?: number }, { toolUseId });
+      return result as unknown as Record<string, unknown>;
+    }
+    case 'list_schedules': {
+      const result = await executeListSchedules({ toolUseId });
+      return result as unknown as Record<string, unknown>;
+    }
+    case 'update_schedule': {
+      const result = await executeUpdateSchedule(args as { scheduleId?: number }, { toolUseId });
+      return result as unknown as Record<string, unknown>;
+    }
+    case 'delete_schedule': {
+      const result = await executeDeleteSchedule(args as { scheduleId?: number }, { toolUseId });
+      return result as unknown as Record<string, unknown>;
+    }
     default:
       return {
         content: [{ type: 'text' as const, text: `Unknown tool: ${name}` }],
@@ -225,8 +225,7 @@ export function getCreateConversationToolDefinition(): ToolDefinition {
         },
         agent: {
           type: 'string',
-          enum: ['claude', 'codex'],
-          description: '사용할 에이전트 (선택, 기본값: "claude")',
+          description: '사용할 에이전트 이름 (선택, 예: "claude", "codex" 또는 Pylon에 등록한 에이전트, 기본값: 워크스페이스 기본 에이전트)',
         },
         initialMessage: {
           type: 'string',
@@ -3,6 +3,8 @@
  * @description run_widget MCP 도구 구현
  *
  * 인터랙티브 Widget 세션을 시작하고 완료까지 대기합니다.
+ * 명령어(command/cwd) 또는 카탈로그 위젯 이름(widget/input)으로 실행합니다.
+ * list_widgets로 카탈로그를 조회합니다.
  */
 
 import { PylonClient } from '../pylon-client.js';
@@ -15,6 +17,8 @@ interface RunWidgetArgs {
   command?: string;
   cwd?: string;
   args?: string[];
+  widget?: string;
+  input?: Record<string, unknown>;
 }
 
 interface ToolMeta {
@@ -38,7 +42,7 @@ interface McpResponse {
 export function getRunWidgetToolDefinition() {
   return {
     name: 'run_widget',
-    description: '인터랙티브 위젯 세션을 시작합니다. 유저와의 상호작용이 완료될 때까지 대기합니다.',
+    description: '인터랙티브 위젯 세션을 시작합니다. 유저와의 상호작용이 완료될 때까지 대기합니다. 카탈로그 위젯은 command/cwd 대신 widget과 input으로 실행합니다 (list_widgets 참고).',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -55,8 +59,26 @@ export function getRunWidgetToolDefinition() {
           items: { type: 'string' },
           description: 'CLI 인자 (선택)',
         },
+        widget: {
+          type: 'string',
+          description: '카탈로그 위젯 이름 (command/cwd 대신 사용)',
+        },
+        input: {
+          type: 'object',
+          description: '카탈로그 위젯 입력 (위젯의 inputSchema를 따름)',
+        },
       },
-      required: ['command', 'cwd'],
+    },
+  };
+}
+
+export function getListWidgetsToolDefinition() {
+  return {
+    name: 'list_widgets',
+    description: '실행할 수 있는 위젯 카탈로그를 조회합니다. 각 위젯의 입력 스키마와 누락된 환경변수를 포함합니다.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
     },
   };
 }
@@ -94,12 +116,14 @@ export async function executeRunWidget(
   args: RunWidgetArgs,
   meta: ToolMeta,
 ): Promise<McpResponse> {
-  if (!args.command) {
-    return createErrorResponse('command is required');
-  }
+  if (!args.widget) {
+    if (!args.command) {
+      return createErrorResponse('command is required');
+    }
 
-  if (!args.cwd) {
-    return createErrorResponse('cwd is required');
+    if (!args.cwd) {
+      return createErrorResponse('cwd is required');
+    }
   }
 
   try {
@@ -108,6 +132,8 @@ export async function executeRunWidget(
       command: args.command,
       cwd: args.cwd,
       args: args.args,
+      widget: args.widget,
+      input: args.input,
       toolUseId: meta.toolUseId,
     });
 
@@ -124,3 +150,22 @@ export async function executeRunWidget(
     return createErrorResponse(`Widget session failed: ${message}`);
   }
 }
+
+export async function executeListWidgets(meta: ToolMeta): Promise<McpResponse> {
+  try {
+    const pylonClient = createPylonClient();
+    const result = await pylonClient.listWidgets(meta.toolUseId);
+
+    if (!result.success) {
+      return createErrorResponse(result.error ?? 'Failed to list widgets');
+    }
+
+    return createSuccessResponse({
+      success: true,
+      widgets: result.widgets ?? [],
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return createErrorResponse(`Failed to list widgets: ${message}`);
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * @file schedule.ts
+ * @description 예약 실행 MCP 도구 구현
+ *
+ * Claude가 워크스페이스 예약(정해진 시각에 프롬프트 실행)을 관리할 때 사용하는 MCP 도구.
+ * - create_schedule: 현재 워크스페이스에 예약 생성 (기본: 현재 대화에 이어서 실행)
+ * - list_schedules: 현재 워크스페이스의 예약 목록
+ * - update_schedule: 예약 수정 (지정한 필드만)
+ * - delete_schedule: 예약 삭제
+ *
+ * - 환경변수 ESTELLE_MCP_PORT로 PylonMcpServer에 직접 연결
+ * - toolUseId 기반 lookup_and_* 액션으로 conversationId 자동 해결
+ * - MCP 표준 응답 포맷 반환
+ */
+
+import { PylonClient, type ScheduleArgs } from '../pylon-client.js';
+
+// ============================================================================
+// 타입
+// ============================================================================
+
+interface ToolMeta {
+  toolUseId: string;
+}
+
+interface McpTextContent {
+  type: 'text';
+  text: string;
+}
+
+interface ToolResult {
+  content: McpTextContent[];
+  isError?: boolean;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+/**
+ * MCP 성공 응답 생성
+ */
+function createSuccessResponse(data: Record<string, unknown>): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data) }],
+  };
+}
+
+/**
+ * MCP 에러 응답 생성
+ */
+function createErrorResponse(message: string): ToolResult {
+  return {
+    content: [{ type: 'text', text: message }],
+    isError: true,
+  };
+}
+
+/**
+ * PylonClient 인스턴스 생성 (환경변수 기반)
+ */
+function createPylonClient(): PylonClient {
+  const mcpPort = parseInt(process.env.ESTELLE_MCP_PORT || '9880', 10);
+  return new PylonClient({
+    host: '127.0.0.1',
+    port: mcpPort,
+  });
+}
+
+// ============================================================================
+// executeCreateSchedule
+// ============================================================================
+
+/**
+ * create_schedule MCP 도구 실행
+ *
+ * @param args - 도구 인자 (name, cron, prompt/commandId, conversationMode, conversationName, enabled)
+ * @param meta - 도구 메타 정보 (toolUseId)
+ * @returns MCP 표준 응답
+ */
+export async function executeCreateSchedule(
+  args: ScheduleArgs,
+  meta: ToolMeta,
+): Promise<ToolResult> {
+  if (!args.name || args.name.trim() === '') {
+    return createErrorResponse('예약 이름을 입력해주세요 (name 필수)');
+  }
+  if (!args.cron || args.cron.trim() === '') {
+    return createErrorResponse('실행 일정을 입력해주세요 (cron 필수)');
+  }
+  if (args.commandId === undefined && (!args.prompt || args.prompt.trim() === '')) {
+    return createErrorResponse('실행할 내용을 입력해주세요 (prompt 또는 commandId 필수)');
+  }
+
+  try {
+    const pylonClient = createPylonClient();
+    const result = await pylonClient.createScheduleByToolUseId(meta.toolUseId, args);
+
+    if (!result.success) {
+      return createErrorResponse(result.error ?? '예약 생성에 실패했습니다');
+    }
+
+    return createSuccessResponse({
+      success: true,
+      schedule: result.schedule,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return createErrorResponse(`예약 생성 실패: ${message}`);
+  }
+}
+
+// ============================================================================
+// executeListSchedules
+// ============================================================================
+
+/**
+ * list_schedules MCP 도구 실행
+ *
+ * @param meta - 도구 메타 정보 (toolUseId)
+ * @returns MCP 표준 응답
+ */
+export async function executeListSchedules(meta: ToolMeta): Promise<ToolResult> {
+  try {
+    const pylonClient = createPylonClient();
+    const result = await pylonClient.listSchedulesByToolUseId(meta.toolUseId);
+
+    if (!result.success) {
+      return createErrorResponse(result.error ?? '예약 목록 조회에 실패했습니다');
+    }
+
+    return createSuccessResponse({
+      success: true,
+      schedules: result.schedules ?? [],
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return createErrorResponse(`예약 목록 조회 실패: ${message}`);
+  }
+}
+
+// ============================================================================
+// executeUpdateSchedule
+// ============================================================================
+
+/**
+ * update_schedule MCP 도구 실행
+ *
+ * @param args - 도구 인자 (scheduleId + 변경할 필드)
+ * @param meta - 도구 메타 정보 (toolUseId)
+ * @returns MCP 표준 응답
+ */
+export async function executeUpdateSchedule(
+  args: ScheduleArgs & { scheduleId?: number },
+  meta: ToolMeta,
+): Promise<ToolResult> {
+  if (args.scheduleId === undefined) {
+    return createErrorResponse('scheduleId is required');
+  }
+
+  try {
+    const { scheduleId, ...fields } = args;
+    const pylonClient = createPylonClient();
+    const result = await pylonClient.updateScheduleByToolUseId(meta.toolUseId, scheduleId, fields);
+
+    if (!result.success) {
+      return createErrorResponse(result.error ?? '예약 수정에 실패했습니다');
+    }
+
+    return createSuccessResponse({
+      success: true,
+      schedule: result.schedule,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return createErrorResponse(`예약 수정 실패: ${message}`);
+  }
+}
+
+// ============================================================================
+// executeDeleteSchedule
+// ============================================================================
+
+/**
+ * delete_schedule MCP 도구 실행
+ *
+ * @param args - 도구 인자 (scheduleId)
+ * @param meta - 도구 메타 정보 (toolUseId)
+ * @returns MCP 표준 응답
+ */
+export async function executeDeleteSchedule(
+  args: { scheduleId?: number },
+  meta: ToolMeta,
+): Promise<ToolResult> {
+  if (args.scheduleId === undefined) {
+    return createErrorResponse('scheduleId is required');
+  }
+
+  try {
+    const pylonClient = createPylonClient();
+    const result = await pylonClient.deleteScheduleByToolUseId(meta.toolUseId, args.scheduleId);
+
+    if (!result.success) {
+      return createErrorResponse(result.error ?? '예약 삭제에 실패했습니다');
+    }
+
+    return createSuccessResponse({
+      success: true,
+      deleted: result.deleted,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return createErrorResponse(`예약 삭제 실패: ${message}`);
+  }
+}
+
+// ============================================================================
+// 도구 정의
+// ============================================================================
+
+/** 예약 공통 필드 스키마 */
+const SCHEDULE_FIELD_PROPERTIES = {
+  name: {
+    type: 'string',
+    description: '예약 이름',
+  },
+  cron: {
+    type: 'string',
+    description: 'cron 표현식 (분 시 일 월 요일, Pylon 로컬 시간). 예: "0 9 * * 1-5" (평일 9시), "@daily"',
+  },
+  prompt: {
+    type: 'string',
+    description: '실행할 프롬프트 (prompt 또는 commandId 중 하나)',
+  },
+  commandId: {
+    type: 'number',
+    description: '실행할 커맨드 ID (실행 시점의 커맨드 내용을 사용)',
+  },
+  conversationMode: {
+    type: 'string',
+    enum: ['reuse', 'new'],
+    description: 'reuse: 같은 이름의 대화에 이어서 실행, new: 매번 새 대화 생성 (기본값: "reuse")',
+  },
+  conversationName: {
+    type: 'string',
+    description: '실행할 대화 이름 (선택, reuse일 때 기본값: 현재 대화)',
+  },
+  enabled: {
+    type: 'boolean',
+    description: '사용 여부 (선택, 기본값: true)',
+  },
+};
+
+/**
+ * create_schedule 도구 정의 반환
+ */
+export function getCreateScheduleToolDefinition(): ToolDefinition {
+  return {
+    name: 'create_schedule',
+    description: '현재 워크스페이스에 예약을 만듭니다. 정해진 시각에 프롬프트나 커맨드를 대화로 보내 실행합니다. 나중에 이어서 확인할 작업을 예약할 때 사용하세요.',
+    inputSchema: {
+      type: 'object',
+      properties: SCHEDULE_FIELD_PROPERTIES,
+      required: ['name', 'cron'],
+    },
+  };
+}
+
+/**
+ * list_schedules 도구 정의 반환
+ */
+export function getListSchedulesToolDefinition(): ToolDefinition {
+  return {
+    name: 'list_schedules',
+    description: '현재 워크스페이스의 예약 목록을 조회합니다. 다음 실행 시각과 마지막 실행 결과를 포함합니다.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  };
+}
+
+/**
+ * update_schedule 도구 정의 반환
+ */
+export function getUpdateScheduleToolDefinition(): ToolDefinition {
+  return {
+    name: 'update_schedule',
+    description: '현재 워크스페이스의 예약을 수정합니다. 지정한 필드만 변경됩니다.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        scheduleId: {
+          type: 'number',
+          description: '수정할 예약 ID',
+        },
+        ...SCHEDULE_FIELD_PROPERTIES,
+      },
+      required: ['scheduleId'],
+    },
+  };
+}
+
+/**
+ * delete_schedule 도구 정의 반환
+ */
+export function getDeleteScheduleToolDefinition(): ToolDefinition {
+  return {
+    name: 'delete_schedule',
+    description: '현재 워크스페이스의 예약을 삭제합니다.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        scheduleId: {
+          type: 'number',
+          description: '삭제할 예약 ID',
+        },
+      },
+      required: ['scheduleId'],
+    },
+  };
+}
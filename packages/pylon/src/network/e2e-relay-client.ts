@@ -0,0 +1,792 @@
+/**
+ * E2eRelayClient - Relay 연결에 종단간 암호화(E2E)를 씌우는 래퍼
+ *
+ * RelayClient와 같은 인터페이스로 Pylon에 주입되어, Pylon은 평문 메시지만 다룹니다.
+ *
+ * 기능:
+ * - 페어링: 일회용 코드의 HMAC으로 Client 고정 공개키를 확인하고 E2eKeyStore에 저장
+ * - 세션: 페어링된 Client의 E2E_HELLO마다 세션 키를 만들고 키 ID(kid)를 발급
+ * - 송신: 세션이 있는 Client에게는 payload를 세션 키로 암호화해 보내고,
+ *   Client broadcast는 Client별 암호문 + (optional 모드) 평문을 보내온 적 있는 미페어링 Client에게만 평문으로 보냅니다
+ *   (세션이 하나도 없으면 평문 broadcast 그대로)
+ * - 수신: kid로 키를 찾아 복호화하고, 세션이 있는 Client의 평문은 버립니다 (다운그레이드 방지)
+ * - 공유 뷰어: 공유 키(kid `share:<shareId>`)로 주고받습니다
+ *
+ * Relay가 보내는 메시지(from 없음)와 다른 Pylon의 메시지는 그대로 통과합니다.
+ *
+ * 예외: Relay가 직접 처리하는 메시지(to/broadcast 없음)는 Relay가 읽어야 하므로 암호화하지 않습니다.
+ * - pylon_sessions: 활성 대화 목록(이름, 상태) - 메타데이터는 Relay에 노출됩니다
+ * - push_notify: 제목/본문을 일반 문구로 바꿔 대화 내용을 보내지 않습니다 (모드와 무관)
+ * 암호화는 비동기이므로 송신/수신 모두 큐로 순서를 지킵니다.
+ *
+ * @module network/e2e-relay-client
+ */
+
+import {
+  DEFAULT_E2E_MODE,
+  E2E_PAIRING_CODE_TTL_MS,
+  E2E_PLAINTEXT_TYPES,
+  MessageType,
+  decodeDeviceId,
+  decryptE2ePayload,
+  deriveE2eSessionKey,
+  e2eFingerprint,
+  e2ePairingMac,
+  encryptE2ePayload,
+  exportE2ePublicKey,
+  createE2eIdentity,
+  formatPairingCode,
+  generateE2eKeyPair,
+  generatePairingSecret,
+  importE2ePublicKey,
+  importE2eSymmetricKey,
+  isE2eEncryptedPayload,
+  isPylonId,
+  loadE2eIdentity,
+  randomBase64Url,
+  shareKeyId,
+  verifyE2ePairingMac,
+  type E2eErrorReason,
+  type E2eHelloPayload,
+  type E2eKey,
+  type E2eKeyPair,
+  type E2eMode,
+  type E2ePairRequestPayload,
+  type NumericDeviceId,
+} from '@estelle/core';
+import type { E2eKeyStore } from '../stores/e2e-key-store.js';
+import type { Logger } from '../utils/logger.js';
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 페어링 코드 하나로 허용하는 MAC 실패 횟수 (넘으면 코드 폐기) */
+const MAX_PAIRING_FAILURES = 5;
+
+/** 세션 nonce 길이 (바이트) */
+const NONCE_LENGTH = 16;
+
+/** 세션 키 ID 길이 (바이트) */
+const KID_LENGTH = 9;
+
+/** 공유 키 ID 접두어 */
+const SHARE_KID_PREFIX = shareKeyId('');
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 감쌀 Relay 연결 (RelayClient)
+ */
+export interface E2eRelayTransport {
+  connect(): void;
+  disconnect(): void;
+  send(message: unknown): void;
+  isConnected(): boolean;
+  onMessage(callback: (data: unknown) => void): void;
+  onStatusChange(callback: (isConnected: boolean) => void): void;
+}
+
+/**
+ * E2eRelayClient 생성 옵션
+ */
+export interface E2eRelayClientOptions {
+  /** 감쌀 Relay 연결 */
+  relay: E2eRelayTransport;
+  /** Pylon deviceId (인코딩된 값, 페어링 코드에 포함) */
+  deviceId: number;
+  /** 고정 키/페어링 저장소 */
+  keyStore: E2eKeyStore;
+  /** E2E 모드 (기본: optional) */
+  mode?: E2eMode;
+  /** 공유 키 조회 (없으면 뷰어 암호화 미지원) */
+  getShareKey?: (shareId: string) => string | null;
+  /** 키 스토어 변경 시 호출 (영속화) */
+  onKeysChange?: () => void;
+  /** 로거 (선택) */
+  logger?: Pick<Logger, 'log' | 'warn'>;
+  /** 현재 시각 (테스트용) */
+  now?: () => number;
+}
+
+/**
+ * 발급한 페어링 코드
+ */
+export interface E2ePairingCodeInfo {
+  code: string;
+  expiresAt: number;
+}
+
+/**
+ * 라우팅 가능한 메시지 형태
+ */
+interface RoutedMessage {
+  type: string;
+  payload?: unknown;
+  to?: number[];
+  broadcast?: string;
+  from?: { deviceId: number; deviceType?: string };
+  [key: string]: unknown;
+}
+
+/**
+ * Client 세션
+ */
+interface E2eSession {
+  deviceId: number;
+  publicKey: string;
+  key: E2eKey;
+}
+
+/**
+ * 보낼 메시지 하나 (key가 있으면 암호화)
+ */
+interface OutgoingPart {
+  message: RoutedMessage;
+  key?: E2eKey;
+  kid?: string;
+}
+
+// ============================================================================
+// 헬퍼
+// ============================================================================
+
+/**
+ * Relay로 가는 평문 메시지에서 대화 내용 제거
+ *
+ * push_notify의 제목/본문은 대화 이름과 응답 내용을 담으므로 일반 문구로 바꿉니다.
+ * 알림 클릭 시 이동에 필요한 ID는 남깁니다.
+ */
+function redactRelayMessage(message: RoutedMessage): RoutedMessage {
+  if (message.type !== MessageType.PUSH_NOTIFY) return message;
+
+  const payload = message.payload as Record<string, unknown> | undefined;
+  return {
+    ...message,
+    payload: { ...payload, title: 'Estelle', body: '새 알림이 있습니다' },
+  };
+}
+
+// ============================================================================
+// E2eRelayClient 클래스
+// ============================================================================
+
+/**
+ * E2eRelayClient
+ *
+ * @example
+ * ```typescript
+ * const relayClient = new E2eRelayClient({
+ *   relay: createRelayClient({ url, deviceId: pylonIndex }),
+ *   deviceId: config.deviceId,
+ *   keyStore,
+ *   getShareKey: (shareId) => shareStore.getKey(shareId),
+ * });
+ * await relayClient.init();
+ * relayClient.connect();
+ * ```
+ */
+export class E2eRelayClient {
+  private readonly relay: E2eRelayTransport;
+  private readonly deviceId: number;
+  private readonly keyStore: E2eKeyStore;
+  private readonly mode: E2eMode;
+  private readonly getShareKey?: (shareId: string) => string | null;
+  private readonly onKeysChange?: () => void;
+  private readonly logger?: Pick<Logger, 'log' | 'warn'>;
+  private readonly now: () => number;
+
+  /** Pylon 고정 키 */
+  private identity: E2eKeyPair | null = null;
+  private identityPublicKey = '';
+  private fingerprint = '';
+
+  /** kid → 세션 */
+  private readonly sessions = new Map<string, E2eSession>();
+
+  /** Client deviceId → kid */
+  private readonly sessionByDevice = new Map<number, string>();
+
+  /** 평문을 보내온 미페어링 Client deviceId (optional 모드 평문 사본 대상) */
+  private readonly plainClients = new Set<number>();
+
+  /** 뷰어 deviceId → shareId (공유 키로 답장) */
+  private readonly viewerShares = new Map<number, string>();
+
+  /** 공유 키 캐시 (base64url → CryptoKey) */
+  private readonly shareKeys = new Map<string, E2eKey>();
+
+  /** 유효한 페어링 코드 */
+  private pairing: { secret: string; expiresAt: number; failures: number } | null = null;
+
+  private messageCallback: ((data: unknown) => void) | null = null;
+  private incoming: Promise<void> = Promise.resolve();
+  private outgoing: Promise<void> = Promise.resolve();
+  private pendingOutgoing = 0;
+
+  constructor(options: E2eRelayClientOptions) {
+    this.relay = options.relay;
+    this.deviceId = options.deviceId;
+    this.keyStore = options.keyStore;
+    this.mode = options.mode ?? DEFAULT_E2E_MODE;
+    this.getShareKey = options.getShareKey;
+    this.onKeysChange = options.onKeysChange;
+    this.logger = options.logger;
+    this.now = options.now ?? Date.now;
+
+    this.relay.onMessage((data) => {
+      this.incoming = this.incoming
+        .then(() => this.handleIncoming(data))
+        .catch((err) => this.logger?.warn(`[E2E] Failed to handle message: ${err}`));
+    });
+  }
+
+  // ============================================================================
+  // 초기화 / 페어링 코드
+  // ============================================================================
+
+  /**
+   * 고정 키 불러오기 (없으면 생성해 저장)
+   *
+   * connect() 전에 호출합니다.
+   */
+  async init(): Promise<void> {
+    let identity = this.keyStore.getIdentity();
+    if (!identity) {
+      identity = await createE2eIdentity();
+      this.keyStore.setIdentity(identity);
+      this.onKeysChange?.();
+    }
+    this.identity = await loadE2eIdentity(identity);
+    this.identityPublicKey = identity.publicKey;
+    this.fingerprint = await e2eFingerprint(identity.publicKey);
+  }
+
+  /**
+   * Pylon 고정 키 지문
+   */
+  getFingerprint(): string {
+    return this.fingerprint;
+  }
+
+  /**
+   * 새 페어링 코드 발급 (이전 코드는 무효)
+   */
+  createPairingCode(): E2ePairingCodeInfo {
+    const secret = generatePairingSecret();
+    const expiresAt = this.now() + E2E_PAIRING_CODE_TTL_MS;
+    this.pairing = { secret, expiresAt, failures: 0 };
+    return { code: formatPairingCode({ pylonId: this.deviceId, secret }), expiresAt };
+  }
+
+  /**
+   * 페어링된 Client가 없으면 새 코드를 발급해 콘솔에 출력 (유효한 코드가 있으면 생략)
+   */
+  private logPairingCodeIfUnpaired(): void {
+    if (this.keyStore.getClients().length > 0) return;
+    if (this.pairing && this.now() <= this.pairing.expiresAt) return;
+
+    const { code } = this.createPairingCode();
+    this.logger?.log(`[E2E] No paired clients. Pairing code (valid 10 min): ${code}`);
+  }
+
+  // ============================================================================
+  // RelayClient 인터페이스
+  // ============================================================================
+
+  connect(): void {
+    this.relay.connect();
+  }
+
+  disconnect(): void {
+    this.relay.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.relay.isConnected();
+  }
+
+  onMessage(callback: (data: unknown) => void): void {
+    this.messageCallback = callback;
+  }
+
+  onStatusChange(callback: (isConnected: boolean) => void): void {
+    this.relay.onStatusChange((isConnected) => {
+      // Relay 연결이 끊기면 모든 세션이 무효 (재연결 후 e2e_announce로 다시 시작)
+      if (!isConnected) {
+        this.clearSessions();
+      }
+      callback(isConnected);
+    });
+  }
+
+  /**
+   * 메시지 전송 (필요하면 암호화)
+   */
+  send(data: unknown): void {
+    const parts = this.planOutgoing(data);
+
+    // 암호화할 것도, 앞에 밀린 것도 없으면 바로 전송
+    if (this.pendingOutgoing === 0 && parts.every((part) => !part.kid)) {
+      for (const part of parts) {
+        this.relay.send(part.message);
+      }
+      return;
+    }
+
+    this.pendingOutgoing++;
+    this.outgoing = this.outgoing
+      .then(async () => {
+        for (const part of parts) {
+          this.relay.send(await this.sealPart(part));
+        }
+      })
+      .catch((err) => this.logger?.warn(`[E2E] Failed to send ${(data as RoutedMessage).type}: ${err}`))
+      .finally(() => {
+        this.pendingOutgoing--;
+      });
+  }
+
+  // ============================================================================
+  // 송신
+  // ============================================================================
+
+  /**
+   * 보낼 메시지를 대상별로 나누기
+   */
+  private planOutgoing(data: unknown): OutgoingPart[] {
+    const message = data as RoutedMessage;
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      typeof message.type !== 'string' ||
+      E2E_PLAINTEXT_TYPES.includes(message.type)
+    ) {
+      return [{ message }];
+    }
+
+    // 대상 지정
+    if (Array.isArray(message.to)) {
+      return this.planTargets(message, message.to);
+    }
+
+    // Relay가 처리하는 메시지(to/broadcast 없음)는 Relay가 읽어야 하므로 평문
+    if (message.broadcast === undefined) {
+      return [{ message: redactRelayMessage(message) }];
+    }
+
+    // Pylon 대상 broadcast는 그대로
+    if (message.broadcast === 'pylons') {
+      return [{ message }];
+    }
+
+    // 세션이 없으면 암호화할 대상도 없음 (optional 모드는 평문 broadcast 그대로)
+    if (this.sessionByDevice.size === 0) {
+      return this.mode === 'optional' ? [{ message }] : [];
+    }
+
+    // Client broadcast: 세션 Client에는 암호문, optional 모드면 평문을 보내온 미페어링 Client에게만 평문
+    // (평문 broadcast는 세션 Client에게도 내용을 흘리므로 보내지 않음)
+    const { broadcast: _broadcast, ...rest } = message;
+    const targets = [...this.sessionByDevice.keys()];
+    if (this.mode === 'optional') {
+      targets.push(...this.plainClients);
+    }
+    return this.planTargets(rest as RoutedMessage, targets);
+  }
+
+  /**
+   * 대상 목록을 암호문(Client별)과 평문(한 번에)으로 나누기
+   */
+  private planTargets(message: RoutedMessage, targets: number[]): OutgoingPart[] {
+    const parts: OutgoingPart[] = [];
+    const plainTargets: number[] = [];
+
+    for (const deviceId of targets) {
+      const kid = this.sessionByDevice.get(deviceId);
+      const session = kid ? this.sessions.get(kid) : undefined;
+      if (kid && session) {
+        parts.push({ message: { ...message, to: [deviceId] }, key: session.key, kid });
+        continue;
+      }
+
+      const shareId = this.viewerShares.get(deviceId);
+      if (shareId) {
+        parts.push({ message: { ...message, to: [deviceId] }, kid: shareKeyId(shareId) });
+        continue;
+      }
+
+      if (this.mode === 'optional' || isPylonId(deviceId as NumericDeviceId)) {
+        plainTargets.push(deviceId);
+      } else {
+        this.logger?.warn(`[E2E] Dropped ${message.type} to ${deviceId}: no e2e session`);
+      }
+    }
+
+    if (plainTargets.length > 0) {
+      parts.unshift({ message: { ...message, to: plainTargets } });
+    }
+    return parts;
+  }
+
+  /**
+   * 암호화할 부분이면 payload를 envelope로 바꾸기
+   */
+  private async sealPart(part: OutgoingPart): Promise<RoutedMessage> {
+    if (!part.kid) return part.message;
+
+    const key = part.key ?? (await this.resolveShareKey(part.kid.slice(SHARE_KID_PREFIX.length)));
+    if (!key) {
+      throw new Error(`share key not found: ${part.kid}`);
+    }
+
+    const e2e = await encryptE2ePayload(key, part.kid, part.message.type, part.message.payload);
+    return { ...part.message, payload: { e2e } };
+  }
+
+  // ============================================================================
+  // 수신
+  // ============================================================================
+
+  private deliver(message: unknown): void {
+    this.messageCallback?.(message);
+  }
+
+  private async handleIncoming(data: unknown): Promise<void> {
+    const message = data as RoutedMessage;
+    if (typeof message !== 'object' || message === null || typeof message.type !== 'string') {
+      this.deliver(data);
+      return;
+    }
+
+    const from = message.from;
+
+    // Relay가 보낸 메시지
+    if (!from) {
+      this.handleRelayMessage(message);
+      this.deliver(message);
+      return;
+    }
+
+    // 다른 Pylon
+    if (from.deviceType === 'pylon') {
+      this.deliver(message);
+      return;
+    }
+
+    // 키 교환
+    if (message.type === MessageType.E2E_PAIR_REQUEST) {
+      await this.handlePairRequest(message.payload, from.deviceId);
+      return;
+    }
+    if (message.type === MessageType.E2E_HELLO) {
+      await this.handleHello(message.payload, from.deviceId);
+      return;
+    }
+    if (E2E_PLAINTEXT_TYPES.includes(message.type)) {
+      return;
+    }
+
+    // 암호문
+    if (isE2eEncryptedPayload(message.payload)) {
+      const payload = await this.open(message, from);
+      if (payload === undefined) return;
+
+      if (message.type === MessageType.E2E_PAIRING_CODE_REQUEST) {
+        this.handlePairingCodeRequest(from.deviceId);
+        return;
+      }
+      if (message.type === MessageType.E2E_REVOKE) {
+        this.handleRevoke(from.deviceId);
+        return;
+      }
+
+      this.deliver({ ...message, payload });
+      return;
+    }
+
+    // 평문
+    if (from.deviceType !== 'viewer' && this.sessionByDevice.has(from.deviceId)) {
+      this.logger?.warn(`[E2E] Dropped plaintext ${message.type} from ${from.deviceId}: session is encrypted`);
+      return;
+    }
+    if (this.mode === 'required') {
+      this.sendError(from.deviceId, 'required', message.type);
+      return;
+    }
+    if (from.deviceType !== 'viewer') {
+      this.plainClients.add(from.deviceId);
+    }
+    this.deliver(message);
+  }
+
+  /**
+   * Relay 메시지 처리 (인증 완료 알림, Client 연결 해제)
+   */
+  private handleRelayMessage(message: RoutedMessage): void {
+    const payload = message.payload as Record<string, unknown> | undefined;
+
+    if (message.type === 'auth_result' && payload?.success && this.identity) {
+      // 이전 세션은 무효 → 페어링된 Client가 다시 E2E_HELLO를 보내도록 알림
+      this.clearSessions();
+      this.logPairingCodeIfUnpaired();
+      this.send({
+        type: MessageType.E2E_ANNOUNCE,
+        broadcast: 'clients',
+        payload: { mode: this.mode, fingerprint: this.fingerprint },
+      });
+      return;
+    }
+
+    if (message.type === 'client_disconnect' && typeof payload?.deviceId === 'number') {
+      // Relay는 deviceIndex를 보내므로 인코딩된 Client ID와 index로 비교
+      const index = payload.deviceId;
+      const matches = (deviceId: number) =>
+        decodeDeviceId(deviceId as NumericDeviceId).deviceIndex === index;
+
+      for (const deviceId of [...this.sessionByDevice.keys()]) {
+        if (matches(deviceId)) this.removeSession(deviceId);
+      }
+      for (const deviceId of [...this.plainClients]) {
+        if (matches(deviceId)) this.plainClients.delete(deviceId);
+      }
+    }
+  }
+
+  /**
+   * envelope 복호화
+   *
+   * @returns 복호화한 payload (실패하면 e2e_error를 보내고 undefined)
+   */
+  private async open(message: RoutedMessage, from: { deviceId: number; deviceType?: string }): Promise<unknown> {
+    const envelope = (message.payload as { e2e: { kid: string; iv: string; ct: string } }).e2e;
+    let key: E2eKey | null = null;
+    let shareId: string | null = null;
+
+    if (from.deviceType === 'viewer') {
+      if (envelope.kid.startsWith(SHARE_KID_PREFIX)) {
+        shareId = envelope.kid.slice(SHARE_KID_PREFIX.length);
+        key = await this.resolveShareKey(shareId);
+      }
+    } else {
+      const session = this.sessions.get(envelope.kid);
+      if (session && session.deviceId === from.deviceId) {
+        key = session.key;
+      }
+    }
+
+    if (!key) {
+      this.sendError(from.deviceId, 'no_session', message.type);
+      return undefined;
+    }
+
+    let payload: unknown;
+    try {
+      payload = await decryptE2ePayload(key, envelope, message.type);
+    } catch {
+      this.sendError(from.deviceId, 'decrypt_failed', message.type);
+      return undefined;
+    }
+
+    if (shareId !== null) {
+      // 공유 키는 그 공유에만 쓸 수 있음
+      if ((payload as { shareId?: unknown } | null)?.shareId !== shareId) {
+        this.sendError(from.deviceId, 'decrypt_failed', message.type);
+        return undefined;
+      }
+      this.viewerShares.set(from.deviceId, shareId);
+    }
+
+    return payload;
+  }
+
+  private async resolveShareKey(shareId: string): Promise<E2eKey | null> {
+    const raw = this.getShareKey?.(shareId);
+    if (!raw) return null;
+
+    let key = this.shareKeys.get(raw);
+    if (!key) {
+      key = await importE2eSymmetricKey(raw);
+      this.shareKeys.set(raw, key);
+    }
+    return key;
+  }
+
+  // ============================================================================
+  // 키 교환
+  // ============================================================================
+
+  /**
+   * 페어링 요청: 코드 MAC 확인 → Client 공개키 저장 → Pylon 공개키를 MAC과 함께 응답
+   */
+  private async handlePairRequest(payload: unknown, deviceId: number): Promise<void> {
+    const request = payload as Partial<E2ePairRequestPayload> | undefined;
+    const fail = (error: string) =>
+      this.send({
+        type: MessageType.E2E_PAIR_RESULT,
+        to: [deviceId],
+        payload: { success: false, error },
+      });
+
+    const pairing = this.pairing;
+    if (!this.identity || !pairing || this.now() > pairing.expiresAt) {
+      fail('페어링 코드가 없거나 만료되었습니다');
+      return;
+    }
+    if (typeof request?.publicKey !== 'string' || typeof request.mac !== 'string') {
+      fail('잘못된 페어링 요청입니다');
+      return;
+    }
+
+    const valid = await verifyE2ePairingMac(pairing.secret, request.mac, 'pair-request', request.publicKey);
+    if (!valid) {
+      pairing.failures++;
+      if (pairing.failures >= MAX_PAIRING_FAILURES) {
+        this.pairing = null;
+      }
+      fail('페어링 코드가 맞지 않습니다');
+      return;
+    }
+
+    try {
+      await importE2ePublicKey(request.publicKey);
+    } catch {
+      fail('잘못된 공개키입니다');
+      return;
+    }
+
+    this.pairing = null;
+    const fingerprint = await e2eFingerprint(request.publicKey);
+    this.keyStore.addClient(request.publicKey, fingerprint, this.now());
+    this.onKeysChange?.();
+    this.logger?.log(`[E2E] Paired client ${deviceId} (${fingerprint})`);
+
+    this.send({
+      type: MessageType.E2E_PAIR_RESULT,
+      to: [deviceId],
+      payload: {
+        success: true,
+        publicKey: this.identityPublicKey,
+        mac: await e2ePairingMac(pairing.secret, 'pair-result', this.identityPublicKey, request.publicKey),
+      },
+    });
+  }
+
+  /**
+   * 세션 시작: 페어링된 공개키면 세션 키를 만들고 kid 발급
+   */
+  private async handleHello(payload: unknown, deviceId: number): Promise<void> {
+    const hello = payload as Partial<E2eHelloPayload> | undefined;
+    if (!this.identity) return;
+
+    const fail = (error: string) =>
+      this.send({
+        type: MessageType.E2E_HELLO_ACK,
+        to: [deviceId],
+        payload: { success: false, error },
+      });
+
+    if (
+      typeof hello?.publicKey !== 'string' ||
+      typeof hello.ephemeralKey !== 'string' ||
+      typeof hello.nonce !== 'string'
+    ) {
+      fail('invalid');
+      return;
+    }
+    if (!this.keyStore.isTrusted(hello.publicKey)) {
+      fail('unpaired');
+      return;
+    }
+
+    const ephemeral = await generateE2eKeyPair();
+    const nonce = randomBase64Url(NONCE_LENGTH);
+    let key: E2eKey;
+    try {
+      key = await deriveE2eSessionKey({
+        staticKey: this.identity.privateKey,
+        ephemeralKey: ephemeral.privateKey,
+        peerStaticKey: hello.publicKey,
+        peerEphemeralKey: hello.ephemeralKey,
+        salt: hello.nonce + nonce,
+      });
+    } catch {
+      fail('invalid');
+      return;
+    }
+
+    const kid = randomBase64Url(KID_LENGTH);
+    this.removeSession(deviceId);
+    this.sessions.set(kid, { deviceId, publicKey: hello.publicKey, key });
+    this.sessionByDevice.set(deviceId, kid);
+    this.plainClients.delete(deviceId);
+
+    this.send({
+      type: MessageType.E2E_HELLO_ACK,
+      to: [deviceId],
+      payload: {
+        success: true,
+        kid,
+        ephemeralKey: await exportE2ePublicKey(ephemeral.publicKey),
+        nonce,
+        confirm: await encryptE2ePayload(key, kid, MessageType.E2E_HELLO_ACK, { nonce: hello.nonce }),
+      },
+    });
+  }
+
+  /**
+   * 페어링된 Client가 다른 기기용 코드 요청 (세션 키로 응답)
+   */
+  private handlePairingCodeRequest(deviceId: number): void {
+    const info = this.createPairingCode();
+    this.logger?.log(`[E2E] Pairing code issued for client ${deviceId}`);
+    this.send({
+      type: MessageType.E2E_PAIRING_CODE_RESULT,
+      to: [deviceId],
+      payload: info,
+    });
+  }
+
+  /**
+   * Client가 페어링 해제
+   */
+  private handleRevoke(deviceId: number): void {
+    const kid = this.sessionByDevice.get(deviceId);
+    const session = kid ? this.sessions.get(kid) : undefined;
+    if (!session) return;
+
+    this.keyStore.removeClient(session.publicKey);
+    this.onKeysChange?.();
+    this.removeSession(deviceId);
+    this.logger?.log(`[E2E] Client ${deviceId} unpaired`);
+  }
+
+  private sendError(deviceId: number, reason: E2eErrorReason, requestType: string): void {
+    this.send({
+      type: MessageType.E2E_ERROR,
+      to: [deviceId],
+      payload: { reason, requestType },
+    });
+  }
+
+  // ============================================================================
+  // 세션 정리
+  // ============================================================================
+
+  private removeSession(deviceId: number): void {
+    const kid = this.sessionByDevice.get(deviceId);
+    if (kid) {
+      this.sessions.delete(kid);
+      this.sessionByDevice.delete(deviceId);
+    }
+  }
+
+  private clearSessions(): void {
+    this.sessions.clear();
+    this.sessionByDevice.clear();
+    this.plainClients.clear();
+    this.viewerShares.clear();
+  }
+}
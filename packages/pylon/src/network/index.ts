@@ -4,6 +4,7 @@
  * RelayClient를 내보냅니다.
  *
  * - RelayClient: Relay 서버 연결용 WebSocket 클라이언트
+ * - E2eRelayClient: RelayClient에 종단간 암호화를 씌우는 래퍼
  *
  * @module network
  */
@@ -15,3 +16,10 @@ export {
   type RelayClientOptions,
   type RelayClientCallbacks,
 } from './relay-client.js';
+
+export {
+  E2eRelayClient,
+  type E2eRelayClientOptions,
+  type E2eRelayTransport,
+  type E2ePairingCodeInfo,
+} from './e2e-relay-client.js';
@@ -10,7 +10,10 @@
  * {baseDir}/
  *   workspaces.json         # 워크스페이스 목록
  *   shares.json             # 공유 목록
- *   account.json            # 계정 정보
+ *   account.json            # 마지막 활성 계정
+ *   accounts.json           # 계정 목록
+ *   widgets.json            # 살아 있던 Widget 세션
+ *   e2e-keys.json           # E2E 고정 키, 페어링된 Client 공개키
  * ```
  *
  * @example
@@ -29,6 +32,9 @@
 import type { PersistenceAdapter, PersistedAccount } from './types.js';
 import type { WorkspaceStoreData } from '../stores/workspace-store.js';
 import type { ShareStoreData } from '../stores/share-store.js';
+import type { WidgetManagerData } from '../managers/widget-manager.js';
+import type { E2eKeyStoreData } from '../stores/e2e-key-store.js';
+import type { AccountStoreData } from '../stores/account-store.js';
 
 /**
  * 파일시스템 인터페이스 (테스트 용이성을 위한 추상화)
@@ -54,6 +60,9 @@ export class FileSystemPersistence implements PersistenceAdapter {
   private readonly workspacesPath: string;
   private readonly sharesPath: string;
   private readonly accountPath: string;
+  private readonly accountsPath: string;
+  private readonly widgetsPath: string;
+  private readonly e2eKeysPath: string;
   private readonly fs: FileSystemInterface;
 
   /**
@@ -67,6 +76,9 @@ export class FileSystemPersistence implements PersistenceAdapter {
     this.workspacesPath = this.joinPath(baseDir, 'workspaces.json');
     this.sharesPath = this.joinPath(baseDir, 'shares.json');
     this.accountPath = this.joinPath(baseDir, 'account.json');
+    this.accountsPath = this.joinPath(baseDir, 'accounts.json');
+    this.widgetsPath = this.joinPath(baseDir, 'widgets.json');
+    this.e2eKeysPath = this.joinPath(baseDir, 'e2e-keys.json');
     this.fs = fs;
 
     // 디렉토리 생성
@@ -185,4 +197,99 @@ export class FileSystemPersistence implements PersistenceAdapter {
     const content = JSON.stringify(account, null, 2);
     this.fs.writeFileSync(this.accountPath, content, 'utf-8');
   }
+
+  /**
+   * 계정 목록 로드
+   */
+  loadAccounts(): AccountStoreData | undefined {
+    try {
+      if (!this.fs.existsSync(this.accountsPath)) {
+        return undefined;
+      }
+
+      const content = this.fs.readFileSync(this.accountsPath, 'utf-8');
+      return JSON.parse(content) as AccountStoreData;
+    } catch (error) {
+      console.error('[Persistence] Failed to load accounts:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 계정 목록 저장
+   */
+  async saveAccounts(data: AccountStoreData): Promise<void> {
+    // 런타임 중 폴더가 삭제될 수 있으므로 저장 전 확인
+    if (!this.fs.existsSync(this.baseDir)) {
+      this.fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+    const content = JSON.stringify(data, null, 2);
+    this.fs.writeFileSync(this.accountsPath, content, 'utf-8');
+  }
+
+  // ============================================================================
+  // Widget 세션
+  // ============================================================================
+
+  /**
+   * Widget 세션 로드
+   */
+  loadWidgetSessions(): WidgetManagerData | undefined {
+    try {
+      if (!this.fs.existsSync(this.widgetsPath)) {
+        return undefined;
+      }
+
+      const content = this.fs.readFileSync(this.widgetsPath, 'utf-8');
+      return JSON.parse(content) as WidgetManagerData;
+    } catch (error) {
+      console.error('[Persistence] Failed to load widget sessions:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Widget 세션 저장
+   */
+  async saveWidgetSessions(data: WidgetManagerData): Promise<void> {
+    // 런타임 중 폴더가 삭제될 수 있으므로 저장 전 확인
+    if (!this.fs.existsSync(this.baseDir)) {
+      this.fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+    const content = JSON.stringify(data, null, 2);
+    this.fs.writeFileSync(this.widgetsPath, content, 'utf-8');
+  }
+
+  // ============================================================================
+  // E2E 키
+  // ============================================================================
+
+  /**
+   * E2E 키 로드
+   */
+  loadE2eKeys(): E2eKeyStoreData | undefined {
+    try {
+      if (!this.fs.existsSync(this.e2eKeysPath)) {
+        return undefined;
+      }
+
+      const content = this.fs.readFileSync(this.e2eKeysPath, 'utf-8');
+      return JSON.parse(content) as E2eKeyStoreData;
+    } catch (error) {
+      console.error('[Persistence] Failed to load e2e keys:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * E2E 키 저장
+   */
+  async saveE2eKeys(data: E2eKeyStoreData): Promise<void> {
+    // 런타임 중 폴더가 삭제될 수 있으므로 저장 전 확인
+    if (!this.fs.existsSync(this.baseDir)) {
+      this.fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+    const content = JSON.stringify(data, null, 2);
+    this.fs.writeFileSync(this.e2eKeysPath, content, 'utf-8');
+  }
 }
@@ -26,6 +26,9 @@
 import type { PersistenceAdapter, PersistedAccount } from './types.js';
 import type { WorkspaceStoreData } from '../stores/workspace-store.js';
 import type { ShareStoreData } from '../stores/share-store.js';
+import type { WidgetManagerData } from '../managers/widget-manager.js';
+import type { E2eKeyStoreData } from '../stores/e2e-key-store.js';
+import type { AccountStoreData } from '../stores/account-store.js';
 
 /**
  * InMemory Persistence 어댑터
@@ -36,6 +39,9 @@ export class InMemoryPersistence implements PersistenceAdapter {
   private workspaceData?: WorkspaceStoreData;
   private shareData?: ShareStoreData;
   private accountData?: PersistedAccount;
+  private accountsData?: AccountStoreData;
+  private widgetData?: WidgetManagerData;
+  private e2eKeyData?: E2eKeyStoreData;
 
   // ============================================================================
   // WorkspaceStore 영속화
@@ -94,6 +100,59 @@ export class InMemoryPersistence implements PersistenceAdapter {
     this.accountData = JSON.parse(JSON.stringify(account));
   }
 
+  /**
+   * 계정 목록 로드
+   */
+  loadAccounts(): AccountStoreData | undefined {
+    return this.accountsData;
+  }
+
+  /**
+   * 계정 목록 저장
+   */
+  async saveAccounts(data: AccountStoreData): Promise<void> {
+    // 깊은 복사로 저장 (외부 수정 방지)
+    this.accountsData = JSON.parse(JSON.stringify(data));
+  }
+
+  // ============================================================================
+  // Widget 세션 영속화
+  // ============================================================================
+
+  /**
+   * Widget 세션 로드
+   */
+  loadWidgetSessions(): WidgetManagerData | undefined {
+    return this.widgetData;
+  }
+
+  /**
+   * Widget 세션 저장
+   */
+  async saveWidgetSessions(data: WidgetManagerData): Promise<void> {
+    // 깊은 복사로 저장 (외부 수정 방지)
+    this.widgetData = JSON.parse(JSON.stringify(data));
+  }
+
+  // ============================================================================
+  // E2E 키 영속화
+  // ============================================================================
+
+  /**
+   * E2E 키 로드
+   */
+  loadE2eKeys(): E2eKeyStoreData | undefined {
+    return this.e2eKeyData;
+  }
+
+  /**
+   * E2E 키 저장
+   */
+  async saveE2eKeys(data: E2eKeyStoreData): Promise<void> {
+    // 깊은 복사로 저장 (외부 수정 방지)
+    this.e2eKeyData = JSON.parse(JSON.stringify(data));
+  }
+
   // ============================================================================
   // 테스트 헬퍼 메서드
   // ============================================================================
@@ -126,6 +185,9 @@ export class InMemoryPersistence implements PersistenceAdapter {
     this.workspaceData = undefined;
     this.shareData = undefined;
     this.accountData = undefined;
+    this.accountsData = undefined;
+    this.widgetData = undefined;
+    this.e2eKeyData = undefined;
   }
 
   /**
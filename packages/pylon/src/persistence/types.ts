@@ -7,13 +7,16 @@
 
 import type { WorkspaceStoreData } from '../stores/workspace-store.js';
 import type { ShareStoreData } from '../stores/share-store.js';
+import type { WidgetManagerData } from '../managers/widget-manager.js';
+import type { E2eKeyStoreData } from '../stores/e2e-key-store.js';
+import type { AccountStoreData } from '../stores/account-store.js';
 import type { AccountType } from '@estelle/core';
 
 /**
  * 저장된 계정 정보
  */
 export interface PersistedAccount {
-  current: AccountType;
+  current: AccountType | null;
   subscriptionType?: string;
 }
 
@@ -78,4 +81,54 @@ export interface PersistenceAdapter {
    * @param account - 저장할 계정 정보
    */
   saveLastAccount(account: PersistedAccount): Promise<void>;
+
+  /**
+   * 계정 목록 로드
+   *
+   * @returns 저장된 데이터 또는 undefined (파일 없음)
+   */
+  loadAccounts(): AccountStoreData | undefined;
+
+  /**
+   * 계정 목록 저장
+   *
+   * @param data - 저장할 데이터
+   */
+  saveAccounts(data: AccountStoreData): Promise<void>;
+
+  // ============================================================================
+  // Widget 세션 영속화
+  // ============================================================================
+
+  /**
+   * 살아 있던 Widget 세션 로드
+   *
+   * @returns 저장된 데이터 또는 undefined (파일 없음)
+   */
+  loadWidgetSessions(): WidgetManagerData | undefined;
+
+  /**
+   * Widget 세션 저장
+   *
+   * @param data - 저장할 데이터
+   */
+  saveWidgetSessions(data: WidgetManagerData): Promise<void>;
+
+  // ============================================================================
+  // E2E 키 영속화
+  // ============================================================================
+
+  /**
+   * E2E 고정 키와 페어링된 Client 목록 로드
+   *
+   * @returns 저장된 데이터 또는 undefined (파일 없음)
+   */
+  loadE2eKeys(): E2eKeyStoreData | undefined;
+
+  /**
+   * E2E 키 저장
+   *
+   * @param data - 저장할 데이터
+   */
+  saveE2eKeys(data: E2eKeyStoreData): Promise<void>;
 }
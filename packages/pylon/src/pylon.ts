@@ -39,13 +39,21 @@ import * as fs from 'fs';
 import * as http from 'http';
 import * as os from 'os';
 import * as path from 'path';
-import type { PermissionModeValue, ConversationStatusValue, ConversationId, AccountType, ViewNode } from '@estelle/core';
-import { decodeConversationIdFull, isWidgetCheckPayload, isWidgetClaimPayload } from '@estelle/core';
+import type { PermissionModeValue, ConversationStatusValue, ConversationId, AccountType, AccountInput, AccountListItem, ClaudeAccount, ViewNode } from '@estelle/core';
+import type { SearchHit, AgentType, AgentBackendInfo, ConversationAgentSettings } from '@estelle/core';
+import type { ConversationExportResultPayload, ConversationImportPayload, ConversationImportResultPayload, ConversationForkResultPayload, RetentionPolicy, ToolOutputResultPayload, PermissionDecision, PermissionRule, AuditDecider, AuditEntry, PushEventKind, Schedule, ScheduleRun, ActiveWorker, WorkerPolicy, GitStatus, GitDiffScope, GitLogEntry, ConversationWorktree, ConversationWorktreeAction, WidgetCatalogEntry, WidgetErrorPayload, WidgetLimitKind } from '@estelle/core';
+import { decodeConversationId, decodeConversationIdFull, isWidgetCheckPayload, isWidgetClaimPayload, isSearchRequestPayload, isConversationExportPayload, isConversationImportPayload, isConversationForkPayload, isRetentionPolicy, isToolOutputRequestPayload, isPermissionRule, isAuditLogRequestPayload, isScheduleSavePayload, isAccountSavePayload, isAccountDeletePayload, isWorkerPolicy, DEFAULT_WORKER_POLICY, validateWidgetInput, isAgentType, isConversationAgentSettings, DEFAULT_AGENT_TYPE } from '@estelle/core';
 import type { WorkspaceStore, Workspace, Conversation } from './stores/workspace-store.js';
 import type { MessageStore, StoreMessage } from './stores/message-store.js';
 import type { ShareStore } from './stores/share-store.js';
+import type { AccountStore } from './stores/account-store.js';
 import type { CommandStore } from './stores/command-store.js';
-import type { AgentManagerEvent } from './agent/agent-manager.js';
+import type { AuditStore } from './stores/audit-store.js';
+import type { ScheduleStore } from './stores/schedule-store.js';
+import { Scheduler, type ScheduleExecution } from './managers/scheduler.js';
+import type { AgentManagerEvent, PermissionDecisionRecord, UsageLimitInfo } from './agent/agent-manager.js';
+import { createExactAllowRule } from './agent/permission-rules.js';
+import { getWorktreePath, WORKTREE_BRANCH_PREFIX } from './utils/git-worktree.js';
 import type { PersistenceAdapter, PersistedAccount } from './persistence/types.js';
 import { generateThumbnail } from './utils/thumbnail.js';
 import {
@@ -54,8 +62,24 @@ import {
   buildDocumentAddedReminder,
   buildDocumentRemovedReminder,
   buildConversationRenamedReminder,
+  buildForkHistoryReminder,
 } from './utils/session-context.js';
 import { findAutorunDoc } from './utils/autorun-detector.js';
+import {
+  buildExportFilename,
+  renderMarkdown,
+  renderHtml,
+  buildArchive,
+  EXPORT_MIME_TYPES,
+} from './utils/conversation-export.js';
+import {
+  parseConversationFile,
+  remapAttachmentPaths,
+  getClaudeProjectDirName,
+  type ParsedConversation,
+} from './utils/conversation-import.js';
+import { selectForkPrefix, findTranscriptForkPoint } from './utils/conversation-fork.js';
+import type { PendingFork } from './stores/workspace-store.js';
 import { handleAssetRequest } from './handlers/widget-asset-handler.js';
 
 // ============================================================================
@@ -83,6 +107,9 @@ export interface PylonConfig {
 
   /** 에셋 서버 포트 (선택, 기본값: 0 = 랜덤 포트) */
   assetServerPort?: number;
+
+  /** Claude config 디렉토리 (선택, 세션 트랜스크립트 위치: {claudeConfigDir}/projects/) */
+  claudeConfigDir?: string;
 }
 
 /**
@@ -117,18 +144,23 @@ export interface AgentManagerAdapter {
     systemReminder?: string;
     plugins?: Array<{ type: 'local'; path: string }>;
   }): Promise<void>;
-  stop(conversationId: number): void;
+  stop(conversationId: number): Promise<void>;
+  waitForIdle(conversationId: number): Promise<void>;
   newSession(conversationId: number): void;
+  forgetConversation(conversationId: number): void;
   cleanup(): void;
   abortAllSessions(): number[];
-  respondPermission(conversationId: number, toolUseId: string, decision: 'allow' | 'deny' | 'allowAll'): void;
+  respondPermission(conversationId: number, toolUseId: string, decision: PermissionDecision, decidedBy?: AuditDecider): void;
   respondQuestion(conversationId: number, toolUseId: string, answer: string): void;
   hasActiveSession(conversationId: number): boolean;
   getSessionStartTime(conversationId: number): number | null;
   getPendingEvent(conversationId: number): unknown;
+  getPendingPermission(toolUseId: string): { sessionId: number; toolName: string; input: Record<string, unknown> } | null;
   getSessionIdByToolUseId(toolUseId: string): number | null;
   getSessionTools(conversationId: number): string[];
   requestSuggestion(conversationId: number, agentSessionId: string, workingDir: string): void;
+  draftCommitMessage(request: { agentSessionId: string | null; workingDir: string; diff: string }): Promise<string>;
+  getAgentBackends(): AgentBackendInfo[];
 }
 
 /**
@@ -148,15 +180,70 @@ export interface TaskManagerAdapter {
   listTasks(workingDir: string): { success: boolean; tasks: unknown[] };
   getTask(workingDir: string, taskId: string): { success: boolean; task?: unknown };
   updateTaskStatus(workingDir: string, taskId: string, status: string, error?: string): { success: boolean };
+  createTask(workingDir: string, title: string, body: string, options?: TaskFields): { success: boolean; task?: { id: string }; error?: string };
+  updateTask(workingDir: string, taskId: string, fields: TaskFields & { title?: string; body?: string }): { success: boolean; task?: unknown; error?: string };
+  reorderPendingTasks(workingDir: string, taskIds: string[]): { success: boolean; error?: string };
+  setTaskBranch(workingDir: string, taskId: string, branch: string | null): { success: boolean; task?: unknown; error?: string };
+}
+
+/**
+ * 태스크 생성/수정 옵션 필드 (TaskManager의 CreateTaskOptions와 같은 모양)
+ */
+export interface TaskFields {
+  priority?: number;
+  dependsOn?: string[];
+  maxRetries?: number;
+  timeout?: number | null;
 }
 
 /**
  * WorkerManager 인터페이스 (의존성 주입용)
  */
 export interface WorkerManagerAdapter {
-  getWorkerStatus(workspaceId: number, workingDir: string): { running: boolean };
-  startWorker(workspaceId: number, workingDir: string, callback: unknown): Promise<{ success: boolean }>;
-  stopWorker(workspaceId: number, workingDir: string): { success: boolean };
+  getWorkerStatus(workspaceId: number, workingDir: string): { status: 'idle' | 'running'; workers: ActiveWorker[] };
+  startWorker(workspaceId: number, workingDir: string, callback: WorkerStartCallback): Promise<{ success: boolean; error?: string }>;
+  stopWorker(workspaceId: number, workingDir: string, taskId?: string): { success: boolean; stopped?: ActiveWorker[] };
+  completeWorker(workspaceId: number, workingDir: string, status: 'done' | 'failed', error?: string | null, taskId?: string): boolean;
+  findWorkerByConversation(workspaceId: number, conversationId: number): ActiveWorker | null;
+}
+
+/**
+ * 워커 시작 콜백 (WorkerManager가 빈 슬롯마다 호출)
+ */
+export type WorkerStartCallback = (
+  workspaceId: number,
+  workingDir: string,
+  prompt: string,
+  worker: { slot: number; taskId: string; taskTitle: string; timeout: number | null }
+) => Promise<{ process: unknown; conversationId: number; worktreePath?: string | null }>;
+
+/**
+ * git worktree 인터페이스 (의존성 주입용)
+ */
+export interface GitWorktreeAdapter {
+  /** worktree를 만들고(있으면 재사용, reset이면 새로 만듦) 경로 반환 */
+  create(workingDir: string, name: string, options?: { reset?: boolean }): Promise<string>;
+  /** worktree에 남은 변경을 브랜치에 커밋 (변경이 없으면 false) */
+  commitChanges(worktreePath: string, message: string): Promise<boolean>;
+  /** 브랜치를 원본 체크아웃에 병합 (실패하면 병합 취소 후 에러) */
+  merge(workingDir: string, branch: string): Promise<void>;
+  /** worktree 삭제 (branchToDelete가 있으면 브랜치도 삭제) */
+  remove(workingDir: string, worktreePath: string, branchToDelete?: string): Promise<void>;
+}
+
+/**
+ * GitService 인터페이스 (의존성 주입용)
+ */
+export interface GitServiceAdapter {
+  isRepository(cwd: string): Promise<boolean>;
+  snapshot(cwd: string, conversationId?: number): Promise<string | null>;
+  releaseBaseline(cwd: string, conversationId: number): Promise<void>;
+  getStatus(cwd: string, baseline: string | null): Promise<GitStatus>;
+  getDiff(cwd: string, scope: GitDiffScope, options?: { baseline?: string | null; path?: string | null }): Promise<{ diff: string; truncated: boolean }>;
+  getLog(cwd: string, limit?: number): Promise<GitLogEntry[]>;
+  revertFile(cwd: string, baseline: string, filePath: string): Promise<void>;
+  commit(cwd: string, message: string, paths?: string[]): Promise<GitLogEntry>;
+  advanceBaseline(cwd: string, baseline: string, paths: string[], conversationId?: number): Promise<string>;
 }
 
 /**
@@ -199,9 +286,9 @@ export interface LoggerAdapter {
  * CredentialManager 인터페이스 (의존성 주입용)
  */
 export interface CredentialManagerAdapter {
-  getCurrentAccount(): Promise<{ account: AccountType; subscriptionType: string } | null>;
-  switchAccount(account: AccountType): Promise<void>;
-  hasBackup(account: AccountType): Promise<boolean>;
+  getCurrentAccount(accounts: ClaudeAccount[]): Promise<{ account: AccountType | null; subscriptionType: string } | null>;
+  switchAccount(account: ClaudeAccount): Promise<void>;
+  hasBackup(account: ClaudeAccount): Promise<boolean>;
 }
 
 /**
@@ -229,6 +316,8 @@ export interface WidgetSessionInfo {
   toolUseId: string;
   status: 'ready' | 'running' | 'completed' | 'error' | 'cancelled';
   ownerClientId: number | null;
+  /** 마지막으로 렌더링된 view */
+  lastView?: ViewNode;
 }
 
 /**
@@ -241,12 +330,17 @@ export interface WidgetManagerAdapter {
   sendEvent(sessionId: string, data: unknown): void;
   /** 세션 상태 조회 */
   getSession(sessionId: string): WidgetSessionInfo | undefined;
-  /** 소유권 요청 처리 (ready → running, running → cancelled) */
-  claimOwnership(sessionId: string, clientId: number): { started: true } | { cancelled: true; reason: string } | null;
+  /** 소유권 요청 처리 (ready → running, owner 없는 running → 다시 붙기, running → cancelled) */
+  claimOwnership(
+    sessionId: string,
+    clientId: number,
+  ): { started: true } | { reattached: true } | { cancelled: true; reason: string } | null;
   /** 소유자 확인 */
   isOwner(sessionId: string, clientId: number): boolean;
   /** 특정 클라이언트가 소유한 세션 목록 조회 */
   getSessionsByOwner(clientId: number): WidgetSessionInfo[];
+  /** 클라이언트의 소유권 해제 (세션은 계속 실행) */
+  detachOwner(clientId: number): WidgetSessionInfo[];
   /** 세션 취소 */
   cancelSession(sessionId: string): boolean;
   /** 이벤트 리스너 등록 */
@@ -276,6 +370,21 @@ export interface PylonMcpServerAdapter {
   cancelWidgetForConversation(conversationId: number): boolean;
   /** sessionId로 위젯 세션 취소 (inline 위젯용) */
   cancelWidgetBySessionId(sessionId: string, reason?: string): boolean;
+  /** 카탈로그 위젯 실행 (완료될 때까지 대기) */
+  runRegisteredWidget(
+    conversationId: number,
+    toolUseId: string,
+    widget: string,
+    input?: Record<string, unknown>,
+  ): Promise<{ success: boolean; result?: unknown; error?: string }>;
+}
+
+/**
+ * WidgetRegistry 인터페이스 (의존성 주입용)
+ */
+export interface WidgetRegistryAdapter {
+  /** 위젯 카탈로그 */
+  list(): WidgetCatalogEntry[];
 }
 
 /**
@@ -302,6 +411,9 @@ export interface PylonDependencies {
   /** 인증 관리자 (선택, 계정 전환 기능에 필요) */
   credentialManager?: CredentialManagerAdapter;
 
+  /** 계정 목록 저장소 (선택, 계정 전환 기능에 필요) */
+  accountStore?: AccountStore;
+
   /** 공유 저장소 (선택, 공유 기능에 필요) */
   shareStore?: ShareStore;
 
@@ -311,8 +423,23 @@ export interface PylonDependencies {
   /** MCP 서버 (선택, widget_check 핸들러에 필요) */
   mcpServer?: PylonMcpServerAdapter;
 
+  /** 위젯 카탈로그 (선택, widget_list/widget_launch 핸들러에 필요) */
+  widgetRegistry?: WidgetRegistryAdapter;
+
   /** 커맨드 저장소 (선택, 커맨드 툴바 기능에 필요) */
   commandStore?: CommandStore;
+
+  /** 감사 로그 저장소 (선택, 권한 결정/도구 실행 기록에 필요) */
+  auditStore?: AuditStore;
+
+  /** 예약 저장소 (선택, 워크스페이스 예약 실행 기능에 필요) */
+  scheduleStore?: ScheduleStore;
+
+  /** git worktree (선택, 워커별 worktree 실행에 필요) */
+  gitWorktree?: GitWorktreeAdapter;
+
+  /** git 서비스 (선택, git 상태/diff/커밋 기능에 필요) */
+  gitService?: GitServiceAdapter;
 }
 
 /**
@@ -332,6 +459,32 @@ interface DeviceInfo {
   icon?: string;
 }
 
+/**
+ * WorkerManager에 기록한 워커 태스크 결과 (푸시 알림용)
+ */
+interface WorkerTaskOutcome {
+  taskTitle: string;
+  /** retrying: 실패했지만 재시도 대기(pending)로 되돌림 */
+  status: 'done' | 'failed' | 'retrying';
+  error: string | null;
+}
+
+// ============================================================================
+// 상수
+// ============================================================================
+
+/** 푸시 알림 본문 최대 길이 */
+const PUSH_BODY_MAX_LENGTH = 120;
+
+/** 워커 대화 이름 (슬롯 1은 'Worker', 2부터 'Worker 2', 'Worker 3', ...) */
+const WORKER_CONVERSATION_NAME = 'Worker';
+
+/** 사용량 한도에 걸린 계정을 자동 전환 대상에서 빼두는 시간 (ms) */
+const ACCOUNT_EXHAUSTED_COOLDOWN_MS = 5 * 60 * 60 * 1000;
+
+/** 예약 실행 응답 대기 제한 시간 (ms) */
+const SCHEDULE_RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
 // ============================================================================
 // Pylon 클래스
 // ============================================================================
@@ -369,6 +522,15 @@ export class Pylon {
   /** 캐싱된 계정 정보 */
   private cachedAccount: PersistedAccount | null = null;
 
+  /** 마지막 계정 전환 시각 (자동 전환 시 이미 바뀐 계정인지 판단용) */
+  private accountSwitchedAt = 0;
+
+  /** 사용량 한도에 걸린 계정: Map<accountId, 감지 시각> */
+  private readonly exhaustedAccounts: Map<AccountType, number> = new Map();
+
+  /** 진행 중인 계정 자동 전환 (동시에 여러 대화가 한도에 걸려도 한 번만 전환) */
+  private accountFailover: Promise<boolean> | null = null;
+
   /** 세션별 시청자: Map<conversationId, Set<encodedDeviceId>> (숫자) */
   private readonly sessionViewers: Map<number, Set<number>> = new Map();
 
@@ -407,6 +569,51 @@ export class Pylon {
   /** 에셋 서버 포트 */
   private assetServerPort: number = 0;
 
+  /** 마지막으로 Relay에 보고한 활성 세션 (JSON, 변경 시에만 재보고) */
+  private lastReportedSessions: string | null = null;
+
+  /** 실행 중인 도구 (toolUseId → 시작 정보, 감사 로그의 실행 시간 계산용) */
+  private readonly runningTools: Map<
+    string,
+    { toolName: string; input: Record<string, unknown>; startedAt: number }
+  > = new Map();
+
+  /** 예약 실행 스케줄러 (scheduleStore가 있을 때만) */
+  private readonly scheduler: Scheduler | null;
+
+  /** 태스크를 마친 워커 대화 (idle이 되면 다음 태스크로 빈 슬롯을 채움) */
+  private readonly finishedWorkerConversations: Set<number> = new Set();
+
+  /** 워커 대화별 태스크 제한 시간 타이머 */
+  private readonly workerTimeoutTimers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  /** 진행 중인 태스크 worktree 정리 (태스크 ID → 정리 작업, 재시도는 끝난 뒤 시작) */
+  private readonly taskWorktreeCleanups: Map<string, Promise<void>> = new Map();
+
+  /**
+   * 대화별 첫 git 기준점 기록 작업
+   *
+   * 동시에 온 첫 메시지들이 같은 작업을 기다리고, 리포지터리가 아니면 결과를 남겨 다시 확인하지 않습니다.
+   * (작업 디렉토리가 바뀌면 다시 확인)
+   */
+  private readonly gitBaselineTasks: Map<number, { workingDir: string; task: Promise<void> }> = new Map();
+
+  /**
+   * 예약 실행의 응답 결과 대기 (실행 ID → 대화 ID와 결과 콜백, 에러 메시지 또는 성공이면 null)
+   *
+   * 같은 대화를 재사용하는 예약이 동시에 실행돼도 서로의 대기를 덮어쓰지 않도록 실행마다 따로 둡니다.
+   */
+  private readonly scheduleRunWaiters: Map<
+    number,
+    { conversationId: number; settle: (error: string | null) => void }
+  > = new Map();
+
+  /** 예약 실행 ID 카운터 */
+  private scheduleRunCounter = 0;
+
+  /** 직접 실행한 위젯의 도구 사용 ID 카운터 */
+  private widgetLaunchCounter = 0;
+
   // ==========================================================================
   // 생성자
   // ==========================================================================
@@ -421,6 +628,14 @@ export class Pylon {
     this.config = config;
     this.deps = deps;
 
+    this.scheduler = deps.scheduleStore
+      ? new Scheduler(deps.scheduleStore, {
+          execute: (schedule) => this.executeSchedule(schedule),
+          onChange: () => this.broadcastSchedules(),
+          onRun: (schedule, run) => this.reportScheduleRun(schedule, run),
+        })
+      : null;
+
     // 콜백 설정
     this.setupCallbacks();
   }
@@ -465,6 +680,9 @@ export class Pylon {
     // 에셋 서버 시작
     await this.startAssetServer();
 
+    // 예약 실행 시작
+    this.scheduler?.start();
+
     // Relay 연결
     this.deps.relayClient.connect();
   }
@@ -529,20 +747,27 @@ export class Pylon {
     }
 
     try {
-      const info = await this.deps.credentialManager.getCurrentAccount();
+      const info = await this.deps.credentialManager.getCurrentAccount(this.getAccounts());
       if (info) {
-          // 이전에 저장된 계정과 비교
+        // 이전에 저장된 계정과 비교
         const persistence = this.deps.persistence;
         const lastAccount = persistence?.loadLastAccount();
-        const accountChanged = lastAccount !== undefined && lastAccount.current !== info.account;
+
+        // 토큰 갱신 등으로 백업과 달라져 판별하지 못하면 마지막으로 전환한 계정을 유지
+        const lastKnown =
+          lastAccount?.current && this.deps.accountStore?.getAccount(lastAccount.current)
+            ? lastAccount.current
+            : null;
+        const current = info.account ?? lastKnown;
+        const accountChanged = lastAccount !== undefined && lastAccount.current !== current;
 
         if (accountChanged) {
-          this.log(`[Account] Changed: ${lastAccount.current} → ${info.account}`);
+          this.log(`[Account] Changed: ${lastAccount.current} → ${current}`);
         }
 
         // 현재 계정 캐싱 및 저장
         const accountData: PersistedAccount = {
-          current: info.account,
+          current,
           subscriptionType: info.subscriptionType,
         };
         this.cachedAccount = accountData;
@@ -550,7 +775,7 @@ export class Pylon {
           await persistence.saveLastAccount(accountData);
         }
 
-        this.log(`[Account] Cached: ${info.account} (${info.subscriptionType})`);
+        this.log(`[Account] Cached: ${current ?? 'unknown'} (${info.subscriptionType})`);
         return accountChanged;
       } else {
         this.cachedAccount = null;
@@ -579,6 +804,18 @@ export class Pylon {
     // 워크스페이스 저장
     await this.saveWorkspaceStore();
 
+    // 예약 실행 중지
+    this.scheduler?.stop();
+    for (const waiter of Array.from(this.scheduleRunWaiters.values())) {
+      waiter.settle('Pylon이 종료되었습니다');
+    }
+
+    // 워커 제한 시간 타이머 해제
+    for (const timer of this.workerTimeoutTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.workerTimeoutTimers.clear();
+
     // Claude 세션 정리
     this.deps.agentManager.cleanup();
 
@@ -596,6 +833,12 @@ export class Pylon {
     // CommandStore 종료
     this.deps.commandStore?.close();
 
+    // AuditStore 종료
+    this.deps.auditStore?.close();
+
+    // ScheduleStore 종료
+    this.deps.scheduleStore?.close();
+
     // Relay 연결 종료
     this.deps.relayClient.disconnect();
   }
@@ -673,15 +916,23 @@ export class Pylon {
     this.handleClaudeSend({ conversationId, message }, undefined);
   }
 
+  /**
+   * 예약 실행 스케줄러 반환 (MCP 예약 도구에서 사용)
+   */
+  getScheduler(): Scheduler | null {
+    return this.scheduler;
+  }
+
   /**
    * 대화 삭제 트리거 (외부에서 호출 가능)
    *
    * @description
    * MCP delete_conversation 등에서 대화 삭제를 요청할 때 호출합니다.
    * agent 정리, widget 정리, 메시지 정리, store 삭제를 모두 수행합니다.
+   * 대화 전용 worktree와 브랜치는 그대로 남깁니다 (worktreeAction 기본값 keep과 같음).
    */
   triggerConversationDelete(conversationId: number): boolean {
-    return this.handleConversationDelete({ conversationId });
+    return this.removeConversation(conversationId as ConversationId);
   }
 
   /**
@@ -775,6 +1026,62 @@ export class Pylon {
       return;
     }
 
+    if (type === 'tool_output_request') {
+      this.handleToolOutputRequest(payload, from);
+      return;
+    }
+
+    // 메시지 전문 검색
+    if (type === 'search_request') {
+      this.handleSearchRequest(payload, from);
+      return;
+    }
+
+    // 감사 로그 조회
+    if (type === 'audit_log_request') {
+      this.handleAuditLogRequest(payload, from);
+      return;
+    }
+
+    // 예약 실행
+    if (type === 'schedule_list') {
+      this.handleScheduleList(from);
+      return;
+    }
+
+    if (type === 'schedule_save') {
+      this.handleScheduleSave(payload, from);
+      return;
+    }
+
+    if (type === 'schedule_delete') {
+      this.handleScheduleDelete(payload);
+      return;
+    }
+
+    if (type === 'schedule_run') {
+      this.handleScheduleRun(payload);
+      return;
+    }
+
+    // 대화 내보내기
+    if (type === 'conversation_export') {
+      this.handleConversationExport(payload, from);
+      return;
+    }
+
+    // 대화 가져오기
+    if (type === 'conversation_import') {
+      this.handleConversationImport(payload, from);
+      return;
+    }
+
+    // 대화 분기
+    if (type === 'conversation_fork') {
+      this.handleConversationFork(payload, from);
+      return;
+    }
+
     // Share 히스토리 요청 (Viewer용)
     if (type === 'share_history') {
       this.handleShareHistory(payload, from);
@@ -799,7 +1106,7 @@ export class Pylon {
     }
 
     if (type === 'workspace_delete') {
-      this.handleWorkspaceDelete(payload, from);
+      void this.handleWorkspaceDelete(payload, from);
       return;
     }
 
@@ -830,7 +1137,7 @@ export class Pylon {
     }
 
     if (type === 'conversation_delete') {
-      this.handleConversationDelete(payload);
+      void this.handleConversationDelete(payload, from);
       return;
     }
 
@@ -867,7 +1174,7 @@ export class Pylon {
     }
 
     if (type === 'claude_permission') {
-      this.handleClaudePermission(payload);
+      this.handleClaudePermission(payload, from);
       return;
     }
 
@@ -886,6 +1193,11 @@ export class Pylon {
       return;
     }
 
+    if (type === 'claude_set_agent_settings') {
+      this.handleClaudeSetAgentSettings(payload);
+      return;
+    }
+
     if (type === 'suggestion_request') {
       const { conversationId } = payload as { conversationId: number };
       this.log(`[Suggestion] suggestion_request: convId=${conversationId}`);
@@ -961,6 +1273,26 @@ export class Pylon {
       return;
     }
 
+    if (type === 'task_create') {
+      this.handleTaskCreate(payload, from);
+      return;
+    }
+
+    if (type === 'task_update') {
+      this.handleTaskUpdate(payload, from);
+      return;
+    }
+
+    if (type === 'task_reorder') {
+      this.handleTaskReorder(payload, from);
+      return;
+    }
+
+    if (type === 'task_branch') {
+      void this.handleTaskBranch(payload, from);
+      return;
+    }
+
     // ===== 워커 관련 =====
     if (type === 'worker_status') {
       this.handleWorkerStatus(payload, from);
@@ -977,6 +1309,37 @@ export class Pylon {
       return;
     }
 
+    // ===== git 관련 =====
+    if (type === 'git_status') {
+      void this.handleGitStatus(payload, from);
+      return;
+    }
+
+    if (type === 'git_diff') {
+      void this.handleGitDiff(payload, from);
+      return;
+    }
+
+    if (type === 'git_log') {
+      void this.handleGitLog(payload, from);
+      return;
+    }
+
+    if (type === 'git_revert') {
+      void this.handleGitRevert(payload, from);
+      return;
+    }
+
+    if (type === 'git_commit') {
+      void this.handleGitCommit(payload, from);
+      return;
+    }
+
+    if (type === 'git_commit_draft') {
+      void this.handleGitCommitDraft(payload, from);
+      return;
+    }
+
     // ===== 디버그 로그 =====
     if (type === 'debug_log') {
       this.handleDebugLog(payload, from);
@@ -1001,6 +1364,16 @@ export class Pylon {
       return;
     }
 
+    if (type === 'account_save') {
+      this.handleAccountSave(payload, from);
+      return;
+    }
+
+    if (type === 'account_delete') {
+      this.handleAccountDelete(payload, from);
+      return;
+    }
+
     // ===== 공유 생성 =====
     if (type === 'share_create') {
       this.handleShareCreate(payload, from);
@@ -1057,6 +1430,16 @@ export class Pylon {
       return;
     }
 
+    // ===== Widget 카탈로그 =====
+    if (type === 'widget_list') {
+      this.handleWidgetList(from);
+      return;
+    }
+    if (type === 'widget_launch') {
+      this.handleWidgetLaunch(payload, from);
+      return;
+    }
+
     // 알 수 없는 메시지는 무시
   }
 
@@ -1180,7 +1563,10 @@ export class Pylon {
    * Widget 소유권 요청 처리
    *
    * - ready 상태: 첫 claim → owner가 되어 CLI 시작
+   * - owner 없는 running 상태: 다시 붙기
    * - running 상태: 기존 세션 종료, MCP 도구에 cancelled 반환
+   *
+   * 새 owner에게는 마지막으로 렌더링된 view를 다시 보냅니다.
    */
   private handleWidgetClaim(
     payload: Record<string, unknown> | undefined,
@@ -1206,9 +1592,22 @@ export class Pylon {
       return;
     }
 
-    if ('started' in result && result.started) {
-      this.log(`[Widget] Ownership claimed, CLI started: session=${sessionId}, owner=${clientId}`);
-      // widget_render는 CLI 출력에서 발생하므로 여기서는 아무것도 전송하지 않음
+    if (('started' in result && result.started) || ('reattached' in result && result.reattached)) {
+      this.log(`[Widget] Ownership claimed (${'started' in result ? 'CLI started' : 'reattached'}): session=${sessionId}, owner=${clientId}`);
+      // 이후 widget_render는 CLI 출력에서 발생, 재연결/재시작이면 마지막 화면부터 복원
+      const session = this.deps.widgetManager?.getSession(sessionId);
+      if (session?.lastView) {
+        this.send({
+          type: 'widget_render',
+          payload: {
+            conversationId: session.conversationId,
+            toolUseId: session.toolUseId,
+            sessionId,
+            view: session.lastView,
+          },
+          to: [clientId],
+        });
+      }
     } else if ('cancelled' in result && result.cancelled) {
       this.log(`[Widget] Session cancelled by claim: session=${sessionId}, claimer=${clientId}`);
       const session = this.deps.widgetManager?.getSession(sessionId);
@@ -1288,6 +1687,96 @@ export class Pylon {
     this.sendWidgetCheckResult(conversationId, sessionId, true, from?.deviceId);
   }
 
+  /**
+   * 위젯 카탈로그 요청 처리
+   */
+  private handleWidgetList(from?: MessageFrom): void {
+    if (!from) return;
+
+    this.send({
+      type: 'widget_list_result',
+      to: [from.deviceId],
+      payload: {
+        deviceId: this.config.deviceId,
+        widgets: this.deps.widgetRegistry?.list() ?? [],
+      },
+    });
+  }
+
+  /**
+   * 카탈로그 위젯 직접 실행 (프롬프트 없이)
+   *
+   * @description
+   * 입력을 manifest 스키마로 검증한 뒤 run_widget 도구 호출과 같은 모양의
+   * 도구 메시지를 대화에 남기고 위젯 세션을 시작합니다.
+   * 위젯이 끝나면 결과로 도구 메시지를 완료 처리합니다 (Claude에는 전달하지 않음).
+   */
+  private handleWidgetLaunch(payload: Record<string, unknown> | undefined, from?: MessageFrom): void {
+    if (!from) return;
+
+    const conversationId = payload?.conversationId;
+    const widget = payload?.widget;
+    if (typeof conversationId !== 'number' || typeof widget !== 'string') return;
+
+    const input = (payload?.input ?? {}) as Record<string, unknown>;
+
+    const sendResult = (result: { success: boolean; toolUseId?: string; error?: string }) => {
+      this.send({
+        type: 'widget_launch_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, conversationId, widget, ...result },
+      });
+    };
+
+    const mcpServer = this.deps.mcpServer;
+    const entry = this.deps.widgetRegistry?.list().find((w) => w.name === widget);
+    if (!mcpServer || !entry) {
+      sendResult({ success: false, error: `위젯을 찾을 수 없습니다: ${widget}` });
+      return;
+    }
+    if (!this.deps.workspaceStore.getConversation(conversationId as ConversationId)) {
+      sendResult({ success: false, error: '대화를 찾을 수 없습니다.' });
+      return;
+    }
+    if (!entry.available) {
+      sendResult({ success: false, error: `환경변수가 설정되지 않았습니다: ${entry.missingEnv.join(', ')}` });
+      return;
+    }
+    const { value, errors } = validateWidgetInput(entry.inputSchema, input);
+    if (errors.length > 0) {
+      sendResult({ success: false, error: `입력이 올바르지 않습니다: ${errors.join('; ')}` });
+      return;
+    }
+
+    const toolUseId = `widget-launch-${++this.widgetLaunchCounter}-${Date.now()}`;
+    const toolName = 'mcp__estelle-mcp__run_widget';
+    this.sendClaudeEvent(conversationId, {
+      type: 'toolInfo',
+      toolUseId,
+      toolName,
+      input: { widget, input: value },
+      parentToolUseId: null,
+    });
+    sendResult({ success: true, toolUseId });
+
+    mcpServer
+      .runRegisteredWidget(conversationId, toolUseId, widget, value)
+      .catch((err): { success: boolean; result?: unknown; error?: string } => ({
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      }))
+      .then((result) => {
+        this.sendClaudeEvent(conversationId, {
+          type: 'toolComplete',
+          toolUseId,
+          toolName,
+          success: result.success,
+          result: result.success ? JSON.stringify({ success: true, result: result.result }) : undefined,
+          error: result.success ? undefined : result.error,
+        });
+      });
+  }
+
   /**
    * Widget 세션 유효성 확인 결과 전송
    */
@@ -1343,33 +1832,81 @@ export class Pylon {
   }
 
   /**
-   * 클라이언트 연결 해제 시 위젯 정리
+   * 위젯 에러 브로드캐스트
+   *
+   * @description
+   * 위젯이 비정상 종료되거나 샌드박스 제한을 넘어 종료되면 모든 클라이언트에게 사유를 알립니다.
+   *
+   * @param conversationId - 대화 ID
+   * @param toolUseId - 도구 사용 ID
+   * @param sessionId - 위젯 세션 ID
+   * @param error - 종료 사유
+   * @param limit - 위반한 샌드박스 제한 (제한 위반일 때만)
+   */
+  sendWidgetError(
+    conversationId: number,
+    toolUseId: string,
+    sessionId: string,
+    error: string,
+    limit?: WidgetLimitKind,
+  ): void {
+    this.log(`[Widget] sendWidgetError: session=${sessionId}, error=${error}`);
+    const payload: WidgetErrorPayload = { conversationId, sessionId, toolUseId, error };
+    if (limit) {
+      payload.limit = limit;
+    }
+    this.send({
+      type: 'widget_error',
+      payload,
+      broadcast: 'clients',
+    });
+  }
+
+  /**
+   * 클라이언트 연결 해제 시 위젯 소유권 해제
    *
    * @description
-   * 해당 클라이언트가 소유한 모든 위젯 세션을 종료하고,
-   * 다른 클라이언트들에게 에러를 브로드캐스트합니다.
+   * 해당 클라이언트가 소유한 위젯 세션은 계속 실행하고 owner만 비운 뒤,
+   * 다른 클라이언트들이 다시 붙을 수 있도록 알립니다.
    *
    * @param clientId - 연결 해제된 클라이언트 ID
    */
   private handleClientDisconnect(clientId: number): void {
-    const sessions = this.deps.widgetManager?.getSessionsByOwner(clientId);
+    const sessions = this.deps.widgetManager?.detachOwner(clientId);
 
     for (const session of sessions ?? []) {
-      // 위젯 강제 종료
-      this.deps.widgetManager?.cancelSession(session.sessionId);
+      this.log(`[Widget] Owner disconnected, session detached: ${session.sessionId}`);
+      this.sendWidgetResumable(session);
+    }
+  }
 
-      // 에러 브로드캐스트
-      this.send({
-        type: 'widget_error',
-        payload: {
-          conversationId: session.conversationId,
-          sessionId: session.sessionId,
-          toolUseId: session.toolUseId,
-          error: 'Widget owner disconnected',
-        },
-        broadcast: 'clients',
-      });
+  /**
+   * 다시 붙을 수 있는 위젯 세션 알림
+   *
+   * widget_ready를 preferredClientId 없이 보내 자동 claim 없이 시작 버튼만 표시하고,
+   * 마지막 view를 함께 보내 위젯 카드가 빈 채로 남지 않게 합니다.
+   *
+   * @param targetDeviceId - 없으면 전체 클라이언트에 브로드캐스트
+   */
+  private sendWidgetResumable(session: WidgetSessionInfo, targetDeviceId?: number): void {
+    const message: Record<string, unknown> = {
+      type: 'widget_ready',
+      payload: {
+        conversationId: session.conversationId,
+        sessionId: session.sessionId,
+        toolUseId: session.toolUseId,
+        preferredClientId: null,
+        view: session.lastView ?? null,
+      },
+    };
+
+    if (targetDeviceId !== undefined) {
+      message.to = [targetDeviceId];
+    } else {
+      message.broadcast = 'clients';
     }
+
+    this.send(message);
   }
 
   /**
@@ -1391,6 +1928,8 @@ export class Pylon {
         conversationId as ConversationId,
         (event as Record<string, unknown>).session_id as string
       );
+      // 분기한 세션이 시작되면 분기 대기 정보 제거
+      this.deps.workspaceStore.clearPendingFork(conversationId as ConversationId);
       this.saveWorkspaceStore().catch((err) => {
         this.log(`[Persistence] Failed to save agentSessionId: ${err}`);
       });
@@ -1401,6 +1940,26 @@ export class Pylon {
       this.accumulateUsage(event);
     }
 
+    // 워커/예약 실행 대화가 끝나면 결과 처리, 세션이 정리되면 빈 슬롯 채우기
+    let taskOutcome: WorkerTaskOutcome | null = null;
+    if (event.type === 'result' || event.type === 'error') {
+      taskOutcome = this.completeWorkerForConversation(conversationId, event);
+      this.settleScheduleRuns(conversationId, this.describeAgentFailure(event));
+    }
+    if (event.type === 'state' && (event as Record<string, unknown>).state === 'idle') {
+      this.refillWorkerSlotsAfter(conversationId);
+      // 중지 등으로 result 없이 끝난 예약 실행
+      this.settleScheduleRuns(conversationId, '응답 없이 종료되었습니다');
+    }
+
+    // 도구 실행 감사 로그
+    if (event.type === 'toolInfo' || event.type === 'toolComplete') {
+      this.recordToolAudit(conversationId, event);
+    }
+
+    // 사용자 확인이 필요하거나 작업이 끝나면 푸시 알림
+    this.notifyPush(conversationId, event, taskOutcome);
+
     const message = {
       type: 'claude_event',
       payload: { conversationId, event },
@@ -1422,6 +1981,7 @@ export class Pylon {
       const state = (event as Record<string, unknown>).state as ConversationStatusValue;
       this.deps.workspaceStore.updateConversationStatus(conversationId as ConversationId, state);
       this.scheduleSaveWorkspaceStore();
+      this.reportActiveSessions();
 
       this.send({
         type: 'conversation_status',
@@ -1440,25 +2000,212 @@ export class Pylon {
     }
   }
 
-  // ==========================================================================
-  // Private 메서드 - 콜백 설정
-  // ==========================================================================
-
   /**
-   * 콜백 설정
+   * 푸시 알림 요청
+   *
+   * @description
+   * 권한 요청, 질문, 완료/에러 이벤트를 Relay에 보고합니다.
+   * 실제 발송 여부는 Relay가 구독한 디바이스의 알림 설정에 따라 결정합니다.
+   * 워커 대화의 완료/에러는 WorkerManager에 기록한 태스크 결과로 태스크 알림(task)을 보내고,
+   * 이미 태스크를 마친 워커 대화(시간 초과로 중지 등)의 완료/에러는 다시 알리지 않습니다.
+   *
+   * @param taskOutcome - 이 이벤트로 완료 처리한 워커 태스크 결과 (워커 대화가 아니면 null)
    */
-  private setupCallbacks(): void {
-    // Relay 메시지 콜백
-    this.deps.relayClient.onMessage((data) => {
-      this.deps.packetLogger.logRecv('relay', data);
-      this.handleMessage(data as Record<string, unknown>);
-    });
-
+  private notifyPush(conversationId: number, event: AgentManagerEvent, taskOutcome: WorkerTaskOutcome | null = null): void {
+    if (taskOutcome) {
+      this.notifyTaskPush(conversationId, taskOutcome);
+      return;
+    }
+
+    const data = event as Record<string, unknown>;
+    let kind: PushEventKind;
+    let label: string;
+    let body: string;
+
+    switch (event.type) {
+      case 'permission_request':
+        kind = 'permission';
+        label = '권한 요청';
+        body = this.describePushTool(data.toolName as string, data.toolInput as Record<string, unknown>);
+        break;
+      case 'askQuestion': {
+        const questions = data.questions as Array<{ question?: string }> | undefined;
+        kind = 'question';
+        label = '질문';
+        body = questions?.[0]?.question ?? '답변을 기다리고 있습니다';
+        break;
+      }
+      case 'result':
+        if (this.finishedWorkerConversations.has(conversationId)) return;
+        kind = data.subtype === 'success' ? 'finished' : 'error';
+        label = kind === 'finished' ? '완료' : '에러';
+        body = kind === 'finished' ? '응답이 완료되었습니다' : `종료: ${String(data.subtype)}`;
+        break;
+      case 'error':
+        if (this.finishedWorkerConversations.has(conversationId)) return;
+        kind = 'error';
+        label = '에러';
+        body = String(data.error ?? '알 수 없는 에러');
+        break;
+      default:
+        return;
+    }
+
+    this.sendPush(conversationId, kind, label, body);
+  }
+
+  /**
+   * 워커 태스크 결과 푸시 알림
+   */
+  private notifyTaskPush(conversationId: number, outcome: WorkerTaskOutcome): void {
+    const labels = { done: '태스크 완료', failed: '태스크 실패', retrying: '태스크 재시도 대기' };
+    const body = outcome.error ? `${outcome.taskTitle}: ${outcome.error}` : outcome.taskTitle;
+    this.sendPush(conversationId, 'task', labels[outcome.status], body);
+  }
+
+  /**
+   * 푸시 알림 요청 전송 (제목에 워크스페이스/대화 이름, 본문은 길이 제한)
+   */
+  private sendPush(conversationId: number, kind: PushEventKind, label: string, body: string): void {
+    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
+    const { workspaceId } = decodeConversationId(conversationId as ConversationId);
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+
+    const target = [workspace?.name, conversation?.name].filter(Boolean).join(' / ');
+    this.send({
+      type: 'push_notify',
+      payload: {
+        event: kind,
+        title: target ? `${label} · ${target}` : label,
+        body: body.length > PUSH_BODY_MAX_LENGTH ? `${body.slice(0, PUSH_BODY_MAX_LENGTH - 1)}…` : body,
+        conversationId,
+        workspaceId,
+      },
+    });
+  }
+
+  /**
+   * 권한 요청 알림 본문 (도구 이름 + 대표 입력값)
+   */
+  private describePushTool(toolName: string, input: Record<string, unknown> | undefined): string {
+    const detail = input?.command ?? input?.file_path ?? input?.pattern ?? input?.url ?? input?.description;
+    return typeof detail === 'string' ? `${toolName}: ${detail.split('\n')[0]}` : toolName;
+  }
+
+  /**
+   * 대화 누적 비용 저장
+   *
+   * @description
+   * AgentManager의 onConversationCost 콜백에서 호출됩니다.
+   * 비용 한도는 이 값으로 확인하므로 Pylon을 재시작해도 누적 비용이 유지됩니다.
+   *
+   * @param conversationId - 대화 ID
+   * @param spentUsd - 새 누적 비용 (USD)
+   */
+  recordConversationCost(conversationId: number, spentUsd: number): void {
+    if (!this.deps.workspaceStore.setConversationCost(conversationId as ConversationId, spentUsd)) return;
+    this.saveWorkspaceStore().catch((err) => {
+      this.log(`[Persistence] Failed to save conversation cost: ${err}`);
+    });
+  }
+
+  /**
+   * 권한 결정 감사 로그 기록
+   *
+   * @description
+   * AgentManager의 onPermissionDecision 콜백에서 호출됩니다.
+   *
+   * @param conversationId - 대화 ID
+   * @param record - 권한 결정 기록
+   */
+  recordPermissionDecision(conversationId: number, record: PermissionDecisionRecord): void {
+    this.appendAudit({
+      timestamp: Date.now(),
+      kind: 'permission',
+      conversationId,
+      workspaceId: decodeConversationId(conversationId as ConversationId).workspaceId,
+      toolName: record.toolName,
+      toolInput: record.input,
+      decision: record.decision,
+      reason: record.reason,
+      decidedBy: record.decidedBy,
+      permissionMode: record.permissionMode,
+      durationMs: record.durationMs,
+    });
+  }
+
+  /**
+   * 도구 실행 감사 로그 기록
+   *
+   * @description
+   * toolInfo에서 시작 시각과 전체 입력을 기억해두고,
+   * toolComplete에서 결과와 실행 시간을 함께 기록합니다.
+   */
+  private recordToolAudit(conversationId: number, event: AgentManagerEvent): void {
+    if (!this.deps.auditStore) return;
+
+    const { toolUseId, toolName, input, success, error } = event as Record<string, unknown>;
+    if (typeof toolUseId !== 'string') return;
+
+    if (event.type === 'toolInfo') {
+      this.runningTools.set(toolUseId, {
+        toolName: toolName as string,
+        input: (input as Record<string, unknown>) ?? {},
+        startedAt: Date.now(),
+      });
+      return;
+    }
+
+    const started = this.runningTools.get(toolUseId);
+    this.runningTools.delete(toolUseId);
+
+    this.appendAudit({
+      timestamp: Date.now(),
+      kind: 'tool',
+      conversationId,
+      workspaceId: decodeConversationId(conversationId as ConversationId).workspaceId,
+      toolName: started?.toolName ?? (toolName as string),
+      toolInput: started?.input ?? {},
+      toolUseId,
+      success: success === true,
+      ...(typeof error === 'string' && { error }),
+      ...(started && { durationMs: Date.now() - started.startedAt }),
+    });
+  }
+
+  /**
+   * 감사 로그 추가 (기록 실패는 로그만 남기고 무시)
+   */
+  private appendAudit(entry: Omit<AuditEntry, 'id'>): void {
+    if (!this.deps.auditStore) return;
+    try {
+      this.deps.auditStore.append(entry);
+    } catch (err) {
+      this.deps.logger.error(`[Audit] Failed to append ${entry.kind} entry: ${err}`);
+    }
+  }
+
+  // ==========================================================================
+  // Private 메서드 - 콜백 설정
+  // ==========================================================================
+
+  /**
+   * 콜백 설정
+   */
+  private setupCallbacks(): void {
+    // Relay 메시지 콜백
+    this.deps.relayClient.onMessage((data) => {
+      this.deps.packetLogger.logRecv('relay', data);
+      this.handleMessage(data as Record<string, unknown>);
+    });
+
     // Relay 상태 변경 콜백
     this.deps.relayClient.onStatusChange((isConnected) => {
       if (!isConnected) {
         this.authenticated = false;
         this.deviceInfo = null;
+        // 재연결 시 Relay에 활성 세션을 다시 보고
+        this.lastReportedSessions = null;
       }
     });
   }
@@ -1533,6 +2280,10 @@ export class Pylon {
   /**
    * 히스토리 요청 처리 (페이징: 100KB 제한)
    *
+   * @description
+   * 도구 입출력은 워크스페이스 보관 정책의 미리보기 길이로 잘라서 보내고,
+   * 잘린 메시지는 truncated로 표시합니다 (원문은 tool_output_request로 조회).
+   *
    * @param loadBefore - 이 인덱스 이전의 메시지를 로드 (0이면 최신부터)
    */
   private handleHistoryRequest(
@@ -1548,6 +2299,7 @@ export class Pylon {
     const messages = this.deps.messageStore.getMessages(eid, {
       maxBytes: MAX_BYTES,
       loadBefore: loadBefore as number,
+      preview: this.deps.workspaceStore.getRetentionPolicy(eid as ConversationId),
     });
 
     // hasMore 계산:
@@ -1578,690 +2330,1483 @@ export class Pylon {
   }
 
   /**
-   * share_history 요청 처리 (Viewer용)
+   * 전체 도구 출력 요청 처리
    *
    * @description
-   * Viewer가 보낸 share_history 요청을 처리합니다.
-   * shareId를 검증하고, 유효하면 해당 대화의 메시지 목록을 반환합니다.
-   *
-   * @param payload - 요청 페이로드 ({ shareId: string })
-   * @param from - 발신자 정보
+   * 미리보기로 잘렸거나 보관 테이블로 옮겨진 도구 메시지의 원문을 복원해 응답합니다.
    */
-  private handleShareHistory(
+  private handleToolOutputRequest(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const shareId = payload?.shareId as string | undefined;
-    const fromDeviceId = from?.deviceId;
-
-    // from이 없으면 응답 불가
-    if (fromDeviceId === undefined) return;
+    if (from?.deviceId === undefined) return;
+    if (!isToolOutputRequestPayload(payload)) return;
 
-    // shareId 필수 확인
-    if (!shareId || shareId.trim() === '') {
+    const { conversationId, messageId } = payload;
+    const reply = (result: Omit<ToolOutputResultPayload, 'deviceId' | 'conversationId' | 'messageId'>) => {
       this.send({
-        type: 'share_history_result',
-        to: [fromDeviceId],
-        payload: {
-          success: false,
-          error: 'Missing shareId',
-        },
+        type: 'tool_output_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, conversationId, messageId, ...result },
       });
+    };
+
+    const message = this.deps.messageStore.getFullMessage(conversationId, messageId);
+    if (!message) {
+      reply({ error: 'Message not found' });
       return;
     }
+    reply({ message });
+  }
 
-    // shareStore가 없으면 에러
-    if (!this.deps.shareStore) {
-      this.send({
-        type: 'share_history_result',
-        to: [fromDeviceId],
-        payload: {
-          success: false,
-          error: 'Share feature not available',
-        },
-      });
-      return;
+  /**
+   * 보관 정책 적용 (대화가 속한 워크스페이스 기준)
+   */
+  private applyRetention(conversationId: number): void {
+    try {
+      const policy = this.deps.workspaceStore.getRetentionPolicy(conversationId as ConversationId);
+      const archived = this.deps.messageStore.applyRetention(conversationId, policy);
+      if (archived > 0) {
+        this.log(`[Retention] Archived ${archived} tool outputs in conversation ${conversationId}`);
+      }
+    } catch (err) {
+      this.deps.logger.error(`[Pylon] Failed to apply retention policy: ${err}`);
     }
+  }
 
-    // shareId 검증
-    const validateResult = this.deps.shareStore.validate(shareId);
-    if (!validateResult.valid || validateResult.conversationId === undefined) {
+  /**
+   * 메시지 전문 검색 처리
+   *
+   * @description
+   * 이 Pylon의 모든 워크스페이스(또는 지정된 워크스페이스)의 대화에서
+   * 메시지를 검색하고, 결과에 워크스페이스/대화 이름을 붙여 요청자에게 응답합니다.
+   */
+  private handleSearchRequest(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    if (from?.deviceId === undefined) return;
+
+    if (!isSearchRequestPayload(payload)) {
       this.send({
-        type: 'share_history_result',
-        to: [fromDeviceId],
+        type: 'search_result',
+        to: [from.deviceId],
         payload: {
-          success: false,
-          error: 'Share not found',
+          deviceId: this.config.deviceId,
+          query: '',
+          results: [],
+          error: 'Invalid search request',
         },
       });
       return;
     }
 
-    const conversationId = validateResult.conversationId;
+    const { query, workspaceId, limit } = payload;
 
-    // 공유 전용 메서드: 시간순(과거→최신) 전체 메시지 반환
-    const messages = this.deps.messageStore.getSharedMessageHistory(conversationId);
+    // 대화 ID → 워크스페이스/대화 정보 매핑
+    const targets = new Map<number, { workspace: Workspace; conversation: Conversation }>();
+    for (const workspace of this.deps.workspaceStore.getAllWorkspaces()) {
+      if (workspaceId !== undefined && workspace.workspaceId !== workspaceId) continue;
+      for (const conversation of workspace.conversations) {
+        targets.set(conversation.conversationId, { workspace, conversation });
+      }
+    }
+
+    let results: SearchHit[] = [];
+    let error: string | undefined;
+
+    try {
+      const hits = this.deps.messageStore.search(query, {
+        sessionIds: Array.from(targets.keys()),
+        limit,
+      });
+
+      results = hits.flatMap((hit) => {
+        const target = targets.get(hit.sessionId);
+        if (!target) return [];
+        return [{
+          workspaceId: target.workspace.workspaceId,
+          workspaceName: target.workspace.name,
+          conversationId: target.conversation.conversationId,
+          conversationName: target.conversation.name,
+          messageId: hit.messageId,
+          role: hit.role,
+          messageType: hit.type,
+          toolName: hit.toolName,
+          snippet: hit.snippet,
+          timestamp: hit.timestamp,
+          index: hit.index,
+        }];
+      });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Search] Failed to search "${query}": ${error}`);
+    }
 
-    // share_history_result 응답
     this.send({
-      type: 'share_history_result',
-      to: [fromDeviceId],
+      type: 'search_result',
+      to: [from.deviceId],
       payload: {
-        shareId,
-        conversationId,
-        messages,
+        deviceId: this.config.deviceId,
+        query,
+        results,
+        ...(error && { error }),
       },
     });
   }
 
   /**
-   * slash_commands_request 처리
+   * 감사 로그 조회 처리
    *
    * @description
-   * 클라이언트가 `/` 입력 시 사용 가능한 슬래시 명령어 목록을 요청합니다.
-   * .claude/skills/ 폴더에서 스킬 파일을 읽어서 반환합니다.
-   *
-   * @param payload - 요청 페이로드 ({ conversationId: number })
-   * @param from - 발신자 정보
+   * 조건에 맞는 감사 로그를 최신순으로 조회하고,
+   * 현재 워크스페이스/대화 이름을 채워서 응답합니다 (삭제된 대화는 이름 없음).
    */
-  private handleSlashCommandsRequest(
+  private handleAuditLogRequest(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    this.log(`[slash_commands_request] from=${JSON.stringify(from)}, payload=${JSON.stringify(payload)}`);
-
-    const fromDeviceId = from?.deviceId;
-    if (fromDeviceId === undefined) return;
+    if (from?.deviceId === undefined) return;
 
-    const conversationId = payload?.conversationId as number | undefined;
-    if (!conversationId) {
+    const reply = (result: { requestId: string; entries: AuditEntry[]; hasMore: boolean; error?: string }): void => {
       this.send({
-        type: 'slash_commands_result',
-        to: [fromDeviceId],
-        payload: {
-          success: false,
-          error: 'Missing conversationId',
-          slashCommands: [],
-        },
+        type: 'audit_log_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, ...result },
       });
+    };
+
+    if (!isAuditLogRequestPayload(payload)) {
+      reply({ requestId: String(payload?.requestId ?? ''), entries: [], hasMore: false, error: 'Invalid audit log request' });
       return;
     }
 
-    // conversationId에서 workspaceId 추출하여 워크스페이스 찾기
-    const decoded = decodeConversationIdFull(conversationId as ConversationId);
-    this.log(`[slash_commands_request] decoded=${JSON.stringify(decoded)}`);
-
-    const workspace = this.deps.workspaceStore.getWorkspace(decoded.workspaceId);
-    const workingDir = workspace?.workingDir || '';
-    this.log(`[slash_commands_request] workspace=${workspace?.name}, workingDir=${workingDir}`);
-
-    if (!workingDir) {
-      this.log(`[slash_commands_request] No workingDir, sending empty result`);
-      this.send({
-        type: 'slash_commands_result',
-        to: [fromDeviceId],
-        payload: {
-          conversationId,
-          success: true,
-          slashCommands: [],
-        },
-      });
+    if (!this.deps.auditStore) {
+      reply({ requestId: payload.requestId, entries: [], hasMore: false, error: 'Audit log is not available' });
       return;
     }
 
-    // .claude/skills 폴더에서 스킬 파일 읽기
-    const slashCommands = this.readSkillsFromFolder(workingDir);
-    this.log(`[slash_commands_request] slashCommands=${JSON.stringify(slashCommands)}, sending to ${fromDeviceId}`);
+    const { requestId, ...query } = payload;
 
-    this.send({
-      type: 'slash_commands_result',
-      to: [fromDeviceId],
-      payload: {
-        conversationId,
-        success: true,
-        slashCommands,
-      },
-    });
+    try {
+      const { entries, hasMore } = this.deps.auditStore.query(query);
+
+      const workspaces = new Map(
+        this.deps.workspaceStore.getAllWorkspaces().map((w) => [w.workspaceId, w])
+      );
+      const named = entries.map((entry) => {
+        const workspace = workspaces.get(entry.workspaceId);
+        const conversation = workspace?.conversations.find(
+          (c) => c.conversationId === entry.conversationId
+        );
+        return {
+          ...entry,
+          ...(workspace && { workspaceName: workspace.name }),
+          ...(conversation && { conversationName: conversation.name }),
+        };
+      });
+
+      reply({ requestId, entries: named, hasMore });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Audit] Failed to query audit log: ${error}`);
+      reply({ requestId, entries: [], hasMore: false, error });
+    }
   }
 
   /**
-   * 워크스페이스 및 글로벌 스킬 폴더에서 스킬 파일 목록 읽기
-   *
-   * @param workingDir - 워크스페이스 작업 디렉토리
-   * @returns 슬래시 명령어 목록 (예: ['/tdd-flow', '/keybindings-help'])
+   * 대화 내보내기 처리
    *
    * @description
-   * 스킬 검색 경로:
-   * 1. 워크스페이스: {workingDir}/.claude/skills/
-   * 2. 글로벌: ~/.claude/skills/
-   *
-   * Claude Code 스킬은 두 가지 형태가 있습니다:
-   * 1. .claude/skills/skill-name.md (단일 파일)
-   * 2. .claude/skills/skill-name/SKILL.md (폴더 형태)
+   * 대화 전체 메시지를 요청한 형식(markdown/html/json)으로 렌더링하여
+   * uploads/exports/{conversationId}/ 에 저장하고 경로를 응답합니다.
+   * 클라이언트는 응답받은 경로로 blob_request를 보내 파일을 다운로드합니다.
    */
-  private readSkillsFromFolder(workingDir: string): string[] {
-    const homeDir = os.homedir();
-
-    // 검색할 스킬 디렉토리 목록
-    const skillsDirs = [
-      path.join(workingDir, '.claude', 'skills'),  // 워크스페이스 스킬
-      path.join(homeDir, '.claude', 'skills'),      // 글로벌 스킬
-    ];
-
-    const skillSet = new Set<string>();
-
-    for (const skillsDir of skillsDirs) {
-      try {
-        if (!fs.existsSync(skillsDir)) {
-          continue;
-        }
+  private handleConversationExport(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    if (from?.deviceId === undefined) return;
 
-        const entries = fs.readdirSync(skillsDir, { withFileTypes: true }) as Array<{
-          name: string;
-          isDirectory: () => boolean;
-          isFile: () => boolean;
-        }>;
+    const reply = (result: Omit<ConversationExportResultPayload, 'deviceId'>): void => {
+      this.send({
+        type: 'conversation_export_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, ...result },
+      });
+    };
 
-        for (const entry of entries) {
-          if (entry.isFile() && entry.name.endsWith('.md')) {
-            // 단일 .md 파일 형태: skill-name.md → /skill-name
-            const skillName = entry.name.replace(/\.md$/, '');
-            skillSet.add(`/${skillName}`);
-          } else if (entry.isDirectory()) {
-            // 폴더 형태: skill-name/SKILL.md → /skill-name
-            const skillMdPath = path.join(skillsDir, entry.name, 'SKILL.md');
-            if (fs.existsSync(skillMdPath)) {
-              skillSet.add(`/${entry.name}`);
-            }
-          }
-        }
-      } catch (error) {
-        this.log(`Error reading skills folder ${skillsDir}: ${error}`);
-      }
+    if (!isConversationExportPayload(payload)) {
+      reply({
+        conversationId: (payload?.conversationId as number) ?? 0,
+        success: false,
+        error: 'Invalid export request',
+      });
+      return;
     }
 
-    return Array.from(skillSet).sort();
-  }
+    const { conversationId, format } = payload;
+    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
+    const workspace = this.deps.workspaceStore
+      .getAllWorkspaces()
+      .find((w) => w.conversations.some((c) => c.conversationId === conversationId));
 
-  // ==========================================================================
-  // Private 메서드 - 워크스페이스
-  // ==========================================================================
+    if (!conversation || !workspace) {
+      reply({ conversationId, success: false, format, error: 'Conversation not found' });
+      return;
+    }
 
-  /**
-   * workspace_list 처리
-   */
-  private handleWorkspaceList(from: MessageFrom | undefined): void {
-    if (from?.deviceId === undefined) return;
-    const workspaces = this.deps.workspaceStore.getAllWorkspaces();
-    const activeState = this.deps.workspaceStore.getActiveState();
+    try {
+      const messageStore = this.deps.messageStore;
+      const source = {
+        workspace: { name: workspace.name, workingDir: workspace.workingDir },
+        conversation,
+        messages: messageStore.getFullHistory(conversationId),
+        exportedAt: Date.now(),
+      };
 
-    // 커맨드 조회 (broadcastWorkspaceList와 동일한 패턴)
-    const workspaceIds = workspaces.map(ws => ws.workspaceId);
-    const commandsByWs = this.deps.commandStore
-      ? this.deps.commandStore.getCommandsByWorkspaces(workspaceIds)
-      : new Map();
+      let content: string;
+      if (format === 'markdown') {
+        content = renderMarkdown(source);
+      } else if (format === 'html') {
+        content = renderHtml(source);
+      } else {
+        // 첨부 파일: 절대 경로가 아니면 워크스페이스 기준으로 해석, 읽을 수 없으면 제외
+        const archive = buildArchive(source, (filePath) => {
+          try {
+            const resolved = path.resolve(workspace.workingDir, filePath);
+            return fs.statSync(resolved).isFile() ? fs.readFileSync(resolved) : null;
+          } catch {
+            return null;
+          }
+        });
+        content = JSON.stringify(archive, null, 2);
+      }
 
-    const workspacesWithCommands = workspaces.map((ws) => ({
-      ...ws,
-      commands: commandsByWs.get(ws.workspaceId) ?? [],
-    }));
+      const filename = buildExportFilename(conversation.name, format, source.exportedAt);
+      const exportDir = path.join(this.config.uploadsDir, 'exports', String(conversationId));
+      fs.mkdirSync(exportDir, { recursive: true });
+      const filePath = path.join(exportDir, filename);
+      fs.writeFileSync(filePath, content, 'utf-8');
 
-    this.send({
-      type: 'workspace_list_result',
-      to: [from.deviceId],
-      payload: {
-        deviceId: this.config.deviceId,
-        workspaces: workspacesWithCommands,
-        activeWorkspaceId: activeState.activeWorkspaceId,
-        activeConversationId: activeState.activeConversationId,
-        account: this.cachedAccount,
-      },
-    });
+      reply({
+        conversationId,
+        success: true,
+        format,
+        filename,
+        path: filePath,
+        mimeType: EXPORT_MIME_TYPES[format],
+        size: Buffer.byteLength(content, 'utf-8'),
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Export] Failed to export conversation ${conversationId}: ${error}`);
+      reply({ conversationId, success: false, format, error });
+    }
   }
 
   /**
-   * workspace_create 처리
+   * 대화 가져오기 요청 처리
+   *
+   * @description
+   * Pylon에 있는 파일(JSON 아카이브 또는 Claude Code 트랜스크립트)을 가져옵니다.
+   * 클라이언트에서 올린 파일은 Blob 업로드 완료 시 importConversation으로 처리됩니다.
    */
-  private handleWorkspaceCreate(
+  private handleConversationImport(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { name, workingDir } = payload || {};
-    if (!name || !workingDir) return;
+    if (from?.deviceId === undefined) return;
 
-    const result = this.deps.workspaceStore.createWorkspace(name as string, workingDir as string);
-    if (from?.deviceId !== undefined) {
+    if (!isConversationImportPayload(payload)) {
       this.send({
-        type: 'workspace_create_result',
+        type: 'conversation_import_result',
         to: [from.deviceId],
         payload: {
           deviceId: this.config.deviceId,
-          success: true,
-          workspace: result.workspace,
-          conversation: result.conversation,
+          workspaceId: (payload?.workspaceId as number) ?? 0,
+          success: false,
+          error: 'Invalid import request',
         },
       });
+      return;
     }
-    this.broadcastWorkspaceList();
-    this.saveWorkspaceStore().catch((err) => {
-      this.deps.logger.error(`[Pylon] Failed to save after workspace create: ${err}`);
-    });
+
+    this.importConversation(payload, from.deviceId);
   }
 
   /**
-   * workspace_delete 처리
+   * 파일에서 대화 가져오기
+   *
+   * @description
+   * 파일을 파싱해 새 대화를 만들고 메시지를 저장합니다.
+   * - 아카이브의 첨부 파일은 uploads/{conversationId}/ 에 복원하고 메시지 경로를 갱신
+   * - Claude 세션은 프로젝트 폴더에 세션 파일이 있을 때만 agentSessionId를 연결 (재개 가능)
+   *   (트랜스크립트는 필요하면 프로젝트 폴더로 복사)
    */
-  private handleWorkspaceDelete(
-    payload: Record<string, unknown> | undefined,
-    from: MessageFrom | undefined
-  ): void {
-    const { workspaceId } = payload || {};
-    if (!workspaceId) return;
+  private importConversation(request: ConversationImportPayload, requesterId: number): void {
+    const { workspaceId, path: filePath, name } = request;
 
-    // 삭제 전에 모든 대화의 메시지 정리
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (workspace) {
-      for (const conv of workspace.conversations) {
-        // Agent 세션 정리
+    const reply = (result: Omit<ConversationImportResultPayload, 'deviceId' | 'workspaceId'>): void => {
+      this.send({
+        type: 'conversation_import_result',
+        to: [requesterId],
+        payload: { deviceId: this.config.deviceId, workspaceId, ...result },
+      });
+    };
+
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) {
+      reply({ success: false, error: 'Workspace not found' });
+      return;
+    }
+
+    let parsed: ParsedConversation;
+    try {
+      parsed = parseConversationFile(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Import] Failed to read ${filePath}: ${error}`);
+      reply({ success: false, error });
+      return;
+    }
+
+    const conversationName =
+      name?.trim() || parsed.name || path.basename(filePath).replace(/\.[^.]+$/, '');
+    const conversation = this.deps.workspaceStore.createConversation(
+      workspaceId,
+      conversationName,
+      parsed.agentType
+    );
+    if (!conversation) {
+      reply({ success: false, error: 'Failed to create conversation' });
+      return;
+    }
+
+    const conversationId = conversation.conversationId;
+    const workspaceStore = this.deps.workspaceStore;
+
+    try {
+      // ID 재사용 대비: 기존 메시지 삭제
+      this.clearMessagesForConversation(conversationId);
+
+      // 대화 설정 복원 (아카이브)
+      if (parsed.permissionMode) {
+        workspaceStore.setConversationPermissionMode(conversationId, parsed.permissionMode);
+      }
+      if (parsed.customSystemPrompt) {
+        workspaceStore.setCustomSystemPrompt(conversationId, parsed.customSystemPrompt);
+      }
+      for (const doc of parsed.linkedDocuments ?? []) {
+        workspaceStore.linkDocument(conversationId, doc.path);
+      }
+
+      // 첨부 파일 복원
+      const pathMap = new Map<string, string>();
+      if (parsed.attachments.length > 0) {
+        const attachmentDir = path.join(this.config.uploadsDir, String(conversationId));
+        fs.mkdirSync(attachmentDir, { recursive: true });
+        for (const attachment of parsed.attachments) {
+          const safeName = path.basename(attachment.filename).replace(/[^\w.-]/g, '_') || 'attachment';
+          let target = path.join(attachmentDir, safeName);
+          for (let n = 1; fs.existsSync(target); n++) {
+            target = path.join(attachmentDir, `${n}_${safeName}`);
+          }
+          fs.writeFileSync(target, Buffer.from(attachment.data, 'base64'));
+          pathMap.set(attachment.path, target);
+        }
+      }
+
+      const messageCount = this.deps.messageStore.importMessages(
+        conversationId,
+        remapAttachmentPaths(parsed.messages, pathMap)
+      );
+      this.applyRetention(conversationId);
+
+      // 에이전트 세션 연결
+      let resumable = false;
+      const sessionId = parsed.agentSessionId;
+      if (
+        parsed.agentType === 'claude' &&
+        sessionId &&
+        /^[\w-]+$/.test(sessionId) &&
+        this.config.claudeConfigDir
+      ) {
+        const projectDir = path.join(
+          this.config.claudeConfigDir,
+          'projects',
+          getClaudeProjectDirName(workspace.workingDir)
+        );
+        const sessionFile = path.join(projectDir, `${sessionId}.jsonl`);
         try {
-          if (this.deps.agentManager.hasActiveSession(conv.conversationId)) {
-            this.deps.agentManager.stop(conv.conversationId);
+          if (!fs.existsSync(sessionFile) && parsed.source === 'claude-transcript') {
+            fs.mkdirSync(projectDir, { recursive: true });
+            fs.copyFileSync(filePath, sessionFile);
           }
+          resumable = fs.existsSync(sessionFile);
         } catch (err) {
-          this.deps.logger.error(`[Pylon] Failed to stop agent on workspace delete: ${err}`);
+          this.deps.logger.warn(`[Import] Failed to place session file ${sessionFile}: ${err}`);
+        }
+        if (resumable) {
+          workspaceStore.updateAgentSessionId(conversationId, sessionId);
         }
-        // 위젯 정리
-        this.deps.mcpServer?.cancelWidgetForConversation(conv.conversationId);
-        // 메시지 정리
-        this.clearMessagesForConversation(conv.conversationId);
       }
-    }
 
-    const success = this.deps.workspaceStore.deleteWorkspace(workspaceId as number);
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'workspace_delete_result',
-        to: [from.deviceId],
-        payload: { deviceId: this.config.deviceId, success, workspaceId },
-      });
-    }
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after workspace delete: ${err}`);
+      this.deps.logger.log(
+        `[Import] ${parsed.source} → conversation ${conversationId} (${messageCount} messages, resumable=${resumable})`
+      );
+
+      reply({
+        success: true,
+        conversationId,
+        conversationName,
+        source: parsed.source,
+        messageCount,
+        resumable,
       });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Import] Failed to import into conversation ${conversationId}: ${error}`);
+      // 반쯤 만들어진 대화는 제거
+      this.clearMessagesForConversation(conversationId);
+      workspaceStore.deleteConversation(conversationId);
+      reply({ success: false, error });
     }
+
+    this.broadcastWorkspaceList();
+    this.saveWorkspaceStore().catch((err) => {
+      this.deps.logger.error(`[Pylon] Failed to save after conversation import: ${err}`);
+    });
   }
 
   /**
-   * workspace_update 처리
+   * 대화 분기 요청 처리
+   *
+   * @description
+   * 지정한 메시지까지 복사한 새 대화를 만들고, 첫 메시지 전송 시 에이전트 세션을 분기합니다.
+   * - Claude: 원본 세션 트랜스크립트에서 분기 지점을 찾으면 resume + forkSession + resumeSessionAt
+   * - 그 외(Codex, 트랜스크립트 없음): 복사한 히스토리를 첫 메시지의 리마인더로 전달
    */
-  private handleWorkspaceUpdate(
+  private handleConversationFork(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { workspaceId, name, workingDir } = payload || {};
-    if (!workspaceId) return;
-
-    const success = this.deps.workspaceStore.updateWorkspace(workspaceId as number, {
-      name: name as string | undefined,
-      workingDir: workingDir as string | undefined,
-    });
+    if (from?.deviceId === undefined) return;
 
-    if (from?.deviceId !== undefined) {
+    const reply = (result: Omit<ConversationForkResultPayload, 'deviceId'>): void => {
       this.send({
-        type: 'workspace_update_result',
+        type: 'conversation_fork_result',
         to: [from.deviceId],
-        payload: { deviceId: this.config.deviceId, success, workspaceId },
+        payload: { deviceId: this.config.deviceId, ...result },
       });
-    }
+    };
 
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after workspace update: ${err}`);
+    if (!isConversationForkPayload(payload)) {
+      reply({
+        conversationId: (payload?.conversationId as number) ?? 0,
+        success: false,
+        error: 'Invalid fork request',
       });
+      return;
     }
-  }
 
-  /**
-   * workspace_reorder 처리
-   */
-  private handleWorkspaceReorder(payload: Record<string, unknown> | undefined): void {
-    const { workspaceIds } = payload || {};
-    if (!workspaceIds || !Array.isArray(workspaceIds)) return;
+    const { conversationId, messageId, name } = payload;
+    const workspaceStore = this.deps.workspaceStore;
+    const messageStore = this.deps.messageStore;
 
-    const success = this.deps.workspaceStore.reorderWorkspaces(workspaceIds as number[]);
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after workspace reorder: ${err}`);
-      });
+    const source = workspaceStore.getConversation(conversationId as ConversationId);
+    const workspace = workspaceStore
+      .getAllWorkspaces()
+      .find((w) => w.conversations.some((c) => c.conversationId === conversationId));
+    if (!source || !workspace) {
+      reply({ conversationId, success: false, error: 'Conversation not found' });
+      return;
     }
-  }
 
-  /**
-   * conversation_reorder 처리
-   */
-  private handleConversationReorder(payload: Record<string, unknown> | undefined): void {
-    const { workspaceId, conversationIds } = payload || {};
-    if (!workspaceId || !conversationIds || !Array.isArray(conversationIds)) return;
+    // 보관된 도구 입출력도 원문으로 복사 (분기 대화에는 복원할 tool_archive가 없음)
+    const prefix = selectForkPrefix(messageStore.getFullHistory(conversationId), messageId);
+    if (!prefix) {
+      reply({ conversationId, success: false, error: 'Fork point not found' });
+      return;
+    }
 
-    const success = this.deps.workspaceStore.reorderConversations(
-      workspaceId as number,
-      conversationIds as ConversationId[]
+    const fork = workspaceStore.createConversation(
+      workspace.workspaceId,
+      name?.trim() || `${source.name} (분기)`,
+      source.agentType
     );
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after conversation reorder: ${err}`);
-      });
+    if (!fork) {
+      reply({ conversationId, success: false, error: 'Failed to create conversation' });
+      return;
     }
-  }
 
-  /**
-   * workspace_rename 처리
-   */
-  private handleWorkspaceRename(payload: Record<string, unknown> | undefined): void {
-    const { workspaceId, newName } = payload || {};
-    if (!workspaceId || !newName) return;
+    const forkId = fork.conversationId;
 
-    const success = this.deps.workspaceStore.renameWorkspace(workspaceId as number, newName as string);
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after workspace rename: ${err}`);
-      });
+    // ID 재사용 대비: 기존 메시지 삭제
+    this.clearMessagesForConversation(forkId);
+
+    // 대화 설정 복사
+    workspaceStore.setConversationPermissionMode(forkId, source.permissionMode);
+    if (source.agentSettings) {
+      workspaceStore.setConversationAgentSettings(forkId, source.agentSettings);
+    }
+    if (source.customSystemPrompt) {
+      workspaceStore.setCustomSystemPrompt(forkId, source.customSystemPrompt);
+    }
+    for (const doc of source.linkedDocuments ?? []) {
+      workspaceStore.linkDocument(forkId, doc.path);
     }
-  }
 
-  /**
-   * workspace_switch 처리
-   */
-  private handleWorkspaceSwitch(payload: Record<string, unknown> | undefined): void {
-    const { workspaceId, conversationId } = payload || {};
-    if (!workspaceId) return;
+    const messageCount = messageStore.importMessages(forkId, prefix);
+    this.applyRetention(forkId);
 
-    this.deps.workspaceStore.setActiveWorkspace(
-      workspaceId as number,
-      conversationId as ConversationId | undefined
+    // 분기할 원본 세션 (원본도 아직 분기 대기 중이면 그 원본 세션)
+    const pendingFork: PendingFork = {};
+    const sourceSessionId = source.claudeSessionId ?? source.pendingFork?.agentSessionId;
+    if (
+      source.agentType === 'claude' &&
+      sourceSessionId &&
+      /^[\w-]+$/.test(sourceSessionId) &&
+      this.config.claudeConfigDir
+    ) {
+      const sessionFile = path.join(
+        this.config.claudeConfigDir,
+        'projects',
+        // 원본 세션이 실행된 디렉토리 (worktree 대화면 worktree 경로)
+        getClaudeProjectDirName(source.worktree?.path ?? workspace.workingDir),
+        `${sourceSessionId}.jsonl`
+      );
+      try {
+        const resumeSessionAt = findTranscriptForkPoint(
+          fs.readFileSync(sessionFile, 'utf-8'),
+          prefix
+        );
+        if (resumeSessionAt) {
+          pendingFork.agentSessionId = sourceSessionId;
+          pendingFork.resumeSessionAt = resumeSessionAt;
+        }
+      } catch (err) {
+        this.deps.logger.warn(`[Fork] Failed to read session transcript ${sessionFile}: ${err}`);
+      }
+    }
+    workspaceStore.setConversationFork(forkId, conversationId as ConversationId, pendingFork);
+
+    const resumable = pendingFork.agentSessionId !== undefined;
+    this.deps.logger.log(
+      `[Fork] ${conversationId} → ${forkId} (${messageCount} messages, resumable=${resumable})`
     );
+
     this.broadcastWorkspaceList();
     this.saveWorkspaceStore().catch((err) => {
-      this.deps.logger.error(`[Pylon] Failed to save after workspace switch: ${err}`);
+      this.deps.logger.error(`[Pylon] Failed to save after conversation fork: ${err}`);
     });
-  }
 
-  // ==========================================================================
-  // Private 메서드 - 대화
-  // ==========================================================================
+    reply({
+      conversationId,
+      success: true,
+      newConversationId: forkId,
+      messageCount,
+      resumable,
+    });
+  }
 
   /**
-   * conversation_create 처리
+   * share_history 요청 처리 (Viewer용)
+   *
+   * @description
+   * Viewer가 보낸 share_history 요청을 처리합니다.
+   * shareId를 검증하고, 유효하면 해당 대화의 메시지 목록을 반환합니다.
+   *
+   * @param payload - 요청 페이로드 ({ shareId: string })
+   * @param from - 발신자 정보
    */
-  private handleConversationCreate(
+  private handleShareHistory(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { workspaceId, name } = payload || {};
-    if (!workspaceId) return;
+    const shareId = payload?.shareId as string | undefined;
+    const fromDeviceId = from?.deviceId;
 
-    const conversation = this.deps.workspaceStore.createConversation(
-      workspaceId as number,
-      name as string | undefined
-    );
+    // from이 없으면 응답 불가
+    if (fromDeviceId === undefined) return;
 
-    if (from?.deviceId !== undefined) {
+    // shareId 필수 확인
+    if (!shareId || shareId.trim() === '') {
       this.send({
-        type: 'conversation_create_result',
-        to: [from.deviceId],
+        type: 'share_history_result',
+        to: [fromDeviceId],
         payload: {
-          deviceId: this.config.deviceId,
-          success: !!conversation,
-          workspaceId,
-          conversation,
+          success: false,
+          error: 'Missing shareId',
         },
       });
+      return;
     }
 
-    if (conversation) {
-      // ID 재사용 대비: 기존 메시지 파일 삭제 및 캐시 클리어
-      this.clearMessagesForConversation(conversation.conversationId);
+    // shareStore가 없으면 에러
+    if (!this.deps.shareStore) {
+      this.send({
+        type: 'share_history_result',
+        to: [fromDeviceId],
+        payload: {
+          success: false,
+          error: 'Share feature not available',
+        },
+      });
+      return;
+    }
 
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after conversation create: ${err}`);
+    // shareId 검증
+    const validateResult = this.deps.shareStore.validate(shareId);
+    if (!validateResult.valid || validateResult.conversationId === undefined) {
+      this.send({
+        type: 'share_history_result',
+        to: [fromDeviceId],
+        payload: {
+          success: false,
+          error: 'Share not found',
+        },
       });
+      return;
+    }
 
-      // 세션 뷰어 등록
-      if (from?.deviceId) {
-        this.registerSessionViewer(from.deviceId, conversation.conversationId);
-      }
+    const conversationId = validateResult.conversationId;
 
-      // 새 대화 생성 시 초기 컨텍스트 자동 전송
-      this.sendInitialContext(conversation.conversationId);
-    }
+    // 공유 전용 메서드: 시간순(과거→최신) 전체 메시지 반환
+    const messages = this.deps.messageStore.getSharedMessageHistory(conversationId);
+
+    // share_history_result 응답
+    this.send({
+      type: 'share_history_result',
+      to: [fromDeviceId],
+      payload: {
+        shareId,
+        conversationId,
+        messages,
+      },
+    });
   }
 
   /**
-   * conversation_delete 처리
+   * slash_commands_request 처리
+   *
+   * @description
+   * 클라이언트가 `/` 입력 시 사용 가능한 슬래시 명령어 목록을 요청합니다.
+   * .claude/skills/ 폴더에서 스킬 파일을 읽어서 반환합니다.
+   *
+   * @param payload - 요청 페이로드 ({ conversationId: number })
+   * @param from - 발신자 정보
    */
-  private handleConversationDelete(payload: Record<string, unknown> | undefined): boolean {
-    const { conversationId } = payload || {};
-    if (!conversationId) return false;
+  private handleSlashCommandsRequest(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    this.log(`[slash_commands_request] from=${JSON.stringify(from)}, payload=${JSON.stringify(payload)}`);
 
-    const eid = conversationId as ConversationId;
+    const fromDeviceId = from?.deviceId;
+    if (fromDeviceId === undefined) return;
 
-    // Agent 세션 정리 (있으면)
-    try {
-      if (this.deps.agentManager.hasActiveSession(eid)) {
-        this.deps.agentManager.stop(eid);
-      }
-    } catch (err) {
-      this.deps.logger.error(`[Pylon] Failed to stop agent session on delete: ${err}`);
+    const conversationId = payload?.conversationId as number | undefined;
+    if (!conversationId) {
+      this.send({
+        type: 'slash_commands_result',
+        to: [fromDeviceId],
+        payload: {
+          success: false,
+          error: 'Missing conversationId',
+          slashCommands: [],
+        },
+      });
+      return;
     }
 
-    // 위젯 정리 (있으면)
-    this.deps.mcpServer?.cancelWidgetForConversation(conversationId as number);
+    // conversationId에서 workspaceId 추출하여 워크스페이스 찾기
+    const decoded = decodeConversationIdFull(conversationId as ConversationId);
+    this.log(`[slash_commands_request] decoded=${JSON.stringify(decoded)}`);
 
-    // 삭제 전에 메시지 정리
-    this.clearMessagesForConversation(eid);
+    const workspace = this.deps.workspaceStore.getWorkspace(decoded.workspaceId);
+    const workingDir = workspace?.workingDir || '';
+    this.log(`[slash_commands_request] workspace=${workspace?.name}, workingDir=${workingDir}`);
 
-    const success = this.deps.workspaceStore.deleteConversation(eid);
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after conversation delete: ${err}`);
+    if (!workingDir) {
+      this.log(`[slash_commands_request] No workingDir, sending empty result`);
+      this.send({
+        type: 'slash_commands_result',
+        to: [fromDeviceId],
+        payload: {
+          conversationId,
+          success: true,
+          slashCommands: [],
+        },
       });
+      return;
     }
-    return success;
+
+    // .claude/skills 폴더에서 스킬 파일 읽기
+    const slashCommands = this.readSkillsFromFolder(workingDir);
+    this.log(`[slash_commands_request] slashCommands=${JSON.stringify(slashCommands)}, sending to ${fromDeviceId}`);
+
+    this.send({
+      type: 'slash_commands_result',
+      to: [fromDeviceId],
+      payload: {
+        conversationId,
+        success: true,
+        slashCommands,
+      },
+    });
   }
 
   /**
-   * conversation_rename 처리
+   * 워크스페이스 및 글로벌 스킬 폴더에서 스킬 파일 목록 읽기
+   *
+   * @param workingDir - 워크스페이스 작업 디렉토리
+   * @returns 슬래시 명령어 목록 (예: ['/tdd-flow', '/keybindings-help'])
+   *
+   * @description
+   * 스킬 검색 경로:
+   * 1. 워크스페이스: {workingDir}/.claude/skills/
+   * 2. 글로벌: ~/.claude/skills/
+   *
+   * Claude Code 스킬은 두 가지 형태가 있습니다:
+   * 1. .claude/skills/skill-name.md (단일 파일)
+   * 2. .claude/skills/skill-name/SKILL.md (폴더 형태)
    */
-  private handleConversationRename(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, newName } = payload || {};
-    if (!conversationId || !newName) return;
+  private readSkillsFromFolder(workingDir: string): string[] {
+    const homeDir = os.homedir();
 
-    const eid = conversationId as ConversationId;
+    // 검색할 스킬 디렉토리 목록
+    const skillsDirs = [
+      path.join(workingDir, '.claude', 'skills'),  // 워크스페이스 스킬
+      path.join(homeDir, '.claude', 'skills'),      // 글로벌 스킬
+    ];
 
-    // 이전 이름 저장 (리마인더 전송용)
-    const oldConversation = this.deps.workspaceStore.getConversation(eid);
-    const oldName = oldConversation?.name || '';
+    const skillSet = new Set<string>();
 
-    const success = this.deps.workspaceStore.renameConversation(eid, newName as string);
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after conversation rename: ${err}`);
-      });
+    for (const skillsDir of skillsDirs) {
+      try {
+        if (!fs.existsSync(skillsDir)) {
+          continue;
+        }
 
-      // 활성 세션에 리마인더 전송
-      if (this.deps.agentManager.hasActiveSession(eid)) {
-        const reminder = buildConversationRenamedReminder(oldName, newName as string);
-        const workingDir = this.getWorkingDirForConversation(eid);
-        if (workingDir) {
-          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
+        const entries = fs.readdirSync(skillsDir, { withFileTypes: true }) as Array<{
+          name: string;
+          isDirectory: () => boolean;
+          isFile: () => boolean;
+        }>;
+
+        for (const entry of entries) {
+          if (entry.isFile() && entry.name.endsWith('.md')) {
+            // 단일 .md 파일 형태: skill-name.md → /skill-name
+            const skillName = entry.name.replace(/\.md$/, '');
+            skillSet.add(`/${skillName}`);
+          } else if (entry.isDirectory()) {
+            // 폴더 형태: skill-name/SKILL.md → /skill-name
+            const skillMdPath = path.join(skillsDir, entry.name, 'SKILL.md');
+            if (fs.existsSync(skillMdPath)) {
+              skillSet.add(`/${entry.name}`);
+            }
+          }
         }
+      } catch (error) {
+        this.log(`Error reading skills folder ${skillsDir}: ${error}`);
       }
     }
+
+    return Array.from(skillSet).sort();
   }
 
+  // ==========================================================================
+  // Private 메서드 - 워크스페이스
+  // ==========================================================================
+
   /**
-   * link_document 처리
+   * workspace_list 처리
    */
-  private handleLinkDocument(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, path } = payload || {};
-    if (!conversationId || !path) return;
+  private handleWorkspaceList(from: MessageFrom | undefined): void {
+    if (from?.deviceId === undefined) return;
+    const workspaces = this.deps.workspaceStore.getAllWorkspaces();
+    const activeState = this.deps.workspaceStore.getActiveState();
 
-    const eid = conversationId as ConversationId;
-    const docPath = path as string;
+    // 커맨드 조회 (broadcastWorkspaceList와 동일한 패턴)
+    const workspaceIds = workspaces.map(ws => ws.workspaceId);
+    const commandsByWs = this.deps.commandStore
+      ? this.deps.commandStore.getCommandsByWorkspaces(workspaceIds)
+      : new Map();
 
-    // 문서 연결
-    const success = this.deps.workspaceStore.linkDocument(eid, docPath);
-    if (success) {
-      this.broadcastWorkspaceList();
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after link document: ${err}`);
-      });
+    const workspacesWithCommands = workspaces.map((ws) => ({
+      ...ws,
+      commands: commandsByWs.get(ws.workspaceId) ?? [],
+    }));
 
-      // 활성 세션에 리마인더 전송
-      if (this.deps.agentManager.hasActiveSession(eid)) {
-        const reminder = buildDocumentAddedReminder(docPath);
-        const workingDir = this.getWorkingDirForConversation(eid);
-        if (workingDir) {
-          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
-        }
-      }
+    this.send({
+      type: 'workspace_list_result',
+      to: [from.deviceId],
+      payload: {
+        deviceId: this.config.deviceId,
+        workspaces: workspacesWithCommands,
+        activeWorkspaceId: activeState.activeWorkspaceId,
+        activeConversationId: activeState.activeConversationId,
+        account: this.cachedAccount,
+        agents: this.deps.agentManager.getAgentBackends(),
+      },
+    });
+    void this.sendAccountStatus(from.deviceId);
+  }
+
+  /**
+   * workspace_create 처리
+   */
+  private handleWorkspaceCreate(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { name, workingDir } = payload || {};
+    if (!name || !workingDir) return;
+
+    const result = this.deps.workspaceStore.createWorkspace(name as string, workingDir as string);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'workspace_create_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          success: true,
+          workspace: result.workspace,
+          conversation: result.conversation,
+        },
+      });
     }
+    this.broadcastWorkspaceList();
+    this.saveWorkspaceStore().catch((err) => {
+      this.deps.logger.error(`[Pylon] Failed to save after workspace create: ${err}`);
+    });
   }
 
   /**
-   * unlink_document 처리
+   * workspace_delete 처리
+   *
+   * 대화 전용 worktree는 브랜치째 삭제합니다 (실패해도 워크스페이스는 삭제).
    */
-  private handleUnlinkDocument(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, path } = payload || {};
-    if (!conversationId || !path) return;
+  private async handleWorkspaceDelete(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): Promise<void> {
+    const { workspaceId } = payload || {};
+    if (!workspaceId) return;
 
-    const eid = conversationId as ConversationId;
-    const docPath = path as string;
+    // 삭제 전에 모든 대화의 메시지 정리
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (workspace) {
+      for (const conv of workspace.conversations) {
+        // Agent 세션 정리
+        let agentStopped: Promise<void> = Promise.resolve();
+        try {
+          if (this.deps.agentManager.hasActiveSession(conv.conversationId)) {
+            agentStopped = this.deps.agentManager.stop(conv.conversationId);
+          }
+          this.deps.agentManager.forgetConversation(conv.conversationId);
+        } catch (err) {
+          this.deps.logger.error(`[Pylon] Failed to stop agent on workspace delete: ${err}`);
+        }
+        // 위젯 정리
+        this.deps.mcpServer?.cancelWidgetForConversation(conv.conversationId);
+        // 메시지/git 기준점 정리
+        this.clearMessagesForConversation(conv.conversationId);
+        this.releaseGitBaseline(conv.conversationId);
+        // worktree/브랜치 정리 (중지한 에이전트가 끝난 뒤)
+        if (conv.worktree && this.deps.gitWorktree) {
+          try {
+            await agentStopped;
+            await this.deps.gitWorktree.remove(workspace.workingDir, conv.worktree.path, conv.worktree.branch);
+          } catch (err) {
+            this.deps.logger.error(`[Pylon] Failed to remove conversation worktree on workspace delete: ${err}`);
+          }
+        }
+      }
+    }
 
-    // 문서 연결 해제
-    const success = this.deps.workspaceStore.unlinkDocument(eid, docPath);
+    const success = this.deps.workspaceStore.deleteWorkspace(workspaceId as number);
+    if (success) {
+      this.scheduler?.deleteByWorkspace(workspaceId as number);
+      if (this.deps.accountStore?.removeWorkspace(workspaceId as number)) {
+        this.saveAccountStore();
+      }
+    }
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'workspace_delete_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, success, workspaceId },
+      });
+    }
     if (success) {
       this.broadcastWorkspaceList();
       this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Pylon] Failed to save after unlink document: ${err}`);
+        this.deps.logger.error(`[Pylon] Failed to save after workspace delete: ${err}`);
       });
-
-      // 활성 세션에 리마인더 전송
-      if (this.deps.agentManager.hasActiveSession(eid)) {
-        const reminder = buildDocumentRemovedReminder(docPath);
-        const workingDir = this.getWorkingDirForConversation(eid);
-        if (workingDir) {
-          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
-        }
-      }
     }
   }
 
   /**
-   * conversationId로 workingDir 조회 (헬퍼)
-   */
-  private getWorkingDirForConversation(conversationId: ConversationId): string | null {
-    const decoded = decodeConversationIdFull(conversationId);
-    const workspace = this.deps.workspaceStore.getWorkspace(decoded.workspaceId);
-    return workspace?.workingDir ?? null;
-  }
-
-  /**
-   * conversation_select 처리
-   *
-   * 멀티 Pylon 환경에서 브로드캐스트로 수신됨:
-   * - 내 대화면: active 설정 + 히스토리 전송
-   * - 다른 Pylon 대화면: activeConversationId를 null로 deselect
+   * workspace_update 처리
    */
-  private handleConversationSelect(
+  private handleWorkspaceUpdate(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    // DEBUG: from 정보 로그
-    this.log(`[conversation_select] from=${JSON.stringify(from)}, payload=${JSON.stringify(payload)}`);
-    const { conversationId, workspaceId } = payload || {};
-    if (!conversationId) return;
+    const { workspaceId, name, workingDir, retentionPolicy, permissionRules, workerPolicy, accountFailover, agentType } =
+      payload || {};
+    if (!workspaceId) return;
 
-    const eid = conversationId as number;
-    const wsId = workspaceId as number;
+    // 보관 정책: null은 기본 정책으로 되돌림, 잘못된 값은 무시
+    const validPolicy = retentionPolicy === null || isRetentionPolicy(retentionPolicy);
+    const policyUpdate = validPolicy ? (retentionPolicy as RetentionPolicy | null) : undefined;
 
-    // 이 대화가 내 Pylon의 것인지 확인
-    const conversation = this.deps.workspaceStore.getConversation(eid as ConversationId);
-    if (!conversation) {
-      // 다른 Pylon의 대화 → 내 activeConversationId를 null로 deselect
-      const currentActive = this.deps.workspaceStore.getActiveState().activeConversationId;
-      if (currentActive !== null) {
-        this.log(`[conversation_select] Deselecting my conversation (other Pylon's conversation selected)`);
-        this.deps.workspaceStore.clearActiveConversation();
-        this.scheduleSaveWorkspaceStore();
-      }
-      // 클라이언트를 세션 시청자에서도 제거 (이벤트 스트림 구독 해제)
-      if (from?.deviceId) {
-        this.unregisterSessionViewer(from.deviceId);
+    // 권한 규칙: 전체 목록 교체, 하나라도 잘못되면 무시
+    const validRules = Array.isArray(permissionRules) && permissionRules.every(isPermissionRule);
+    const rulesUpdate = validRules ? (permissionRules as PermissionRule[]) : undefined;
+
+    // 워커 정책: null은 기본 정책으로 되돌림, 잘못된 값은 무시
+    const validWorkerPolicy = workerPolicy === null || isWorkerPolicy(workerPolicy);
+    const workerPolicyUpdate = validWorkerPolicy ? (workerPolicy as WorkerPolicy | null) : undefined;
+
+    // 기본 에이전트: null/기본값은 지움, 등록되지 않은 에이전트는 무시
+    const agentTypeUpdate =
+      agentType === null || agentType === DEFAULT_AGENT_TYPE
+        ? null
+        : this.isRegisteredAgent(agentType) ? agentType : undefined;
+
+    const success = this.deps.workspaceStore.updateWorkspace(workspaceId as number, {
+      name: name as string | undefined,
+      workingDir: workingDir as string | undefined,
+      retentionPolicy: policyUpdate,
+      permissionRules: rulesUpdate,
+      workerPolicy: workerPolicyUpdate,
+      accountFailover: typeof accountFailover === 'boolean' ? accountFailover : undefined,
+      agentType: agentTypeUpdate,
+    });
+
+    // 바뀐 정책을 기존 대화에 바로 적용
+    if (success && policyUpdate !== undefined) {
+      const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+      for (const conversation of workspace?.conversations ?? []) {
+        this.applyRetention(conversation.conversationId);
       }
-      return;
     }
 
-    // 내 대화 → 기존 로직 실행
-    // 워크스페이스와 대화 모두 active 상태로 설정
-    if (wsId) {
-      this.deps.workspaceStore.setActiveWorkspace(wsId);
+    // 워커가 도는 중에 동시 실행 수를 늘렸으면 바로 빈 슬롯 채우기
+    if (success && workerPolicyUpdate !== undefined) {
+      this.fillWorkerSlotsIfRunning(workspaceId as number);
     }
-    this.deps.workspaceStore.setActiveConversation(eid as ConversationId);
-
-    // unread 해제 및 클라이언트에 알림
-    if (conversation.unread) {
-      this.deps.workspaceStore.updateConversationUnread(eid as ConversationId, false);
 
-      // 모든 클라이언트에게 unread 변경만 알림 (status는 현재 값 유지)
+    if (from?.deviceId !== undefined) {
       this.send({
-        type: 'conversation_status',
-        payload: {
-          deviceId: this.config.deviceId,
-          conversationId: eid,
-          status: conversation.status,
-          unread: false,
-        },
-        broadcast: 'clients',
+        type: 'workspace_update_result',
+        to: [from.deviceId],
+        payload: { deviceId: this.config.deviceId, success, workspaceId },
       });
+    }
 
-      // 해당 앱의 unread 전송 기록도 초기화
-      if (from?.deviceId) {
-        const unreadSent = this.appUnreadSent.get(String(from.deviceId));
-        if (unreadSent) {
-          unreadSent.delete(eid);
-        }
-      }
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after workspace update: ${err}`);
+      });
     }
+  }
 
-    // 저장
-    this.scheduleSaveWorkspaceStore();
+  /**
+   * workspace_reorder 처리
+   */
+  private handleWorkspaceReorder(payload: Record<string, unknown> | undefined): void {
+    const { workspaceIds } = payload || {};
+    if (!workspaceIds || !Array.isArray(workspaceIds)) return;
 
-    // 메시지 세션 로드 (lazy loading)
-    this.loadMessageSession(eid);
+    const success = this.deps.workspaceStore.reorderWorkspaces(workspaceIds as number[]);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after workspace reorder: ${err}`);
+      });
+    }
+  }
 
-    // 클라이언트를 해당 세션의 시청자로 등록 (인코딩된 deviceId)
-    if (from?.deviceId) {
-      this.registerSessionViewer(from.deviceId, eid);
+  /**
+   * conversation_reorder 처리
+   */
+  private handleConversationReorder(payload: Record<string, unknown> | undefined): void {
+    const { workspaceId, conversationIds } = payload || {};
+    if (!workspaceId || !conversationIds || !Array.isArray(conversationIds)) return;
 
-      // 활성 세션 정보
-      const hasActiveSession = this.deps.agentManager.hasActiveSession(eid);
-      const workStartTime = this.deps.agentManager.getSessionStartTime(eid);
+    const success = this.deps.workspaceStore.reorderConversations(
+      workspaceId as number,
+      conversationIds as ConversationId[]
+    );
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after conversation reorder: ${err}`);
+      });
+    }
+  }
 
-      // 현재 상태 판단 (재연결 시 정확한 상태 동기화)
-      // idle: 활성 세션 없음
-      // permission: 활성 세션 있고 pending 이벤트 있음
-      // working: 활성 세션 있고 pending 이벤트 없음
-      let currentStatus: 'idle' | 'working' | 'permission' = 'idle';
+  /**
+   * workspace_rename 처리
+   */
+  private handleWorkspaceRename(payload: Record<string, unknown> | undefined): void {
+    const { workspaceId, newName } = payload || {};
+    if (!workspaceId || !newName) return;
+
+    const success = this.deps.workspaceStore.renameWorkspace(workspaceId as number, newName as string);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after workspace rename: ${err}`);
+      });
+    }
+  }
+
+  /**
+   * workspace_switch 처리
+   */
+  private handleWorkspaceSwitch(payload: Record<string, unknown> | undefined): void {
+    const { workspaceId, conversationId } = payload || {};
+    if (!workspaceId) return;
+
+    this.deps.workspaceStore.setActiveWorkspace(
+      workspaceId as number,
+      conversationId as ConversationId | undefined
+    );
+    this.switchToWorkspaceAccount(workspaceId as number);
+    this.broadcastWorkspaceList();
+    this.saveWorkspaceStore().catch((err) => {
+      this.deps.logger.error(`[Pylon] Failed to save after workspace switch: ${err}`);
+    });
+  }
+
+  // ==========================================================================
+  // Private 메서드 - 대화
+  // ==========================================================================
+
+  /**
+   * conversation_create 처리
+   */
+  private handleConversationCreate(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, name, useWorktree, agentType } = payload || {};
+    if (!workspaceId) return;
+
+    // 등록되지 않은 에이전트는 무시 (워크스페이스 기본값 사용)
+    const conversation = this.deps.workspaceStore.createConversation(
+      workspaceId as number,
+      name as string | undefined,
+      this.isRegisteredAgent(agentType) ? agentType : undefined,
+      { useWorktree: useWorktree === true && !!this.deps.gitWorktree }
+    );
+
+    if (conversation?.worktree) {
+      void this.createConversationWorktree(workspaceId as number, conversation, from);
+      return;
+    }
+
+    this.finishConversationCreate(workspaceId as number, conversation, from);
+  }
+
+  /**
+   * 이 Pylon에 등록된 에이전트 이름인지 확인
+   */
+  private isRegisteredAgent(agentType: unknown): agentType is AgentType {
+    return isAgentType(agentType) &&
+      this.deps.agentManager.getAgentBackends().some((agent) => agent.name === agentType);
+  }
+
+  /**
+   * 대화 전용 worktree를 만든 뒤 대화 생성 마무리
+   *
+   * worktree를 만들지 못하면 워크스페이스 workingDir을 쓰는 일반 대화로 만들고 사유를 알립니다.
+   */
+  private async createConversationWorktree(
+    workspaceId: number,
+    conversation: Conversation,
+    from: MessageFrom | undefined
+  ): Promise<void> {
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    let error: string | undefined;
+    try {
+      await this.deps.gitWorktree!.create(workspace!.workingDir, path.basename(conversation.worktree!.path));
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Pylon] Failed to create conversation worktree: ${error}`);
+      this.deps.workspaceStore.setConversationWorktree(conversation.conversationId, null);
+    }
+
+    this.finishConversationCreate(workspaceId, conversation, from, error);
+  }
+
+  /**
+   * 대화 생성 응답 및 후속 처리
+   */
+  private finishConversationCreate(
+    workspaceId: number,
+    conversation: Conversation | null,
+    from: MessageFrom | undefined,
+    error?: string
+  ): void {
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'conversation_create_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          success: !!conversation,
+          workspaceId,
+          conversation,
+          ...(error ? { error } : {}),
+        },
+      });
+    }
+
+    if (conversation) {
+      // ID 재사용 대비: 기존 메시지 파일 삭제 및 캐시 클리어
+      this.clearMessagesForConversation(conversation.conversationId);
+
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after conversation create: ${err}`);
+      });
+
+      // 세션 뷰어 등록
+      if (from?.deviceId) {
+        this.registerSessionViewer(from.deviceId, conversation.conversationId);
+      }
+
+      // 새 대화 생성 시 초기 컨텍스트 자동 전송
+      this.sendInitialContext(conversation.conversationId);
+    }
+  }
+
+  /**
+   * conversation_delete 처리
+   *
+   * 대화 전용 worktree가 있으면 worktreeAction(기본 keep)대로 정리한 뒤 삭제하고 결과를 알립니다.
+   */
+  private async handleConversationDelete(
+    payload: Record<string, unknown> | undefined,
+    from?: MessageFrom
+  ): Promise<void> {
+    const { conversationId, worktreeAction } = payload || {};
+    if (!conversationId) return;
+
+    const eid = conversationId as ConversationId;
+
+    const worktree = this.deps.workspaceStore.getConversation(eid)?.worktree;
+    if (!worktree) {
+      this.removeConversation(eid);
+      return;
+    }
+
+    const action: ConversationWorktreeAction =
+      worktreeAction === 'merge' || worktreeAction === 'discard' || worktreeAction === 'cleanup'
+        ? worktreeAction
+        : 'keep';
+
+    let success = false;
+    let error: string | undefined;
+    try {
+      if (action !== 'keep') {
+        await this.cleanupConversationWorktree(eid, worktree, action);
+      }
+      success = this.removeConversation(eid);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Pylon] Failed to ${action} conversation worktree: ${error}`);
+    }
+
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'conversation_delete_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          conversationId: eid,
+          success,
+          worktreeAction: action,
+          ...(error ? { error } : {}),
+        },
+      });
+    }
+  }
+
+  /**
+   * 대화 전용 worktree 정리
+   *
+   * - merge: 남은 변경 커밋 → 원본 체크아웃에 병합 → worktree/브랜치 삭제
+   * - discard: worktree/브랜치 삭제
+   * - cleanup: 남은 변경 커밋 → worktree만 삭제 (브랜치는 남김)
+   *
+   * 병합 충돌 등으로 실패하면 예외를 던집니다 (대화는 남김).
+   */
+  private async cleanupConversationWorktree(
+    conversationId: ConversationId,
+    worktree: ConversationWorktree,
+    action: Exclude<ConversationWorktreeAction, 'keep'>
+  ): Promise<void> {
+    const gitWorktree = this.deps.gitWorktree;
+    const conversation = this.deps.workspaceStore.getConversation(conversationId);
+    const workspace = this.deps.workspaceStore.getWorkspace(
+      decodeConversationIdFull(conversationId).workspaceId
+    );
+    if (!gitWorktree || !conversation || !workspace) {
+      throw new Error('worktree를 정리할 수 없습니다');
+    }
+
+    // 정리하는 동안 에이전트가 worktree를 건드리지 않도록 먼저 중지하고 실행이 끝나기를 기다림
+    try {
+      if (this.deps.agentManager.hasActiveSession(conversationId)) {
+        await this.deps.agentManager.stop(conversationId);
+      }
+    } catch (err) {
+      this.deps.logger.error(`[Pylon] Failed to stop agent session on delete: ${err}`);
+    }
+
+    const commitMessage = `대화 "${conversation.name}" 작업 내용`;
+    if (action === 'merge') {
+      await gitWorktree.commitChanges(worktree.path, commitMessage);
+      await gitWorktree.merge(workspace.workingDir, worktree.branch);
+      await gitWorktree.remove(workspace.workingDir, worktree.path, worktree.branch);
+    } else if (action === 'discard') {
+      await gitWorktree.remove(workspace.workingDir, worktree.path, worktree.branch);
+    } else {
+      await gitWorktree.commitChanges(worktree.path, commitMessage);
+      await gitWorktree.remove(workspace.workingDir, worktree.path);
+    }
+  }
+
+  /**
+   * 대화 삭제 (에이전트/위젯/메시지 정리 후 store에서 제거)
+   */
+  private removeConversation(eid: ConversationId): boolean {
+    // Agent 세션 정리 (있으면) + 대화별 어댑터 상태 정리
+    try {
+      if (this.deps.agentManager.hasActiveSession(eid)) {
+        this.deps.agentManager.stop(eid);
+      }
+      this.deps.agentManager.forgetConversation(eid);
+    } catch (err) {
+      this.deps.logger.error(`[Pylon] Failed to stop agent session on delete: ${err}`);
+    }
+
+    // 위젯 정리 (있으면)
+    this.deps.mcpServer?.cancelWidgetForConversation(eid as number);
+
+    // 삭제 전에 메시지 정리
+    this.clearMessagesForConversation(eid);
+    this.releaseGitBaseline(eid);
+
+    const success = this.deps.workspaceStore.deleteConversation(eid);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after conversation delete: ${err}`);
+      });
+    }
+    return success;
+  }
+
+  /**
+   * conversation_rename 처리
+   */
+  private handleConversationRename(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, newName } = payload || {};
+    if (!conversationId || !newName) return;
+
+    const eid = conversationId as ConversationId;
+
+    // 이전 이름 저장 (리마인더 전송용)
+    const oldConversation = this.deps.workspaceStore.getConversation(eid);
+    const oldName = oldConversation?.name || '';
+
+    const success = this.deps.workspaceStore.renameConversation(eid, newName as string);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after conversation rename: ${err}`);
+      });
+
+      // 활성 세션에 리마인더 전송
+      if (this.deps.agentManager.hasActiveSession(eid)) {
+        const reminder = buildConversationRenamedReminder(oldName, newName as string);
+        const workingDir = this.getWorkingDirForConversation(eid);
+        if (workingDir) {
+          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
+        }
+      }
+    }
+  }
+
+  /**
+   * link_document 처리
+   */
+  private handleLinkDocument(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, path } = payload || {};
+    if (!conversationId || !path) return;
+
+    const eid = conversationId as ConversationId;
+    const docPath = path as string;
+
+    // 문서 연결
+    const success = this.deps.workspaceStore.linkDocument(eid, docPath);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after link document: ${err}`);
+      });
+
+      // 활성 세션에 리마인더 전송
+      if (this.deps.agentManager.hasActiveSession(eid)) {
+        const reminder = buildDocumentAddedReminder(docPath);
+        const workingDir = this.getWorkingDirForConversation(eid);
+        if (workingDir) {
+          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
+        }
+      }
+    }
+  }
+
+  /**
+   * unlink_document 처리
+   */
+  private handleUnlinkDocument(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, path } = payload || {};
+    if (!conversationId || !path) return;
+
+    const eid = conversationId as ConversationId;
+    const docPath = path as string;
+
+    // 문서 연결 해제
+    const success = this.deps.workspaceStore.unlinkDocument(eid, docPath);
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Pylon] Failed to save after unlink document: ${err}`);
+      });
+
+      // 활성 세션에 리마인더 전송
+      if (this.deps.agentManager.hasActiveSession(eid)) {
+        const reminder = buildDocumentRemovedReminder(docPath);
+        const workingDir = this.getWorkingDirForConversation(eid);
+        if (workingDir) {
+          this.deps.agentManager.sendMessage(eid, reminder, { workingDir });
+        }
+      }
+    }
+  }
+
+  /**
+   * conversationId로 workingDir 조회 (헬퍼)
+   *
+   * 대화 전용 worktree가 있으면 그 경로를 씁니다.
+   */
+  private getWorkingDirForConversation(conversationId: ConversationId): string | null {
+    const worktree = this.deps.workspaceStore.getConversation(conversationId)?.worktree;
+    if (worktree) return worktree.path;
+
+    const decoded = decodeConversationIdFull(conversationId);
+    const workspace = this.deps.workspaceStore.getWorkspace(decoded.workspaceId);
+    return workspace?.workingDir ?? null;
+  }
+
+  /**
+   * conversation_select 처리
+   *
+   * 멀티 Pylon 환경에서 브로드캐스트로 수신됨:
+   * - 내 대화면: active 설정 + 히스토리 전송
+   * - 다른 Pylon 대화면: activeConversationId를 null로 deselect
+   */
+  private handleConversationSelect(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    // DEBUG: from 정보 로그
+    this.log(`[conversation_select] from=${JSON.stringify(from)}, payload=${JSON.stringify(payload)}`);
+    const { conversationId, workspaceId } = payload || {};
+    if (!conversationId) return;
+
+    const eid = conversationId as number;
+    const wsId = workspaceId as number;
+
+    // 이 대화가 내 Pylon의 것인지 확인
+    const conversation = this.deps.workspaceStore.getConversation(eid as ConversationId);
+    if (!conversation) {
+      // 다른 Pylon의 대화 → 내 activeConversationId를 null로 deselect
+      const currentActive = this.deps.workspaceStore.getActiveState().activeConversationId;
+      if (currentActive !== null) {
+        this.log(`[conversation_select] Deselecting my conversation (other Pylon's conversation selected)`);
+        this.deps.workspaceStore.clearActiveConversation();
+        this.scheduleSaveWorkspaceStore();
+      }
+      // 클라이언트를 세션 시청자에서도 제거 (이벤트 스트림 구독 해제)
+      if (from?.deviceId) {
+        this.unregisterSessionViewer(from.deviceId);
+      }
+      return;
+    }
+
+    // 내 대화 → 기존 로직 실행
+    // 워크스페이스와 대화 모두 active 상태로 설정
+    if (wsId) {
+      this.deps.workspaceStore.setActiveWorkspace(wsId);
+      this.switchToWorkspaceAccount(wsId);
+    }
+    this.deps.workspaceStore.setActiveConversation(eid as ConversationId);
+
+    // unread 해제 및 클라이언트에 알림
+    if (conversation.unread) {
+      this.deps.workspaceStore.updateConversationUnread(eid as ConversationId, false);
+
+      // 모든 클라이언트에게 unread 변경만 알림 (status는 현재 값 유지)
+      this.send({
+        type: 'conversation_status',
+        payload: {
+          deviceId: this.config.deviceId,
+          conversationId: eid,
+          status: conversation.status,
+          unread: false,
+        },
+        broadcast: 'clients',
+      });
+
+      // 해당 앱의 unread 전송 기록도 초기화
+      if (from?.deviceId) {
+        const unreadSent = this.appUnreadSent.get(String(from.deviceId));
+        if (unreadSent) {
+          unreadSent.delete(eid);
+        }
+      }
+    }
+
+    // 저장
+    this.scheduleSaveWorkspaceStore();
+
+    // 메시지 세션 로드 (lazy loading)
+    this.loadMessageSession(eid);
+
+    // 클라이언트를 해당 세션의 시청자로 등록 (인코딩된 deviceId)
+    if (from?.deviceId) {
+      this.registerSessionViewer(from.deviceId, eid);
+
+      // 활성 세션 정보
+      const hasActiveSession = this.deps.agentManager.hasActiveSession(eid);
+      const workStartTime = this.deps.agentManager.getSessionStartTime(eid);
+
+      // 현재 상태 판단 (재연결 시 정확한 상태 동기화)
+      // idle: 활성 세션 없음
+      // permission: 활성 세션 있고 pending 이벤트 있음
+      // working: 활성 세션 있고 pending 이벤트 없음
+      let currentStatus: 'idle' | 'working' | 'permission' = 'idle';
       if (hasActiveSession) {
         const pendingEvent = this.deps.agentManager.getPendingEvent(eid);
         if (pendingEvent) {
@@ -2271,697 +3816,1708 @@ export class Pylon {
         }
       }
 
-      // 메시지 히스토리 전송 (페이징: 100KB 제한)
-      const MAX_BYTES = 100 * 1024; // 100KB
-      const totalCount = this.deps.messageStore.getCount(eid);
-      const messages = this.deps.messageStore.getMessages(eid, { maxBytes: MAX_BYTES });
-      const hasMore = messages.length < totalCount;
+      // 메시지 히스토리 전송 (페이징: 100KB 제한)
+      const MAX_BYTES = 100 * 1024; // 100KB
+      const totalCount = this.deps.messageStore.getCount(eid);
+      const messages = this.deps.messageStore.getMessages(eid, { maxBytes: MAX_BYTES });
+      const hasMore = messages.length < totalCount;
+
+      this.send({
+        type: 'history_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          conversationId: eid,
+          messages,
+          totalCount,
+          hasMore,
+          hasActiveSession,
+          workStartTime,
+          currentStatus,
+        },
+      });
+
+      // pending 이벤트가 있으면 전송
+      const pendingEvent = this.deps.agentManager.getPendingEvent(eid);
+      if (pendingEvent) {
+        const pe = pendingEvent as { type: string };
+        if (pe.type === 'permission_request' || pe.type === 'askQuestion') {
+          this.send({
+            type: 'claude_event',
+            payload: { conversationId: eid, event: { type: 'state', state: 'permission' } },
+            to: [from.deviceId],
+          });
+        }
+        this.send({
+          type: 'claude_event',
+          payload: { conversationId: eid, event: pendingEvent },
+          to: [from.deviceId],
+        });
+      }
+
+      // owner 없는 위젯 세션이 있으면 (재연결, Pylon 재시작) 다시 붙을 수 있게 알림
+      const pendingWidget = this.deps.mcpServer?.getPendingWidget(eid);
+      const widgetSession = pendingWidget
+        ? this.deps.widgetManager?.getSession(pendingWidget.widgetSessionId)
+        : undefined;
+      if (
+        widgetSession &&
+        widgetSession.ownerClientId === null &&
+        (widgetSession.status === 'ready' || widgetSession.status === 'running')
+      ) {
+        this.sendWidgetResumable(widgetSession, from.deviceId);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Private 메서드 - Claude
+  // ==========================================================================
+
+  /**
+   * claude_send 처리
+   */
+  private handleClaudeSend(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { conversationId, message: userMessage, attachedFileIds, attachments: attachmentPaths } = payload || {};
+    const hasAttachments = (attachedFileIds as string[] | undefined)?.length || (attachmentPaths as string[] | undefined)?.length;
+    // 메시지나 첨부파일 중 하나는 있어야 함
+    if (!conversationId || (!userMessage && !hasAttachments)) return;
+
+    const eid = conversationId as number;
+
+    // workingDir 및 conversation 정보 가져오기
+    const conversation = this.deps.workspaceStore.getConversation(eid as ConversationId) ?? null;
+    const workingDir = this.getWorkingDirForConversation(eid as ConversationId);
+
+    // 첨부 파일 처리
+    let attachments: unknown[] | null = null;
+    const pendingFilesForConv = this.pendingFiles.get(eid);
+    const fileIds = attachedFileIds as string[] | undefined;
+    const paths = attachmentPaths as string[] | undefined;
+
+    // 방법 1: attachedFileIds로 pendingFiles에서 찾기
+    if (fileIds && fileIds.length > 0 && pendingFilesForConv) {
+      attachments = [];
+      for (const fileId of fileIds) {
+        const fileInfo = pendingFilesForConv.get(fileId);
+        if (fileInfo) {
+          attachments.push(fileInfo);
+          pendingFilesForConv.delete(fileId);
+        }
+      }
+      if (attachments.length === 0) {
+        attachments = null;
+      }
+    }
+    // 방법 2: attachments로 경로가 직접 전달된 경우
+    else if (paths && paths.length > 0) {
+      attachments = paths.map((path) => {
+        const filename = path.split(/[/\\]/).pop() || 'unknown';
+        // pendingFiles에서 경로로 thumbnail 찾기
+        let thumbnail: string | undefined;
+        if (pendingFilesForConv) {
+          for (const fileInfo of pendingFilesForConv.values()) {
+            const info = fileInfo as { path?: string; thumbnail?: string };
+            if (info.path === path) {
+              thumbnail = info.thumbnail;
+              break;
+            }
+          }
+        }
+        return { path, filename, ...(thumbnail && { thumbnail }) };
+      });
+      if (attachments.length === 0) {
+        attachments = null;
+      }
+    }
+
+    // 사용자 메시지 (빈 문자열 허용)
+    const messageText = (userMessage as string) || '';
+
+    // 세션을 이어갈 수 없는 분기 대화는 복사한 히스토리를 첫 메시지에 전달
+    const pendingFork = conversation?.pendingFork;
+    const forkHistory = pendingFork && !pendingFork.agentSessionId
+      ? this.deps.messageStore.getMessages(eid, { limit: this.deps.messageStore.getCount(eid) })
+      : null;
+
+    // 사용자 메시지 저장
+    this.deps.messageStore.addUserMessage(eid, messageText, attachments as never);
+    this.scheduleSaveMessages(eid);
+
+    // 사용자 메시지 브로드캐스트
+    const userMessageEvent = {
+      type: 'claude_event',
+      payload: {
+        conversationId: eid,
+        event: {
+          type: 'userMessage',
+          content: messageText,
+          timestamp: Date.now(),
+          ...(attachments && { attachments }),
+        },
+      },
+    };
+    this.send({ ...userMessageEvent, broadcast: 'clients' });
+
+    // Claude에게 메시지 전송
+    if (workingDir) {
+      let promptToSend = messageText;
+
+      // 첨부 파일 경로 추가 (Read 도구 사용 유도)
+      // 이 지시문은 히스토리에 저장되지 않음 (promptToSend만 Claude에게 전송)
+      if (attachments && attachments.length > 0) {
+        const filePaths = (attachments as Array<{ path: string }>)
+          .map((file) => `- ${file.path}`)
+          .join('\n');
+        promptToSend = `[시스템: 아래 파일들을 Read 도구로 읽을 것]\n${filePaths}${messageText ? '\n\n' + messageText : ''}`;
+      }
+
+      // 분기 대기 중이면 원본 세션을 분기 지점에서 이어감
+      const forkSessionId = conversation?.claudeSessionId ? undefined : pendingFork?.agentSessionId;
+      const agentSessionId = conversation?.claudeSessionId ?? forkSessionId ?? undefined;
+
+      // 세션 컨텍스트 빌드
+      const linkedDocs = conversation?.linkedDocuments?.map((d) => d.path) || [];
+      const systemPrompt = this.config.buildEnv
+        ? buildSystemPrompt(this.config.buildEnv)
+        : undefined;
+
+      // autorun 문서 감지
+      const autorunDoc = findAutorunDoc(linkedDocs, (p) => {
+        try { return fs.readFileSync(p, 'utf-8'); }
+        catch { return null; }
+      });
+
+      let systemReminder = buildInitialReminder(
+        conversation?.name || '새 대화',
+        linkedDocs,
+        autorunDoc ? { autorunDoc } : undefined
+      );
+      if (forkHistory && forkHistory.length > 0) {
+        systemReminder = systemReminder + '\n\n' + buildForkHistoryReminder(forkHistory);
+      }
+
+      const sendToAgent = () => this.deps.agentManager.sendMessage(eid, promptToSend, {
+        workingDir,
+        agentSessionId,
+        ...(forkSessionId && {
+          forkSession: true,
+          resumeSessionAt: pendingFork?.resumeSessionAt,
+        }),
+        systemPrompt,
+        systemReminder,
+      });
+
+      // 첫 메시지면 Claude가 파일을 바꾸기 전에 git 기준점을 찍어 둠
+      if (this.deps.gitService && conversation && !conversation.gitBaseline) {
+        void this.recordGitBaseline(eid, workingDir).then(sendToAgent);
+      } else {
+        sendToAgent();
+      }
+    }
+  }
+
+  /**
+   * claude_permission 처리
+   */
+  private handleClaudePermission(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { conversationId, toolUseId, decision } = payload || {};
+    if (!conversationId || !toolUseId || !decision) return;
+
+    // 항상 허용: 응답하면 대기 중인 권한 요청이 지워지므로 먼저 규칙 추가
+    if (decision === 'allowAlways') {
+      this.addAlwaysAllowRule(conversationId as number, toolUseId as string);
+    }
+
+    const decidedBy = from?.deviceId !== undefined
+      ? { deviceId: from.deviceId, ...(from.name && { name: from.name }) }
+      : undefined;
+
+    this.deps.agentManager.respondPermission(
+      conversationId as number,
+      toolUseId as string,
+      decision as PermissionDecision,
+      decidedBy
+    );
+  }
+
+  /**
+   * 대기 중인 권한 요청과 같은 입력만 허용하는 규칙을 워크스페이스에 추가
+   */
+  private addAlwaysAllowRule(conversationId: number, toolUseId: string): void {
+    const pending = this.deps.agentManager.getPendingPermission(toolUseId);
+    if (!pending || pending.sessionId !== conversationId) return;
+
+    const rule = createExactAllowRule(pending.toolName, pending.input);
+    if (!rule) {
+      this.log(`[Permission] Skipped allow rule: ${pending.toolName} has no comparable input`);
+      return;
+    }
+    if (!this.deps.workspaceStore.addPermissionRule(conversationId as ConversationId, rule)) return;
+
+    this.log(`[Permission] Added allow rule: ${rule.toolName} ${rule.pattern ?? '*'}`);
+    this.broadcastWorkspaceList();
+    this.saveWorkspaceStore().catch((err) => {
+      this.deps.logger.error(`[Pylon] Failed to save after permission rule add: ${err}`);
+    });
+  }
+
+  /**
+   * claude_answer 처리
+   */
+  private handleClaudeAnswer(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, toolUseId, answer } = payload || {};
+    if (!conversationId || !toolUseId) return;
+
+    this.deps.agentManager.respondQuestion(
+      conversationId as number,
+      toolUseId as string,
+      answer as string
+    );
+  }
+
+  /**
+   * claude_control 처리
+   */
+  private handleClaudeControl(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, action } = payload || {};
+    if (!conversationId || !action) return;
+
+    const eid = conversationId as number;
+
+    switch (action) {
+      case 'stop':
+        this.deps.agentManager.stop(eid);
+        break;
+      case 'new_session':
+      case 'clear':
+        this.deps.agentManager.newSession(eid);
+        this.deps.messageStore.clear(eid);
+        // 새 세션 시작 시 초기 컨텍스트 자동 전송
+        this.sendInitialContext(eid);
+        break;
+      case 'compact':
+        this.log(`Compact not implemented yet`);
+        break;
+    }
+  }
+
+  /**
+   * 초기 컨텍스트 전송 (대화 생성/새 세션 시)
+   * @param additionalMessage - 시스템 리마인더 뒤에 추가할 메시지 (한 번에 전송)
+   */
+  private sendInitialContext(conversationId: number, additionalMessage?: string): void {
+    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
+    if (!conversation) return;
+
+    const workingDir = this.getWorkingDirForConversation(conversationId as ConversationId);
+    if (!workingDir) return;
+
+    const linkedDocs = conversation.linkedDocuments?.map((d) => d.path) || [];
+
+    // systemPrompt 결정: customSystemPrompt가 있으면 preset + append 형식 사용
+    let systemPrompt: string | { type: 'preset'; preset: 'claude_code'; append?: string } | undefined;
+    if (conversation.customSystemPrompt) {
+      // customSystemPrompt가 있으면 Claude Code 기본 프롬프트에 append
+      systemPrompt = {
+        type: 'preset',
+        preset: 'claude_code',
+        append: conversation.customSystemPrompt,
+      };
+    } else if (this.config.buildEnv) {
+      // 기존 방식: 환경 정보만 포함
+      systemPrompt = buildSystemPrompt(this.config.buildEnv);
+    }
+
+    // autorun 문서 감지
+    const autorunDoc = findAutorunDoc(linkedDocs, (p) => {
+      try { return fs.readFileSync(p, 'utf-8'); }
+      catch { return null; }
+    });
+
+    let systemReminder = buildInitialReminder(
+      conversation.name || '',
+      linkedDocs,
+      autorunDoc ? { autorunDoc } : undefined
+    );
+
+    // 추가 메시지가 있으면 시스템 리마인더에 합쳐서 한 번에 전송
+    if (additionalMessage) {
+      systemReminder = systemReminder + '\n\n' + additionalMessage;
+    }
+
+    this.deps.agentManager.sendMessage(conversationId, systemReminder, {
+      workingDir,
+      systemPrompt,
+    });
+  }
+
+  /**
+   * claude_set_permission_mode 처리
+   */
+  private handleClaudeSetPermissionMode(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, mode } = payload || {};
+    if (!conversationId || !mode) return;
+
+    const success = this.deps.workspaceStore.setConversationPermissionMode(
+      conversationId as ConversationId,
+      mode as PermissionModeValue
+    );
+
+    // 변경 성공 시 저장
+    if (success) {
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Persistence] Failed to save permission mode: ${err}`);
+      });
+    }
+  }
+
+  /**
+   * claude_set_agent_settings 처리
+   *
+   * @description
+   * 설정 전체를 교체합니다. (null이면 에이전트 기본값으로 되돌림)
+   * 응답 중에 바꾸면 다음 메시지부터 적용됩니다.
+   */
+  private handleClaudeSetAgentSettings(payload: Record<string, unknown> | undefined): void {
+    const { conversationId, settings } = payload || {};
+    if (!conversationId) return;
+    if (settings !== null && !isConversationAgentSettings(settings)) return;
+
+    const success = this.deps.workspaceStore.setConversationAgentSettings(
+      conversationId as ConversationId,
+      settings as ConversationAgentSettings | null
+    );
+
+    if (success) {
+      this.broadcastWorkspaceList();
+      this.saveWorkspaceStore().catch((err) => {
+        this.deps.logger.error(`[Persistence] Failed to save agent settings: ${err}`);
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Private 메서드 - Blob
+  // ==========================================================================
+
+  /**
+   * blob_end 결과 처리
+   */
+  private async handleBlobEndResult(
+    result: { success: boolean; path?: string; context?: unknown; mimeType?: string },
+    from: MessageFrom | undefined,
+    payload: Record<string, unknown> | undefined
+  ): Promise<void> {
+    if (!result.success) return;
+
+    const context = result.context as { type?: string; conversationId?: number } | undefined;
+    if (context?.type === 'image_upload') {
+      const { conversationId } = context;
+      const blobId = (payload as { blobId?: string })?.blobId;
+
+      if (conversationId && blobId && result.path) {
+        const fileId = blobId;
+        const filename = result.path.split(/[/\\]/).pop() || 'unknown';
+        const mimeType = result.mimeType || 'application/octet-stream';
+
+        // 썸네일 생성 (이미지인 경우에만)
+        let thumbnail: string | null = null;
+        try {
+          thumbnail = await generateThumbnail(result.path, mimeType);
+        } catch (err) {
+          console.error('[BLOB] Thumbnail generation failed:', err);
+        }
+
+        // 클라이언트에 업로드 완료 알림
+        if (from?.deviceId !== undefined) {
+          this.send({
+            type: 'blob_upload_complete',
+            to: [from.deviceId],
+            payload: {
+              blobId,
+              fileId,
+              path: result.path,
+              filename,
+              conversationId,
+              mimeType,
+              ...(thumbnail && { thumbnail }),
+            },
+          });
+        }
+
+        // pending 파일로 저장
+        if (!this.pendingFiles.has(conversationId)) {
+          this.pendingFiles.set(conversationId, new Map());
+        }
+        this.pendingFiles.get(conversationId)!.set(fileId, {
+          fileId,
+          path: result.path,
+          filename,
+          mimeType,
+          ...(thumbnail && { thumbnail }),
+        });
+      }
+    } else if (context?.type === 'conversation_import') {
+      // 대화 가져오기용 파일 업로드 완료 → 바로 가져오기
+      const { workspaceId, name } = context as { workspaceId?: number; name?: string };
+      if (typeof workspaceId === 'number' && result.path && from?.deviceId !== undefined) {
+        this.importConversation({ workspaceId, path: result.path, name }, from.deviceId);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Private 메서드 - 폴더
+  // ==========================================================================
+
+  /**
+   * folder_list 처리
+   *
+   * path가 비어있거나 '__DRIVES__'이면 드라이브 목록 반환
+   */
+  private handleFolderList(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { path: targetPath, deviceId: targetDeviceId } = payload || {};
+
+    // 대상 Pylon이 아니면 무시
+    if (targetDeviceId !== undefined && targetDeviceId !== this.config.deviceId) {
+      return;
+    }
+
+    // 플랫폼 정보
+    const platform = this.deps.folderManager.getPlatform();
+
+    // 드라이브 목록 요청 (__DRIVES__) vs 초기 경로 요청 (빈 문자열, undefined, null)
+    const isEmptyPath = targetPath === '' || targetPath === undefined || targetPath === null;
+
+    // 빈 경로: 기본 작업 디렉토리로 시작 (새 워크스페이스 다이얼로그 초기 상태)
+    if (isEmptyPath) {
+      const defaultPath = this.deps.folderManager.getDefaultPath();
+      const result = this.deps.folderManager.listFolders(defaultPath);
+      if (from?.deviceId !== undefined) {
+        this.send({
+          type: 'folder_list_result',
+          to: [from.deviceId],
+          payload: {
+            deviceId: this.config.deviceId,
+            ...result,  // platform 포함
+          },
+        });
+      }
+      return;
+    }
+
+    // __DRIVES__: 드라이브/루트 목록 요청
+    if (targetPath === '__DRIVES__') {
+      const driveResult = this.deps.folderManager.listDrives();
+
+      // Linux인 경우 드라이브 목록 대신 루트 '/'의 폴더 목록 반환
+      if (platform === 'linux' && driveResult.drives.length === 1 && driveResult.drives[0].path === '/') {
+        const rootResult = this.deps.folderManager.listFolders('/');
+        if (from?.deviceId !== undefined) {
+          this.send({
+            type: 'folder_list_result',
+            to: [from.deviceId],
+            payload: {
+              deviceId: this.config.deviceId,
+              ...rootResult,  // platform 포함
+            },
+          });
+        }
+        return;
+      }
+
+      if (from?.deviceId !== undefined) {
+        this.send({
+          type: 'folder_list_result',
+          to: [from.deviceId],
+          payload: {
+            deviceId: this.config.deviceId,
+            platform,
+            path: '',
+            folders: driveResult.drives.map((d) => d.label),
+            foldersWithChildren: driveResult.drives.map((d) => ({
+              name: d.label,
+              path: d.path,
+              hasChildren: d.hasChildren,
+              isDrive: true,
+            })),
+            success: driveResult.success,
+            error: driveResult.error,
+          },
+        });
+      }
+      return;
+    }
+
+    const result = this.deps.folderManager.listFolders(targetPath as string);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'folder_list_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          ...result,  // platform 포함
+        },
+      });
+    }
+  }
+
+  /**
+   * folder_create 처리
+   */
+  private handleFolderCreate(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { path: parentPath, name } = payload || {};
+    if (!parentPath || !name) return;
+
+    const result = this.deps.folderManager.createFolder(parentPath as string, name as string);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'folder_create_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          ...result,
+        },
+      });
+    }
+  }
+
+  /**
+   * folder_rename 처리
+   */
+  private handleFolderRename(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { path: folderPath, newName } = payload || {};
+    if (!folderPath || !newName) return;
+
+    const result = this.deps.folderManager.renameFolder(folderPath as string, newName as string);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'folder_rename_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          ...result,
+        },
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Private 메서드 - 태스크
+  // ==========================================================================
+
+  /**
+   * task_list 처리
+   */
+  private handleTaskList(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace) return;
+
+    const result = this.deps.taskManager.listTasks(workspace.workingDir);
+    const workerStatus = this.deps.workerManager.getWorkerStatus(workspaceId as number, workspace.workingDir);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'task_list_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          workspaceId,
+          ...result,
+          workerStatus,
+        },
+      });
+    }
+  }
+
+  /**
+   * task_get 처리
+   */
+  private handleTaskGet(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, taskId } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || !taskId) return;
+
+    const result = this.deps.taskManager.getTask(workspace.workingDir, taskId as string);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'task_get_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          workspaceId,
+          ...result,
+        },
+      });
+    }
+  }
+
+  /**
+   * task_status 처리
+   */
+  private handleTaskStatus(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, taskId, status, error } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || !taskId || !status) return;
 
+    const result = this.deps.taskManager.updateTaskStatus(
+      workspace.workingDir,
+      taskId as string,
+      status as string,
+      error as string | undefined
+    );
+    if (from?.deviceId !== undefined) {
       this.send({
-        type: 'history_result',
+        type: 'task_status_result',
         to: [from.deviceId],
         payload: {
           deviceId: this.config.deviceId,
-          conversationId: eid,
-          messages,
-          totalCount,
-          hasMore,
-          hasActiveSession,
-          workStartTime,
-          currentStatus,
+          workspaceId,
+          ...result,
         },
       });
+    }
 
-      // pending 이벤트가 있으면 전송
-      const pendingEvent = this.deps.agentManager.getPendingEvent(eid);
-      if (pendingEvent) {
-        const pe = pendingEvent as { type: string };
-        if (pe.type === 'permission_request' || pe.type === 'askQuestion') {
-          this.send({
-            type: 'claude_event',
-            payload: { conversationId: eid, event: { type: 'state', state: 'permission' } },
-            to: [from.deviceId],
-          });
-        }
-        this.send({
-          type: 'claude_event',
-          payload: { conversationId: eid, event: pendingEvent },
-          to: [from.deviceId],
-        });
-      }
+    // 태스크 목록 브로드캐스트
+    this.broadcastTaskList(workspaceId as number);
+  }
+
+  /**
+   * task_create 처리
+   *
+   * 새 태스크를 만들고, 워커가 돌고 있으면 빈 슬롯을 채웁니다.
+   */
+  private handleTaskCreate(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, title, body } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || typeof title !== 'string' || !title.trim()) return;
+
+    const created = this.deps.taskManager.createTask(
+      workspace.workingDir,
+      title.trim(),
+      typeof body === 'string' ? body : '',
+      this.parseTaskFields(payload!)
+    );
+    const task = created.task
+      ? this.deps.taskManager.getTask(workspace.workingDir, created.task.id).task
+      : undefined;
+
+    this.replyTaskChange(from, workspaceId as number, created.success, task, created.error);
+    if (created.success) {
+      this.broadcastTaskList(workspaceId as number);
+      this.fillWorkerSlotsIfRunning(workspaceId as number);
     }
   }
 
-  // ==========================================================================
-  // Private 메서드 - Claude
-  // ==========================================================================
+  /**
+   * task_update 처리 (제목/본문/우선순위/의존 관계/재시도/제한 시간)
+   */
+  private handleTaskUpdate(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, taskId, title, body } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || typeof taskId !== 'string') return;
+
+    const result = this.deps.taskManager.updateTask(workspace.workingDir, taskId, {
+      ...this.parseTaskFields(payload!),
+      ...(typeof title === 'string' && { title }),
+      ...(typeof body === 'string' && { body }),
+    });
+
+    this.replyTaskChange(from, workspaceId as number, result.success, result.task, result.error);
+    if (result.success) {
+      this.broadcastTaskList(workspaceId as number);
+      this.fillWorkerSlotsIfRunning(workspaceId as number);
+    }
+  }
 
   /**
-   * claude_send 처리
+   * task_reorder 처리
+   *
+   * 대기 중인 태스크를 주어진 순서로 실행하도록 우선순위를 다시 매깁니다.
    */
-  private handleClaudeSend(
+  private handleTaskReorder(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { conversationId, message: userMessage, attachedFileIds, attachments: attachmentPaths } = payload || {};
-    const hasAttachments = (attachedFileIds as string[] | undefined)?.length || (attachmentPaths as string[] | undefined)?.length;
-    // 메시지나 첨부파일 중 하나는 있어야 함
-    if (!conversationId || (!userMessage && !hasAttachments)) return;
+    const { workspaceId, taskIds } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || !Array.isArray(taskIds)) return;
 
-    const eid = conversationId as number;
+    const result = this.deps.taskManager.reorderPendingTasks(
+      workspace.workingDir,
+      taskIds.filter((id): id is string => typeof id === 'string')
+    );
 
-    // workingDir 및 conversation 정보 가져오기
-    const conversation = this.deps.workspaceStore.getConversation(eid as ConversationId) ?? null;
-    const decoded = decodeConversationIdFull(eid as ConversationId);
-    const workspace = this.deps.workspaceStore.getWorkspace(decoded.workspaceId);
-    const workingDir = workspace?.workingDir ?? null;
+    this.replyTaskChange(from, workspaceId as number, result.success, undefined, result.error);
+    if (result.success) {
+      this.broadcastTaskList(workspaceId as number);
+    }
+  }
 
-    // 첨부 파일 처리
-    let attachments: unknown[] | null = null;
-    const pendingFilesForConv = this.pendingFiles.get(eid);
-    const fileIds = attachedFileIds as string[] | undefined;
-    const paths = attachmentPaths as string[] | undefined;
+  /**
+   * task_branch 처리
+   *
+   * 워커가 남긴 태스크 결과 브랜치를 워크스페이스 체크아웃에 병합(merge)하거나 버린(discard) 뒤 지웁니다.
+   * 병합 충돌 등으로 실패하면 브랜치를 남겨두고 실패를 알립니다.
+   */
+  private async handleTaskBranch(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): Promise<void> {
+    const { workspaceId, taskId, action } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace || typeof taskId !== 'string' || (action !== 'merge' && action !== 'discard')) return;
 
-    // 방법 1: attachedFileIds로 pendingFiles에서 찾기
-    if (fileIds && fileIds.length > 0 && pendingFilesForConv) {
-      attachments = [];
-      for (const fileId of fileIds) {
-        const fileInfo = pendingFilesForConv.get(fileId);
-        if (fileInfo) {
-          attachments.push(fileInfo);
-          pendingFilesForConv.delete(fileId);
-        }
-      }
-      if (attachments.length === 0) {
-        attachments = null;
-      }
+    const gitWorktree = this.deps.gitWorktree;
+    const task = this.deps.taskManager.getTask(workspace.workingDir, taskId).task as
+      { branch?: string | null } | undefined;
+    if (!gitWorktree || !task?.branch) {
+      this.replyTaskChange(from, workspaceId as number, false, undefined, '처리할 결과 브랜치가 없습니다.');
+      return;
     }
-    // 방법 2: attachments로 경로가 직접 전달된 경우
-    else if (paths && paths.length > 0) {
-      attachments = paths.map((path) => {
-        const filename = path.split(/[/\\]/).pop() || 'unknown';
-        // pendingFiles에서 경로로 thumbnail 찾기
-        let thumbnail: string | undefined;
-        if (pendingFilesForConv) {
-          for (const fileInfo of pendingFilesForConv.values()) {
-            const info = fileInfo as { path?: string; thumbnail?: string };
-            if (info.path === path) {
-              thumbnail = info.thumbnail;
-              break;
-            }
-          }
-        }
-        return { path, filename, ...(thumbnail && { thumbnail }) };
-      });
-      if (attachments.length === 0) {
-        attachments = null;
+
+    const branch = task.branch;
+    try {
+      if (action === 'merge') {
+        await gitWorktree.merge(workspace.workingDir, branch);
       }
+      const worktreePath = getWorktreePath(workspace.workingDir, branch.slice(WORKTREE_BRANCH_PREFIX.length));
+      await gitWorktree.remove(workspace.workingDir, worktreePath, branch);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.deps.logger.error(`[Worker] Failed to ${action} task branch ${branch}: ${message}`);
+      this.replyTaskChange(from, workspaceId as number, false, undefined, message);
+      return;
     }
 
-    // 사용자 메시지 (빈 문자열 허용)
-    const messageText = (userMessage as string) || '';
+    const result = this.deps.taskManager.setTaskBranch(workspace.workingDir, taskId, null);
+    this.replyTaskChange(from, workspaceId as number, result.success, result.task, result.error);
+    this.broadcastTaskList(workspaceId as number);
+  }
 
-    // 사용자 메시지 저장
-    this.deps.messageStore.addUserMessage(eid, messageText, attachments as never);
-    this.scheduleSaveMessages(eid);
+  /**
+   * 태스크 변경 결과 응답 (task_status_result)
+   */
+  private replyTaskChange(
+    from: MessageFrom | undefined,
+    workspaceId: number,
+    success: boolean,
+    task: unknown,
+    error: string | undefined
+  ): void {
+    if (from?.deviceId === undefined) return;
 
-    // 사용자 메시지 브로드캐스트
-    const userMessageEvent = {
-      type: 'claude_event',
+    this.send({
+      type: 'task_status_result',
+      to: [from.deviceId],
       payload: {
-        conversationId: eid,
-        event: {
-          type: 'userMessage',
-          content: messageText,
-          timestamp: Date.now(),
-          ...(attachments && { attachments }),
-        },
+        deviceId: this.config.deviceId,
+        workspaceId,
+        success,
+        ...(task !== undefined && { task }),
+        ...(error !== undefined && { error }),
       },
+    });
+  }
+
+  /**
+   * 페이로드에서 태스크 옵션 필드 추출 (타입이 맞는 것만)
+   */
+  private parseTaskFields(payload: Record<string, unknown>): TaskFields {
+    const { priority, dependsOn, maxRetries, timeout } = payload;
+    return {
+      ...(typeof priority === 'number' && { priority }),
+      ...(Array.isArray(dependsOn) && {
+        dependsOn: dependsOn.filter((id): id is string => typeof id === 'string'),
+      }),
+      ...(typeof maxRetries === 'number' && { maxRetries }),
+      ...((typeof timeout === 'number' || timeout === null) && { timeout }),
     };
-    this.send({ ...userMessageEvent, broadcast: 'clients' });
+  }
 
-    // Claude에게 메시지 전송
-    if (workingDir) {
-      let promptToSend = messageText;
+  // ==========================================================================
+  // Private 메서드 - 워커
+  // ==========================================================================
 
-      // 첨부 파일 경로 추가 (Read 도구 사용 유도)
-      // 이 지시문은 히스토리에 저장되지 않음 (promptToSend만 Claude에게 전송)
-      if (attachments && attachments.length > 0) {
-        const filePaths = (attachments as Array<{ path: string }>)
-          .map((file) => `- ${file.path}`)
-          .join('\n');
-        promptToSend = `[시스템: 아래 파일들을 Read 도구로 읽을 것]\n${filePaths}${messageText ? '\n\n' + messageText : ''}`;
+  /**
+   * worker_status 처리
+   */
+  private handleWorkerStatus(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace) return;
+
+    const workerStatus = this.deps.workerManager.getWorkerStatus(workspaceId as number, workspace.workingDir);
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'worker_status_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          workspaceId,
+          workerStatus,
+        },
+      });
+    }
+  }
+
+  /**
+   * worker_start 처리
+   *
+   * 워크스페이스의 동시 실행 수만큼 빈 슬롯에 워커를 채웁니다.
+   */
+  private handleWorkerStart(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace) return;
+
+    // 비동기 처리
+    (async () => {
+      const results = await this.fillWorkerSlots(workspaceId as number);
+      const started = results.filter((r) => r.success);
+
+      // 하나도 시작하지 못했으면 마지막 결과에 사유가 있음
+      const result = started.length > 0 ? started[0] : results[results.length - 1];
+
+      if (from?.deviceId !== undefined) {
+        this.send({
+          type: 'worker_start_result',
+          to: [from.deviceId],
+          payload: {
+            deviceId: this.config.deviceId,
+            ...result,
+            started: started.length,
+          },
+        });
       }
+    })();
+  }
+
+  /**
+   * worker_stop 처리
+   *
+   * taskId가 있으면 그 워커만, 없으면 워크스페이스의 모든 워커를 중지합니다.
+   */
+  private handleWorkerStop(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const { workspaceId, taskId } = payload || {};
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
+    if (!workspace) return;
 
-      const agentSessionId = conversation?.claudeSessionId ?? undefined;
+    const result = this.deps.workerManager.stopWorker(
+      workspaceId as number,
+      workspace.workingDir,
+      typeof taskId === 'string' ? taskId : undefined
+    );
 
-      // 세션 컨텍스트 빌드
-      const linkedDocs = conversation?.linkedDocuments?.map((d) => d.path) || [];
-      const systemPrompt = this.config.buildEnv
-        ? buildSystemPrompt(this.config.buildEnv)
-        : undefined;
+    // 중지된 워커의 Claude 세션 종료 (pending으로 돌아간 태스크의 worktree는 버림)
+    for (const worker of result.stopped ?? []) {
+      this.cleanupTaskWorktree(workspaceId as number, worker, false);
+      if (worker.conversationId !== null) {
+        this.clearWorkerTimeout(worker.conversationId);
+        if (this.deps.agentManager.hasActiveSession(worker.conversationId)) {
+          this.deps.agentManager.stop(worker.conversationId);
+        }
+      }
+    }
 
-      // autorun 문서 감지
-      const autorunDoc = findAutorunDoc(linkedDocs, (p) => {
-        try { return fs.readFileSync(p, 'utf-8'); }
-        catch { return null; }
+    if (from?.deviceId !== undefined) {
+      this.send({
+        type: 'worker_stop_result',
+        to: [from.deviceId],
+        payload: {
+          deviceId: this.config.deviceId,
+          ...result,
+        },
       });
+    }
 
-      const systemReminder = buildInitialReminder(
-        conversation?.name || '새 대화',
-        linkedDocs,
-        autorunDoc ? { autorunDoc } : undefined
-      );
-
-      this.deps.agentManager.sendMessage(eid, promptToSend, {
-        workingDir,
-        agentSessionId,
-        systemPrompt,
-        systemReminder,
-      });
+    if (result.success) {
+      this.broadcastWorkerStatus(workspaceId as number);
+      this.broadcastTaskList(workspaceId as number);
     }
   }
 
   /**
-   * claude_permission 처리
+   * 빈 워커 슬롯 채우기
+   *
+   * @description
+   * 더 시작할 수 없을 때까지(슬롯이 다 찼거나 pending 태스크가 없을 때) 워커를 시작합니다.
+   * 하나라도 시작하면 워커 상태와 태스크 목록을 브로드캐스트합니다.
+   *
+   * @returns 시작 결과 목록 (마지막 항목은 더 시작하지 못한 사유)
    */
-  private handleClaudePermission(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, toolUseId, decision } = payload || {};
-    if (!conversationId || !toolUseId || !decision) return;
+  private async fillWorkerSlots(workspaceId: number): Promise<Array<{ success: boolean; error?: string }>> {
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) return [];
 
-    this.deps.agentManager.respondPermission(
-      conversationId as number,
-      toolUseId as string,
-      decision as 'allow' | 'deny' | 'allowAll'
-    );
+    const results: Array<{ success: boolean; error?: string }> = [];
+    let result: { success: boolean; error?: string };
+    do {
+      result = await this.deps.workerManager.startWorker(
+        workspaceId,
+        workspace.workingDir,
+        (wsId, workingDir, prompt, worker) => this.startWorkerConversation(wsId, workingDir, prompt, worker)
+      );
+      results.push(result);
+    } while (result.success);
+
+    if (results.length > 1) {
+      this.broadcastWorkerStatus(workspaceId);
+      this.broadcastTaskList(workspaceId);
+    }
+    return results;
   }
 
   /**
-   * claude_answer 처리
+   * 워커 하나의 Claude 대화 시작 (WorkerManager 콜백)
+   *
+   * @description
+   * 슬롯마다 대화를 따로 씁니다 ('Worker', 'Worker 2', ...).
+   * 워크스페이스 정책이 useWorktree면 태스크별 git worktree를 HEAD에서 새로 만들어 그 경로에서 실행합니다.
+   * (재시도하는 태스크도 이전 시도의 worktree를 이어 쓰지 않음)
+   * 태스크에 제한 시간이 있으면 타이머를 걸어 둡니다.
    */
-  private handleClaudeAnswer(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, toolUseId, answer } = payload || {};
-    if (!conversationId || !toolUseId) return;
+  private async startWorkerConversation(
+    workspaceId: number,
+    workingDir: string,
+    prompt: string,
+    worker: { slot: number; taskId: string; timeout: number | null }
+  ): Promise<{ process: unknown; conversationId: number; worktreePath: string | null }> {
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${workspaceId}`);
+    }
+    const policy = workspace.workerPolicy ?? DEFAULT_WORKER_POLICY;
 
-    this.deps.agentManager.respondQuestion(
-      conversationId as number,
-      toolUseId as string,
-      answer as string
-    );
-  }
+    let worktreePath: string | null = null;
+    if (policy.useWorktree && this.deps.gitWorktree) {
+      await this.taskWorktreeCleanups.get(worker.taskId);
+      worktreePath = await this.deps.gitWorktree.create(workingDir, `task-${worker.taskId.slice(0, 8)}`, { reset: true });
+    }
 
-  /**
-   * claude_control 처리
-   */
-  private handleClaudeControl(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, action } = payload || {};
-    if (!conversationId || !action) return;
+    // 슬롯별 워커 대화 생성 또는 기존 대화 사용
+    const name = worker.slot === 1 ? WORKER_CONVERSATION_NAME : `${WORKER_CONVERSATION_NAME} ${worker.slot}`;
+    let conversation = workspace.conversations.find((c) => c.name === name);
+    if (!conversation) {
+      conversation = this.deps.workspaceStore.createConversation(workspaceId, name)!;
+      this.broadcastWorkspaceList();
+    }
 
-    const eid = conversationId as number;
+    this.deps.agentManager.sendMessage(conversation.conversationId, prompt, {
+      workingDir: worktreePath ?? workingDir,
+    });
 
-    switch (action) {
-      case 'stop':
-        this.deps.agentManager.stop(eid);
-        break;
-      case 'new_session':
-      case 'clear':
-        this.deps.agentManager.newSession(eid);
-        this.deps.messageStore.clear(eid);
-        // 새 세션 시작 시 초기 컨텍스트 자동 전송
-        this.sendInitialContext(eid);
-        break;
-      case 'compact':
-        this.log(`Compact not implemented yet`);
-        break;
+    if (worker.timeout !== null) {
+      const conversationId = conversation.conversationId;
+      const minutes = worker.timeout;
+      this.clearWorkerTimeout(conversationId);
+      this.workerTimeoutTimers.set(
+        conversationId,
+        setTimeout(() => this.handleWorkerTimeout(conversationId, worker.taskId, minutes), minutes * 60 * 1000)
+      );
     }
+
+    return {
+      process: null,
+      conversationId: conversation.conversationId,
+      worktreePath,
+    };
   }
 
   /**
-   * 초기 컨텍스트 전송 (대화 생성/새 세션 시)
-   * @param additionalMessage - 시스템 리마인더 뒤에 추가할 메시지 (한 번에 전송)
+   * 워커 대화의 result/error 이벤트로 태스크 완료 처리
+   *
+   * 성공이면 done, 아니면 failed로 기록하고 슬롯을 반환합니다.
+   * (재시도가 남은 실패 태스크는 WorkerManager가 pending으로 되돌립니다.)
+   * worktree에서 실행했으면 cleanupTaskWorktree로 결과를 브랜치에 남기거나 버립니다.
+   * 다음 태스크는 대화 세션이 정리된 뒤(idle) 시작합니다.
+   *
+   * @returns WorkerManager에 기록한 태스크 결과 (워커 대화가 아니면 null)
    */
-  private sendInitialContext(conversationId: number, additionalMessage?: string): void {
-    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
-    if (!conversation) return;
-
-    const workingDir = this.getWorkingDirForConversation(conversationId as ConversationId);
-    if (!workingDir) return;
+  private completeWorkerForConversation(conversationId: number, event: AgentManagerEvent): WorkerTaskOutcome | null {
+    const { workspaceId } = decodeConversationId(conversationId as ConversationId);
+    const worker = this.deps.workerManager.findWorkerByConversation(workspaceId, conversationId);
+    if (!worker) return null;
 
-    const linkedDocs = conversation.linkedDocuments?.map((d) => d.path) || [];
+    this.clearWorkerTimeout(conversationId);
 
-    // systemPrompt 결정: customSystemPrompt가 있으면 preset + append 형식 사용
-    let systemPrompt: string | { type: 'preset'; preset: 'claude_code'; append?: string } | undefined;
-    if (conversation.customSystemPrompt) {
-      // customSystemPrompt가 있으면 Claude Code 기본 프롬프트에 append
-      systemPrompt = {
-        type: 'preset',
-        preset: 'claude_code',
-        append: conversation.customSystemPrompt,
-      };
-    } else if (this.config.buildEnv) {
-      // 기존 방식: 환경 정보만 포함
-      systemPrompt = buildSystemPrompt(this.config.buildEnv);
-    }
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) return null;
 
-    // autorun 문서 감지
-    const autorunDoc = findAutorunDoc(linkedDocs, (p) => {
-      try { return fs.readFileSync(p, 'utf-8'); }
-      catch { return null; }
-    });
+    const error = this.describeAgentFailure(event);
+    const success = error === null;
 
-    let systemReminder = buildInitialReminder(
-      conversation.name || '',
-      linkedDocs,
-      autorunDoc ? { autorunDoc } : undefined
+    const retried = this.deps.workerManager.completeWorker(
+      workspaceId,
+      workspace.workingDir,
+      success ? 'done' : 'failed',
+      error,
+      worker.taskId
     );
+    this.finishedWorkerConversations.add(conversationId);
+    this.cleanupTaskWorktree(workspaceId, worker, success);
 
-    // 추가 메시지가 있으면 시스템 리마인더에 합쳐서 한 번에 전송
-    if (additionalMessage) {
-      systemReminder = systemReminder + '\n\n' + additionalMessage;
-    }
+    this.broadcastWorkerStatus(workspaceId);
+    this.broadcastTaskList(workspaceId);
 
-    this.deps.agentManager.sendMessage(conversationId, systemReminder, {
-      workingDir,
-      systemPrompt,
-    });
+    return { taskTitle: worker.taskTitle, status: success ? 'done' : retried ? 'retrying' : 'failed', error };
   }
 
   /**
-   * claude_set_permission_mode 처리
+   * result/error 이벤트의 실패 사유 (성공이면 null)
    */
-  private handleClaudeSetPermissionMode(payload: Record<string, unknown> | undefined): void {
-    const { conversationId, mode } = payload || {};
-    if (!conversationId || !mode) return;
+  private describeAgentFailure(event: AgentManagerEvent): string | null {
+    const data = event as Record<string, unknown>;
+    if (event.type === 'result' && data.subtype === 'success') return null;
+    return event.type === 'error'
+      ? String(data.error ?? '알 수 없는 에러')
+      : `종료: ${String(data.subtype)}`;
+  }
 
-    const success = this.deps.workspaceStore.setConversationPermissionMode(
-      conversationId as ConversationId,
-      mode as PermissionModeValue
+  /**
+   * 워커 태스크 제한 시간 초과 처리
+   *
+   * 태스크를 실패(시간 초과)로 기록하고 대화 세션을 중지합니다.
+   * 재시도가 남았으면 pending으로 돌아가고, 세션이 idle이 되면 빈 슬롯을 채웁니다.
+   */
+  private handleWorkerTimeout(conversationId: number, taskId: string, minutes: number): void {
+    this.workerTimeoutTimers.delete(conversationId);
+
+    const { workspaceId } = decodeConversationId(conversationId as ConversationId);
+    const worker = this.deps.workerManager.findWorkerByConversation(workspaceId, conversationId);
+    if (!worker || worker.taskId !== taskId) return;
+
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) return;
+
+    this.log(`[Worker] Task timed out after ${minutes}m: ${worker.taskTitle}`);
+    const error = `시간 초과 (${minutes}분)`;
+    const retried = this.deps.workerManager.completeWorker(
+      workspaceId,
+      workspace.workingDir,
+      'failed',
+      error,
+      taskId
     );
+    this.finishedWorkerConversations.add(conversationId);
+    this.notifyTaskPush(conversationId, { taskTitle: worker.taskTitle, status: retried ? 'retrying' : 'failed', error });
+    this.cleanupTaskWorktree(workspaceId, worker, false);
 
-    // 변경 성공 시 저장
-    if (success) {
-      this.saveWorkspaceStore().catch((err) => {
-        this.deps.logger.error(`[Persistence] Failed to save permission mode: ${err}`);
-      });
+    if (this.deps.agentManager.hasActiveSession(conversationId)) {
+      this.deps.agentManager.stop(conversationId);
+    } else {
+      this.refillWorkerSlotsAfter(conversationId);
     }
-  }
 
-  // ==========================================================================
-  // Private 메서드 - Blob
-  // ==========================================================================
+    this.broadcastWorkerStatus(workspaceId);
+    this.broadcastTaskList(workspaceId);
+  }
 
   /**
-   * blob_end 결과 처리
+   * 워커 태스크 worktree 정리 (비동기)
+   *
+   * - 성공: 남은 변경을 태스크 브랜치에 커밋하고 worktree만 지운 뒤 브랜치를 태스크에 기록합니다.
+   *   태스크 보드에서 병합하거나 버릴 수 있습니다.
+   * - 실패/중지: worktree와 브랜치를 지웁니다.
+   *
+   * 워커 대화의 실행이 끝난 뒤(waitForIdle) 정리합니다. 세션을 중지할 때는 정리를 먼저 등록해야
+   * 중지로 채워지는 다음 워커가 정리를 기다립니다.
    */
-  private async handleBlobEndResult(
-    result: { success: boolean; path?: string; context?: unknown; mimeType?: string },
-    from: MessageFrom | undefined,
-    payload: Record<string, unknown> | undefined
-  ): Promise<void> {
-    if (!result.success) return;
+  private cleanupTaskWorktree(workspaceId: number, worker: ActiveWorker, keepChanges: boolean): void {
+    const gitWorktree = this.deps.gitWorktree;
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    const worktreePath = worker.worktreePath;
+    if (!gitWorktree || !workspace || !worktreePath) return;
+
+    const workingDir = workspace.workingDir;
+    const branch = `${WORKTREE_BRANCH_PREFIX}${path.basename(worktreePath)}`;
+    const agentStopped = worker.conversationId !== null
+      ? this.deps.agentManager.waitForIdle(worker.conversationId)
+      : Promise.resolve();
+    const cleanup = (async () => {
+      await agentStopped;
+      if (keepChanges) {
+        await gitWorktree.commitChanges(worktreePath, `태스크 "${worker.taskTitle}" 작업 내용`);
+        await gitWorktree.remove(workingDir, worktreePath);
+        this.deps.taskManager.setTaskBranch(workingDir, worker.taskId, branch);
+        this.broadcastTaskList(workspaceId);
+      } else {
+        await gitWorktree.remove(workingDir, worktreePath, branch);
+      }
+    })().catch((err) => {
+      this.deps.logger.error(`[Worker] Failed to clean up task worktree: ${err}`);
+    }).finally(() => {
+      if (this.taskWorktreeCleanups.get(worker.taskId) === cleanup) {
+        this.taskWorktreeCleanups.delete(worker.taskId);
+      }
+    });
+    this.taskWorktreeCleanups.set(worker.taskId, cleanup);
+  }
 
-    const context = result.context as { type?: string; conversationId?: number } | undefined;
-    if (context?.type === 'image_upload') {
-      const { conversationId } = context;
-      const blobId = (payload as { blobId?: string })?.blobId;
+  /**
+   * 워커 대화의 제한 시간 타이머 해제
+   */
+  private clearWorkerTimeout(conversationId: number): void {
+    const timer = this.workerTimeoutTimers.get(conversationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.workerTimeoutTimers.delete(conversationId);
+    }
+  }
 
-      if (conversationId && blobId && result.path) {
-        const fileId = blobId;
-        const filename = result.path.split(/[/\\]/).pop() || 'unknown';
-        const mimeType = result.mimeType || 'application/octet-stream';
+  /**
+   * 태스크를 마친 워커 대화가 idle이 되면 빈 슬롯 채우기
+   *
+   * 중지(worker_stop)된 워커는 대상이 아니므로 pending으로 되돌린 태스크를 바로 다시 잡지 않습니다.
+   */
+  private refillWorkerSlotsAfter(conversationId: number): void {
+    if (!this.finishedWorkerConversations.delete(conversationId)) return;
 
-        // 썸네일 생성 (이미지인 경우에만)
-        let thumbnail: string | null = null;
-        try {
-          thumbnail = await generateThumbnail(result.path, mimeType);
-        } catch (err) {
-          console.error('[BLOB] Thumbnail generation failed:', err);
-        }
+    const { workspaceId } = decodeConversationId(conversationId as ConversationId);
+    this.fillWorkerSlots(workspaceId).catch((err) => {
+      this.deps.logger.error(`[Worker] Failed to start next task: ${err}`);
+    });
+  }
 
-        // 클라이언트에 업로드 완료 알림
-        if (from?.deviceId !== undefined) {
-          this.send({
-            type: 'blob_upload_complete',
-            to: [from.deviceId],
-            payload: {
-              blobId,
-              fileId,
-              path: result.path,
-              filename,
-              conversationId,
-              mimeType,
-              ...(thumbnail && { thumbnail }),
-            },
-          });
-        }
+  /**
+   * 워커가 돌고 있으면 빈 슬롯 채우기 (태스크 추가/수정, 정책 변경 후)
+   *
+   * 워커를 한 번도 시작하지 않은 워크스페이스에서는 자동으로 시작하지 않습니다.
+   */
+  private fillWorkerSlotsIfRunning(workspaceId: number): void {
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace) return;
+    if (this.deps.workerManager.getWorkerStatus(workspaceId, workspace.workingDir).status !== 'running') return;
 
-        // pending 파일로 저장
-        if (!this.pendingFiles.has(conversationId)) {
-          this.pendingFiles.set(conversationId, new Map());
-        }
-        this.pendingFiles.get(conversationId)!.set(fileId, {
-          fileId,
-          path: result.path,
-          filename,
-          mimeType,
-          ...(thumbnail && { thumbnail }),
-        });
-      }
-    }
+    this.fillWorkerSlots(workspaceId).catch((err) => {
+      this.deps.logger.error(`[Worker] Failed to fill worker slots: ${err}`);
+    });
   }
 
   // ==========================================================================
-  // Private 메서드 - 폴더
+  // Private 메서드 - git
   // ==========================================================================
 
   /**
-   * folder_list 처리
+   * 대화 git 기준점 기록 (첫 메시지 전송 전)
    *
-   * path가 비어있거나 '__DRIVES__'이면 드라이브 목록 반환
+   * 진행 중인 기록이 있으면 그 작업을 함께 기다립니다.
+   * 실패해도(리포지터리가 아니어도) 메시지 전송은 계속합니다.
    */
-  private handleFolderList(
-    payload: Record<string, unknown> | undefined,
-    from: MessageFrom | undefined
-  ): void {
-    const { path: targetPath, deviceId: targetDeviceId } = payload || {};
-
-    // 대상 Pylon이 아니면 무시
-    if (targetDeviceId !== undefined && targetDeviceId !== this.config.deviceId) {
-      return;
-    }
-
-    // 플랫폼 정보
-    const platform = this.deps.folderManager.getPlatform();
-
-    // 드라이브 목록 요청 (__DRIVES__) vs 초기 경로 요청 (빈 문자열, undefined, null)
-    const isEmptyPath = targetPath === '' || targetPath === undefined || targetPath === null;
+  private recordGitBaseline(conversationId: number, workingDir: string): Promise<void> {
+    const pending = this.gitBaselineTasks.get(conversationId);
+    if (pending?.workingDir === workingDir) {
+      return pending.task;
+    }
+    const task = this.snapshotGitBaseline(conversationId, workingDir);
+    this.gitBaselineTasks.set(conversationId, { workingDir, task });
+    return task;
+  }
 
-    // 빈 경로: 기본 작업 디렉토리로 시작 (새 워크스페이스 다이얼로그 초기 상태)
-    if (isEmptyPath) {
-      const defaultPath = this.deps.folderManager.getDefaultPath();
-      const result = this.deps.folderManager.listFolders(defaultPath);
-      if (from?.deviceId !== undefined) {
-        this.send({
-          type: 'folder_list_result',
-          to: [from.deviceId],
-          payload: {
-            deviceId: this.config.deviceId,
-            ...result,  // platform 포함
-          },
-        });
+  /**
+   * 기준점 커밋을 찍어 대화에 저장
+   *
+   * 리포지터리가 아닐 때만 작업을 남겨 두고, 그 외(성공, 커밋 없음, 에러)는 지워 다음 메시지에서 다시 시도합니다.
+   */
+  private async snapshotGitBaseline(conversationId: number, workingDir: string): Promise<void> {
+    const gitService = this.deps.gitService;
+    if (!gitService) return;
+    try {
+      const baseline = await gitService.snapshot(workingDir, conversationId);
+      if (baseline) {
+        this.deps.workspaceStore.setConversationGitBaseline(conversationId as ConversationId, baseline);
+        this.scheduleSaveWorkspaceStore();
+      } else if (!(await gitService.isRepository(workingDir))) {
+        return;
       }
-      return;
+    } catch (err) {
+      this.log(`[Git] Failed to record baseline: ${err}`);
+    }
+    if (this.gitBaselineTasks.get(conversationId)?.workingDir === workingDir) {
+      this.gitBaselineTasks.delete(conversationId);
     }
+  }
 
-    // __DRIVES__: 드라이브/루트 목록 요청
-    if (targetPath === '__DRIVES__') {
-      const driveResult = this.deps.folderManager.listDrives();
+  /**
+   * 대화 git 기준점 ref 지우기 (비동기, 실패는 로그만)
+   *
+   * ref는 원본 리포지터리와 worktree가 함께 쓰므로 워크스페이스 디렉토리에서 지웁니다.
+   * (대화 worktree는 이미 지워졌을 수 있음)
+   */
+  private releaseGitBaseline(conversationId: ConversationId): void {
+    const gitService = this.deps.gitService;
+    const conversation = this.deps.workspaceStore.getConversation(conversationId);
+    const workspace = this.deps.workspaceStore.getWorkspace(decodeConversationIdFull(conversationId).workspaceId);
+    if (!gitService || !conversation?.gitBaseline || !workspace) return;
+
+    gitService.releaseBaseline(workspace.workingDir, conversationId).catch((err) => {
+      this.log(`[Git] Failed to release baseline: ${err}`);
+    });
+  }
 
-      // Linux인 경우 드라이브 목록 대신 루트 '/'의 폴더 목록 반환
-      if (platform === 'linux' && driveResult.drives.length === 1 && driveResult.drives[0].path === '/') {
-        const rootResult = this.deps.folderManager.listFolders('/');
-        if (from?.deviceId !== undefined) {
-          this.send({
-            type: 'folder_list_result',
-            to: [from.deviceId],
-            payload: {
-              deviceId: this.config.deviceId,
-              ...rootResult,  // platform 포함
-            },
-          });
-        }
-        return;
-      }
+  /**
+   * git 요청 공통 처리
+   *
+   * @description
+   * 대화의 작업 디렉토리에서 action을 실행하고 결과(실패하면 error)를 요청한 클라이언트에 보냅니다.
+   *
+   * @returns 성공 여부
+   */
+  private async runGitRequest(
+    resultType: string,
+    conversationId: number,
+    from: MessageFrom | undefined,
+    action: (git: GitServiceAdapter, workingDir: string, baseline: string | null) => Promise<Record<string, unknown>>,
+    extra: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    const gitService = this.deps.gitService;
+    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
+    const workingDir = this.getWorkingDirForConversation(conversationId as ConversationId);
 
-      if (from?.deviceId !== undefined) {
-        this.send({
-          type: 'folder_list_result',
-          to: [from.deviceId],
-          payload: {
-            deviceId: this.config.deviceId,
-            platform,
-            path: '',
-            folders: driveResult.drives.map((d) => d.label),
-            foldersWithChildren: driveResult.drives.map((d) => ({
-              name: d.label,
-              path: d.path,
-              hasChildren: d.hasChildren,
-              isDrive: true,
-            })),
-            success: driveResult.success,
-            error: driveResult.error,
-          },
-        });
+    let result: Record<string, unknown>;
+    if (!gitService) {
+      result = { success: false, error: 'git 기능을 사용할 수 없습니다.' };
+    } else if (!conversation || !workingDir) {
+      result = { success: false, error: '대화를 찾을 수 없습니다.' };
+    } else {
+      try {
+        result = { success: true, ...(await action(gitService, workingDir, conversation.gitBaseline ?? null)) };
+      } catch (err) {
+        result = { success: false, error: err instanceof Error ? err.message : String(err) };
       }
-      return;
     }
 
-    const result = this.deps.folderManager.listFolders(targetPath as string);
     if (from?.deviceId !== undefined) {
       this.send({
-        type: 'folder_list_result',
+        type: resultType,
         to: [from.deviceId],
         payload: {
           deviceId: this.config.deviceId,
-          ...result,  // platform 포함
+          conversationId,
+          ...extra,
+          ...result,
         },
       });
     }
+    return result.success === true;
   }
 
   /**
-   * folder_create 처리
+   * git_status 처리
    */
-  private handleFolderCreate(
+  private async handleGitStatus(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
-  ): void {
-    const { path: parentPath, name } = payload || {};
-    if (!parentPath || !name) return;
+  ): Promise<void> {
+    const { conversationId } = payload || {};
+    if (typeof conversationId !== 'number') return;
 
-    const result = this.deps.folderManager.createFolder(parentPath as string, name as string);
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'folder_create_result',
-        to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          ...result,
-        },
-      });
-    }
+    await this.runGitRequest('git_status_result', conversationId, from, async (git, workingDir, baseline) => ({
+      status: await git.getStatus(workingDir, baseline),
+    }));
   }
 
   /**
-   * folder_rename 처리
+   * git_diff 처리
+   *
+   * scope: conversation(기본, 대화 기준점 이후) | staged | unstaged, path가 있으면 그 파일만
    */
-  private handleFolderRename(
+  private async handleGitDiff(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
-  ): void {
-    const { path: folderPath, newName } = payload || {};
-    if (!folderPath || !newName) return;
+  ): Promise<void> {
+    const { conversationId, scope, path: filePath } = payload || {};
+    if (typeof conversationId !== 'number') return;
 
-    const result = this.deps.folderManager.renameFolder(folderPath as string, newName as string);
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'folder_rename_result',
-        to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          ...result,
-        },
-      });
-    }
+    const diffScope: GitDiffScope = scope === 'staged' || scope === 'unstaged' ? scope : 'conversation';
+    const diffPath = typeof filePath === 'string' && filePath ? filePath : null;
+
+    await this.runGitRequest(
+      'git_diff_result',
+      conversationId,
+      from,
+      async (git, workingDir, baseline) => ({ ...(await git.getDiff(workingDir, diffScope, { baseline, path: diffPath })) }),
+      { scope: diffScope, path: diffPath }
+    );
   }
 
-  // ==========================================================================
-  // Private 메서드 - 태스크
-  // ==========================================================================
+  /**
+   * git_log 처리 (limit: 1~100, 기본 20)
+   */
+  private async handleGitLog(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): Promise<void> {
+    const { conversationId, limit } = payload || {};
+    if (typeof conversationId !== 'number') return;
+
+    const logLimit = typeof limit === 'number' && Number.isInteger(limit)
+      ? Math.min(Math.max(limit, 1), 100)
+      : 20;
+
+    await this.runGitRequest('git_log_result', conversationId, from, async (git, workingDir) => ({
+      entries: await git.getLog(workingDir, logLimit),
+    }));
+  }
 
   /**
-   * task_list 처리
+   * git_revert 처리 (파일 하나를 대화 기준점으로 되돌린 뒤 상태 전송)
    */
-  private handleTaskList(
+  private async handleGitRevert(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
-  ): void {
-    const { workspaceId } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace) return;
+  ): Promise<void> {
+    const { conversationId, path: filePath } = payload || {};
+    if (typeof conversationId !== 'number' || typeof filePath !== 'string' || !filePath) return;
 
-    const result = this.deps.taskManager.listTasks(workspace.workingDir);
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'task_list_result',
-        to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          workspaceId,
-          ...result,
-        },
-      });
+    const reverted = await this.runGitRequest(
+      'git_revert_result',
+      conversationId,
+      from,
+      async (git, workingDir, baseline) => {
+        if (!baseline) {
+          throw new Error('대화 기준점이 없어 되돌릴 수 없습니다.');
+        }
+        await git.revertFile(workingDir, baseline, filePath);
+        return {};
+      },
+      { path: filePath }
+    );
+
+    if (reverted) {
+      this.log(`[Git] Reverted ${filePath} in conversation ${conversationId}`);
+      await this.handleGitStatus({ conversationId }, from);
     }
   }
 
   /**
-   * task_get 처리
+   * git_commit 처리
+   *
+   * @description
+   * paths가 있으면 그 파일만, 없으면 모든 변경을 커밋합니다.
+   * 대화 변경을 모두 커밋했으면 기준점을 지금 작업 트리 상태로 옮기고,
+   * 일부만 커밋했으면 기존 기준점에서 커밋한 파일만 옮겨 나머지 변경은 패널에 계속 보이게 합니다.
    */
-  private handleTaskGet(
+  private async handleGitCommit(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
-  ): void {
-    const { workspaceId, taskId } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace || !taskId) return;
+  ): Promise<void> {
+    const { conversationId, message, paths } = payload || {};
+    if (typeof conversationId !== 'number' || typeof message !== 'string') return;
+
+    const commitPaths = Array.isArray(paths)
+      ? paths.filter((p): p is string => typeof p === 'string' && p.length > 0)
+      : undefined;
+
+    const committed = await this.runGitRequest('git_commit_result', conversationId, from, async (git, workingDir, baseline) => {
+      // 커밋 전에 대화 변경 목록을 봐 둬야 남은 변경이 있는지 알 수 있음
+      const changes = baseline && commitPaths && commitPaths.length > 0
+        ? (await git.getStatus(workingDir, baseline)).changes
+        : [];
+      const commit = await git.commit(workingDir, message, commitPaths);
+
+      const partial = changes.some((change) => !commitPaths!.includes(change.path));
+      const nextBaseline = partial
+        ? await git.advanceBaseline(workingDir, baseline!, commitPaths!, conversationId)
+        : await git.snapshot(workingDir, conversationId);
+      this.deps.workspaceStore.setConversationGitBaseline(conversationId as ConversationId, nextBaseline);
+      this.scheduleSaveWorkspaceStore();
+      return { commit };
+    });
 
-    const result = this.deps.taskManager.getTask(workspace.workingDir, taskId as string);
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'task_get_result',
-        to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          workspaceId,
-          ...result,
-        },
-      });
+    if (committed) {
+      this.log(`[Git] Committed in conversation ${conversationId}`);
+      await this.handleGitStatus({ conversationId }, from);
     }
   }
 
   /**
-   * task_status 처리
+   * git_commit_draft 처리
+   *
+   * 대화 기준점 이후 diff를 Claude에게 보여주고 커밋 메시지 초안을 받습니다.
+   * Claude 대화면 세션을 fork해서 대화 맥락도 함께 봅니다.
    */
-  private handleTaskStatus(
+  private async handleGitCommitDraft(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
-  ): void {
-    const { workspaceId, taskId, status, error } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace || !taskId || !status) return;
+  ): Promise<void> {
+    const { conversationId } = payload || {};
+    if (typeof conversationId !== 'number') return;
 
-    const result = this.deps.taskManager.updateTaskStatus(
-      workspace.workingDir,
-      taskId as string,
-      status as string,
-      error as string | undefined
-    );
-    if (from?.deviceId !== undefined) {
-      this.send({
-        type: 'task_status_result',
-        to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          workspaceId,
-          ...result,
-        },
-      });
-    }
+    const conversation = this.deps.workspaceStore.getConversation(conversationId as ConversationId);
+    const agentSessionId = conversation?.agentType === 'claude' ? conversation.claudeSessionId : null;
 
-    // 태스크 목록 브로드캐스트
-    this.broadcastTaskList(workspaceId as number);
+    await this.runGitRequest('git_commit_draft_result', conversationId, from, async (git, workingDir, baseline) => {
+      const { diff } = await git.getDiff(workingDir, 'conversation', { baseline });
+      if (!diff.trim()) {
+        throw new Error('커밋할 변경이 없습니다.');
+      }
+      const message = await this.deps.agentManager.draftCommitMessage({ agentSessionId, workingDir, diff });
+      return { message };
+    });
   }
 
   // ==========================================================================
-  // Private 메서드 - 워커
+  // Private 메서드 - 예약 실행
   // ==========================================================================
 
   /**
-   * worker_status 처리
+   * schedule_list 처리
    */
-  private handleWorkerStatus(
+  private handleScheduleList(from: MessageFrom | undefined): void {
+    if (from?.deviceId === undefined) return;
+
+    this.send({
+      type: 'schedule_list_result',
+      to: [from.deviceId],
+      payload: {
+        deviceId: this.config.deviceId,
+        schedules: this.scheduler?.list() ?? [],
+      },
+    });
+  }
+
+  /**
+   * schedule_save 처리 (scheduleId가 있으면 수정, 없으면 생성)
+   *
+   * @description
+   * 결과는 요청한 클라이언트에게만 보내고,
+   * 변경된 목록은 Scheduler의 onChange에서 모든 클라이언트에 브로드캐스트합니다.
+   */
+  private handleScheduleSave(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { workspaceId } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace) return;
-
-    const status = this.deps.workerManager.getWorkerStatus(workspaceId as number, workspace.workingDir);
-    if (from?.deviceId !== undefined) {
+    const reply = (result: { success: boolean; schedule?: Schedule; error?: string }): void => {
+      if (from?.deviceId === undefined) return;
       this.send({
-        type: 'worker_status_result',
+        type: 'schedule_save_result',
         to: [from.deviceId],
-        payload: {
-          deviceId: this.config.deviceId,
-          ...status,
-        },
+        payload: { deviceId: this.config.deviceId, ...result },
       });
+    };
+
+    if (!this.scheduler) {
+      reply({ success: false, error: 'Scheduler is not available' });
+      return;
+    }
+    if (!isScheduleSavePayload(payload)) {
+      reply({ success: false, error: 'Invalid schedule' });
+      return;
+    }
+    if (!this.deps.workspaceStore.getWorkspace(payload.schedule.workspaceId)) {
+      reply({ success: false, error: `Workspace not found: ${payload.schedule.workspaceId}` });
+      return;
+    }
+
+    reply(
+      payload.scheduleId !== undefined
+        ? this.scheduler.update(payload.scheduleId, payload.schedule)
+        : this.scheduler.create(payload.schedule)
+    );
+  }
+
+  /**
+   * schedule_delete 처리
+   */
+  private handleScheduleDelete(payload: Record<string, unknown> | undefined): void {
+    const scheduleId = payload?.scheduleId;
+    if (typeof scheduleId !== 'number') return;
+    this.scheduler?.delete(scheduleId);
+  }
+
+  /**
+   * schedule_run 처리 (지금 실행)
+   */
+  private handleScheduleRun(payload: Record<string, unknown> | undefined): void {
+    const scheduleId = payload?.scheduleId;
+    if (typeof scheduleId !== 'number') return;
+    this.scheduler?.runNow(scheduleId).catch((err) => {
+      this.deps.logger.error(`[Schedule] Failed to run ${scheduleId}: ${err}`);
+    });
+  }
+
+  /**
+   * 예약 실행
+   *
+   * @description
+   * 실행할 프롬프트(커맨드는 실행 시점의 내용)를 정하고,
+   * 대화를 재사용하거나 새로 만들어 메시지를 보냅니다.
+   * 재사용 대화가 아직 응답 중이면 중단하지 않고 건너뜁니다.
+   * 결과는 대화의 result/error 이벤트(result 없이 idle이 되면 실패)로 정합니다.
+   * SCHEDULE_RUN_TIMEOUT_MS 안에 끝나지 않으면 실패로 기록하고 대화 세션을 중지합니다.
+   *
+   * @throws 워크스페이스/커맨드가 없거나 대화를 만들 수 없을 때
+   */
+  private async executeSchedule(schedule: Schedule): Promise<ScheduleExecution> {
+    const workspace = this.deps.workspaceStore.getWorkspace(schedule.workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${schedule.workspaceId}`);
+    }
+
+    let message: string;
+    if (schedule.action.kind === 'command') {
+      const content = this.deps.commandStore?.getContent(schedule.action.commandId) ?? null;
+      if (content === null) {
+        throw new Error(`Command not found: ${schedule.action.commandId}`);
+      }
+      message = content;
+    } else {
+      message = schedule.action.text;
+    }
+
+    const conversationName = schedule.conversationName ?? schedule.name;
+    let conversation = schedule.conversationMode === 'reuse'
+      ? workspace.conversations.find((c) => c.name === conversationName) ?? null
+      : null;
+
+    if (conversation && this.deps.agentManager.hasActiveSession(conversation.conversationId)) {
+      return {
+        status: 'skipped',
+        conversationId: conversation.conversationId,
+        reason: 'Previous run is still in progress',
+      };
     }
-  }
 
-  /**
-   * worker_start 처리
-   */
-  private handleWorkerStart(
-    payload: Record<string, unknown> | undefined,
-    from: MessageFrom | undefined
-  ): void {
-    const { workspaceId } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace) return;
+    if (!conversation) {
+      conversation = this.deps.workspaceStore.createConversation(schedule.workspaceId, conversationName);
+      if (!conversation) {
+        throw new Error(`Failed to create conversation in workspace: ${schedule.workspaceId}`);
+      }
+      // 기존 메시지 정리 (ID 재사용 대비)
+      this.clearMessagesForConversation(conversation.conversationId);
+    }
 
-    // 비동기 처리
-    (async () => {
-      const startClaudeCallback = async (_wsId: number, workingDir: string, prompt: string) => {
-        // 워커용 대화 생성 또는 기존 대화 사용
-        let conversation = workspace.conversations.find((c) => c.name === 'Worker');
-        if (!conversation) {
-          conversation = this.deps.workspaceStore.createConversation(workspaceId as number, 'Worker')!;
+    const conversationId = conversation.conversationId;
+    const runId = ++this.scheduleRunCounter;
+    const outcome = new Promise<string | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.scheduleRunWaiters.get(runId)?.settle(`시간 초과 (${SCHEDULE_RUN_TIMEOUT_MS / 60000}분)`);
+        if (this.deps.agentManager.hasActiveSession(conversationId)) {
+          this.deps.agentManager.stop(conversationId);
         }
+      }, SCHEDULE_RUN_TIMEOUT_MS);
+      this.scheduleRunWaiters.set(runId, {
+        conversationId,
+        settle: (error) => {
+          clearTimeout(timer);
+          this.scheduleRunWaiters.delete(runId);
+          resolve(error);
+        },
+      });
+    });
 
-        this.deps.workspaceStore.setActiveConversation(conversation.conversationId);
-        this.deps.agentManager.sendMessage(conversation.conversationId, prompt, { workingDir });
+    this.handleClaudeSend({ conversationId, message }, undefined);
 
-        return {
-          process: null,
-          conversationId: conversation.conversationId,
-        };
-      };
+    this.broadcastWorkspaceList();
+    this.saveWorkspaceStore().catch((err) => {
+      this.deps.logger.error(`[Schedule] Failed to save after run: ${err}`);
+    });
 
-      const result = await this.deps.workerManager.startWorker(
-        workspaceId as number,
-        workspace.workingDir,
-        startClaudeCallback
-      );
+    const error = await outcome;
+    return error === null
+      ? { status: 'succeeded', conversationId }
+      : { status: 'failed', conversationId, reason: error };
+  }
 
-      if (from?.deviceId !== undefined) {
-        this.send({
-          type: 'worker_start_result',
-          to: [from.deviceId],
-          payload: {
-            deviceId: this.config.deviceId,
-            ...result,
-          },
-        });
+  /**
+   * 대화를 기다리는 예약 실행의 결과 정하기
+   *
+   * @param conversationId - 응답이 끝난 대화 ID
+   * @param error - 에러 메시지 (성공이면 null)
+   */
+  private settleScheduleRuns(conversationId: number, error: string | null): void {
+    for (const waiter of Array.from(this.scheduleRunWaiters.values())) {
+      if (waiter.conversationId === conversationId) {
+        waiter.settle(error);
       }
+    }
+  }
 
-      if (result.success) {
-        this.broadcastWorkerStatus(workspaceId as number);
-        this.broadcastTaskList(workspaceId as number);
-      }
-    })();
+  /**
+   * 예약 목록 브로드캐스트
+   */
+  private broadcastSchedules(): void {
+    if (!this.scheduler) return;
+
+    this.send({
+      type: 'schedule_list_result',
+      broadcast: 'clients',
+      payload: {
+        deviceId: this.config.deviceId,
+        schedules: this.scheduler.list(),
+      },
+    });
   }
 
   /**
-   * worker_stop 처리
+   * 예약 실행 결과 보고 (실패 시 푸시 알림)
    */
-  private handleWorkerStop(
-    payload: Record<string, unknown> | undefined,
-    from: MessageFrom | undefined
-  ): void {
-    const { workspaceId } = payload || {};
-    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId as number);
-    if (!workspace) return;
+  private reportScheduleRun(schedule: Schedule, run: ScheduleRun): void {
+    this.log(`[Schedule] ${schedule.name} (#${schedule.scheduleId}): ${run.status}${run.error ? ` - ${run.error}` : ''}`);
 
-    const result = this.deps.workerManager.stopWorker(workspaceId as number, workspace.workingDir);
-    if (from?.deviceId !== undefined) {
+    this.send({
+      type: 'schedule_run_result',
+      broadcast: 'clients',
+      payload: {
+        deviceId: this.config.deviceId,
+        name: schedule.name,
+        workspaceId: schedule.workspaceId,
+        run,
+      },
+    });
+
+    if (run.status === 'failed') {
+      const workspace = this.deps.workspaceStore.getWorkspace(schedule.workspaceId);
+      const target = [workspace?.name, schedule.name].filter(Boolean).join(' / ');
+      const body = run.error ?? '알 수 없는 에러';
       this.send({
-        type: 'worker_stop_result',
-        to: [from.deviceId],
+        type: 'push_notify',
         payload: {
-          deviceId: this.config.deviceId,
-          ...result,
+          event: 'error',
+          title: `예약 실행 실패 · ${target}`,
+          body: body.length > PUSH_BODY_MAX_LENGTH ? `${body.slice(0, PUSH_BODY_MAX_LENGTH - 1)}…` : body,
+          workspaceId: schedule.workspaceId,
         },
       });
     }
@@ -3053,6 +5609,7 @@ Message: ${message}
       activeWorkspaceId: activeState.activeWorkspaceId,
       activeConversationId: activeState.activeConversationId,
       account: this.cachedAccount,
+      agents: this.deps.agentManager.getAgentBackends(),
     };
 
     if (options?.forceSelectConversationId) {
@@ -3067,6 +5624,9 @@ Message: ${message}
       broadcast: 'clients',
     });
 
+    // 대화 생성/삭제/이름 변경도 활성 세션 목록에 반영
+    this.reportActiveSessions();
+
     // 워크스페이스 저장 (비동기)
     this.saveWorkspaceStore().catch((err) => {
       this.deps.logger.error(`[Persistence] Failed to save workspace store: ${err}`);
@@ -3133,6 +5693,24 @@ Message: ${message}
     });
   }
 
+  /**
+   * 활성 세션(idle이 아닌 대화) 목록을 Relay에 보고
+   *
+   * Relay가 device_status에 집계해 앱에 전달합니다.
+   * 목록이 바뀌었을 때만 전송합니다.
+   */
+  private reportActiveSessions(): void {
+    const sessions = this.deps.workspaceStore.getActiveSessions();
+    const serialized = JSON.stringify(sessions);
+    if (serialized === this.lastReportedSessions) return;
+
+    this.lastReportedSessions = serialized;
+    this.send({
+      type: 'pylon_sessions',
+      payload: { sessions },
+    });
+  }
+
   // ==========================================================================
   // Private 메서드 - 세션 뷰어
   // ==========================================================================
@@ -3248,10 +5826,13 @@ Message: ${message}
     let shouldSave = false;
 
     switch (event.type) {
-      case 'textComplete':
-        this.deps.messageStore.addAssistantText(conversationId, e.text as string);
+      case 'textComplete': {
+        const messages = this.deps.messageStore.addAssistantText(conversationId, e.text as string);
+        // 클라이언트가 저장된 메시지와 같은 ID를 쓰도록 전달 (대화 분기 지점 지정용)
+        e.messageId = messages[messages.length - 1]?.id;
         shouldSave = true;
         break;
+      }
 
       case 'toolInfo':
         this.deps.messageStore.addToolStart(
@@ -3288,6 +5869,8 @@ Message: ${message}
           outputTokens: usage?.outputTokens || 0,
           cacheReadTokens: usage?.cacheReadInputTokens || 0,
         });
+        // 턴이 끝날 때 오래된 도구 입출력 보관
+        this.applyRetention(conversationId);
         shouldSave = true;
         break;
       }
@@ -3296,6 +5879,12 @@ Message: ${message}
         this.deps.messageStore.addAborted(conversationId, (e.reason as 'user' | 'session_ended') || 'user');
         shouldSave = true;
         break;
+
+      case 'accountFailover':
+      case 'budgetExceeded':
+        this.deps.messageStore.addSystemMessage(conversationId, e.message as string);
+        shouldSave = true;
+        break;
     }
 
     // 메시지 저장 예약 (debounce)
@@ -3556,109 +6145,304 @@ Message: ${message}
    * account_switch 처리
    *
    * @description
-   * 계정 전환 요청을 처리합니다.
-   * 1. 모든 활성 Claude 세션 중단
-   * 2. 인증 파일 스왑
-   * 3. 새 계정 정보를 클라이언트에 전송
+   * 계정 전환 요청을 처리합니다. 등록된 계정만 전환할 수 있습니다.
    */
   private handleAccountSwitch(
     payload: Record<string, unknown> | undefined,
     from: MessageFrom | undefined
   ): void {
-    const { account: rawAccount } = payload || {};
-    // AccountType 유효성 검증
-    if (!rawAccount || (rawAccount !== 'linegames' && rawAccount !== 'personal')) {
-      if (from?.deviceId !== undefined) {
-        this.send({
-          type: 'account_status',
-          to: [from.deviceId],
-          payload: {
-            error: 'Invalid account type',
-          },
-        });
-      }
+    const accountId = payload?.account;
+    const account = typeof accountId === 'string' ? this.deps.accountStore?.getAccount(accountId) : null;
+    if (!account) {
+      this.sendAccountError(from, 'Invalid account');
       return;
     }
-    const account = rawAccount as AccountType;
 
     // credentialManager가 없으면 에러
     if (!this.deps.credentialManager) {
-      if (from?.deviceId !== undefined) {
-        this.send({
-          type: 'account_status',
-          to: [from.deviceId],
-          payload: {
-            error: 'Credential manager not configured',
-          },
-        });
-      }
+      this.sendAccountError(from, 'Credential manager not configured');
+      return;
+    }
+
+    this.switchAccount(account).catch((err) => {
+      this.sendAccountError(from, err instanceof Error ? err.message : String(err));
+    });
+  }
+
+  /**
+   * account_save 처리 (추가 또는 수정)
+   *
+   * @description
+   * 저장 후 모든 클라이언트에 갱신된 계정 목록을 알립니다.
+   */
+  private handleAccountSave(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    const store = this.deps.accountStore;
+    if (!store) {
+      this.sendAccountError(from, 'Account store not configured');
+      return;
+    }
+    if (!isAccountSavePayload(payload)) {
+      this.sendAccountError(from, 'Invalid account');
+      return;
+    }
+
+    const input: AccountInput = payload.account;
+    const saved = payload.accountId !== undefined ? store.update(payload.accountId, input) : store.create(input);
+    if (!saved) {
+      this.sendAccountError(from, `Account not found: ${payload.accountId}`);
+      return;
+    }
+
+    this.log(`[Account] Saved: ${saved.id} (${saved.credentialFile})`);
+    this.saveAccountStore();
+    void this.sendAccountStatus();
+  }
+
+  /**
+   * account_delete 처리
+   *
+   * @description
+   * 현재 활성 계정도 삭제할 수 있습니다. (인증 파일은 그대로 두고 목록에서만 제거)
+   */
+  private handleAccountDelete(
+    payload: Record<string, unknown> | undefined,
+    from: MessageFrom | undefined
+  ): void {
+    if (!isAccountDeletePayload(payload) || !this.deps.accountStore?.delete(payload.accountId)) {
+      this.sendAccountError(from, 'Invalid account');
+      return;
+    }
+
+    if (this.cachedAccount?.current === payload.accountId) {
+      this.cachedAccount = { ...this.cachedAccount, current: null };
+    }
+
+    this.log(`[Account] Deleted: ${payload.accountId}`);
+    this.saveAccountStore();
+    void this.sendAccountStatus();
+    this.broadcastWorkspaceList();
+  }
+
+  /**
+   * 워크스페이스 기본 계정으로 전환
+   *
+   * @description
+   * 워크스페이스에 기본 계정이 지정되어 있고 현재 계정과 다르면 전환합니다.
+   * 전환은 모든 세션을 중단하므로, 응답 중인 대화가 있으면 전환하지 않습니다.
+   */
+  private switchToWorkspaceAccount(workspaceId: number): void {
+    const account = this.deps.accountStore?.getWorkspaceAccount(workspaceId);
+    if (!account || !this.deps.credentialManager || this.cachedAccount?.current === account.id) {
+      return;
+    }
+
+    const busy = this.deps.workspaceStore
+      .getAllWorkspaces()
+      .some((ws) => ws.conversations.some((conv) => this.deps.agentManager.hasActiveSession(conv.conversationId)));
+    if (busy) {
+      this.log(`[Account] Skip switching to ${account.id} for workspace ${workspaceId}: sessions are active`);
       return;
     }
 
+    this.switchAccount(account).catch(() => {
+      // switchAccount에서 로깅
+    });
+  }
+
+  /**
+   * 계정 전환 실행
+   *
+   * @description
+   * 1. 모든 활성 Claude 세션 중단 (keepSessions면 생략)
+   * 2. 인증 파일 스왑
+   * 3. 새 계정 정보를 클라이언트에 전송
+   *
+   * @param options.keepSessions - 세션을 중단하지 않음 (사용량 한도 자동 전환용)
+   * @throws 인증 파일 스왑 실패 시 (이전 계정 캐시 복원)
+   */
+  private async switchAccount(account: ClaudeAccount, options: { keepSessions?: boolean } = {}): Promise<void> {
     // 동기적으로 cachedAccount를 즉시 클리어
     // → async 스위치 중 workspace_list 요청이 오면 stale 계정 정보 방지
     const previousCachedAccount = this.cachedAccount;
     this.cachedAccount = null;
 
-    // 비동기 처리
-    (async () => {
-      try {
-        this.log(`[Account] Switching to account: ${account}`);
+    try {
+      this.log(`[Account] Switching to account: ${account.id}`);
 
-        // 1. 모든 세션 중단
+      // 1. 모든 세션 중단
+      if (!options.keepSessions) {
         const abortedSessions = this.deps.agentManager.abortAllSessions();
         if (abortedSessions.length > 0) {
           this.log(`[Account] Aborted ${abortedSessions.length} active sessions`);
         }
+      }
 
-        // 2. 인증 파일 스왑
-        await this.deps.credentialManager!.switchAccount(account);
-
-        // 3. 새 계정 정보 조회 및 캐시 업데이트
-        const accountInfo = await this.deps.credentialManager!.getCurrentAccount();
-        if (accountInfo) {
-          this.cachedAccount = {
-            current: accountInfo.account,
-            subscriptionType: accountInfo.subscriptionType,
-          };
-          // persistence에도 저장
-          if (this.deps.persistence) {
-            await this.deps.persistence.saveLastAccount(this.cachedAccount);
-          }
-        }
+      // 2. 인증 파일 스왑
+      await this.deps.credentialManager!.switchAccount(account);
+      this.accountSwitchedAt = Date.now();
 
-        // 4. 클라이언트에 상태 알림 (broadcast)
-        this.send({
-          type: 'account_status',
-          broadcast: 'clients',
-          payload: {
-            current: accountInfo?.account || account,
-            subscriptionType: accountInfo?.subscriptionType,
-          },
-        });
+      // 3. 새 계정 정보 조회 및 캐시 업데이트
+      const accountInfo = await this.deps.credentialManager!.getCurrentAccount(this.getAccounts());
+      this.cachedAccount = {
+        current: accountInfo?.account ?? account.id,
+        subscriptionType: accountInfo?.subscriptionType,
+      };
+      // persistence에도 저장
+      if (this.deps.persistence) {
+        await this.deps.persistence.saveLastAccount(this.cachedAccount);
+      }
 
-        // 5. 워크스페이스 목록 브로드캐스트 (새 계정 정보 포함)
-        this.broadcastWorkspaceList();
+      // 4. 클라이언트에 상태 알림 (broadcast)
+      await this.sendAccountStatus();
 
-        this.log(`[Account] Switched to: ${accountInfo?.account || account} (${accountInfo?.subscriptionType || 'unknown'})`);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        this.deps.logger.error(`[Account] Failed to switch account: ${errorMessage}`);
+      // 5. 워크스페이스 목록 브로드캐스트 (새 계정 정보 포함)
+      this.broadcastWorkspaceList();
+
+      this.log(`[Account] Switched to: ${account.id} (${accountInfo?.subscriptionType || 'unknown'})`);
+    } catch (err) {
+      this.deps.logger.error(`[Account] Failed to switch account: ${err instanceof Error ? err.message : String(err)}`);
 
-        // 실패 시 이전 캐시 복원
-        this.cachedAccount = previousCachedAccount;
+      // 실패 시 이전 캐시 복원
+      this.cachedAccount = previousCachedAccount;
+      throw err;
+    }
+  }
 
-        if (from?.deviceId !== undefined) {
-          this.send({
-            type: 'account_status',
-            to: [from.deviceId],
-            payload: {
-              error: errorMessage,
-            },
-          });
-        }
+  /**
+   * 사용량 한도 처리 (계정 자동 전환)
+   *
+   * @description
+   * AgentManager의 onUsageLimit 콜백에서 호출됩니다.
+   * 워크스페이스에서 계정 자동 전환을 켠 경우에만 동작합니다.
+   * - 쿼리가 시작된 뒤 계정이 이미 바뀌었으면 (다른 대화가 먼저 전환) 그 계정으로 재개
+   * - 아니면 현재 계정을 한도 소진으로 표시하고 목록의 다음 계정으로 전환
+   * 다른 대화의 세션은 중단하지 않으며, 전환 결과를 대화에 시스템 메시지로 남깁니다.
+   *
+   * @param conversationId - 한도에 걸린 대화 ID
+   * @param info - 사용량 한도 정보
+   * @returns 같은 세션을 재개하면 true
+   */
+  async handleUsageLimit(conversationId: number, info: UsageLimitInfo): Promise<boolean> {
+    const { workspaceId } = decodeConversationId(conversationId as ConversationId);
+    const workspace = this.deps.workspaceStore.getWorkspace(workspaceId);
+    if (!workspace?.accountFailover || !this.deps.credentialManager || !this.deps.accountStore) {
+      return false;
+    }
+
+    this.log(`[Account] Usage limit on conversation ${conversationId} (attempt ${info.attempt}): ${info.reason}`);
+
+    // 다른 대화가 전환 중이면 끝나길 기다림
+    while (this.accountFailover) {
+      await this.accountFailover;
+    }
+
+    if (this.accountSwitchedAt > info.startTime) {
+      const current = this.getAccountName(this.cachedAccount?.current ?? null);
+      this.recordAccountFailover(conversationId, `사용량 한도 — 이미 전환된 ${current} 계정으로 이어서 진행합니다`);
+      return true;
+    }
+
+    this.accountFailover = this.failoverToNextAccount(conversationId);
+    try {
+      return await this.accountFailover;
+    } finally {
+      this.accountFailover = null;
+    }
+  }
+
+  /**
+   * 현재 계정을 한도 소진으로 표시하고 다음 계정으로 전환
+   *
+   * @description
+   * 목록 순서대로 현재 계정 다음부터 한 바퀴 돌며,
+   * 한도에 걸린 지 ACCOUNT_EXHAUSTED_COOLDOWN_MS가 안 지난 계정과 백업 파일이 없는 계정은 건너뜁니다.
+   */
+  private async failoverToNextAccount(conversationId: number): Promise<boolean> {
+    const now = Date.now();
+    const currentId = this.cachedAccount?.current ?? null;
+    if (currentId) {
+      this.exhaustedAccounts.set(currentId, now);
+    }
+
+    const accounts = this.getAccounts();
+    const start = accounts.findIndex((account) => account.id === currentId);
+    const candidates = [...accounts.slice(start + 1), ...accounts.slice(0, start + 1)].filter((account) => {
+      const exhaustedAt = this.exhaustedAccounts.get(account.id);
+      return account.id !== currentId && (exhaustedAt === undefined || now - exhaustedAt >= ACCOUNT_EXHAUSTED_COOLDOWN_MS);
+    });
+
+    let next: ClaudeAccount | undefined;
+    for (const account of candidates) {
+      if (await this.deps.credentialManager!.hasBackup(account)) {
+        next = account;
+        break;
       }
-    })();
+    }
+
+    const from = this.getAccountName(currentId);
+    if (!next) {
+      this.recordAccountFailover(conversationId, `사용량 한도 — ${from} 계정 대신 쓸 수 있는 계정이 없습니다`);
+      return false;
+    }
+
+    try {
+      await this.switchAccount(next, { keepSessions: true });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.recordAccountFailover(conversationId, `사용량 한도 — ${next.name} 계정으로 전환하지 못했습니다: ${error}`);
+      return false;
+    }
+
+    this.recordAccountFailover(conversationId, `사용량 한도로 계정 전환: ${from} → ${next.name}`);
+    return true;
+  }
+
+  /**
+   * 계정 자동 전환 결과를 대화에 기록하고 시청자에게 전송
+   */
+  private recordAccountFailover(conversationId: number, message: string): void {
+    this.log(`[Account] ${message} (conversation ${conversationId})`);
+    this.sendClaudeEvent(conversationId, { type: 'accountFailover', message });
+  }
+
+  /**
+   * 계정 표시 이름 (목록에 없으면 ID, 모르면 '알 수 없는')
+   */
+  private getAccountName(accountId: AccountType | null): string {
+    if (!accountId) return '알 수 없는';
+    return this.deps.accountStore?.getAccount(accountId)?.name ?? accountId;
+  }
+
+  /**
+   * 등록된 계정 목록 (accountStore가 없으면 빈 배열)
+   */
+  private getAccounts(): ClaudeAccount[] {
+    return this.deps.accountStore?.getAccounts() ?? [];
+  }
+
+  /**
+   * 계정 목록 저장 (비동기, 실패는 로깅만)
+   */
+  private saveAccountStore(): void {
+    if (!this.deps.accountStore || !this.deps.persistence) return;
+    this.deps.persistence.saveAccounts(this.deps.accountStore.toJSON()).catch((err) => {
+      this.deps.logger.error(`[Account] Failed to save accounts: ${err}`);
+    });
+  }
+
+  /**
+   * 요청한 클라이언트에 계정 에러 전송
+   */
+  private sendAccountError(from: MessageFrom | undefined, error: string): void {
+    if (from?.deviceId === undefined) return;
+    this.send({
+      type: 'account_status',
+      to: [from.deviceId],
+      payload: { error },
+    });
   }
 
   /**
@@ -3733,6 +6517,7 @@ Message: ${message}
           success: true,
           shareId: shareInfo.shareId,
           conversationId,
+          ...(shareInfo.key && { key: shareInfo.key }),
         },
       });
     }
@@ -3753,42 +6538,40 @@ Message: ${message}
   }
 
   /**
-   * 현재 계정 정보를 클라이언트에 전송
+   * 현재 계정과 계정 목록을 클라이언트에 전송
    *
    * @description
-   * 클라이언트 연결 시 또는 요청 시 현재 계정 정보를 전송합니다.
+   * 클라이언트가 워크스페이스 목록을 요청할 때와 계정이 바뀔 때 전송합니다.
+   * 계정마다 백업 파일 존재 여부(available)를 함께 보냅니다.
    */
   private async sendAccountStatus(to?: number): Promise<void> {
     if (!this.deps.credentialManager) {
-      this.log('[Account] No credential manager');
       return;
     }
 
     try {
-      const accountInfo = await this.deps.credentialManager.getCurrentAccount();
-      this.log(`[Account] Got account info: ${JSON.stringify(accountInfo)}`);
+      const accounts: AccountListItem[] = [];
+      for (const account of this.getAccounts()) {
+        accounts.push({ ...account, available: await this.deps.credentialManager.hasBackup(account) });
+      }
 
-      if (accountInfo) {
-        const msg: Record<string, unknown> = {
-          type: 'account_status',
-          payload: {
-            current: accountInfo.account,
-            subscriptionType: accountInfo.subscriptionType,
-          },
-        };
-        // 특정 대상이 있으면 to, 없으면 broadcast
-        if (to !== undefined) {
-          msg.to = [to];
-        } else {
-          msg.broadcast = 'clients';
-        }
-        this.send(msg);
-        this.log(`[Account] Sent account_status: ${accountInfo.account}`);
+      const msg: Record<string, unknown> = {
+        type: 'account_status',
+        payload: {
+          current: this.cachedAccount?.current ?? null,
+          subscriptionType: this.cachedAccount?.subscriptionType,
+          accounts,
+        },
+      };
+      // 특정 대상이 있으면 to, 없으면 broadcast
+      if (to !== undefined) {
+        msg.to = [to];
       } else {
-        this.log('[Account] No account info found');
+        msg.broadcast = 'clients';
       }
+      this.send(msg);
     } catch (err) {
-      this.deps.logger.error(`[Account] Failed to get account status: ${err}`);
+      this.deps.logger.error(`[Account] Failed to send account status: ${err}`);
     }
   }
 
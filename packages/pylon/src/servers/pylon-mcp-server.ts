@@ -25,8 +25,10 @@ import type { WorkspaceStore } from '../stores/workspace-store.js';
 import type { ShareStore } from '../stores/share-store.js';
 import type { MessageStore } from '../stores/message-store.js';
 import type { WidgetManager, WidgetRenderEvent, WidgetCompleteEvent, WidgetErrorEvent, WidgetEventEvent } from '../managers/widget-manager.js';
-import { decodeConversationId } from '@estelle/core';
-import type { LinkedDocument, ConversationId, StoreMessage, ViewNode } from '@estelle/core';
+import type { Scheduler } from '../managers/scheduler.js';
+import type { WidgetRegistry } from '../managers/widget-registry.js';
+import { decodeConversationId, isAgentType, SHARE_KEY_FRAGMENT } from '@estelle/core';
+import type { AgentBackendInfo, LinkedDocument, ConversationId, StoreMessage, ViewNode, Schedule, ScheduleAction, ScheduleInput, WidgetCatalogEntry, WidgetLimitKind, WidgetSandbox } from '@estelle/core';
 
 // ============================================================================
 // 상수
@@ -126,6 +128,8 @@ export interface PylonMcpServerOptions {
   onWidgetComplete?: (conversationId: number, toolUseId: string, sessionId: string, view: ViewNode, result: unknown) => void;
   /** Widget 이벤트 시 호출되는 콜백 (owner Client에 전달, CLI → Client) */
   onWidgetEvent?: (sessionId: string, data: unknown, ownerClientId: number) => void;
+  /** Widget이 에러로 종료되었을 때 호출되는 콜백 (모든 Client에 브로드캐스트, 제한 위반이면 limit 포함) */
+  onWidgetError?: (conversationId: number, toolUseId: string, sessionId: string, error: string, limit?: WidgetLimitKind) => void;
   /**
    * Widget ready 브로드캐스트 콜백
    * 위젯이 준비되었음을 모든 클라이언트에게 알림 (preferredClientId 포함)
@@ -145,6 +149,12 @@ export interface PylonMcpServerOptions {
   onConversationInitialMessage?: (conversationId: number, message: string) => void;
   /** 대화 생성 후 자동 전환 콜백 */
   onConversationAutoSelect?: (conversationId: number) => void;
+  /** 예약 실행 스케줄러 (*_schedule 액션에 필요) */
+  scheduler?: Scheduler;
+  /** 위젯 카탈로그 (list_widgets, 이름으로 run_widget 액션에 필요) */
+  widgetRegistry?: WidgetRegistry;
+  /** 등록된 에이전트 목록 (create_conversation의 agent 검증) */
+  getAgentBackends?: () => AgentBackendInfo[];
 }
 
 /** 요청 타입 */
@@ -171,6 +181,10 @@ interface McpRequest {
   cwd?: string;
   /** Widget 실행 인자 (run_widget 액션에서 사용) */
   args?: string[];
+  /** 카탈로그 위젯 이름 (run_widget 액션에서 command/cwd 대신 사용) */
+  widget?: string;
+  /** 카탈로그 위젯 입력 (run_widget 액션에서 사용) */
+  input?: Record<string, unknown>;
   /** Inline Widget HTML (run_widget_inline 액션에서 사용) */
   html?: string;
   /** Inline Widget JavaScript (run_widget_inline 액션에서 사용) */
@@ -187,6 +201,22 @@ interface McpRequest {
   initialMessage?: string;
   /** 대화 생성 후 자동 전환 여부 (create_conversation 액션에서 사용) */
   autoSelect?: boolean;
+  /** 새 대화의 에이전트 이름 (create_conversation 액션에서 사용) */
+  agent?: string;
+  /** 예약 ID (update_schedule/delete_schedule 액션에서 사용) */
+  scheduleId?: number;
+  /** cron 표현식 (create_schedule/update_schedule 액션에서 사용) */
+  cron?: string;
+  /** 예약 실행할 프롬프트 (create_schedule/update_schedule 액션에서 사용) */
+  prompt?: string;
+  /** 예약 실행할 커맨드 ID (create_schedule/update_schedule 액션에서 사용) */
+  commandId?: number;
+  /** 대화 선택 방식 (create_schedule/update_schedule 액션에서 사용) */
+  conversationMode?: 'reuse' | 'new';
+  /** 예약 실행 대화 이름 (create_schedule/update_schedule 액션에서 사용) */
+  conversationName?: string;
+  /** 예약 사용 여부 (create_schedule/update_schedule 액션에서 사용) */
+  enabled?: boolean;
 }
 
 /** 파일 정보 타입 */
@@ -327,6 +357,30 @@ interface McpRunWidgetSuccessResponse {
   result: unknown;
 }
 
+/** 성공 응답 타입 (list_widgets) */
+interface McpWidgetListSuccessResponse {
+  success: true;
+  widgets: WidgetCatalogEntry[];
+}
+
+/** 성공 응답 타입 (create_schedule/update_schedule) */
+interface McpScheduleSuccessResponse {
+  success: true;
+  schedule: Schedule;
+}
+
+/** 성공 응답 타입 (list_schedules) */
+interface McpScheduleListSuccessResponse {
+  success: true;
+  schedules: Schedule[];
+}
+
+/** 성공 응답 타입 (delete_schedule) */
+interface McpScheduleDeleteSuccessResponse {
+  success: true;
+  deleted: number;
+}
+
 type McpResponse =
   | McpDocsSuccessResponse
   | McpFileSuccessResponse
@@ -343,6 +397,10 @@ type McpResponse =
   | McpClearDocsSuccessResponse
   | McpNotifyCommandChangedSuccessResponse
   | McpRunWidgetSuccessResponse
+  | McpWidgetListSuccessResponse
+  | McpScheduleSuccessResponse
+  | McpScheduleListSuccessResponse
+  | McpScheduleDeleteSuccessResponse
   | McpErrorResponse;
 
 // ============================================================================
@@ -378,6 +436,7 @@ export class PylonMcpServer {
   private _onWidgetClose?: (conversationId: number, toolUseId: string, sessionId: string, ownerClientId: number) => void;
   private _onWidgetComplete?: (conversationId: number, toolUseId: string, sessionId: string, view: ViewNode, result: unknown) => void;
   private _onWidgetEvent?: (sessionId: string, data: unknown, ownerClientId: number) => void;
+  private _onWidgetError?: (conversationId: number, toolUseId: string, sessionId: string, error: string, limit?: WidgetLimitKind) => void;
   private _broadcastWidgetReady?: (
     sessionId: string,
     conversationId: ConversationId,
@@ -390,6 +449,9 @@ export class PylonMcpServer {
   }) => void;
   private _onConversationInitialMessage?: (conversationId: number, message: string) => void;
   private _onConversationAutoSelect?: (conversationId: number) => void;
+  private _scheduler?: Scheduler;
+  private _widgetRegistry?: WidgetRegistry;
+  private _getAgentBackends?: () => AgentBackendInfo[];
 
   /** 대기 중인 위젯 Map (conversationId → PendingWidget) */
   private readonly _pendingWidgets: Map<number, PendingWidget> = new Map();
@@ -417,10 +479,14 @@ export class PylonMcpServer {
     this._onWidgetClose = options?.onWidgetClose;
     this._onWidgetComplete = options?.onWidgetComplete;
     this._onWidgetEvent = options?.onWidgetEvent;
+    this._onWidgetError = options?.onWidgetError;
     this._broadcastWidgetReady = options?.broadcastWidgetReady;
     this._onCommandChanged = options?.onCommandChanged;
     this._onConversationInitialMessage = options?.onConversationInitialMessage;
     this._onConversationAutoSelect = options?.onConversationAutoSelect;
+    this._scheduler = options?.scheduler;
+    this._widgetRegistry = options?.widgetRegistry;
+    this._getAgentBackends = options?.getAgentBackends;
   }
 
   // ============================================================================
@@ -527,6 +593,46 @@ export class PylonMcpServer {
     return true;
   }
 
+  /**
+   * Pylon 재시작 후 복원된 위젯 세션 등록
+   *
+   * 기다리던 MCP 호출은 재시작과 함께 사라졌으므로 결과는 돌려주지 않고,
+   * 클라이언트가 다시 claim할 수 있도록 pending 등록과 이벤트 전달만 합니다.
+   *
+   * @returns 등록한 세션 수
+   */
+  restoreWidgetSessions(): number {
+    const widgetManager = this._widgetManager;
+    if (!widgetManager) {
+      return 0;
+    }
+
+    const sessions = widgetManager.getRestoredSessions();
+    for (const session of sessions) {
+      const { conversationId, toolUseId, sessionId } = session;
+      this._pendingWidgets.set(conversationId, {
+        conversationId,
+        toolUseId,
+        widgetSessionId: sessionId,
+        resolve: () => {},
+        reject: () => {},
+      });
+
+      const untrack = this._trackWidgetSession(conversationId, toolUseId, sessionId);
+      widgetManager
+        .waitForCompletion(sessionId)
+        .catch(() => {})
+        .finally(() => {
+          if (this._pendingWidgets.get(conversationId)?.widgetSessionId === sessionId) {
+            this._pendingWidgets.delete(conversationId);
+          }
+          untrack();
+        });
+    }
+
+    return sessions.length;
+  }
+
   /**
    * TCP 서버 시작
    */
@@ -812,7 +918,7 @@ export class PylonMcpServer {
         return this._handleGetStatus(conversationId as ConversationId);
 
       case 'create_conversation':
-        return this._handleCreateConversation(conversationId as ConversationId, request.name, request.files, request.initialMessage, request.autoSelect);
+        return this._handleCreateConversation(conversationId as ConversationId, request.name, request.files, request.initialMessage, request.autoSelect, request.agent);
 
       case 'delete_conversation':
         return this._handleDeleteConversation(conversationId as ConversationId, request.target);
@@ -830,6 +936,14 @@ export class PylonMcpServer {
         return this._handleContinueTask(conversationId as ConversationId, request.reason);
 
       case 'run_widget':
+        if (request.widget) {
+          return this.runRegisteredWidget(
+            conversationId as ConversationId,
+            request.toolUseId ?? '',
+            request.widget,
+            request.input,
+          );
+        }
         return this._handleRunWidget(
           conversationId as ConversationId,
           request.toolUseId ?? '',
@@ -847,6 +961,21 @@ export class PylonMcpServer {
           request.height,
         );
 
+      case 'list_widgets':
+        return this._handleListWidgets();
+
+      case 'create_schedule':
+        return this._handleCreateSchedule(conversationId as ConversationId, request);
+
+      case 'list_schedules':
+        return this._handleListSchedules(conversationId as ConversationId);
+
+      case 'update_schedule':
+        return this._handleUpdateSchedule(conversationId as ConversationId, request);
+
+      case 'delete_schedule':
+        return this._handleDeleteSchedule(conversationId as ConversationId, request.scheduleId);
+
       default:
         return {
           success: false,
@@ -1315,6 +1444,7 @@ export class PylonMcpServer {
     files?: string[],
     initialMessage?: string,
     autoSelect?: boolean,
+    agent?: string,
   ): McpResponse {
     // 대화 존재 확인 및 workspaceId 추출
     const conversation = this._workspaceStore.getConversation(conversationId);
@@ -1325,13 +1455,26 @@ export class PylonMcpServer {
       };
     }
 
+    // 에이전트 확인 (목록을 모르면 이름 형식만 확인)
+    if (agent !== undefined) {
+      const agents = this._getAgentBackends?.();
+      const known = agents ? agents.some((a) => a.name === agent) : isAgentType(agent);
+      if (!known) {
+        return {
+          success: false,
+          error: `등록되지 않은 에이전트입니다: ${agent}`,
+        };
+      }
+    }
+
     // conversationId에서 workspaceId 추출
     const { workspaceId } = decodeConversationId(conversationId);
 
-    // 새 대화 생성
+    // 새 대화 생성 (에이전트를 안 주면 워크스페이스 기본 에이전트)
     const newConversation = this._workspaceStore.createConversation(
       workspaceId,
       name || '새 대화',
+      agent,
     );
 
     if (!newConversation) {
@@ -1725,6 +1868,8 @@ export class PylonMcpServer {
     command?: string,
     cwd?: string,
     args?: string[],
+    env?: Record<string, string>,
+    sandbox?: WidgetSandbox,
   ): Promise<McpResponse> {
     console.log(`[Widget] _handleRunWidget called: conversationId=${conversationId}, toolUseId=${toolUseId}, command=${command}, cwd=${cwd}`);
 
@@ -1779,6 +1924,8 @@ export class PylonMcpServer {
         command,
         cwd,
         args,
+        env,
+        sandbox,
         conversationId,
         toolUseId,
       });
@@ -1800,72 +1947,8 @@ export class PylonMcpServer {
       console.log('[Widget] Broadcasting widget_ready...');
       this._broadcastWidgetReady?.(sessionId, conversationId, toolUseId);
 
-      // 마지막 렌더링된 view를 추적
-      let lastView: ViewNode | null = null;
-
-      // 세션에서 ownerClientId를 가져오는 헬퍼
-      const getOwnerClientId = (): number | null => {
-        return this._widgetManager?.getSession(sessionId)?.ownerClientId ?? null;
-      };
-
-      // render 이벤트 리스너 등록
-      const onRender = (event: WidgetRenderEvent) => {
-        if (event.sessionId === sessionId) {
-          const owner = getOwnerClientId();
-          console.log(`[Widget] Render event received for session ${sessionId}, owner=${owner}`);
-          lastView = event.view;
-          if (owner !== null) {
-            this._onWidgetRender?.(conversationId, toolUseId, sessionId, event.view, owner);
-          }
-        }
-      };
-
-      // complete 이벤트 리스너 등록
-      const onComplete = (event: WidgetCompleteEvent) => {
-        if (event.sessionId === sessionId) {
-          const owner = getOwnerClientId();
-          console.log(`[Widget] Complete event received for session ${sessionId}, owner=${owner}, result:`, event.result);
-          console.log(`[Widget] lastView:`, lastView ? 'exists' : 'null');
-          // 마지막 view가 있으면 widget_complete 브로드캐스트
-          if (lastView) {
-            console.log(`[Widget] Calling onWidgetComplete for session ${sessionId}`);
-            this._onWidgetComplete?.(conversationId, toolUseId, sessionId, lastView, event.result);
-          }
-          if (owner !== null) {
-            this._onWidgetClose?.(conversationId, toolUseId, sessionId, owner);
-          }
-        }
-      };
-
-      // error 이벤트 리스너 등록
-      const onError = (event: WidgetErrorEvent) => {
-        if (event.sessionId === sessionId) {
-          const owner = getOwnerClientId();
-          console.log(`[Widget] Error event received for session ${sessionId}, owner=${owner}:`, event.error);
-          if (owner !== null) {
-            this._onWidgetClose?.(conversationId, toolUseId, sessionId, owner);
-          }
-        }
-      };
-
-      // event 이벤트 리스너 등록 (CLI → Client)
-      const onEvent = (event: WidgetEventEvent) => {
-        if (event.sessionId === sessionId) {
-          const owner = getOwnerClientId();
-          console.log(`[Widget] Event received for session ${sessionId}, owner=${owner}`);
-          if (owner !== null) {
-            this._onWidgetEvent?.(sessionId, event.data, owner);
-          } else {
-            console.log(`[Widget] Event dropped: no owner for session ${sessionId}`);
-          }
-        }
-      };
-
-      // 이벤트 리스너 등록
-      this._widgetManager.on('render', onRender);
-      this._widgetManager.on('complete', onComplete);
-      this._widgetManager.on('error', onError);
-      this._widgetManager.on('event', onEvent);
+      // render/complete/error/event를 owner Client에 전달
+      const untrack = this._trackWidgetSession(conversationId, toolUseId, sessionId);
 
       console.log('[Widget] Waiting for completion...');
 
@@ -1888,10 +1971,7 @@ export class PylonMcpServer {
         this._pendingWidgets.delete(conversationId);
 
         // 리스너 정리
-        this._widgetManager.off('render', onRender);
-        this._widgetManager.off('complete', onComplete);
-        this._widgetManager.off('error', onError);
-        this._widgetManager.off('event', onEvent);
+        untrack();
       }
     } catch (err) {
       console.log(`[Widget] startSession error:`, err);
@@ -1904,6 +1984,143 @@ export class PylonMcpServer {
     }
   }
 
+  /**
+   * 카탈로그 위젯 실행 (비동기)
+   *
+   * 이름과 입력을 manifest로 검증해 실행 정보를 만든 뒤 run_widget과 같이 진행합니다.
+   * 검증에 실패하면 세션을 만들지 않습니다.
+   * Claude의 run_widget 호출과 클라이언트의 직접 실행(widget_launch)이 함께 사용합니다.
+   */
+  async runRegisteredWidget(
+    conversationId: ConversationId,
+    toolUseId: string,
+    widget: string,
+    input?: Record<string, unknown>,
+  ): Promise<McpResponse> {
+    if (!this._widgetRegistry) {
+      return {
+        success: false,
+        error: 'WidgetRegistry not configured',
+      };
+    }
+
+    let launch;
+    try {
+      launch = this._widgetRegistry.resolve(widget, input);
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+
+    return this._handleRunWidget(conversationId, toolUseId, launch.command, launch.cwd, launch.args, launch.env, launch.sandbox);
+  }
+
+  /**
+   * list_widgets 액션 처리
+   */
+  private _handleListWidgets(): McpResponse {
+    if (!this._widgetRegistry) {
+      return {
+        success: false,
+        error: 'WidgetRegistry not configured',
+      };
+    }
+
+    return {
+      success: true,
+      widgets: this._widgetRegistry.list(),
+    };
+  }
+
+  /**
+   * Widget 세션 이벤트를 Client에 전달하는 리스너 등록
+   *
+   * @returns 리스너 해제 함수
+   */
+  private _trackWidgetSession(conversationId: number, toolUseId: string, sessionId: string): () => void {
+    const widgetManager = this._widgetManager;
+    if (!widgetManager) {
+      return () => {};
+    }
+
+    // 세션에서 ownerClientId를 가져오는 헬퍼
+    const getOwnerClientId = (): number | null => {
+      return widgetManager.getSession(sessionId)?.ownerClientId ?? null;
+    };
+
+    // render 이벤트 리스너 등록
+    const onRender = (event: WidgetRenderEvent) => {
+      if (event.sessionId === sessionId) {
+        const owner = getOwnerClientId();
+        console.log(`[Widget] Render event received for session ${sessionId}, owner=${owner}`);
+        if (owner !== null) {
+          this._onWidgetRender?.(conversationId, toolUseId, sessionId, event.view, owner);
+        }
+      }
+    };
+
+    // complete 이벤트 리스너 등록
+    const onComplete = (event: WidgetCompleteEvent) => {
+      if (event.sessionId === sessionId) {
+        const owner = getOwnerClientId();
+        console.log(`[Widget] Complete event received for session ${sessionId}, owner=${owner}, result:`, event.result);
+        // 마지막 view가 있으면 widget_complete 브로드캐스트
+        const lastView = widgetManager.getSession(sessionId)?.lastView;
+        console.log(`[Widget] lastView:`, lastView ? 'exists' : 'null');
+        if (lastView) {
+          console.log(`[Widget] Calling onWidgetComplete for session ${sessionId}`);
+          this._onWidgetComplete?.(conversationId, toolUseId, sessionId, lastView, event.result);
+        }
+        if (owner !== null) {
+          this._onWidgetClose?.(conversationId, toolUseId, sessionId, owner);
+        }
+      }
+    };
+
+    // error 이벤트 리스너 등록
+    const onError = (event: WidgetErrorEvent) => {
+      if (event.sessionId === sessionId) {
+        const owner = getOwnerClientId();
+        console.log(`[Widget] Error event received for session ${sessionId}, owner=${owner}:`, event.error);
+        // 취소가 아니라 에러로 끝난 경우 (비정상 종료, 샌드박스 제한 위반 등) 사유 브로드캐스트
+        if (widgetManager.getSession(sessionId)?.status === 'error') {
+          this._onWidgetError?.(conversationId, toolUseId, sessionId, event.error, event.limit);
+        }
+        if (owner !== null) {
+          this._onWidgetClose?.(conversationId, toolUseId, sessionId, owner);
+        }
+      }
+    };
+
+    // event 이벤트 리스너 등록 (CLI → Client)
+    const onEvent = (event: WidgetEventEvent) => {
+      if (event.sessionId === sessionId) {
+        const owner = getOwnerClientId();
+        console.log(`[Widget] Event received for session ${sessionId}, owner=${owner}`);
+        if (owner !== null) {
+          this._onWidgetEvent?.(sessionId, event.data, owner);
+        } else {
+          console.log(`[Widget] Event dropped: no owner for session ${sessionId}`);
+        }
+      }
+    };
+
+    // 이벤트 리스너 등록
+    widgetManager.on('render', onRender);
+    widgetManager.on('complete', onComplete);
+    widgetManager.on('error', onError);
+    widgetManager.on('event', onEvent);
+
+    return () => {
+      widgetManager.off('render', onRender);
+      widgetManager.off('complete', onComplete);
+      widgetManager.off('error', onError);
+      widgetManager.off('event', onEvent);
+    };
+  }
+
   /**
    * run_widget_inline 액션 처리
    * CLI 프로세스 없이 인라인 위젯을 렌더링합니다.
@@ -1982,6 +2199,130 @@ export class PylonMcpServer {
     });
   }
 
+  // ============================================================================
+  // Schedule 관련 핸들러
+  // ============================================================================
+
+  /**
+   * create_schedule 액션 처리
+   *
+   * 현재 대화의 워크스페이스에 예약을 만듭니다.
+   * 대화 이름을 지정하지 않으면 현재 대화에 이어서 실행합니다.
+   */
+  private _handleCreateSchedule(conversationId: ConversationId, request: McpRequest): McpResponse {
+    if (!this._scheduler) {
+      return { success: false, error: 'Scheduler not configured' };
+    }
+
+    const conversation = this._workspaceStore.getConversation(conversationId);
+    if (!conversation) {
+      return { success: false, error: 'Conversation not found' };
+    }
+
+    const action = this._toScheduleAction(request);
+    if (!action) {
+      return { success: false, error: 'prompt or commandId is required' };
+    }
+
+    const { workspaceId } = decodeConversationId(conversationId);
+    const conversationMode = request.conversationMode ?? 'reuse';
+    const result = this._scheduler.create({
+      workspaceId,
+      name: request.name ?? '',
+      cron: request.cron ?? '',
+      action,
+      conversationMode,
+      conversationName: request.conversationName
+        ?? (conversationMode === 'reuse' ? conversation.name : undefined),
+      enabled: request.enabled ?? true,
+    });
+
+    return result.success
+      ? { success: true, schedule: result.schedule }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * list_schedules 액션 처리 (현재 워크스페이스의 예약)
+   */
+  private _handleListSchedules(conversationId: ConversationId): McpResponse {
+    if (!this._scheduler) {
+      return { success: false, error: 'Scheduler not configured' };
+    }
+
+    const { workspaceId } = decodeConversationId(conversationId);
+    return { success: true, schedules: this._scheduler.list(workspaceId) };
+  }
+
+  /**
+   * update_schedule 액션 처리 (지정한 필드만 변경)
+   */
+  private _handleUpdateSchedule(conversationId: ConversationId, request: McpRequest): McpResponse {
+    if (!this._scheduler) {
+      return { success: false, error: 'Scheduler not configured' };
+    }
+
+    const existing = this._getWorkspaceSchedule(conversationId, request.scheduleId);
+    if (!existing) {
+      return { success: false, error: `Schedule not found: ${request.scheduleId}` };
+    }
+
+    const input: ScheduleInput = {
+      workspaceId: existing.workspaceId,
+      name: request.name ?? existing.name,
+      cron: request.cron ?? existing.cron,
+      action: this._toScheduleAction(request) ?? existing.action,
+      conversationMode: request.conversationMode ?? existing.conversationMode,
+      conversationName: request.conversationName ?? existing.conversationName,
+      enabled: request.enabled ?? existing.enabled,
+    };
+    const result = this._scheduler.update(existing.scheduleId, input);
+
+    return result.success
+      ? { success: true, schedule: result.schedule }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * delete_schedule 액션 처리
+   */
+  private _handleDeleteSchedule(conversationId: ConversationId, scheduleId: unknown): McpResponse {
+    if (!this._scheduler) {
+      return { success: false, error: 'Scheduler not configured' };
+    }
+
+    const existing = this._getWorkspaceSchedule(conversationId, scheduleId);
+    if (!existing) {
+      return { success: false, error: `Schedule not found: ${scheduleId}` };
+    }
+
+    this._scheduler.delete(existing.scheduleId);
+    return { success: true, deleted: existing.scheduleId };
+  }
+
+  /**
+   * 현재 대화의 워크스페이스에 속한 예약 조회 (다른 워크스페이스 예약은 수정 불가)
+   */
+  private _getWorkspaceSchedule(conversationId: ConversationId, scheduleId: unknown): Schedule | null {
+    if (typeof scheduleId !== 'number') return null;
+    const schedule = this._scheduler?.get(scheduleId);
+    if (!schedule) return null;
+    return schedule.workspaceId === decodeConversationId(conversationId).workspaceId ? schedule : null;
+  }
+
+  /**
+   * 요청의 prompt/commandId → ScheduleAction 변환 (commandId 우선)
+   */
+  private _toScheduleAction(request: McpRequest): ScheduleAction | null {
+    if (typeof request.commandId === 'number') {
+      return { kind: 'command', commandId: request.commandId };
+    }
+    if (request.prompt && request.prompt.trim() !== '') {
+      return { kind: 'text', text: request.prompt };
+    }
+    return null;
+  }
+
   // ============================================================================
   // Share 관련 핸들러
   // ============================================================================
@@ -2059,8 +2400,10 @@ export class PylonMcpServer {
     // 공유 생성
     const shareInfo = this._shareStore.create(conversationId);
 
-    // URL 생성 (/share/{shareId})
-    const url = `/share/${shareInfo.shareId}`;
+    // URL 생성 (/share/{shareId}#k={key}, 키는 fragment라 Relay/웹 서버로 전송되지 않음)
+    const url = shareInfo.key
+      ? `/share/${shareInfo.shareId}#${SHARE_KEY_FRAGMENT}=${shareInfo.key}`
+      : `/share/${shareInfo.shareId}`;
 
     return {
       success: true,
@@ -2188,8 +2531,8 @@ export class PylonMcpServer {
     const conversation = this._workspaceStore.getConversation(conversationId as ConversationId);
     const conversationName = conversation?.name ?? 'Unknown';
 
-    // 메시지 조회
-    const messages = this._messageStore.getMessages(conversationId);
+    // 메시지 조회 (보관된 도구 입출력은 원문으로)
+    const messages = this._messageStore.getSharedMessageHistory(conversationId);
 
     return {
       success: true,
@@ -0,0 +1,254 @@
+/**
+ * @file account-store.ts
+ * @description AccountStore - 사용자가 정한 Claude 계정 목록 영속 저장
+ *
+ * 계정마다 표시 이름/아이콘, 인증 백업 파일, 기본으로 쓰는 워크스페이스를 관리하는 순수 데이터 클래스입니다.
+ * 인증 파일 스왑/파일 I/O는 외부(CredentialManager, Persistence)에서 처리합니다.
+ */
+
+import { DEFAULT_ACCOUNT_ICON, getWorkspaceAccount } from '@estelle/core';
+import type { AccountInput, AccountType, ClaudeAccount } from '@estelle/core';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 계정 스토어 데이터 (직렬화용)
+ */
+export interface AccountStoreData {
+  /** 계정 목록 (추가 순) */
+  accounts: ClaudeAccount[];
+}
+
+// ============================================================================
+// AccountStore 클래스
+// ============================================================================
+
+/**
+ * AccountStore - 계정 목록 관리
+ *
+ * @description
+ * 워크스페이스 하나는 최대 한 계정의 기본 워크스페이스가 됩니다.
+ * 계정에 워크스페이스를 지정하면 다른 계정의 지정은 해제됩니다.
+ */
+export class AccountStore {
+  // ============================================================================
+  // Private 필드
+  // ============================================================================
+
+  /** accountId → 계정 (추가 순서 유지) */
+  private _accounts: Map<AccountType, ClaudeAccount>;
+
+  // ============================================================================
+  // 생성자
+  // ============================================================================
+
+  /**
+   * AccountStore 생성자
+   *
+   * @param data - 기존 데이터 (직렬화된 상태)
+   */
+  constructor(data?: AccountStoreData) {
+    this._accounts = new Map();
+
+    if (data?.accounts && Array.isArray(data.accounts)) {
+      for (const account of data.accounts) {
+        // 필수 필드 검증 (malformed 데이터 방어)
+        if (
+          account &&
+          typeof account.id === 'string' &&
+          typeof account.name === 'string' &&
+          typeof account.credentialFile === 'string'
+        ) {
+          this._accounts.set(account.id, {
+            id: account.id,
+            name: account.name,
+            icon: typeof account.icon === 'string' ? account.icon : DEFAULT_ACCOUNT_ICON,
+            credentialFile: account.credentialFile,
+            workspaceIds: Array.isArray(account.workspaceIds) ? [...account.workspaceIds] : [],
+          });
+        }
+      }
+    }
+  }
+
+  // ============================================================================
+  // 정적 팩토리 메서드
+  // ============================================================================
+
+  /**
+   * JSON 데이터로부터 AccountStore 생성
+   *
+   * @param data - 직렬화된 데이터
+   */
+  static fromJSON(data: AccountStoreData): AccountStore {
+    return new AccountStore(data);
+  }
+
+  /**
+   * 인증 백업 파일 목록으로 AccountStore 생성
+   *
+   * @description
+   * 계정 목록이 저장되어 있지 않을 때(처음 실행, 이전 버전에서 업그레이드) 사용합니다.
+   * 파일 이름(확장자 제외)을 계정 ID와 이름으로 씁니다. (예: 'personal.json' → 'personal')
+   *
+   * @param credentialFiles - 백업 디렉토리의 `.json` 파일 이름 목록
+   */
+  static fromCredentialFiles(credentialFiles: string[]): AccountStore {
+    const store = new AccountStore();
+    for (const credentialFile of credentialFiles) {
+      const name = credentialFile.replace(/\.json$/, '');
+      store.create({ name, icon: DEFAULT_ACCOUNT_ICON, credentialFile, workspaceIds: [] });
+    }
+    return store;
+  }
+
+  // ============================================================================
+  // 직렬화
+  // ============================================================================
+
+  /**
+   * 직렬화용 JSON 데이터 반환
+   */
+  toJSON(): AccountStoreData {
+    return { accounts: this.getAccounts() };
+  }
+
+  // ============================================================================
+  // 조회
+  // ============================================================================
+
+  /**
+   * 계정 목록 (방어적 복사본, 추가 순)
+   */
+  getAccounts(): ClaudeAccount[] {
+    return Array.from(this._accounts.values(), copyAccount);
+  }
+
+  /**
+   * 계정 조회
+   */
+  getAccount(accountId: AccountType): ClaudeAccount | null {
+    const account = this._accounts.get(accountId);
+    return account ? copyAccount(account) : null;
+  }
+
+  /**
+   * 워크스페이스의 기본 계정 조회
+   */
+  getWorkspaceAccount(workspaceId: number): ClaudeAccount | null {
+    const account = getWorkspaceAccount(Array.from(this._accounts.values()), workspaceId);
+    return account ? copyAccount(account) : null;
+  }
+
+  // ============================================================================
+  // 변경
+  // ============================================================================
+
+  /**
+   * 계정 추가
+   *
+   * @returns 추가된 계정 (ID는 이름에서 만듦)
+   */
+  create(input: AccountInput): ClaudeAccount {
+    const account: ClaudeAccount = { id: this.generateId(input), ...normalizeInput(input) };
+    this._accounts.set(account.id, account);
+    this.releaseWorkspaces(account);
+    return copyAccount(account);
+  }
+
+  /**
+   * 계정 수정 (이름/아이콘/백업 파일/기본 워크스페이스)
+   *
+   * @returns 수정된 계정, 없으면 null
+   */
+  update(accountId: AccountType, input: AccountInput): ClaudeAccount | null {
+    if (!this._accounts.has(accountId)) {
+      return null;
+    }
+    const account: ClaudeAccount = { id: accountId, ...normalizeInput(input) };
+    this._accounts.set(accountId, account);
+    this.releaseWorkspaces(account);
+    return copyAccount(account);
+  }
+
+  /**
+   * 계정 삭제
+   *
+   * @returns 삭제 성공 여부
+   */
+  delete(accountId: AccountType): boolean {
+    return this._accounts.delete(accountId);
+  }
+
+  /**
+   * 모든 계정에서 워크스페이스 지정 해제 (워크스페이스 삭제 시)
+   *
+   * @returns 변경 여부
+   */
+  removeWorkspace(workspaceId: number): boolean {
+    let changed = false;
+    for (const account of this._accounts.values()) {
+      const index = account.workspaceIds.indexOf(workspaceId);
+      if (index !== -1) {
+        account.workspaceIds.splice(index, 1);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  // ============================================================================
+  // Private 메서드
+  // ============================================================================
+
+  /**
+   * 다른 계정에서 이 계정의 기본 워크스페이스 지정을 해제
+   */
+  private releaseWorkspaces(owner: ClaudeAccount): void {
+    for (const account of this._accounts.values()) {
+      if (account.id !== owner.id) {
+        account.workspaceIds = account.workspaceIds.filter((id) => !owner.workspaceIds.includes(id));
+      }
+    }
+  }
+
+  /**
+   * 이름(없으면 백업 파일 이름)에서 겹치지 않는 계정 ID 생성
+   */
+  private generateId(input: AccountInput): AccountType {
+    const base =
+      slugify(input.name) || slugify(input.credentialFile.replace(/\.json$/, '')) || 'account';
+
+    let id = base;
+    for (let suffix = 2; this._accounts.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+}
+
+// ============================================================================
+// 헬퍼 함수
+// ============================================================================
+
+function copyAccount(account: ClaudeAccount): ClaudeAccount {
+  return { ...account, workspaceIds: [...account.workspaceIds] };
+}
+
+function normalizeInput(input: AccountInput): AccountInput {
+  return {
+    name: input.name.trim(),
+    icon: input.icon.trim() || DEFAULT_ACCOUNT_ICON,
+    credentialFile: input.credentialFile,
+    workspaceIds: [...new Set(input.workspaceIds)],
+  };
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,214 @@
+/**
+ * @file audit-store.ts
+ * @description AuditStore - 권한 결정/도구 실행 감사 로그 저장소 (SQLite 기반)
+ *
+ * 추가 전용(append-only) 로그입니다. 수정/삭제 API가 없고,
+ * 트리거로 UPDATE/DELETE를 막아 기록이 바뀌지 않도록 합니다.
+ *
+ * @example
+ * ```typescript
+ * const store = new AuditStore('data/audit.db');
+ * store.append({
+ *   timestamp: Date.now(),
+ *   kind: 'permission',
+ *   conversationId: 132097,
+ *   workspaceId: 129,
+ *   toolName: 'Bash',
+ *   toolInput: { command: 'pnpm test' },
+ *   decision: 'auto_allow',
+ *   reason: 'bypassPermissions',
+ * });
+ * const { entries } = store.query({ conversationId: 132097 });
+ * store.close();
+ * ```
+ */
+
+import Database from 'better-sqlite3';
+import type { AuditEntry, AuditLogRequestPayload } from '@estelle/core';
+
+/** 기본 조회 개수 */
+export const DEFAULT_AUDIT_LIMIT = 500;
+
+/** 최대 조회 개수 */
+export const MAX_AUDIT_LIMIT = 5000;
+
+/**
+ * 감사 로그 조회 조건
+ */
+export type AuditQuery = Omit<AuditLogRequestPayload, 'requestId'>;
+
+/**
+ * 기록할 감사 로그 항목 (id는 저장소가 부여, 이름 필드는 조회 시 채움)
+ */
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'workspaceName' | 'conversationName'>;
+
+interface AuditRow {
+  id: number;
+  timestamp: number;
+  kind: AuditEntry['kind'];
+  conversation_id: number;
+  workspace_id: number;
+  tool_name: string;
+  tool_input: string;
+  tool_use_id: string | null;
+  decision: AuditEntry['decision'] | null;
+  reason: string | null;
+  decided_by_device_id: number | null;
+  decided_by_name: string | null;
+  permission_mode: AuditEntry['permissionMode'] | null;
+  success: number | null;
+  error: string | null;
+  duration_ms: number | null;
+}
+
+export class AuditStore {
+  private db: Database.Database;
+  private stmtInsert!: Database.Statement;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this._initSchema();
+    this._prepareStatements();
+  }
+
+  private _initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        conversation_id INTEGER NOT NULL,
+        workspace_id INTEGER NOT NULL,
+        tool_name TEXT NOT NULL,
+        tool_input TEXT NOT NULL,
+        tool_use_id TEXT,
+        decision TEXT,
+        reason TEXT,
+        decided_by_device_id INTEGER,
+        decided_by_name TEXT,
+        permission_mode TEXT,
+        success INTEGER,
+        error TEXT,
+        duration_ms INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_conversation ON audit_log(conversation_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_workspace ON audit_log(workspace_id, timestamp);
+
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `);
+  }
+
+  private _prepareStatements(): void {
+    this.stmtInsert = this.db.prepare(`
+      INSERT INTO audit_log (
+        timestamp, kind, conversation_id, workspace_id, tool_name, tool_input, tool_use_id,
+        decision, reason, decided_by_device_id, decided_by_name, permission_mode,
+        success, error, duration_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+  }
+
+  /**
+   * 감사 로그 항목 추가
+   *
+   * @returns 부여된 항목 ID
+   */
+  append(entry: NewAuditEntry): number {
+    const result = this.stmtInsert.run(
+      entry.timestamp,
+      entry.kind,
+      entry.conversationId,
+      entry.workspaceId,
+      entry.toolName,
+      JSON.stringify(entry.toolInput ?? {}),
+      entry.toolUseId ?? null,
+      entry.decision ?? null,
+      entry.reason ?? null,
+      entry.decidedBy?.deviceId ?? null,
+      entry.decidedBy?.name ?? null,
+      entry.permissionMode ?? null,
+      entry.success === undefined ? null : entry.success ? 1 : 0,
+      entry.error ?? null,
+      entry.durationMs ?? null
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * 감사 로그 조회 (최신순)
+   *
+   * @returns 조건에 맞는 항목과 limit 초과 여부
+   */
+  query(query: AuditQuery = {}): { entries: AuditEntry[]; hasMore: boolean } {
+    const where: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.conversationId !== undefined) { where.push('conversation_id = ?'); values.push(query.conversationId); }
+    if (query.workspaceId !== undefined) { where.push('workspace_id = ?'); values.push(query.workspaceId); }
+    if (query.from !== undefined) { where.push('timestamp >= ?'); values.push(query.from); }
+    if (query.to !== undefined) { where.push('timestamp < ?'); values.push(query.to); }
+    if (query.kind !== undefined) { where.push('kind = ?'); values.push(query.kind); }
+    if (query.decision !== undefined) { where.push('decision = ?'); values.push(query.decision); }
+
+    const limit = Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_AUDIT_LIMIT)), MAX_AUDIT_LIMIT);
+    const whereClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_log ${whereClause} ORDER BY id DESC LIMIT ?`)
+      .all(...values, limit + 1) as AuditRow[];
+
+    return {
+      entries: rows.slice(0, limit).map(toAuditEntry),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * DB 행 → AuditEntry 변환 (NULL 컬럼은 필드 생략)
+ */
+function toAuditEntry(row: AuditRow): AuditEntry {
+  let toolInput: Record<string, unknown> = {};
+  try {
+    toolInput = JSON.parse(row.tool_input) as Record<string, unknown>;
+  } catch {
+    // 손상된 입력은 빈 객체로
+  }
+
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    kind: row.kind,
+    conversationId: row.conversation_id,
+    workspaceId: row.workspace_id,
+    toolName: row.tool_name,
+    toolInput,
+    ...(row.tool_use_id !== null && { toolUseId: row.tool_use_id }),
+    ...(row.decision !== null && { decision: row.decision }),
+    ...(row.reason !== null && { reason: row.reason }),
+    ...(row.decided_by_device_id !== null && {
+      decidedBy: {
+        deviceId: row.decided_by_device_id,
+        ...(row.decided_by_name !== null && { name: row.decided_by_name }),
+      },
+    }),
+    ...(row.permission_mode !== null && { permissionMode: row.permission_mode }),
+    ...(row.success !== null && { success: row.success === 1 }),
+    ...(row.error !== null && { error: row.error }),
+    ...(row.duration_ms !== null && { durationMs: row.duration_ms }),
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * @file e2e-key-store.ts
+ * @description E2eKeyStore - E2E 고정 키와 페어링된 Client 공개키 영속 저장
+ *
+ * Pylon의 고정 키 쌍과 페어링으로 신뢰하게 된 Client 공개키 목록을 관리하는 순수 데이터 클래스입니다.
+ * 키 생성/파일 I/O는 외부(E2eRelayClient, Persistence)에서 처리합니다.
+ */
+
+import type { E2eIdentity } from '@estelle/core';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 페어링된 Client
+ */
+export interface E2eTrustedClient {
+  /** Client 고정 공개키 (P-256 raw, base64url) */
+  publicKey: string;
+
+  /** 공개키 지문 (표시용) */
+  fingerprint: string;
+
+  /** 페어링 시각 (Unix timestamp, ms) */
+  pairedAt: number;
+}
+
+/**
+ * E2E 키 스토어 데이터 (직렬화용)
+ */
+export interface E2eKeyStoreData {
+  /** Pylon 고정 키 쌍 (처음 실행할 때 생성) */
+  identity?: E2eIdentity;
+
+  /** 페어링된 Client 목록 */
+  clients: E2eTrustedClient[];
+}
+
+// ============================================================================
+// E2eKeyStore 클래스
+// ============================================================================
+
+/**
+ * E2eKeyStore - E2E 키 관리
+ *
+ * @description
+ * 같은 공개키로 다시 페어링하면 기존 항목을 새 시각으로 대체합니다.
+ */
+export class E2eKeyStore {
+  // ============================================================================
+  // Private 필드
+  // ============================================================================
+
+  private _identity: E2eIdentity | null;
+
+  /** publicKey → 페어링된 Client */
+  private _clients: Map<string, E2eTrustedClient>;
+
+  // ============================================================================
+  // 생성자
+  // ============================================================================
+
+  /**
+   * E2eKeyStore 생성자
+   *
+   * @param data - 기존 데이터 (직렬화된 상태)
+   */
+  constructor(data?: E2eKeyStoreData) {
+    this._identity =
+      data?.identity &&
+      typeof data.identity.publicKey === 'string' &&
+      typeof data.identity.privateKey === 'string'
+        ? { ...data.identity }
+        : null;
+    this._clients = new Map();
+
+    if (data?.clients && Array.isArray(data.clients)) {
+      for (const client of data.clients) {
+        // 필수 필드 검증 (malformed 데이터 방어)
+        if (
+          client &&
+          typeof client.publicKey === 'string' &&
+          typeof client.fingerprint === 'string' &&
+          typeof client.pairedAt === 'number'
+        ) {
+          this._clients.set(client.publicKey, { ...client });
+        }
+      }
+    }
+  }
+
+  // ============================================================================
+  // 정적 팩토리 메서드
+  // ============================================================================
+
+  /**
+   * JSON 데이터로부터 E2eKeyStore 생성
+   *
+   * @param data - 직렬화된 데이터
+   */
+  static fromJSON(data: E2eKeyStoreData): E2eKeyStore {
+    return new E2eKeyStore(data);
+  }
+
+  // ============================================================================
+  // 직렬화
+  // ============================================================================
+
+  /**
+   * 직렬화용 JSON 데이터 반환
+   */
+  toJSON(): E2eKeyStoreData {
+    return {
+      ...(this._identity && { identity: { ...this._identity } }),
+      clients: this.getClients(),
+    };
+  }
+
+  // ============================================================================
+  // 고정 키
+  // ============================================================================
+
+  /**
+   * Pylon 고정 키 쌍 조회
+   */
+  getIdentity(): E2eIdentity | null {
+    return this._identity ? { ...this._identity } : null;
+  }
+
+  /**
+   * Pylon 고정 키 쌍 설정
+   */
+  setIdentity(identity: E2eIdentity): void {
+    this._identity = { ...identity };
+  }
+
+  // ============================================================================
+  // 페어링된 Client
+  // ============================================================================
+
+  /**
+   * 페어링된 공개키인지 확인
+   */
+  isTrusted(publicKey: string): boolean {
+    return this._clients.has(publicKey);
+  }
+
+  /**
+   * 페어링된 Client 추가
+   *
+   * @returns 추가된 항목
+   */
+  addClient(publicKey: string, fingerprint: string, pairedAt: number = Date.now()): E2eTrustedClient {
+    const client: E2eTrustedClient = { publicKey, fingerprint, pairedAt };
+    this._clients.set(publicKey, client);
+    return { ...client };
+  }
+
+  /**
+   * 페어링 해제
+   *
+   * @returns 삭제 성공 여부
+   */
+  removeClient(publicKey: string): boolean {
+    return this._clients.delete(publicKey);
+  }
+
+  /**
+   * 페어링된 Client 목록 (방어적 복사본)
+   */
+  getClients(): E2eTrustedClient[] {
+    return Array.from(this._clients.values(), (client) => ({ ...client }));
+  }
+}
@@ -23,9 +23,8 @@ export {
   summarizeToolInput,
   summarizeOutput,
   truncateObjectValues,
-  MAX_MESSAGES_PER_SESSION,
-  MAX_OUTPUT_LENGTH,
-  MAX_INPUT_LENGTH,
+  buildFtsQuery,
+  DEFAULT_MESSAGE_LIMIT,
   type Attachment,
   type FileInfo,
   type StoreMessage,
@@ -40,6 +39,8 @@ export {
   type SessionData,
   type MessageStoreData,
   type GetMessagesOptions,
+  type SearchMessagesOptions,
+  type MessageSearchResult,
 } from './message-store.js';
 
 export {
@@ -47,3 +48,28 @@ export {
   type ShareStoreData,
   type ValidateResult,
 } from './share-store.js';
+
+export {
+  E2eKeyStore,
+  type E2eKeyStoreData,
+  type E2eTrustedClient,
+} from './e2e-key-store.js';
+
+export {
+  AccountStore,
+  type AccountStoreData,
+} from './account-store.js';
+
+export {
+  AuditStore,
+  DEFAULT_AUDIT_LIMIT,
+  MAX_AUDIT_LIMIT,
+  type AuditQuery,
+  type NewAuditEntry,
+} from './audit-store.js';
+
+export {
+  ScheduleStore,
+  MAX_SCHEDULE_RUNS,
+  type StoredSchedule,
+} from './schedule-store.js';
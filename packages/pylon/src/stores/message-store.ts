@@ -19,6 +19,9 @@
  * // 메시지 조회
  * const messages = store.getMessages(1);
  *
+ * // 오래된 도구 입출력 보관 (보관 정책 적용)
+ * store.applyRetention(1, DEFAULT_RETENTION_POLICY);
+ *
  * // DB 연결 종료
  * store.close();
  * ```
@@ -27,6 +30,8 @@
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import { DEFAULT_RETENTION_POLICY, type RetentionPolicy } from '@estelle/core';
 
 // ============================================================================
 // Core 타입 import & re-export
@@ -72,25 +77,43 @@ export type {
 // ============================================================================
 
 /**
- * 세션당 최대 메시지 수
+ * 메시지 조회 기본 개수
  * @description
- * 이 값을 초과하면 오래된 메시지가 제거됩니다.
+ * getMessages()에 limit이 없을 때 사용됩니다.
+ * 보관 개수와는 무관하며, 보관은 RetentionPolicy가 결정합니다.
+ */
+export const DEFAULT_MESSAGE_LIMIT = 200;
+
+/**
+ * 도구 메시지 보관 상태 (archive_state 컬럼)
+ * @description
+ * - 없음(NULL): 아직 보관 정책이 적용되지 않음 (원문)
+ * - KEPT: 정책을 적용했지만 미리보기와 원문이 같아 그대로 유지
+ * - ARCHIVED: 원문은 tool_archive 테이블에 압축 보관, 메시지에는 미리보기만 남음
+ */
+const ArchiveState = {
+  KEPT: 0,
+  ARCHIVED: 1,
+} as const;
+
+/**
+ * 검색 결과 기본 최대 개수
  */
-export const MAX_MESSAGES_PER_SESSION = 200;
+export const DEFAULT_SEARCH_LIMIT = 50;
 
 /**
- * 도구 출력 최대 길이 (요약 시 사용)
+ * 검색 결과 최대 개수 상한
  * @description
- * 이 길이를 초과하는 출력은 요약됩니다.
+ * 클라이언트가 보낸 limit은 1 ~ MAX_SEARCH_LIMIT로 제한합니다.
  */
-export const MAX_OUTPUT_LENGTH = 500;
+export const MAX_SEARCH_LIMIT = 200;
 
 /**
- * 도구 입력 최대 길이 (요약 시 사용)
+ * 전문 검색 인덱스 대상 메시지 타입
  * @description
- * 이 길이를 초과하는 입력은 요약됩니다.
+ * 사용자/어시스턴트 텍스트와 도구 호출(이름, 입력)만 인덱싱합니다.
  */
-export const MAX_INPUT_LENGTH = 300;
+const SEARCHABLE_TYPES_SQL = `('text', 'tool_start', 'tool_complete')`;
 
 // ============================================================================
 // ID 생성
@@ -154,12 +177,57 @@ export interface GetMessagesOptions {
   loadBefore?: number;
   /** 반환할 최대 바이트 수 (개수보다 우선) */
   maxBytes?: number;
+  /** 도구 입출력을 미리보기로 잘라서 반환 (전송용, 바이트 계산도 미리보기 기준) */
+  preview?: Pick<RetentionPolicy, 'inputPreviewLength' | 'outputPreviewLength'>;
+}
+
+/**
+ * 메시지 검색 옵션
+ */
+export interface SearchMessagesOptions {
+  /** 검색 대상 세션 ID 목록 (없으면 전체 세션) */
+  sessionIds?: number[];
+  /** 반환할 최대 결과 수 */
+  limit?: number;
+}
+
+/**
+ * 메시지 검색 결과
+ */
+export interface MessageSearchResult {
+  /** 세션 ID (conversationId) */
+  sessionId: number;
+  /** 메시지 ID */
+  messageId: string;
+  /** 메시지 역할 */
+  role: 'user' | 'assistant';
+  /** 메시지 타입 (text, tool_start, tool_complete) */
+  type: string;
+  /** 도구 이름 (도구 메시지인 경우) */
+  toolName?: string;
+  /** 매칭 부분 발췌 (매칭 단어는 [[ ]]로 감싸짐) */
+  snippet: string;
+  /** 메시지 시각 */
+  timestamp: number;
+  /** 세션 내 메시지 인덱스 (시간순, 0부터) */
+  index: number;
 }
 
 // ============================================================================
 // DB Row 타입
 // ============================================================================
 
+interface SearchRow {
+  id: string;
+  row_order: number;
+  session_id: number;
+  timestamp: number;
+  role: string;
+  type: string;
+  tool_name: string | null;
+  snippet: string;
+}
+
 interface MessageRow {
   id: string;
   session_id: number;
@@ -177,6 +245,18 @@ interface MessageRow {
   file_info: string | null;
   result_info: string | null;
   reason: string | null;
+  archive_state: number | null;
+  /** 조회 시 미리보기가 적용되었는지 여부 (DB 컬럼 아님) */
+  truncated?: boolean;
+}
+
+/**
+ * 보관된 도구 입출력 원문 (tool_archive.payload 압축 해제 결과)
+ */
+interface ArchivedToolPayload {
+  tool_input: string | null;
+  tool_output: string | null;
+  tool_error: string | null;
 }
 
 // ============================================================================
@@ -184,7 +264,14 @@ interface MessageRow {
 // ============================================================================
 
 /**
- * 도구 입력 요약 (히스토리 저장용)
+ * tool_archive.payload 압축 해제
+ */
+function inflateArchive(payload: Buffer): ArchivedToolPayload {
+  return JSON.parse(zlib.inflateSync(payload).toString('utf-8')) as ArchivedToolPayload;
+}
+
+/**
+ * 도구 입력 요약 (보관/전송용 미리보기)
  *
  * @description
  * 도구별로 필요한 최소한의 정보만 유지합니다.
@@ -195,6 +282,7 @@ interface MessageRow {
  *
  * @param toolName - 도구 이름
  * @param input - 원본 입력
+ * @param maxLength - 문자열 값 최대 길이 (기본: 보관 정책 기본값)
  * @returns 요약된 입력
  *
  * @example
@@ -206,7 +294,8 @@ interface MessageRow {
  */
 export function summarizeToolInput(
   toolName: string,
-  input: Record<string, unknown> | null | undefined
+  input: Record<string, unknown> | null | undefined,
+  maxLength: number = DEFAULT_RETENTION_POLICY.inputPreviewLength
 ): Record<string, unknown> {
   if (!input) return {} as Record<string, unknown>;
 
@@ -224,14 +313,14 @@ export function summarizeToolInput(
     if (input.file_path) result.file_path = input.file_path;
     if (input.old_string) {
       const oldStr = input.old_string as string;
-      result.old_string = oldStr.length > MAX_INPUT_LENGTH
-        ? oldStr.slice(0, MAX_INPUT_LENGTH) + '...'
+      result.old_string = oldStr.length > maxLength
+        ? oldStr.slice(0, maxLength) + '...'
         : oldStr;
     }
     if (input.new_string) {
       const newStr = input.new_string as string;
-      result.new_string = newStr.length > MAX_INPUT_LENGTH
-        ? newStr.slice(0, MAX_INPUT_LENGTH) + '...'
+      result.new_string = newStr.length > maxLength
+        ? newStr.slice(0, maxLength) + '...'
         : newStr;
     }
     return result;
@@ -243,8 +332,8 @@ export function summarizeToolInput(
     if (input.file_path) result.file_path = input.file_path;
     if (input.content) {
       const content = input.content as string;
-      result.content = content.length > MAX_INPUT_LENGTH
-        ? content.slice(0, MAX_INPUT_LENGTH) + '...'
+      result.content = content.length > maxLength
+        ? content.slice(0, maxLength) + '...'
         : content;
     }
     return result;
@@ -258,8 +347,8 @@ export function summarizeToolInput(
       const command = input.command as string;
       const firstLine = command.split('\n')[0];
       result.command =
-        firstLine.length > MAX_INPUT_LENGTH
-          ? firstLine.slice(0, MAX_INPUT_LENGTH) + '...'
+        firstLine.length > maxLength
+          ? firstLine.slice(0, maxLength) + '...'
           : firstLine;
     }
     return result;
@@ -274,7 +363,7 @@ export function summarizeToolInput(
   }
 
   // 기타는 값이 길면 truncate
-  return truncateObjectValues(input, MAX_INPUT_LENGTH) as Record<
+  return truncateObjectValues(input, maxLength) as Record<
     string,
     unknown
   >;
@@ -318,12 +407,13 @@ export function truncateObjectValues(
 }
 
 /**
- * 출력 요약 (히스토리 저장용)
+ * 출력 요약 (보관/전송용 미리보기)
  *
  * @description
- * 긴 출력을 MAX_OUTPUT_LENGTH로 자르고 전체 길이를 표시합니다.
+ * 긴 출력을 maxLength로 자르고 전체 길이를 표시합니다.
  *
  * @param output - 원본 출력
+ * @param maxLength - 최대 길이 (기본: 보관 정책 기본값)
  * @returns 요약된 출력
  *
  * @example
@@ -333,14 +423,58 @@ export function truncateObjectValues(
  * // 'xxxx...\n... (1000 chars total)'
  * ```
  */
-export function summarizeOutput(output: unknown): unknown {
+export function summarizeOutput(
+  output: unknown,
+  maxLength: number = DEFAULT_RETENTION_POLICY.outputPreviewLength
+): unknown {
   if (!output || typeof output !== 'string') return output;
-  if (output.length <= MAX_OUTPUT_LENGTH) return output;
+  if (output.length <= maxLength) return output;
   return (
-    output.slice(0, MAX_OUTPUT_LENGTH) + `\n... (${output.length} chars total)`
+    output.slice(0, maxLength) + `\n... (${output.length} chars total)`
+  );
+}
+
+/**
+ * 키 순서와 무관한 JSON 문자열 변환 (미리보기 비교용)
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
   );
 }
 
+/**
+ * 사용자 검색어를 FTS5 MATCH 쿼리로 변환
+ *
+ * @description
+ * 공백으로 구분된 각 단어를 따옴표로 감싼 접두사 검색으로 만들고 AND로 결합합니다.
+ * 따옴표로 감싸므로 FTS5 연산자(AND, OR, NEAR, * 등)는 일반 단어로 취급됩니다.
+ * 한국어 조사가 붙은 단어("검색을")도 접두사("검색")로 찾을 수 있습니다.
+ *
+ * @param query - 사용자 입력 검색어
+ * @returns FTS5 쿼리 (검색할 단어가 없으면 null)
+ *
+ * @example
+ * ```typescript
+ * buildFtsQuery('migration bug');
+ * // '"migration"* "bug"*'
+ * ```
+ */
+export function buildFtsQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter((term) => term.length > 0);
+
+  if (terms.length === 0) return null;
+
+  return terms.map((term) => `"${term}"*`).join(' ');
+}
+
 // ============================================================================
 // MessageStore 클래스
 // ============================================================================
@@ -356,6 +490,7 @@ export function summarizeOutput(output: unknown): unknown {
  * - SQLite 기반: 즉시 저장, dirty 추적 불필요
  * - 쿼리 기반 조회: 필요한 메시지만 로드
  * - 마이그레이션 지원: 기존 JSON 파일 자동 마이그레이션
+ * - 보관 정책: 메시지는 무제한 보관, 오래된 도구 입출력은 tool_archive로 압축 이동
  *
  * @example
  * ```typescript
@@ -392,6 +527,18 @@ export class MessageStore {
   private stmtSelectCount: Database.Statement;
   private stmtDelete: Database.Statement;
   private stmtFindToolStart: Database.Statement;
+  private stmtSearch: Database.Statement;
+  private stmtSearchInSessions: Database.Statement;
+  private stmtIndexOf: Database.Statement;
+  private stmtSelectById: Database.Statement;
+  private stmtNthLatest: Database.Statement;
+  private stmtSelectArchivable: Database.Statement;
+  private stmtArchive: Database.Statement;
+  private stmtSetArchiveState: Database.Statement;
+  private stmtInsertArchive: Database.Statement;
+  private stmtSelectArchive: Database.Statement;
+  private stmtDeleteArchive: Database.Statement;
+  private stmtDeleteOldest: Database.Statement;
 
   // ============================================================================
   // 생성자
@@ -441,19 +588,21 @@ export class MessageStore {
     `);
 
     this.stmtSelectAll = this.db.prepare(`
-      SELECT * FROM messages WHERE session_id = @session_id ORDER BY timestamp ASC
+      SELECT * FROM messages WHERE session_id = @session_id ORDER BY timestamp ASC, rowid ASC
     `);
 
     this.stmtSelectWithLimit = this.db.prepare(`
       SELECT * FROM (
-        SELECT * FROM messages WHERE session_id = @session_id ORDER BY timestamp DESC LIMIT @limit
-      ) ORDER BY timestamp ASC
+        SELECT *, rowid AS row_order FROM messages WHERE session_id = @session_id
+        ORDER BY timestamp DESC, rowid DESC LIMIT @limit
+      ) ORDER BY timestamp ASC, row_order ASC
     `);
 
     this.stmtSelectWithOffset = this.db.prepare(`
       SELECT * FROM (
-        SELECT * FROM messages WHERE session_id = @session_id ORDER BY timestamp ASC LIMIT @offset
-      ) ORDER BY timestamp ASC LIMIT @limit OFFSET @skip
+        SELECT *, rowid AS row_order FROM messages WHERE session_id = @session_id
+        ORDER BY timestamp ASC, rowid ASC LIMIT @offset
+      ) ORDER BY timestamp ASC, row_order ASC LIMIT @limit OFFSET @skip
     `);
 
     this.stmtSelectCount = this.db.prepare(`
@@ -467,7 +616,80 @@ export class MessageStore {
     this.stmtFindToolStart = this.db.prepare(`
       SELECT id FROM messages
       WHERE session_id = @session_id AND type = 'tool_start' AND tool_name = @tool_name
-      ORDER BY timestamp DESC LIMIT 1
+      ORDER BY timestamp DESC, rowid DESC LIMIT 1
+    `);
+
+    const searchSelect = `
+      SELECT m.id, m.rowid AS row_order, m.session_id, m.timestamp, m.role, m.type, m.tool_name,
+        snippet(messages_fts, -1, '[[', ']]', '…', 16) AS snippet
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      WHERE messages_fts MATCH @query
+    `;
+
+    this.stmtSearch = this.db.prepare(`
+      ${searchSelect}
+      ORDER BY m.timestamp DESC, m.rowid DESC LIMIT @limit
+    `);
+
+    this.stmtSearchInSessions = this.db.prepare(`
+      ${searchSelect}
+        AND m.session_id IN (SELECT value FROM json_each(@session_ids))
+      ORDER BY m.timestamp DESC, m.rowid DESC LIMIT @limit
+    `);
+
+    this.stmtIndexOf = this.db.prepare(`
+      SELECT COUNT(*) as count FROM messages
+      WHERE session_id = @session_id
+        AND (timestamp < @timestamp OR (timestamp = @timestamp AND rowid < @row_order))
+    `);
+
+    this.stmtSelectById = this.db.prepare(`
+      SELECT * FROM messages WHERE session_id = @session_id AND id = @id
+    `);
+
+    this.stmtNthLatest = this.db.prepare(`
+      SELECT timestamp FROM messages WHERE session_id = @session_id
+      ORDER BY timestamp DESC, rowid DESC LIMIT 1 OFFSET @offset
+    `);
+
+    this.stmtSelectArchivable = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE session_id = @session_id AND type = 'tool_complete'
+        AND archive_state IS NULL AND timestamp < @cutoff
+    `);
+
+    this.stmtArchive = this.db.prepare(`
+      UPDATE messages SET
+        tool_input = @tool_input,
+        tool_output = @tool_output,
+        tool_error = @tool_error,
+        archive_state = ${ArchiveState.ARCHIVED}
+      WHERE id = @id
+    `);
+
+    this.stmtSetArchiveState = this.db.prepare(`
+      UPDATE messages SET archive_state = @archive_state WHERE id = @id
+    `);
+
+    this.stmtInsertArchive = this.db.prepare(`
+      INSERT OR REPLACE INTO tool_archive (message_id, session_id, payload)
+      VALUES (@message_id, @session_id, @payload)
+    `);
+
+    this.stmtSelectArchive = this.db.prepare(`
+      SELECT payload FROM tool_archive WHERE message_id = @message_id
+    `);
+
+    this.stmtDeleteArchive = this.db.prepare(`
+      DELETE FROM tool_archive WHERE session_id = @session_id
+    `);
+
+    this.stmtDeleteOldest = this.db.prepare(`
+      DELETE FROM messages WHERE id IN (
+        SELECT id FROM messages WHERE session_id = @session_id
+        ORDER BY timestamp DESC, rowid DESC LIMIT -1 OFFSET @keep
+      )
     `);
 
     // 마이그레이션 실행 (필요한 경우)
@@ -501,7 +723,8 @@ export class MessageStore {
         attachments TEXT,
         file_info TEXT,
         result_info TEXT,
-        reason TEXT
+        reason TEXT,
+        archive_state INTEGER
       );
       CREATE INDEX IF NOT EXISTS idx_messages_session_time ON messages(session_id, timestamp);
 
@@ -511,6 +734,124 @@ export class MessageStore {
         completed_at INTEGER
       );
     `);
+
+    this._initArchive();
+    this._initSearchIndex();
+  }
+
+  /**
+   * 도구 입출력 보관 테이블 초기화
+   *
+   * @description
+   * archive_state 컬럼이 없는 기존 DB에는 컬럼을 추가합니다.
+   * tool_archive는 메시지 ID별로 원문 입출력을 deflate 압축해 저장합니다.
+   */
+  private _initArchive(): void {
+    const columns = this.db.prepare(`PRAGMA table_info(messages)`).all() as { name: string }[];
+    if (!columns.some((column) => column.name === 'archive_state')) {
+      this.db.exec(`ALTER TABLE messages ADD COLUMN archive_state INTEGER`);
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tool_archive (
+        message_id TEXT PRIMARY KEY,
+        session_id INTEGER NOT NULL,
+        payload BLOB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tool_archive_session ON tool_archive(session_id);
+    `);
+  }
+
+  /**
+   * FTS5 전문 검색 인덱스 초기화
+   *
+   * @description
+   * messages 테이블과 rowid로 연결되는 messages_fts 가상 테이블을 만들고,
+   * 트리거로 INSERT/UPDATE/DELETE를 동기화합니다.
+   * 보관 정책이 도구 입력을 미리보기로 바꿀 때는 인덱스를 갱신하지 않아 원문으로 계속 검색됩니다.
+   * 인덱스가 처음 생성되는 경우 기존 메시지를 백필하고, 이미 보관된 메시지는 원문으로 다시 인덱싱합니다.
+   * (보관 시에도 인덱스를 갱신하던 예전 트리거도 교체)
+   */
+  private _initSearchIndex(): void {
+    const existing = this.db.prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'`
+    ).get();
+    const updateTrigger = this.db.prepare(
+      `SELECT sql FROM sqlite_master WHERE type = 'trigger' AND name = 'messages_fts_update'`
+    ).get() as { sql: string } | undefined;
+    const staleTrigger = !!updateTrigger && !updateTrigger.sql.includes('archive_state');
+    if (staleTrigger) {
+      this.db.exec(`DROP TRIGGER messages_fts_update`);
+    }
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content, tool_name, tool_input,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages
+      WHEN NEW.type IN ${SEARCHABLE_TYPES_SQL}
+      BEGIN
+        INSERT INTO messages_fts (rowid, content, tool_name, tool_input)
+        VALUES (NEW.rowid, NEW.content, NEW.tool_name, NEW.tool_input);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages
+      BEGIN
+        DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update
+      AFTER UPDATE OF content, tool_name, tool_input ON messages
+      WHEN NEW.archive_state IS NOT ${ArchiveState.ARCHIVED}
+      BEGIN
+        DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+        INSERT INTO messages_fts (rowid, content, tool_name, tool_input)
+        SELECT NEW.rowid, NEW.content, NEW.tool_name, NEW.tool_input
+        WHERE NEW.type IN ${SEARCHABLE_TYPES_SQL};
+      END;
+    `);
+
+    if (!existing) {
+      this.db.exec(`
+        INSERT INTO messages_fts (rowid, content, tool_name, tool_input)
+        SELECT rowid, content, tool_name, tool_input FROM messages
+        WHERE type IN ${SEARCHABLE_TYPES_SQL}
+      `);
+    }
+    if (!existing || staleTrigger) {
+      this._reindexArchived();
+    }
+  }
+
+  /**
+   * 보관된 메시지의 검색 인덱스를 tool_archive의 원문 입력으로 다시 만들기
+   */
+  private _reindexArchived(): void {
+    const rows = this.db.prepare(`
+      SELECT m.rowid AS row_order, m.content, m.tool_name, a.payload
+      FROM messages m JOIN tool_archive a ON a.message_id = m.id
+      WHERE m.archive_state = ${ArchiveState.ARCHIVED} AND m.type IN ${SEARCHABLE_TYPES_SQL}
+    `).all() as Array<{ row_order: number; content: string | null; tool_name: string | null; payload: Buffer }>;
+    const remove = this.db.prepare(`DELETE FROM messages_fts WHERE rowid = @rowid`);
+    const insert = this.db.prepare(`
+      INSERT INTO messages_fts (rowid, content, tool_name, tool_input)
+      VALUES (@rowid, @content, @tool_name, @tool_input)
+    `);
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const original = inflateArchive(row.payload);
+        remove.run({ rowid: row.row_order });
+        insert.run({
+          rowid: row.row_order,
+          content: row.content,
+          tool_name: row.tool_name,
+          tool_input: original.tool_input,
+        });
+      }
+    })();
   }
 
   // ============================================================================
@@ -733,6 +1074,9 @@ export class MessageStore {
         if (row.parent_tool_use_id) {
           toolStartMsg.parentToolUseId = row.parent_tool_use_id;
         }
+        if (row.truncated) {
+          toolStartMsg.truncated = true;
+        }
         return toolStartMsg;
       }
 
@@ -755,6 +1099,9 @@ export class MessageStore {
         if (row.parent_tool_use_id) {
           toolCompleteMsg.parentToolUseId = row.parent_tool_use_id;
         }
+        if (row.truncated || row.archive_state === ArchiveState.ARCHIVED) {
+          toolCompleteMsg.truncated = true;
+        }
         return toolCompleteMsg;
       }
 
@@ -931,7 +1278,7 @@ export class MessageStore {
       role: 'assistant',
       type: 'tool_start',
       toolName,
-      toolInput: summarizeToolInput(toolName, toolInput),
+      toolInput: toolInput ?? {},
       ...(parentToolUseId ? { parentToolUseId } : {}),
     };
 
@@ -944,7 +1291,7 @@ export class MessageStore {
    *
    * @description
    * 가장 최근의 해당 도구 tool_start 메시지를 찾아 tool_complete로 변환합니다.
-   * output과 error는 자동으로 요약됩니다.
+   * output과 error는 원문 그대로 저장되며, 오래되면 applyRetention()이 보관 테이블로 옮깁니다.
    *
    * @param sessionId - 세션 ID
    * @param toolName - 도구 이름
@@ -970,8 +1317,8 @@ export class MessageStore {
       this.stmtUpdate.run({
         id: row.id,
         type: 'tool_complete',
-        tool_output: summarizeOutput(result) as string | null ?? null,
-        tool_error: summarizeOutput(error) as string | null ?? null,
+        tool_output: result ?? null,
+        tool_error: error ?? null,
         success: success ? 1 : 0,
       });
     }
@@ -1097,6 +1444,33 @@ export class MessageStore {
     return this.getMessages(sessionId);
   }
 
+  /**
+   * 메시지 일괄 가져오기
+   *
+   * @description
+   * 가져온 대화(JSON 아카이브, Claude Code 트랜스크립트)의 메시지를 한 트랜잭션으로 저장합니다.
+   * ID는 다른 세션과 겹치지 않도록 새로 발급하고, 도구 입출력은 실시간 저장과 같이 원문으로 저장합니다.
+   * 임시 메시지(temporary)는 저장하지 않습니다.
+   *
+   * @param sessionId - 세션 ID
+   * @param messages - 가져올 메시지 (시간순)
+   * @returns 저장된 메시지 수
+   */
+  importMessages(sessionId: number, messages: StoreMessage[]): number {
+    const rows = messages
+      .filter((msg) => !msg.temporary)
+      .map((msg) => this._messageToRow(sessionId, { ...msg, id: generateMessageId() }));
+
+    const insertAll = this.db.transaction((items: Record<string, unknown>[]) => {
+      for (const row of items) {
+        this.stmtInsert.run(row);
+      }
+    });
+    insertAll(rows);
+
+    return rows.length;
+  }
+
   // ============================================================================
   // 메시지 조회 메서드
   // ============================================================================
@@ -1107,6 +1481,7 @@ export class MessageStore {
    * @description
    * limit(개수) 기준으로 페이징할 수 있습니다.
    * 최신 메시지가 배열 끝에 위치합니다.
+   * 같은 시각의 메시지는 저장 순서(rowid)로 정렬합니다.
    *
    * @param sessionId - 세션 ID
    * @param options - 조회 옵션 (limit, loadBefore)
@@ -1120,12 +1495,12 @@ export class MessageStore {
    * // 인덱스 80 이전 메시지 (60~79 반환)
    * const page2 = store.getMessages(1, { loadBefore: 80, limit: 20 });
    *
-   * // 최근 100KB 이내 메시지
-   * const bySize = store.getMessages(1, { maxBytes: 100 * 1024 });
+   * // 최근 100KB 이내 메시지 (도구 입출력은 미리보기)
+   * const bySize = store.getMessages(1, { maxBytes: 100 * 1024, preview: DEFAULT_RETENTION_POLICY });
    * ```
    */
   getMessages(sessionId: number, options: GetMessagesOptions = {}): StoreMessage[] {
-    const { limit = MAX_MESSAGES_PER_SESSION, loadBefore = 0, maxBytes } = options;
+    const { limit = DEFAULT_MESSAGE_LIMIT, loadBefore = 0, maxBytes, preview } = options;
 
     let rows: MessageRow[];
 
@@ -1135,11 +1510,7 @@ export class MessageStore {
       const skip = Math.max(0, loadBefore - limit);
       const actualLimit = Math.min(limit, loadBefore);
 
-      rows = this.db.prepare(`
-        SELECT * FROM (
-          SELECT * FROM messages WHERE session_id = @session_id ORDER BY timestamp ASC LIMIT @offset
-        ) ORDER BY timestamp ASC LIMIT @limit OFFSET @skip
-      `).all({
+      rows = this.stmtSelectWithOffset.all({
         session_id: sessionId,
         offset: loadBefore,
         limit: actualLimit,
@@ -1161,6 +1532,11 @@ export class MessageStore {
       }
     }
 
+    // preview 옵션 처리: 바이트 계산 전에 도구 입출력을 미리보기로 교체
+    if (preview) {
+      rows = rows.map((row) => this._previewRow(row, preview));
+    }
+
     // maxBytes 옵션 처리: 바이트 제한이 있으면 역순으로 누적
     if (maxBytes !== undefined && rows.length > 0) {
       const result: MessageRow[] = [];
@@ -1232,6 +1608,230 @@ export class MessageStore {
     return row.count;
   }
 
+  /**
+   * 원문 입출력이 포함된 메시지 조회
+   *
+   * @description
+   * 보관 테이블로 옮겨진 도구 메시지는 원문 입출력을 복원해 반환합니다.
+   * 클라이언트의 "전체 출력 보기" 요청에 사용됩니다.
+   *
+   * @param sessionId - 세션 ID
+   * @param messageId - 메시지 ID
+   * @returns 메시지 (없으면 null)
+   */
+  getFullMessage(sessionId: number, messageId: string): StoreMessage | null {
+    const row = this.stmtSelectById.get({ session_id: sessionId, id: messageId }) as
+      | MessageRow
+      | undefined;
+    if (!row) return null;
+
+    return this._rowToMessage(this._restoreRow(row));
+  }
+
+  /**
+   * 원문 입출력이 포함된 전체 메시지 조회 (시간순)
+   *
+   * @description
+   * 보관된 도구 메시지도 원문을 복원해 반환합니다.
+   * 내보내기/분기/공유처럼 미리보기가 아닌 원본이 필요할 때 사용합니다.
+   *
+   * @param sessionId - 세션 ID
+   * @returns 시간순 정렬된 전체 메시지 배열
+   */
+  getFullHistory(sessionId: number): StoreMessage[] {
+    const rows = this.stmtSelectAll.all({ session_id: sessionId }) as MessageRow[];
+    return rows.map((row) => this._rowToMessage(this._restoreRow(row)));
+  }
+
+  /**
+   * 보관된 Row에 tool_archive의 원문 입출력 복원 (보관되지 않았으면 그대로)
+   */
+  private _restoreRow(row: MessageRow): MessageRow {
+    if (row.archive_state !== ArchiveState.ARCHIVED) return row;
+
+    const archived = this.stmtSelectArchive.get({ message_id: row.id }) as
+      | { payload: Buffer }
+      | undefined;
+    return archived ? { ...row, ...inflateArchive(archived.payload), archive_state: null } : row;
+  }
+
+  // ============================================================================
+  // 보관 정책
+  // ============================================================================
+
+  /**
+   * 보관 정책 적용
+   *
+   * @description
+   * 1. maxMessages가 있으면 초과분을 오래된 메시지부터 삭제합니다.
+   * 2. 최근 recentMessages개보다 오래된 tool_complete 메시지의 입출력을
+   *    압축해 tool_archive로 옮기고, 메시지에는 미리보기만 남깁니다.
+   * 이미 정책이 적용된 메시지는 다시 처리하지 않습니다.
+   *
+   * @param sessionId - 세션 ID
+   * @param policy - 보관 정책
+   * @returns 보관 테이블로 옮긴 메시지 수
+   */
+  applyRetention(sessionId: number, policy: RetentionPolicy = DEFAULT_RETENTION_POLICY): number {
+    const apply = this.db.transaction((): number => {
+      if (policy.maxMessages !== null) {
+        const { changes } = this.stmtDeleteOldest.run({
+          session_id: sessionId,
+          keep: policy.maxMessages,
+        });
+        if (changes > 0) {
+          this.db.prepare(`
+            DELETE FROM tool_archive WHERE session_id = @session_id
+              AND message_id NOT IN (SELECT id FROM messages WHERE session_id = @session_id)
+          `).run({ session_id: sessionId });
+        }
+      }
+
+      let cutoff = Number.MAX_SAFE_INTEGER;
+      if (policy.recentMessages > 0) {
+        const row = this.stmtNthLatest.get({
+          session_id: sessionId,
+          offset: policy.recentMessages - 1,
+        }) as { timestamp: number } | undefined;
+        // 메시지 수가 recentMessages 이하면 보관할 것이 없음
+        if (!row) return 0;
+        cutoff = row.timestamp;
+      }
+
+      const rows = this.stmtSelectArchivable.all({
+        session_id: sessionId,
+        cutoff,
+      }) as MessageRow[];
+
+      let archivedCount = 0;
+      for (const row of rows) {
+        const preview = this._buildPreview(row, policy);
+        if (!preview) {
+          this.stmtSetArchiveState.run({ id: row.id, archive_state: ArchiveState.KEPT });
+          continue;
+        }
+
+        const original: ArchivedToolPayload = {
+          tool_input: row.tool_input,
+          tool_output: row.tool_output,
+          tool_error: row.tool_error,
+        };
+        this.stmtInsertArchive.run({
+          message_id: row.id,
+          session_id: sessionId,
+          payload: zlib.deflateSync(JSON.stringify(original)),
+        });
+        this.stmtArchive.run({ id: row.id, ...preview });
+        archivedCount++;
+      }
+      return archivedCount;
+    });
+
+    return apply();
+  }
+
+  /**
+   * 도구 입출력 미리보기 계산
+   *
+   * @returns 미리보기 값 (원문과 같으면 null)
+   */
+  private _buildPreview(
+    row: MessageRow,
+    lengths: Pick<RetentionPolicy, 'inputPreviewLength' | 'outputPreviewLength'>
+  ): ArchivedToolPayload | null {
+    const input = row.tool_input ? JSON.parse(row.tool_input) : {};
+    const previewInput = summarizeToolInput(row.tool_name || '', input, lengths.inputPreviewLength);
+    const preview: ArchivedToolPayload = {
+      tool_input: JSON.stringify(previewInput),
+      tool_output: summarizeOutput(row.tool_output, lengths.outputPreviewLength) as string | null,
+      tool_error: summarizeOutput(row.tool_error, lengths.outputPreviewLength) as string | null,
+    };
+
+    const unchanged =
+      stableStringify(previewInput) === stableStringify(input) &&
+      preview.tool_output === row.tool_output &&
+      preview.tool_error === row.tool_error;
+    return unchanged ? null : preview;
+  }
+
+  /**
+   * 조회용 Row에 미리보기 적용 (DB는 변경하지 않음)
+   */
+  private _previewRow(
+    row: MessageRow,
+    lengths: Pick<RetentionPolicy, 'inputPreviewLength' | 'outputPreviewLength'>
+  ): MessageRow {
+    if (row.type !== 'tool_start' && row.type !== 'tool_complete') return row;
+    if (row.archive_state !== null) return row;
+
+    const preview = this._buildPreview(row, lengths);
+    return preview ? { ...row, ...preview, truncated: true } : row;
+  }
+
+  // ============================================================================
+  // 검색 메서드
+  // ============================================================================
+
+  /**
+   * 메시지 전문 검색
+   *
+   * @description
+   * 사용자/어시스턴트 텍스트와 도구 이름/입력을 FTS5 인덱스로 검색합니다.
+   * 결과는 최신순(같은 시각은 나중에 저장한 것 먼저)이며, 각 결과에 세션 내 인덱스가 포함되어
+   * 히스토리 페이징(loadBefore)으로 해당 메시지까지 로드할 수 있습니다.
+   * limit은 1 ~ MAX_SEARCH_LIMIT로 제한합니다.
+   *
+   * @param query - 검색어 (공백으로 구분된 단어는 AND)
+   * @param options - 검색 옵션 (sessionIds, limit)
+   * @returns 검색 결과 배열
+   *
+   * @example
+   * ```typescript
+   * const results = store.search('migration bug', { sessionIds: [1, 2] });
+   * ```
+   */
+  search(query: string, options: SearchMessagesOptions = {}): MessageSearchResult[] {
+    const { sessionIds } = options;
+    const requested = Math.floor(options.limit ?? DEFAULT_SEARCH_LIMIT);
+    const limit = Number.isFinite(requested)
+      ? Math.min(Math.max(requested, 1), MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT;
+
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return [];
+    if (sessionIds && sessionIds.length === 0) return [];
+
+    const rows = (sessionIds
+      ? this.stmtSearchInSessions.all({
+          query: ftsQuery,
+          session_ids: JSON.stringify(sessionIds),
+          limit,
+        })
+      : this.stmtSearch.all({ query: ftsQuery, limit })) as SearchRow[];
+
+    return rows.map((row) => {
+      const { count } = this.stmtIndexOf.get({
+        session_id: row.session_id,
+        timestamp: row.timestamp,
+        row_order: row.row_order,
+      }) as { count: number };
+
+      const result: MessageSearchResult = {
+        sessionId: row.session_id,
+        messageId: row.id,
+        role: row.role === 'user' ? 'user' : 'assistant',
+        type: row.type,
+        snippet: row.snippet,
+        timestamp: row.timestamp,
+        index: count,
+      };
+      if (row.tool_name) {
+        result.toolName = row.tool_name;
+      }
+      return result;
+    });
+  }
+
   // ============================================================================
   // 세션 관리 메서드
   // ============================================================================
@@ -1243,6 +1843,7 @@ export class MessageStore {
    */
   clear(sessionId: number): void {
     this.stmtDelete.run({ session_id: sessionId });
+    this.stmtDeleteArchive.run({ session_id: sessionId });
   }
 
   /**
@@ -1266,14 +1867,13 @@ export class MessageStore {
    *
    * @description
    * 공유 페이지에서 사용할 전체 메시지를 시간순(과거->최신)으로 반환합니다.
-   * 페이징 없이 전체 메시지를 반환합니다.
+   * 페이징 없이 전체 메시지를 반환하고, 보관된 도구 입출력은 원문으로 복원합니다.
    *
    * @param sessionId - 세션 ID
    * @returns 시간순 정렬된 전체 메시지 배열
    */
   getSharedMessageHistory(sessionId: number): StoreMessage[] {
-    const rows = this.stmtSelectAll.all({ session_id: sessionId }) as MessageRow[];
-    return rows.map(row => this._rowToMessage(row));
+    return this.getFullHistory(sessionId);
   }
 
   // ============================================================================
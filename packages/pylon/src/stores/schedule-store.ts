@@ -0,0 +1,264 @@
+/**
+ * @file schedule-store.ts
+ * @description ScheduleStore - 워크스페이스 예약 실행 저장소 (SQLite 기반)
+ *
+ * 예약 정의와 예약별 최근 실행 기록을 저장합니다.
+ * 다음 실행 시각은 저장하지 않고 Scheduler가 cron으로 계산합니다.
+ *
+ * @example
+ * ```typescript
+ * const store = new ScheduleStore('data/schedules.db');
+ * const schedule = store.create({
+ *   workspaceId: 129,
+ *   name: '의존성 점검',
+ *   cron: '0 9 * * 1-5',
+ *   action: { kind: 'command', commandId: 3 },
+ *   conversationMode: 'reuse',
+ *   enabled: true,
+ * });
+ * store.recordRun({ scheduleId: schedule.scheduleId, runAt: Date.now(), status: 'succeeded', manual: false });
+ * store.close();
+ * ```
+ */
+
+import Database from 'better-sqlite3';
+import type { Schedule, ScheduleInput, ScheduleRun } from '@estelle/core';
+
+/** 예약별로 보관하는 실행 기록 수 */
+export const MAX_SCHEDULE_RUNS = 20;
+
+/**
+ * 저장된 예약 (다음 실행 시각 제외)
+ */
+export type StoredSchedule = Omit<Schedule, 'nextRunAt'>;
+
+interface ScheduleRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  cron: string;
+  action_kind: 'command' | 'text';
+  command_id: number | null;
+  text: string | null;
+  conversation_mode: Schedule['conversationMode'];
+  conversation_name: string | null;
+  enabled: number;
+  created_at: number;
+}
+
+interface RunRow {
+  schedule_id: number;
+  run_at: number;
+  status: ScheduleRun['status'];
+  manual: number;
+  conversation_id: number | null;
+  error: string | null;
+}
+
+export class ScheduleStore {
+  private db: Database.Database;
+  private stmtInsert!: Database.Statement;
+  private stmtUpdate!: Database.Statement;
+  private stmtDelete!: Database.Statement;
+  private stmtGet!: Database.Statement;
+  private stmtList!: Database.Statement;
+  private stmtInsertRun!: Database.Statement;
+  private stmtTrimRuns!: Database.Statement;
+  private stmtLastRun!: Database.Statement;
+  private stmtRuns!: Database.Statement;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this._initSchema();
+    this._prepareStatements();
+  }
+
+  private _initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workspace_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        action_kind TEXT NOT NULL,
+        command_id INTEGER,
+        text TEXT,
+        conversation_mode TEXT NOT NULL,
+        conversation_name TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS schedule_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id INTEGER NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+        run_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        manual INTEGER NOT NULL DEFAULT 0,
+        conversation_id INTEGER,
+        error TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, id);
+    `);
+  }
+
+  private _prepareStatements(): void {
+    this.stmtInsert = this.db.prepare(`
+      INSERT INTO schedules (
+        workspace_id, name, cron, action_kind, command_id, text,
+        conversation_mode, conversation_name, enabled, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.stmtUpdate = this.db.prepare(`
+      UPDATE schedules SET
+        workspace_id = ?, name = ?, cron = ?, action_kind = ?, command_id = ?, text = ?,
+        conversation_mode = ?, conversation_name = ?, enabled = ?
+      WHERE id = ?
+    `);
+    this.stmtDelete = this.db.prepare('DELETE FROM schedules WHERE id = ?');
+    this.stmtGet = this.db.prepare('SELECT * FROM schedules WHERE id = ?');
+    this.stmtList = this.db.prepare('SELECT * FROM schedules ORDER BY id');
+    this.stmtInsertRun = this.db.prepare(`
+      INSERT INTO schedule_runs (schedule_id, run_at, status, manual, conversation_id, error)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.stmtTrimRuns = this.db.prepare(`
+      DELETE FROM schedule_runs WHERE schedule_id = ? AND id NOT IN (
+        SELECT id FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `);
+    this.stmtLastRun = this.db.prepare(
+      'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT 1'
+    );
+    this.stmtRuns = this.db.prepare(
+      'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?'
+    );
+  }
+
+  /**
+   * 예약 생성
+   */
+  create(input: ScheduleInput, createdAt: number = Date.now()): StoredSchedule {
+    const result = this.stmtInsert.run(...toRowValues(input), createdAt);
+    return this.get(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * 예약 수정
+   *
+   * @returns 수정된 예약, 없으면 null
+   */
+  update(scheduleId: number, input: ScheduleInput): StoredSchedule | null {
+    const result = this.stmtUpdate.run(...toRowValues(input), scheduleId);
+    return result.changes > 0 ? this.get(scheduleId) : null;
+  }
+
+  /**
+   * 예약 삭제 (실행 기록도 함께 삭제)
+   */
+  delete(scheduleId: number): boolean {
+    return this.stmtDelete.run(scheduleId).changes > 0;
+  }
+
+  /**
+   * 예약 조회
+   */
+  get(scheduleId: number): StoredSchedule | null {
+    const row = this.stmtGet.get(scheduleId) as ScheduleRow | undefined;
+    return row ? this.toSchedule(row) : null;
+  }
+
+  /**
+   * 전체 예약 목록 (생성 순)
+   */
+  list(): StoredSchedule[] {
+    return (this.stmtList.all() as ScheduleRow[]).map((row) => this.toSchedule(row));
+  }
+
+  /**
+   * 워크스페이스 예약 전체 삭제 (워크스페이스 삭제 시)
+   *
+   * @returns 삭제된 예약 수
+   */
+  deleteByWorkspace(workspaceId: number): number {
+    return this.db.prepare('DELETE FROM schedules WHERE workspace_id = ?').run(workspaceId).changes;
+  }
+
+  /**
+   * 실행 기록 추가 (예약별 최근 MAX_SCHEDULE_RUNS개만 보관)
+   */
+  recordRun(run: ScheduleRun): void {
+    this.stmtInsertRun.run(
+      run.scheduleId,
+      run.runAt,
+      run.status,
+      run.manual ? 1 : 0,
+      run.conversationId ?? null,
+      run.error ?? null
+    );
+    this.stmtTrimRuns.run(run.scheduleId, run.scheduleId, MAX_SCHEDULE_RUNS);
+  }
+
+  /**
+   * 실행 기록 조회 (최신순)
+   */
+  getRuns(scheduleId: number, limit: number = MAX_SCHEDULE_RUNS): ScheduleRun[] {
+    return (this.stmtRuns.all(scheduleId, limit) as RunRow[]).map(toRun);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toSchedule(row: ScheduleRow): StoredSchedule {
+    const lastRun = this.stmtLastRun.get(row.id) as RunRow | undefined;
+    return {
+      scheduleId: row.id,
+      workspaceId: row.workspace_id,
+      name: row.name,
+      cron: row.cron,
+      action: row.action_kind === 'command'
+        ? { kind: 'command', commandId: row.command_id ?? 0 }
+        : { kind: 'text', text: row.text ?? '' },
+      conversationMode: row.conversation_mode,
+      ...(row.conversation_name !== null && { conversationName: row.conversation_name }),
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+      ...(lastRun && { lastRun: toRun(lastRun) }),
+    };
+  }
+}
+
+/**
+ * ScheduleInput → INSERT/UPDATE 공통 컬럼 값
+ */
+function toRowValues(input: ScheduleInput): unknown[] {
+  return [
+    input.workspaceId,
+    input.name,
+    input.cron,
+    input.action.kind,
+    input.action.kind === 'command' ? input.action.commandId : null,
+    input.action.kind === 'text' ? input.action.text : null,
+    input.conversationMode,
+    input.conversationName ?? null,
+    input.enabled ? 1 : 0,
+  ];
+}
+
+/**
+ * DB 행 → ScheduleRun 변환
+ */
+function toRun(row: RunRow): ScheduleRun {
+  return {
+    scheduleId: row.schedule_id,
+    runAt: row.run_at,
+    status: row.status,
+    manual: row.manual === 1,
+    ...(row.conversation_id !== null && { conversationId: row.conversation_id }),
+    ...(row.error !== null && { error: row.error }),
+  };
+}
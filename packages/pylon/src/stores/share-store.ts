@@ -8,7 +8,7 @@
  * @estelle/core의 ShareInfo, generateShareId 활용
  */
 
-import { generateShareId, type ShareInfo } from '@estelle/core';
+import { generateE2eShareKey, generateShareId, type ShareInfo } from '@estelle/core';
 
 // ============================================================================
 // 상수
@@ -164,6 +164,7 @@ export class ShareStore {
       conversationId,
       createdAt: Date.now(),
       accessCount: 0,
+      key: generateE2eShareKey(),
     };
 
     // 맵에 추가
@@ -238,6 +239,16 @@ export class ShareStore {
     return this._sharesByConversationId.get(conversationId) ?? null;
   }
 
+  /**
+   * 공유 키 조회 (뷰어 메시지 암호화용)
+   *
+   * @param shareId - 공유 ID
+   * @returns 키 또는 null (공유가 없거나 키 없이 만든 이전 공유)
+   */
+  getKey(shareId: string): string | null {
+    return this._sharesByShareId.get(shareId)?.key ?? null;
+  }
+
   /**
    * 모든 공유 목록 조회
    *
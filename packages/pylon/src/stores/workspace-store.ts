@@ -52,18 +52,27 @@ import {
   decodeWorkspaceId as decodeNewWorkspaceId,
   MAX_WORKSPACE_INDEX,
   MAX_CONVERSATION_INDEX,
+  DEFAULT_RETENTION_POLICY,
+  DEFAULT_AGENT_TYPE,
 } from '@estelle/core';
 import type {
   ConversationStatusValue,
   PermissionModeValue,
   LinkedDocument,
   AgentType,
+  ConversationAgentSettings,
+  RetentionPolicy,
+  PermissionRule,
+  WorkerPolicy,
+  PylonActiveSession,
+  ConversationWorktree,
   // 새로운 ID 시스템 타입 (내부용)
   EnvId,
   PylonId,
   WorkspaceId,
   ConversationId,
 } from '@estelle/core';
+import { getWorktreePath, WORKTREE_BRANCH_PREFIX } from '../utils/git-worktree.js';
 
 // 레거시 호환: 외부 인터페이스에서 conversationId 필드명 유지
 // 내부적으로 ConversationId 타입 사용 (branded type)
@@ -120,6 +129,12 @@ export interface Conversation {
   /** 에이전트 타입 (claude, codex) */
   agentType: AgentType;
 
+  /** 에이전트 설정 (모델, 추론 강도, 한도 — 없으면 에이전트 기본값) */
+  agentSettings?: ConversationAgentSettings;
+
+  /** 누적 비용 (USD, 대화 비용 한도 확인용 — 없으면 0) */
+  spentCostUsd?: number;
+
   /** 연결된 문서 목록 */
   linkedDocuments?: LinkedDocument[];
 
@@ -128,6 +143,46 @@ export interface Conversation {
 
   /** 마지막 활성 클라이언트 ID (Widget의 DeviceId) */
   lastActiveClientId?: number;
+
+  /** 분기 원본 대화 ID (대화 분기로 생성된 경우) */
+  parentConversationId?: ConversationId;
+
+  /** 분기 대기 정보 (첫 메시지 전송 시 사용, 새 세션이 시작되면 제거) */
+  pendingFork?: PendingFork;
+
+  /** git 기준점 커밋 (첫 메시지 전송 시 작업 트리 상태, 커밋하면 새 상태로 갱신) */
+  gitBaseline?: string;
+
+  /** 대화 전용 git worktree (있으면 에이전트 cwd로 사용) */
+  worktree?: ConversationWorktree;
+}
+
+/**
+ * 대화 생성 옵션
+ */
+export interface CreateConversationOptions {
+  /**
+   * 대화 전용 git worktree 사용 여부
+   *
+   * 경로와 브랜치만 기록합니다. 실제 `git worktree add`는 호출하는 쪽(Pylon)에서 합니다.
+   */
+  useWorktree?: boolean;
+}
+
+/**
+ * 분기 대기 정보
+ *
+ * @description
+ * 분기한 대화의 에이전트 세션은 첫 메시지를 보낼 때 시작됩니다.
+ * - agentSessionId가 있으면 원본 세션을 resumeSessionAt 지점에서 분기해서 이어감
+ * - 없으면 복사한 히스토리를 첫 메시지의 리마인더로 전달
+ */
+export interface PendingFork {
+  /** 분기할 원본 에이전트 세션 ID */
+  agentSessionId?: string;
+
+  /** 원본 세션의 분기 지점 (assistant 메시지 UUID) */
+  resumeSessionAt?: string;
 }
 
 /**
@@ -151,6 +206,21 @@ export interface Workspace {
 
   /** 마지막 사용 시각 (Unix timestamp) */
   lastUsed: number;
+
+  /** 메시지 보관 정책 (없으면 DEFAULT_RETENTION_POLICY) */
+  retentionPolicy?: RetentionPolicy;
+
+  /** 권한 규칙 목록 (없으면 기본 규칙만 적용) */
+  permissionRules?: PermissionRule[];
+
+  /** 태스크 워커 정책 (없으면 DEFAULT_WORKER_POLICY) */
+  workerPolicy?: WorkerPolicy;
+
+  /** 사용량 한도에 걸리면 다음 계정으로 자동 전환 (없으면 끔) */
+  accountFailover?: boolean;
+
+  /** 새 대화의 기본 에이전트 (없으면 DEFAULT_AGENT_TYPE) */
+  agentType?: AgentType;
 }
 
 /**
@@ -423,9 +493,26 @@ export class WorkspaceStore {
     return true;
   }
 
+  /**
+   * 워크스페이스 수정
+   *
+   * @param updates.retentionPolicy 보관 정책 (null이면 기본 정책으로 되돌림)
+   * @param updates.permissionRules 권한 규칙 전체 목록 (빈 배열이면 규칙 삭제)
+   * @param updates.workerPolicy 워커 정책 (null이면 기본 정책으로 되돌림)
+   * @param updates.accountFailover 계정 자동 전환 여부
+   * @param updates.agentType 새 대화의 기본 에이전트 (null이면 기본값으로 되돌림)
+   */
   updateWorkspace(
     workspaceId: number,
-    updates: { name?: string; workingDir?: string }
+    updates: {
+      name?: string;
+      workingDir?: string;
+      retentionPolicy?: RetentionPolicy | null;
+      permissionRules?: PermissionRule[];
+      workerPolicy?: WorkerPolicy | null;
+      accountFailover?: boolean;
+      agentType?: AgentType | null;
+    }
   ): boolean {
     const workspace = this.getWorkspace(workspaceId);
     if (!workspace) return false;
@@ -433,12 +520,52 @@ export class WorkspaceStore {
     const trimmedName = updates.name?.trim();
     const hasName = trimmedName !== undefined && trimmedName !== '';
     const hasWorkingDir = updates.workingDir !== undefined;
-
-    if (!hasName && !hasWorkingDir) return false;
+    const hasRetentionPolicy = updates.retentionPolicy !== undefined;
+    const hasPermissionRules = updates.permissionRules !== undefined;
+    const hasWorkerPolicy = updates.workerPolicy !== undefined;
+    const hasAccountFailover = updates.accountFailover !== undefined;
+    const hasAgentType = updates.agentType !== undefined;
+
+    if (
+      !hasName &&
+      !hasWorkingDir &&
+      !hasRetentionPolicy &&
+      !hasPermissionRules &&
+      !hasWorkerPolicy &&
+      !hasAccountFailover &&
+      !hasAgentType
+    ) {
+      return false;
+    }
     if (updates.name !== undefined && !hasName) return false;
 
     if (hasName) workspace.name = trimmedName!;
     if (hasWorkingDir) workspace.workingDir = this.normalizePath(updates.workingDir!);
+    if (updates.retentionPolicy === null) {
+      delete workspace.retentionPolicy;
+    } else if (updates.retentionPolicy) {
+      workspace.retentionPolicy = { ...updates.retentionPolicy };
+    }
+    if (updates.permissionRules?.length === 0) {
+      delete workspace.permissionRules;
+    } else if (updates.permissionRules) {
+      workspace.permissionRules = updates.permissionRules.map((rule) => ({ ...rule }));
+    }
+    if (updates.workerPolicy === null) {
+      delete workspace.workerPolicy;
+    } else if (updates.workerPolicy) {
+      workspace.workerPolicy = { ...updates.workerPolicy };
+    }
+    if (updates.accountFailover === false) {
+      delete workspace.accountFailover;
+    } else if (updates.accountFailover) {
+      workspace.accountFailover = true;
+    }
+    if (updates.agentType === null) {
+      delete workspace.agentType;
+    } else if (updates.agentType) {
+      workspace.agentType = updates.agentType;
+    }
 
     workspace.lastUsed = Date.now();
     return true;
@@ -522,7 +649,9 @@ export class WorkspaceStore {
 
   createConversation(
     workspaceId: number,
-    name: string = '새 대화'
+    name: string = '새 대화',
+    agentType?: AgentType,
+    options: CreateConversationOptions = {}
   ): Conversation | null {
     const workspace = this._workspaces.find((w) => w.workspaceId === workspaceId);
     if (!workspace) return null;
@@ -542,9 +671,18 @@ export class WorkspaceStore {
       unread: false,
       permissionMode: PermissionMode.BYPASS,
       createdAt: Date.now(),
-      agentType: 'claude',
+      agentType: agentType ?? workspace.agentType ?? DEFAULT_AGENT_TYPE,
     };
 
+    if (options.useWorktree) {
+      // 대화 ID는 재사용되므로, 정리 후 남겨둔 브랜치와 겹치지 않게 생성 시각을 붙임
+      const worktreeName = `conv-${conversationId}-${Date.now().toString(36)}`;
+      newConversation.worktree = {
+        path: getWorktreePath(workspace.workingDir, worktreeName),
+        branch: `${WORKTREE_BRANCH_PREFIX}${worktreeName}`,
+      };
+    }
+
     workspace.conversations.push(newConversation);
     workspace.lastUsed = Date.now();
     this._activeConversationId = conversationId;
@@ -645,6 +783,61 @@ export class WorkspaceStore {
     return true;
   }
 
+  // ============================================================================
+  // Agent Settings
+  // ============================================================================
+
+  /**
+   * 대화의 에이전트 설정 조회 (없으면 빈 객체)
+   */
+  getConversationAgentSettings(conversationId: ConversationId): ConversationAgentSettings {
+    return this.getConversation(conversationId)?.agentSettings ?? {};
+  }
+
+  /**
+   * 대화의 에이전트 설정 교체
+   *
+   * @param conversationId 대화 ConversationId
+   * @param settings 새 설정 (null이거나 빈 객체면 제거해서 에이전트 기본값 사용)
+   * @returns 설정 성공 여부
+   */
+  setConversationAgentSettings(
+    conversationId: ConversationId,
+    settings: ConversationAgentSettings | null
+  ): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv) return false;
+
+    if (!settings || Object.keys(settings).length === 0) {
+      delete conv.agentSettings;
+    } else {
+      conv.agentSettings = { ...settings };
+    }
+    return true;
+  }
+
+  /**
+   * 대화의 누적 비용 조회 (USD, 없으면 0)
+   */
+  getConversationCost(conversationId: ConversationId): number {
+    return this.getConversation(conversationId)?.spentCostUsd ?? 0;
+  }
+
+  /**
+   * 대화의 누적 비용 설정
+   *
+   * @param conversationId 대화 ConversationId
+   * @param spentUsd 누적 비용 (USD)
+   * @returns 설정 성공 여부
+   */
+  setConversationCost(conversationId: ConversationId, spentUsd: number): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv) return false;
+
+    conv.spentCostUsd = spentUsd;
+    return true;
+  }
+
   // ============================================================================
   // Custom System Prompt
   // ============================================================================
@@ -682,6 +875,162 @@ export class WorkspaceStore {
     return conv?.customSystemPrompt;
   }
 
+  // ============================================================================
+  // 대화 분기
+  // ============================================================================
+
+  /**
+   * 분기 대화로 표시
+   *
+   * @param conversationId 분기로 생성된 대화 ConversationId
+   * @param parentConversationId 원본 대화 ConversationId
+   * @param pendingFork 첫 메시지 전송 시 사용할 분기 정보
+   * @returns 설정 성공 여부
+   */
+  setConversationFork(
+    conversationId: ConversationId,
+    parentConversationId: ConversationId,
+    pendingFork: PendingFork
+  ): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv) return false;
+
+    conv.parentConversationId = parentConversationId;
+    conv.pendingFork = pendingFork;
+    return true;
+  }
+
+  /**
+   * 분기 대기 정보 제거 (분기한 세션이 시작된 후)
+   *
+   * @param conversationId 대화 ConversationId
+   * @returns 제거 여부 (대기 정보가 없었으면 false)
+   */
+  clearPendingFork(conversationId: ConversationId): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv?.pendingFork) return false;
+
+    delete conv.pendingFork;
+    return true;
+  }
+
+  // ============================================================================
+  // git 기준점
+  // ============================================================================
+
+  /**
+   * 대화의 git 기준점 설정
+   *
+   * @param conversationId 대화 ConversationId
+   * @param baseline 기준점 커밋 해시 (null로 설정하면 제거)
+   * @returns 설정 성공 여부
+   */
+  setConversationGitBaseline(
+    conversationId: ConversationId,
+    baseline: string | null
+  ): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv) return false;
+
+    if (baseline === null) {
+      delete conv.gitBaseline;
+    } else {
+      conv.gitBaseline = baseline;
+    }
+    return true;
+  }
+
+  // ============================================================================
+  // 대화 worktree
+  // ============================================================================
+
+  /**
+   * 대화 전용 worktree 설정
+   *
+   * @param conversationId 대화 ConversationId
+   * @param worktree worktree 정보 (null이면 해제 → 워크스페이스 workingDir 사용)
+   * @returns 대화를 찾았으면 true
+   */
+  setConversationWorktree(
+    conversationId: ConversationId,
+    worktree: ConversationWorktree | null
+  ): boolean {
+    const conv = this.getConversation(conversationId);
+    if (!conv) return false;
+
+    if (worktree === null) {
+      delete conv.worktree;
+    } else {
+      conv.worktree = worktree;
+    }
+    return true;
+  }
+
+  // ============================================================================
+  // 보관 정책
+  // ============================================================================
+
+  /**
+   * 대화가 속한 워크스페이스의 보관 정책 조회
+   *
+   * @param conversationId 대화 ConversationId
+   * @returns 보관 정책 (설정이 없거나 대화를 찾지 못하면 기본 정책)
+   */
+  getRetentionPolicy(conversationId: ConversationId): RetentionPolicy {
+    const found = this.findConversation(conversationId);
+    return found?.workspace.retentionPolicy ?? DEFAULT_RETENTION_POLICY;
+  }
+
+  // ============================================================================
+  // 권한 규칙
+  // ============================================================================
+
+  /**
+   * 대화가 속한 워크스페이스의 권한 정책 조회
+   *
+   * 위치 규칙은 에이전트가 실제로 도는 디렉토리 기준이므로,
+   * 대화 전용 worktree가 있으면 그 경로를 workingDir로 돌려줍니다.
+   *
+   * @param conversationId 대화 ConversationId
+   * @returns 권한 규칙과 workingDir (대화를 찾지 못하면 undefined)
+   */
+  getPermissionPolicy(
+    conversationId: ConversationId
+  ): { rules: PermissionRule[]; workingDir: string } | undefined {
+    const found = this.findConversation(conversationId);
+    if (!found) return undefined;
+    return {
+      rules: found.workspace.permissionRules ?? [],
+      workingDir: found.conversation.worktree?.path ?? found.workspace.workingDir,
+    };
+  }
+
+  /**
+   * 대화가 속한 워크스페이스에 권한 규칙 추가
+   *
+   * @description
+   * 같은 도구/조건/동작의 규칙이 이미 있으면 추가하지 않습니다.
+   *
+   * @returns 규칙이 추가되었으면 true
+   */
+  addPermissionRule(conversationId: ConversationId, rule: PermissionRule): boolean {
+    const found = this.findConversation(conversationId);
+    if (!found) return false;
+
+    const rules = found.workspace.permissionRules ?? [];
+    const exists = rules.some(
+      (r) =>
+        r.toolName === rule.toolName &&
+        r.pattern === rule.pattern &&
+        r.location === rule.location &&
+        r.action === rule.action
+    );
+    if (exists) return false;
+
+    found.workspace.permissionRules = [...rules, { ...rule }];
+    return true;
+  }
+
   // ============================================================================
   // LinkedDocument 관리
   // ============================================================================
@@ -861,6 +1210,35 @@ export class WorkspaceStore {
     return result;
   }
 
+  /**
+   * idle이 아닌 대화 목록 조회 (Relay 활성 세션 보고용)
+   *
+   * @returns 워크스페이스/대화 순서대로 정렬된 활성 세션 목록
+   */
+  getActiveSessions(): PylonActiveSession[] {
+    const result: PylonActiveSession[] = [];
+
+    for (const workspace of this._workspaces) {
+      for (const conv of workspace.conversations) {
+        if (
+          conv.status === ConversationStatus.WORKING ||
+          conv.status === ConversationStatus.WAITING ||
+          conv.status === ConversationStatus.ERROR
+        ) {
+          result.push({
+            conversationId: conv.conversationId,
+            conversationName: conv.name,
+            workspaceId: workspace.workspaceId,
+            workspaceName: workspace.name,
+            status: conv.status,
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
   getFinishingConversations(): FinishingConversationInfo[] {
     const result: FinishingConversationInfo[] = [];
 
@@ -869,7 +1247,7 @@ export class WorkspaceStore {
         if ((conv.status as string) === 'finishing') {
           result.push({
             conversationId: conv.conversationId,
-            workingDir: workspace.workingDir,
+            workingDir: conv.worktree?.path ?? workspace.workingDir,
             claudeSessionId: conv.claudeSessionId,
           });
         }
@@ -0,0 +1,430 @@
+/**
+ * ConversationExport - 대화 내보내기 렌더러
+ *
+ * 저장된 메시지(StoreMessage)를 외부 파일 형식으로 변환하는 순수 함수들.
+ * - renderMarkdown: 읽기용 Markdown 문서
+ * - renderHtml: 클라이언트 ToolCard 스타일을 인라인 CSS로 포함한 단일 HTML 페이지
+ * - buildArchive: 첨부 파일을 포함한 버전 지정 JSON 아카이브 (다시 가져오기 가능)
+ *
+ * @module utils/conversation-export
+ */
+
+import {
+  CONVERSATION_ARCHIVE_FORMAT,
+  CONVERSATION_ARCHIVE_VERSION,
+  type ArchiveAttachment,
+  type ConversationArchive,
+  type ExportFormat,
+  type StoreMessage,
+} from '@estelle/core';
+import type { Conversation } from '../stores/workspace-store.js';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 내보내기 대상 정보
+ */
+export interface ExportSource {
+  /** 워크스페이스 정보 */
+  workspace: { name: string; workingDir: string };
+  /** 대화 정보 */
+  conversation: Conversation;
+  /** 메시지 목록 (시간순) */
+  messages: StoreMessage[];
+  /** 내보낸 시각 (Unix timestamp, ms) */
+  exportedAt: number;
+}
+
+/**
+ * 첨부 파일 읽기 함수
+ *
+ * 파일을 읽을 수 없으면 null을 반환합니다 (아카이브에서 제외).
+ */
+export type AttachmentReader = (path: string) => Buffer | null;
+
+/**
+ * 형식별 파일 확장자
+ */
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+  json: '.json',
+};
+
+/**
+ * 형식별 MIME 타입
+ */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+// ============================================================================
+// 공통 헬퍼
+// ============================================================================
+
+/**
+ * 내보내기 파일명 생성
+ *
+ * 파일 시스템에서 사용할 수 없는 문자는 '_'로 치환합니다.
+ *
+ * @param conversationName - 대화명
+ * @param format - 내보내기 형식
+ * @param exportedAt - 내보낸 시각 (파일명에 포함)
+ */
+export function buildExportFilename(
+  conversationName: string,
+  format: ExportFormat,
+  exportedAt: number
+): string {
+  const safeName =
+    conversationName
+      .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 80) || 'conversation';
+  // 2025-01-02-153012 (UTC) - 같은 날 여러 번 내보내도 파일명이 겹치지 않도록 시각 포함
+  const stamp = new Date(exportedAt).toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '');
+  return `${safeName}-${stamp}${EXPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * 도구 입력에서 요약 문자열 추출 (ToolCard 헤더의 설명과 동일한 우선순위)
+ */
+function summarizeToolInput(toolInput: Record<string, unknown>): string {
+  for (const key of ['description', 'command', 'file_path', 'pattern', 'url', 'query']) {
+    const value = toolInput[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return '';
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * 내보내기에 포함할 메시지만 선택 (UI 전용 임시 메시지 제외)
+ */
+function visibleMessages(messages: StoreMessage[]): StoreMessage[] {
+  return messages.filter((msg) => !msg.temporary);
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * 내용에 포함된 백틱보다 긴 코드 펜스 생성
+ */
+function codeFence(content: string, lang = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((m) => m.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${lang}\n${content}\n${fence}`;
+}
+
+function renderMarkdownMessage(msg: StoreMessage): string | null {
+  switch (msg.type) {
+    case 'text': {
+      const header = msg.role === 'user' ? '### User' : '### Assistant';
+      let body = `${header}\n\n${msg.content}`;
+      if (msg.role === 'user' && msg.attachments?.length) {
+        body += '\n\n' + msg.attachments.map((a) => `- 📎 ${a.filename}`).join('\n');
+      }
+      return body;
+    }
+
+    case 'tool_start':
+    case 'tool_complete': {
+      const status =
+        msg.type === 'tool_start' ? '⏳' : msg.success ? '✓' : '✗';
+      const summary = summarizeToolInput(msg.toolInput);
+      const lines = [`**🔧 ${msg.toolName}** ${status}${summary ? ` — ${summary}` : ''}`];
+      lines.push('', 'Input:', '', codeFence(JSON.stringify(msg.toolInput, null, 2), 'json'));
+      if (msg.type === 'tool_complete') {
+        const output = msg.success ? msg.output : msg.error;
+        if (output) {
+          lines.push('', msg.success ? 'Output:' : 'Error:', '', codeFence(output));
+        }
+      }
+      return lines.join('\n');
+    }
+
+    case 'error':
+      return `> ⚠️ **Error**: ${msg.content}`;
+
+    case 'result': {
+      const { durationMs, inputTokens, outputTokens } = msg.resultInfo;
+      return `_${(durationMs / 1000).toFixed(1)}s · ${inputTokens} in / ${outputTokens} out tokens_`;
+    }
+
+    case 'aborted':
+      return `_Aborted (${msg.reason})_`;
+
+    case 'file_attachment':
+      return `📎 **${msg.file.filename}** (\`${msg.file.path}\`)`;
+
+    case 'user_response':
+      return `> **${msg.responseType === 'permission' ? 'Permission' : 'Answer'}**: ${msg.response}`;
+
+    case 'command_execute':
+      return `### User — ▶ ${msg.commandName}\n\n${msg.content}`;
+
+    case 'system':
+      return `_${msg.content}_`;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Markdown 문서로 렌더링
+ */
+export function renderMarkdown(source: ExportSource): string {
+  const { workspace, conversation, messages, exportedAt } = source;
+  const header = [
+    `# ${conversation.name}`,
+    '',
+    `- Workspace: ${workspace.name} (\`${workspace.workingDir}\`)`,
+    `- Agent: ${conversation.agentType}`,
+    `- Created: ${formatTimestamp(conversation.createdAt)}`,
+    `- Exported: ${formatTimestamp(exportedAt)}`,
+  ].join('\n');
+
+  const body = visibleMessages(messages)
+    .map(renderMarkdownMessage)
+    .filter((block): block is string => block !== null);
+
+  return [header, ...body].join('\n\n---\n\n') + '\n';
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 클라이언트 테마(라이트)와 ToolCard/MessageBubble 스타일을 옮겨 온 CSS
+ */
+const HTML_STYLES = `
+:root {
+  --background: hsl(40 30% 97%);
+  --foreground: hsl(30 10% 20%);
+  --card: hsl(40 25% 95%);
+  --primary: hsl(199 85% 52%);
+  --muted: hsl(35 15% 91%);
+  --muted-foreground: hsl(30 10% 45%);
+  --destructive: hsl(0 72% 51%);
+  --border: hsl(35 15% 85%);
+  --radius: 0.5rem;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0 auto; padding: 16px; max-width: 820px;
+  background: var(--background); color: var(--foreground);
+  font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", sans-serif;
+  font-size: 14px; line-height: 1.5;
+}
+header { border-bottom: 1px solid var(--border); margin-bottom: 12px; padding-bottom: 8px; }
+header h1 { font-size: 18px; margin: 0 0 4px; }
+header .meta { font-size: 12px; color: var(--muted-foreground); }
+pre, code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.msg { margin: 2px 0; padding: 6px 8px; white-space: pre-wrap; word-break: break-word; }
+.msg-user { border-left: 2px solid var(--primary); background: var(--muted); border-radius: 0 4px 4px 0; }
+.msg-assistant { border-left: 2px solid transparent; }
+.msg-error { border-left: 2px solid var(--destructive); color: var(--destructive); }
+.msg-system { color: var(--muted-foreground); font-size: 12px; text-align: center; }
+.attachments { margin-top: 4px; font-size: 12px; color: var(--muted-foreground); }
+.tool {
+  margin: 2px 0 2px 8px; max-width: 400px; overflow: hidden;
+  background: var(--card); border: 1px solid var(--border); border-left-width: 2px; border-radius: 4px;
+}
+.tool-success { border-left-color: #22c55e; }
+.tool-failure { border-left-color: #ef4444; }
+.tool-pending { border-left-color: #eab308; }
+.tool summary { cursor: pointer; padding: 4px 8px; list-style: none; }
+.tool summary::-webkit-details-marker { display: none; }
+.tool-name { font-size: 14px; font-weight: 500; }
+.tool-desc { font-size: 12px; color: var(--muted-foreground); margin-left: 6px; }
+.tool-body { border-top: 1px solid var(--border); padding: 4px 8px; font-size: 12px; }
+.tool-body .label { color: var(--muted-foreground); margin-top: 4px; }
+.tool-body pre { margin: 2px 0; white-space: pre-wrap; word-break: break-all; max-height: 320px; overflow: auto; }
+.tool-failure .tool-body pre.output { color: var(--destructive); }
+`;
+
+function renderHtmlMessage(msg: StoreMessage): string | null {
+  switch (msg.type) {
+    case 'text': {
+      if (msg.role === 'user') {
+        const attachments = msg.attachments?.length
+          ? `<div class="attachments">${msg.attachments
+              .map((a) => `📎 ${escapeHtml(a.filename)}`)
+              .join('<br>')}</div>`
+          : '';
+        return `<div class="msg msg-user">${escapeHtml(msg.content)}${attachments}</div>`;
+      }
+      return `<div class="msg msg-assistant">${escapeHtml(msg.content)}</div>`;
+    }
+
+    case 'tool_start':
+    case 'tool_complete': {
+      const state =
+        msg.type === 'tool_start' ? 'pending' : msg.success ? 'success' : 'failure';
+      const summary = summarizeToolInput(msg.toolInput);
+      const parts = [
+        `<div class="label">Input:</div><pre>${escapeHtml(JSON.stringify(msg.toolInput, null, 2))}</pre>`,
+      ];
+      if (msg.type === 'tool_complete') {
+        const output = msg.success ? msg.output : msg.error;
+        if (output) {
+          parts.push(
+            `<div class="label">${msg.success ? 'Output:' : 'Error:'}</div><pre class="output">${escapeHtml(output)}</pre>`
+          );
+        }
+      }
+      return (
+        `<details class="tool tool-${state}"><summary>` +
+        `<span class="tool-name">${escapeHtml(msg.toolName)}</span>` +
+        (summary ? `<span class="tool-desc">${escapeHtml(summary)}</span>` : '') +
+        `</summary><div class="tool-body">${parts.join('')}</div></details>`
+      );
+    }
+
+    case 'error':
+      return `<div class="msg msg-error">${escapeHtml(msg.content)}</div>`;
+
+    case 'result': {
+      const { durationMs, inputTokens, outputTokens } = msg.resultInfo;
+      return `<div class="msg msg-system">${(durationMs / 1000).toFixed(1)}s · ${inputTokens} in / ${outputTokens} out</div>`;
+    }
+
+    case 'aborted':
+      return `<div class="msg msg-system">Aborted (${escapeHtml(msg.reason)})</div>`;
+
+    case 'file_attachment':
+      return `<div class="msg msg-assistant">📎 ${escapeHtml(msg.file.filename)}</div>`;
+
+    case 'user_response':
+      return `<div class="msg msg-user">${escapeHtml(msg.response)}</div>`;
+
+    case 'command_execute':
+      return `<div class="msg msg-user">▶ ${escapeHtml(msg.commandName)}\n${escapeHtml(msg.content)}</div>`;
+
+    case 'system':
+      return `<div class="msg msg-system">${escapeHtml(msg.content)}</div>`;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * 단일 HTML 페이지로 렌더링 (외부 리소스 없음)
+ */
+export function renderHtml(source: ExportSource): string {
+  const { workspace, conversation, messages, exportedAt } = source;
+  const body = visibleMessages(messages)
+    .map(renderHtmlMessage)
+    .filter((block): block is string => block !== null)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.name)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(conversation.name)}</h1>
+<div class="meta">${escapeHtml(workspace.name)} · ${escapeHtml(conversation.agentType)} · exported ${formatTimestamp(exportedAt)}</div>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// JSON 아카이브
+// ============================================================================
+
+/**
+ * 메시지가 참조하는 첨부 파일 수집 (경로 기준 중복 제거)
+ */
+function collectAttachments(
+  messages: StoreMessage[]
+): Array<{ path: string; filename: string; mimeType?: string }> {
+  const found = new Map<string, { path: string; filename: string; mimeType?: string }>();
+  for (const msg of messages) {
+    if (msg.type === 'text' && msg.role === 'user' && msg.attachments) {
+      for (const a of msg.attachments) {
+        if (!found.has(a.path)) found.set(a.path, { path: a.path, filename: a.filename });
+      }
+    } else if (msg.type === 'file_attachment') {
+      const { path, filename, mimeType } = msg.file;
+      if (!found.has(path)) found.set(path, { path, filename, mimeType });
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * JSON 아카이브 생성
+ *
+ * @param source - 내보내기 대상
+ * @param readAttachment - 첨부 파일 읽기 함수 (읽을 수 없는 파일은 제외)
+ */
+export function buildArchive(
+  source: ExportSource,
+  readAttachment: AttachmentReader
+): ConversationArchive {
+  const { workspace, conversation, exportedAt } = source;
+  const messages = visibleMessages(source.messages);
+
+  const attachments: ArchiveAttachment[] = [];
+  for (const { path, filename, mimeType } of collectAttachments(messages)) {
+    const data = readAttachment(path);
+    if (!data) continue;
+    attachments.push({
+      path,
+      filename,
+      ...(mimeType && { mimeType }),
+      data: data.toString('base64'),
+    });
+  }
+
+  return {
+    format: CONVERSATION_ARCHIVE_FORMAT,
+    version: CONVERSATION_ARCHIVE_VERSION,
+    exportedAt,
+    workspace: { name: workspace.name, workingDir: workspace.workingDir },
+    conversation: {
+      name: conversation.name,
+      agentType: conversation.agentType,
+      agentSessionId: conversation.claudeSessionId,
+      permissionMode: conversation.permissionMode,
+      createdAt: conversation.createdAt,
+      ...(conversation.customSystemPrompt && { customSystemPrompt: conversation.customSystemPrompt }),
+      ...(conversation.linkedDocuments?.length ? { linkedDocuments: conversation.linkedDocuments } : {}),
+    },
+    messages,
+    attachments,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * ConversationFork - 대화 분기 유틸
+ *
+ * 대화를 특정 메시지에서 분기할 때 사용하는 순수 함수들.
+ * - selectForkPrefix: 분기 지점까지의 메시지 선택
+ * - findTranscriptForkPoint: 분기 지점 메시지에 대응하는 트랜스크립트 assistant 줄 UUID 탐색 (내용 + 시각)
+ *
+ * @module utils/conversation-fork
+ */
+
+import type { AssistantTextMessage, StoreMessage } from '@estelle/core';
+import { readClaudeTranscript } from './conversation-import.js';
+
+/**
+ * assistant 텍스트 메시지 여부
+ */
+function isAssistantText(msg: StoreMessage): boolean {
+  return msg.role === 'assistant' && msg.type === 'text';
+}
+
+/**
+ * 분기 지점까지의 메시지 선택
+ *
+ * @param messages - 원본 대화의 전체 메시지 (시간순)
+ * @param messageId - 분기 지점 메시지 ID (assistant 텍스트 메시지)
+ * @returns 분기 지점까지의 메시지 (임시 메시지 제외), 분기할 수 없는 지점이면 null
+ */
+export function selectForkPrefix(messages: StoreMessage[], messageId: string): StoreMessage[] | null {
+  const index = messages.findIndex((m) => m.id === messageId);
+  if (index < 0 || !isAssistantText(messages[index])) return null;
+
+  return messages.slice(0, index + 1).filter((m) => !m.temporary);
+}
+
+/**
+ * 트랜스크립트에서 분기 지점 찾기
+ *
+ * @description
+ * 저장된 메시지와 트랜스크립트 줄은 ID로 연결되지 않고,
+ * 저장소는 보관 정책(maxMessages)으로 앞부분이 잘릴 수 있어 위치로는 맞출 수 없습니다.
+ * 분기 지점 assistant 텍스트와 내용이 같은 트랜스크립트 assistant 줄을 찾고,
+ * 여럿이면 시각(timestamp)이 가장 가까운 줄의 UUID를 반환합니다.
+ * (SDK resumeSessionAt에 전달)
+ *
+ * @param transcript - 원본 세션 트랜스크립트 내용
+ * @param prefix - 분기 지점까지의 메시지 (마지막이 assistant 텍스트)
+ * @returns assistant 줄 UUID, 찾지 못하면 null
+ */
+export function findTranscriptForkPoint(transcript: string, prefix: StoreMessage[]): string | null {
+  const last = prefix[prefix.length - 1];
+  if (!last || !isAssistantText(last)) return null;
+
+  const content = (last as AssistantTextMessage).content.trim();
+  const { messages, entryUuids } = readClaudeTranscript(transcript);
+
+  let best: { uuid: string; distance: number } | null = null;
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    const uuid = entryUuids[i];
+    if (!uuid || !isAssistantText(msg) || (msg as AssistantTextMessage).content.trim() !== content) continue;
+
+    const distance = Math.abs(msg.timestamp - last.timestamp);
+    if (!best || distance < best.distance) {
+      best = { uuid, distance };
+    }
+  }
+
+  return best?.uuid ?? null;
+}
@@ -0,0 +1,379 @@
+/**
+ * ConversationImport - 대화 가져오기 파서
+ *
+ * 외부 파일을 저장 가능한 메시지(StoreMessage) 목록으로 변환하는 순수 함수들.
+ * - parseConversationFile: 형식 자동 감지 (Estelle JSON 아카이브 / Claude Code 트랜스크립트)
+ * - parseClaudeTranscript: ~/.claude/projects/*.jsonl 트랜스크립트 변환
+ * - readClaudeTranscript: 트랜스크립트 변환 + 메시지별 원본 줄 UUID (세션 분기 지점 탐색용)
+ * - remapAttachmentPaths: 복원한 첨부 파일 경로로 메시지 갱신
+ * - getClaudeProjectDirName: 작업 디렉토리 → Claude Code 프로젝트 폴더명
+ *
+ * @module utils/conversation-import
+ */
+
+import {
+  isConversationArchive,
+  type AgentType,
+  type ArchiveAttachment,
+  type ImportSource,
+  type LinkedDocument,
+  type PermissionModeValue,
+  type StoreMessage,
+  type ToolStartMessage,
+} from '@estelle/core';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 가져오기 파일 파싱 결과
+ */
+export interface ParsedConversation {
+  /** 원본 형식 */
+  source: ImportSource;
+  /** 원본에서 추출한 대화 이름 (없으면 null) */
+  name: string | null;
+  /** 에이전트 타입 */
+  agentType: AgentType;
+  /** 원본 에이전트 세션 ID (없으면 null) */
+  agentSessionId: string | null;
+  /** 권한 모드 (아카이브만) */
+  permissionMode?: PermissionModeValue;
+  /** 커스텀 시스템 프롬프트 (아카이브만) */
+  customSystemPrompt?: string;
+  /** 연결된 문서 (아카이브만) */
+  linkedDocuments?: LinkedDocument[];
+  /** 메시지 목록 (시간순) */
+  messages: StoreMessage[];
+  /** 첨부 파일 (아카이브만) */
+  attachments: ArchiveAttachment[];
+}
+
+/**
+ * 트랜스크립트 대화 이름 최대 길이 (첫 사용자 메시지에서 추출 시)
+ */
+const TRANSCRIPT_NAME_MAX_LENGTH = 40;
+
+/**
+ * Claude Code 트랜스크립트 한 줄 (필요한 필드만)
+ */
+interface TranscriptEntry {
+  type?: string;
+  uuid?: string;
+  sessionId?: string;
+  timestamp?: string;
+  isMeta?: boolean;
+  isSidechain?: boolean;
+  isCompactSummary?: boolean;
+  summary?: string;
+  message?: {
+    role?: string;
+    content?: string | TranscriptContentBlock[];
+  };
+}
+
+/**
+ * 트랜스크립트 메시지 content 블록
+ */
+interface TranscriptContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+/**
+ * 트랜스크립트 변환 결과 (메시지별 원본 줄 UUID 포함)
+ */
+export interface TranscriptReadResult {
+  /** 변환된 메시지 (시간순) */
+  messages: StoreMessage[];
+  /** messages와 같은 순서의 원본 줄 UUID (tool_complete는 tool_use 줄) */
+  entryUuids: Array<string | null>;
+  /** 첫 줄의 세션 ID */
+  sessionId: string | null;
+  /** summary 줄의 요약 (대화 이름 후보) */
+  summary: string | null;
+}
+
+// ============================================================================
+// 형식 감지
+// ============================================================================
+
+/**
+ * 가져오기 파일 파싱 (형식 자동 감지)
+ *
+ * @param content - 파일 내용 (UTF-8)
+ * @returns 파싱 결과
+ * @throws 지원하지 않는 형식이거나 메시지가 없으면 Error
+ */
+export function parseConversationFile(content: string): ParsedConversation {
+  const trimmed = content.trim();
+
+  // JSON 아카이브 (파일 전체가 format 필드를 가진 하나의 JSON 객체)
+  // 한 줄짜리 트랜스크립트도 JSON 객체이므로 format 필드로 구분
+  if (trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      parsed = undefined;
+    }
+    if (typeof parsed === 'object' && parsed !== null && 'format' in parsed) {
+      if (!isConversationArchive(parsed)) {
+        throw new Error('Unsupported archive format or version');
+      }
+      const { conversation } = parsed;
+      return {
+        source: 'archive',
+        name: conversation.name || null,
+        agentType: conversation.agentType ?? 'claude',
+        agentSessionId: conversation.agentSessionId ?? null,
+        permissionMode: conversation.permissionMode,
+        ...(conversation.customSystemPrompt && { customSystemPrompt: conversation.customSystemPrompt }),
+        ...(conversation.linkedDocuments?.length ? { linkedDocuments: conversation.linkedDocuments } : {}),
+        messages: parsed.messages,
+        attachments: parsed.attachments ?? [],
+      };
+    }
+  }
+
+  // JSONL 트랜스크립트
+  return parseClaudeTranscript(content);
+}
+
+// ============================================================================
+// Claude Code 트랜스크립트
+// ============================================================================
+
+/**
+ * tool_result content를 문자열로 변환
+ */
+function toolResultText(content: TranscriptContentBlock['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+/**
+ * CLI 내부용 사용자 메시지 여부 (슬래시 명령 실행 기록 등)
+ */
+function isCliInternalText(text: string): boolean {
+  return /^<(command-name|command-message|local-command-stdout|local-command-stderr)>/.test(text.trim());
+}
+
+/**
+ * system-reminder 블록 제거
+ *
+ * Pylon이 프롬프트 앞에 붙이는 리마인더와 리마인더만 있는 프롬프트
+ * (대화 시작/이름 변경/문서 연결 알림)는 사용자 메시지로 보지 않습니다.
+ */
+function stripSystemReminders(text: string): string {
+  return text.replace(/<system-reminder>[\s\S]*?<\/system-reminder>/g, '').trim();
+}
+
+/**
+ * Claude Code 트랜스크립트(JSONL) 변환
+ *
+ * @description
+ * - user/assistant 줄만 사용하고, 서브에이전트(isSidechain), 메타(isMeta),
+ *   압축 요약(isCompactSummary) 줄은 건너뜁니다.
+ * - 사용자 텍스트의 system-reminder 블록은 제거합니다.
+ * - tool_use는 tool_start로, 이후 도착한 tool_result는 해당 tool_start를 tool_complete로 바꿉니다.
+ * - thinking, image 블록은 가져오지 않습니다.
+ * - 같은 시각의 메시지 순서를 보존하도록 timestamp를 1ms씩 증가시킵니다.
+ *
+ * @param content - 트랜스크립트 파일 내용
+ * @throws 트랜스크립트가 아니거나 메시지가 없으면 Error
+ */
+export function parseClaudeTranscript(content: string): ParsedConversation {
+  const { messages, sessionId, summary } = readClaudeTranscript(content);
+
+  if (messages.length === 0) {
+    throw new Error('No conversation messages found');
+  }
+
+  const firstUser = messages.find((m) => m.type === 'text' && m.role === 'user');
+  const fallbackName =
+    firstUser && firstUser.type === 'text'
+      ? firstUser.content.split('\n')[0].trim().slice(0, TRANSCRIPT_NAME_MAX_LENGTH)
+      : null;
+
+  return {
+    source: 'claude-transcript',
+    name: summary || fallbackName || null,
+    agentType: 'claude',
+    agentSessionId: sessionId,
+    messages,
+    attachments: [],
+  };
+}
+
+/**
+ * Claude Code 트랜스크립트(JSONL) 읽기
+ *
+ * parseClaudeTranscript와 같은 규칙으로 변환하고, 메시지마다 원본 줄의 UUID를 함께 반환합니다.
+ * 메시지가 없어도 에러를 던지지 않습니다.
+ *
+ * @param content - 트랜스크립트 파일 내용
+ */
+export function readClaudeTranscript(content: string): TranscriptReadResult {
+  const entries: TranscriptEntry[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry === 'object' && entry !== null) entries.push(entry);
+    } catch {
+      // 깨진 줄은 건너뜀
+    }
+  }
+
+  const messages: StoreMessage[] = [];
+  const entryUuids: Array<string | null> = [];
+  const toolIndexById = new Map<string, number>();
+  let sessionId: string | null = null;
+  let summary: string | null = null;
+  let lastTimestamp = 0;
+  let seq = 0;
+
+  const nextTimestamp = (entry: TranscriptEntry): number => {
+    const parsed = entry.timestamp ? Date.parse(entry.timestamp) : NaN;
+    lastTimestamp = Number.isNaN(parsed) ? lastTimestamp + 1 : Math.max(parsed, lastTimestamp + 1);
+    return lastTimestamp;
+  };
+  const nextId = (): string => `import_${seq++}`;
+
+  for (const entry of entries) {
+    if (entry.type === 'summary' && typeof entry.summary === 'string') {
+      summary = entry.summary;
+      continue;
+    }
+    if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+    if (entry.isSidechain || entry.isMeta || entry.isCompactSummary || !entry.message) continue;
+
+    if (!sessionId && typeof entry.sessionId === 'string') {
+      sessionId = entry.sessionId;
+    }
+
+    const uuid = typeof entry.uuid === 'string' ? entry.uuid : null;
+    const raw = entry.message.content;
+    const blocks: TranscriptContentBlock[] =
+      typeof raw === 'string' ? [{ type: 'text', text: raw }] : Array.isArray(raw) ? raw : [];
+
+    if (entry.type === 'user') {
+      const texts: string[] = [];
+      for (const block of blocks) {
+        if (block.type === 'text' && block.text && !isCliInternalText(block.text)) {
+          const text = stripSystemReminders(block.text);
+          if (text) texts.push(text);
+        } else if (block.type === 'tool_result' && block.tool_use_id) {
+          const index = toolIndexById.get(block.tool_use_id);
+          if (index === undefined) continue;
+          const start = messages[index] as ToolStartMessage;
+          const text = toolResultText(block.content);
+          messages[index] = {
+            id: start.id,
+            timestamp: start.timestamp,
+            role: 'assistant',
+            type: 'tool_complete',
+            toolName: start.toolName,
+            toolInput: start.toolInput,
+            success: !block.is_error,
+            ...(block.is_error ? { error: text } : { output: text }),
+          };
+          toolIndexById.delete(block.tool_use_id);
+        }
+      }
+      if (texts.length > 0) {
+        messages.push({
+          id: nextId(),
+          timestamp: nextTimestamp(entry),
+          role: 'user',
+          type: 'text',
+          content: texts.join('\n\n'),
+        });
+        entryUuids.push(uuid);
+      }
+      continue;
+    }
+
+    // assistant
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text?.trim()) {
+        messages.push({
+          id: nextId(),
+          timestamp: nextTimestamp(entry),
+          role: 'assistant',
+          type: 'text',
+          content: block.text,
+        });
+        entryUuids.push(uuid);
+      } else if (block.type === 'tool_use' && block.name) {
+        if (block.id) toolIndexById.set(block.id, messages.length);
+        messages.push({
+          id: nextId(),
+          timestamp: nextTimestamp(entry),
+          role: 'assistant',
+          type: 'tool_start',
+          toolName: block.name,
+          toolInput: block.input ?? {},
+        });
+        entryUuids.push(uuid);
+      }
+    }
+  }
+
+  return { messages, entryUuids, sessionId, summary };
+}
+
+// ============================================================================
+// 첨부 파일 / 세션 경로
+// ============================================================================
+
+/**
+ * 메시지의 첨부 파일 경로를 복원된 경로로 변경
+ *
+ * @param messages - 메시지 목록
+ * @param pathMap - 원본 경로 → 복원된 경로
+ * @returns 경로가 바뀐 새 메시지 목록 (매핑이 없는 경로는 그대로)
+ */
+export function remapAttachmentPaths(
+  messages: StoreMessage[],
+  pathMap: Map<string, string>
+): StoreMessage[] {
+  if (pathMap.size === 0) return messages;
+
+  return messages.map((msg) => {
+    if (msg.type === 'text' && msg.role === 'user' && msg.attachments) {
+      return {
+        ...msg,
+        attachments: msg.attachments.map((a) => ({ ...a, path: pathMap.get(a.path) ?? a.path })),
+      };
+    }
+    if (msg.type === 'file_attachment') {
+      return { ...msg, file: { ...msg.file, path: pathMap.get(msg.file.path) ?? msg.file.path } };
+    }
+    return msg;
+  });
+}
+
+/**
+ * Claude Code 프로젝트 폴더명 (~/.claude/projects/{이름})
+ *
+ * Claude Code는 작업 디렉토리의 영숫자가 아닌 문자를 '-'로 바꾼 이름으로
+ * 세션 트랜스크립트를 저장합니다. 세션 재개 시 이 폴더에서 세션 파일을 찾습니다.
+ *
+ * @param workingDir - 작업 디렉토리
+ */
+export function getClaudeProjectDirName(workingDir: string): string {
+  return workingDir.replace(/[^a-zA-Z0-9]/g, '-');
+}
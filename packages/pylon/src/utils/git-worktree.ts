@@ -0,0 +1,161 @@
+/**
+ * git worktree 유틸리티
+ *
+ * 워크스페이스 workingDir(git 리포지터리)의 worktree를 만들어
+ * 여러 Claude 세션이 같은 체크아웃을 건드리지 않고 병렬로 작업하게 합니다.
+ *
+ * worktree는 리포지터리 옆 `<폴더명>.worktrees/<이름>`에 만들고,
+ * 브랜치는 `estelle/<이름>`을 씁니다.
+ *
+ * 대화 전용 worktree를 정리할 때는 남은 변경 커밋 → (병합) → worktree 삭제 순으로 씁니다.
+ *
+ * @module utils/git-worktree
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/** worktree 브랜치 접두사 */
+export const WORKTREE_BRANCH_PREFIX = 'estelle/';
+
+/** git 명령 타임아웃 (ms) */
+const GIT_TIMEOUT_MS = 30000;
+
+/**
+ * worktree 경로 계산
+ *
+ * @param workingDir - 원본 리포지터리 경로
+ * @param name - worktree 이름 (브랜치 이름에도 사용)
+ * @returns `<workingDir의 부모>/<폴더명>.worktrees/<name>`
+ */
+export function getWorktreePath(workingDir: string, name: string): string {
+  const resolved = path.resolve(workingDir);
+  return path.join(path.dirname(resolved), `${path.basename(resolved)}.worktrees`, name);
+}
+
+/**
+ * worktree 생성
+ *
+ * @description
+ * 현재 HEAD에서 `estelle/<name>` 브랜치를 만들어 worktree로 체크아웃합니다.
+ * 같은 경로에 이미 worktree가 있으면 그대로 재사용합니다.
+ * options.reset이면 남아 있던 worktree를 지우고 HEAD에서 새로 만듭니다. (재시도하는 태스크 등)
+ *
+ * @param workingDir - 원본 리포지터리 경로
+ * @param name - worktree 이름
+ * @param options.reset - 기존 worktree를 버리고 새로 만들지 여부
+ * @returns 생성(또는 재사용)한 worktree 경로
+ * @throws git 리포지터리가 아니거나 git 명령이 실패하면 에러
+ */
+export async function createWorktree(
+  workingDir: string,
+  name: string,
+  options: { reset?: boolean } = {}
+): Promise<string> {
+  const worktreePath = getWorktreePath(workingDir, name);
+  if (fs.existsSync(worktreePath)) {
+    if (!options.reset) {
+      return worktreePath;
+    }
+    await runGit(workingDir, ['worktree', 'remove', '--force', worktreePath], 'git worktree 생성 실패');
+  }
+
+  try {
+    await execFileAsync(
+      'git',
+      ['worktree', 'add', '-B', `${WORKTREE_BRANCH_PREFIX}${name}`, worktreePath, 'HEAD'],
+      { cwd: workingDir, timeout: GIT_TIMEOUT_MS }
+    );
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git worktree 생성 실패: ${stderr || (err as Error).message}`);
+  }
+
+  return worktreePath;
+}
+
+/**
+ * git 명령 실행 (실패하면 stderr를 담은 에러)
+ */
+async function runGit(cwd: string, args: string[], failMessage: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: GIT_TIMEOUT_MS });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`${failMessage}: ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * worktree에 남은 변경 커밋
+ *
+ * @description
+ * untracked 파일까지 모두 worktree 브랜치에 커밋합니다. 변경이 없으면 아무것도 하지 않습니다.
+ *
+ * @param worktreePath - worktree 경로
+ * @param message - 커밋 메시지
+ * @returns 커밋했으면 true
+ * @throws git 명령이 실패하면 에러
+ */
+export async function commitWorktreeChanges(worktreePath: string, message: string): Promise<boolean> {
+  const status = await runGit(worktreePath, ['status', '--porcelain'], 'git worktree 커밋 실패');
+  if (!status.trim()) {
+    return false;
+  }
+
+  await runGit(worktreePath, ['add', '-A'], 'git worktree 커밋 실패');
+  await runGit(worktreePath, ['commit', '-q', '-m', message], 'git worktree 커밋 실패');
+  return true;
+}
+
+/**
+ * worktree 브랜치를 원본 체크아웃에 병합
+ *
+ * @description
+ * `git merge --no-ff`로 병합합니다. 충돌 등으로 실패하면 병합을 취소해
+ * 원본 체크아웃을 병합 전 상태로 되돌린 뒤 에러를 던집니다.
+ *
+ * @param workingDir - 원본 리포지터리 경로
+ * @param branch - 병합할 브랜치
+ * @throws 병합에 실패하면 에러
+ */
+export async function mergeWorktree(workingDir: string, branch: string): Promise<void> {
+  try {
+    await runGit(workingDir, ['merge', '--no-ff', '--no-edit', branch], 'git worktree 병합 실패');
+  } catch (err) {
+    await execFileAsync('git', ['merge', '--abort'], { cwd: workingDir, timeout: GIT_TIMEOUT_MS }).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * worktree 삭제
+ *
+ * @description
+ * 변경이 남아 있어도 강제로 지웁니다. 폴더가 이미 없으면 worktree 목록만 정리합니다.
+ *
+ * @param workingDir - 원본 리포지터리 경로
+ * @param worktreePath - 삭제할 worktree 경로
+ * @param branchToDelete - 함께 삭제할 브랜치 (생략하면 브랜치는 남김)
+ * @throws git 명령이 실패하면 에러
+ */
+export async function removeWorktree(
+  workingDir: string,
+  worktreePath: string,
+  branchToDelete?: string
+): Promise<void> {
+  if (fs.existsSync(worktreePath)) {
+    await runGit(workingDir, ['worktree', 'remove', '--force', worktreePath], 'git worktree 삭제 실패');
+  } else {
+    await runGit(workingDir, ['worktree', 'prune'], 'git worktree 삭제 실패');
+  }
+
+  if (branchToDelete) {
+    await runGit(workingDir, ['branch', '-D', branchToDelete], 'git worktree 삭제 실패');
+  }
+}
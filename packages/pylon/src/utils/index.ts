@@ -32,6 +32,7 @@ export {
   buildDocumentAddedReminder,
   buildDocumentRemovedReminder,
   buildConversationRenamedReminder,
+  buildForkHistoryReminder,
 } from './session-context.js';
 
 // Frontmatter - YAML frontmatter 파서
@@ -42,3 +43,36 @@ export { findAutorunDoc } from './autorun-detector.js';
 
 // WidgetLogger - 위젯 세션 로깅
 export { WidgetLogger } from './widget-logger.js';
+
+// ConversationExport - 대화 내보내기 렌더러
+export {
+  buildExportFilename,
+  renderMarkdown,
+  renderHtml,
+  buildArchive,
+  EXPORT_MIME_TYPES,
+} from './conversation-export.js';
+export type { ExportSource, AttachmentReader } from './conversation-export.js';
+
+// ConversationImport - 대화 가져오기 파서
+export {
+  parseConversationFile,
+  parseClaudeTranscript,
+  readClaudeTranscript,
+  remapAttachmentPaths,
+  getClaudeProjectDirName,
+} from './conversation-import.js';
+export type { ParsedConversation, TranscriptReadResult } from './conversation-import.js';
+
+// ConversationFork - 대화 분기 지점 탐색
+export { selectForkPrefix, findTranscriptForkPoint } from './conversation-fork.js';
+
+// GitWorktree - 워커/대화용 git worktree
+export {
+  createWorktree,
+  getWorktreePath,
+  commitWorktreeChanges,
+  mergeWorktree,
+  removeWorktree,
+  WORKTREE_BRANCH_PREFIX,
+} from './git-worktree.js';
@@ -7,10 +7,13 @@
  * - buildDocumentAddedReminder: 문서 추가 알림
  * - buildDocumentRemovedReminder: 문서 제거 알림
  * - buildConversationRenamedReminder: 대화명 변경 알림
+ * - buildForkHistoryReminder: 분기 대화의 이전 대화 내용
  *
  * @module utils/session-context
  */
 
+import type { StoreMessage } from '@estelle/core';
+
 /**
  * 환경 정보를 포함한 시스템 프롬프트를 빌드합니다.
  *
@@ -96,6 +99,36 @@ export function buildConversationRenamedReminder(
   return wrapInSystemReminder(content);
 }
 
+/**
+ * 분기 대화의 이전 대화 내용 알림을 빌드합니다.
+ *
+ * @description
+ * 원본 세션을 이어갈 수 없는 분기 대화(Codex, 트랜스크립트 없음 등)의
+ * 첫 메시지에 붙여 분기 지점까지의 대화를 새 세션에 전달합니다.
+ * 텍스트와 도구 이름만 포함하고 도구 출력은 생략합니다.
+ *
+ * @param messages - 분기 지점까지의 메시지 목록
+ * @returns system-reminder 태그로 감싸진 대화 내용 문자열
+ */
+export function buildForkHistoryReminder(messages: StoreMessage[]): string {
+  const lines: string[] = [];
+
+  for (const msg of messages) {
+    if (msg.type === 'text' || msg.type === 'command_execute') {
+      lines.push(`[${msg.role === 'user' ? '사용자' : '어시스턴트'}] ${msg.content}`);
+    } else if (msg.type === 'tool_start' || msg.type === 'tool_complete') {
+      const { description, command, file_path } = msg.toolInput as Record<string, unknown>;
+      const detail = [description, command, file_path].find((v) => typeof v === 'string');
+      lines.push(`[도구] ${msg.toolName}${detail ? `: ${detail}` : ''}`);
+    }
+  }
+
+  const content = `이 대화는 다른 대화에서 분기되었습니다. 분기 지점까지의 대화 내용:
+
+${lines.join('\n\n')}`;
+  return wrapInSystemReminder(content);
+}
+
 /**
  * 내용을 system-reminder 태그로 감쌉니다.
  *
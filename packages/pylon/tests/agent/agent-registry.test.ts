@@ -0,0 +1,115 @@
+/**
+ * @file agent-registry.test.ts
+ * @description AgentRegistry 테스트
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgentRegistry, validateAgentConfig, type AgentAdapterFactory } from '../../src/agent/agent-registry.js';
+import type { AgentAdapter } from '../../src/agent/agent-manager.js';
+
+function createAdapter(): AgentAdapter {
+  return {
+    async *query() {
+      // 메시지 없음
+    },
+  };
+}
+
+describe('AgentRegistry', () => {
+  let registry: AgentRegistry;
+  let created: Array<{ name: string; config: Record<string, unknown> }>;
+
+  const factory: AgentAdapterFactory = {
+    kind: 'test-api',
+    configSchema: {
+      baseUrl: { type: 'string', required: true, description: 'API URL' },
+      model: { type: 'string', description: 'Model name' },
+      maxTurns: { type: 'number', description: 'Max turns' },
+    },
+    create(name, config) {
+      created.push({ name, config });
+      return createAdapter();
+    },
+  };
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+    created = [];
+    registry.registerFactory(factory);
+  });
+
+  it('should register adapters and list them in order', () => {
+    const claude = createAdapter();
+    registry.register('claude', claude, { label: 'Claude', adapter: 'claude' });
+    registry.register('codex', createAdapter(), { label: 'Codex', adapter: 'codex' });
+
+    expect(registry.get('claude')).toBe(claude);
+    expect(registry.has('codex')).toBe(true);
+    expect(registry.get('gemini')).toBeNull();
+    expect(registry.list()).toEqual([
+      { name: 'claude', label: 'Claude', adapter: 'claude' },
+      { name: 'codex', label: 'Codex', adapter: 'codex' },
+    ]);
+  });
+
+  it('should reject invalid agent names', () => {
+    expect(() => registry.register('Bad Name', createAdapter(), { label: 'x', adapter: 'x' })).toThrow(
+      'Invalid agent name'
+    );
+    expect(registry.configure('../etc', { adapter: 'test-api', baseUrl: 'http://x' })).toEqual([
+      'Invalid agent name: ../etc',
+    ]);
+  });
+
+  it('should create agents from config through the factory', () => {
+    const errors = registry.configure('local-llama', {
+      adapter: 'test-api',
+      label: 'Local Llama',
+      baseUrl: 'http://localhost:8080/v1',
+      model: 'qwen',
+    });
+
+    expect(errors).toEqual([]);
+    expect(created).toEqual([
+      { name: 'local-llama', config: { baseUrl: 'http://localhost:8080/v1', model: 'qwen' } },
+    ]);
+    expect(registry.list()).toEqual([
+      { name: 'local-llama', label: 'Local Llama', adapter: 'test-api', model: 'qwen' },
+    ]);
+  });
+
+  it('should report config errors and skip the agent', () => {
+    expect(registry.configure('a', { adapter: 'unknown' })).toEqual(["a: unknown adapter 'unknown'"]);
+    expect(registry.configure('b', 'not-an-object')).toEqual(['b: config must be an object']);
+    expect(registry.configure('c', { adapter: 'test-api', maxTurns: 'many', extra: 1 })).toEqual([
+      "c: 'baseUrl' is required (API URL)",
+      "c: 'maxTurns' must be a number",
+      "c: unknown field 'extra'",
+    ]);
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('should configure all agents and keep the valid ones', () => {
+    const errors = registry.configureAll({
+      good: { adapter: 'test-api', baseUrl: 'http://x' },
+      bad: { adapter: 'test-api' },
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(registry.list().map((agent) => agent.name)).toEqual(['good']);
+    expect(registry.list()[0].label).toBe('good');
+  });
+
+  it('should expose factory config schema', () => {
+    expect(registry.getConfigSchema('test-api')).toBe(factory.configSchema);
+    expect(registry.getConfigSchema('unknown')).toBeNull();
+  });
+});
+
+describe('validateAgentConfig', () => {
+  it('should accept optional fields when missing', () => {
+    expect(
+      validateAgentConfig({ a: { type: 'boolean', description: 'flag' } }, {})
+    ).toEqual([]);
+  });
+});
@@ -14,7 +14,9 @@ import {
   type AgentAdapter,
   type AgentQueryOptions,
   type AgentMessage,
+  type PermissionDecisionRecord,
 } from '../../src/agent/agent-manager.js';
+import { AgentRegistry } from '../../src/agent/agent-registry.js';
 import { PermissionMode } from '@estelle/core';
 
 describe('AgentManager', () => {
@@ -705,6 +707,38 @@ describe('AgentManager', () => {
 
       expect(manager.getPendingEvent('session-1')).toBeNull();
     });
+
+    it('should resolve only after the stopped run ends', async () => {
+      let finishQuery!: () => void;
+      const queryEnded = new Promise<void>((resolve) => {
+        finishQuery = resolve;
+      });
+      manager = createManager({
+        adapter: {
+          async *query() {
+            // abort 뒤에도 어댑터가 잠시 더 도는 경우
+            await queryEnded;
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      const sending = manager.sendMessage(1, 'Hello', { workingDir: '/project' });
+      await vi.waitFor(() => expect(manager.hasActiveSession(1)).toBe(true));
+
+      let stopped = false;
+      const stopping = manager.stop(1).then(() => {
+        stopped = true;
+      });
+      expect(events).toContainEqual({ sessionId: 1, event: { type: 'state', state: 'idle' } });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(stopped).toBe(false);
+
+      finishQuery();
+      await stopping;
+      await sending;
+      await expect(manager.waitForIdle(1)).resolves.toBeUndefined();
+    });
   });
 
   // ============================================================================
@@ -1161,6 +1195,164 @@ describe('AgentManager', () => {
       expect(canUseToolCalled).toBe(true);
       expect(usedMode).toBe(PermissionMode.BYPASS);
     });
+
+    it('should apply workspace permission rules', async () => {
+      let result: unknown = null;
+
+      manager = createManager({
+        getPermissionPolicy: () => ({
+          rules: [{ id: 'rule_1', toolName: 'Bash', pattern: 'pnpm test*', action: 'allow' }],
+          workingDir: '/project',
+        }),
+        adapter: {
+          async *query(options) {
+            if (options.canUseTool) {
+              result = await options.canUseTool('Bash', { command: 'pnpm test' });
+            }
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Hello', {
+        workingDir: '/project',
+      });
+
+      expect(result).toEqual({ behavior: 'allow', updatedInput: { command: 'pnpm test' } });
+    });
+
+    it('should check location rules against the session working directory', async () => {
+      let result: unknown = null;
+
+      manager = createManager({
+        getPermissionPolicy: () => ({
+          rules: [{ id: 'rule_1', toolName: 'Edit', location: 'inside', action: 'allow' }],
+          workingDir: '/project',
+        }),
+        adapter: {
+          async *query(options) {
+            if (options.canUseTool) {
+              result = await options.canUseTool('Edit', { file_path: '/project.worktrees/task-1/main.ts' });
+            }
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Hello', {
+        workingDir: '/project.worktrees/task-1',
+      });
+
+      expect(result).toEqual({
+        behavior: 'allow',
+        updatedInput: { file_path: '/project.worktrees/task-1/main.ts' },
+      });
+    });
+
+    it('should report auto decisions to onPermissionDecision', async () => {
+      const decisions: Array<{ sessionId: number; record: PermissionDecisionRecord }> = [];
+
+      manager = createManager({
+        getPermissionMode: () => PermissionMode.BYPASS,
+        onPermissionDecision: (sessionId, record) => decisions.push({ sessionId, record }),
+        adapter: {
+          async *query(options) {
+            if (options.canUseTool) {
+              await options.canUseTool('Edit', { file_path: '/main.ts' });
+            }
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      await manager.sendMessage(1, 'Hello', { workingDir: '/project' });
+
+      expect(decisions).toEqual([
+        {
+          sessionId: 1,
+          record: {
+            toolName: 'Edit',
+            input: { file_path: '/main.ts' },
+            decision: 'auto_allow',
+            reason: 'bypassPermissions mode',
+            permissionMode: PermissionMode.BYPASS,
+          },
+        },
+      ]);
+    });
+
+    it('should report user decisions with decider and wait time', async () => {
+      const decisions: PermissionDecisionRecord[] = [];
+
+      manager = createManager({
+        onPermissionDecision: (_sessionId, record) => decisions.push(record),
+        adapter: {
+          async *query(options) {
+            if (options.canUseTool) {
+              await options.canUseTool('Bash', { command: 'rm -rf dist' });
+            }
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      const sending = manager.sendMessage(1, 'Hello', { workingDir: '/project' });
+      await vi.waitFor(() => expect(manager.getPendingEvent(1)).not.toBeNull());
+
+      const pending = manager.getPendingEvent(1) as { toolUseId: string };
+      manager.respondPermission(1, pending.toolUseId, 'allow', { deviceId: 100, name: 'MacBook' });
+      await sending;
+
+      expect(decisions).toHaveLength(1);
+      expect(decisions[0]).toMatchObject({
+        toolName: 'Bash',
+        input: { command: 'rm -rf dist' },
+        decision: 'user_allow',
+        reason: 'allow',
+        permissionMode: PermissionMode.DEFAULT,
+        decidedBy: { deviceId: 100, name: 'MacBook' },
+      });
+      expect(decisions[0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should look up each pending permission by toolUseId', async () => {
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            if (options.canUseTool) {
+              await Promise.all([
+                options.canUseTool('Bash', { command: 'pnpm test' }),
+                options.canUseTool('Bash', { command: 'rm -rf dist' }),
+              ]);
+            }
+            yield { type: 'system', subtype: 'init', session_id: 'sess-1' };
+          },
+        },
+      });
+
+      const sending = manager.sendMessage(1, 'Hello', { workingDir: '/project' });
+      const permissionRequests = () =>
+        events
+          .map(({ event }) => event as { type: string; toolUseId: string; toolInput: Record<string, unknown> })
+          .filter((event) => event.type === 'permission_request');
+      await vi.waitFor(() => expect(permissionRequests()).toHaveLength(2));
+      const requests = permissionRequests();
+
+      for (const request of requests) {
+        expect(manager.getPendingPermission(request.toolUseId)).toEqual({
+          sessionId: 1,
+          toolName: 'Bash',
+          input: request.toolInput,
+        });
+      }
+
+      for (const request of requests) {
+        manager.respondPermission(1, request.toolUseId, 'deny');
+      }
+      await sending;
+
+      expect(manager.getPendingPermission(requests[0].toolUseId)).toBeNull();
+    });
   });
 
   // ============================================================================
@@ -1281,6 +1473,444 @@ describe('AgentManager', () => {
 
       expect(receivedOptions?.resume).toBe('existing-session-123');
     });
+
+    it('should pass forkSession and resumeSessionAt when forking', async () => {
+      let receivedOptions: AgentQueryOptions | null = null;
+
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            receivedOptions ??= options;
+            yield { type: 'system', subtype: 'init', session_id: 'forked-session' };
+          },
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Hello', {
+        workingDir: '/project',
+        agentSessionId: 'existing-session-123',
+        forkSession: true,
+        resumeSessionAt: 'assistant-uuid-1',
+      });
+
+      expect(receivedOptions?.resume).toBe('existing-session-123');
+      expect(receivedOptions?.forkSession).toBe(true);
+      expect(receivedOptions?.resumeSessionAt).toBe('assistant-uuid-1');
+    });
+
+    it('should not fork without agentSessionId', async () => {
+      let receivedOptions: AgentQueryOptions | null = null;
+
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            receivedOptions ??= options;
+            yield { type: 'system', subtype: 'init', session_id: 'new-session' };
+          },
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Hello', {
+        workingDir: '/project',
+        forkSession: true,
+        resumeSessionAt: 'assistant-uuid-1',
+      });
+
+      expect(receivedOptions?.resume).toBeUndefined();
+      expect(receivedOptions?.forkSession).toBeUndefined();
+      expect(receivedOptions?.resumeSessionAt).toBeUndefined();
+    });
+  });
+
+  // ============================================================================
+  // 사용량 한도 계정 전환 테스트
+  // ============================================================================
+  describe('사용량 한도 계정 전환', () => {
+    const limitResult: AgentMessage = {
+      type: 'result',
+      subtype: 'success',
+      is_error: true,
+      result: 'Claude AI usage limit reached|1760000000',
+    };
+
+    /**
+     * 처음 limitedRuns번은 한도에 걸리고 이후 성공하는 어댑터
+     * (응답 후 자동 제안 생성용 fork 쿼리는 기록하지 않음)
+     */
+    function createLimitedAdapter(limitedRuns: number, received: AgentQueryOptions[]): AgentAdapter {
+      return {
+        async *query(options) {
+          if (options.forkSession) return;
+          received.push(options);
+          yield { type: 'system', subtype: 'init', session_id: 'agent-session-1' };
+          yield received.length <= limitedRuns ? limitResult : { type: 'result', subtype: 'success' };
+        },
+      };
+    }
+
+    it('should resume same agent session after handler switches account', async () => {
+      const received: AgentQueryOptions[] = [];
+      const onUsageLimit = vi.fn().mockResolvedValue(true);
+      manager = createManager({ adapter: createLimitedAdapter(1, received), onUsageLimit });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(onUsageLimit).toHaveBeenCalledTimes(1);
+      expect(onUsageLimit).toHaveBeenCalledWith('session-1', expect.objectContaining({
+        reason: 'Claude AI usage limit reached|1760000000',
+        agentSessionId: 'agent-session-1',
+        attempt: 1,
+      }));
+      expect(received).toHaveLength(2);
+      expect(received[1].resume).toBe('agent-session-1');
+      expect(received[1].prompt).not.toBe('Hello');
+      // 재개 중에도 working 상태 유지, idle은 마지막에 한 번
+      const idleEvents = events.filter((e) => e.event.type === 'state' && e.event.state === 'idle');
+      expect(idleEvents).toHaveLength(1);
+    });
+
+    it('should not resume when handler declines', async () => {
+      const received: AgentQueryOptions[] = [];
+      const onUsageLimit = vi.fn().mockResolvedValue(false);
+      manager = createManager({ adapter: createLimitedAdapter(1, received), onUsageLimit });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(onUsageLimit).toHaveBeenCalledTimes(1);
+      expect(received).toHaveLength(1);
+    });
+
+    it('should give up after max failover attempts', async () => {
+      const received: AgentQueryOptions[] = [];
+      const onUsageLimit = vi.fn().mockResolvedValue(true);
+      manager = createManager({ adapter: createLimitedAdapter(10, received), onUsageLimit });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(onUsageLimit).toHaveBeenCalledTimes(3);
+      expect(received).toHaveLength(4);
+    });
+
+    it('should not ask handler for ordinary results or non-claude sessions', async () => {
+      const onUsageLimit = vi.fn().mockResolvedValue(true);
+      manager = createManager({
+        codexAdapter: createLimitedAdapter(1, []),
+        onUsageLimit,
+      });
+      queryMessages.push({ type: 'system', subtype: 'init', session_id: 'agent-session-1' });
+      queryMessages.push({ type: 'result', subtype: 'success' });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+      await manager.sendMessage('session-2', 'Hello', { workingDir: '/project', agentType: 'codex' });
+
+      expect(onUsageLimit).not.toHaveBeenCalled();
+    });
+
+    it('should resume after usage limit error thrown by query', async () => {
+      const received: AgentQueryOptions[] = [];
+      const onUsageLimit = vi.fn().mockResolvedValue(true);
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            if (options.forkSession) return;
+            received.push(options);
+            yield { type: 'system', subtype: 'init', session_id: 'agent-session-1' };
+            if (received.length === 1) {
+              throw new Error('429 {"type":"error","error":{"type":"rate_limit_error"}}');
+            }
+            yield { type: 'result', subtype: 'success' };
+          },
+        },
+        onUsageLimit,
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(received).toHaveLength(2);
+      expect(events.some((e) => e.event.type === 'error')).toBe(false);
+    });
+
+    it('should emit error when thrown usage limit is not resolved', async () => {
+      manager = createManager({
+        adapter: {
+          async *query() {
+            yield { type: 'system', subtype: 'init', session_id: 'agent-session-1' };
+            throw new Error('rate_limit_error: too many requests');
+          },
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(events.find((e) => e.event.type === 'error')?.event.error).toBe('rate_limit_error: too many requests');
+    });
+  });
+
+  // ============================================================================
+  // 에이전트 레지스트리 테스트
+  // ============================================================================
+  describe('에이전트 레지스트리', () => {
+    function createRegistry(llama: AgentAdapter): AgentRegistry {
+      const registry = new AgentRegistry();
+      registry.register('claude', mockAdapter, { label: 'Claude', adapter: 'claude' });
+      registry.register('local-llama', llama, { label: 'Local Llama', adapter: 'openai-compatible', model: 'qwen' });
+      return registry;
+    }
+
+    it('should let every adapter forget a deleted conversation', () => {
+      const llama: AgentAdapter = { query: mockAdapter.query, forgetConversation: vi.fn() };
+      const codex: AgentAdapter = { query: mockAdapter.query, forgetConversation: vi.fn() };
+      manager = createManager({ registry: createRegistry(llama), codexAdapter: codex });
+
+      manager.forgetConversation(7);
+
+      expect(llama.forgetConversation).toHaveBeenCalledWith(7);
+      expect(codex.forgetConversation).toHaveBeenCalledWith(7);
+    });
+
+    it('should route queries by conversation agent type', async () => {
+      const received: AgentQueryOptions[] = [];
+      const llama: AgentAdapter = {
+        async *query(options) {
+          received.push(options);
+          yield { type: 'system', subtype: 'init', session_id: 'llama-session-1' };
+          yield { type: 'result', subtype: 'success' };
+        },
+      };
+      manager = createManager({
+        registry: createRegistry(llama),
+        getAgentType: () => 'local-llama',
+      });
+
+      await manager.sendMessage('session-2', 'Hello', { workingDir: '/project' });
+
+      expect(received).toHaveLength(1);
+      expect(received[0].prompt).toBe('Hello');
+      expect(events).toContainEqual({
+        sessionId: 'session-2',
+        event: { type: 'init', session_id: 'llama-session-1', model: undefined, tools: undefined },
+      });
+    });
+
+    it('should prefer explicit agent type option', async () => {
+      const llama = { query: vi.fn(createMockAdapter().query) };
+      manager = createManager({
+        registry: createRegistry(llama),
+        getAgentType: () => 'claude',
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project', agentType: 'local-llama' });
+
+      expect(llama.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass conversation permission mode to adapter', async () => {
+      const received: AgentQueryOptions[] = [];
+      manager = createManager({
+        codexAdapter: {
+          async *query(options) {
+            received.push(options);
+          },
+        },
+        getPermissionMode: () => PermissionMode.ACCEPT_EDITS,
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project', agentType: 'codex' });
+
+      expect(received[0].permissionMode).toBe(PermissionMode.ACCEPT_EDITS);
+      expect(received[0].canUseTool).toBeTypeOf('function');
+    });
+
+    it('should emit error for unregistered agent', async () => {
+      manager = createManager({ registry: createRegistry(createMockAdapter()) });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project', agentType: 'gemini' });
+
+      expect(events).toContainEqual({
+        sessionId: 'session-1',
+        event: { type: 'error', error: 'gemini adapter not configured' },
+      });
+    });
+
+    it('should list agent backends', () => {
+      expect(createManager().getAgentBackends().map((agent) => agent.name)).toEqual(['claude']);
+      expect(createManager({ registry: createRegistry(createMockAdapter()) }).getAgentBackends()).toEqual([
+        { name: 'claude', label: 'Claude', adapter: 'claude' },
+        { name: 'local-llama', label: 'Local Llama', adapter: 'openai-compatible', model: 'qwen' },
+      ]);
+    });
+  });
+
+  // ============================================================================
+  // 대화별 에이전트 설정 테스트
+  // ============================================================================
+  describe('대화별 에이전트 설정', () => {
+    function toolRound(id: string): AgentMessage[] {
+      return [
+        { type: 'assistant', message: { content: [{ type: 'tool_use', id, name: 'Bash', input: { command: 'ls' } }] } },
+        { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: id, content: 'ok' }] } },
+      ];
+    }
+
+    it('should pass model, effort and limits to adapter', async () => {
+      const received: AgentQueryOptions[] = [];
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            received.push(options);
+          },
+        },
+        getAgentSettings: () => ({ model: 'claude-opus-4-6', effort: 'low', maxTurns: 3, maxCostUsd: 1 }),
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(received[0]).toMatchObject({ model: 'claude-opus-4-6', effort: 'low', maxTurns: 3, maxCostUsd: 1 });
+    });
+
+    it('should stop the session when the turn limit is reached', async () => {
+      const messages = [...toolRound('tool-1'), ...toolRound('tool-2'), ...toolRound('tool-3')];
+      manager = createManager({
+        adapter: createMockAdapter(messages),
+        getAgentSettings: () => ({ maxTurns: 2 }),
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      const types = events.map((e) => e.event.type);
+      expect(types.filter((type) => type === 'toolComplete')).toHaveLength(2);
+      expect(events).toContainEqual({
+        sessionId: 'session-1',
+        event: { type: 'budgetExceeded', message: '턴 한도(2회)에 도달해 응답을 중단했습니다' },
+      });
+      expect(types.indexOf('agentAborted')).toBeGreaterThan(types.indexOf('budgetExceeded'));
+      expect(manager.hasActiveSession('session-1')).toBe(false);
+    });
+
+    it('should count parallel tool calls as one turn', async () => {
+      const parallelRound = (ids: string[]): AgentMessage[] => [
+        {
+          type: 'assistant',
+          message: { content: ids.map((id) => ({ type: 'tool_use', id, name: 'Bash', input: { command: 'ls' } })) },
+        },
+        ...ids.map((id) => ({
+          type: 'user',
+          message: { content: [{ type: 'tool_result', tool_use_id: id, content: 'ok' }] },
+        })),
+      ];
+      // 같은 턴의 병렬 호출이 블록마다 따로 오는 경우
+      const splitRound: AgentMessage[] = [
+        { type: 'assistant', message: { content: [{ type: 'tool_use', id: 'c', name: 'Read', input: {} }] } },
+        { type: 'assistant', message: { content: [{ type: 'tool_use', id: 'd', name: 'Read', input: {} }] } },
+        { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'c', content: 'ok' }] } },
+        { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'd', content: 'ok' }] } },
+      ];
+      manager = createManager({
+        adapter: createMockAdapter([...parallelRound(['a', 'b']), ...splitRound, ...toolRound('e')]),
+        getAgentSettings: () => ({ maxTurns: 2 }),
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      const types = events.map((e) => e.event.type);
+      expect(types.filter((type) => type === 'toolComplete')).toHaveLength(4);
+      expect(types).toContain('budgetExceeded');
+    });
+
+    it('should not count subagent tool results as turns', async () => {
+      const subagent = toolRound('sub-1').map((msg) => ({ ...msg, parent_tool_use_id: 'task-1' }));
+      manager = createManager({
+        adapter: createMockAdapter([...subagent, ...subagent, ...toolRound('tool-1')]),
+        getAgentSettings: () => ({ maxTurns: 2 }),
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(events.some((e) => e.event.type === 'budgetExceeded')).toBe(false);
+    });
+
+    it('should report budget results from the adapter', async () => {
+      manager = createManager({
+        adapter: createMockAdapter([{ type: 'result', subtype: 'error_max_budget_usd', total_cost_usd: 0.52 }]),
+        getAgentSettings: () => ({ maxCostUsd: 0.5 }),
+      });
+
+      await manager.sendMessage('session-1', 'Hello', { workingDir: '/project' });
+
+      expect(events).toContainEqual({
+        sessionId: 'session-1',
+        event: { type: 'budgetExceeded', message: '대화 비용 한도($0.5)에 도달해 응답을 중단했습니다 (누적 $0.52)' },
+      });
+    });
+
+    it('should enforce the cost limit on the conversation total', async () => {
+      const received: AgentQueryOptions[] = [];
+      const costs = new Map<number, number>();
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            received.push(options);
+            yield { type: 'result', subtype: 'success', total_cost_usd: 0.4 };
+          },
+        },
+        getAgentSettings: () => ({ maxCostUsd: 1 }),
+        getConversationCost: (sessionId) => costs.get(sessionId),
+        onConversationCost: (sessionId, spentUsd) => costs.set(sessionId, spentUsd),
+      });
+
+      await manager.sendMessage('session-1', 'One', { workingDir: '/project' });
+      await manager.sendMessage('session-1', 'Two', { workingDir: '/project' });
+      expect(events.some((e) => e.event.type === 'budgetExceeded')).toBe(false);
+
+      await manager.sendMessage('session-1', 'Three', { workingDir: '/project' });
+      expect(received.map((options) => options.maxCostUsd)).toEqual([1, 0.6, expect.closeTo(0.2)]);
+      expect(events).toContainEqual({
+        sessionId: 'session-1',
+        event: {
+          type: 'budgetExceeded',
+          message: '대화 비용 한도($1)에 도달했습니다. 한도를 늘리기 전까지 응답하지 않습니다 (누적 $1.20)',
+        },
+      });
+
+      await manager.sendMessage('session-1', 'Four', { workingDir: '/project' });
+      expect(received).toHaveLength(3);
+      expect(events.filter((e) => e.event.type === 'budgetExceeded').at(-1)?.event).toEqual({
+        type: 'budgetExceeded',
+        message: '대화 비용 한도($1)에 도달해 응답하지 않습니다 (누적 $1.20)',
+      });
+
+      // 다른 대화의 비용은 따로 셈
+      await manager.sendMessage('session-2', 'Hello', { workingDir: '/project' });
+      expect(received[3].maxCostUsd).toBe(1);
+    });
+
+    it('should check the cost limit against the persisted conversation cost', async () => {
+      const received: AgentQueryOptions[] = [];
+      const onConversationCost = vi.fn();
+      manager = createManager({
+        adapter: {
+          async *query(options) {
+            received.push(options);
+            yield { type: 'result', subtype: 'success', total_cost_usd: 0.1 };
+          },
+        },
+        getAgentSettings: () => ({ maxCostUsd: 1 }),
+        // 이전 실행에서 저장된 누적 비용
+        getConversationCost: (sessionId) => (sessionId === 1 ? 1.5 : 0.3),
+        onConversationCost,
+      });
+
+      await manager.sendMessage(1, 'Hello', { workingDir: '/project' });
+      expect(received).toHaveLength(0);
+      expect(events).toContainEqual({
+        sessionId: 1,
+        event: { type: 'budgetExceeded', message: '대화 비용 한도($1)에 도달해 응답하지 않습니다 (누적 $1.50)' },
+      });
+
+      await manager.sendMessage(2, 'Hello', { workingDir: '/project' });
+      expect(received[0].maxCostUsd).toBeCloseTo(0.7);
+      expect(onConversationCost).toHaveBeenCalledWith(2, expect.closeTo(0.4));
+    });
   });
 
   // ============================================================================
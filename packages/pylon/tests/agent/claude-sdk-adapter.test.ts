@@ -253,6 +253,34 @@ describe('ClaudeSDKAdapter', () => {
         }),
       });
     });
+
+    it('should map conversation model, effort and budget to SDK options', async () => {
+      vi.mocked(mockQuery).mockReturnValue(createMockSDKResponse([]));
+
+      const options: AgentQueryOptions = {
+        prompt: 'Hello',
+        cwd: '/test/dir',
+        abortController: new AbortController(),
+        model: 'claude-opus-4-6',
+        effort: 'max',
+        maxTurns: 5,
+        maxCostUsd: 0.5,
+      };
+
+      for await (const _msg of adapter.query(options)) {
+        // 메시지 소비
+      }
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        prompt: 'Hello',
+        options: expect.objectContaining({
+          model: 'claude-opus-4-6',
+          effort: 'max',
+          maxTurns: 5,
+          maxBudgetUsd: 0.5,
+        }),
+      });
+    });
   });
 
   // ============================================================================
@@ -0,0 +1,309 @@
+/**
+ * @file codex-sdk-adapter.test.ts
+ * @description CodexSDKAdapter 테스트
+ *
+ * Codex 클라이언트는 주입한 가짜로 대체하고 어댑터 로직만 테스트합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ThreadEvent, ThreadOptions } from '@openai/codex-sdk';
+import { PermissionMode } from '@estelle/core';
+import {
+  CodexSDKAdapter,
+  createCodexAdapterFactory,
+  CODEX_WRITE_TOOL,
+  type CodexClient,
+} from '../../src/agent/codex-sdk-adapter.js';
+import { AgentRegistry } from '../../src/agent/agent-registry.js';
+import type { AgentQueryOptions, AgentMessage } from '../../src/agent/agent-manager.js';
+
+describe('CodexSDKAdapter', () => {
+  let events: ThreadEvent[];
+  let runStreamed: ReturnType<typeof vi.fn>;
+  let codex: { startThread: ReturnType<typeof vi.fn>; resumeThread: ReturnType<typeof vi.fn> };
+
+  function createThread() {
+    return { runStreamed };
+  }
+
+  function queryOptions(overrides: Partial<AgentQueryOptions> = {}): AgentQueryOptions {
+    return {
+      prompt: 'Fix the bug',
+      cwd: '/project',
+      abortController: new AbortController(),
+      permissionMode: PermissionMode.ACCEPT_EDITS,
+      ...overrides,
+    };
+  }
+
+  async function collect(adapter: CodexSDKAdapter, options: AgentQueryOptions): Promise<AgentMessage[]> {
+    const messages: AgentMessage[] = [];
+    for await (const msg of adapter.query(options)) {
+      messages.push(msg);
+    }
+    return messages;
+  }
+
+  function threadOptions(): ThreadOptions {
+    const call = codex.startThread.mock.calls[0] ?? codex.resumeThread.mock.calls[0];
+    return call[call.length - 1];
+  }
+
+  beforeEach(() => {
+    events = [];
+    runStreamed = vi.fn(async () => ({
+      events: (async function* () {
+        for (const event of events) yield event;
+      })(),
+    }));
+    codex = {
+      startThread: vi.fn(createThread),
+      resumeThread: vi.fn(createThread),
+    };
+  });
+
+  function createAdapter(config = {}): CodexSDKAdapter {
+    return new CodexSDKAdapter(config, codex as unknown as CodexClient);
+  }
+
+  // ============================================================================
+  // 권한 모드
+  // ============================================================================
+
+  describe('권한 모드', () => {
+    it('should map permission modes to sandbox modes without approvals', async () => {
+      const expected = {
+        [PermissionMode.ACCEPT_EDITS]: 'workspace-write',
+        [PermissionMode.BYPASS]: 'danger-full-access',
+      };
+
+      for (const [permissionMode, sandboxMode] of Object.entries(expected)) {
+        codex.startThread.mockClear();
+        await collect(createAdapter(), queryOptions({ permissionMode: permissionMode as typeof PermissionMode.BYPASS }));
+
+        expect(threadOptions()).toMatchObject({
+          workingDirectory: '/project',
+          approvalPolicy: 'never',
+          sandboxMode,
+        });
+      }
+    });
+
+    it('should request write permission in default mode and escalate when allowed', async () => {
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      await collect(createAdapter(), queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool }));
+
+      expect(canUseTool).toHaveBeenCalledWith(CODEX_WRITE_TOOL, { sandbox: 'workspace-write', cwd: '/project' });
+      expect(threadOptions().sandboxMode).toBe('workspace-write');
+    });
+
+    it('should run read-only in default mode when write permission is denied', async () => {
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'deny', message: 'User denied' });
+
+      await collect(createAdapter(), queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool }));
+
+      expect(threadOptions()).toMatchObject({ approvalPolicy: 'never', sandboxMode: 'read-only' });
+    });
+
+    it('should not ask permission outside default mode', async () => {
+      const canUseTool = vi.fn();
+
+      await collect(createAdapter(), queryOptions({ permissionMode: PermissionMode.BYPASS, canUseTool }));
+
+      expect(canUseTool).not.toHaveBeenCalled();
+    });
+
+    it('should remember the write decision while the conversation resumes its thread', async () => {
+      const adapter = createAdapter();
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1 }));
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1, resume: 'thread-1' }));
+
+      expect(canUseTool).toHaveBeenCalledTimes(1);
+      expect(codex.resumeThread.mock.calls[0][1]).toMatchObject({ sandboxMode: 'workspace-write' });
+    });
+
+    it('should remember a denial without asking again in the same thread', async () => {
+      const adapter = createAdapter();
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'deny', message: 'User denied' });
+
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1 }));
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1, resume: 'thread-1' }));
+
+      expect(canUseTool).toHaveBeenCalledTimes(1);
+      expect(codex.resumeThread.mock.calls[0][1]).toMatchObject({ sandboxMode: 'read-only' });
+    });
+
+    it('should forget the write decision when the conversation is deleted', async () => {
+      const adapter = createAdapter();
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1 }));
+      adapter.forgetConversation(1);
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1, resume: 'thread-1' }));
+
+      expect(canUseTool).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ask again when the conversation starts a new thread or changes mode', async () => {
+      const adapter = createAdapter();
+      const canUseTool = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1 }));
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1 }));
+      expect(canUseTool).toHaveBeenCalledTimes(2);
+
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.BYPASS, canUseTool, conversationId: 1, resume: 'thread-1' }));
+      await collect(adapter, queryOptions({ permissionMode: PermissionMode.DEFAULT, canUseTool, conversationId: 1, resume: 'thread-1' }));
+      expect(canUseTool).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  // ============================================================================
+  // 세션 재개 / 모델
+  // ============================================================================
+
+  describe('세션 재개', () => {
+    it('should resume saved thread', async () => {
+      await collect(createAdapter(), queryOptions({ resume: 'thread-1' }));
+
+      expect(codex.resumeThread).toHaveBeenCalledWith('thread-1', expect.objectContaining({ workingDirectory: '/project' }));
+      expect(codex.startThread).not.toHaveBeenCalled();
+    });
+
+    it('should start a new thread when forking', async () => {
+      await collect(createAdapter(), queryOptions({ resume: 'thread-1', forkSession: true }));
+
+      expect(codex.startThread).toHaveBeenCalled();
+      expect(codex.resumeThread).not.toHaveBeenCalled();
+    });
+
+    it('should pass model and reasoning effort', async () => {
+      events = [{ type: 'thread.started', thread_id: 'thread-9' }];
+
+      const messages = await collect(createAdapter({ model: 'gpt-5-codex', reasoningEffort: 'high' }), queryOptions());
+
+      expect(threadOptions()).toMatchObject({ model: 'gpt-5-codex', modelReasoningEffort: 'high' });
+      expect(messages[0]).toMatchObject({ type: 'system', subtype: 'init', session_id: 'thread-9', model: 'gpt-5-codex' });
+    });
+
+    it('should prefer conversation model and effort over adapter config', async () => {
+      events = [{ type: 'thread.started', thread_id: 'thread-9' }];
+
+      const messages = await collect(
+        createAdapter({ model: 'gpt-5-codex', reasoningEffort: 'low' }),
+        queryOptions({ model: 'gpt-5', effort: 'max' })
+      );
+
+      expect(threadOptions()).toMatchObject({ model: 'gpt-5', modelReasoningEffort: 'xhigh' });
+      expect(messages[0]).toMatchObject({ model: 'gpt-5' });
+    });
+
+    it('should pass abort signal to the turn', async () => {
+      const abortController = new AbortController();
+
+      await collect(createAdapter(), queryOptions({ abortController }));
+
+      expect(runStreamed).toHaveBeenCalledWith('Fix the bug', { signal: abortController.signal });
+    });
+  });
+
+  // ============================================================================
+  // 이벤트 변환
+  // ============================================================================
+
+  describe('이벤트 변환', () => {
+    it('should convert agent messages, commands and turn usage', async () => {
+      events = [
+        { type: 'thread.started', thread_id: 'thread-1' },
+        { type: 'turn.started' },
+        {
+          type: 'item.started',
+          item: { id: 'cmd_1', type: 'command_execution', command: 'ls', aggregated_output: '', status: 'in_progress' },
+        },
+        {
+          type: 'item.completed',
+          item: { id: 'cmd_1', type: 'command_execution', command: 'ls', aggregated_output: 'a.ts', exit_code: 0, status: 'completed' },
+        },
+        { type: 'item.completed', item: { id: 'msg_1', type: 'agent_message', text: 'Done.' } },
+        { type: 'turn.completed', usage: { input_tokens: 100, cached_input_tokens: 40, output_tokens: 20 } },
+      ];
+
+      const messages = await collect(createAdapter(), queryOptions());
+
+      expect(messages).toEqual([
+        expect.objectContaining({ type: 'system', subtype: 'init', session_id: 'thread-1', model: 'codex' }),
+        { type: 'stream_event', event: { type: 'message_start' } },
+        {
+          type: 'assistant',
+          message: { content: [{ type: 'tool_use', id: 'cmd_1', name: 'Bash', input: { command: 'ls' } }] },
+        },
+        {
+          type: 'user',
+          message: { content: [{ type: 'tool_result', tool_use_id: 'cmd_1', is_error: false, content: 'a.ts' }] },
+        },
+        { type: 'assistant', message: { content: [{ type: 'text', text: 'Done.' }] } },
+        {
+          type: 'result',
+          subtype: 'success',
+          usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 40 },
+        },
+      ]);
+    });
+
+    it('should emit tool_use and tool_result for items reported only on completion', async () => {
+      events = [
+        {
+          type: 'item.completed',
+          item: { id: 'patch_1', type: 'file_change', changes: [{ path: 'src/a.ts', kind: 'update' }], status: 'failed' },
+        },
+        {
+          type: 'item.completed',
+          item: {
+            id: 'mcp_1',
+            type: 'mcp_tool_call',
+            server: 'estelle',
+            tool: 'get_status',
+            arguments: { verbose: true },
+            result: { content: [{ type: 'text', text: 'ok' }], structured_content: null },
+            status: 'completed',
+          },
+        },
+      ];
+
+      const messages = await collect(createAdapter(), queryOptions());
+
+      expect(messages.map((m) => m.message?.content?.[0])).toEqual([
+        { type: 'tool_use', id: 'patch_1', name: 'ApplyPatch', input: { changes: [{ path: 'src/a.ts', kind: 'update' }] } },
+        { type: 'tool_result', tool_use_id: 'patch_1', is_error: true, content: 'update src/a.ts' },
+        { type: 'tool_use', id: 'mcp_1', name: 'mcp__estelle__get_status', input: { verbose: true } },
+        { type: 'tool_result', tool_use_id: 'mcp_1', is_error: false, content: 'ok' },
+      ]);
+    });
+
+    it('should throw on failed turns', async () => {
+      events = [{ type: 'turn.failed', error: { message: 'stream disconnected' } }];
+
+      await expect(collect(createAdapter(), queryOptions())).rejects.toThrow('stream disconnected');
+    });
+  });
+});
+
+describe('createCodexAdapterFactory', () => {
+  it('should register codex variants with model and reasoning effort', () => {
+    const registry = new AgentRegistry();
+    registry.registerFactory(createCodexAdapterFactory());
+
+    expect(registry.configure('codex-high', { adapter: 'codex', model: 'gpt-5-codex', reasoningEffort: 'high' })).toEqual([]);
+    expect(registry.get('codex-high')).toBeInstanceOf(CodexSDKAdapter);
+    expect(registry.list()).toEqual([
+      { name: 'codex-high', label: 'codex-high', adapter: 'codex', model: 'gpt-5-codex' },
+    ]);
+
+    expect(registry.configure('codex-max', { adapter: 'codex', reasoningEffort: 'max' })).toEqual([
+      "codex-max: 'reasoningEffort' must be one of minimal, low, medium, high, xhigh",
+    ]);
+  });
+});
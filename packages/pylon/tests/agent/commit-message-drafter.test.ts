@@ -0,0 +1,81 @@
+/**
+ * @file commit-message-drafter.test.ts
+ * @description CommitMessageDrafter 테스트
+ *
+ * AgentAdapter를 모킹하여 쿼리 옵션과 응답 정리만 테스트합니다.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CommitMessageDrafter, MAX_DRAFT_DIFF_LENGTH } from '../../src/agent/commit-message-drafter.js';
+import type {
+  AgentAdapter,
+  AgentQueryOptions,
+  AgentMessage,
+} from '../../src/agent/agent-manager.js';
+
+/**
+ * 지정한 텍스트로 답하는 어댑터 (받은 쿼리 옵션을 기록)
+ */
+function createMockAdapter(text: string, calls: AgentQueryOptions[] = []): AgentAdapter {
+  return {
+    async *query(options: AgentQueryOptions): AsyncIterable<AgentMessage> {
+      calls.push(options);
+      yield {
+        type: 'assistant',
+        message: { role: 'assistant', content: [{ type: 'text', text }] },
+      } as AgentMessage;
+    },
+  };
+}
+
+describe('CommitMessageDrafter', () => {
+  it('should fork the agent session and deny tools', async () => {
+    const calls: AgentQueryOptions[] = [];
+    const drafter = new CommitMessageDrafter(createMockAdapter('Fix login redirect', calls));
+
+    const message = await drafter.draft({ agentSessionId: 'session-1', workingDir: '/work', diff: '+fix' });
+
+    expect(message).toBe('Fix login redirect');
+    expect(calls[0].resume).toBe('session-1');
+    expect(calls[0].forkSession).toBe(true);
+    expect(calls[0].cwd).toBe('/work');
+    expect(calls[0].prompt).toContain('+fix');
+    expect(await calls[0].canUseTool!('Bash', {})).toMatchObject({ behavior: 'deny' });
+  });
+
+  it('should start a new session without agentSessionId', async () => {
+    const calls: AgentQueryOptions[] = [];
+    const drafter = new CommitMessageDrafter(createMockAdapter('Add tests', calls));
+
+    await drafter.draft({ agentSessionId: null, workingDir: '/work', diff: '+test' });
+
+    expect(calls[0].resume).toBeUndefined();
+    expect(calls[0].forkSession).toBeUndefined();
+  });
+
+  it('should strip code fences', async () => {
+    const drafter = new CommitMessageDrafter(createMockAdapter('```\nAdd parser\n\nHandles quotes.\n```'));
+
+    const message = await drafter.draft({ agentSessionId: null, workingDir: '/work', diff: '+x' });
+
+    expect(message).toBe('Add parser\n\nHandles quotes.');
+  });
+
+  it('should truncate long diffs in the prompt', async () => {
+    const calls: AgentQueryOptions[] = [];
+    const drafter = new CommitMessageDrafter(createMockAdapter('Big change', calls));
+
+    await drafter.draft({ agentSessionId: null, workingDir: '/work', diff: 'x'.repeat(MAX_DRAFT_DIFF_LENGTH + 100) });
+
+    expect(calls[0].prompt).toContain('... (truncated)');
+    expect(calls[0].prompt.length).toBeLessThan(MAX_DRAFT_DIFF_LENGTH + 1000);
+  });
+
+  it('should throw on empty response', async () => {
+    const drafter = new CommitMessageDrafter(createMockAdapter('   '));
+
+    await expect(
+      drafter.draft({ agentSessionId: null, workingDir: '/work', diff: '+x' })
+    ).rejects.toThrow('커밋 메시지를 받지 못했습니다.');
+  });
+});
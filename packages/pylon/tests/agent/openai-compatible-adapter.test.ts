@@ -0,0 +1,260 @@
+/**
+ * @file openai-compatible-adapter.test.ts
+ * @description OpenAICompatibleAdapter 테스트 (fetch 주입, 임시 세션 디렉토리)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  OpenAICompatibleAdapter,
+  createOpenAICompatibleAdapterFactory,
+  type FetchFn,
+} from '../../src/agent/openai-compatible-adapter.js';
+import { AgentRegistry } from '../../src/agent/agent-registry.js';
+import { isUsageLimitError } from '../../src/agent/usage-limit.js';
+import type { AgentMessage, AgentQueryOptions } from '../../src/agent/agent-manager.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Too Many Requests',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function completion(message: Record<string, unknown>, usage = { prompt_tokens: 10, completion_tokens: 5 }) {
+  return jsonResponse({ choices: [{ message: { role: 'assistant', ...message } }], usage });
+}
+
+async function collect(iterable: AsyncIterable<AgentMessage>): Promise<AgentMessage[]> {
+  const messages: AgentMessage[] = [];
+  for await (const message of iterable) {
+    messages.push(message);
+  }
+  return messages;
+}
+
+describe('OpenAICompatibleAdapter', () => {
+  let tempDir: string;
+  let workDir: string;
+  let fetchFn: ReturnType<typeof vi.fn>;
+  let adapter: OpenAICompatibleAdapter;
+
+  const queryOptions = (overrides: Partial<AgentQueryOptions> = {}): AgentQueryOptions => ({
+    prompt: 'hello',
+    cwd: workDir,
+    abortController: new AbortController(),
+    ...overrides,
+  });
+
+  const requestBody = (call: number) => JSON.parse(fetchFn.mock.calls[call][1].body as string);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-adapter-test-'));
+    workDir = path.join(tempDir, 'work');
+    fs.mkdirSync(workDir);
+    fetchFn = vi.fn();
+    adapter = new OpenAICompatibleAdapter(
+      'local-llama',
+      { baseUrl: 'http://localhost:8080/v1/', model: 'qwen', apiKey: 'secret' },
+      path.join(tempDir, 'sessions'),
+      fetchFn as unknown as FetchFn
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should map a plain reply to init, assistant and result', async () => {
+    fetchFn.mockResolvedValueOnce(completion({ content: 'Hi there' }));
+
+    const messages = await collect(adapter.query(queryOptions()));
+
+    expect(messages.map((m) => m.type)).toEqual(['system', 'assistant', 'result']);
+    expect(messages[0]).toMatchObject({ subtype: 'init', model: 'qwen', tools: ['Read', 'Write', 'Edit', 'Bash'] });
+    expect(messages[1].message?.content).toEqual([{ type: 'text', text: 'Hi there' }]);
+    expect(messages[2]).toMatchObject({ subtype: 'success', usage: { input_tokens: 10, output_tokens: 5 } });
+
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    const body = requestBody(0);
+    expect(body.model).toBe('qwen');
+    expect(body.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user']);
+    expect(body.tools.map((t: { function: { name: string } }) => t.function.name)).toEqual([
+      'Read',
+      'Write',
+      'Edit',
+      'Bash',
+    ]);
+  });
+
+  it('should use conversation model and reasoning effort', async () => {
+    fetchFn.mockResolvedValueOnce(completion({ content: 'Hi' }));
+
+    const messages = await collect(adapter.query(queryOptions({ model: 'qwen-large', effort: 'max' })));
+
+    expect(messages[0]).toMatchObject({ model: 'qwen-large' });
+    expect(requestBody(0)).toMatchObject({ model: 'qwen-large', reasoning_effort: 'high' });
+  });
+
+  it('should run tool calls through canUseTool and send results back', async () => {
+    fs.writeFileSync(path.join(workDir, 'a.txt'), 'line one\nline two');
+    fetchFn
+      .mockResolvedValueOnce(
+        completion({
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'Read', arguments: '{"file_path":"a.txt"}' } },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(completion({ content: 'The file has two lines.' }));
+    const canUseTool = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+    const messages = await collect(adapter.query(queryOptions({ canUseTool })));
+
+    expect(messages.map((m) => m.type)).toEqual(['system', 'assistant', 'user', 'assistant', 'result']);
+    expect(messages[1].message?.content).toEqual([
+      { type: 'tool_use', id: 'call_1', name: 'Read', input: { file_path: 'a.txt' } },
+    ]);
+    expect(canUseTool).toHaveBeenCalledWith('Read', { file_path: 'a.txt' });
+    expect(messages[2].message?.content?.[0]).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: 'call_1',
+      is_error: false,
+    });
+    expect(String(messages[2].message?.content?.[0].content)).toContain('line two');
+    expect(messages[4]).toMatchObject({ subtype: 'success', num_turns: 2 });
+
+    const second = requestBody(1).messages;
+    expect(second[2]).toMatchObject({ role: 'assistant', tool_calls: [{ id: 'call_1' }] });
+    expect(second[3]).toMatchObject({ role: 'tool', tool_call_id: 'call_1' });
+  });
+
+  it('should return denied tools as error results without running them', async () => {
+    fetchFn
+      .mockResolvedValueOnce(
+        completion({
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'Write', arguments: '{"file_path":"b.txt","content":"x"}' },
+            },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(completion({ content: 'OK' }));
+    const canUseTool = vi.fn().mockResolvedValue({ behavior: 'deny', message: 'Denied by user' });
+
+    const messages = await collect(adapter.query(queryOptions({ canUseTool })));
+
+    expect(messages[2].message?.content?.[0]).toMatchObject({ is_error: true, content: 'Denied by user' });
+    expect(fs.existsSync(path.join(workDir, 'b.txt'))).toBe(false);
+  });
+
+  it('should resume a session with saved history', async () => {
+    fetchFn.mockResolvedValueOnce(completion({ content: 'first' }));
+    const first = await collect(adapter.query(queryOptions({ prompt: 'one' })));
+    const sessionId = first[0].session_id!;
+    expect(sessionId).toMatch(/^local-llama_/);
+
+    fetchFn.mockResolvedValueOnce(completion({ content: 'second' }));
+    const second = await collect(adapter.query(queryOptions({ prompt: 'two', resume: sessionId })));
+
+    expect(second[0].session_id).toBe(sessionId);
+    expect(requestBody(1).messages.map((m: { content: string }) => m.content).slice(1)).toEqual([
+      'one',
+      'first',
+      'two',
+    ]);
+  });
+
+  it('should fork a session into a new session id', async () => {
+    fetchFn.mockResolvedValueOnce(completion({ content: 'first' }));
+    const first = await collect(adapter.query(queryOptions({ prompt: 'one' })));
+    const sessionId = first[0].session_id!;
+
+    fetchFn.mockResolvedValueOnce(completion({ content: 'forked' }));
+    const fork = await collect(adapter.query(queryOptions({ prompt: 'two', resume: sessionId, forkSession: true })));
+
+    expect(fork[0].session_id).not.toBe(sessionId);
+    expect(requestBody(1).messages).toHaveLength(4);
+  });
+
+  it('should throw HTTP errors that are detected as usage limits on 429', async () => {
+    fetchFn.mockResolvedValueOnce(jsonResponse({ error: 'rate limited' }, 429));
+
+    let error: unknown;
+    try {
+      await collect(adapter.query(queryOptions()));
+    } catch (err) {
+      error = err;
+    }
+
+    expect((error as Error).message).toMatch(/^429 Too Many Requests/);
+    expect(isUsageLimitError(error)).toBe(true);
+  });
+
+  it('should stop quietly when aborted', async () => {
+    const abortController = new AbortController();
+    fetchFn.mockImplementationOnce(async () => {
+      abortController.abort();
+      throw new Error('This operation was aborted');
+    });
+
+    const messages = await collect(adapter.query(queryOptions({ abortController })));
+
+    expect(messages.map((m) => m.type)).toEqual(['system']);
+  });
+
+  it('should report max turns when the model keeps calling tools', async () => {
+    const limited = new OpenAICompatibleAdapter(
+      'local-llama',
+      { baseUrl: 'http://x', model: 'qwen', maxTurns: 1 },
+      path.join(tempDir, 'sessions'),
+      fetchFn as unknown as FetchFn
+    );
+    fetchFn.mockResolvedValueOnce(
+      completion({
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'Bash', arguments: '{"command":"echo hi"}' } }],
+      })
+    );
+
+    const messages = await collect(limited.query(queryOptions()));
+
+    expect(messages.at(-1)).toMatchObject({ type: 'result', subtype: 'error_max_turns', num_turns: 1 });
+  });
+
+  it('should apply a smaller conversation turn limit', async () => {
+    fetchFn.mockResolvedValueOnce(
+      completion({
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'Bash', arguments: '{"command":"echo hi"}' } }],
+      })
+    );
+
+    const messages = await collect(adapter.query(queryOptions({ maxTurns: 1 })));
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(messages.at(-1)).toMatchObject({ type: 'result', subtype: 'error_max_turns', num_turns: 1 });
+  });
+});
+
+describe('createOpenAICompatibleAdapterFactory', () => {
+  it('should register configured agents through the registry', () => {
+    const registry = new AgentRegistry();
+    registry.registerFactory(createOpenAICompatibleAdapterFactory({ sessionDir: os.tmpdir() }));
+
+    expect(registry.configure('local-llama', { adapter: 'openai-compatible', model: 'qwen' })).toEqual([
+      "local-llama: 'baseUrl' is required (API base URL, e.g. 'http://localhost:11434/v1')",
+    ]);
+    expect(
+      registry.configure('local-llama', { adapter: 'openai-compatible', baseUrl: 'http://x', model: 'qwen' })
+    ).toEqual([]);
+    expect(registry.get('local-llama')).toBeInstanceOf(OpenAICompatibleAdapter);
+  });
+});
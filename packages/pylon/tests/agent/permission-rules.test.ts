@@ -12,6 +12,9 @@ import {
   isAutoAllowTool,
   isEditTool,
   checkAutoDenyPattern,
+  findMatchingRule,
+  matchesRulePattern,
+  createExactAllowRule,
   isPermissionAllow,
   isPermissionDeny,
   isPermissionAsk,
@@ -20,6 +23,7 @@ import {
   AUTO_DENY_PATTERNS,
 } from '../../src/agent/permission-rules.js';
 import { PermissionMode } from '@estelle/core';
+import type { PermissionRule } from '@estelle/core';
 
 describe('permission-rules', () => {
   // ============================================================================
@@ -398,6 +402,173 @@ describe('permission-rules', () => {
     });
   });
 
+  // ============================================================================
+  // 워크스페이스 규칙 테스트
+  // ============================================================================
+  describe('워크스페이스 규칙', () => {
+    const workingDir = '/project';
+
+    function rule(overrides: Partial<PermissionRule>): PermissionRule {
+      return { id: 'rule', toolName: 'Bash', action: 'allow', ...overrides };
+    }
+
+    describe('matchesRulePattern', () => {
+      it('should match wildcard and require full match', () => {
+        expect(matchesRulePattern('pnpm test*', 'pnpm test --run')).toBe(true);
+        expect(matchesRulePattern('pnpm test*', 'pnpm testing')).toBe(true);
+        expect(matchesRulePattern('pnpm test', 'pnpm test --run')).toBe(false);
+        expect(matchesRulePattern('*.md', 'docs/a.md')).toBe(true);
+      });
+
+      it('should treat escaped star and regex characters literally', () => {
+        expect(matchesRulePattern('ls \\*.ts', 'ls *.ts')).toBe(true);
+        expect(matchesRulePattern('ls \\*.ts', 'ls a.ts')).toBe(false);
+        expect(matchesRulePattern('echo (a)+', 'echo (a)+')).toBe(true);
+      });
+    });
+
+    describe('findMatchingRule', () => {
+      it('should match Bash rule only when every chained command matches', () => {
+        const rules = [rule({ pattern: 'pnpm test*' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test && pnpm test:e2e' }, workingDir)).not.toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test; rm -rf dist' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test $(cat x)' }, workingDir)).toBeNull();
+      });
+
+      it('should match Bash deny rule when any chained command matches', () => {
+        const rules = [rule({ pattern: 'git push*', action: 'deny' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'git add . && git push' }, workingDir)?.action).toBe('deny');
+      });
+
+      it('should not match Bash allow rule with background command', () => {
+        const rules = [rule({ pattern: 'pnpm test*' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test & rm -rf ~' }, workingDir)).toBeNull();
+      });
+
+      it('should not match Bash allow rule with process substitution', () => {
+        const rules = [rule({ pattern: 'pnpm test*' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test <(rm -rf ~)' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test >(rm -rf ~)' }, workingDir)).toBeNull();
+      });
+
+      it('should not match Bash allow rule with redirection', () => {
+        const rules = [rule({ pattern: 'pnpm test*' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test > ~/.bashrc' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test >> ~/.bashrc' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test < ~/.ssh/id_rsa' }, workingDir)).toBeNull();
+      });
+
+      it('should match Bash deny rule across background, process substitution and redirection', () => {
+        const rules = [rule({ pattern: 'rm*', action: 'deny' })];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test & rm -rf ~' }, workingDir)?.action).toBe('deny');
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test <(rm -rf ~)' }, workingDir)?.action).toBe('deny');
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test >(rm -rf ~)' }, workingDir)?.action).toBe('deny');
+        expect(findMatchingRule(rules, 'Bash', { command: 'pnpm test > out.txt; rm -rf ~' }, workingDir)?.action).toBe('deny');
+      });
+
+      it('should match location relative to workingDir', () => {
+        const rules = [rule({ toolName: 'Write', location: 'outside', action: 'deny' })];
+
+        expect(findMatchingRule(rules, 'Write', { file_path: '/etc/hosts' }, workingDir)).not.toBeNull();
+        expect(findMatchingRule(rules, 'Write', { file_path: '/project/src/a.ts' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Write', { file_path: 'src/a.ts' }, workingDir)).toBeNull();
+        expect(findMatchingRule(rules, 'Write', { file_path: '../other/a.ts' }, workingDir)).not.toBeNull();
+        expect(findMatchingRule(rules, 'Bash', { command: 'ls' }, workingDir)).toBeNull();
+      });
+
+      it('should prefer deny over ask over allow', () => {
+        const rules = [
+          rule({ toolName: '*', action: 'allow' }),
+          rule({ toolName: 'Bash', action: 'ask' }),
+          rule({ toolName: 'Bash', pattern: 'curl*', action: 'deny' }),
+        ];
+
+        expect(findMatchingRule(rules, 'Bash', { command: 'curl x' }, workingDir)?.action).toBe('deny');
+        expect(findMatchingRule(rules, 'Bash', { command: 'ls' }, workingDir)?.action).toBe('ask');
+        expect(findMatchingRule(rules, 'Edit', { file_path: 'a.ts' }, workingDir)?.action).toBe('allow');
+      });
+    });
+
+    describe('createExactAllowRule', () => {
+      it('should escape stars so only the exact command matches', () => {
+        const created = createExactAllowRule('Bash', { command: 'rm *.log' })!;
+
+        expect(created.action).toBe('allow');
+        expect(created.pattern).toBe('rm \\*.log');
+        expect(findMatchingRule([created], 'Bash', { command: 'rm *.log' }, workingDir)).not.toBeNull();
+        expect(findMatchingRule([created], 'Bash', { command: 'rm important.log' }, workingDir)).toBeNull();
+      });
+
+      it('should not create a rule when input has no subject', () => {
+        expect(createExactAllowRule('mcp__tool', { value: 1 })).toBeNull();
+        expect(createExactAllowRule('mcp__tool', {})).toBeNull();
+      });
+    });
+
+    describe('checkPermission with policy', () => {
+      const policy = (rules: PermissionRule[]) => ({ rules, workingDir });
+
+      it('should allow Bash command matching allow rule', () => {
+        const result = checkPermission(
+          'Bash',
+          { command: 'pnpm test' },
+          PermissionMode.DEFAULT,
+          policy([rule({ pattern: 'pnpm test*' })])
+        );
+        expect(result.behavior).toBe('allow');
+      });
+
+      it('should keep built-in deny patterns above allow rules', () => {
+        const result = checkPermission(
+          'Bash',
+          { command: 'rm -rf /' },
+          PermissionMode.DEFAULT,
+          policy([rule({ pattern: '*' })])
+        );
+        expect(result.behavior).toBe('deny');
+      });
+
+      it('should deny by rule even in bypassPermissions mode', () => {
+        const result = checkPermission(
+          'Write',
+          { file_path: '/etc/hosts' },
+          PermissionMode.BYPASS,
+          policy([rule({ toolName: 'Write', location: 'outside', action: 'deny' })])
+        );
+        expect(result.behavior).toBe('deny');
+        if (result.behavior === 'deny') {
+          expect(result.message).toContain('workspace rule');
+        }
+      });
+
+      it('should ask for auto-allow tool matching ask rule', () => {
+        const result = checkPermission(
+          'WebFetch',
+          { url: 'https://example.com' },
+          PermissionMode.ACCEPT_EDITS,
+          policy([rule({ toolName: 'WebFetch', action: 'ask' })])
+        );
+        expect(result.behavior).toBe('ask');
+      });
+
+      it('should not apply rules to AskUserQuestion', () => {
+        const result = checkPermission(
+          'AskUserQuestion',
+          {},
+          PermissionMode.DEFAULT,
+          policy([rule({ toolName: '*', action: 'deny' })])
+        );
+        expect(result.behavior).toBe('ask');
+      });
+    });
+  });
+
   // ============================================================================
   // 타입 가드 테스트
   // ============================================================================
@@ -0,0 +1,54 @@
+/**
+ * @file usage-limit.test.ts
+ * @description 사용량 한도 감지 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectUsageLimit, isUsageLimitError } from '../../src/agent/usage-limit.js';
+
+describe('detectUsageLimit', () => {
+  it('should detect assistant rate_limit error', () => {
+    expect(
+      detectUsageLimit({
+        type: 'assistant',
+        error: 'rate_limit',
+        message: { content: [{ type: 'text', text: '5-hour limit reached ∙ resets 3pm' }] },
+      })
+    ).toBe('5-hour limit reached ∙ resets 3pm');
+    expect(detectUsageLimit({ type: 'assistant', error: 'rate_limit' })).toBe('rate_limit');
+  });
+
+  it('should detect usage limit notice text without error field', () => {
+    expect(
+      detectUsageLimit({
+        type: 'assistant',
+        message: { content: [{ type: 'text', text: 'Claude AI usage limit reached|1760000000' }] },
+      })
+    ).toBe('Claude AI usage limit reached|1760000000');
+  });
+
+  it('should ignore ordinary assistant text mentioning limits', () => {
+    expect(
+      detectUsageLimit({
+        type: 'assistant',
+        message: { content: [{ type: 'text', text: 'The API returns 429 when the rate limit is reached.' }] },
+      })
+    ).toBeNull();
+  });
+
+  it('should detect only error results', () => {
+    expect(
+      detectUsageLimit({ type: 'result', subtype: 'success', is_error: true, result: 'Claude AI usage limit reached|1' })
+    ).toBe('Claude AI usage limit reached|1');
+    expect(detectUsageLimit({ type: 'result', subtype: 'success', result: 'rate limit docs updated' })).toBeNull();
+    expect(detectUsageLimit({ type: 'result', subtype: 'success', is_error: true, result: 'Prompt is too long' })).toBeNull();
+  });
+});
+
+describe('isUsageLimitError', () => {
+  it('should match rate limit errors only', () => {
+    expect(isUsageLimitError(new Error('429 rate_limit_error'))).toBe(true);
+    expect(isUsageLimitError('Usage limit reached')).toBe(true);
+    expect(isUsageLimitError(new Error('ENOENT: no such file'))).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @file credential-manager.test.ts
+ * @description CredentialManager 테스트
+ *
+ * 임시 디렉토리에 활성 인증/백업 파일을 만들어 계정 판별과 전환을 확인합니다.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { ClaudeAccount } from '@estelle/core';
+import { CredentialManager } from '../../src/auth/credential-manager.js';
+
+const work: ClaudeAccount = { id: 'work', name: 'Work', icon: '🏢', credentialFile: 'work.json', workspaceIds: [] };
+const personal: ClaudeAccount = {
+  id: 'personal',
+  name: 'Personal',
+  icon: '🏠',
+  credentialFile: 'personal.json',
+  workspaceIds: [],
+};
+
+function credentials(subscriptionType: string, refreshToken: string): string {
+  return JSON.stringify({ claudeAiOauth: { subscriptionType, refreshToken } });
+}
+
+describe('CredentialManager', () => {
+  let tempDir: string;
+  let configDir: string;
+  let backupDir: string;
+  let manager: CredentialManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'credential-manager-test-'));
+    configDir = path.join(tempDir, 'config');
+    backupDir = path.join(tempDir, 'backup');
+    fs.mkdirSync(configDir);
+    fs.mkdirSync(backupDir);
+    fs.writeFileSync(path.join(backupDir, 'work.json'), credentials('team', 'work-token'));
+    fs.writeFileSync(path.join(backupDir, 'personal.json'), credentials('max', 'personal-token'));
+    manager = new CredentialManager({ configDir, backupDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should_return_null_without_active_credentials', async () => {
+    expect(await manager.getCurrentAccount([work, personal])).toBeNull();
+  });
+
+  it('should_switch_and_detect_account_by_refresh_token', async () => {
+    await manager.switchAccount(personal);
+
+    expect(await manager.getCurrentAccount([work, personal])).toEqual({
+      account: 'personal',
+      subscriptionType: 'max',
+    });
+  });
+
+  it('should_fall_back_to_unique_subscription_type_after_token_refresh', async () => {
+    fs.writeFileSync(path.join(configDir, '.credentials.json'), credentials('team', 'rotated'));
+
+    expect((await manager.getCurrentAccount([work, personal]))?.account).toBe('work');
+
+    // 같은 구독 타입이 둘이면 판별 불가
+    fs.writeFileSync(path.join(backupDir, 'work-2.json'), credentials('team', 'other'));
+    const second: ClaudeAccount = { ...work, id: 'work-2', credentialFile: 'work-2.json' };
+    expect((await manager.getCurrentAccount([work, second]))?.account).toBeNull();
+  });
+
+  it('should_reject_switch_without_backup', async () => {
+    const missing: ClaudeAccount = { ...work, id: 'missing', credentialFile: 'missing.json' };
+
+    expect(await manager.hasBackup(missing)).toBe(false);
+    await expect(manager.switchAccount(missing)).rejects.toThrow('Backup file not found');
+  });
+
+  it('should_list_backup_files', () => {
+    fs.writeFileSync(path.join(backupDir, 'notes.txt'), '');
+
+    expect(manager.listBackupFiles()).toEqual(['personal.json', 'work.json']);
+  });
+});
@@ -718,8 +718,8 @@ describe('PylonMcpServer Share Actions', () => {
 
       // Assert
       expect(response.success).toBe(true);
-      // URL 형식: /share/{shareId}
-      expect(response.url).toMatch(/\/share\/[a-zA-Z0-9]{12}$/);
+      // URL 형식: /share/{shareId}#k={공유 키} (키는 fragment라 서버로 전송되지 않음)
+      expect(response.url).toMatch(/\/share\/[a-zA-Z0-9]{12}#k=[A-Za-z0-9_-]{43}$/);
     });
   });
 });
@@ -0,0 +1,342 @@
+/**
+ * GitService 테스트
+ *
+ * 테스트 항목:
+ * - 기준점 스냅샷 (깨끗한 트리 / 수정된 트리 / untracked 파일 / 리포지터리 아님 / ref 고정)
+ * - 상태 조회 (브랜치, 스테이징, untracked, 기준점 이후 변경)
+ * - diff (conversation/staged/unstaged, untracked 파일)
+ * - 로그, 파일 되돌리기, 커밋, 부분 커밋 후 기준점 이동
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GitService } from '../../src/managers/git-service.js';
+
+describe('GitService', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let git: GitService;
+  const savedEnv: Record<string, string | undefined> = {};
+  const identity = {
+    GIT_AUTHOR_NAME: 'test',
+    GIT_AUTHOR_EMAIL: 'test@example.com',
+    GIT_COMMITTER_NAME: 'test',
+    GIT_COMMITTER_EMAIL: 'test@example.com',
+  };
+
+  const run = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+  const read = (file: string) => fs.readFileSync(path.join(repoDir, file), 'utf-8');
+
+  beforeEach(() => {
+    for (const [key, value] of Object.entries(identity)) {
+      savedEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'estelle-git-'));
+    repoDir = path.join(tempDir, 'project');
+    fs.mkdirSync(repoDir);
+    run('init', '-q', '-b', 'main');
+    write('a.txt', 'one\n');
+    write('src/b.txt', 'two\n');
+    run('add', '-A');
+    run('commit', '-q', '-m', 'init');
+    git = new GitService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  describe('snapshot', () => {
+    it('should return HEAD for a clean tree', async () => {
+      expect(await git.snapshot(repoDir)).toBe(run('rev-parse', 'HEAD'));
+    });
+
+    it('should capture uncommitted changes without touching the tree', async () => {
+      write('a.txt', 'dirty\n');
+
+      const baseline = await git.snapshot(repoDir);
+
+      expect(baseline).not.toBe(run('rev-parse', 'HEAD'));
+      expect(run('show', `${baseline}:a.txt`)).toBe('dirty');
+      expect(read('a.txt')).toBe('dirty\n');
+      expect(run('stash', 'list')).toBe('');
+    });
+
+    it('should return null outside a repository', async () => {
+      expect(await git.snapshot(tempDir)).toBeNull();
+    });
+
+    it('should include untracked files but not ignored ones', async () => {
+      write('.gitignore', 'build/\n');
+      run('add', '.gitignore');
+      run('commit', '-q', '-m', 'ignore');
+      write('notes.txt', 'mine\n');
+      write('build/out.js', 'generated\n');
+
+      const baseline = await git.snapshot(repoDir);
+
+      expect(run('show', `${baseline}:notes.txt`)).toBe('mine');
+      expect(run('ls-tree', '-r', '--name-only', baseline!)).not.toContain('build/out.js');
+      expect(run('status', '--porcelain')).toBe('?? notes.txt');
+    });
+
+    it('should pin the baseline under the conversation ref', async () => {
+      write('a.txt', 'dirty\n');
+
+      const baseline = await git.snapshot(repoDir, 7);
+
+      expect(run('rev-parse', 'refs/estelle/baselines/7')).toBe(baseline);
+
+      await git.releaseBaseline(repoDir, 7);
+      expect(() => run('rev-parse', '--verify', '-q', 'refs/estelle/baselines/7')).toThrow();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report branch, staged, unstaged and untracked files', async () => {
+      write('a.txt', 'changed\n');
+      run('add', 'a.txt');
+      write('src/b.txt', 'changed\n');
+      write('new file.txt', 'new\n');
+
+      const status = await git.getStatus(repoDir, null);
+
+      expect(status.branch).toBe('main');
+      expect(status.upstream).toBeNull();
+      expect(status.staged).toEqual([{ path: 'a.txt', kind: 'modified' }]);
+      expect(status.unstaged).toEqual([{ path: 'src/b.txt', kind: 'modified' }]);
+      expect(status.untracked).toEqual(['new file.txt']);
+      expect(status.changes).toEqual([]);
+    });
+
+    it('should list changes since the baseline only', async () => {
+      write('a.txt', 'before conversation\n');
+      const baseline = await git.snapshot(repoDir);
+      write('src/b.txt', 'by claude\n');
+      fs.rmSync(path.join(repoDir, 'a.txt'));
+      write('c.txt', 'new\n');
+
+      const status = await git.getStatus(repoDir, baseline);
+
+      expect(status.baseline).toBe(baseline);
+      expect(status.changes).toEqual([
+        { path: 'a.txt', kind: 'deleted' },
+        { path: 'c.txt', kind: 'untracked' },
+        { path: 'src/b.txt', kind: 'modified' },
+      ]);
+    });
+
+    it('should not report untracked files that existed before the baseline', async () => {
+      write('notes.txt', 'mine\n');
+      const baseline = await git.snapshot(repoDir);
+      write('c.txt', 'new\n');
+
+      const status = await git.getStatus(repoDir, baseline);
+
+      expect(status.untracked).toEqual(['c.txt', 'notes.txt']);
+      expect(status.changes).toEqual([{ path: 'c.txt', kind: 'untracked' }]);
+      expect((await git.getDiff(repoDir, 'conversation', { baseline })).diff).not.toContain('notes.txt');
+    });
+
+    it('should work from a subdirectory', async () => {
+      write('src/b.txt', 'changed\n');
+
+      const status = await git.getStatus(path.join(repoDir, 'src'), null);
+
+      expect(status.unstaged).toEqual([{ path: 'src/b.txt', kind: 'modified' }]);
+    });
+
+    it('should throw outside a repository', async () => {
+      await expect(git.getStatus(tempDir, null)).rejects.toThrow('git 리포지터리가 아닙니다');
+    });
+
+    it('should throw when the baseline is gone', async () => {
+      await expect(git.getStatus(repoDir, 'f'.repeat(40))).rejects.toThrow('대화 기준점 커밋을 찾을 수 없습니다');
+    });
+  });
+
+  describe('getDiff', () => {
+    it('should diff against the baseline including untracked files', async () => {
+      const baseline = await git.snapshot(repoDir);
+      write('a.txt', 'changed\n');
+      write('c.txt', 'new\n');
+
+      const { diff, truncated } = await git.getDiff(repoDir, 'conversation', { baseline });
+
+      expect(truncated).toBe(false);
+      expect(diff).toContain('+changed');
+      expect(diff).toContain('+++ b/c.txt');
+    });
+
+    it('should limit the diff to one file', async () => {
+      const baseline = await git.snapshot(repoDir);
+      write('a.txt', 'changed\n');
+      write('src/b.txt', 'changed too\n');
+
+      const { diff } = await git.getDiff(repoDir, 'conversation', { baseline, path: 'src/b.txt' });
+
+      expect(diff).toContain('src/b.txt');
+      expect(diff).not.toContain('a.txt');
+    });
+
+    it('should separate staged and unstaged diffs', async () => {
+      write('a.txt', 'staged\n');
+      run('add', 'a.txt');
+      write('src/b.txt', 'unstaged\n');
+
+      expect((await git.getDiff(repoDir, 'staged')).diff).toContain('+staged');
+      expect((await git.getDiff(repoDir, 'staged')).diff).not.toContain('+unstaged');
+      expect((await git.getDiff(repoDir, 'unstaged')).diff).toContain('+unstaged');
+    });
+
+    it('should require a baseline for conversation diff', async () => {
+      await expect(git.getDiff(repoDir, 'conversation')).rejects.toThrow('대화 기준점이 없습니다');
+    });
+
+    it('should reject paths outside the repository', async () => {
+      await expect(git.getDiff(repoDir, 'unstaged', { path: '../secret' })).rejects.toThrow('잘못된 파일 경로');
+    });
+  });
+
+  describe('getLog', () => {
+    it('should return recent commits newest first', async () => {
+      write('a.txt', 'second\n');
+      run('commit', '-q', '-am', 'second commit');
+
+      const entries = await git.getLog(repoDir, 5);
+
+      expect(entries.map((e) => e.subject)).toEqual(['second commit', 'init']);
+      expect(entries[0].hash).toBe(run('rev-parse', 'HEAD'));
+      expect(entries[0].author).toBe('test');
+    });
+
+    it('should return empty list for a repository without commits', async () => {
+      const emptyRepo = path.join(tempDir, 'empty');
+      fs.mkdirSync(emptyRepo);
+      execFileSync('git', ['init', '-q'], { cwd: emptyRepo });
+
+      expect(await git.getLog(emptyRepo)).toEqual([]);
+    });
+  });
+
+  describe('revertFile', () => {
+    it('should restore a modified file to the baseline', async () => {
+      write('a.txt', 'before conversation\n');
+      const baseline = (await git.snapshot(repoDir))!;
+      write('a.txt', 'by claude\n');
+      run('add', 'a.txt');
+
+      await git.revertFile(repoDir, baseline, 'a.txt');
+
+      expect(read('a.txt')).toBe('before conversation\n');
+      expect((await git.getStatus(repoDir, baseline)).staged).toEqual([]);
+    });
+
+    it('should delete a file created after the baseline', async () => {
+      const baseline = (await git.snapshot(repoDir))!;
+      write('c.txt', 'new\n');
+      write('d.txt', 'staged new\n');
+      run('add', 'd.txt');
+
+      await git.revertFile(repoDir, baseline, 'c.txt');
+      await git.revertFile(repoDir, baseline, 'd.txt');
+
+      expect(fs.existsSync(path.join(repoDir, 'c.txt'))).toBe(false);
+      expect(fs.existsSync(path.join(repoDir, 'd.txt'))).toBe(false);
+      expect((await git.getStatus(repoDir, baseline)).changes).toEqual([]);
+    });
+
+    it('should keep an untracked file that existed before the baseline', async () => {
+      write('notes.txt', 'mine\n');
+      const baseline = (await git.snapshot(repoDir))!;
+      write('notes.txt', 'edited by claude\n');
+
+      await git.revertFile(repoDir, baseline, 'notes.txt');
+
+      expect(read('notes.txt')).toBe('mine\n');
+      expect(run('status', '--porcelain')).toBe('?? notes.txt');
+    });
+
+    it('should restore a deleted file', async () => {
+      const baseline = (await git.snapshot(repoDir))!;
+      fs.rmSync(path.join(repoDir, 'src/b.txt'));
+
+      await git.revertFile(repoDir, baseline, 'src/b.txt');
+
+      expect(read('src/b.txt')).toBe('two\n');
+    });
+  });
+
+  describe('commit', () => {
+    it('should commit all changes', async () => {
+      write('a.txt', 'changed\n');
+      write('c.txt', 'new\n');
+
+      const commit = await git.commit(repoDir, 'Update files');
+
+      expect(commit.subject).toBe('Update files');
+      expect(commit.hash).toBe(run('rev-parse', 'HEAD'));
+      expect(run('status', '--porcelain')).toBe('');
+    });
+
+    it('should commit only the given paths', async () => {
+      write('a.txt', 'changed\n');
+      write('c.txt', 'new\n');
+
+      await git.commit(repoDir, 'Add c', ['c.txt']);
+
+      expect(run('show', '--name-only', '--format=', 'HEAD')).toBe('c.txt');
+      expect(run('status', '--porcelain')).toBe('M a.txt');
+    });
+
+    it('should reject an empty message', async () => {
+      write('a.txt', 'changed\n');
+
+      await expect(git.commit(repoDir, '  ')).rejects.toThrow('커밋 메시지를 입력하세요.');
+    });
+
+    it('should surface git errors', async () => {
+      await expect(git.commit(repoDir, 'Nothing')).rejects.toThrow('git 명령 실패');
+    });
+  });
+
+  describe('advanceBaseline', () => {
+    it('should move only the committed paths to HEAD', async () => {
+      const baseline = (await git.snapshot(repoDir))!;
+      write('a.txt', 'changed\n');
+      write('src/b.txt', 'changed\n');
+      await git.commit(repoDir, 'Update a', ['a.txt']);
+
+      const next = await git.advanceBaseline(repoDir, baseline, ['a.txt']);
+
+      const status = await git.getStatus(repoDir, next);
+      expect(status.changes).toEqual([{ path: 'src/b.txt', kind: 'modified' }]);
+      expect(run('status', '--porcelain')).toBe('M src/b.txt');
+    });
+
+    it('should drop a committed new file from the baseline changes', async () => {
+      const baseline = (await git.snapshot(repoDir))!;
+      write('a.txt', 'changed\n');
+      write('c.txt', 'new\n');
+      await git.commit(repoDir, 'Add c', ['c.txt']);
+
+      const next = await git.advanceBaseline(repoDir, baseline, ['c.txt']);
+
+      const status = await git.getStatus(repoDir, next);
+      expect(status.changes).toEqual([{ path: 'a.txt', kind: 'modified' }]);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * @file scheduler.test.ts
+ * @description Scheduler 테스트
+ *
+ * 실행 시각 계산, 실행 결과 기록(성공/건너뜀/실패), 즉시 실행을 테스트합니다.
+ * 시각은 now 옵션으로 주입합니다.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ScheduleInput } from '@estelle/core';
+import { Scheduler, type SchedulerOptions } from '../../src/managers/scheduler.js';
+import { ScheduleStore } from '../../src/stores/schedule-store.js';
+
+/** 2026-01-05 (월) 08:59 로컬 시간 */
+const MONDAY_0859 = new Date(2026, 0, 5, 8, 59).getTime();
+const MONDAY_0900 = new Date(2026, 0, 5, 9, 0).getTime();
+const TUESDAY_0900 = new Date(2026, 0, 6, 9, 0).getTime();
+
+function input(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    workspaceId: 129,
+    name: '아침 점검',
+    cron: '0 9 * * *',
+    action: { kind: 'text', text: '빌드 상태 확인해줘' },
+    conversationMode: 'reuse',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('Scheduler', () => {
+  let store: ScheduleStore;
+  let now: number;
+  let execute: ReturnType<typeof vi.fn>;
+  let onChange: ReturnType<typeof vi.fn>;
+  let onRun: ReturnType<typeof vi.fn>;
+
+  function createScheduler(options: Partial<SchedulerOptions> = {}): Scheduler {
+    return new Scheduler(store, {
+      execute: execute as SchedulerOptions['execute'],
+      onChange,
+      onRun,
+      now: () => now,
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    store = new ScheduleStore(':memory:');
+    now = MONDAY_0859;
+    execute = vi.fn().mockResolvedValue({ status: 'succeeded', conversationId: 132097 });
+    onChange = vi.fn();
+    onRun = vi.fn();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('create/update', () => {
+    it('should compute next run time', () => {
+      const scheduler = createScheduler();
+
+      const result = scheduler.create(input());
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.schedule.nextRunAt).toBe(MONDAY_0900);
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid cron', () => {
+      const scheduler = createScheduler();
+
+      const result = scheduler.create(input({ cron: '61 * * * *' }));
+
+      expect(result.success).toBe(false);
+      expect(store.list()).toEqual([]);
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('should trim name and drop empty conversation name', () => {
+      const scheduler = createScheduler();
+
+      const result = scheduler.create(input({ name: '  점검  ', conversationName: '  ' }));
+
+      expect(result.success && result.schedule.name).toBe('점검');
+      expect(result.success && result.schedule).not.toHaveProperty('conversationName');
+    });
+
+    it('should clear next run when disabled', () => {
+      const scheduler = createScheduler();
+      const created = scheduler.create(input());
+      const scheduleId = created.success ? created.schedule.scheduleId : -1;
+
+      const result = scheduler.update(scheduleId, input({ enabled: false }));
+
+      expect(result.success && result.schedule.nextRunAt).toBeNull();
+    });
+
+    it('should fail to update missing schedule', () => {
+      const scheduler = createScheduler();
+
+      expect(scheduler.update(99, input())).toEqual({ success: false, error: 'Schedule not found: 99' });
+    });
+  });
+
+  describe('tick', () => {
+    it('should run due schedules once and compute next run', async () => {
+      const scheduler = createScheduler();
+      scheduler.create(input());
+
+      expect(await scheduler.tick()).toEqual([]);
+
+      now = MONDAY_0900 + 10_000;
+      const runs = await scheduler.tick();
+
+      expect(runs).toEqual([
+        { scheduleId: 1, runAt: now, status: 'succeeded', manual: false, conversationId: 132097 },
+      ]);
+      expect(execute).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 1, name: '아침 점검' }));
+      expect(scheduler.get(1)!.nextRunAt).toBe(TUESDAY_0900);
+      expect(scheduler.get(1)!.lastRun).toEqual(runs[0]);
+      expect(await scheduler.tick()).toEqual([]);
+    });
+
+    it('should record the run only after the conversation finishes', async () => {
+      let finish!: (execution: unknown) => void;
+      execute.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+      const scheduler = createScheduler();
+      scheduler.create(input());
+
+      now = MONDAY_0900;
+      const pending = scheduler.tick();
+      expect(scheduler.get(1)!.nextRunAt).toBe(TUESDAY_0900);
+      expect(store.getRuns(1)).toEqual([]);
+
+      now = MONDAY_0900 + 60_000;
+      finish({ status: 'failed', conversationId: 132097, reason: '종료: error_max_turns' });
+      const [run] = await pending;
+
+      expect(run).toMatchObject({ runAt: MONDAY_0900, status: 'failed', error: '종료: error_max_turns' });
+      expect(onRun).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 1 }), run);
+      expect(store.getRuns(1)).toEqual([run]);
+    });
+
+    it('should skip disabled schedules', async () => {
+      const scheduler = createScheduler();
+      scheduler.create(input({ enabled: false }));
+
+      now = MONDAY_0900;
+      expect(await scheduler.tick()).toEqual([]);
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should record skipped run with reason', async () => {
+      execute.mockResolvedValue({ status: 'skipped', conversationId: 132097, reason: 'Previous run is still in progress' });
+      const scheduler = createScheduler();
+      scheduler.create(input());
+
+      now = MONDAY_0900;
+      const [run] = await scheduler.tick();
+
+      expect(run).toMatchObject({ status: 'skipped', error: 'Previous run is still in progress' });
+    });
+
+    it('should record failed run and report it', async () => {
+      execute.mockRejectedValue(new Error('Command not found: 3'));
+      const scheduler = createScheduler();
+      scheduler.create(input());
+
+      now = MONDAY_0900;
+      const [run] = await scheduler.tick();
+
+      expect(run).toMatchObject({ status: 'failed', error: 'Command not found: 3' });
+      expect(onRun).toHaveBeenCalledWith(expect.objectContaining({ scheduleId: 1 }), run);
+      expect(store.getRuns(1)).toEqual([run]);
+    });
+
+    it('should not catch up runs missed before start', async () => {
+      const created = store.create(input());
+
+      now = TUESDAY_0900 - 60_000;
+      const scheduler = createScheduler();
+
+      expect(scheduler.get(created.scheduleId)!.nextRunAt).toBe(TUESDAY_0900);
+      expect(await scheduler.tick()).toEqual([]);
+    });
+  });
+
+  describe('runNow', () => {
+    it('should run immediately without changing next run', async () => {
+      const scheduler = createScheduler();
+      scheduler.create(input({ enabled: false }));
+
+      const run = await scheduler.runNow(1);
+
+      expect(run).toMatchObject({ status: 'succeeded', manual: true });
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(scheduler.get(1)!.nextRunAt).toBeNull();
+    });
+
+    it('should return null for missing schedule', async () => {
+      expect(await createScheduler().runNow(99)).toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete schedule and notify', () => {
+      const scheduler = createScheduler();
+      scheduler.create(input());
+      onChange.mockClear();
+
+      expect(scheduler.delete(1)).toBe(true);
+      expect(scheduler.list()).toEqual([]);
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(scheduler.delete(1)).toBe(false);
+    });
+
+    it('should delete schedules of workspace', () => {
+      const scheduler = createScheduler();
+      scheduler.create(input({ workspaceId: 129 }));
+      scheduler.create(input({ workspaceId: 130 }));
+
+      scheduler.deleteByWorkspace(129);
+
+      expect(scheduler.list().map((s) => s.workspaceId)).toEqual([130]);
+      expect(scheduler.list(130)).toHaveLength(1);
+    });
+  });
+
+  describe('start/stop', () => {
+    it('should tick on interval', () => {
+      vi.useFakeTimers();
+      try {
+        const scheduler = createScheduler({ intervalMs: 1000 });
+        scheduler.create(input());
+        now = MONDAY_0900;
+
+        scheduler.start();
+        vi.advanceTimersByTime(1000);
+        expect(execute).toHaveBeenCalledTimes(1);
+
+        scheduler.stop();
+        now = TUESDAY_0900;
+        vi.advanceTimersByTime(5000);
+        expect(execute).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
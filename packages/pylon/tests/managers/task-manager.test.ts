@@ -424,6 +424,191 @@ ${longContent}`
       expect(content).toContain('status: pending');
       expect(content).toContain('## 본문');
     });
+
+    it('should write scheduling options to frontmatter', () => {
+      const dep = taskManager.createTask(workingDir, 'Dep', 'content');
+      const result = taskManager.createTask(workingDir, 'Options', 'content', {
+        priority: 2,
+        dependsOn: [dep.task!.id],
+        maxRetries: 3,
+        timeout: 45,
+      });
+
+      expect(result.success).toBe(true);
+      const task = taskManager.getTask(workingDir, result.task!.id).task;
+      expect(task?.priority).toBe(2);
+      expect(task?.dependsOn).toEqual([dep.task!.id]);
+      expect(task?.maxRetries).toBe(3);
+      expect(task?.retryCount).toBe(0);
+      expect(task?.timeout).toBe(45);
+    });
+
+    it('should reject unknown dependencies', () => {
+      const result = taskManager.createTask(workingDir, 'Orphan', 'content', {
+        dependsOn: ['missing-id'],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('missing-id');
+      expect(fs._getFileCount()).toBe(0);
+    });
+
+    it('should reject dependencies that lead into a cycle', () => {
+      fs._setDirectory(`${taskDir}`);
+      fs._setFile(
+        `${taskDir}\\20260124-a.md`,
+        `---\nid: task-a\ntitle: A\nstatus: pending\ndependsOn: [task-b]\n---\ncontent`
+      );
+      fs._setFile(
+        `${taskDir}\\20260124-b.md`,
+        `---\nid: task-b\ntitle: B\nstatus: pending\ndependsOn: [task-a]\n---\ncontent`
+      );
+
+      const result = taskManager.createTask(workingDir, 'Cyclic', 'content', {
+        dependsOn: ['task-a'],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('순환');
+      expect(result.error).toContain('task-a → task-b → task-a');
+    });
+
+    it('should reject invalid retry and timeout values', () => {
+      expect(taskManager.createTask(workingDir, 'T', 'c', { maxRetries: -1 }).success).toBe(false);
+      expect(taskManager.createTask(workingDir, 'T', 'c', { timeout: 0 }).success).toBe(false);
+      expect(taskManager.createTask(workingDir, 'T', 'c', { priority: 1.5 }).success).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // 태스크 수정 / 순서 변경 테스트
+  // ============================================================================
+  describe('updateTask', () => {
+    it('should update only the given fields and keep the file name', () => {
+      const created = taskManager.createTask(workingDir, 'Before', '원래 본문');
+      const id = created.task!.id;
+
+      const result = taskManager.updateTask(workingDir, id, { title: 'After', priority: 3, timeout: 10 });
+
+      expect(result.success).toBe(true);
+      const task = taskManager.getTask(workingDir, id).task;
+      expect(task).toMatchObject({ title: 'After', priority: 3, timeout: 10, fileName: created.task!.fileName });
+      expect(task?.content).toBe('원래 본문');
+
+      taskManager.updateTask(workingDir, id, { body: '새 본문', timeout: null });
+      expect(taskManager.getTask(workingDir, id).task).toMatchObject({ content: '새 본문', timeout: null, title: 'After' });
+    });
+
+    it('should reject a running task', () => {
+      const id = taskManager.createTask(workingDir, 'Running', 'c').task!.id;
+      taskManager.updateTaskStatus(workingDir, id, 'running');
+
+      const result = taskManager.updateTask(workingDir, id, { title: 'X' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('실행 중');
+    });
+
+    it('should reject dependencies that would create a cycle', () => {
+      const a = taskManager.createTask(workingDir, 'A', 'c').task!.id;
+      const b = taskManager.createTask(workingDir, 'B', 'c', { dependsOn: [a] }).task!.id;
+
+      const result = taskManager.updateTask(workingDir, a, { dependsOn: [b] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`${a} → ${b} → ${a}`);
+      expect(taskManager.updateTask(workingDir, a, { dependsOn: [a] }).success).toBe(false);
+    });
+
+    it('should reject titles with line breaks', () => {
+      const id = taskManager.createTask(workingDir, 'Safe', 'c').task!.id;
+
+      const result = taskManager.updateTask(workingDir, id, { title: 'Evil\nstatus: done' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('줄바꿈');
+      expect(taskManager.getTask(workingDir, id).task).toMatchObject({ title: 'Safe', status: 'pending' });
+      expect(taskManager.createTask(workingDir, 'Evil\r\n---', 'c').success).toBe(false);
+    });
+  });
+
+  describe('reorderPendingTasks', () => {
+    it('should run pending tasks in the given order', () => {
+      const first = taskManager.createTask(workingDir, 'First', 'c').task!.id;
+      const second = taskManager.createTask(workingDir, 'Second', 'c').task!.id;
+      const third = taskManager.createTask(workingDir, 'Third', 'c').task!.id;
+
+      const result = taskManager.reorderPendingTasks(workingDir, [third, first, second]);
+
+      expect(result.success).toBe(true);
+      expect(taskManager.getNextPendingTask(workingDir)?.id).toBe(third);
+      taskManager.updateTaskStatus(workingDir, third, 'done');
+      expect(taskManager.getNextPendingTask(workingDir)?.id).toBe(first);
+    });
+
+    it('should renumber pending tasks missing from the list after the given ones', () => {
+      const high = taskManager.createTask(workingDir, 'High', 'c', { priority: 10 }).task!.id;
+      const low = taskManager.createTask(workingDir, 'Low', 'c').task!.id;
+      const moved = taskManager.createTask(workingDir, 'Moved', 'c').task!.id;
+
+      taskManager.reorderPendingTasks(workingDir, [moved]);
+
+      const order: string[] = [];
+      for (let next = taskManager.getNextPendingTask(workingDir); next; next = taskManager.getNextPendingTask(workingDir)) {
+        order.push(next.id);
+        taskManager.updateTaskStatus(workingDir, next.id, 'done');
+      }
+      expect(order).toEqual([moved, high, low]);
+    });
+  });
+
+  // ============================================================================
+  // 재시도 테스트
+  // ============================================================================
+  describe('retryTask', () => {
+    it('should put the task back to pending and count the retry', () => {
+      const created = taskManager.createTask(workingDir, 'Retry', '본문', { maxRetries: 2 });
+      const id = created.task!.id;
+      taskManager.updateTaskStatus(workingDir, id, 'running');
+
+      const result = taskManager.retryTask(workingDir, id, 'boom');
+
+      expect(result.success).toBe(true);
+      expect(result.task?.status).toBe('pending');
+      expect(result.task?.retryCount).toBe(1);
+      expect(result.task?.startedAt).toBeNull();
+      expect(result.task?.error).toBe('boom');
+      expect(taskManager.getTask(workingDir, id).task?.content).toContain('본문');
+    });
+
+    it('should keep a multi-line error inside its frontmatter field', () => {
+      const id = taskManager.createTask(workingDir, 'Retry', '본문', { maxRetries: 1 }).task!.id;
+      taskManager.updateTaskStatus(workingDir, id, 'running');
+
+      taskManager.retryTask(workingDir, id, 'boom\nstatus: done\n---');
+
+      expect(taskManager.getTask(workingDir, id).task).toMatchObject({
+        status: 'pending',
+        error: 'boom status: done ---',
+        content: '본문',
+      });
+    });
+  });
+
+  // ============================================================================
+  // 결과 브랜치 테스트
+  // ============================================================================
+  describe('setTaskBranch', () => {
+    it('should record and clear the result branch', () => {
+      const created = taskManager.createTask(workingDir, 'Branch', '본문');
+      const id = created.task!.id;
+      expect(taskManager.getTask(workingDir, id).task?.branch).toBeNull();
+
+      expect(taskManager.setTaskBranch(workingDir, id, 'estelle/task-1').task?.branch).toBe('estelle/task-1');
+      expect(taskManager.getTask(workingDir, id).task?.branch).toBe('estelle/task-1');
+
+      expect(taskManager.setTaskBranch(workingDir, id, null).task?.branch).toBeNull();
+    });
   });
 
   // ============================================================================
@@ -550,6 +735,46 @@ content`
       expect(task?.id).toBe('older-id');
     });
 
+    it('should prefer higher priority over FIFO order', () => {
+      fs._setDirectory(`${taskDir}`);
+      fs._setFile(`${taskDir}\\20260120-low.md`, `---\nid: low-id\nstatus: pending\n---\ncontent`);
+      fs._setFile(`${taskDir}\\20260125-high.md`, `---\nid: high-id\nstatus: pending\npriority: 5\n---\ncontent`);
+
+      expect(taskManager.getNextPendingTask(workingDir)?.id).toBe('high-id');
+    });
+
+    it('should wait until all dependencies are done', () => {
+      fs._setDirectory(`${taskDir}`);
+      fs._setFile(`${taskDir}\\20260120-base.md`, `---\nid: base-id\nstatus: running\n---\ncontent`);
+      fs._setFile(
+        `${taskDir}\\20260121-child.md`,
+        `---\nid: child-id\nstatus: pending\npriority: 9\ndependsOn: [base-id]\n---\ncontent`
+      );
+      fs._setFile(`${taskDir}\\20260122-other.md`, `---\nid: other-id\nstatus: pending\n---\ncontent`);
+
+      // 의존 태스크가 끝나지 않았으면 우선순위가 높아도 건너뜀
+      expect(taskManager.getNextPendingTask(workingDir)?.id).toBe('other-id');
+
+      taskManager.updateTaskStatus(workingDir, 'base-id', 'done');
+      expect(taskManager.getNextPendingTask(workingDir)?.id).toBe('child-id');
+    });
+
+    it('should fill defaults for tasks without scheduling fields', () => {
+      fs._setDirectory(`${taskDir}`);
+      fs._setFile(`${taskDir}\\20260120-legacy.md`, `---\nid: legacy-id\nstatus: pending\n---\ncontent`);
+
+      const task = taskManager.getNextPendingTask(workingDir);
+
+      expect(task).toMatchObject({
+        id: 'legacy-id',
+        priority: 0,
+        dependsOn: [],
+        maxRetries: 0,
+        retryCount: 0,
+        timeout: null,
+      });
+    });
+
     it('should return null when no pending tasks', () => {
       fs._setDirectory(`${taskDir}`);
       fs._setFile(
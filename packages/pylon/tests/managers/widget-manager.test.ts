@@ -8,6 +8,9 @@
 
 import { EventEmitter } from 'events';
 import { ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   WidgetManager,
@@ -16,6 +19,7 @@ import {
   type WidgetCompleteEvent,
   type WidgetErrorEvent,
 } from '../../src/managers/widget-manager.js';
+import type { ProcessUsage, WidgetProcessControl } from '../../src/managers/widget-sandbox.js';
 
 // ============================================================================
 // Mock Process
@@ -52,6 +56,16 @@ class MockChildProcess extends EventEmitter {
 
 let mockProcess: MockChildProcess;
 let spawnMock: ReturnType<typeof vi.fn>;
+let mockUsage: ProcessUsage | null;
+
+// 실제 프로세스 그룹에 신호를 보내지 않도록 교체
+const processControl: WidgetProcessControl = {
+  killTree: (proc) => {
+    proc.kill('SIGTERM');
+  },
+  canJail: () => true,
+  readUsage: async () => mockUsage,
+};
 
 // spawn을 모킹
 vi.mock('child_process', async () => {
@@ -113,7 +127,8 @@ describe('WidgetManager', () => {
   beforeEach(() => {
     mockProcess = new MockChildProcess();
     spawnMock = vi.fn();
-    manager = new WidgetManager();
+    mockUsage = null;
+    manager = new WidgetManager({ processControl, monitorIntervalMs: 5 });
     // cancelSession이 error 이벤트를 emit하므로 unhandled error 방지
     manager.on('error', () => {});
   });
@@ -206,6 +221,23 @@ describe('WidgetManager', () => {
       );
     });
 
+    it('should merge extra env into the process environment', () => {
+      const sessionId = manager.prepareSession({
+        command: 'node',
+        cwd: '/project',
+        env: { ESTELLE_WIDGET_INPUT: '{"prompt":"cat"}' },
+        conversationId: 123,
+        toolUseId: 'tool-1',
+      });
+
+      manager.startSessionProcess(sessionId, 1);
+
+      const options = spawnMock.mock.calls[0][2] as { env: Record<string, string> };
+      expect(options.env.ESTELLE_WIDGET_INPUT).toBe('{"prompt":"cat"}');
+      expect(options.env.PATH).toBe(process.env.PATH);
+      expect(manager.toJSON().sessions[0].env).toEqual({ ESTELLE_WIDGET_INPUT: '{"prompt":"cat"}' });
+    });
+
     it('should return false for non-existent session', () => {
       const result = manager.startSessionProcess('non-existent', 1);
       expect(result).toBe(false);
@@ -763,6 +795,44 @@ describe('WidgetManager', () => {
 
         expect(result).toEqual({ cancelled: true, reason: 'claimed_by_other' });
       });
+
+      it('should reattach running session without owner', () => {
+        const sessionId = startSession({ command: 'node', cwd: '/workspace' });
+        manager.detachOwner(1);
+
+        const result = manager.claimOwnership(sessionId, 999);
+
+        expect(result).toEqual({ reattached: true });
+        expect(manager.getSession(sessionId)?.ownerClientId).toBe(999);
+        expect(manager.getSession(sessionId)?.status).toBe('running');
+        expect(mockProcess.killed).toBe(false);
+      });
+
+      it('should reattach when owner claims again', () => {
+        const sessionId = startSession({ command: 'node', cwd: '/workspace' });
+
+        expect(manager.claimOwnership(sessionId, 1)).toEqual({ reattached: true });
+        expect(mockProcess.killed).toBe(false);
+      });
+    });
+
+    describe('detachOwner', () => {
+      it('should clear owner and keep process running', () => {
+        const sessionId = startSession({ command: 'node', cwd: '/workspace' });
+
+        const detached = manager.detachOwner(1);
+
+        expect(detached.map((s) => s.sessionId)).toEqual([sessionId]);
+        expect(manager.getSession(sessionId)?.ownerClientId).toBeNull();
+        expect(manager.getSession(sessionId)?.status).toBe('running');
+        expect(mockProcess.killed).toBe(false);
+      });
+
+      it('should ignore sessions of other clients', () => {
+        startSession({ command: 'node', cwd: '/workspace' });
+
+        expect(manager.detachOwner(999)).toEqual([]);
+      });
     });
 
     describe('isOwner', () => {
@@ -832,6 +902,273 @@ describe('WidgetManager', () => {
 
   });
 
+  // ============================================================================
+  // 영속화 테스트
+  // ============================================================================
+  describe('persistence', () => {
+    const view = { type: 'text' as const, content: '생성 중 3/10' };
+
+    it('should keep last rendered view', async () => {
+      const sessionId = startSession({ command: 'node', cwd: '/workspace' });
+
+      mockProcess.emitLine(JSON.stringify({ type: 'render', view }));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(manager.getSession(sessionId)?.lastView).toEqual(view);
+    });
+
+    it('should emit change on prepare, render and finish', async () => {
+      const changeSpy = vi.fn();
+      manager.on('change', changeSpy);
+
+      startSession({ command: 'node', cwd: '/workspace' });
+      mockProcess.emitLine(JSON.stringify({ type: 'render', view }));
+      mockProcess.emitLine(JSON.stringify({ type: 'complete', result: { ok: true } }));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(changeSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should serialize only live sessions', async () => {
+      const runningId = startSession({ command: 'node gen.js', cwd: '/workspace', toolUseId: 'tool-1' });
+      mockProcess.emitLine(JSON.stringify({ type: 'render', view }));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const cancelledId = manager.prepareSession({ command: 'x', cwd: '/', conversationId: 1, toolUseId: 'tool-2' });
+      manager.cancelSession(cancelledId);
+
+      const data = manager.toJSON();
+
+      expect(data.sessions).toEqual([
+        {
+          sessionId: runningId,
+          conversationId: 123,
+          toolUseId: 'tool-1',
+          command: 'node gen.js',
+          cwd: '/workspace',
+          args: undefined,
+          lastView: view,
+        },
+      ]);
+    });
+
+    it('should restore sessions as ready and restart CLI on claim', () => {
+      const restored = WidgetManager.fromJSON({
+        sessions: [
+          { sessionId: 'widget-1-100', conversationId: 123, toolUseId: 'tool-1', command: 'node gen.js', cwd: '/workspace', lastView: view },
+        ],
+      }, { processControl });
+
+      const session = restored.getSession('widget-1-100');
+      expect(session).toMatchObject({ status: 'ready', ownerClientId: null, process: null, restored: true, lastView: view });
+      expect(restored.getRestoredSessions()).toHaveLength(1);
+
+      expect(restored.claimOwnership('widget-1-100', 42)).toEqual({ started: true });
+      expect(spawnMock).toHaveBeenCalledWith('node gen.js', [], expect.objectContaining({ cwd: '/workspace' }));
+      expect(restored.getRestoredSessions()).toHaveLength(0);
+
+      restored.cleanup();
+    });
+  });
+
+  // ============================================================================
+  // 샌드박스 테스트
+  // ============================================================================
+  describe('sandbox', () => {
+    // 제한 위반으로 종료될 때 kill은 신호 종료(code null)처럼 동작
+    const killAsSignal = () => {
+      mockProcess.kill = function (this: MockChildProcess) {
+        this.killed = true;
+        this.emit('close', null);
+        return true;
+      };
+    };
+
+    const startSandboxed = (sandbox: Record<string, unknown>, cwd = '/workspace'): string => {
+      const sessionId = manager.prepareSession({
+        command: 'node gen.js',
+        cwd,
+        env: { ESTELLE_WIDGET_INPUT: '{}' },
+        sandbox,
+        conversationId: 123,
+        toolUseId: 'tool-1',
+      });
+      manager.startSessionProcess(sessionId, 1);
+      return sessionId;
+    };
+
+    it.runIf(process.platform !== 'win32')('should detach only sandboxed widgets into their own process group', () => {
+      startSandboxed({ timeoutSeconds: 60 });
+      const plainId = manager.prepareSession({ command: 'node gen.js', cwd: '/workspace', conversationId: 124, toolUseId: 'tool-2' });
+      manager.startSessionProcess(plainId, 1);
+
+      expect(spawnMock.mock.calls[0][2]).toMatchObject({ detached: true });
+      expect(spawnMock.mock.calls[1][2]).toMatchObject({ detached: false });
+    });
+
+    it('should pass only allowed env to sandboxed widgets', () => {
+      process.env.ESTELLE_TEST_SECRET = 'secret';
+      process.env.ESTELLE_TEST_ALLOWED = 'ok';
+      try {
+        startSandboxed({ env: ['ESTELLE_TEST_ALLOWED'] });
+
+        const options = spawnMock.mock.calls[0][2] as { env: Record<string, string> };
+        expect(options.env.ESTELLE_TEST_ALLOWED).toBe('ok');
+        expect(options.env.ESTELLE_TEST_SECRET).toBeUndefined();
+        expect(options.env.PATH).toBe(process.env.PATH);
+        expect(options.env.ESTELLE_WIDGET_INPUT).toBe('{}');
+      } finally {
+        delete process.env.ESTELLE_TEST_SECRET;
+        delete process.env.ESTELLE_TEST_ALLOWED;
+      }
+    });
+
+    it.runIf(process.platform === 'linux')('should run jailed widgets under bwrap with HOME in the working directory', () => {
+      const cwd = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'widget-jail-')));
+      try {
+        startSandboxed({ jail: true }, cwd);
+
+        expect(spawnMock.mock.calls[0][0]).toMatch(/^exec bwrap /);
+        const options = spawnMock.mock.calls[0][2] as { env: Record<string, string> };
+        expect(options.env.HOME).toBe(path.join(cwd, '.sandbox'));
+        expect(fs.existsSync(path.join(cwd, '.sandbox'))).toBe(true);
+      } finally {
+        fs.rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('should fail without spawning when the jailed directory is not a folder', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-jail-'));
+      const file = path.join(dir, 'file.txt');
+      fs.writeFileSync(file, '');
+      const errorSpy = vi.fn();
+      manager.on('error', errorSpy);
+
+      try {
+        const sessionId = startSandboxed({ jail: true }, file);
+
+        expect(spawnMock).not.toHaveBeenCalled();
+        expect(manager.getSession(sessionId)?.status).toBe('error');
+        expect(errorSpy.mock.calls[0][0].error).toContain('작업 디렉토리가 폴더가 아닙니다');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fail without spawning when the jail is not available', () => {
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-jail-'));
+      const noJailManager = new WidgetManager({ processControl: { ...processControl, canJail: () => false } });
+      const errorSpy = vi.fn();
+      noJailManager.on('error', errorSpy);
+
+      try {
+        const sessionId = noJailManager.prepareSession({
+          command: 'node gen.js',
+          cwd,
+          sandbox: { jail: true },
+          conversationId: 123,
+          toolUseId: 'tool-1',
+        });
+
+        expect(noJailManager.startSessionProcess(sessionId, 1)).toBe(false);
+        expect(spawnMock).not.toHaveBeenCalled();
+        expect(errorSpy.mock.calls[0][0].error).toContain('bubblewrap(bwrap)');
+      } finally {
+        noJailManager.cleanup();
+        fs.rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('should kill the widget and report timeout when it runs too long', async () => {
+      killAsSignal();
+      const errorSpy = vi.fn();
+      manager.on('error', errorSpy);
+
+      const sessionId = startSandboxed({ timeoutSeconds: 0.02 });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockProcess.killed).toBe(true);
+      expect(manager.getSession(sessionId)?.status).toBe('error');
+      const event = errorSpy.mock.calls[0][0] as WidgetErrorEvent;
+      expect(event).toEqual({ sessionId, error: '실행 시간 제한(0.02초)을 넘었습니다', limit: 'timeout' });
+    });
+
+    it('should kill the widget and report memory limit violations', async () => {
+      killAsSignal();
+      const errorSpy = vi.fn();
+      manager.on('error', errorSpy);
+
+      const sessionId = startSandboxed({ memoryMb: 64 });
+      mockUsage = { rssBytes: 100 * 1024 * 1024, cpuSeconds: 1 };
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(mockProcess.killed).toBe(true);
+      expect(errorSpy.mock.calls[0][0]).toEqual({ sessionId, error: '메모리 제한(64MB)을 넘었습니다', limit: 'memory' });
+    });
+
+    it('should kill the widget and report cpu limit violations', async () => {
+      killAsSignal();
+      const errorSpy = vi.fn();
+      manager.on('error', errorSpy);
+
+      const sessionId = startSandboxed({ cpuSeconds: 5 });
+      mockUsage = { rssBytes: 1024, cpuSeconds: 6 };
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(errorSpy.mock.calls[0][0]).toMatchObject({ sessionId, limit: 'cpu' });
+    });
+
+    it('should not report a violation while usage stays under the limits', async () => {
+      const errorSpy = vi.fn();
+      manager.on('error', errorSpy);
+
+      const sessionId = startSandboxed({ memoryMb: 64, cpuSeconds: 5 });
+      mockUsage = { rssBytes: 1024, cpuSeconds: 1 };
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(mockProcess.killed).toBe(false);
+      expect(errorSpy).not.toHaveBeenCalled();
+      expect(manager.getSession(sessionId)?.status).toBe('running');
+    });
+
+    it('should kill the process tree on cancel and persist the sandbox option', () => {
+      const killTree = vi.fn();
+      const cancelManager = new WidgetManager({ processControl: { ...processControl, killTree } });
+      cancelManager.on('error', () => {});
+      const sessionId = cancelManager.prepareSession({
+        command: 'node gen.js',
+        cwd: '/workspace',
+        sandbox: { timeoutSeconds: 60 },
+        conversationId: 123,
+        toolUseId: 'tool-1',
+      });
+      expect(cancelManager.toJSON().sessions[0].sandbox).toEqual({ timeoutSeconds: 60 });
+
+      cancelManager.startSessionProcess(sessionId, 1);
+      cancelManager.cancelSession(sessionId);
+
+      expect(killTree).toHaveBeenCalledWith(mockProcess);
+      expect(cancelManager.getSession(sessionId)?.status).toBe('cancelled');
+      cancelManager.cleanup();
+    });
+
+    it('should kill running widgets immediately when cleaning up on exit', () => {
+      const killTree = vi.fn();
+      const exitManager = new WidgetManager({ processControl: { ...processControl, killTree } });
+      const sessionId = exitManager.prepareSession({
+        command: 'node gen.js',
+        cwd: '/workspace',
+        sandbox: { timeoutSeconds: 60 },
+        conversationId: 123,
+        toolUseId: 'tool-1',
+      });
+      exitManager.startSessionProcess(sessionId, 1);
+
+      exitManager.cleanup(true);
+
+      expect(killTree).toHaveBeenCalledWith(mockProcess, true);
+    });
+  });
+
   // ============================================================================
   // 비정상 입력 처리 테스트
   // ============================================================================
@@ -0,0 +1,182 @@
+/**
+ * WidgetRegistry 테스트
+ *
+ * 테스트 항목:
+ * - 패키지 검색 (manifest 없는/잘못된 폴더 제외, 폴더 우선순위)
+ * - 카탈로그 (필수 환경변수 확인: Pylon 환경변수 / 패키지 .env)
+ * - 실행 정보 생성 (실행기, 인자 치환/인용, 입력 환경변수, 검증 오류, 샌드박스)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { WidgetManifest } from '@estelle/core';
+import { WidgetRegistry, WIDGET_INPUT_ENV } from '../../src/managers/widget-registry.js';
+
+describe('WidgetRegistry', () => {
+  let rootDir: string;
+
+  const addWidget = (dir: string, manifest: Partial<WidgetManifest> | string, dotenv?: string) => {
+    const widgetDir = path.join(rootDir, dir);
+    fs.mkdirSync(widgetDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(widgetDir, 'widget.json'),
+      typeof manifest === 'string' ? manifest : JSON.stringify(manifest)
+    );
+    if (dotenv !== undefined) {
+      fs.writeFileSync(path.join(widgetDir, '.env'), dotenv);
+    }
+    return widgetDir;
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-registry-test-'));
+    delete process.env['WIDGET_REGISTRY_TEST_TOKEN'];
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    delete process.env['WIDGET_REGISTRY_TEST_TOKEN'];
+  });
+
+  describe('list', () => {
+    it('should list packages with valid manifests sorted by name', () => {
+      addWidget('b', { name: 'quiver', title: 'Quiver', icon: '🏹', entry: 'index.js' });
+      addWidget('a', { name: 'counter', entry: 'index.js' });
+      addWidget('broken', '{ not json');
+      addWidget('no-entry', { name: 'no-entry' });
+      fs.mkdirSync(path.join(rootDir, 'plain'));
+
+      const registry = new WidgetRegistry([rootDir]);
+
+      expect(registry.list()).toEqual([
+        expect.objectContaining({ name: 'counter', title: 'counter', available: true, missingEnv: [] }),
+        expect.objectContaining({ name: 'quiver', title: 'Quiver', icon: '🏹', available: true }),
+      ]);
+    });
+
+    it('should prefer earlier directories for duplicate names', () => {
+      const otherRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-registry-other-'));
+      try {
+        addWidget('first', { name: 'dup', title: 'First', entry: 'index.js' });
+        fs.mkdirSync(path.join(otherRoot, 'second'));
+        fs.writeFileSync(
+          path.join(otherRoot, 'second', 'widget.json'),
+          JSON.stringify({ name: 'dup', title: 'Second', entry: 'index.js' })
+        );
+
+        const registry = new WidgetRegistry([rootDir, otherRoot, path.join(rootDir, 'missing')]);
+
+        expect(registry.list().map((w) => w.title)).toEqual(['First']);
+      } finally {
+        fs.rmSync(otherRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('should report required env vars missing from process env and .env', () => {
+      addWidget('a', { name: 'a', entry: 'index.js', env: ['WIDGET_REGISTRY_TEST_TOKEN'] });
+      addWidget('b', { name: 'b', entry: 'index.js', env: ['WIDGET_REGISTRY_TEST_TOKEN'] }, 'WIDGET_REGISTRY_TEST_TOKEN=abc\n');
+      addWidget('c', { name: 'c', entry: 'index.js', env: ['WIDGET_REGISTRY_TEST_TOKEN'] }, 'WIDGET_REGISTRY_TEST_TOKEN=\n');
+
+      const registry = new WidgetRegistry([rootDir]);
+
+      expect(registry.list().map((w) => [w.name, w.available, w.missingEnv])).toEqual([
+        ['a', false, ['WIDGET_REGISTRY_TEST_TOKEN']],
+        ['b', true, []],
+        ['c', false, ['WIDGET_REGISTRY_TEST_TOKEN']],
+      ]);
+
+      process.env['WIDGET_REGISTRY_TEST_TOKEN'] = 'set';
+      expect(registry.list().every((w) => w.available)).toBe(true);
+    });
+  });
+
+  describe('resolve', () => {
+    const inputSchema = {
+      type: 'object' as const,
+      properties: {
+        prompt: { type: 'string' as const },
+        size: { type: 'integer' as const, default: 512 },
+      },
+      required: ['prompt'],
+    };
+
+    it('should build a node launch with quoted template args and input env', () => {
+      const widgetDir = addWidget('quiver', {
+        name: 'quiver',
+        entry: 'dist/index.js',
+        args: ['--size', '{size}', '{prompt}'],
+        inputSchema,
+      });
+
+      const launch = new WidgetRegistry([rootDir], 'linux').resolve('quiver', { prompt: "it's a cat; rm -rf /" });
+
+      expect(launch).toEqual({
+        command: 'node',
+        cwd: widgetDir,
+        args: [`'${path.join(widgetDir, 'dist/index.js')}'`, "'--size'", "'512'", `'it'\\''s a cat; rm -rf /'`],
+        env: { [WIDGET_INPUT_ENV]: JSON.stringify({ prompt: "it's a cat; rm -rf /", size: 512 }) },
+      });
+    });
+
+    it('should quote with double quotes on Windows', () => {
+      addWidget('w', { name: 'w', entry: 'main.ts', args: ['{prompt}'], inputSchema });
+
+      const launch = new WidgetRegistry([rootDir], 'win32').resolve('w', { prompt: 'say "hi"' });
+
+      expect(launch.command).toBe('npx');
+      expect(launch.args[0]).toBe('tsx');
+      expect(launch.args[2]).toBe('"say ""hi"""');
+    });
+
+    it('should run other entries directly', () => {
+      const widgetDir = addWidget('bin', { name: 'bin', entry: 'run.sh' });
+
+      const launch = new WidgetRegistry([rootDir], 'linux').resolve('bin');
+
+      expect(launch.command).toBe(`'${path.join(widgetDir, 'run.sh')}'`);
+      expect(launch.args).toEqual([]);
+    });
+
+    it('should pass the sandbox option with required env included', () => {
+      process.env['WIDGET_REGISTRY_TEST_TOKEN'] = 'token';
+      addWidget('a', {
+        name: 'a',
+        entry: 'index.js',
+        env: ['WIDGET_REGISTRY_TEST_TOKEN'],
+        sandbox: { env: ['LANG'], jail: true, timeoutSeconds: 30 },
+      });
+      addWidget('b', { name: 'b', entry: 'index.js' });
+
+      const registry = new WidgetRegistry([rootDir]);
+
+      expect(registry.resolve('a').sandbox).toEqual({
+        env: ['WIDGET_REGISTRY_TEST_TOKEN', 'LANG'],
+        jail: true,
+        timeoutSeconds: 30,
+      });
+      expect(registry.resolve('b').sandbox).toBeUndefined();
+    });
+
+    it('should throw for unknown widgets', () => {
+      expect(() => new WidgetRegistry([rootDir]).resolve('nope')).toThrow('위젯을 찾을 수 없습니다: nope');
+    });
+
+    it('should throw when required env vars are missing', () => {
+      addWidget('a', { name: 'a', entry: 'index.js', env: ['WIDGET_REGISTRY_TEST_TOKEN'] });
+
+      expect(() => new WidgetRegistry([rootDir]).resolve('a')).toThrow(
+        '환경변수가 설정되지 않았습니다: WIDGET_REGISTRY_TEST_TOKEN'
+      );
+    });
+
+    it('should throw on invalid input', () => {
+      addWidget('quiver', { name: 'quiver', entry: 'index.js', inputSchema });
+
+      expect(() => new WidgetRegistry([rootDir]).resolve('quiver', { size: 'big' })).toThrow(
+        '입력이 올바르지 않습니다: prompt: 필수 입력입니다; size: integer 타입이어야 합니다'
+      );
+    });
+  });
+});
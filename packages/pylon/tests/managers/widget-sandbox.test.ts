@@ -0,0 +1,195 @@
+/**
+ * widget-sandbox 테스트
+ *
+ * 테스트 항목:
+ * - 환경변수 허용 목록 / 작업 디렉토리 가두기
+ * - 명령 래핑 (exec, 가두기, 네트워크 차단)
+ * - 작업 디렉토리 준비
+ * - 실제 프로세스 그룹 사용량 조회 (Linux)
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildSandboxCommand,
+  buildSandboxEnv,
+  hasBubblewrap,
+  isSimpleCommand,
+  prepareJail,
+  systemProcessControl,
+  SANDBOX_HOME_DIR,
+} from '../../src/managers/widget-sandbox.js';
+
+/** 프로세스 그룹에 남은 프로세스 상태 (Linux /proc) */
+function groupStates(pgid: number): string[] {
+  const states: string[] = [];
+  for (const entry of fs.readdirSync('/proc').filter((name) => /^\d+$/.test(name))) {
+    try {
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf-8');
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+      if (Number(fields[2]) === pgid) states.push(fields[0]);
+    } catch {
+      // 읽는 사이에 종료된 프로세스
+    }
+  }
+  return states;
+}
+
+describe('widget-sandbox', () => {
+  describe('buildSandboxEnv', () => {
+    const source = { PATH: '/usr/bin', HOME: '/home/pylon', SECRET: 's', HF_TOKEN: 'hf' };
+
+    it('should pass only base and allowed variables', () => {
+      const env = buildSandboxEnv({ env: ['HF_TOKEN'] }, '/widget', { ESTELLE_WIDGET_INPUT: '{}' }, source);
+
+      expect(env).toEqual({ PATH: '/usr/bin', HOME: '/home/pylon', HF_TOKEN: 'hf', ESTELLE_WIDGET_INPUT: '{}' });
+    });
+
+    it('should move HOME and temp folders into the working directory when jailed', () => {
+      const env = buildSandboxEnv({ jail: true }, '/widget', {}, source);
+
+      const home = path.join('/widget', SANDBOX_HOME_DIR);
+      expect(env).toMatchObject({ HOME: home, TMPDIR: home, TEMP: home, PWD: '/widget' });
+      expect(env.SECRET).toBeUndefined();
+    });
+  });
+
+  describe('buildSandboxCommand', () => {
+    it('should exec the command on POSIX and leave it as is on Windows', () => {
+      expect(buildSandboxCommand('node index.js', {}, '/widget', 'linux')).toBe('exec node index.js');
+      expect(buildSandboxCommand('node index.js', {}, '/widget', 'win32')).toBe('node index.js');
+    });
+
+    it('should run in an empty network namespace when network is denied on Linux', () => {
+      expect(buildSandboxCommand('node index.js', { denyNetwork: true }, '/widget', 'linux')).toBe(
+        'exec unshare --net --map-root-user node index.js'
+      );
+    });
+
+    it('should not exec compound commands', () => {
+      expect(buildSandboxCommand('npm run build && node index.js', {}, '/widget', 'linux')).toBe('npm run build && node index.js');
+      expect(buildSandboxCommand('PORT=0 node index.js', {}, '/widget', 'linux')).toBe('PORT=0 node index.js');
+      expect(isSimpleCommand('python3 -u gen.py --steps 10')).toBe(true);
+    });
+
+    it('should deny network to every part of a compound command', () => {
+      expect(buildSandboxCommand("cd app && echo 'hi'", { denyNetwork: true }, '/widget', 'linux')).toBe(
+        `exec unshare --net --map-root-user sh -c 'cd app && echo '\\''hi'\\'' "$@"' sh`
+      );
+    });
+
+    it('should run jailed widgets in a bwrap mount namespace with only the working directory writable', () => {
+      const command = buildSandboxCommand('node index.js', { jail: true }, '/widget', 'linux', true);
+
+      expect(command).toMatch(/^exec bwrap --ro-bind \/ \/ /);
+      expect(command).toContain("--tmpfs '/home'");
+      expect(command).toContain("--bind '/widget' '/widget' --chdir '/widget'");
+      expect(command).toContain('--die-with-parent');
+      expect(command).not.toContain('--unshare-net');
+      expect(command.endsWith(' -- node index.js')).toBe(true);
+    });
+
+    it('should deny network inside the jail instead of nesting unshare', () => {
+      const command = buildSandboxCommand('npm start && node index.js', { jail: true, denyNetwork: true }, '/widget', 'linux', true);
+
+      expect(command).toContain('--unshare-net');
+      expect(command).not.toContain('unshare --net');
+      expect(command.endsWith(` -- sh -c 'npm start && node index.js "$@"' sh`)).toBe(true);
+    });
+
+    it('should reject the jail where bwrap is not available', () => {
+      const message = '작업 디렉토리 가두기는 bubblewrap(bwrap)이 설치된 Linux에서만 지원합니다';
+      expect(() => buildSandboxCommand('node index.js', { jail: true }, '/widget', 'linux', false)).toThrow(message);
+      expect(() => buildSandboxCommand('node index.js', { jail: true }, '/widget', 'darwin', true)).toThrow(message);
+      expect(() => buildSandboxCommand('node index.js', { jail: true }, '/widget', 'win32', true)).toThrow(message);
+    });
+
+    it('should reject network denial on other platforms', () => {
+      expect(() => buildSandboxCommand('node index.js', { denyNetwork: true }, '/widget', 'darwin')).toThrow(
+        '네트워크 차단은 Linux에서만 지원합니다'
+      );
+    });
+  });
+
+  describe('prepareJail', () => {
+    it('should create the sandbox home inside the working directory', () => {
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-sandbox-test-'));
+      try {
+        prepareJail(cwd);
+        expect(fs.statSync(path.join(cwd, SANDBOX_HOME_DIR)).isDirectory()).toBe(true);
+      } finally {
+        fs.rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject missing directories and files', () => {
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-sandbox-test-'));
+      try {
+        const file = path.join(cwd, 'file.txt');
+        fs.writeFileSync(file, '');
+        expect(() => prepareJail(path.join(cwd, 'missing'))).toThrow('작업 디렉토리가 없습니다');
+        expect(() => prepareJail(file)).toThrow('작업 디렉토리가 폴더가 아닙니다');
+      } finally {
+        fs.rmSync(cwd, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('hasBubblewrap', () => {
+    it('should look for an executable bwrap on PATH', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-sandbox-test-'));
+      try {
+        expect(hasBubblewrap(dir)).toBe(false);
+        fs.writeFileSync(path.join(dir, 'bwrap'), '', { mode: 0o755 });
+        expect(hasBubblewrap(['/nonexistent', dir].join(path.delimiter))).toBe(true);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('systemProcessControl.killTree', () => {
+    it.runIf(process.platform === 'linux')('should kill the whole group at once when immediate', async () => {
+      const child = spawn('sh', ['-c', 'trap "" TERM; sleep 5 & wait'], { detached: true, stdio: 'ignore' });
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const exited = new Promise((resolve) => child.on('exit', (_code, signal) => resolve(signal)));
+        systemProcessControl.killTree(child, true);
+
+        // TERM을 무시해도 유예 없이 종료되고 그룹의 자식(sleep)까지 사라짐
+        expect(await exited).toBe('SIGKILL');
+        await vi.waitFor(() => expect(groupStates(child.pid!).filter((state) => state !== 'Z')).toEqual([]));
+      } finally {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // 이미 종료됨
+        }
+      }
+    });
+  });
+
+  describe('systemProcessControl.readUsage', () => {
+    it.runIf(process.platform === 'linux')('should sum usage over the process group', async () => {
+      const child = spawn('sh', ['-c', 'sleep 5 & sleep 5'], { detached: true, stdio: 'ignore' });
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const group = await systemProcessControl.readUsage(child.pid!);
+        const leader = fs.readFileSync(`/proc/${child.pid}/stat`, 'utf-8');
+        const leaderPages = Number(leader.slice(leader.lastIndexOf(')') + 2).split(' ')[21]);
+
+        expect(group?.rssBytes).toBeGreaterThan(leaderPages * 4096);
+        expect(group?.cpuSeconds).toBeGreaterThanOrEqual(0);
+      } finally {
+        process.kill(-child.pid!, 'SIGKILL');
+      }
+    });
+
+    it('should return null for processes that no longer exist', async () => {
+      expect(await systemProcessControl.readUsage(2 ** 22 + 1)).toBeNull();
+    });
+  });
+});
@@ -8,7 +8,7 @@
 
 import nodePath from 'path';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { WorkerManager, type WorkerState } from '../../src/managers/worker-manager.js';
+import { WorkerManager, type WorkerSlot } from '../../src/managers/worker-manager.js';
 import { TaskManager, type FileSystem } from '../../src/managers/task-manager.js';
 
 // ============================================================================
@@ -21,6 +21,42 @@ function normalizePath(p: string): string {
   return p.replace(/[\\/]/g, SEP);
 }
 
+/**
+ * 실행 중인 워커 생성 (상태 직접 설정용)
+ */
+function createRunningWorker(taskId: string, taskTitle: string, slot = 1): WorkerSlot {
+  return {
+    slot,
+    taskId,
+    taskTitle,
+    startedAt: '2026-01-24T11:00:00Z',
+    conversationId: null,
+    worktreePath: null,
+    claudeProcess: null,
+  };
+}
+
+/**
+ * pending 태스크 파일 내용
+ */
+function pendingTaskFile(
+  id: string,
+  title: string,
+  createdAt = '2026-01-24T10:00:00Z',
+  extra = ''
+): string {
+  return `---
+id: ${id}
+title: ${title}
+status: pending${extra}
+createdAt: ${createdAt}
+startedAt:
+completedAt:
+error:
+---
+content`;
+}
+
 // ============================================================================
 // 테스트용 인메모리 파일 시스템
 // ============================================================================
@@ -111,10 +147,7 @@ describe('WorkerManager', () => {
     it('should create initial worker state', () => {
       const state = workerManager.getWorkerState(workspaceId);
 
-      expect(state.status).toBe('idle');
-      expect(state.currentTaskId).toBeNull();
-      expect(state.currentTaskTitle).toBeNull();
-      expect(state.startedAt).toBeNull();
+      expect(state.workers).toEqual([]);
     });
 
     it('should return same state for same workspace', () => {
@@ -156,6 +189,8 @@ content`
 
       expect(status.workspaceId).toBe(workspaceId);
       expect(status.status).toBe('idle');
+      expect(status.maxConcurrency).toBe(1);
+      expect(status.workers).toEqual([]);
       expect(status.currentTask).toBeNull();
       expect(status.queue.pending).toBe(1);
       expect(status.queue.total).toBe(1);
@@ -179,12 +214,13 @@ content`
 
       // 워커 상태를 수동으로 설정
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
-      state.currentTaskId = 'running-task';
-      state.currentTaskTitle = 'Running Task';
+      state.workers.push(createRunningWorker('running-task', 'Running Task'));
 
       const status = workerManager.getWorkerStatus(workspaceId, workingDir);
 
+      expect(status.status).toBe('running');
+      expect(status.workers).toHaveLength(1);
+      expect(status.workers[0]).not.toHaveProperty('claudeProcess');
       expect(status.currentTask).not.toBeNull();
       expect(status.currentTask?.id).toBe('running-task');
     });
@@ -219,7 +255,7 @@ content`
 
     it('should return false when worker is already running', () => {
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
+      state.workers.push(createRunningWorker('running-task', 'Running Task'));
 
       const result = workerManager.canStartWorker(workspaceId, workingDir);
 
@@ -297,9 +333,11 @@ Task content`;
       await workerManager.startWorker(workspaceId, workingDir, mockCallback);
 
       const state = workerManager.getWorkerState(workspaceId);
-      expect(state.status).toBe('running');
-      expect(state.currentTaskId).toBe('pending-task');
-      expect(state.startedAt).toBeDefined();
+      expect(state.workers).toHaveLength(1);
+      expect(state.workers[0].slot).toBe(1);
+      expect(state.workers[0].taskId).toBe('pending-task');
+      expect(state.workers[0].conversationId).toBe('conv-123');
+      expect(state.workers[0].startedAt).toBeDefined();
     });
 
     it('should call callback with correct prompt', async () => {
@@ -313,7 +351,8 @@ Task content`;
       expect(mockCallback).toHaveBeenCalledWith(
         workspaceId,
         workingDir,
-        expect.stringContaining('/es-task-worker')
+        expect.stringContaining('/es-task-worker'),
+        { slot: 1, taskId: 'pending-task', taskTitle: 'Pending Task', timeout: null }
       );
     });
 
@@ -331,7 +370,7 @@ Task content`;
 
       // 워커 상태 롤백 확인
       const state = workerManager.getWorkerState(workspaceId);
-      expect(state.status).toBe('idle');
+      expect(state.workers).toEqual([]);
 
       // 태스크 상태가 failed로 변경됨
       const task = taskManager.getTask(workingDir, 'pending-task');
@@ -340,7 +379,7 @@ Task content`;
 
     it('should return error when already running', async () => {
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
+      state.workers.push(createRunningWorker('other-task', 'Other Task'));
 
       const mockCallback = vi.fn();
 
@@ -377,10 +416,7 @@ content`
 
       // 워커를 running 상태로 설정
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
-      state.currentTaskId = 'running-task';
-      state.currentTaskTitle = 'Running Task';
-      state.startedAt = '2026-01-24T11:00:00Z';
+      state.workers.push(createRunningWorker('running-task', 'Running Task'));
     });
 
     it('should complete worker with done status', () => {
@@ -388,8 +424,7 @@ content`
 
       // 워커 상태 확인
       const state = workerManager.getWorkerState(workspaceId);
-      expect(state.status).toBe('idle');
-      expect(state.currentTaskId).toBeNull();
+      expect(state.workers).toEqual([]);
 
       // 태스크 상태 확인
       const task = taskManager.getTask(workingDir, 'running-task');
@@ -410,16 +445,22 @@ content`
       expect(task.task?.error).toBe('Task execution failed');
     });
 
-    it('should reset all worker state fields', () => {
+    it('should release the worker slot', () => {
       workerManager.completeWorker(workspaceId, workingDir, 'done');
 
+      const status = workerManager.getWorkerStatus(workspaceId, workingDir);
+      expect(status.status).toBe('idle');
+      expect(status.workers).toEqual([]);
+      expect(workerManager.getAllWorkerStatuses()[0].currentTaskId).toBeNull();
+    });
+
+    it('should complete only the worker of the given task', () => {
       const state = workerManager.getWorkerState(workspaceId);
-      expect(state.status).toBe('idle');
-      expect(state.currentTaskId).toBeNull();
-      expect(state.currentTaskTitle).toBeNull();
-      expect(state.startedAt).toBeNull();
-      expect(state.claudeProcess).toBeNull();
-      expect(state.conversationId).toBeNull();
+      state.workers.push(createRunningWorker('other-task', 'Other Task', 2));
+
+      workerManager.completeWorker(workspaceId, workingDir, 'done', null, 'other-task');
+
+      expect(state.workers.map((w) => w.taskId)).toEqual(['running-task']);
     });
   });
 
@@ -476,7 +517,7 @@ content`
 
     it('should not start when worker already running', async () => {
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
+      state.workers.push(createRunningWorker('other-task', 'Other Task'));
 
       fs._setDirectory(`${taskDir}`);
       fs._setFile(
@@ -527,18 +568,27 @@ content`
       );
 
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'running';
-      state.currentTaskId = 'running-task';
-      state.currentTaskTitle = 'Running Task';
+      state.workers.push(createRunningWorker('running-task', 'Running Task'));
     });
 
     it('should stop running worker', () => {
       const result = workerManager.stopWorker(workspaceId, workingDir);
 
       expect(result.success).toBe(true);
+      expect(result.stopped?.map((w) => w.taskId)).toEqual(['running-task']);
+
+      const state = workerManager.getWorkerState(workspaceId);
+      expect(state.workers).toEqual([]);
+    });
 
+    it('should stop only the worker of the given task', () => {
       const state = workerManager.getWorkerState(workspaceId);
-      expect(state.status).toBe('idle');
+      state.workers.push(createRunningWorker('other-task', 'Other Task', 2));
+
+      const result = workerManager.stopWorker(workspaceId, workingDir, 'running-task');
+
+      expect(result.stopped?.map((w) => w.taskId)).toEqual(['running-task']);
+      expect(state.workers.map((w) => w.taskId)).toEqual(['other-task']);
     });
 
     it('should revert task status to pending', () => {
@@ -550,7 +600,7 @@ content`
 
     it('should return error when no running worker', () => {
       const state = workerManager.getWorkerState(workspaceId);
-      state.status = 'idle';
+      state.workers = [];
 
       const result = workerManager.stopWorker(workspaceId, workingDir);
 
@@ -569,9 +619,7 @@ content`
       workerManager.getWorkerState('ws-2');
 
       const state2 = workerManager.getWorkerState('ws-2');
-      state2.status = 'running';
-      state2.currentTaskId = 'task-123';
-      state2.currentTaskTitle = 'Task 123';
+      state2.workers.push(createRunningWorker('task-123', 'Task 123'));
 
       const statuses = workerManager.getAllWorkerStatuses();
 
@@ -586,4 +634,159 @@ content`
       expect(statuses).toHaveLength(0);
     });
   });
+
+  // ============================================================================
+  // 동시 실행 테스트
+  // ============================================================================
+  describe('동시 실행', () => {
+    let maxConcurrency: number;
+
+    beforeEach(() => {
+      maxConcurrency = 2;
+      workerManager = new WorkerManager(taskManager, {
+        getMaxConcurrency: () => maxConcurrency,
+      });
+
+      fs._setDirectory(`${taskDir}`);
+      fs._setFile(`${taskDir}\\20260124-a.md`, pendingTaskFile('task-a', 'Task A', '2026-01-24T10:00:00Z'));
+      fs._setFile(`${taskDir}\\20260124-b.md`, pendingTaskFile('task-b', 'Task B', '2026-01-24T10:01:00Z'));
+      fs._setFile(`${taskDir}\\20260124-c.md`, pendingTaskFile('task-c', 'Task C', '2026-01-24T10:02:00Z'));
+    });
+
+    function createCallback() {
+      let nextConversationId = 100;
+      return vi.fn().mockImplementation(async () => ({
+        process: null,
+        conversationId: nextConversationId++,
+      }));
+    }
+
+    it('should run workers up to the concurrency limit in separate slots', async () => {
+      const callback = createCallback();
+
+      const results = await Promise.all([
+        workerManager.startWorker(workspaceId, workingDir, callback),
+        workerManager.startWorker(workspaceId, workingDir, callback),
+        workerManager.startWorker(workspaceId, workingDir, callback),
+      ]);
+
+      expect(results.map((r) => r.success)).toEqual([true, true, false]);
+      expect(results[2].error).toContain('2개');
+
+      const status = workerManager.getWorkerStatus(workspaceId, workingDir);
+      expect(status.status).toBe('running');
+      expect(status.maxConcurrency).toBe(2);
+      expect(status.workers.map((w) => [w.slot, w.taskId])).toEqual([
+        [1, 'task-a'],
+        [2, 'task-b'],
+      ]);
+      expect(status.queue.pending).toBe(1);
+    });
+
+    it('should reuse the freed slot for the next task', async () => {
+      const callback = createCallback();
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+
+      workerManager.completeWorker(workspaceId, workingDir, 'done', null, 'task-a');
+      const started = await workerManager.checkAndStartNext(workspaceId, workingDir, callback);
+
+      expect(started).toBe(true);
+      expect(callback).toHaveBeenLastCalledWith(
+        workspaceId,
+        workingDir,
+        expect.any(String),
+        { slot: 1, taskId: 'task-c', taskTitle: 'Task C', timeout: null }
+      );
+      expect(taskManager.getTask(workingDir, 'task-a').task?.status).toBe('done');
+    });
+
+    it('should find a worker by its conversation', async () => {
+      const callback = createCallback();
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+
+      expect(workerManager.findWorkerByConversation(workspaceId, 101)?.taskId).toBe('task-b');
+      expect(workerManager.findWorkerByConversation(workspaceId, 999)).toBeNull();
+    });
+
+    it('should keep the worktree path returned by the callback', async () => {
+      const callback = vi.fn().mockResolvedValue({
+        process: null,
+        conversationId: 100,
+        worktreePath: '/workspace/project.worktrees/task-a',
+      });
+
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+
+      const status = workerManager.getWorkerStatus(workspaceId, workingDir);
+      expect(status.workers[0].worktreePath).toBe('/workspace/project.worktrees/task-a');
+    });
+
+    it('should clamp the concurrency limit', () => {
+      maxConcurrency = 0;
+      expect(workerManager.getMaxConcurrency(workspaceId)).toBe(1);
+
+      maxConcurrency = 100;
+      expect(workerManager.getMaxConcurrency(workspaceId)).toBe(8);
+    });
+  });
+
+  // ============================================================================
+  // 재시도 / 의존 관계 테스트
+  // ============================================================================
+  describe('재시도와 의존 관계', () => {
+    const callback = vi.fn().mockResolvedValue({ process: null, conversationId: 100 });
+
+    beforeEach(() => {
+      callback.mockClear();
+      fs._setDirectory(`${taskDir}`);
+    });
+
+    it('should put a failed task back to pending while retries remain', async () => {
+      fs._setFile(
+        `${taskDir}\\20260124-a.md`,
+        pendingTaskFile('task-a', 'Task A', '2026-01-24T10:00:00Z', '\nmaxRetries: 1\ntimeout: 30')
+      );
+
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+      expect(callback.mock.calls[0][3]).toMatchObject({ taskId: 'task-a', timeout: 30 });
+
+      // 첫 실패 → 재시도 대기
+      expect(workerManager.completeWorker(workspaceId, workingDir, 'failed', 'boom')).toBe(true);
+      let task = taskManager.getTask(workingDir, 'task-a').task;
+      expect(task?.status).toBe('pending');
+      expect(task?.retryCount).toBe(1);
+      expect(task?.error).toBe('boom');
+      expect(workerManager.getWorkerStatus(workspaceId, workingDir).workers).toEqual([]);
+
+      // 두 번째 실패 → 재시도 소진, failed
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+      expect(workerManager.completeWorker(workspaceId, workingDir, 'failed', 'boom again')).toBe(false);
+      task = taskManager.getTask(workingDir, 'task-a').task;
+      expect(task?.status).toBe('failed');
+      expect(task?.error).toBe('boom again');
+    });
+
+    it('should not retry a task without retries', async () => {
+      fs._setFile(`${taskDir}\\20260124-a.md`, pendingTaskFile('task-a', 'Task A'));
+      await workerManager.startWorker(workspaceId, workingDir, callback);
+
+      expect(workerManager.completeWorker(workspaceId, workingDir, 'failed', 'boom')).toBe(false);
+      expect(taskManager.getTask(workingDir, 'task-a').task?.status).toBe('failed');
+    });
+
+    it('should explain when pending tasks are blocked by dependencies', () => {
+      fs._setFile(`${taskDir}\\20260124-a.md`, pendingTaskFile('task-a', 'Task A').replace('pending', 'failed'));
+      fs._setFile(
+        `${taskDir}\\20260124-b.md`,
+        pendingTaskFile('task-b', 'Task B', '2026-01-24T10:01:00Z', '\ndependsOn: [task-a]')
+      );
+
+      const check = workerManager.canStartWorker(workspaceId, workingDir);
+
+      expect(check.canStart).toBe(false);
+      expect(check.reason).toContain('의존 태스크');
+    });
+  });
 });
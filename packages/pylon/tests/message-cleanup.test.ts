@@ -50,14 +50,21 @@ function createMockDependencies(): PylonDependencies {
     },
     agentManager: {
       sendMessage: vi.fn(),
-      stop: vi.fn(),
+      stop: vi.fn().mockResolvedValue(undefined),
+      waitForIdle: vi.fn().mockResolvedValue(undefined),
       newSession: vi.fn(),
+      forgetConversation: vi.fn(),
       cleanup: vi.fn(),
       respondPermission: vi.fn(),
       respondQuestion: vi.fn(),
       hasActiveSession: vi.fn().mockReturnValue(false),
       getSessionStartTime: vi.fn().mockReturnValue(null),
       getPendingEvent: vi.fn().mockReturnValue(null),
+      getPendingPermission: vi.fn().mockReturnValue(null),
+      getAgentBackends: vi.fn().mockReturnValue([
+        { name: 'claude', label: 'Claude', adapter: 'claude' },
+        { name: 'codex', label: 'Codex', adapter: 'codex' },
+      ]),
     },
     blobHandler: {
       handleBlobStart: vi.fn().mockReturnValue({ success: true }),
@@ -214,6 +221,8 @@ describe('메시지 정리', () => {
       // Assert: 모든 대화의 agent 세션이 정리되어야 함
       expect(deps.agentManager.stop).toHaveBeenCalledWith(conv1.conversationId);
       expect(deps.agentManager.stop).toHaveBeenCalledWith(conv2.conversationId);
+      expect(deps.agentManager.forgetConversation).toHaveBeenCalledWith(conv1.conversationId);
+      expect(deps.agentManager.forgetConversation).toHaveBeenCalledWith(conv2.conversationId);
     });
   });
 
@@ -278,6 +287,8 @@ describe('메시지 정리', () => {
 
       // Assert: agentManager.stop이 호출되어야 함
       expect(deps.agentManager.stop).toHaveBeenCalledWith(conversation.conversationId);
+      // 어댑터가 기억한 대화별 상태(Codex 쓰기 권한 등)도 정리
+      expect(deps.agentManager.forgetConversation).toHaveBeenCalledWith(conversation.conversationId);
     });
 
     it('should_not_call_agent_stop_when_no_active_session', () => {
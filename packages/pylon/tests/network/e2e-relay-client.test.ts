@@ -0,0 +1,459 @@
+/**
+ * E2eRelayClient 모듈 테스트
+ *
+ * 테스트 항목:
+ * - 페어링 (코드 MAC 확인, 키 저장)
+ * - 세션 시작 (페어링 여부 확인, 키 확인용 confirm)
+ * - 송신 암호화 (대상별/broadcast 분리, required 모드)
+ * - 수신 복호화 (다운그레이드 방지, 공유 키)
+ *
+ * Relay 대신 가짜 transport를, Client 대신 core 암호 함수를 사용합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  MessageType,
+  createE2eIdentity,
+  decryptE2ePayload,
+  deriveE2eSessionKey,
+  e2ePairingMac,
+  encryptE2ePayload,
+  exportE2ePublicKey,
+  generateE2eKeyPair,
+  generateE2eShareKey,
+  importE2eSymmetricKey,
+  loadE2eIdentity,
+  parsePairingCode,
+  randomBase64Url,
+  shareKeyId,
+  type E2eKey,
+  type E2eMode,
+} from '@estelle/core';
+import { E2eRelayClient, type E2eRelayTransport } from '../../src/network/e2e-relay-client.js';
+import { E2eKeyStore } from '../../src/stores/e2e-key-store.js';
+
+/** 인코딩된 Client ID (envId 0, deviceIndex 0/1) */
+const CLIENT_A = 16;
+const CLIENT_B = 17;
+const PYLON_ID = 1;
+
+interface FakeTransport extends E2eRelayTransport {
+  sent: any[];
+  receive(message: unknown): void;
+  setStatus(isConnected: boolean): void;
+}
+
+function createTransport(): FakeTransport {
+  let messageCallback: ((data: unknown) => void) | null = null;
+  let statusCallback: ((isConnected: boolean) => void) | null = null;
+  return {
+    sent: [],
+    connect: vi.fn(),
+    disconnect: vi.fn(),
+    send(message: unknown) {
+      this.sent.push(message);
+    },
+    isConnected: () => true,
+    onMessage: (cb) => {
+      messageCallback = cb;
+    },
+    onStatusChange: (cb) => {
+      statusCallback = cb;
+    },
+    receive: (message) => messageCallback?.(message),
+    setStatus: (isConnected) => statusCallback?.(isConnected),
+  };
+}
+
+describe('E2eRelayClient', () => {
+  let transport: FakeTransport;
+  let keyStore: E2eKeyStore;
+  let received: any[];
+  let onKeysChange: ReturnType<typeof vi.fn>;
+  let shareKey: string;
+
+  async function setup(mode: E2eMode = 'optional'): Promise<E2eRelayClient> {
+    transport = createTransport();
+    keyStore = new E2eKeyStore();
+    received = [];
+    onKeysChange = vi.fn();
+    shareKey = generateE2eShareKey();
+
+    const client = new E2eRelayClient({
+      relay: transport,
+      deviceId: PYLON_ID,
+      keyStore,
+      mode,
+      getShareKey: (shareId) => (shareId === 'share1' ? shareKey : null),
+      onKeysChange,
+    });
+    client.onMessage((data) => received.push(data));
+    client.onStatusChange(() => {});
+    await client.init();
+    return client;
+  }
+
+  /** 특정 타입의 송신 메시지가 나올 때까지 대기 */
+  async function waitForSent(type: string, count = 1): Promise<any[]> {
+    await vi.waitFor(() => {
+      expect(transport.sent.filter((m) => m.type === type).length).toBeGreaterThanOrEqual(count);
+    });
+    return transport.sent.filter((m) => m.type === type);
+  }
+
+  /** 페어링 후 세션까지 맺은 Client 흉내 */
+  async function connectClient(client: E2eRelayClient, deviceId = CLIENT_A) {
+    const identity = await createE2eIdentity();
+    const keys = await loadE2eIdentity(identity);
+
+    const { code } = client.createPairingCode();
+    const { secret } = parsePairingCode(code)!;
+    transport.receive({
+      type: MessageType.E2E_PAIR_REQUEST,
+      payload: { publicKey: identity.publicKey, mac: await e2ePairingMac(secret, 'pair-request', identity.publicKey) },
+      from: { deviceId, deviceType: 'app' },
+    });
+    const [pairResult] = (await waitForSent(MessageType.E2E_PAIR_RESULT)).slice(-1);
+
+    const ephemeral = await generateE2eKeyPair();
+    const nonce = randomBase64Url(16);
+    const ackCount = transport.sent.filter((m) => m.type === MessageType.E2E_HELLO_ACK).length;
+    transport.receive({
+      type: MessageType.E2E_HELLO,
+      payload: { publicKey: identity.publicKey, ephemeralKey: await exportE2ePublicKey(ephemeral.publicKey), nonce },
+      from: { deviceId, deviceType: 'app' },
+    });
+    const ack = (await waitForSent(MessageType.E2E_HELLO_ACK, ackCount + 1)).slice(-1)[0];
+
+    const key: E2eKey = await deriveE2eSessionKey({
+      staticKey: keys.privateKey,
+      ephemeralKey: ephemeral.privateKey,
+      peerStaticKey: pairResult.payload.publicKey,
+      peerEphemeralKey: ack.payload.ephemeralKey,
+      salt: nonce + ack.payload.nonce,
+    });
+    transport.sent = [];
+
+    return { identity, key, kid: ack.payload.kid as string, ack, nonce, secret };
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('init', () => {
+    it('should_create_and_persist_identity_once', async () => {
+      await setup();
+
+      expect(keyStore.getIdentity()).not.toBeNull();
+      expect(onKeysChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pairing', () => {
+    it('should_trust_client_and_return_verifiable_pylon_key', async () => {
+      const client = await setup();
+      const { identity, ack, key, nonce, secret } = await connectClient(client);
+
+      expect(keyStore.isTrusted(identity.publicKey)).toBe(true);
+      expect(ack.payload.success).toBe(true);
+      // confirm은 같은 세션 키로만 풀림
+      expect(await decryptE2ePayload(key, ack.payload.confirm, MessageType.E2E_HELLO_ACK)).toEqual({ nonce });
+      expect(secret).toHaveLength(16);
+    });
+
+    it('should_reject_wrong_code_and_burn_it_after_repeated_failures', async () => {
+      const client = await setup();
+      const identity = await createE2eIdentity();
+      const { code } = client.createPairingCode();
+      const { secret } = parsePairingCode(code)!;
+
+      for (let i = 0; i < 5; i++) {
+        transport.receive({
+          type: MessageType.E2E_PAIR_REQUEST,
+          payload: { publicKey: identity.publicKey, mac: await e2ePairingMac('WRONGSECRETAAAAA', 'pair-request', identity.publicKey) },
+          from: { deviceId: CLIENT_A, deviceType: 'app' },
+        });
+      }
+      await waitForSent(MessageType.E2E_PAIR_RESULT, 5);
+
+      // 올바른 코드도 이미 폐기됨
+      transport.receive({
+        type: MessageType.E2E_PAIR_REQUEST,
+        payload: { publicKey: identity.publicKey, mac: await e2ePairingMac(secret, 'pair-request', identity.publicKey) },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+      const results = await waitForSent(MessageType.E2E_PAIR_RESULT, 6);
+
+      expect(results.every((m) => m.payload.success === false)).toBe(true);
+      expect(keyStore.isTrusted(identity.publicKey)).toBe(false);
+    });
+
+    it('should_reply_unpaired_to_hello_from_unknown_key', async () => {
+      await setup();
+      const identity = await createE2eIdentity();
+      const ephemeral = await generateE2eKeyPair();
+
+      transport.receive({
+        type: MessageType.E2E_HELLO,
+        payload: { publicKey: identity.publicKey, ephemeralKey: await exportE2ePublicKey(ephemeral.publicKey), nonce: 'n' },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+      const [ack] = await waitForSent(MessageType.E2E_HELLO_ACK);
+
+      expect(ack.payload).toEqual({ success: false, error: 'unpaired' });
+    });
+  });
+
+  describe('receive', () => {
+    it('should_decrypt_session_messages_for_pylon', async () => {
+      const client = await setup();
+      const { key, kid } = await connectClient(client);
+
+      transport.receive({
+        type: 'claude_send',
+        payload: { e2e: await encryptE2ePayload(key, kid, 'claude_send', { message: 'hi' }) },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0].payload).toEqual({ message: 'hi' });
+    });
+
+    it('should_drop_plaintext_from_client_with_session', async () => {
+      const client = await setup();
+      await connectClient(client);
+
+      transport.receive({
+        type: 'claude_send',
+        payload: { message: 'forged' },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+      transport.receive({ type: 'ping', from: { deviceId: CLIENT_B, deviceType: 'app' } });
+
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0].type).toBe('ping');
+    });
+
+    it('should_reject_session_kid_used_by_another_device', async () => {
+      const client = await setup();
+      const { key, kid } = await connectClient(client);
+
+      transport.receive({
+        type: 'claude_send',
+        payload: { e2e: await encryptE2ePayload(key, kid, 'claude_send', { message: 'hi' }) },
+        from: { deviceId: CLIENT_B, deviceType: 'app' },
+      });
+      const [error] = await waitForSent(MessageType.E2E_ERROR);
+
+      expect(error).toMatchObject({ to: [CLIENT_B], payload: { reason: 'no_session', requestType: 'claude_send' } });
+      expect(received).toHaveLength(0);
+    });
+
+    it('should_reject_plaintext_in_required_mode', async () => {
+      await setup('required');
+
+      transport.receive({ type: 'workspace_list', from: { deviceId: CLIENT_A, deviceType: 'app' } });
+      const [error] = await waitForSent(MessageType.E2E_ERROR);
+
+      expect(error.payload.reason).toBe('required');
+      expect(received).toHaveLength(0);
+    });
+
+    it('should_pass_through_relay_and_pylon_messages', async () => {
+      await setup('required');
+
+      transport.receive({ type: 'device_status', payload: {} });
+      transport.receive({ type: 'sync', payload: { a: 1 }, from: { deviceId: 2, deviceType: 'pylon' } });
+
+      await vi.waitFor(() => expect(received).toHaveLength(2));
+    });
+
+    it('should_accept_viewer_request_encrypted_with_share_key_only_for_that_share', async () => {
+      await setup();
+      const key = await importE2eSymmetricKey(shareKey);
+
+      transport.receive({
+        type: 'share_history',
+        payload: { e2e: await encryptE2ePayload(key, shareKeyId('share1'), 'share_history', { shareId: 'other' }) },
+        from: { deviceId: CLIENT_B, deviceType: 'viewer' },
+      });
+      transport.receive({
+        type: 'share_history',
+        payload: { e2e: await encryptE2ePayload(key, shareKeyId('share1'), 'share_history', { shareId: 'share1' }) },
+        from: { deviceId: CLIENT_B, deviceType: 'viewer' },
+      });
+
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0].payload).toEqual({ shareId: 'share1' });
+      expect(transport.sent.filter((m) => m.type === MessageType.E2E_ERROR)).toHaveLength(1);
+    });
+  });
+
+  describe('send', () => {
+    it('should_send_plaintext_synchronously_without_sessions', async () => {
+      const client = await setup();
+
+      client.send({ type: 'workspace_list_result', broadcast: 'clients', payload: { workspaces: [] } });
+
+      expect(transport.sent).toEqual([{ type: 'workspace_list_result', broadcast: 'clients', payload: { workspaces: [] } }]);
+    });
+
+    it('should_split_broadcast_into_encrypted_and_plaintext_copies', async () => {
+      const client = await setup();
+      const { key, kid } = await connectClient(client);
+
+      // 평문을 보내온 미페어링 Client에게만 평문 사본을 보냄
+      transport.receive({ type: 'workspace_list', payload: {}, from: { deviceId: CLIENT_B, deviceType: 'app' } });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      client.send({ type: 'claude_event', broadcast: 'clients', payload: { text: 'secret' } });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(2));
+
+      const [plain, encrypted] = transport.sent;
+      expect(plain).toEqual({ type: 'claude_event', to: [CLIENT_B], payload: { text: 'secret' } });
+      expect(encrypted.to).toEqual([CLIENT_A]);
+      expect(encrypted.broadcast).toBeUndefined();
+      expect(encrypted.payload.e2e.kid).toBe(kid);
+      expect(JSON.stringify(encrypted)).not.toContain('secret');
+      expect(await decryptE2ePayload(key, encrypted.payload.e2e, 'claude_event')).toEqual({ text: 'secret' });
+    });
+
+    it('should_not_send_plaintext_copy_without_known_unpaired_clients', async () => {
+      const client = await setup();
+      await connectClient(client);
+
+      client.send({ type: 'claude_event', broadcast: 'clients', payload: { text: 'secret' } });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(1));
+
+      expect(transport.sent[0].to).toEqual([CLIENT_A]);
+      expect(JSON.stringify(transport.sent)).not.toContain('secret');
+    });
+
+    it('should_broadcast_only_encrypted_copies_in_required_mode', async () => {
+      const client = await setup('required');
+      await connectClient(client);
+
+      client.send({ type: 'claude_event', broadcast: 'clients', payload: { text: 'secret' } });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(1));
+
+      expect(transport.sent[0].to).toEqual([CLIENT_A]);
+      expect(JSON.stringify(transport.sent)).not.toContain('secret');
+    });
+
+    it('should_redact_push_content_sent_to_relay_in_both_modes', async () => {
+      for (const mode of ['optional', 'required'] as const) {
+        const client = await setup(mode);
+        client.send({
+          type: 'push_notify',
+          payload: { event: 'finished', title: '완료 · secret', body: 'secret', conversationId: 7, workspaceId: 1 },
+        });
+
+        expect(transport.sent).toHaveLength(1);
+        expect(JSON.stringify(transport.sent[0])).not.toContain('secret');
+        expect(transport.sent[0].payload).toMatchObject({ event: 'finished', conversationId: 7, workspaceId: 1 });
+      }
+    });
+
+    it('should_drop_messages_to_unencrypted_clients_in_required_mode', async () => {
+      const client = await setup('required');
+      await connectClient(client);
+
+      client.send({ type: 'claude_event', to: [CLIENT_A, CLIENT_B, 2], payload: { text: 'x' } });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(2));
+
+      expect(transport.sent.map((m) => m.to)).toEqual([[2], [CLIENT_A]]);
+    });
+
+    it('should_keep_send_order_across_encrypted_and_plain_messages', async () => {
+      const client = await setup();
+      await connectClient(client);
+
+      client.send({ type: 'first', to: [CLIENT_A], payload: {} });
+      client.send({ type: 'second', broadcast: 'pylons', payload: {} });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(2));
+
+      expect(transport.sent.map((m) => m.type)).toEqual(['first', 'second']);
+    });
+
+    it('should_reply_to_viewer_with_share_key', async () => {
+      const client = await setup();
+      const key = await importE2eSymmetricKey(shareKey);
+      transport.receive({
+        type: 'share_history',
+        payload: { e2e: await encryptE2ePayload(key, shareKeyId('share1'), 'share_history', { shareId: 'share1' }) },
+        from: { deviceId: CLIENT_B, deviceType: 'viewer' },
+      });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      client.send({ type: 'share_history_result', to: [CLIENT_B], payload: { messages: ['m'] } });
+      await vi.waitFor(() => expect(transport.sent).toHaveLength(1));
+
+      const reply = transport.sent[0];
+      expect(reply.payload.e2e.kid).toBe(shareKeyId('share1'));
+      expect(await decryptE2ePayload(key, reply.payload.e2e, 'share_history_result')).toEqual({ messages: ['m'] });
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should_announce_after_auth_and_forget_sessions_on_disconnect', async () => {
+      const client = await setup();
+      await connectClient(client);
+
+      transport.setStatus(false);
+      client.send({ type: 'claude_event', to: [CLIENT_A], payload: { text: 'x' } });
+      expect(transport.sent).toEqual([{ type: 'claude_event', to: [CLIENT_A], payload: { text: 'x' } }]);
+
+      transport.receive({ type: 'auth_result', payload: { success: true } });
+      const [announce] = await waitForSent(MessageType.E2E_ANNOUNCE);
+      expect(announce).toEqual({
+        type: MessageType.E2E_ANNOUNCE,
+        broadcast: 'clients',
+        payload: { mode: 'optional', fingerprint: client.getFingerprint() },
+      });
+    });
+
+    it('should_drop_session_when_client_disconnects', async () => {
+      const client = await setup();
+      await connectClient(client);
+
+      // Relay는 deviceIndex를 보냄
+      transport.receive({ type: 'client_disconnect', payload: { deviceId: 0 } });
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      client.send({ type: 'claude_event', to: [CLIENT_A], payload: {} });
+      expect(transport.sent).toEqual([{ type: 'claude_event', to: [CLIENT_A], payload: {} }]);
+    });
+
+    it('should_unpair_on_encrypted_revoke', async () => {
+      const client = await setup();
+      const { identity, key, kid } = await connectClient(client);
+
+      transport.receive({
+        type: MessageType.E2E_REVOKE,
+        payload: { e2e: await encryptE2ePayload(key, kid, MessageType.E2E_REVOKE, {}) },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+
+      await vi.waitFor(() => expect(keyStore.isTrusted(identity.publicKey)).toBe(false));
+      expect(received).toHaveLength(0);
+    });
+
+    it('should_issue_pairing_code_to_paired_client_over_session', async () => {
+      const client = await setup();
+      const { key, kid } = await connectClient(client);
+
+      transport.receive({
+        type: MessageType.E2E_PAIRING_CODE_REQUEST,
+        payload: { e2e: await encryptE2ePayload(key, kid, MessageType.E2E_PAIRING_CODE_REQUEST, {}) },
+        from: { deviceId: CLIENT_A, deviceType: 'app' },
+      });
+      const [result] = await waitForSent(MessageType.E2E_PAIRING_CODE_RESULT);
+      const payload = (await decryptE2ePayload(key, result.payload.e2e, MessageType.E2E_PAIRING_CODE_RESULT)) as {
+        code: string;
+      };
+
+      expect(parsePairingCode(payload.code)?.pylonId).toBe(PYLON_ID);
+    });
+  });
+});
@@ -9,6 +9,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FileSystemPersistence } from '../../src/persistence/file-system-persistence.js';
 import type { WorkspaceStoreData } from '../../src/stores/workspace-store.js';
+import type { WidgetManagerData } from '../../src/managers/widget-manager.js';
+import type { E2eKeyStoreData } from '../../src/stores/e2e-key-store.js';
+import type { AccountStoreData } from '../../src/stores/account-store.js';
 
 // ============================================================================
 // Mock 파일시스템
@@ -145,4 +148,91 @@ describe('FileSystemPersistence', () => {
       expect(JSON.parse(writtenContent)).toEqual(mockData);
     });
   });
+
+  // ============================================================================
+  // Widget 세션 테스트
+  // ============================================================================
+
+  describe('widget sessions', () => {
+    const widgetData: WidgetManagerData = {
+      sessions: [
+        {
+          sessionId: 'widget-1-100',
+          conversationId: 123,
+          toolUseId: 'tool-1',
+          command: 'node quiver.js',
+          cwd: '/work',
+          lastView: { type: 'text', content: '생성 중' },
+        },
+      ],
+    };
+
+    it('should return undefined when file does not exist', () => {
+      mockFs.existsSync.mockReturnValue(false);
+
+      expect(persistence.loadWidgetSessions()).toBeUndefined();
+    });
+
+    it('should write and read widgets.json', async () => {
+      mockFs.existsSync.mockReturnValue(true);
+
+      await persistence.saveWidgetSessions(widgetData);
+
+      const [filePath, content] = mockFs.writeFileSync.mock.calls[0];
+      expect(filePath).toContain('widgets.json');
+
+      mockFs.readFileSync.mockReturnValue(content);
+      expect(persistence.loadWidgetSessions()).toEqual(widgetData);
+    });
+  });
+
+  // ============================================================================
+  // E2E 키 테스트
+  // ============================================================================
+
+  describe('e2e keys', () => {
+    const keyData: E2eKeyStoreData = {
+      identity: { publicKey: 'pub', privateKey: 'priv' },
+      clients: [{ publicKey: 'client-pub', fingerprint: 'ab12-cd34-ef56-7890', pairedAt: 1000 }],
+    };
+
+    it('should return undefined when file does not exist', () => {
+      mockFs.existsSync.mockReturnValue(false);
+      expect(persistence.loadE2eKeys()).toBeUndefined();
+    });
+
+    it('should write and read e2e-keys.json', async () => {
+      mockFs.existsSync.mockReturnValue(true);
+
+      await persistence.saveE2eKeys(keyData);
+
+      const [filePath, content] = mockFs.writeFileSync.mock.calls[0];
+      expect(filePath).toContain('e2e-keys.json');
+
+      mockFs.readFileSync.mockReturnValue(content);
+      expect(persistence.loadE2eKeys()).toEqual(keyData);
+    });
+  });
+
+  // ============================================================================
+  // 계정 목록 테스트
+  // ============================================================================
+
+  describe('accounts', () => {
+    const accountData: AccountStoreData = {
+      accounts: [{ id: 'work', name: 'Work', icon: '🏢', credentialFile: 'work.json', workspaceIds: [1] }],
+    };
+
+    it('should write and read accounts.json', async () => {
+      mockFs.existsSync.mockReturnValue(true);
+
+      await persistence.saveAccounts(accountData);
+
+      const [filePath, content] = mockFs.writeFileSync.mock.calls[0];
+      expect(filePath).toContain('accounts.json');
+
+      mockFs.readFileSync.mockReturnValue(content);
+      expect(persistence.loadAccounts()).toEqual(accountData);
+    });
+  });
 });
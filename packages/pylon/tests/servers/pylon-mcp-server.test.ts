@@ -26,9 +26,14 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createConnection } from 'net';
+import { EventEmitter } from 'events';
+import type { ConversationId } from '@estelle/core';
 // 아직 구현되지 않은 모듈 - 테스트 실패 예상
 import { PylonMcpServer } from '../../src/servers/pylon-mcp-server.js';
 import { WorkspaceStore } from '../../src/stores/workspace-store.js';
+import { ScheduleStore } from '../../src/stores/schedule-store.js';
+import { Scheduler } from '../../src/managers/scheduler.js';
+import { WidgetManager } from '../../src/managers/widget-manager.js';
 import { toNativePath } from '../utils/path-utils.js';
 
 // ============================================================================
@@ -1456,6 +1461,45 @@ describe('PylonMcpServer', () => {
       expect(response.conversation.name).toBe('콜백 없는 대화');
     });
 
+    it('should_create_conversation_with_registered_agent_only', async () => {
+      // Arrange
+      await server.close();
+      TEST_PORT = await getRandomPort();
+
+      server = new PylonMcpServer(workspaceStore, {
+        port: TEST_PORT,
+        getConversationIdByToolUseId: (toolUseId: string) =>
+          toolUseId === TEST_TOOL_USE_ID_CREATE ? TEST_CONVERSATION_ID : null,
+        getAgentBackends: () => [
+          { name: 'claude', label: 'Claude', adapter: 'claude' },
+          { name: 'local-llama', label: 'Local Llama', adapter: 'openai-compatible' },
+        ],
+      });
+      await server.listen();
+      await waitForPort(TEST_PORT);
+
+      // Act
+      const created = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_create_conversation',
+        toolUseId: TEST_TOOL_USE_ID_CREATE,
+        name: 'Llama',
+        agent: 'local-llama',
+      })) as { success: boolean; conversation: { conversationId: number } };
+      const rejected = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_create_conversation',
+        toolUseId: TEST_TOOL_USE_ID_CREATE,
+        agent: 'gemini',
+      })) as { success: boolean; error: string };
+
+      // Assert
+      expect(created.success).toBe(true);
+      expect(
+        workspaceStore.getConversation(created.conversation.conversationId as ConversationId)?.agentType
+      ).toBe('local-llama');
+      expect(rejected.success).toBe(false);
+      expect(rejected.error).toContain('gemini');
+    });
+
     it('should_not_call_callback_when_conversation_creation_fails', async () => {
       // Arrange
       let callbackCalled = false;
@@ -1496,6 +1540,126 @@ describe('PylonMcpServer', () => {
     });
   });
 
+  // ============================================================================
+  // lookup_and_*_schedule 테스트
+  // ============================================================================
+  describe('lookup_and_*_schedule actions', () => {
+    const TEST_TOOL_USE_ID = 'toolu_test_schedule_123';
+    // encodeWorkspaceId(1, 1) = (1 << 7) | 1 = 129
+    const TEST_WORKSPACE_ID = 129;
+    let scheduleStore: ScheduleStore;
+    let scheduler: Scheduler;
+
+    beforeEach(async () => {
+      await server.close();
+      TEST_PORT = await getRandomPort();
+      scheduleStore = new ScheduleStore(':memory:');
+      scheduler = new Scheduler(scheduleStore, {
+        execute: () => ({ status: 'started' }),
+      });
+      server = new PylonMcpServer(workspaceStore, {
+        port: TEST_PORT,
+        getConversationIdByToolUseId: (toolUseId: string) =>
+          toolUseId === TEST_TOOL_USE_ID ? TEST_CONVERSATION_ID : null,
+        scheduler,
+      });
+      await server.listen();
+      await waitForPort(TEST_PORT);
+    });
+
+    afterEach(() => {
+      scheduleStore.close();
+    });
+
+    it('should_create_schedule_in_current_conversation_by_default', async () => {
+      const response = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_create_schedule',
+        toolUseId: TEST_TOOL_USE_ID,
+        name: '후속 확인',
+        cron: '0 9 * * *',
+        prompt: 'CI 결과 확인해줘',
+      })) as { success: boolean; schedule: Record<string, unknown> };
+
+      expect(response.success).toBe(true);
+      expect(response.schedule).toMatchObject({
+        workspaceId: TEST_WORKSPACE_ID,
+        name: '후속 확인',
+        action: { kind: 'text', text: 'CI 결과 확인해줘' },
+        conversationMode: 'reuse',
+        conversationName: 'Test Conversation',
+        enabled: true,
+      });
+    });
+
+    it('should_return_error_for_invalid_cron', async () => {
+      const response = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_create_schedule',
+        toolUseId: TEST_TOOL_USE_ID,
+        name: '후속 확인',
+        cron: 'every day',
+        prompt: 'CI 결과 확인해줘',
+      })) as { success: boolean; error: string };
+
+      expect(response.success).toBe(false);
+      expect(scheduler.list()).toEqual([]);
+    });
+
+    it('should_update_and_delete_schedule_of_current_workspace', async () => {
+      const created = scheduler.create({
+        workspaceId: TEST_WORKSPACE_ID,
+        name: '후속 확인',
+        cron: '0 9 * * *',
+        action: { kind: 'text', text: 'CI 결과 확인해줘' },
+        conversationMode: 'reuse',
+        enabled: true,
+      });
+      const scheduleId = created.success ? created.schedule.scheduleId : -1;
+
+      const updated = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_update_schedule',
+        toolUseId: TEST_TOOL_USE_ID,
+        scheduleId,
+        enabled: false,
+      })) as { success: boolean; schedule: Record<string, unknown> };
+      expect(updated.schedule).toMatchObject({ name: '후속 확인', enabled: false, nextRunAt: null });
+
+      const listed = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_list_schedules',
+        toolUseId: TEST_TOOL_USE_ID,
+      })) as { success: boolean; schedules: unknown[] };
+      expect(listed.schedules).toHaveLength(1);
+
+      const deleted = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_delete_schedule',
+        toolUseId: TEST_TOOL_USE_ID,
+        scheduleId,
+      })) as { success: boolean; deleted: number };
+      expect(deleted).toEqual({ success: true, deleted: scheduleId });
+      expect(scheduler.list()).toEqual([]);
+    });
+
+    it('should_not_touch_schedule_of_other_workspace', async () => {
+      const created = scheduler.create({
+        workspaceId: TEST_WORKSPACE_ID + 1,
+        name: '다른 워크스페이스',
+        cron: '@daily',
+        action: { kind: 'text', text: '확인' },
+        conversationMode: 'new',
+        enabled: true,
+      });
+      const scheduleId = created.success ? created.schedule.scheduleId : -1;
+
+      const response = (await sendRequest(TEST_PORT, {
+        action: 'lookup_and_delete_schedule',
+        toolUseId: TEST_TOOL_USE_ID,
+        scheduleId,
+      })) as { success: boolean; error: string };
+
+      expect(response.success).toBe(false);
+      expect(scheduler.list()).toHaveLength(1);
+    });
+  });
+
   // ============================================================================
   // Widget Session Management 테스트
   // ============================================================================
@@ -1703,6 +1867,179 @@ describe('PylonMcpServer', () => {
     // ============================================================================
     // cancelWidgetForConversation 테스트
     // ============================================================================
+    describe('restoreWidgetSessions', () => {
+      it('should_register_restored_sessions_and_forward_renders_to_new_owner', async () => {
+        // Arrange - Pylon 재시작 후 복원된 세션
+        const view = { type: 'text' as const, content: '생성 중 3/10' };
+        const widgetManager = WidgetManager.fromJSON({
+          sessions: [
+            { sessionId: 'widget-1-100', conversationId: 123, toolUseId: 'tool-1', command: 'node gen.js', cwd: '/tmp', lastView: view },
+          ],
+        });
+        const renders: unknown[][] = [];
+        const restoreServer = new PylonMcpServer(workspaceStore, {
+          widgetManager,
+          onWidgetRender: (...args) => renders.push(args),
+        });
+
+        // Act
+        const count = restoreServer.restoreWidgetSessions();
+
+        // Assert - widget_check/claim에서 찾을 수 있도록 pending 등록
+        expect(count).toBe(1);
+        expect(restoreServer.getPendingWidget(123)?.widgetSessionId).toBe('widget-1-100');
+
+        // 새 owner가 붙은 뒤의 render는 그 owner에게 전달
+        widgetManager.getSession('widget-1-100')!.ownerClientId = 42;
+        widgetManager.emit('render', { sessionId: 'widget-1-100', view });
+        expect(renders).toEqual([[123, 'tool-1', 'widget-1-100', view, 42]]);
+
+        // 완료되면 pending 정리
+        widgetManager.getSession('widget-1-100')!.status = 'completed';
+        widgetManager.emit('complete', { sessionId: 'widget-1-100', result: null });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(restoreServer.getPendingWidget(123)).toBeUndefined();
+      });
+    });
+
+    describe('widget registry', () => {
+      const launch = { command: 'node', cwd: '/widgets/quiver', args: ["'index.js'"], env: { ESTELLE_WIDGET_INPUT: '{}' } };
+
+      function createMockWidgetManager(prepared: unknown[]) {
+        return {
+          prepareSession: (options: unknown) => {
+            prepared.push(options);
+            return 'registry-session';
+          },
+          getSession: () => ({ ownerClientId: null }),
+          waitForCompletion: () => Promise.resolve({ saved: true }),
+          cancelSession: () => true,
+          on: () => {},
+          off: () => {},
+        };
+      }
+
+      it('should_run_registered_widget_with_resolved_launch', async () => {
+        // Arrange
+        const prepared: unknown[] = [];
+        const registryServer = new PylonMcpServer(workspaceStore, {
+          widgetManager: createMockWidgetManager(prepared) as any,
+          widgetRegistry: { resolve: () => launch, list: () => [] } as any,
+        });
+
+        // Act
+        const result = await registryServer.runRegisteredWidget(TEST_CONVERSATION_ID, 'tool-1', 'quiver', {});
+
+        // Assert
+        expect(result).toEqual({ success: true, result: { saved: true } });
+        expect(prepared).toEqual([{ ...launch, conversationId: TEST_CONVERSATION_ID, toolUseId: 'tool-1' }]);
+      });
+
+      it('should_not_prepare_session_when_validation_fails', async () => {
+        // Arrange
+        const prepared: unknown[] = [];
+        const registryServer = new PylonMcpServer(workspaceStore, {
+          widgetManager: createMockWidgetManager(prepared) as any,
+          widgetRegistry: {
+            resolve: () => {
+              throw new Error('입력이 올바르지 않습니다: prompt: 필수 입력입니다');
+            },
+            list: () => [],
+          } as any,
+        });
+
+        // Act
+        const result = await registryServer.runRegisteredWidget(TEST_CONVERSATION_ID, 'tool-1', 'quiver', {});
+
+        // Assert
+        expect(result).toEqual({ success: false, error: '입력이 올바르지 않습니다: prompt: 필수 입력입니다' });
+        expect(prepared).toHaveLength(0);
+      });
+
+      it('should_broadcast_widget_error_with_limit_and_pass_sandbox', async () => {
+        // Arrange - 샌드박스 제한 위반으로 에러 종료되는 세션
+        const prepared: unknown[] = [];
+        const session = { ownerClientId: null as number | null, status: 'running' };
+        const widgetManager = Object.assign(new EventEmitter(), {
+          prepareSession: (options: unknown) => {
+            prepared.push(options);
+            return 'registry-session';
+          },
+          getSession: () => session,
+          waitForCompletion: () =>
+            new Promise((_, reject) => widgetManager.once('error', (e: { error: string }) => reject(new Error(e.error)))),
+          cancelSession: () => true,
+        });
+        const errors: unknown[][] = [];
+        const registryServer = new PylonMcpServer(workspaceStore, {
+          widgetManager: widgetManager as any,
+          widgetRegistry: { resolve: () => ({ ...launch, sandbox: { memoryMb: 64 } }), list: () => [] } as any,
+          onWidgetError: (...args) => errors.push(args),
+        });
+
+        // Act
+        const resultPromise = registryServer.runRegisteredWidget(TEST_CONVERSATION_ID, 'tool-1', 'quiver', {});
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        session.status = 'error';
+        widgetManager.emit('error', { sessionId: 'registry-session', error: '메모리 제한(64MB)을 넘었습니다', limit: 'memory' });
+
+        // Assert
+        expect(await resultPromise).toEqual({ success: false, error: '메모리 제한(64MB)을 넘었습니다' });
+        expect(prepared[0]).toMatchObject({ sandbox: { memoryMb: 64 } });
+        expect(errors).toEqual([
+          [TEST_CONVERSATION_ID, 'tool-1', 'registry-session', '메모리 제한(64MB)을 넘었습니다', 'memory'],
+        ]);
+      });
+
+      it('should_not_broadcast_widget_error_when_cancelled', async () => {
+        // Arrange
+        const session = { ownerClientId: null as number | null, status: 'running' };
+        const widgetManager = Object.assign(new EventEmitter(), {
+          prepareSession: () => 'registry-session',
+          getSession: () => session,
+          waitForCompletion: () =>
+            new Promise((_, reject) => widgetManager.once('error', (e: { error: string }) => reject(new Error(e.error)))),
+          cancelSession: () => true,
+        });
+        const errors: unknown[][] = [];
+        const registryServer = new PylonMcpServer(workspaceStore, {
+          widgetManager: widgetManager as any,
+          widgetRegistry: { resolve: () => launch, list: () => [] } as any,
+          onWidgetError: (...args) => errors.push(args),
+        });
+
+        // Act
+        const resultPromise = registryServer.runRegisteredWidget(TEST_CONVERSATION_ID, 'tool-1', 'quiver', {});
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        session.status = 'cancelled';
+        widgetManager.emit('error', { sessionId: 'registry-session', error: 'cancelled by duplication' });
+
+        // Assert
+        expect((await resultPromise).success).toBe(false);
+        expect(errors).toHaveLength(0);
+      });
+
+      it('should_list_widgets_via_lookup_action', async () => {
+        // Arrange
+        await server.close();
+        TEST_PORT = await getRandomPort();
+        const widgets = [{ name: 'quiver', title: 'Quiver', missingEnv: [], available: true }];
+        server = new PylonMcpServer(workspaceStore, {
+          port: TEST_PORT,
+          getConversationIdByToolUseId: () => TEST_CONVERSATION_ID,
+          widgetRegistry: { list: () => widgets } as any,
+        });
+        await server.listen();
+        await waitForPort(TEST_PORT);
+
+        // Act
+        const result = await sendRequest(TEST_PORT, { action: 'lookup_and_list_widgets', toolUseId: 'tool-1' });
+
+        // Assert
+        expect(result).toEqual({ success: true, widgets });
+      });
+    });
+
     describe('cancelWidgetForConversation', () => {
       it('should_cancel_widget_for_conversation', async () => {
         // Arrange
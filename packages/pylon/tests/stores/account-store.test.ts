@@ -0,0 +1,105 @@
+/**
+ * @file account-store.test.ts
+ * @description AccountStore 테스트
+ *
+ * 사용자가 정한 계정 목록을 관리하는 AccountStore 클래스를 테스트합니다.
+ * - 계정 추가/수정/삭제와 ID 생성
+ * - 워크스페이스 기본 계정 지정
+ * - 직렬화/역직렬화
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountStore } from '../../src/stores/account-store.js';
+import type { AccountInput } from '@estelle/core';
+
+const work: AccountInput = { name: 'Work', icon: '🏢', credentialFile: 'work.json', workspaceIds: [1, 2] };
+const personal: AccountInput = { name: 'Personal', icon: '', credentialFile: 'personal.json', workspaceIds: [] };
+
+describe('AccountStore', () => {
+  let store: AccountStore;
+
+  beforeEach(() => {
+    store = new AccountStore();
+  });
+
+  describe('계정 추가', () => {
+    it('should_create_id_from_name_and_default_icon', () => {
+      const account = store.create(personal);
+
+      expect(account).toEqual({
+        id: 'personal',
+        name: 'Personal',
+        icon: '👤',
+        credentialFile: 'personal.json',
+        workspaceIds: [],
+      });
+    });
+
+    it('should_make_unique_id_and_fall_back_to_file_name', () => {
+      store.create(work);
+      expect(store.create({ ...work, workspaceIds: [] }).id).toBe('work-2');
+      expect(store.create({ ...work, name: '회사', credentialFile: 'team-b.json' }).id).toBe('team-b');
+    });
+  });
+
+  describe('계정 수정/삭제', () => {
+    it('should_rename_without_changing_id', () => {
+      store.create(work);
+
+      const updated = store.update('work', { ...work, name: 'Company' });
+
+      expect(updated?.id).toBe('work');
+      expect(store.getAccount('work')?.name).toBe('Company');
+      expect(store.update('missing', work)).toBeNull();
+    });
+
+    it('should_delete_account', () => {
+      store.create(work);
+
+      expect(store.delete('work')).toBe(true);
+      expect(store.delete('work')).toBe(false);
+      expect(store.getAccounts()).toHaveLength(0);
+    });
+  });
+
+  describe('워크스페이스 기본 계정', () => {
+    it('should_move_workspace_to_latest_account', () => {
+      store.create(work);
+      store.create({ ...personal, workspaceIds: [2, 3] });
+
+      expect(store.getWorkspaceAccount(1)?.id).toBe('work');
+      expect(store.getWorkspaceAccount(2)?.id).toBe('personal');
+      expect(store.getAccount('work')?.workspaceIds).toEqual([1]);
+    });
+
+    it('should_remove_deleted_workspace', () => {
+      store.create(work);
+
+      expect(store.removeWorkspace(1)).toBe(true);
+      expect(store.removeWorkspace(1)).toBe(false);
+      expect(store.getWorkspaceAccount(1)).toBeNull();
+    });
+  });
+
+  describe('직렬화', () => {
+    it('should_round_trip_through_json_and_skip_malformed_entries', () => {
+      store.create(work);
+      const data = store.toJSON();
+
+      const restored = AccountStore.fromJSON({
+        accounts: [...data.accounts, { id: 'broken' } as never],
+      });
+
+      expect(restored.getAccounts()).toEqual(data.accounts);
+    });
+
+    it('should_seed_accounts_from_credential_files', () => {
+      const seeded = AccountStore.fromCredentialFiles(['linegames.json', 'personal.json']);
+
+      expect(seeded.getAccounts().map((account) => [account.id, account.credentialFile])).toEqual([
+        ['linegames', 'linegames.json'],
+        ['personal', 'personal.json'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type Database from 'better-sqlite3';
+import { AuditStore } from '../../src/stores/audit-store.js';
+import type { NewAuditEntry } from '../../src/stores/audit-store.js';
+
+function entry(overrides: Partial<NewAuditEntry> = {}): NewAuditEntry {
+  return {
+    timestamp: 1000,
+    kind: 'permission',
+    conversationId: 132097,
+    workspaceId: 129,
+    toolName: 'Bash',
+    toolInput: { command: 'pnpm test' },
+    decision: 'auto_allow',
+    ...overrides,
+  };
+}
+
+describe('AuditStore', () => {
+  let store: AuditStore;
+
+  beforeEach(() => {
+    store = new AuditStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('append', () => {
+    it('should return increasing ids', () => {
+      expect(store.append(entry())).toBe(1);
+      expect(store.append(entry())).toBe(2);
+    });
+
+    it('should roundtrip all fields', () => {
+      store.append(entry({
+        decision: 'user_allow',
+        reason: 'allow',
+        decidedBy: { deviceId: 100, name: 'MacBook' },
+        permissionMode: 'default',
+        durationMs: 3200,
+      }));
+      store.append(entry({
+        timestamp: 2000,
+        kind: 'tool',
+        decision: undefined,
+        toolUseId: 'toolu_1',
+        success: false,
+        error: 'exit 1',
+        durationMs: 50,
+      }));
+
+      const { entries } = store.query();
+      expect(entries[1]).toEqual({
+        id: 1,
+        timestamp: 1000,
+        kind: 'permission',
+        conversationId: 132097,
+        workspaceId: 129,
+        toolName: 'Bash',
+        toolInput: { command: 'pnpm test' },
+        decision: 'user_allow',
+        reason: 'allow',
+        decidedBy: { deviceId: 100, name: 'MacBook' },
+        permissionMode: 'default',
+        durationMs: 3200,
+      });
+      expect(entries[0]).toEqual({
+        id: 2,
+        timestamp: 2000,
+        kind: 'tool',
+        conversationId: 132097,
+        workspaceId: 129,
+        toolName: 'Bash',
+        toolInput: { command: 'pnpm test' },
+        toolUseId: 'toolu_1',
+        success: false,
+        error: 'exit 1',
+        durationMs: 50,
+      });
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      store.append(entry({ timestamp: 1000 }));
+      store.append(entry({ timestamp: 2000, conversationId: 2, decision: 'auto_deny' }));
+      store.append(entry({ timestamp: 3000, workspaceId: 7, conversationId: 3, decision: 'user_deny' }));
+      store.append(entry({ timestamp: 4000, kind: 'tool', decision: undefined, success: true }));
+    });
+
+    it('should return newest first', () => {
+      const { entries, hasMore } = store.query();
+      expect(entries.map((e) => e.timestamp)).toEqual([4000, 3000, 2000, 1000]);
+      expect(hasMore).toBe(false);
+    });
+
+    it('should filter by conversation and workspace', () => {
+      expect(store.query({ conversationId: 2 }).entries.map((e) => e.timestamp)).toEqual([2000]);
+      expect(store.query({ workspaceId: 7 }).entries.map((e) => e.timestamp)).toEqual([3000]);
+    });
+
+    it('should filter by date range with exclusive end', () => {
+      const { entries } = store.query({ from: 2000, to: 4000 });
+      expect(entries.map((e) => e.timestamp)).toEqual([3000, 2000]);
+    });
+
+    it('should filter by kind and decision', () => {
+      expect(store.query({ kind: 'tool' }).entries).toHaveLength(1);
+      expect(store.query({ decision: 'auto_deny' }).entries.map((e) => e.timestamp)).toEqual([2000]);
+    });
+
+    it('should apply limit and report hasMore', () => {
+      const { entries, hasMore } = store.query({ limit: 3 });
+      expect(entries).toHaveLength(3);
+      expect(hasMore).toBe(true);
+    });
+  });
+
+  describe('append-only', () => {
+    it('should reject UPDATE and DELETE', () => {
+      store.append(entry());
+      const db = (store as unknown as { db: Database.Database }).db;
+
+      expect(() => db.prepare("UPDATE audit_log SET tool_name = 'Read'").run()).toThrow(/append-only/);
+      expect(() => db.prepare('DELETE FROM audit_log').run()).toThrow(/append-only/);
+      expect(store.query().entries[0].toolName).toBe('Bash');
+    });
+  });
+});
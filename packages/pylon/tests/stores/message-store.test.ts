@@ -6,15 +6,19 @@
  * SQLite를 사용하여 즉시 저장하고, 필요한 메시지만 쿼리합니다.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import Database from 'better-sqlite3';
 import {
   MessageStore,
   summarizeToolInput,
   summarizeOutput,
   truncateObjectValues,
+  buildFtsQuery,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
   type StoreMessage,
   type UserTextMessage,
   type AssistantTextMessage,
@@ -367,18 +371,22 @@ describe('MessageStore - API 호환성', () => {
         expect(msg.toolInput.file_path).toBe('C:\\test\\file.ts');
       });
 
-      it('should summarize tool input for file operations', () => {
+      it('should keep full tool input (summarized only in preview)', () => {
         const longContent = 'x'.repeat(1000);
         store.addToolStart(1, 'Read', {
           file_path: 'C:\\test\\file.ts',
           extraData: longContent,
         });
 
-        const messages = store.getMessages(1);
-        const msg = messages[0] as ToolStartMessage;
-        // Read 도구는 file_path만 저장
-        expect(msg.toolInput.file_path).toBe('C:\\test\\file.ts');
-        expect(msg.toolInput.extraData).toBeUndefined();
+        const [msg] = store.getMessages(1) as ToolStartMessage[];
+        expect(msg.toolInput.extraData).toBe(longContent);
+
+        // 미리보기: Read 도구는 file_path만 유지
+        const [preview] = store.getMessages(1, {
+          preview: { inputPreviewLength: 300, outputPreviewLength: 500 },
+        }) as ToolStartMessage[];
+        expect(preview.toolInput).toEqual({ file_path: 'C:\\test\\file.ts' });
+        expect(preview.truncated).toBe(true);
       });
     });
 
@@ -418,7 +426,7 @@ describe('MessageStore - API 호환성', () => {
         expect(msg.error).toBe('File not found');
       });
 
-      it('should summarize long output', () => {
+      it('should keep full output until retention archives it', () => {
         store.addToolStart(1, 'Bash', { command: 'ls' });
 
         const longOutput = 'x'.repeat(1000);
@@ -426,9 +434,8 @@ describe('MessageStore - API 호환성', () => {
 
         const messages = store.getMessages(1);
         const msg = messages[0] as ToolCompleteMessage;
-        // 출력이 요약됨 (MAX_OUTPUT_LENGTH = 500)
-        expect(msg.output!.length).toBeLessThan(longOutput.length);
-        expect(msg.output).toContain('...');
+        expect(msg.output).toBe(longOutput);
+        expect(msg.truncated).toBeUndefined();
       });
 
       it('should find and update the most recent matching tool', () => {
@@ -515,6 +522,30 @@ describe('MessageStore - API 호환성', () => {
         expect(msg.file.size).toBe(1024);
       });
     });
+
+    describe('importMessages', () => {
+      it('should insert messages with new ids and original timestamps', () => {
+        const count = store.importMessages(1, [
+          { id: 'import_0', role: 'user', type: 'text', content: 'Hi', timestamp: 1000 },
+          { id: 'import_1', role: 'assistant', type: 'text', content: 'Hello', timestamp: 1001 },
+        ]);
+
+        expect(count).toBe(2);
+        const messages = store.getMessages(1);
+        expect(messages.map((m) => m.timestamp)).toEqual([1000, 1001]);
+        expect(messages.every((m) => m.id.startsWith('msg_'))).toBe(true);
+      });
+
+      it('should skip temporary messages', () => {
+        const count = store.importMessages(1, [
+          { id: 'a', role: 'user', type: 'text', content: 'keep', timestamp: 1 },
+          { id: 'b', role: 'user', type: 'text', content: 'temp', timestamp: 2, temporary: true },
+        ]);
+
+        expect(count).toBe(1);
+        expect(store.getCount(1)).toBe(1);
+      });
+    });
   });
 
   // ============================================================================
@@ -571,6 +602,28 @@ describe('MessageStore - API 호환성', () => {
       });
     });
 
+    describe('같은 시각의 메시지', () => {
+      beforeEach(() => {
+        store.clear(1);
+        vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+        for (let i = 1; i <= 12; i++) {
+          store.addUserMessage(1, `Message ${i}`);
+        }
+      });
+
+      afterEach(() => {
+        vi.restoreAllMocks();
+      });
+
+      const contents = (messages: StoreMessage[]) => messages.map((m) => (m as UserTextMessage).content);
+
+      it('should keep insertion order for every query', () => {
+        expect(contents(store.getLatestMessages(1, 3))).toEqual(['Message 10', 'Message 11', 'Message 12']);
+        expect(contents(store.getMessages(1, { limit: 3, loadBefore: 10 }))).toEqual(['Message 8', 'Message 9', 'Message 10']);
+        expect(contents(store.getMessages(1)).slice(8, 11)).toEqual(['Message 9', 'Message 10', 'Message 11']);
+      });
+    });
+
     describe('getCount', () => {
       it('should return message count', () => {
         expect(store.getCount(1)).toBe(10);
@@ -677,8 +730,375 @@ describe('MessageStore - API 호환성', () => {
   });
 });
 
+// ============================================================================
+// 전문 검색 (FTS5) 테스트
+// ============================================================================
+describe('MessageStore - 전문 검색', () => {
+  let store: MessageStore;
+  let dbPath: string;
+
+  beforeEach(() => {
+    // 타임스탬프 순서를 결정적으로 만들기 위해 1ms씩 증가
+    let now = 1_700_000_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+
+    dbPath = createTempDbPath();
+    store = new MessageStore(dbPath);
+  });
+
+  afterEach(() => {
+    store.close();
+    cleanupTempDir(dbPath);
+    vi.restoreAllMocks();
+  });
+
+  it('should find user and assistant text', () => {
+    store.addUserMessage(1, 'Please fix the migration bug');
+    store.addAssistantText(1, 'I fixed the migration script');
+    store.addUserMessage(1, 'unrelated');
+
+    const results = store.search('migration');
+
+    expect(results).toHaveLength(2);
+    // 최신순
+    expect(results[0].role).toBe('assistant');
+    expect(results[1].role).toBe('user');
+    expect(results[0].snippet).toContain('[[migration]]');
+  });
+
+  it('should match all terms (AND) and prefixes', () => {
+    store.addUserMessage(1, 'migration bug in users table');
+    store.addUserMessage(1, 'migration went fine');
+    store.addUserMessage(1, '검색을 추가해 주세요');
+
+    expect(store.search('migration bug')).toHaveLength(1);
+    expect(store.search('migr')).toHaveLength(2);
+    expect(store.search('검색')).toHaveLength(1);
+  });
+
+  it('should find tool names and inputs', () => {
+    store.addToolStart(1, 'Bash', { command: 'pnpm typecheck', description: 'Run typecheck' });
+    store.updateToolComplete(1, 'Bash', true, 'no output keyword here');
+
+    expect(store.search('typecheck')).toHaveLength(1);
+    expect(store.search('Bash')[0].toolName).toBe('Bash');
+    expect(store.search('Bash')[0].type).toBe('tool_complete');
+  });
+
+  it('should not index tool output or system messages', () => {
+    store.addToolStart(1, 'Read', { file_path: 'a.ts' });
+    store.updateToolComplete(1, 'Read', true, 'secretoutput');
+    store.addError(1, 'errorkeyword');
+    store.addSystemMessage(1, 'systemkeyword');
+
+    expect(store.search('secretoutput')).toEqual([]);
+    expect(store.search('errorkeyword')).toEqual([]);
+    expect(store.search('systemkeyword')).toEqual([]);
+  });
+
+  it('should filter by sessionIds', () => {
+    store.addUserMessage(1, 'shared keyword');
+    store.addUserMessage(2, 'shared keyword');
+
+    const results = store.search('keyword', { sessionIds: [2] });
+    expect(results).toHaveLength(1);
+    expect(results[0].sessionId).toBe(2);
+
+    expect(store.search('keyword', { sessionIds: [] })).toEqual([]);
+  });
+
+  it('should respect limit', () => {
+    for (let i = 0; i < 10; i++) {
+      store.addUserMessage(1, `needle ${i}`);
+    }
+
+    expect(store.search('needle', { limit: 3 })).toHaveLength(3);
+  });
+
+  it('should clamp limit to a valid range', () => {
+    for (let i = 0; i < MAX_SEARCH_LIMIT + 5; i++) {
+      store.addUserMessage(1, `needle ${i}`);
+    }
+
+    expect(store.search('needle', { limit: 10_000 })).toHaveLength(MAX_SEARCH_LIMIT);
+    expect(store.search('needle', { limit: 0 })).toHaveLength(1);
+    expect(store.search('needle', { limit: Number.NaN })).toHaveLength(DEFAULT_SEARCH_LIMIT);
+  });
+
+  it('should order and index results with shared timestamps by insertion order', () => {
+    vi.mocked(Date.now).mockReturnValue(1_700_000_000_000);
+    for (let i = 1; i <= 12; i++) {
+      store.addUserMessage(1, `needle ${i}`);
+    }
+
+    const results = store.search('needle');
+    const messages = store.getMessages(1);
+
+    expect(results.map((hit) => hit.index)).toEqual([11, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 0]);
+    for (const hit of results) {
+      expect(messages[hit.index].id).toBe(hit.messageId);
+    }
+  });
+
+  it('should return message index within session', () => {
+    for (let i = 0; i < 5; i++) {
+      store.addUserMessage(1, `message ${i}`);
+    }
+    store.addAssistantText(1, 'target text');
+    store.addUserMessage(1, 'after');
+
+    const [hit] = store.search('target');
+    expect(hit.index).toBe(5);
+
+    const messages = store.getMessages(1);
+    expect(messages[hit.index].id).toBe(hit.messageId);
+  });
+
+  it('should remove deleted messages from index', () => {
+    store.addUserMessage(1, 'removable');
+    store.clear(1);
+
+    expect(store.search('removable')).toEqual([]);
+  });
+
+  it('should treat FTS operators as plain words', () => {
+    store.addUserMessage(1, 'use OR and NEAR carefully');
+
+    expect(() => store.search('OR NEAR( "*')).not.toThrow();
+    expect(store.search('OR NEAR')).toHaveLength(1);
+  });
+
+  it('should return empty array for blank query', () => {
+    store.addUserMessage(1, 'anything');
+    expect(store.search('   ')).toEqual([]);
+  });
+
+  it('should backfill index for existing database', () => {
+    store.addUserMessage(1, 'legacy content');
+    store.close();
+
+    // 인덱스가 없던 DB를 시뮬레이션
+    const raw = new Database(dbPath);
+    raw.exec(`
+      DROP TRIGGER messages_fts_insert;
+      DROP TRIGGER messages_fts_delete;
+      DROP TRIGGER messages_fts_update;
+      DROP TABLE messages_fts;
+    `);
+    raw.close();
+
+    store = new MessageStore(dbPath);
+    expect(store.search('legacy')).toHaveLength(1);
+  });
+});
+
+describe('buildFtsQuery', () => {
+  it('should quote terms as prefix queries', () => {
+    expect(buildFtsQuery('migration bug')).toBe('"migration"* "bug"*');
+  });
+
+  it('should strip double quotes', () => {
+    expect(buildFtsQuery('"quoted"')).toBe('"quoted"*');
+  });
+
+  it('should return null for empty query', () => {
+    expect(buildFtsQuery('  ')).toBeNull();
+    expect(buildFtsQuery('""')).toBeNull();
+  });
+});
+
 // ============================================================================
 // 제거된 API 테스트 (SQLite 전환으로 불필요)
+// ============================================================================
+// 보관 정책 테스트
+// ============================================================================
+describe('MessageStore - 보관 정책', () => {
+  let store: MessageStore;
+
+  const policy = {
+    recentMessages: 2,
+    outputPreviewLength: 10,
+    inputPreviewLength: 10,
+    maxMessages: null,
+  };
+  const longOutput = 'o'.repeat(100);
+
+  /** 시간순 tool_complete 메시지 n개 추가 (timestamp 1..n) */
+  function seedToolMessages(n: number, output = longOutput): void {
+    const messages: StoreMessage[] = [];
+    for (let i = 1; i <= n; i++) {
+      messages.push({
+        id: `t${i}`,
+        role: 'assistant',
+        type: 'tool_complete',
+        toolName: 'Bash',
+        toolInput: { command: `echo ${i}` },
+        success: true,
+        output,
+        timestamp: i,
+      });
+    }
+    store.importMessages(1, messages);
+  }
+
+  beforeEach(() => {
+    store = new MessageStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should archive tool outputs older than recent messages', () => {
+    seedToolMessages(4);
+
+    const archived = store.applyRetention(1, policy);
+
+    expect(archived).toBe(2);
+    const messages = store.getMessages(1) as ToolCompleteMessage[];
+    expect(messages.map((m) => m.truncated)).toEqual([true, true, undefined, undefined]);
+    expect(messages[0].output).toContain('(100 chars total)');
+    expect(messages[3].output).toBe(longOutput);
+  });
+
+  it('should not archive again on repeated application', () => {
+    seedToolMessages(4);
+
+    store.applyRetention(1, policy);
+
+    expect(store.applyRetention(1, policy)).toBe(0);
+  });
+
+  it('should keep short outputs inline without archiving', () => {
+    seedToolMessages(4, 'short');
+
+    expect(store.applyRetention(1, policy)).toBe(0);
+    expect((store.getMessages(1) as ToolCompleteMessage[]).every((m) => !m.truncated)).toBe(true);
+  });
+
+  it('should restore archived original with getFullMessage', () => {
+    seedToolMessages(3);
+    store.applyRetention(1, policy);
+    const [oldest] = store.getMessages(1);
+
+    const full = store.getFullMessage(1, oldest.id) as ToolCompleteMessage;
+
+    expect(full.output).toBe(longOutput);
+    expect(full.toolInput).toEqual({ command: 'echo 1' });
+    expect(full.truncated).toBeUndefined();
+  });
+
+  it('should keep archived tool inputs searchable by their original text', () => {
+    store.importMessages(1, [
+      { id: 't1', role: 'assistant', type: 'tool_complete', toolName: 'Bash', toolInput: { command: 'cd app\npnpm migrateoldschema' }, success: true, output: longOutput, timestamp: 1 },
+      { id: 't2', role: 'assistant', type: 'tool_complete', toolName: 'Bash', toolInput: { command: 'ls' }, success: true, output: 'x', timestamp: 2 },
+      { id: 't3', role: 'assistant', type: 'tool_complete', toolName: 'Bash', toolInput: { command: 'ls' }, success: true, output: 'x', timestamp: 3 },
+    ]);
+    expect(store.search('migrateoldschema')).toHaveLength(1);
+
+    expect(store.applyRetention(1, policy)).toBe(1);
+
+    expect((store.getMessages(1)[0] as ToolCompleteMessage).toolInput).not.toEqual({ command: 'cd app\npnpm migrateoldschema' });
+    const [hit] = store.search('migrateoldschema');
+    expect(hit.messageId).toBe(store.getMessages(1)[0].id);
+    expect(hit.snippet).toContain('[[migrateoldschema]]');
+  });
+
+  it('should restore archived originals in the full history', () => {
+    seedToolMessages(3);
+    store.applyRetention(1, policy);
+
+    const history = store.getFullHistory(1) as ToolCompleteMessage[];
+
+    expect(history.map((m) => m.output)).toEqual([longOutput, longOutput, longOutput]);
+    expect(history.every((m) => !m.truncated)).toBe(true);
+    expect(store.getSharedMessageHistory(1)).toEqual(history);
+  });
+
+  it('should reindex archived messages when upgrading the old search trigger', () => {
+    const dbPath = createTempDbPath();
+    const before = new MessageStore(dbPath);
+    before.importMessages(1, [
+      { id: 't1', role: 'assistant', type: 'tool_complete', toolName: 'Bash', toolInput: { command: 'cd app\npnpm migrateoldschema' }, success: true, output: longOutput, timestamp: 1 },
+    ]);
+    before.applyRetention(1, { ...policy, recentMessages: 0 });
+    before.close();
+
+    // 보관할 때 미리보기로 다시 인덱싱하던 예전 트리거를 시뮬레이션
+    const raw = new Database(dbPath);
+    raw.exec(`
+      DROP TRIGGER messages_fts_update;
+      CREATE TRIGGER messages_fts_update
+      AFTER UPDATE OF content, tool_name, tool_input ON messages
+      BEGIN
+        DELETE FROM messages_fts WHERE rowid = OLD.rowid;
+        INSERT INTO messages_fts (rowid, content, tool_name, tool_input)
+        SELECT NEW.rowid, NEW.content, NEW.tool_name, NEW.tool_input
+        WHERE NEW.type IN ('text', 'tool_start', 'tool_complete');
+      END;
+      UPDATE messages SET tool_input = tool_input;
+    `);
+    expect(raw.prepare(`SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'migrateoldschema'`).all()).toEqual([]);
+    raw.close();
+
+    const upgraded = new MessageStore(dbPath);
+    expect(upgraded.search('migrateoldschema')).toHaveLength(1);
+    upgraded.close();
+    cleanupTempDir(dbPath);
+  });
+
+  it('should return null from getFullMessage for unknown message', () => {
+    expect(store.getFullMessage(1, 'missing')).toBeNull();
+  });
+
+  it('should archive everything when recentMessages is 0', () => {
+    seedToolMessages(2);
+
+    expect(store.applyRetention(1, { ...policy, recentMessages: 0 })).toBe(2);
+  });
+
+  it('should delete oldest messages beyond maxMessages', () => {
+    seedToolMessages(5);
+
+    store.applyRetention(1, { ...policy, maxMessages: 3 });
+
+    expect(store.getMessages(1).map((m) => m.timestamp)).toEqual([3, 4, 5]);
+  });
+
+  it('should drop archived payloads when session is cleared', () => {
+    seedToolMessages(3);
+    store.applyRetention(1, policy);
+    const [oldest] = store.getMessages(1);
+
+    store.clear(1);
+    seedToolMessages(1);
+
+    expect(store.getFullMessage(1, oldest.id)).toBeNull();
+  });
+
+  it('should add archive column to existing database', () => {
+    const dbPath = createTempDbPath();
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE messages (
+        id TEXT PRIMARY KEY, session_id INTEGER NOT NULL, timestamp INTEGER NOT NULL,
+        role TEXT NOT NULL, type TEXT NOT NULL, content TEXT, tool_name TEXT,
+        tool_input TEXT, tool_output TEXT, tool_error TEXT, success INTEGER,
+        parent_tool_use_id TEXT, attachments TEXT, file_info TEXT, result_info TEXT, reason TEXT
+      );
+    `);
+    legacy.close();
+
+    const migrated = new MessageStore(dbPath);
+    migrated.addToolStart(1, 'Bash', { command: 'ls' });
+    migrated.updateToolComplete(1, 'Bash', true, longOutput);
+
+    expect(migrated.applyRetention(1, { ...policy, recentMessages: 0 })).toBe(1);
+    migrated.close();
+    cleanupTempDir(dbPath);
+  });
+});
+
 // ============================================================================
 // 아래 테스트들은 SQLite 기반으로 전환되면서 제거된 API들입니다.
 // 참조용으로 주석 처리하여 보존합니다.
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ScheduleInput } from '@estelle/core';
+import { ScheduleStore, MAX_SCHEDULE_RUNS } from '../../src/stores/schedule-store.js';
+
+function input(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    workspaceId: 129,
+    name: '의존성 점검',
+    cron: '0 9 * * 1-5',
+    action: { kind: 'text', text: 'pnpm outdated 확인해줘' },
+    conversationMode: 'reuse',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('ScheduleStore', () => {
+  let store: ScheduleStore;
+
+  beforeEach(() => {
+    store = new ScheduleStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('create/get', () => {
+    it('should roundtrip text schedule', () => {
+      const created = store.create(input({ conversationName: '점검' }), 1000);
+
+      expect(created).toEqual({
+        scheduleId: 1,
+        workspaceId: 129,
+        name: '의존성 점검',
+        cron: '0 9 * * 1-5',
+        action: { kind: 'text', text: 'pnpm outdated 확인해줘' },
+        conversationMode: 'reuse',
+        conversationName: '점검',
+        enabled: true,
+        createdAt: 1000,
+      });
+      expect(store.get(1)).toEqual(created);
+    });
+
+    it('should roundtrip command schedule', () => {
+      const created = store.create(input({
+        action: { kind: 'command', commandId: 3 },
+        conversationMode: 'new',
+        enabled: false,
+      }));
+
+      expect(created.action).toEqual({ kind: 'command', commandId: 3 });
+      expect(created.conversationMode).toBe('new');
+      expect(created.enabled).toBe(false);
+      expect(created).not.toHaveProperty('conversationName');
+    });
+
+    it('should return null for missing schedule', () => {
+      expect(store.get(99)).toBeNull();
+    });
+  });
+
+  describe('update/delete', () => {
+    it('should update all fields', () => {
+      const { scheduleId } = store.create(input());
+
+      const updated = store.update(scheduleId, input({ name: '주간 점검', cron: '@weekly', enabled: false }));
+
+      expect(updated).toMatchObject({ scheduleId, name: '주간 점검', cron: '@weekly', enabled: false });
+    });
+
+    it('should return null when updating missing schedule', () => {
+      expect(store.update(99, input())).toBeNull();
+    });
+
+    it('should delete schedule with its runs', () => {
+      const { scheduleId } = store.create(input());
+      store.recordRun({ scheduleId, runAt: 1000, status: 'started', manual: false });
+
+      expect(store.delete(scheduleId)).toBe(true);
+      expect(store.get(scheduleId)).toBeNull();
+      expect(store.getRuns(scheduleId)).toEqual([]);
+      expect(store.delete(scheduleId)).toBe(false);
+    });
+
+    it('should delete schedules by workspace', () => {
+      store.create(input({ workspaceId: 129 }));
+      store.create(input({ workspaceId: 129 }));
+      store.create(input({ workspaceId: 130 }));
+
+      expect(store.deleteByWorkspace(129)).toBe(2);
+      expect(store.list().map((s) => s.workspaceId)).toEqual([130]);
+    });
+  });
+
+  describe('recordRun', () => {
+    it('should expose last run on schedule', () => {
+      const { scheduleId } = store.create(input());
+      store.recordRun({ scheduleId, runAt: 1000, status: 'started', manual: false, conversationId: 132097 });
+      store.recordRun({ scheduleId, runAt: 2000, status: 'failed', manual: true, error: 'Command not found: 3' });
+
+      expect(store.get(scheduleId)!.lastRun).toEqual({
+        scheduleId,
+        runAt: 2000,
+        status: 'failed',
+        manual: true,
+        error: 'Command not found: 3',
+      });
+      expect(store.getRuns(scheduleId).map((r) => r.runAt)).toEqual([2000, 1000]);
+    });
+
+    it('should keep only recent runs per schedule', () => {
+      const first = store.create(input());
+      const second = store.create(input());
+      for (let i = 0; i < MAX_SCHEDULE_RUNS + 5; i++) {
+        store.recordRun({ scheduleId: first.scheduleId, runAt: i, status: 'started', manual: false });
+      }
+      store.recordRun({ scheduleId: second.scheduleId, runAt: 0, status: 'skipped', manual: false });
+
+      const runs = store.getRuns(first.scheduleId, 100);
+      expect(runs).toHaveLength(MAX_SCHEDULE_RUNS);
+      expect(runs[0].runAt).toBe(MAX_SCHEDULE_RUNS + 4);
+      expect(store.getRuns(second.scheduleId)).toHaveLength(1);
+    });
+  });
+});
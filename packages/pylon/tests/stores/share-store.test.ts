@@ -127,6 +127,18 @@ describe('ShareStore', () => {
       // Then: Base62 문자만 포함 (a-z, A-Z, 0-9)
       expect(share.shareId).toMatch(/^[a-zA-Z0-9]{12}$/);
     });
+
+    it('should_generate_share_key_for_viewer_encryption', () => {
+      // Given/When: 공유 두 개 생성
+      const share1 = store.create(1);
+      const share2 = store.create(2);
+
+      // Then: 256비트 base64url 키가 공유마다 따로 생성됨
+      expect(share1.key).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(share1.key).not.toBe(share2.key);
+      expect(store.getKey(share1.shareId)).toBe(share1.key);
+      expect(store.getKey('unknownShare')).toBeNull();
+    });
   });
 
   // ============================================================================
@@ -394,6 +406,7 @@ describe('ShareStore', () => {
           conversationId: 42,
           createdAt: share.createdAt,
           accessCount: 0,
+          key: share.key,
         });
       });
     });
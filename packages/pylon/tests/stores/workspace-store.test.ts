@@ -29,8 +29,10 @@ import {
   encodeWorkspaceId,
   encodeConversationId,
   decodeConversationId,
+  DEFAULT_RETENTION_POLICY,
 } from '@estelle/core';
 import type { ConversationId, PylonId, WorkspaceId } from '@estelle/core';
+import { getWorktreePath } from '../../src/utils/git-worktree.js';
 import { toNativePath } from '../utils/path-utils.js';
 
 /** 테스트용 디바이스 인덱스 (1~15, Pylon은 0 불가) */
@@ -303,6 +305,66 @@ describe('WorkspaceStore', () => {
         expect(updated?.name).toBe('New Name');
       });
 
+      it('should set and reset retention policy', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+        const conversation = store.createConversation(workspace.workspaceId)!;
+        const policy = { ...DEFAULT_RETENTION_POLICY, recentMessages: 50, maxMessages: 1000 };
+
+        expect(store.updateWorkspace(workspace.workspaceId, { retentionPolicy: policy })).toBe(true);
+        expect(store.getRetentionPolicy(conversation.conversationId)).toEqual(policy);
+
+        expect(store.updateWorkspace(workspace.workspaceId, { retentionPolicy: null })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.retentionPolicy).toBeUndefined();
+        expect(store.getRetentionPolicy(conversation.conversationId)).toEqual(DEFAULT_RETENTION_POLICY);
+      });
+
+      it('should set and reset worker policy', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+        const policy = { maxConcurrency: 3, useWorktree: true };
+
+        expect(store.updateWorkspace(workspace.workspaceId, { workerPolicy: policy })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.workerPolicy).toEqual(policy);
+
+        expect(store.updateWorkspace(workspace.workspaceId, { workerPolicy: null })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.workerPolicy).toBeUndefined();
+      });
+
+      it('should toggle account failover', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+
+        expect(store.updateWorkspace(workspace.workspaceId, { accountFailover: true })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.accountFailover).toBe(true);
+
+        expect(store.updateWorkspace(workspace.workspaceId, { accountFailover: false })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.accountFailover).toBeUndefined();
+      });
+
+      it('should set and clear default agent', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+
+        expect(store.updateWorkspace(workspace.workspaceId, { agentType: 'local-llama' })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.agentType).toBe('local-llama');
+
+        expect(store.updateWorkspace(workspace.workspaceId, { agentType: null })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.agentType).toBeUndefined();
+      });
+
+      it('should set and clear permission rules', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+        const conversation = store.createConversation(workspace.workspaceId)!;
+        const rules = [{ id: 'rule_1', toolName: 'Bash', pattern: 'pnpm test*', action: 'allow' as const }];
+
+        expect(store.updateWorkspace(workspace.workspaceId, { permissionRules: rules })).toBe(true);
+        expect(store.getPermissionPolicy(conversation.conversationId)).toEqual({
+          rules,
+          workingDir: workspace.workingDir,
+        });
+
+        expect(store.updateWorkspace(workspace.workspaceId, { permissionRules: [] })).toBe(true);
+        expect(store.getWorkspace(workspace.workspaceId)?.permissionRules).toBeUndefined();
+        expect(store.getPermissionPolicy(conversation.conversationId)?.rules).toEqual([]);
+      });
+
       it('should return false when name is empty after trim', () => {
         const { workspace } = store.createWorkspace('Test', 'C:\\test');
 
@@ -483,6 +545,18 @@ describe('WorkspaceStore', () => {
         expect(conv?.name).toBe('Custom Name');
       });
 
+      it('should create conversation with agent type', () => {
+        expect(store.createConversation(workspaceId)?.agentType).toBe('claude');
+        expect(store.createConversation(workspaceId, 'Codex', 'codex')?.agentType).toBe('codex');
+      });
+
+      it('should use workspace default agent when agent type is omitted', () => {
+        store.updateWorkspace(workspaceId, { agentType: 'local-llama' });
+
+        expect(store.createConversation(workspaceId)?.agentType).toBe('local-llama');
+        expect(store.createConversation(workspaceId, 'Claude', 'claude')?.agentType).toBe('claude');
+      });
+
       it('should assign sequential local IDs (via conversationId decoding)', () => {
         const conv1 = store.createConversation(workspaceId, 'Conv1');
         const conv2 = store.createConversation(workspaceId, 'Conv2');
@@ -502,6 +576,18 @@ describe('WorkspaceStore', () => {
 
         expect(conv).toBeNull();
       });
+
+      it('should not use a worktree by default', () => {
+        expect(store.createConversation(workspaceId)?.worktree).toBeUndefined();
+      });
+
+      it('should record a dedicated worktree when requested', () => {
+        const conv = store.createConversation(workspaceId, 'Isolated', 'claude', { useWorktree: true })!;
+
+        const name = conv.worktree!.branch.slice('estelle/'.length);
+        expect(name).toMatch(new RegExp(`^conv-${conv.conversationId}-`));
+        expect(conv.worktree!.path).toBe(getWorktreePath(store.getWorkspace(workspaceId)!.workingDir, name));
+      });
     });
 
     describe('getConversation', () => {
@@ -660,6 +746,90 @@ describe('WorkspaceStore', () => {
         expect(updated?.lastUsed).toBeGreaterThanOrEqual(originalLastUsed);
       });
     });
+
+    describe('setConversationFork / clearPendingFork', () => {
+      it('should record parent and pending fork', () => {
+        const workspace = store.getActiveWorkspace()!;
+        const fork = store.createConversation(workspace.workspaceId, 'Fork')!;
+
+        const result = store.setConversationFork(fork.conversationId, conversationId, {
+          agentSessionId: 'session-1',
+          resumeSessionAt: 'uuid-1',
+        });
+
+        expect(result).toBe(true);
+        const conv = store.getConversation(fork.conversationId);
+        expect(conv?.parentConversationId).toBe(conversationId);
+        expect(conv?.pendingFork).toEqual({ agentSessionId: 'session-1', resumeSessionAt: 'uuid-1' });
+      });
+
+      it('should clear pending fork but keep parent', () => {
+        const workspace = store.getActiveWorkspace()!;
+        const fork = store.createConversation(workspace.workspaceId, 'Fork')!;
+        store.setConversationFork(fork.conversationId, conversationId, {});
+
+        expect(store.clearPendingFork(fork.conversationId)).toBe(true);
+        expect(store.clearPendingFork(fork.conversationId)).toBe(false);
+        const conv = store.getConversation(fork.conversationId);
+        expect(conv?.pendingFork).toBeUndefined();
+        expect(conv?.parentConversationId).toBe(conversationId);
+      });
+    });
+
+    describe('setConversationGitBaseline', () => {
+      it('should set and clear git baseline', () => {
+        expect(store.setConversationGitBaseline(conversationId, 'abc123')).toBe(true);
+        expect(store.getConversation(conversationId)?.gitBaseline).toBe('abc123');
+
+        store.setConversationGitBaseline(conversationId, null);
+        expect(store.getConversation(conversationId)?.gitBaseline).toBeUndefined();
+      });
+
+      it('should return false for unknown conversation', () => {
+        expect(store.setConversationGitBaseline(999999 as ConversationId, 'abc123')).toBe(false);
+      });
+    });
+
+    describe('setConversationCost', () => {
+      it('should persist the spent cost', () => {
+        expect(store.getConversationCost(conversationId)).toBe(0);
+
+        expect(store.setConversationCost(conversationId, 0.42)).toBe(true);
+        expect(store.getConversationCost(conversationId)).toBe(0.42);
+
+        const restored = WorkspaceStore.fromJSON(DEVICE_INDEX, store.toJSON());
+        expect(restored.getConversationCost(conversationId)).toBe(0.42);
+      });
+
+      it('should return false for unknown conversation', () => {
+        expect(store.setConversationCost(999999 as ConversationId, 1)).toBe(false);
+      });
+    });
+
+    describe('setConversationWorktree', () => {
+      it('should set and clear worktree', () => {
+        const worktree = { path: '/repo.worktrees/conv-1', branch: 'estelle/conv-1' };
+
+        expect(store.setConversationWorktree(conversationId, worktree)).toBe(true);
+        expect(store.getConversation(conversationId)?.worktree).toEqual(worktree);
+
+        store.setConversationWorktree(conversationId, null);
+        expect(store.getConversation(conversationId)?.worktree).toBeUndefined();
+      });
+
+      it('should check location rules against the worktree path', () => {
+        const worktree = { path: '/repo.worktrees/conv-1', branch: 'estelle/conv-1' };
+
+        expect(store.getPermissionPolicy(conversationId)?.workingDir).toBe('C:/test');
+
+        store.setConversationWorktree(conversationId, worktree);
+        expect(store.getPermissionPolicy(conversationId)?.workingDir).toBe(worktree.path);
+      });
+
+      it('should return false for unknown conversation', () => {
+        expect(store.setConversationWorktree(999999 as ConversationId, null)).toBe(false);
+      });
+    });
   });
 
   // ============================================================================
@@ -709,6 +879,61 @@ describe('WorkspaceStore', () => {
         expect(result).toBe(false);
       });
     });
+
+    describe('setConversationAgentSettings', () => {
+      it('should replace settings and clear them with null or empty object', () => {
+        expect(store.getConversationAgentSettings(conversationId)).toEqual({});
+
+        expect(store.setConversationAgentSettings(conversationId, { model: 'claude-opus-4-6', maxTurns: 10 })).toBe(true);
+        store.setConversationAgentSettings(conversationId, { effort: 'low' });
+        expect(store.getConversationAgentSettings(conversationId)).toEqual({ effort: 'low' });
+
+        store.setConversationAgentSettings(conversationId, {});
+        expect(store.getConversation(conversationId)?.agentSettings).toBeUndefined();
+
+        store.setConversationAgentSettings(conversationId, { maxCostUsd: 2 });
+        store.setConversationAgentSettings(conversationId, null);
+        expect(store.getConversation(conversationId)?.agentSettings).toBeUndefined();
+      });
+
+      it('should persist settings through toJSON/fromJSON', () => {
+        store.setConversationAgentSettings(conversationId, { model: 'gpt-5-codex', effort: 'high' });
+
+        const restored = WorkspaceStore.fromJSON(DEVICE_INDEX, store.toJSON());
+
+        expect(restored.getConversationAgentSettings(conversationId)).toEqual({ model: 'gpt-5-codex', effort: 'high' });
+      });
+
+      it('should return false for non-existent conversation', () => {
+        const fakeId = testEncodeConversationId(DEVICE_INDEX, 1, 999);
+
+        expect(store.setConversationAgentSettings(fakeId, { effort: 'low' })).toBe(false);
+      });
+    });
+
+    describe('addPermissionRule', () => {
+      const rule = { id: 'rule_1', toolName: 'Bash', pattern: 'ls', action: 'allow' as const };
+
+      it('should append rule to the conversation workspace', () => {
+        expect(store.addPermissionRule(conversationId, rule)).toBe(true);
+
+        expect(store.getPermissionPolicy(conversationId)?.rules).toEqual([rule]);
+      });
+
+      it('should skip duplicate rule', () => {
+        store.addPermissionRule(conversationId, rule);
+
+        expect(store.addPermissionRule(conversationId, { ...rule, id: 'rule_2' })).toBe(false);
+        expect(store.getPermissionPolicy(conversationId)?.rules).toHaveLength(1);
+      });
+
+      it('should return false for non-existent conversation', () => {
+        const fakeId = testEncodeConversationId(DEVICE_INDEX, 1, 999);
+
+        expect(store.addPermissionRule(fakeId, rule)).toBe(false);
+        expect(store.getPermissionPolicy(fakeId)).toBeUndefined();
+      });
+    });
   });
 
   // ============================================================================
@@ -816,6 +1041,28 @@ describe('WorkspaceStore', () => {
         expect(conv?.status).toBe(ConversationStatus.IDLE);
       });
     });
+
+    describe('getActiveSessions', () => {
+      it('should list only non-idle conversations with names', () => {
+        const { workspace } = store.createWorkspace('Test', 'C:\\test');
+        const idle = store.createConversation(workspace.workspaceId, 'Idle')!;
+        const waiting = store.createConversation(workspace.workspaceId, 'Waiting')!;
+        store.updateConversationStatus(waiting.conversationId, ConversationStatus.WAITING);
+
+        const sessions = store.getActiveSessions();
+
+        expect(sessions).toEqual([
+          {
+            conversationId: waiting.conversationId,
+            conversationName: 'Waiting',
+            workspaceId: workspace.workspaceId,
+            workspaceName: 'Test',
+            status: ConversationStatus.WAITING,
+          },
+        ]);
+        expect(sessions.map((s) => s.conversationId)).not.toContain(idle.conversationId);
+      });
+    });
   });
 
   // ============================================================================
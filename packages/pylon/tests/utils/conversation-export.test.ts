@@ -0,0 +1,182 @@
+/**
+ * ConversationExport 모듈 테스트
+ *
+ * 테스트 항목:
+ * - 파일명 생성 (금지 문자 치환, 확장자)
+ * - Markdown 렌더링 (텍스트, 도구, 코드 펜스)
+ * - HTML 렌더링 (이스케이프, ToolCard 상태 클래스)
+ * - JSON 아카이브 (메타데이터, 첨부 파일, 임시 메시지 제외)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isConversationArchive, type StoreMessage } from '@estelle/core';
+import {
+  buildExportFilename,
+  renderMarkdown,
+  renderHtml,
+  buildArchive,
+  type ExportSource,
+} from '../../src/utils/conversation-export.js';
+import type { Conversation } from '../../src/stores/workspace-store.js';
+
+function createSource(messages: StoreMessage[], overrides: Partial<Conversation> = {}): ExportSource {
+  return {
+    workspace: { name: 'Alpha', workingDir: '/work/alpha' },
+    conversation: {
+      conversationId: 1 as Conversation['conversationId'],
+      name: 'Fix bug',
+      claudeSessionId: 'session-1',
+      status: 'idle',
+      unread: false,
+      permissionMode: 'default',
+      createdAt: Date.UTC(2025, 0, 1),
+      agentType: 'claude',
+      ...overrides,
+    },
+    messages,
+    exportedAt: Date.UTC(2025, 0, 2),
+  };
+}
+
+const userMessage: StoreMessage = {
+  id: 'm1',
+  role: 'user',
+  type: 'text',
+  content: 'Please check <main.ts>',
+  timestamp: 1,
+  attachments: [{ filename: 'shot.png', path: '/uploads/shot.png' }],
+};
+
+const toolMessage: StoreMessage = {
+  id: 'm2',
+  role: 'assistant',
+  type: 'tool_complete',
+  toolName: 'Bash',
+  toolInput: { command: 'ls', description: 'List files' },
+  success: true,
+  output: 'a.ts\n```\nb.ts',
+  timestamp: 2,
+};
+
+const failedTool: StoreMessage = {
+  id: 'm3',
+  role: 'assistant',
+  type: 'tool_complete',
+  toolName: 'Read',
+  toolInput: { file_path: '/x' },
+  success: false,
+  error: 'ENOENT',
+  timestamp: 3,
+};
+
+describe('ConversationExport', () => {
+  describe('buildExportFilename', () => {
+    it('should_replace_forbidden_characters_and_append_extension', () => {
+      expect(buildExportFilename('a/b:c?', 'markdown', Date.UTC(2025, 0, 2))).toBe(
+        'a_b_c_-2025-01-02-000000.md'
+      );
+    });
+
+    it('should_fallback_when_name_is_empty', () => {
+      expect(buildExportFilename('   ', 'json', Date.UTC(2025, 0, 2))).toBe(
+        'conversation-2025-01-02-000000.json'
+      );
+    });
+  });
+
+  describe('renderMarkdown', () => {
+    it('should_include_header_and_messages', () => {
+      const md = renderMarkdown(createSource([userMessage, toolMessage]));
+
+      expect(md).toContain('# Fix bug');
+      expect(md).toContain('Workspace: Alpha');
+      expect(md).toContain('Please check <main.ts>');
+      expect(md).toContain('📎 shot.png');
+      expect(md).toContain('**🔧 Bash** ✓ — List files');
+    });
+
+    it('should_use_longer_fence_when_output_contains_backticks', () => {
+      const md = renderMarkdown(createSource([toolMessage]));
+
+      expect(md).toContain('````\na.ts\n```\nb.ts\n````');
+    });
+
+    it('should_skip_temporary_messages', () => {
+      const md = renderMarkdown(
+        createSource([{ ...userMessage, content: 'temp only', temporary: true }])
+      );
+
+      expect(md).not.toContain('temp only');
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should_escape_html_content', () => {
+      const html = renderHtml(createSource([userMessage]));
+
+      expect(html).toContain('Please check &lt;main.ts&gt;');
+      expect(html).not.toContain('<main.ts>');
+    });
+
+    it('should_mark_tool_cards_by_status', () => {
+      const html = renderHtml(createSource([toolMessage, failedTool]));
+
+      expect(html).toContain('tool tool-success');
+      expect(html).toContain('tool tool-failure');
+      expect(html).toContain('ENOENT');
+    });
+
+    it('should_be_self_contained', () => {
+      const html = renderHtml(createSource([]));
+
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<link|<script/);
+    });
+  });
+
+  describe('buildArchive', () => {
+    it('should_build_valid_archive_with_conversation_metadata', () => {
+      const archive = buildArchive(createSource([userMessage, toolMessage]), () => null);
+
+      expect(isConversationArchive(archive)).toBe(true);
+      expect(archive.conversation).toMatchObject({
+        name: 'Fix bug',
+        agentType: 'claude',
+        agentSessionId: 'session-1',
+      });
+      expect(archive.messages).toHaveLength(2);
+    });
+
+    it('should_embed_readable_attachments_as_base64', () => {
+      const fileMessage: StoreMessage = {
+        id: 'm4',
+        role: 'assistant',
+        type: 'file_attachment',
+        file: {
+          path: '/work/alpha/out.txt',
+          filename: 'out.txt',
+          mimeType: 'text/plain',
+          fileType: 'text',
+          size: 5,
+        },
+        timestamp: 4,
+      };
+      const reads: string[] = [];
+
+      const archive = buildArchive(createSource([userMessage, fileMessage]), (p) => {
+        reads.push(p);
+        return p.endsWith('out.txt') ? Buffer.from('hello') : null;
+      });
+
+      expect(reads).toEqual(['/uploads/shot.png', '/work/alpha/out.txt']);
+      expect(archive.attachments).toEqual([
+        {
+          path: '/work/alpha/out.txt',
+          filename: 'out.txt',
+          mimeType: 'text/plain',
+          data: Buffer.from('hello').toString('base64'),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * ConversationFork 모듈 테스트
+ *
+ * 테스트 항목:
+ * - 분기 지점까지의 메시지 선택 (assistant 텍스트만 허용, 임시 메시지 제외)
+ * - 트랜스크립트 분기 지점 탐색 (사용자 턴/assistant 텍스트 위치 매칭)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StoreMessage } from '@estelle/core';
+import { selectForkPrefix, findTranscriptForkPoint } from '../../src/utils/conversation-fork.js';
+
+const user = (id: string, content: string): StoreMessage => ({
+  id, role: 'user', type: 'text', content, timestamp: 0,
+});
+const assistant = (id: string, content: string): StoreMessage => ({
+  id, role: 'assistant', type: 'text', content, timestamp: 0,
+});
+const tool = (id: string): StoreMessage => ({
+  id, role: 'assistant', type: 'tool_complete', toolName: 'Bash', toolInput: {}, success: true, timestamp: 0,
+});
+
+function transcriptLine(type: 'user' | 'assistant', uuid: string, content: unknown, extra = {}) {
+  return JSON.stringify({ type, uuid, sessionId: 's1', message: { role: type, content }, ...extra });
+}
+
+const transcript = [
+  // Pylon의 대화 시작 리마인더 (사용자 턴 아님)
+  transcriptLine('user', 'r0', '<system-reminder>\n대화명: A\n</system-reminder>'),
+  transcriptLine('assistant', 'ra', [{ type: 'text', text: 'ready' }]),
+  transcriptLine('user', 'u1', '<system-reminder>\nx\n</system-reminder>\nq1'),
+  transcriptLine('assistant', 'a1', [{ type: 'text', text: 'checking' }]),
+  transcriptLine('assistant', 't1', [{ type: 'tool_use', id: 'tu1', name: 'Bash', input: {} }]),
+  transcriptLine('user', 'tr1', [{ type: 'tool_result', tool_use_id: 'tu1', content: 'ok' }]),
+  transcriptLine('assistant', 'a2', [{ type: 'text', text: 'done' }]),
+  transcriptLine('user', 'u2', 'q2'),
+  transcriptLine('assistant', 'a3', [{ type: 'text', text: 'second' }]),
+].join('\n');
+
+describe('ConversationFork', () => {
+  describe('selectForkPrefix', () => {
+    const messages = [user('m1', 'q1'), assistant('m2', 'a1'), user('m3', 'q2'), assistant('m4', 'a2')];
+
+    it('should_return_messages_through_fork_point', () => {
+      expect(selectForkPrefix(messages, 'm2')?.map((m) => m.id)).toEqual(['m1', 'm2']);
+    });
+
+    it('should_reject_user_message_or_unknown_id', () => {
+      expect(selectForkPrefix(messages, 'm3')).toBeNull();
+      expect(selectForkPrefix(messages, 'nope')).toBeNull();
+    });
+
+    it('should_exclude_temporary_messages', () => {
+      const withTemp = [user('m1', 'q1'), { ...assistant('t', 'temp'), temporary: true }, assistant('m2', 'a1')];
+
+      expect(selectForkPrefix(withTemp, 'm2')?.map((m) => m.id)).toEqual(['m1', 'm2']);
+    });
+  });
+
+  describe('findTranscriptForkPoint', () => {
+    it('should_match_assistant_text_within_turn', () => {
+      const prefix = [assistant('s0', 'ready'), user('m1', 'q1'), assistant('m2', 'checking'), tool('m3'), assistant('m4', 'done')];
+
+      expect(findTranscriptForkPoint(transcript, prefix)).toBe('a2');
+      expect(findTranscriptForkPoint(transcript, prefix.slice(0, 3))).toBe('a1');
+    });
+
+    it('should_match_later_turn', () => {
+      const prefix = [user('m1', 'q1'), assistant('m2', 'checking'), assistant('m4', 'done'), user('m5', 'q2'), assistant('m6', 'second')];
+
+      expect(findTranscriptForkPoint(transcript, prefix)).toBe('a3');
+    });
+
+    it('should_match_reply_to_initial_reminder_before_first_turn', () => {
+      expect(findTranscriptForkPoint(transcript, [assistant('s0', 'ready')])).toBe('ra');
+    });
+
+    it('should_match_by_content_when_older_messages_were_dropped_by_retention', () => {
+      // maxMessages로 앞부분이 잘려 첫 사용자 턴(q1)이 저장소에 없음
+      const prefix = [assistant('m4', 'done'), user('m5', 'q2'), assistant('m6', 'second')];
+
+      expect(findTranscriptForkPoint(transcript, prefix)).toBe('a3');
+    });
+
+    it('should_pick_the_closest_timestamp_when_texts_repeat', () => {
+      const at = (time: string) => ({ timestamp: time });
+      const repeated = [
+        transcriptLine('user', 'u1', 'q1', at('2025-01-01T00:00:00.000Z')),
+        transcriptLine('assistant', 'a1', [{ type: 'text', text: 'ok' }], at('2025-01-01T00:00:01.000Z')),
+        transcriptLine('user', 'u2', 'q2', at('2025-01-01T00:01:00.000Z')),
+        transcriptLine('assistant', 'a2', [{ type: 'text', text: 'ok' }], at('2025-01-01T00:01:01.000Z')),
+      ].join('\n');
+      const forkPoint = { ...assistant('m2', 'ok'), timestamp: Date.parse('2025-01-01T00:00:01.050Z') };
+      const laterPoint = { ...assistant('m4', 'ok'), timestamp: Date.parse('2025-01-01T00:01:01.050Z') };
+
+      expect(findTranscriptForkPoint(repeated, [forkPoint])).toBe('a1');
+      expect(findTranscriptForkPoint(repeated, [laterPoint])).toBe('a2');
+    });
+
+    it('should_return_null_when_transcript_is_shorter', () => {
+      const prefix = [user('m1', 'q1'), user('m2', 'q2'), user('m3', 'q3'), assistant('m4', 'x')];
+
+      expect(findTranscriptForkPoint(transcript, prefix)).toBeNull();
+    });
+
+    it('should_return_null_when_last_message_is_not_assistant_text', () => {
+      expect(findTranscriptForkPoint(transcript, [user('m1', 'q1')])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * ConversationImport 모듈 테스트
+ *
+ * 테스트 항목:
+ * - 형식 감지 (JSON 아카이브 / 트랜스크립트 / 지원하지 않는 아카이브)
+ * - 트랜스크립트 변환 (도구 결과 연결, 사이드체인/메타/리마인더 제외, 이름 추출)
+ * - 메시지별 원본 줄 UUID
+ * - 첨부 파일 경로 변경
+ * - Claude 프로젝트 폴더명
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StoreMessage, ToolCompleteMessage } from '@estelle/core';
+import {
+  parseConversationFile,
+  parseClaudeTranscript,
+  readClaudeTranscript,
+  remapAttachmentPaths,
+  getClaudeProjectDirName,
+} from '../../src/utils/conversation-import.js';
+
+function toJsonl(entries: unknown[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join('\n');
+}
+
+const userLine = (content: unknown, extra: Record<string, unknown> = {}) => ({
+  type: 'user',
+  sessionId: 'session-1',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  message: { role: 'user', content },
+  ...extra,
+});
+
+const assistantLine = (content: unknown, extra: Record<string, unknown> = {}) => ({
+  type: 'assistant',
+  sessionId: 'session-1',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  message: { role: 'assistant', content },
+  ...extra,
+});
+
+describe('ConversationImport', () => {
+  describe('parseConversationFile', () => {
+    it('should_parse_estelle_archive', () => {
+      const parsed = parseConversationFile(JSON.stringify({
+        format: 'estelle-conversation',
+        version: 1,
+        exportedAt: 1,
+        workspace: { name: 'W', workingDir: '/w' },
+        conversation: {
+          name: 'Archived',
+          agentType: 'codex',
+          agentSessionId: 'thread-1',
+          permissionMode: 'bypassPermissions',
+          createdAt: 1,
+        },
+        messages: [{ id: 'm1', role: 'user', type: 'text', content: 'hi', timestamp: 1 }],
+        attachments: [],
+      }));
+
+      expect(parsed).toMatchObject({
+        source: 'archive',
+        name: 'Archived',
+        agentType: 'codex',
+        agentSessionId: 'thread-1',
+        permissionMode: 'bypassPermissions',
+      });
+      expect(parsed.messages).toHaveLength(1);
+    });
+
+    it('should_reject_unknown_json_document', () => {
+      expect(() => parseConversationFile('{"format":"other"}')).toThrow(
+        'Unsupported archive format or version'
+      );
+    });
+
+    it('should_fallback_to_transcript_for_jsonl', () => {
+      const parsed = parseConversationFile(toJsonl([userLine('hello')]));
+
+      expect(parsed.source).toBe('claude-transcript');
+    });
+  });
+
+  describe('parseClaudeTranscript', () => {
+    it('should_pair_tool_use_with_tool_result', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        userLine('list files'),
+        assistantLine([
+          { type: 'text', text: 'Running ls' },
+          { type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'ls' } },
+        ]),
+        userLine([{ type: 'tool_result', tool_use_id: 'tu1', content: 'a.ts' }]),
+        assistantLine([{ type: 'tool_use', id: 'tu2', name: 'Read', input: { file_path: '/x' } }]),
+        userLine([{ type: 'tool_result', tool_use_id: 'tu2', content: [{ type: 'text', text: 'ENOENT' }], is_error: true }]),
+      ]));
+
+      expect(parsed.messages.map((m) => m.type)).toEqual(['text', 'text', 'tool_complete', 'tool_complete']);
+      const bash = parsed.messages[2] as ToolCompleteMessage;
+      expect(bash).toMatchObject({ toolName: 'Bash', success: true, output: 'a.ts' });
+      const read = parsed.messages[3] as ToolCompleteMessage;
+      expect(read).toMatchObject({ toolName: 'Read', success: false, error: 'ENOENT' });
+    });
+
+    it('should_keep_unanswered_tool_use_as_tool_start', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        assistantLine([{ type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'sleep' } }]),
+      ]));
+
+      expect(parsed.messages[0].type).toBe('tool_start');
+    });
+
+    it('should_skip_sidechain_meta_and_cli_internal_lines', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        userLine('sub task', { isSidechain: true }),
+        userLine('caveat', { isMeta: true }),
+        userLine('<command-name>/clear</command-name>'),
+        userLine('real question'),
+        'not json',
+      ]).concat('\n{broken'));
+
+      expect(parsed.messages).toHaveLength(1);
+      expect(parsed.messages[0]).toMatchObject({ role: 'user', content: 'real question' });
+    });
+
+    it('should_strip_system_reminders_from_user_text', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        userLine('<system-reminder>\n대화명 변경\n</system-reminder>'),
+        userLine('<system-reminder>\n대화명: A\n</system-reminder>\nhello'),
+        { type: 'user', isCompactSummary: true, message: { role: 'user', content: 'summary of before' } },
+      ]));
+
+      expect(parsed.messages).toHaveLength(1);
+      expect(parsed.messages[0]).toMatchObject({ role: 'user', content: 'hello' });
+    });
+
+    it('should_use_summary_as_name_and_session_id', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        { type: 'summary', summary: 'Refactor parser' },
+        userLine('hello'),
+      ]));
+
+      expect(parsed.name).toBe('Refactor parser');
+      expect(parsed.agentSessionId).toBe('session-1');
+    });
+
+    it('should_fallback_to_first_user_line_as_name', () => {
+      const parsed = parseClaudeTranscript(toJsonl([userLine('Fix the login bug\nmore details')]));
+
+      expect(parsed.name).toBe('Fix the login bug');
+    });
+
+    it('should_keep_timestamps_strictly_increasing', () => {
+      const parsed = parseClaudeTranscript(toJsonl([
+        userLine('a'),
+        assistantLine([{ type: 'text', text: 'b' }, { type: 'text', text: 'c' }]),
+      ]));
+
+      const timestamps = parsed.messages.map((m) => m.timestamp);
+      expect(timestamps).toEqual([...timestamps].sort((x, y) => x - y));
+      expect(new Set(timestamps).size).toBe(timestamps.length);
+    });
+
+    it('should_throw_when_no_messages', () => {
+      expect(() => parseClaudeTranscript(toJsonl([{ type: 'summary', summary: 'x' }]))).toThrow(
+        'No conversation messages found'
+      );
+    });
+  });
+
+  describe('readClaudeTranscript', () => {
+    it('should_return_entry_uuid_per_message', () => {
+      const result = readClaudeTranscript(toJsonl([
+        userLine('q', { uuid: 'u1' }),
+        assistantLine([{ type: 'tool_use', id: 'tu1', name: 'Bash', input: {} }], { uuid: 'a1' }),
+        userLine([{ type: 'tool_result', tool_use_id: 'tu1', content: 'ok' }], { uuid: 'r1' }),
+        assistantLine([{ type: 'text', text: 'done' }], { uuid: 'a2' }),
+      ]));
+
+      expect(result.messages.map((m) => m.type)).toEqual(['text', 'tool_complete', 'text']);
+      expect(result.entryUuids).toEqual(['u1', 'a1', 'a2']);
+    });
+
+    it('should_not_throw_for_empty_transcript', () => {
+      expect(readClaudeTranscript('').messages).toEqual([]);
+    });
+  });
+
+  describe('remapAttachmentPaths', () => {
+    it('should_replace_mapped_paths_only', () => {
+      const messages: StoreMessage[] = [
+        {
+          id: 'm1', role: 'user', type: 'text', content: 'x', timestamp: 1,
+          attachments: [
+            { filename: 'a.png', path: '/old/a.png' },
+            { filename: 'b.png', path: '/old/b.png' },
+          ],
+        },
+      ];
+
+      const [msg] = remapAttachmentPaths(messages, new Map([['/old/a.png', '/new/a.png']]));
+
+      expect(msg.type === 'text' && msg.role === 'user' && msg.attachments?.map((a) => a.path)).toEqual([
+        '/new/a.png',
+        '/old/b.png',
+      ]);
+    });
+  });
+
+  describe('getClaudeProjectDirName', () => {
+    it('should_replace_non_alphanumeric_characters', () => {
+      expect(getClaudeProjectDirName('C:\\WorkSpace\\estelle2')).toBe('C--WorkSpace-estelle2');
+      expect(getClaudeProjectDirName('/home/user/my_app')).toBe('-home-user-my-app');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * git worktree 유틸리티 테스트
+ *
+ * 테스트 항목:
+ * - worktree 경로 계산
+ * - 임시 리포지터리에서 worktree/브랜치 생성, 재사용, 새로 만들기(reset)
+ * - git 리포지터리가 아닐 때 에러
+ * - 남은 변경 커밋, 원본 체크아웃에 병합 (충돌 시 취소), worktree/브랜치 삭제
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createWorktree,
+  getWorktreePath,
+  commitWorktreeChanges,
+  mergeWorktree,
+  removeWorktree,
+} from '../../src/utils/git-worktree.js';
+
+describe('getWorktreePath', () => {
+  it('should place worktrees next to the repository', () => {
+    const repo = path.resolve('/work/project');
+    expect(getWorktreePath(repo, 'task-1')).toBe(
+      path.join(path.resolve('/work'), 'project.worktrees', 'task-1')
+    );
+  });
+});
+
+describe('createWorktree', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repoDir, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'estelle-worktree-'));
+    repoDir = path.join(tempDir, 'project');
+    fs.mkdirSync(repoDir);
+    git('init', '-q');
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'init');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create a worktree on its own branch', async () => {
+    const worktreePath = await createWorktree(repoDir, 'task-1');
+
+    expect(worktreePath).toBe(getWorktreePath(repoDir, 'task-1'));
+    expect(fs.existsSync(worktreePath)).toBe(true);
+    expect(
+      execFileSync('git', ['branch', '--show-current'], { cwd: worktreePath, encoding: 'utf-8' }).trim()
+    ).toBe('estelle/task-1');
+  });
+
+  it('should reuse an existing worktree', async () => {
+    const first = await createWorktree(repoDir, 'task-1');
+    const second = await createWorktree(repoDir, 'task-1');
+
+    expect(second).toBe(first);
+  });
+
+  it('should recreate a dirty worktree from HEAD when reset', async () => {
+    const first = await createWorktree(repoDir, 'task-1');
+    fs.writeFileSync(path.join(first, 'leftover.txt'), 'dirty\n');
+
+    const second = await createWorktree(repoDir, 'task-1', { reset: true });
+
+    expect(second).toBe(first);
+    expect(fs.existsSync(path.join(second, 'leftover.txt'))).toBe(false);
+    expect(
+      execFileSync('git', ['status', '--porcelain'], { cwd: second, encoding: 'utf-8' }).trim()
+    ).toBe('');
+  });
+
+  it('should fail outside a git repository', async () => {
+    const plainDir = path.join(tempDir, 'plain');
+    fs.mkdirSync(plainDir);
+
+    await expect(createWorktree(plainDir, 'task-1')).rejects.toThrow('git worktree 생성 실패');
+  });
+});
+
+describe('worktree cleanup', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let worktreePath: string;
+  const savedEnv: Record<string, string | undefined> = {};
+  const identity = {
+    GIT_AUTHOR_NAME: 'test',
+    GIT_AUTHOR_EMAIL: 'test@example.com',
+    GIT_COMMITTER_NAME: 'test',
+    GIT_COMMITTER_EMAIL: 'test@example.com',
+  };
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  beforeEach(async () => {
+    for (const [key, value] of Object.entries(identity)) {
+      savedEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'estelle-worktree-'));
+    repoDir = path.join(tempDir, 'project');
+    fs.mkdirSync(repoDir);
+    git(repoDir, 'init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(repoDir, 'a.txt'), 'one\n');
+    git(repoDir, 'add', '-A');
+    git(repoDir, 'commit', '-q', '-m', 'init');
+    worktreePath = await createWorktree(repoDir, 'conv-1');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('should commit leftover changes including untracked files', async () => {
+    fs.writeFileSync(path.join(worktreePath, 'a.txt'), 'two\n');
+    fs.writeFileSync(path.join(worktreePath, 'b.txt'), 'new\n');
+
+    expect(await commitWorktreeChanges(worktreePath, 'Leftover')).toBe(true);
+    expect(git(worktreePath, 'status', '--porcelain')).toBe('');
+    expect(git(worktreePath, 'log', '-1', '--format=%s')).toBe('Leftover');
+  });
+
+  it('should skip the commit when there are no changes', async () => {
+    expect(await commitWorktreeChanges(worktreePath, 'Nothing')).toBe(false);
+    expect(git(worktreePath, 'log', '-1', '--format=%s')).toBe('init');
+  });
+
+  it('should merge the worktree branch into the checkout', async () => {
+    fs.writeFileSync(path.join(worktreePath, 'b.txt'), 'new\n');
+    await commitWorktreeChanges(worktreePath, 'Add b');
+
+    await mergeWorktree(repoDir, 'estelle/conv-1');
+
+    expect(fs.readFileSync(path.join(repoDir, 'b.txt'), 'utf-8')).toBe('new\n');
+  });
+
+  it('should abort a conflicting merge', async () => {
+    fs.writeFileSync(path.join(worktreePath, 'a.txt'), 'worktree\n');
+    await commitWorktreeChanges(worktreePath, 'Change a in worktree');
+    fs.writeFileSync(path.join(repoDir, 'a.txt'), 'checkout\n');
+    git(repoDir, 'commit', '-q', '-am', 'Change a in checkout');
+
+    await expect(mergeWorktree(repoDir, 'estelle/conv-1')).rejects.toThrow('git worktree 병합 실패');
+    expect(git(repoDir, 'status', '--porcelain')).toBe('');
+    expect(fs.readFileSync(path.join(repoDir, 'a.txt'), 'utf-8')).toBe('checkout\n');
+  });
+
+  it('should remove the worktree but keep the branch', async () => {
+    fs.writeFileSync(path.join(worktreePath, 'dirty.txt'), 'dirty\n');
+
+    await removeWorktree(repoDir, worktreePath);
+
+    expect(fs.existsSync(worktreePath)).toBe(false);
+    expect(git(repoDir, 'branch', '--list', 'estelle/conv-1')).toContain('estelle/conv-1');
+  });
+
+  it('should remove the worktree and its branch', async () => {
+    await removeWorktree(repoDir, worktreePath, 'estelle/conv-1');
+
+    expect(fs.existsSync(worktreePath)).toBe(false);
+    expect(git(repoDir, 'branch', '--list', 'estelle/conv-1')).toBe('');
+  });
+
+  it('should prune a worktree whose folder is already gone', async () => {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+
+    await removeWorktree(repoDir, worktreePath, 'estelle/conv-1');
+
+    expect(git(repoDir, 'worktree', 'list')).not.toContain('conv-1');
+  });
+});
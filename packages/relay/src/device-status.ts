@@ -26,6 +26,7 @@ import { DEVICES } from './constants.js';
  * @description
  * 현재 연결된 모든 인증된 클라이언트의 정보를 배열로 반환합니다.
  * 각 항목에는 deviceId, deviceType, name, icon, role, connectedAt이 포함됩니다.
+ * Pylon이 활성 세션을 보고했다면 activeSessions도 포함됩니다.
  *
  * @param clients - 클라이언트 맵
  * @param devices - 디바이스 설정 맵 (기본값: DEVICES)
@@ -61,6 +62,7 @@ export function getDeviceList(
       icon: info.icon,
       role: info.role,
       connectedAt: client.connectedAt.toISOString(),
+      ...(client.activeSessions && { activeSessions: client.activeSessions }),
     });
   }
 
@@ -70,6 +70,10 @@ export type {
   UpdateClientAction,
   AllocateClientIndexAction,
   ReleaseClientIndexAction,
+  PushConfigAction,
+  PushSubscribeAction,
+  PushUnsubscribeAction,
+  PushNotifyAction,
   RelayAction,
 } from './types.js';
 
@@ -145,12 +149,27 @@ export {
   handleAuth,
   handleGetDevices,
   handlePing,
+  handlePylonSessions,
   handleRouting,
   handleMessage,
   handleDisconnect,
   handleConnection,
+  handlePush,
 } from './message-handler.js';
 
+// ============================================================================
+// Web Push
+// ============================================================================
+export type { VapidKeys, WebPushOptions, WebPushResult } from './web-push.js';
+export {
+  generateVapidKeys,
+  createVapidAuthorization,
+  encryptPushPayload,
+  sendWebPush,
+} from './web-push.js';
+export type { StoredPushSubscription, PushServiceOptions } from './push-service.js';
+export { PushService, shouldDeliverPush, createPushMessageData } from './push-service.js';
+
 // ============================================================================
 // 정적 파일 서빙
 // ============================================================================
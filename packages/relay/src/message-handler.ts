@@ -8,9 +8,17 @@
  */
 
 import type { AuthPayload } from '@estelle/core';
-import { encodePylonId, encodeClientId, type EnvId } from '@estelle/core';
+import {
+  encodePylonId,
+  encodeClientId,
+  isPylonSessionsPayload,
+  isPushSubscribePayload,
+  isPushNotifyPayload,
+  type EnvId,
+} from '@estelle/core';
 import type {
   Client,
+  AuthenticatedClient,
   RelayMessage,
   RelayAction,
   AuthResultPayload,
@@ -308,6 +316,154 @@ export function handlePing(clientId: string): HandleResult {
   };
 }
 
+/**
+ * pylon_sessions 보고를 처리합니다.
+ *
+ * @description
+ * Pylon이 보고한 활성 세션 목록을 클라이언트 정보에 저장하고,
+ * 집계된 device_status를 App 클라이언트에게 브로드캐스트합니다.
+ * (Pylon은 device_status 수신 시 pylon_status를 다시 보내므로 제외,
+ * Viewer는 다른 대화 정보를 볼 수 없으므로 제외)
+ *
+ * @param clientId - 보고한 Pylon의 클라이언트 ID
+ * @param client - 보고한 Pylon의 클라이언트 정보
+ * @param payload - 활성 세션 페이로드
+ * @param clients - 클라이언트 맵
+ * @param devices - 디바이스 설정 맵
+ * @returns 핸들러 결과
+ */
+export function handlePylonSessions(
+  clientId: string,
+  client: Client,
+  payload: unknown,
+  clients: Map<string, Client>,
+  devices: Record<number, DeviceConfig> = DEVICES
+): HandleResult {
+  if (client.deviceType !== 'pylon') {
+    return {
+      actions: [
+        {
+          type: 'send',
+          clientId,
+          message: { type: 'error', payload: { error: 'Only pylon can report sessions' } },
+        },
+      ],
+    };
+  }
+
+  if (!isPylonSessionsPayload(payload)) {
+    return {
+      actions: [
+        {
+          type: 'send',
+          clientId,
+          message: { type: 'error', payload: { error: 'Invalid pylon_sessions payload' } },
+        },
+      ],
+    };
+  }
+
+  const actions: RelayAction[] = [
+    {
+      type: 'update_client',
+      clientId,
+      updates: { activeSessions: payload.sessions },
+    },
+  ];
+
+  // 업데이트가 반영된 상태로 device_status 생성
+  const updatedClients = new Map(clients);
+  updatedClients.set(clientId, { ...client, activeSessions: payload.sessions });
+
+  const appResult = broadcastToType('app', updatedClients);
+  if (appResult.success) {
+    actions.push({
+      type: 'broadcast',
+      clientIds: appResult.targetClientIds,
+      message: createDeviceStatusMessage(updatedClients, devices),
+    });
+  }
+
+  return { actions };
+}
+
+// ============================================================================
+// 푸시 알림 핸들러
+// ============================================================================
+
+/**
+ * 에러 응답 결과 생성
+ */
+function createErrorResult(clientId: string, error: string): HandleResult {
+  return {
+    actions: [
+      {
+        type: 'send',
+        clientId,
+        message: { type: 'error', payload: { error } },
+      },
+    ],
+  };
+}
+
+/**
+ * 푸시 알림 관련 메시지를 처리합니다.
+ *
+ * @description
+ * - push_config_request / push_subscribe / push_unsubscribe: App만 가능
+ * - push_notify: Pylon만 가능 (발신 Pylon의 deviceId를 함께 전달)
+ *
+ * 구독 저장과 실제 발송은 서버 어댑터가 액션을 받아 수행합니다.
+ *
+ * @param clientId - 발신자 클라이언트 ID
+ * @param client - 발신자 클라이언트 정보
+ * @param data - 수신 메시지
+ * @param envId - 환경 ID (deviceId 인코딩용)
+ * @returns 핸들러 결과
+ */
+export function handlePush(
+  clientId: string,
+  client: AuthenticatedClient,
+  data: RelayMessage,
+  envId: EnvId
+): HandleResult {
+  const { type, payload } = data;
+
+  if (type === 'push_notify') {
+    if (client.deviceType !== 'pylon') {
+      return createErrorResult(clientId, 'Only pylon can send push notifications');
+    }
+    if (!isPushNotifyPayload(payload)) {
+      return createErrorResult(clientId, 'Invalid push_notify payload');
+    }
+    return { actions: [{ type: 'push_notify', pylonId: encodePylonId(envId, client.deviceId), payload }] };
+  }
+
+  if (client.deviceType !== 'app') {
+    return createErrorResult(clientId, 'Only app can manage push subscriptions');
+  }
+
+  if (type === 'push_config_request') {
+    return { actions: [{ type: 'push_config', clientId }] };
+  }
+
+  if (type === 'push_subscribe') {
+    if (!isPushSubscribePayload(payload)) {
+      return createErrorResult(clientId, 'Invalid push_subscribe payload');
+    }
+    return {
+      actions: [{ type: 'push_subscribe', deviceId: encodeClientId(envId, client.deviceId), payload }],
+    };
+  }
+
+  // push_unsubscribe
+  const endpoint = (payload as { endpoint?: unknown } | undefined)?.endpoint;
+  if (typeof endpoint !== 'string') {
+    return createErrorResult(clientId, 'Invalid push_unsubscribe payload');
+  }
+  return { actions: [{ type: 'push_unsubscribe', endpoint }] };
+}
+
 // ============================================================================
 // 라우팅 핸들러
 // ============================================================================
@@ -395,7 +551,8 @@ export function handleRouting(
  * 1. auth: 인증 처리
  * 2. (인증 필요) get_devices, getDevices: 디바이스 목록 응답
  * 3. (인증 필요) ping: pong 응답
- * 4. (인증 필요) 그 외: 라우팅
+ * 4. (인증 필요) pylon_sessions: 활성 세션 저장 + device_status 브로드캐스트
+ * 5. (인증 필요) 그 외: 라우팅
  *
  * @param clientId - 메시지를 보낸 클라이언트 ID (WebSocket 연결 ID)
  * @param client - 클라이언트 정보
@@ -485,6 +642,21 @@ export function handleMessage(
     return handlePing(clientId);
   }
 
+  // pylon_sessions: Pylon 활성 세션 보고 (device_status에 집계)
+  if (type === 'pylon_sessions') {
+    return handlePylonSessions(clientId, client, data.payload, clients, devices);
+  }
+
+  // push_*: Web Push 구독 관리 및 알림 발송
+  if (
+    type === 'push_config_request' ||
+    type === 'push_subscribe' ||
+    type === 'push_unsubscribe' ||
+    type === 'push_notify'
+  ) {
+    return handlePush(clientId, client, data, envId);
+  }
+
   // get_versions: 현재 Relay 및 Pylon 버전 정보 조회
   if (type === 'get_versions') {
     return {
@@ -0,0 +1,255 @@
+/**
+ * @file push-service.ts
+ * @description Web Push 구독 관리 및 알림 발송
+ *
+ * App 디바이스의 푸시 구독과 알림 설정을 파일에 저장하고,
+ * Pylon이 보낸 알림을 각 구독의 설정에 맞춰 발송합니다.
+ * VAPID 키는 환경변수로 주지 않으면 처음 실행 시 생성해 같은 파일에 저장합니다.
+ * (키가 바뀌면 기존 구독이 모두 무효가 되므로 반드시 유지해야 함)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  NotificationPreferences,
+  PushMessageData,
+  PushNotifyPayload,
+  PushSubscribePayload,
+  WebPushSubscription,
+} from '@estelle/core';
+import { generateVapidKeys, sendWebPush } from './web-push.js';
+import type { VapidKeys, WebPushOptions, WebPushResult } from './web-push.js';
+import { log } from './utils.js';
+
+// ============================================================================
+// 타입
+// ============================================================================
+
+/**
+ * 저장된 푸시 구독
+ */
+export interface StoredPushSubscription {
+  /** 구독한 App의 deviceId (로그용) */
+  deviceId: number;
+  subscription: WebPushSubscription;
+  preferences: NotificationPreferences;
+  /** 마지막 갱신 시각 (ms) */
+  updatedAt: number;
+}
+
+/**
+ * 푸시 데이터 파일 형식
+ */
+interface PushData {
+  vapid: VapidKeys;
+  subscriptions: StoredPushSubscription[];
+}
+
+/**
+ * PushService 옵션
+ */
+export interface PushServiceOptions {
+  /** 구독/VAPID 키 저장 파일 경로 */
+  dataPath: string;
+  /** VAPID subject (mailto: 또는 https: URL) */
+  subject: string;
+  /** VAPID 키 (없으면 파일에서 로드하거나 생성) */
+  vapid?: VapidKeys;
+  /** 발송 함수 (테스트용) */
+  send?: (
+    subscription: WebPushSubscription,
+    payload: string,
+    options: WebPushOptions
+  ) => Promise<WebPushResult>;
+}
+
+// ============================================================================
+// 순수 함수
+// ============================================================================
+
+/**
+ * 알림 설정에 따라 발송 여부 판단
+ *
+ * @param preferences - 구독한 디바이스의 알림 설정
+ * @param pylonId - 알림을 보낸 Pylon ID
+ * @param notification - 알림 내용
+ */
+export function shouldDeliverPush(
+  preferences: NotificationPreferences,
+  pylonId: number,
+  notification: PushNotifyPayload
+): boolean {
+  if (!preferences.enabled) return false;
+  if (!preferences.events[notification.event]) return false;
+  if (preferences.mutedPylonIds.includes(pylonId)) return false;
+  if (
+    notification.workspaceId !== undefined &&
+    preferences.mutedWorkspaceIds.includes(notification.workspaceId)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Service Worker에 보낼 푸시 데이터 생성
+ *
+ * 같은 대화의 알림은 tag가 같아 이전 알림을 대체합니다.
+ */
+export function createPushMessageData(pylonId: number, notification: PushNotifyPayload): PushMessageData {
+  return {
+    ...notification,
+    pylonId,
+    tag: notification.conversationId !== undefined
+      ? `conversation-${notification.conversationId}`
+      : `pylon-${pylonId}-${notification.event}`,
+  };
+}
+
+// ============================================================================
+// PushService
+// ============================================================================
+
+export class PushService {
+  private readonly dataPath: string;
+  private readonly subject: string;
+  private readonly send: NonNullable<PushServiceOptions['send']>;
+  private data: PushData;
+
+  constructor(options: PushServiceOptions) {
+    this.dataPath = options.dataPath;
+    this.subject = options.subject;
+    this.send = options.send ?? sendWebPush;
+    this.data = this.load(options.vapid);
+  }
+
+  /**
+   * VAPID 공개키 (클라이언트의 applicationServerKey)
+   */
+  getPublicKey(): string {
+    return this.data.vapid.publicKey;
+  }
+
+  /**
+   * 저장된 구독 목록
+   */
+  getSubscriptions(): StoredPushSubscription[] {
+    return this.data.subscriptions;
+  }
+
+  /**
+   * 구독 등록 (같은 엔드포인트면 설정만 갱신)
+   */
+  subscribe(deviceId: number, payload: PushSubscribePayload): void {
+    const entry: StoredPushSubscription = {
+      deviceId,
+      subscription: payload.subscription,
+      preferences: payload.preferences,
+      updatedAt: Date.now(),
+    };
+    this.data.subscriptions = [
+      ...this.data.subscriptions.filter((s) => s.subscription.endpoint !== payload.subscription.endpoint),
+      entry,
+    ];
+    this.save();
+  }
+
+  /**
+   * 구독 해제
+   */
+  unsubscribe(endpoint: string): void {
+    const before = this.data.subscriptions.length;
+    this.data.subscriptions = this.data.subscriptions.filter((s) => s.subscription.endpoint !== endpoint);
+    if (this.data.subscriptions.length !== before) {
+      this.save();
+    }
+  }
+
+  /**
+   * 알림 발송
+   *
+   * 설정에 맞는 구독에만 발송하고, 만료된(404/410) 구독은 삭제합니다.
+   *
+   * @returns 발송에 성공한 구독 수
+   */
+  async notify(pylonId: number, notification: PushNotifyPayload): Promise<number> {
+    const targets = this.data.subscriptions.filter((s) =>
+      shouldDeliverPush(s.preferences, pylonId, notification)
+    );
+    if (targets.length === 0) return 0;
+
+    const payload = JSON.stringify(createPushMessageData(pylonId, notification));
+    // 사용자 응답이 필요한 알림은 즉시 전달
+    const urgency = notification.event === 'permission' || notification.event === 'question'
+      ? 'high'
+      : 'normal';
+
+    const results = await Promise.all(
+      targets.map(async (target) => {
+        try {
+          const result = await this.send(target.subscription, payload, {
+            vapid: this.data.vapid,
+            subject: this.subject,
+            urgency,
+          });
+          if (result.statusCode >= 400 && !result.expired) {
+            log(`[Push] Failed to deliver to device ${target.deviceId}: HTTP ${result.statusCode}`);
+          }
+          return { target, result };
+        } catch (err) {
+          log(`[Push] Failed to deliver to device ${target.deviceId}: ${(err as Error).message}`);
+          return { target, result: null };
+        }
+      })
+    );
+
+    const expired = results.filter((r) => r.result?.expired).map((r) => r.target.subscription.endpoint);
+    if (expired.length > 0) {
+      this.data.subscriptions = this.data.subscriptions.filter(
+        (s) => !expired.includes(s.subscription.endpoint)
+      );
+      this.save();
+      log(`[Push] Removed ${expired.length} expired subscription(s)`);
+    }
+
+    return results.filter((r) => r.result && r.result.statusCode < 400).length;
+  }
+
+  // ==========================================================================
+  // 저장
+  // ==========================================================================
+
+  private load(vapid?: VapidKeys): PushData {
+    let stored: Partial<PushData> = {};
+    try {
+      stored = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8')) as Partial<PushData>;
+    } catch {
+      // 파일이 없으면 새로 생성
+    }
+
+    const data: PushData = {
+      vapid: vapid ?? stored.vapid ?? generateVapidKeys(),
+      subscriptions: Array.isArray(stored.subscriptions) ? stored.subscriptions : [],
+    };
+
+    // 키가 바뀌었으면 기존 구독은 더 이상 유효하지 않음
+    if (stored.vapid && stored.vapid.publicKey !== data.vapid.publicKey) {
+      data.subscriptions = [];
+    }
+
+    if (!stored.vapid || stored.vapid.publicKey !== data.vapid.publicKey) {
+      this.data = data;
+      this.save();
+    }
+    return data;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.dataPath), { recursive: true });
+      fs.writeFileSync(this.dataPath, JSON.stringify(this.data, null, 2));
+    } catch (err) {
+      log(`[Push] Failed to save ${this.dataPath}: ${(err as Error).message}`);
+    }
+  }
+}
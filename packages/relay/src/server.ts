@@ -24,6 +24,7 @@ import type {
   ReleaseClientIndexAction,
   DeviceConfig,
 } from './types.js';
+import type { PushService } from './push-service.js';
 import { handleMessage, handleDisconnect, handleConnection } from './message-handler.js';
 import { getDeviceList, createDeviceStatusMessage } from './device-status.js';
 import { log, getClientIp, generateClientId, getDeviceInfo } from './utils.js';
@@ -71,6 +72,9 @@ export interface RelayServerState {
 
   /** 디바이스 설정 */
   devices: Record<number, DeviceConfig>;
+
+  /** Web Push 서비스 (없으면 푸시 비활성) */
+  push?: PushService;
 }
 
 // ============================================================================
@@ -158,6 +162,31 @@ function executeAction(action: RelayAction, state: RelayServerState): void {
     case 'release_client_index':
       state.clientAllocator.release(action.deviceIndex);
       break;
+
+    case 'push_config':
+      executeSendAction(
+        {
+          type: 'send',
+          clientId: action.clientId,
+          message: { type: 'push_config', payload: { publicKey: state.push?.getPublicKey() ?? null } },
+        },
+        state
+      );
+      break;
+
+    case 'push_subscribe':
+      state.push?.subscribe(action.deviceId, action.payload);
+      break;
+
+    case 'push_unsubscribe':
+      state.push?.unsubscribe(action.endpoint);
+      break;
+
+    case 'push_notify':
+      state.push?.notify(action.pylonId, action.payload).catch((err: Error) => {
+        log(`[Push] Notify failed: ${err.message}`);
+      });
+      break;
   }
 }
 
@@ -273,6 +302,7 @@ function onMessage(
             connectedAt: c.connectedAt,
             authenticated: c.authenticated,
             pylonVersion: c.pylonVersion,
+            activeSessions: c.activeSessions,
           },
         ])
       ),
@@ -345,6 +375,7 @@ function onClose(clientId: string, state: RelayServerState): void {
             connectedAt: c.connectedAt,
             authenticated: c.authenticated,
             pylonVersion: c.pylonVersion,
+            activeSessions: c.activeSessions,
           },
         ])
       )
@@ -370,6 +401,7 @@ function broadcastDeviceStatus(state: RelayServerState): void {
           connectedAt: c.connectedAt,
           authenticated: c.authenticated,
           pylonVersion: c.pylonVersion,
+          activeSessions: c.activeSessions,
         },
       ])
     ),
@@ -411,6 +443,9 @@ export interface RelayServerOptions {
 
   /** 정적 파일 디렉토리 (설정 시 HTTP 서버에서 정적 파일 서빙) */
   staticDir?: string;
+
+  /** Web Push 서비스 (설정 시 푸시 알림 구독/발송 지원) */
+  push?: PushService;
 }
 
 /**
@@ -466,6 +501,7 @@ export function createRelayServer(
     clients: new Map(),
     clientAllocator: new ClientIndexAllocator(),
     devices: options.devices ?? DEVICES,
+    push: options.push,
   };
 
   const start = (): void => {
@@ -532,6 +568,9 @@ export function createRelayServer(
  *
  * # 정적 파일 디렉토리 설정 (환경변수)
  * STATIC_DIR=./public PORT=8080 node dist/server.js
+ *
+ * # Web Push 구독 저장 위치 및 VAPID subject
+ * PUSH_DATA_PATH=./data/push.json VAPID_SUBJECT=mailto:me@example.com node dist/server.js
  * ```
  */
 export async function main(options: RelayServerOptions = {}): Promise<MainResult> {
@@ -563,7 +602,14 @@ export async function main(options: RelayServerOptions = {}): Promise<MainResult
     log(`[Estelle Relay v2] Started on port ${port}`);
   }
 
-  const relay = createRelayServer(wss, { port, devices: options.devices });
+  // Web Push (구독/VAPID 키는 PUSH_DATA_PATH 파일에 유지)
+  const { PushService } = await import('./push-service.js');
+  const push = options.push ?? new PushService({
+    dataPath: process.env['PUSH_DATA_PATH'] || 'data/push.json',
+    subject: process.env['VAPID_SUBJECT'] || 'mailto:estelle@localhost',
+  });
+
+  const relay = createRelayServer(wss, { port, devices: options.devices, push });
   relay.start();
 
   // Graceful shutdown
@@ -6,7 +6,7 @@
  * 클라이언트 연결 정보, 디바이스 설정, 상태 관리 등을 위한 타입을 정의합니다.
  */
 
-import type { DeviceType, Message } from '@estelle/core';
+import type { DeviceType, Message, PylonActiveSession, PushNotifyPayload, PushSubscribePayload } from '@estelle/core';
 
 // ============================================================================
 // 디바이스 설정 타입
@@ -157,6 +157,9 @@ export interface Client {
 
   /** Pylon 버전 (pylon 전용 - 인증 시 전달받은 버전) */
   pylonVersion?: string;
+
+  /** 활성 세션 목록 (pylon 전용 - pylon_sessions로 보고받은 값) */
+  activeSessions?: PylonActiveSession[];
 }
 
 /**
@@ -304,6 +307,9 @@ export interface DeviceListItem {
 
   /** 연결 시각 (ISO 문자열) */
   connectedAt: string;
+
+  /** 활성 세션 목록 (pylon이 보고한 경우에만 포함) */
+  activeSessions?: PylonActiveSession[];
 }
 
 // ============================================================================
@@ -392,6 +398,49 @@ export interface ReleaseClientIndexAction {
   deviceIndex: number;
 }
 
+/**
+ * 푸시 설정 응답 액션
+ *
+ * @description
+ * VAPID 공개키는 서버 어댑터가 가지고 있으므로, 응답 전송을 어댑터에 맡깁니다.
+ */
+export interface PushConfigAction {
+  type: 'push_config';
+  /** 응답 대상 clientId */
+  clientId: string;
+}
+
+/**
+ * 푸시 구독 등록 액션
+ */
+export interface PushSubscribeAction {
+  type: 'push_subscribe';
+  /** 구독한 App의 deviceId */
+  deviceId: number;
+  /** 구독 정보와 알림 설정 */
+  payload: PushSubscribePayload;
+}
+
+/**
+ * 푸시 구독 해제 액션
+ */
+export interface PushUnsubscribeAction {
+  type: 'push_unsubscribe';
+  /** 해제할 구독 엔드포인트 */
+  endpoint: string;
+}
+
+/**
+ * 푸시 알림 발송 액션
+ */
+export interface PushNotifyAction {
+  type: 'push_notify';
+  /** 알림을 보낸 Pylon ID */
+  pylonId: number;
+  /** 알림 내용 */
+  payload: PushNotifyPayload;
+}
+
 /**
  * 메시지 핸들러가 반환하는 액션들의 유니온 타입
  */
@@ -400,7 +449,11 @@ export type RelayAction =
   | BroadcastAction
   | UpdateClientAction
   | AllocateClientIndexAction
-  | ReleaseClientIndexAction;
+  | ReleaseClientIndexAction
+  | PushConfigAction
+  | PushSubscribeAction
+  | PushUnsubscribeAction
+  | PushNotifyAction;
 
 // ============================================================================
 // 타입 가드 함수
@@ -0,0 +1,220 @@
+/**
+ * @file web-push.ts
+ * @description Web Push 프로토콜 구현 (VAPID 인증 + aes128gcm 페이로드 암호화)
+ *
+ * 외부 라이브러리 없이 Node.js crypto로 구현합니다.
+ * - VAPID: RFC 8292 (ES256 JWT)
+ * - 페이로드 암호화: RFC 8291 (ECDH P-256 + HKDF + AES-128-GCM, RFC 8188 레코드 1개)
+ */
+
+import * as crypto from 'crypto';
+import type { WebPushSubscription } from '@estelle/core';
+
+// ============================================================================
+// 타입
+// ============================================================================
+
+/**
+ * VAPID 키 쌍 (base64url)
+ */
+export interface VapidKeys {
+  /** 비압축 P-256 공개키 (65바이트) */
+  publicKey: string;
+  /** P-256 개인키 스칼라 (32바이트) */
+  privateKey: string;
+}
+
+/**
+ * 푸시 발송 옵션
+ */
+export interface WebPushOptions {
+  /** VAPID 키 쌍 */
+  vapid: VapidKeys;
+  /** VAPID subject (mailto: 또는 https: URL) */
+  subject: string;
+  /** 푸시 서비스 보관 시간 (초, 기본: 1일) */
+  ttl?: number;
+  /** 긴급도 (기본: normal) */
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+/**
+ * 푸시 발송 결과
+ */
+export interface WebPushResult {
+  /** HTTP 상태 코드 */
+  statusCode: number;
+  /** 구독이 만료/해제되어 삭제해야 하는지 (404, 410) */
+  expired: boolean;
+}
+
+/** 레코드 크기 (RFC 8188) */
+const RECORD_SIZE = 4096;
+
+/** VAPID JWT 유효 시간 (12시간) */
+const JWT_EXPIRATION_SECONDS = 12 * 60 * 60;
+
+// ============================================================================
+// base64url
+// ============================================================================
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+// ============================================================================
+// VAPID
+// ============================================================================
+
+/**
+ * VAPID 키 쌍 생성
+ */
+export function generateVapidKeys(): VapidKeys {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const pub = publicKey.export({ format: 'jwk' });
+
+  return {
+    publicKey: toBase64Url(Buffer.concat([
+      Buffer.from([0x04]),
+      fromBase64Url(pub.x!),
+      fromBase64Url(pub.y!),
+    ])),
+    privateKey: jwk.d!,
+  };
+}
+
+/**
+ * VAPID 키 쌍 → 서명용 KeyObject
+ */
+function toPrivateKeyObject(vapid: VapidKeys): crypto.KeyObject {
+  const pub = fromBase64Url(vapid.publicKey);
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(pub.subarray(1, 33)),
+      y: toBase64Url(pub.subarray(33, 65)),
+      d: vapid.privateKey,
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * VAPID Authorization 헤더 생성
+ *
+ * @param endpoint - 구독 엔드포인트 (aud는 엔드포인트의 origin)
+ * @param vapid - VAPID 키 쌍
+ * @param subject - 연락처 (mailto: 또는 https:)
+ * @param now - 현재 시각 (ms, 테스트용)
+ * @returns `vapid t=<JWT>, k=<공개키>`
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  subject: string,
+  now: number = Date.now()
+): string {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_EXPIRATION_SECONDS,
+    sub: subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: toPrivateKeyObject(vapid),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+// ============================================================================
+// 페이로드 암호화
+// ============================================================================
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * 푸시 페이로드 암호화 (aes128gcm)
+ *
+ * @param subscription - 브라우저 구독 정보 (p256dh, auth)
+ * @param payload - 평문 페이로드
+ * @returns 헤더(salt, rs, keyid=서버 공개키)가 포함된 암호문
+ */
+export function encryptPushPayload(subscription: WebPushSubscription, payload: Buffer): Buffer {
+  const uaPublic = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+
+  // 메시지마다 새 서버 키 쌍
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const asPublic = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.randomBytes(16);
+  const cek = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 단일 레코드: 평문 + 마지막 레코드 구분자(0x02)
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  const encrypted = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+
+  return Buffer.concat([header, asPublic, encrypted]);
+}
+
+// ============================================================================
+// 발송
+// ============================================================================
+
+/**
+ * Web Push 발송
+ *
+ * @param subscription - 브라우저 구독 정보
+ * @param payload - 평문 페이로드 (보통 JSON 문자열)
+ * @param options - VAPID 및 발송 옵션
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  options: WebPushOptions
+): Promise<WebPushResult> {
+  const body = encryptPushPayload(subscription, Buffer.from(payload, 'utf-8'));
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, options.vapid, options.subject),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttl ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? 'normal',
+    },
+    body: new Uint8Array(body),
+  });
+
+  return {
+    statusCode: response.status,
+    expired: response.status === 404 || response.status === 410,
+  };
+}
@@ -4,12 +4,28 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 import { runCli, parseCliArgs, type CliResult } from '../src/cli.js';
 
 // 테스트용 포트 (19000번대: 개발/v1 포트와 완전 분리)
 const TEST_PORT = '19001';
 
+// 푸시 구독 파일이 패키지 폴더에 생기지 않도록 임시 경로 사용
+let pushDataDir: string;
+
+beforeEach(() => {
+  pushDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-cli-'));
+  process.env['PUSH_DATA_PATH'] = path.join(pushDataDir, 'push.json');
+});
+
+afterEach(() => {
+  delete process.env['PUSH_DATA_PATH'];
+  fs.rmSync(pushDataDir, { recursive: true, force: true });
+});
+
 describe('CLI 진입점', () => {
   describe('runCli', () => {
     let serverResult: CliResult | undefined;
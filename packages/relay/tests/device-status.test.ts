@@ -76,6 +76,24 @@ describe('device-status', () => {
       expect(app3?.role).toBe('client');
     });
 
+    it('should include active sessions reported by pylon', () => {
+      const sessions = [
+        {
+          conversationId: 132097,
+          conversationName: '리팩토링',
+          workspaceId: 129,
+          workspaceName: 'estelle',
+          status: 'waiting' as const,
+        },
+      ];
+      clients.set('client-pylon-1', { ...createClient(1, 'pylon', true), activeSessions: sessions });
+
+      const list = getDeviceList(clients, testDevices);
+
+      expect(list.find(d => d.deviceId === 1)?.activeSessions).toEqual(sessions);
+      expect(list.find(d => d.deviceId === 2)).not.toHaveProperty('activeSessions');
+    });
+
     it('should return empty list when no authenticated clients', () => {
       const emptyClients = new Map([
         ['client-pending', createClient(null, null, false)],
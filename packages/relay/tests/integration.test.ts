@@ -10,6 +10,9 @@
 
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
 import WebSocket from 'ws';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import type { CliResult } from '../src/cli.js';
 import { runCli } from '../src/cli.js';
 
@@ -138,6 +141,7 @@ class TestClient {
 describe('Relay L2 통합 테스트', () => {
   let serverResult: CliResult | undefined;
   let originalPort: string | undefined;
+  let pushDataDir: string;
   let clients: TestClient[] = [];
 
   /** 테스트용 클라이언트 생성 */
@@ -159,6 +163,9 @@ describe('Relay L2 통합 테스트', () => {
     // 환경변수 백업 및 설정
     originalPort = process.env['PORT'];
     process.env['PORT'] = String(TEST_PORT);
+    // 푸시 구독 파일이 패키지 폴더에 생기지 않도록 임시 경로 사용
+    pushDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-integration-'));
+    process.env['PUSH_DATA_PATH'] = path.join(pushDataDir, 'push.json');
 
     // 서버 시작
     serverResult = await runCli();
@@ -181,6 +188,8 @@ describe('Relay L2 통합 테스트', () => {
     } else {
       delete process.env['PORT'];
     }
+    delete process.env['PUSH_DATA_PATH'];
+    fs.rmSync(pushDataDir, { recursive: true, force: true });
   });
 
   afterEach(() => {
@@ -9,11 +9,14 @@ import {
   handleAuth,
   handleGetDevices,
   handlePing,
+  handlePylonSessions,
   handleRouting,
   handleMessage,
   handleDisconnect,
   handleConnection,
+  handlePush,
 } from '../src/message-handler.js';
+import type { AuthenticatedClient } from '../src/types.js';
 import { ClientIndexAllocator } from '../src/device-id-validation.js';
 
 describe('message-handler', () => {
@@ -215,6 +218,147 @@ describe('message-handler', () => {
     });
   });
 
+  describe('handlePylonSessions', () => {
+    const sessions = [
+      {
+        conversationId: 132097,
+        conversationName: '리팩토링',
+        workspaceId: 129,
+        workspaceName: 'estelle',
+        status: 'waiting',
+      },
+    ];
+
+    it('should store sessions and broadcast device_status to apps', () => {
+      const client = clients.get('client-pylon-1')!;
+      const result = handlePylonSessions('client-pylon-1', client, { sessions }, clients, testDevices);
+
+      expect(result.actions).toHaveLength(2);
+      expect(result.actions[0]).toEqual({
+        type: 'update_client',
+        clientId: 'client-pylon-1',
+        updates: { activeSessions: sessions },
+      });
+
+      const broadcast = result.actions[1];
+      expect(broadcast.type).toBe('broadcast');
+      if (broadcast.type === 'broadcast') {
+        // App에게만 전송 (Pylon 제외)
+        expect(broadcast.clientIds).toEqual(['client-app-0']);
+        expect(broadcast.message.type).toBe('device_status');
+        const payload = broadcast.message.payload as any;
+        const pylon = payload.devices.find((d: any) => d.deviceType === 'pylon');
+        expect(pylon.activeSessions).toEqual(sessions);
+      }
+    });
+
+    it('should reject reports from non-pylon clients', () => {
+      const client = clients.get('client-app-0')!;
+      const result = handlePylonSessions('client-app-0', client, { sessions }, clients, testDevices);
+
+      expect(result.actions).toHaveLength(1);
+      expect(result.actions[0].type).toBe('send');
+      if (result.actions[0].type === 'send') {
+        expect(result.actions[0].message.type).toBe('error');
+      }
+    });
+
+    it('should reject invalid payload', () => {
+      const client = clients.get('client-pylon-1')!;
+      const result = handlePylonSessions('client-pylon-1', client, { sessions: 'none' }, clients, testDevices);
+
+      expect(result.actions).toHaveLength(1);
+      expect(result.actions[0].type).toBe('send');
+    });
+
+    it('should be dispatched from handleMessage', () => {
+      const client = clients.get('client-pylon-1')!;
+      const result = handleMessage(
+        'client-pylon-1',
+        client,
+        { type: 'pylon_sessions', payload: { sessions: [] } },
+        0,
+        0,
+        clients,
+        testDevices
+      );
+
+      expect(result.actions[0].type).toBe('update_client');
+    });
+  });
+
+  describe('handlePush', () => {
+    const subscription = {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: 'BPk', auth: 'xyz' },
+    };
+    const preferences = {
+      enabled: true,
+      events: { permission: true, question: true, finished: true, error: true, task: true },
+      mutedPylonIds: [],
+      mutedWorkspaceIds: [],
+    };
+    const pylon = createClient(1, 'pylon', true) as AuthenticatedClient;
+    const app = createClient(0, 'app', true) as AuthenticatedClient;
+
+    it('should create push_notify action with encoded pylon id', () => {
+      const payload = { event: 'permission', title: '권한 요청', body: 'Bash: ls', conversationId: 132097 };
+      const result = handlePush('client-pylon-1', pylon, { type: 'push_notify', payload }, 0);
+
+      // envId=0, deviceType=pylon(0), deviceIndex=1 → 1
+      expect(result.actions).toEqual([{ type: 'push_notify', pylonId: 1, payload }]);
+    });
+
+    it('should reject push_notify from app and invalid payload', () => {
+      const fromApp = handlePush(
+        'client-app-0',
+        app,
+        { type: 'push_notify', payload: { event: 'finished', title: 't', body: 'b' } },
+        0
+      );
+      expect(fromApp.actions[0].type).toBe('send');
+
+      const invalid = handlePush('client-pylon-1', pylon, { type: 'push_notify', payload: { event: 'x' } }, 0);
+      expect(invalid.actions[0].type).toBe('send');
+    });
+
+    it('should create subscribe, unsubscribe and config actions for app', () => {
+      expect(
+        handlePush('client-app-0', app, { type: 'push_subscribe', payload: { subscription, preferences } }, 0)
+          .actions
+      ).toEqual([{ type: 'push_subscribe', deviceId: 16, payload: { subscription, preferences } }]);
+
+      expect(
+        handlePush('client-app-0', app, { type: 'push_unsubscribe', payload: { endpoint: subscription.endpoint } }, 0)
+          .actions
+      ).toEqual([{ type: 'push_unsubscribe', endpoint: subscription.endpoint }]);
+
+      expect(handlePush('client-app-0', app, { type: 'push_config_request' }, 0).actions).toEqual([
+        { type: 'push_config', clientId: 'client-app-0' },
+      ]);
+    });
+
+    it('should reject subscription management from pylon', () => {
+      const result = handlePush('client-pylon-1', pylon, { type: 'push_config_request' }, 0);
+
+      expect(result.actions[0].type).toBe('send');
+    });
+
+    it('should be dispatched from handleMessage', () => {
+      const result = handleMessage(
+        'client-app-0',
+        clients.get('client-app-0')!,
+        { type: 'push_config_request' },
+        0,
+        0,
+        clients,
+        testDevices
+      );
+
+      expect(result.actions).toEqual([{ type: 'push_config', clientId: 'client-app-0' }]);
+    });
+  });
+
   describe('handleRouting', () => {
     it('should route message with to field', () => {
       const client = createClient(0, 'app', true);
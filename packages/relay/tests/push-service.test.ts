@@ -0,0 +1,131 @@
+/**
+ * @file push-service.test.ts
+ * @description 푸시 구독 관리 및 발송 테스트
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { NotificationPreferences, PushNotifyPayload } from '@estelle/core';
+import { PushService, shouldDeliverPush, createPushMessageData } from '../src/push-service.js';
+
+const preferences: NotificationPreferences = {
+  enabled: true,
+  events: { permission: true, question: true, finished: true, error: true, task: true },
+  mutedPylonIds: [],
+  mutedWorkspaceIds: [],
+};
+
+const notification: PushNotifyPayload = {
+  event: 'permission',
+  title: '권한 요청 · Fix',
+  body: 'Bash: pnpm test',
+  conversationId: 132097,
+  workspaceId: 129,
+};
+
+function subscription(id: string) {
+  return {
+    endpoint: `https://push.example.com/send/${id}`,
+    keys: { p256dh: 'BPk', auth: 'xyz' },
+  };
+}
+
+describe('shouldDeliverPush', () => {
+  it('should deliver when enabled and not muted', () => {
+    expect(shouldDeliverPush(preferences, 1, notification)).toBe(true);
+  });
+
+  it('should respect enabled flag and event toggles', () => {
+    expect(shouldDeliverPush({ ...preferences, enabled: false }, 1, notification)).toBe(false);
+    expect(
+      shouldDeliverPush({ ...preferences, events: { ...preferences.events, permission: false } }, 1, notification)
+    ).toBe(false);
+  });
+
+  it('should respect muted pylons and workspaces', () => {
+    expect(shouldDeliverPush({ ...preferences, mutedPylonIds: [1] }, 1, notification)).toBe(false);
+    expect(shouldDeliverPush({ ...preferences, mutedWorkspaceIds: [129] }, 1, notification)).toBe(false);
+    expect(shouldDeliverPush({ ...preferences, mutedWorkspaceIds: [130] }, 1, notification)).toBe(true);
+  });
+});
+
+describe('createPushMessageData', () => {
+  it('should tag by conversation so newer alerts replace older ones', () => {
+    expect(createPushMessageData(1, notification)).toEqual({
+      ...notification,
+      pylonId: 1,
+      tag: 'conversation-132097',
+    });
+  });
+});
+
+describe('PushService', () => {
+  let dir: string;
+  let dataPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-push-'));
+    dataPath = path.join(dir, 'push.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate and persist VAPID keys', () => {
+    const first = new PushService({ dataPath, subject: 'mailto:a@example.com' });
+    const second = new PushService({ dataPath, subject: 'mailto:a@example.com' });
+
+    expect(first.getPublicKey()).toBe(second.getPublicKey());
+    expect(JSON.parse(fs.readFileSync(dataPath, 'utf-8')).vapid.publicKey).toBe(first.getPublicKey());
+  });
+
+  it('should upsert subscriptions by endpoint and persist them', () => {
+    const service = new PushService({ dataPath, subject: 'mailto:a@example.com' });
+    service.subscribe(16, { subscription: subscription('a'), preferences });
+    service.subscribe(16, { subscription: subscription('a'), preferences: { ...preferences, enabled: false } });
+    service.subscribe(17, { subscription: subscription('b'), preferences });
+
+    const reloaded = new PushService({ dataPath, subject: 'mailto:a@example.com' });
+    expect(reloaded.getSubscriptions()).toHaveLength(2);
+    expect(reloaded.getSubscriptions()[0].preferences.enabled).toBe(false);
+
+    reloaded.unsubscribe(subscription('a').endpoint);
+    expect(reloaded.getSubscriptions().map((s) => s.deviceId)).toEqual([17]);
+  });
+
+  it('should send only to matching subscriptions and drop expired ones', async () => {
+    const send = vi.fn(async (sub: { endpoint: string }) => ({
+      statusCode: sub.endpoint.endsWith('gone') ? 410 : 201,
+      expired: sub.endpoint.endsWith('gone'),
+    }));
+    const service = new PushService({ dataPath, subject: 'mailto:a@example.com', send });
+    service.subscribe(16, { subscription: subscription('a'), preferences });
+    service.subscribe(17, { subscription: subscription('muted'), preferences: { ...preferences, mutedPylonIds: [1] } });
+    service.subscribe(18, { subscription: subscription('gone'), preferences });
+
+    const delivered = await service.notify(1, notification);
+
+    expect(delivered).toBe(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    const [, payload, options] = send.mock.calls[0] as unknown as [unknown, string, { urgency: string }];
+    expect(JSON.parse(payload)).toMatchObject({ title: '권한 요청 · Fix', pylonId: 1 });
+    expect(options.urgency).toBe('high');
+    expect(service.getSubscriptions().map((s) => s.deviceId)).toEqual([16, 17]);
+  });
+
+  it('should drop subscriptions when VAPID key changes', () => {
+    const service = new PushService({ dataPath, subject: 'mailto:a@example.com' });
+    service.subscribe(16, { subscription: subscription('a'), preferences });
+
+    const rotated = new PushService({
+      dataPath,
+      subject: 'mailto:a@example.com',
+      vapid: { publicKey: 'other', privateKey: 'other' },
+    });
+
+    expect(rotated.getSubscriptions()).toEqual([]);
+  });
+});
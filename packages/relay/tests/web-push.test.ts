@@ -0,0 +1,137 @@
+/**
+ * @file web-push.test.ts
+ * @description Web Push 프로토콜 (VAPID, aes128gcm) 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import {
+  generateVapidKeys,
+  createVapidAuthorization,
+  encryptPushPayload,
+} from '../src/web-push.js';
+
+/**
+ * 브라우저(User Agent) 역할: 키 쌍과 auth secret 생성
+ */
+function createUserAgent() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  return {
+    ecdh,
+    subscription: {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: {
+        p256dh: ecdh.getPublicKey().toString('base64url'),
+        auth: auth.toString('base64url'),
+      },
+    },
+    auth,
+  };
+}
+
+/**
+ * RFC 8291 복호화 (브라우저가 하는 일)
+ */
+function decrypt(ua: ReturnType<typeof createUserAgent>, body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const asPublic = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const hkdf = (s: Buffer, ikm: Buffer, info: string | Buffer, len: number) =>
+    Buffer.from(crypto.hkdfSync('sha256', ikm, s, info, len));
+
+  const shared = ua.ecdh.computeSecret(asPublic);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), ua.ecdh.getPublicKey(), asPublic]);
+  const ikm = hkdf(ua.auth, shared, keyInfo, 32);
+  const cek = hkdf(salt, ikm, 'Content-Encoding: aes128gcm\0', 16);
+  const nonce = hkdf(salt, ikm, 'Content-Encoding: nonce\0', 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', cek, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plain = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+
+  // 마지막 레코드 구분자 확인 후 제거
+  expect(plain[plain.length - 1]).toBe(0x02);
+  return plain.subarray(0, plain.length - 1).toString('utf-8');
+}
+
+describe('generateVapidKeys', () => {
+  it('should generate uncompressed P-256 public key and 32-byte private key', () => {
+    const keys = generateVapidKeys();
+    const pub = Buffer.from(keys.publicKey, 'base64url');
+
+    expect(pub).toHaveLength(65);
+    expect(pub[0]).toBe(0x04);
+    expect(Buffer.from(keys.privateKey, 'base64url')).toHaveLength(32);
+  });
+});
+
+describe('createVapidAuthorization', () => {
+  it('should create ES256 JWT verifiable with the public key', () => {
+    const keys = generateVapidKeys();
+    const now = Date.UTC(2026, 0, 1);
+    const header = createVapidAuthorization(
+      'https://fcm.googleapis.com/fcm/send/abc',
+      keys,
+      'mailto:admin@example.com',
+      now
+    );
+
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(header);
+    expect(match).not.toBeNull();
+    const [, jwt, k] = match!;
+    expect(k).toBe(keys.publicKey);
+
+    const [h, c, s] = jwt.split('.');
+    expect(JSON.parse(Buffer.from(c, 'base64url').toString())).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: now / 1000 + 12 * 60 * 60,
+      sub: 'mailto:admin@example.com',
+    });
+
+    const pub = Buffer.from(keys.publicKey, 'base64url');
+    const publicKey = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: pub.subarray(1, 33).toString('base64url'),
+        y: pub.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${h}.${c}`),
+      { key: publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(s, 'base64url')
+    );
+    expect(valid).toBe(true);
+  });
+});
+
+describe('encryptPushPayload', () => {
+  it('should produce aes128gcm body decryptable by the subscriber', () => {
+    const ua = createUserAgent();
+    const payload = JSON.stringify({ title: '권한 요청', body: 'Bash: pnpm test' });
+
+    const body = encryptPushPayload(ua.subscription, Buffer.from(payload));
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body.readUInt8(20)).toBe(65);
+    expect(decrypt(ua, body)).toBe(payload);
+  });
+
+  it('should use fresh salt and server key per message', () => {
+    const ua = createUserAgent();
+    const a = encryptPushPayload(ua.subscription, Buffer.from('x'));
+    const b = encryptPushPayload(ua.subscription, Buffer.from('x'));
+
+    expect(a.subarray(0, 86).equals(b.subarray(0, 86))).toBe(false);
+  });
+});